@@ -0,0 +1,29 @@
+-- ============================================================================
+-- Centercode Alchemy - Select and MultiSelect Field Types
+-- Migration: 010_add_select_field_types.sql
+-- ============================================================================
+-- Adds Select and MultiSelect to the allowed field types and introduces a
+-- per-field config column that holds type-specific settings such as the
+-- managed option list.
+--
+-- Value storage in session_field_values.value:
+-- - Select:      the option value, e.g. "public"
+-- - MultiSelect: a JSON array of option values, e.g. '["email","panel"]'
+
+-- ============================================================================
+-- 1. ADD FIELD CONFIG COLUMN
+-- ============================================================================
+ALTER TABLE fields ADD COLUMN config JSONB NOT NULL DEFAULT '{}';
+
+COMMENT ON COLUMN fields.config IS 'Type-specific settings (e.g., {"options": [{"value": "public", "label": "Public"}]})';
+
+-- ============================================================================
+-- 2. EXTEND FIELD TYPE CHECK CONSTRAINT
+-- ============================================================================
+ALTER TABLE fields DROP CONSTRAINT IF EXISTS fields_type_check;
+ALTER TABLE fields ADD CONSTRAINT fields_type_check
+  CHECK (type IN ('ShortText', 'LongText', 'Toggle', 'Select', 'MultiSelect'));
+
+-- ============================================================================
+-- END OF MIGRATION 010
+-- ============================================================================
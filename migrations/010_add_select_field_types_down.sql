@@ -0,0 +1,28 @@
+-- ============================================================================
+-- Centercode Alchemy - Rollback Select and MultiSelect Field Types
+-- Migration: 010_add_select_field_types_down.sql
+-- ============================================================================
+-- Converts Select and MultiSelect fields back to ShortText and removes the
+-- field config column. Stored values are kept as-is (MultiSelect values remain
+-- JSON array strings).
+
+-- ============================================================================
+-- 1. CONVERT OPTION FIELDS TO SHORT TEXT
+-- ============================================================================
+UPDATE fields SET type = 'ShortText' WHERE type IN ('Select', 'MultiSelect');
+
+-- ============================================================================
+-- 2. RESTORE FIELD TYPE CHECK CONSTRAINT
+-- ============================================================================
+ALTER TABLE fields DROP CONSTRAINT IF EXISTS fields_type_check;
+ALTER TABLE fields ADD CONSTRAINT fields_type_check
+  CHECK (type IN ('ShortText', 'LongText', 'Toggle'));
+
+-- ============================================================================
+-- 3. DROP FIELD CONFIG COLUMN
+-- ============================================================================
+ALTER TABLE fields DROP COLUMN IF EXISTS config;
+
+-- ============================================================================
+-- END OF MIGRATION 010 ROLLBACK
+-- ============================================================================
@@ -0,0 +1,22 @@
+-- ============================================================================
+-- Centercode Alchemy - Number and Currency Field Types
+-- Migration: 011_add_number_currency_field_types.sql
+-- ============================================================================
+-- Adds Number and Currency to the allowed field types. Their settings live in
+-- fields.config:
+-- - Number:   {"min": 1, "max": 500, "step": 1, "unit": "participants"}
+-- - Currency: {"min": 0, "currency": "USD"}
+--
+-- Values are stored in session_field_values.value in canonical numeric form
+-- (e.g. "1299.5") and formatted per locale when rendered into artifacts.
+
+-- ============================================================================
+-- 1. EXTEND FIELD TYPE CHECK CONSTRAINT
+-- ============================================================================
+ALTER TABLE fields DROP CONSTRAINT IF EXISTS fields_type_check;
+ALTER TABLE fields ADD CONSTRAINT fields_type_check
+  CHECK (type IN ('ShortText', 'LongText', 'Toggle', 'Select', 'MultiSelect', 'Number', 'Currency'));
+
+-- ============================================================================
+-- END OF MIGRATION 011
+-- ============================================================================
@@ -0,0 +1,22 @@
+-- ============================================================================
+-- Centercode Alchemy - Rollback Number and Currency Field Types
+-- Migration: 011_add_number_currency_field_types_down.sql
+-- ============================================================================
+-- Converts Number and Currency fields back to ShortText. Stored values are
+-- kept as-is.
+
+-- ============================================================================
+-- 1. CONVERT NUMERIC FIELDS TO SHORT TEXT
+-- ============================================================================
+UPDATE fields SET type = 'ShortText' WHERE type IN ('Number', 'Currency');
+
+-- ============================================================================
+-- 2. RESTORE FIELD TYPE CHECK CONSTRAINT
+-- ============================================================================
+ALTER TABLE fields DROP CONSTRAINT IF EXISTS fields_type_check;
+ALTER TABLE fields ADD CONSTRAINT fields_type_check
+  CHECK (type IN ('ShortText', 'LongText', 'Toggle', 'Select', 'MultiSelect'));
+
+-- ============================================================================
+-- END OF MIGRATION 011 ROLLBACK
+-- ============================================================================
@@ -0,0 +1,64 @@
+-- ============================================================================
+-- Centercode Alchemy - Date and DateRange Field Types
+-- Migration: 012_add_date_field_types.sql
+-- ============================================================================
+-- Adds Date and DateRange to the allowed field types and a per-generator date
+-- format for rendering them in tokens.
+--
+-- Value storage in session_field_values.value:
+-- - Date:      ISO 8601 date, e.g. "2025-03-14"
+-- - DateRange: ISO 8601 interval, e.g. "2025-03-01/2025-03-14"
+--
+-- Cross-field rules live in fields.config, e.g. {"after_field": "start_date"}
+-- means the field can't be earlier than start_date.
+
+-- ============================================================================
+-- 1. EXTEND FIELD TYPE CHECK CONSTRAINT
+-- ============================================================================
+ALTER TABLE fields DROP CONSTRAINT IF EXISTS fields_type_check;
+ALTER TABLE fields ADD CONSTRAINT fields_type_check
+  CHECK (type IN ('ShortText', 'LongText', 'Toggle', 'Select', 'MultiSelect', 'Number', 'Currency', 'Date', 'DateRange'));
+
+-- ============================================================================
+-- 2. ADD GENERATOR DATE FORMAT
+-- ============================================================================
+ALTER TABLE blueprint_artifact_generators
+  ADD COLUMN date_format VARCHAR(20) NOT NULL DEFAULT 'iso'
+  CHECK (date_format IN ('iso', 'short', 'medium', 'long'));
+
+COMMENT ON COLUMN blueprint_artifact_generators.date_format IS 'How Date and DateRange values render in tokens (iso, short, medium, long)';
+
+-- ============================================================================
+-- 3. CONVERT "YYYY-MM-DD" TEXT FIELDS TO DATE
+-- ============================================================================
+-- Covers start_date/end_date in the seeded blueprint and its copies. Fields
+-- holding any value that isn't an ISO date are left as ShortText.
+UPDATE fields f
+SET type = 'Date', help_text = NULL
+WHERE f.type = 'ShortText'
+  AND f.help_text = 'YYYY-MM-DD'
+  AND NOT EXISTS (
+    SELECT 1 FROM session_field_values sfv
+    WHERE sfv.field_id = f.id
+      AND sfv.value <> ''
+      AND sfv.value !~ '^\d{4}-\d{2}-\d{2}$'
+  );
+
+-- End date can't be earlier than start date
+UPDATE fields f
+SET config = f.config || '{"after_field": "start_date"}'::jsonb
+FROM sections s
+WHERE s.id = f.section_id
+  AND f.key = 'end_date'
+  AND f.type = 'Date'
+  AND EXISTS (
+    SELECT 1 FROM fields f2
+    JOIN sections s2 ON s2.id = f2.section_id
+    WHERE s2.blueprint_id = s.blueprint_id
+      AND f2.key = 'start_date'
+      AND f2.type = 'Date'
+  );
+
+-- ============================================================================
+-- END OF MIGRATION 012
+-- ============================================================================
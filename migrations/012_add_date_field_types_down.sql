@@ -0,0 +1,31 @@
+-- ============================================================================
+-- Centercode Alchemy - Rollback Date and DateRange Field Types
+-- Migration: 012_add_date_field_types_down.sql
+-- ============================================================================
+-- Converts Date and DateRange fields back to ShortText and removes the
+-- generator date format. Stored values are kept as-is (ISO text).
+
+-- ============================================================================
+-- 1. CONVERT DATE FIELDS TO SHORT TEXT
+-- ============================================================================
+UPDATE fields
+SET type = 'ShortText',
+    help_text = CASE WHEN type = 'Date' AND help_text IS NULL THEN 'YYYY-MM-DD' ELSE help_text END,
+    config = config - 'after_field'
+WHERE type IN ('Date', 'DateRange');
+
+-- ============================================================================
+-- 2. RESTORE FIELD TYPE CHECK CONSTRAINT
+-- ============================================================================
+ALTER TABLE fields DROP CONSTRAINT IF EXISTS fields_type_check;
+ALTER TABLE fields ADD CONSTRAINT fields_type_check
+  CHECK (type IN ('ShortText', 'LongText', 'Toggle', 'Select', 'MultiSelect', 'Number', 'Currency'));
+
+-- ============================================================================
+-- 3. DROP GENERATOR DATE FORMAT
+-- ============================================================================
+ALTER TABLE blueprint_artifact_generators DROP COLUMN IF EXISTS date_format;
+
+-- ============================================================================
+-- END OF MIGRATION 012 ROLLBACK
+-- ============================================================================
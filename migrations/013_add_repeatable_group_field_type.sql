@@ -0,0 +1,23 @@
+-- ============================================================================
+-- Centercode Alchemy - Repeatable Group Field Type
+-- Migration: 013_add_repeatable_group_field_type.sql
+-- ============================================================================
+-- Adds RepeatableGroup to the allowed field types. Its columns live in
+-- fields.config, e.g.:
+--   {"sub_fields": [{"key": "name", "label": "Name", "type": "ShortText"},
+--                   {"key": "due", "label": "Due", "type": "Date"}]}
+--
+-- Values are stored in session_field_values.value as a JSON array of row
+-- objects keyed by sub-field key, e.g. '[{"name": "Kickoff", "due": "2025-03-01"}]'.
+-- Existing LongText list fields are not converted.
+
+-- ============================================================================
+-- 1. EXTEND FIELD TYPE CHECK CONSTRAINT
+-- ============================================================================
+ALTER TABLE fields DROP CONSTRAINT IF EXISTS fields_type_check;
+ALTER TABLE fields ADD CONSTRAINT fields_type_check
+  CHECK (type IN ('ShortText', 'LongText', 'Toggle', 'Select', 'MultiSelect', 'Number', 'Currency', 'Date', 'DateRange', 'RepeatableGroup'));
+
+-- ============================================================================
+-- END OF MIGRATION 013
+-- ============================================================================
@@ -0,0 +1,24 @@
+-- ============================================================================
+-- Centercode Alchemy - Rollback Repeatable Group Field Type
+-- Migration: 013_add_repeatable_group_field_type_down.sql
+-- ============================================================================
+-- Converts RepeatableGroup fields to LongText. Stored values are kept as-is
+-- (JSON array strings).
+
+-- ============================================================================
+-- 1. CONVERT GROUP FIELDS TO LONG TEXT
+-- ============================================================================
+UPDATE fields
+SET type = 'LongText', config = config - 'sub_fields'
+WHERE type = 'RepeatableGroup';
+
+-- ============================================================================
+-- 2. RESTORE FIELD TYPE CHECK CONSTRAINT
+-- ============================================================================
+ALTER TABLE fields DROP CONSTRAINT IF EXISTS fields_type_check;
+ALTER TABLE fields ADD CONSTRAINT fields_type_check
+  CHECK (type IN ('ShortText', 'LongText', 'Toggle', 'Select', 'MultiSelect', 'Number', 'Currency', 'Date', 'DateRange'));
+
+-- ============================================================================
+-- END OF MIGRATION 013 ROLLBACK
+-- ============================================================================
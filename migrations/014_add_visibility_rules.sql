@@ -0,0 +1,24 @@
+-- ============================================================================
+-- Centercode Alchemy - Conditional Visibility Rules
+-- Migration: 014_add_visibility_rules.sql
+-- ============================================================================
+-- Adds an optional visibility condition to fields and sections. A condition
+-- references another field in the same blueprint by key, e.g.:
+--   {"field_key": "is_public_beta", "operator": "is_on"}
+--   {"field_key": "platform", "operator": "equals", "value": "ios"}
+--
+-- Operators: equals, not_empty, is_on, is_off. NULL means always visible.
+-- Hidden fields are skipped by completion and required-field checks.
+
+-- ============================================================================
+-- 1. ADD VISIBILITY COLUMNS
+-- ============================================================================
+ALTER TABLE fields ADD COLUMN visibility JSONB;
+ALTER TABLE sections ADD COLUMN visibility JSONB;
+
+COMMENT ON COLUMN fields.visibility IS 'Optional condition on another field value that controls whether this field is shown';
+COMMENT ON COLUMN sections.visibility IS 'Optional condition on a field value that controls whether this section is shown';
+
+-- ============================================================================
+-- END OF MIGRATION 014
+-- ============================================================================
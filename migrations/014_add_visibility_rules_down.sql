@@ -0,0 +1,15 @@
+-- ============================================================================
+-- Centercode Alchemy - Rollback Conditional Visibility Rules
+-- Migration: 014_add_visibility_rules_down.sql
+-- ============================================================================
+-- Drops visibility conditions. Every field and section becomes visible again.
+
+-- ============================================================================
+-- 1. DROP VISIBILITY COLUMNS
+-- ============================================================================
+ALTER TABLE sections DROP COLUMN IF EXISTS visibility;
+ALTER TABLE fields DROP COLUMN IF EXISTS visibility;
+
+-- ============================================================================
+-- END OF MIGRATION 014 ROLLBACK
+-- ============================================================================
@@ -0,0 +1,22 @@
+-- ============================================================================
+-- Centercode Alchemy - Field Validation Rules
+-- Migration: 015_add_field_validation_rules.sql
+-- ============================================================================
+-- Adds optional declarative validation rules to text fields, e.g.:
+--   {"format": "email"}
+--   {"pattern": "[A-Z]{2}-\\d{4}", "message": "Use a code like AB-1234"}
+--   {"min_length": 20, "max_length": 500}
+--
+-- Rules apply to ShortText and LongText fields and are enforced when session
+-- values are saved. Values that break a rule count as incomplete.
+
+-- ============================================================================
+-- 1. ADD VALIDATION COLUMN
+-- ============================================================================
+ALTER TABLE fields ADD COLUMN validation JSONB;
+
+COMMENT ON COLUMN fields.validation IS 'Optional rules for text values (pattern, min_length, max_length, format, message)';
+
+-- ============================================================================
+-- END OF MIGRATION 015
+-- ============================================================================
@@ -0,0 +1,14 @@
+-- ============================================================================
+-- Centercode Alchemy - Rollback Field Validation Rules
+-- Migration: 015_add_field_validation_rules_down.sql
+-- ============================================================================
+-- Drops field validation rules. Stored values are not affected.
+
+-- ============================================================================
+-- 1. DROP VALIDATION COLUMN
+-- ============================================================================
+ALTER TABLE fields DROP COLUMN IF EXISTS validation;
+
+-- ============================================================================
+-- END OF MIGRATION 015 ROLLBACK
+-- ============================================================================
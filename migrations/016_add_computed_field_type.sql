@@ -0,0 +1,23 @@
+-- ============================================================================
+-- Centercode Alchemy - Computed Field Type
+-- Migration: 016_add_computed_field_type.sql
+-- ============================================================================
+-- Adds Computed to the allowed field types. The expression lives in
+-- fields.config, e.g.:
+--   {"expression": "days_between(start(study_window), end(study_window))"}
+--   {"expression": "round(budget / participant_count, 2)"}
+--
+-- Computed values are recalculated by the server whenever an input value is
+-- saved and stored in session_field_values like any other value, so they can
+-- be used as tokens in generator templates.
+
+-- ============================================================================
+-- 1. EXTEND FIELD TYPE CHECK CONSTRAINT
+-- ============================================================================
+ALTER TABLE fields DROP CONSTRAINT IF EXISTS fields_type_check;
+ALTER TABLE fields ADD CONSTRAINT fields_type_check
+  CHECK (type IN ('ShortText', 'LongText', 'Toggle', 'Select', 'MultiSelect', 'Number', 'Currency', 'Date', 'DateRange', 'RepeatableGroup', 'Computed'));
+
+-- ============================================================================
+-- END OF MIGRATION 016
+-- ============================================================================
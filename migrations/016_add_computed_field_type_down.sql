@@ -0,0 +1,24 @@
+-- ============================================================================
+-- Centercode Alchemy - Rollback Computed Field Type
+-- Migration: 016_add_computed_field_type_down.sql
+-- ============================================================================
+-- Converts Computed fields to ShortText. The last computed values are kept
+-- as plain text.
+
+-- ============================================================================
+-- 1. CONVERT COMPUTED FIELDS TO SHORT TEXT
+-- ============================================================================
+UPDATE fields
+SET type = 'ShortText', config = config - 'expression'
+WHERE type = 'Computed';
+
+-- ============================================================================
+-- 2. RESTORE FIELD TYPE CHECK CONSTRAINT
+-- ============================================================================
+ALTER TABLE fields DROP CONSTRAINT IF EXISTS fields_type_check;
+ALTER TABLE fields ADD CONSTRAINT fields_type_check
+  CHECK (type IN ('ShortText', 'LongText', 'Toggle', 'Select', 'MultiSelect', 'Number', 'Currency', 'Date', 'DateRange', 'RepeatableGroup'));
+
+-- ============================================================================
+-- END OF MIGRATION 016 ROLLBACK
+-- ============================================================================
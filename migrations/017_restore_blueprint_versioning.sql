@@ -0,0 +1,124 @@
+-- ============================================================================
+-- Centercode Alchemy - Restore Blueprint Versioning
+-- Migration: 017_restore_blueprint_versioning.sql
+-- ============================================================================
+-- Reintroduces immutable blueprint versions (removed in migration 006).
+--
+-- The blueprint that editors work on stays a normal row (version_of IS NULL).
+-- Publishing copies its sections, fields, and generators into a new frozen
+-- row with version_of pointing back at it and the next version number.
+-- Sessions pin to a frozen row (sessions.blueprint_id) and only move to a
+-- newer version when an editor upgrades them.
+--
+-- Frozen sections, fields, and generators remember the editable row they were
+-- copied from (source_*_id), which is how upgrades match renamed fields.
+--
+-- Existing published blueprints (and any blueprint with sessions) get a
+-- version 1: a frozen copy of their current sections, fields, and generators
+-- under a new id. The original row stays the editable blueprint, so editor
+-- URLs and other references to it keep working, and sessions, values,
+-- notes, and artifacts are re-pointed at the frozen copy.
+
+-- ============================================================================
+-- 1. ADD VERSION COLUMNS
+-- ============================================================================
+ALTER TABLE blueprints ADD COLUMN version INT NOT NULL DEFAULT 0;
+ALTER TABLE blueprints ADD COLUMN version_of UUID REFERENCES blueprints(id) ON DELETE CASCADE;
+
+ALTER TABLE sections ADD COLUMN source_section_id UUID;
+ALTER TABLE fields ADD COLUMN source_field_id UUID;
+ALTER TABLE blueprint_artifact_generators ADD COLUMN source_generator_id UUID;
+
+ALTER TABLE sessions ADD COLUMN blueprint_version INT NOT NULL DEFAULT 1;
+
+COMMENT ON COLUMN blueprints.version IS 'Frozen rows: version number. Editable rows: latest published version (0 if never published)';
+COMMENT ON COLUMN blueprints.version_of IS 'Editable blueprint this frozen version was published from (NULL for editable blueprints)';
+COMMENT ON COLUMN sections.source_section_id IS 'Editable section this frozen section was copied from';
+COMMENT ON COLUMN fields.source_field_id IS 'Editable field this frozen field was copied from (matches renamed fields across versions)';
+COMMENT ON COLUMN blueprint_artifact_generators.source_generator_id IS 'Editable generator this frozen generator was copied from';
+COMMENT ON COLUMN sessions.blueprint_version IS 'Version number of the frozen blueprint the session is pinned to';
+
+-- ============================================================================
+-- 2. FREEZE EXISTING PUBLISHED BLUEPRINTS AS VERSION 1
+-- ============================================================================
+-- Names only need to be unique among editable blueprints
+ALTER TABLE blueprints DROP CONSTRAINT IF EXISTS blueprints_company_id_name_key;
+
+DO $$
+DECLARE
+  bp RECORD;
+  frozen_id UUID;
+BEGIN
+  FOR bp IN
+    SELECT * FROM blueprints b
+    WHERE b.status = 'published'
+       OR EXISTS (SELECT 1 FROM sessions s WHERE s.blueprint_id = b.id)
+  LOOP
+    -- Frozen copy of the blueprint's current structure becomes version 1
+    INSERT INTO blueprints (company_id, name, description, status, version, version_of,
+                            created_at, updated_at)
+    VALUES (bp.company_id, bp.name, bp.description, 'published', 1, bp.id,
+            bp.created_at, bp.updated_at)
+    RETURNING id INTO frozen_id;
+
+    INSERT INTO sections (blueprint_id, order_index, title, description, key, visibility,
+                          source_section_id)
+    SELECT frozen_id, order_index, title, description, key, visibility, id
+    FROM sections WHERE blueprint_id = bp.id;
+
+    INSERT INTO fields (section_id, key, type, label, help_text, placeholder, required, span,
+                        config, visibility, validation, order_index, source_field_id)
+    SELECT frozen.id, f.key, f.type, f.label, f.help_text, f.placeholder, f.required,
+           f.span, f.config, f.visibility, f.validation, f.order_index, f.id
+    FROM fields f
+    JOIN sections frozen ON frozen.source_section_id = f.section_id
+    WHERE frozen.blueprint_id = frozen_id;
+
+    INSERT INTO blueprint_artifact_generators (blueprint_id, name, description, prompt_template,
+                                               output_format, date_format, visible_in_data_room,
+                                               order_index, source_generator_id)
+    SELECT frozen_id, name, description, prompt_template, output_format, date_format,
+           visible_in_data_room, order_index, id
+    FROM blueprint_artifact_generators WHERE blueprint_id = bp.id;
+
+    -- Sessions and everything they reference move to the frozen copy
+    UPDATE session_field_values v
+    SET field_id = frozen.id
+    FROM fields frozen
+    JOIN sections s ON s.id = frozen.section_id
+    WHERE s.blueprint_id = frozen_id
+      AND frozen.source_field_id = v.field_id;
+
+    UPDATE section_notes n
+    SET section_id = frozen.id
+    FROM sections frozen
+    WHERE frozen.blueprint_id = frozen_id
+      AND frozen.source_section_id = n.section_id;
+
+    UPDATE artifacts a
+    SET generator_id = frozen.id
+    FROM blueprint_artifact_generators frozen
+    WHERE frozen.blueprint_id = frozen_id
+      AND frozen.source_generator_id = a.generator_id;
+
+    UPDATE sessions SET blueprint_id = frozen_id WHERE blueprint_id = bp.id;
+
+    -- The original row stays editable, with version 1 as its latest version
+    UPDATE blueprints SET version = 1 WHERE id = bp.id;
+  END LOOP;
+END $$;
+
+-- ============================================================================
+-- 3. CONSTRAINTS AND INDEXES
+-- ============================================================================
+CREATE UNIQUE INDEX blueprints_company_id_name_editable_key
+ON blueprints(company_id, name) WHERE version_of IS NULL;
+
+ALTER TABLE blueprints ADD CONSTRAINT blueprints_version_of_version_key
+  UNIQUE(version_of, version);
+
+CREATE INDEX IF NOT EXISTS idx_blueprints_version_of ON blueprints(version_of);
+
+-- ============================================================================
+-- END OF MIGRATION 017
+-- ============================================================================
@@ -0,0 +1,36 @@
+-- ============================================================================
+-- Centercode Alchemy - Rollback Restore Blueprint Versioning
+-- Migration: 017_restore_blueprint_versioning_down.sql
+-- ============================================================================
+-- Drops blueprint versioning. Frozen versions become standalone published
+-- blueprints named "<name> (vN)" so sessions keep their pinned structure.
+
+-- ============================================================================
+-- 1. DETACH FROZEN VERSIONS
+-- ============================================================================
+DROP INDEX IF EXISTS idx_blueprints_version_of;
+ALTER TABLE blueprints DROP CONSTRAINT IF EXISTS blueprints_version_of_version_key;
+DROP INDEX IF EXISTS blueprints_company_id_name_editable_key;
+
+UPDATE blueprints
+SET name = name || ' (v' || version || ')'
+WHERE version_of IS NOT NULL;
+
+-- ============================================================================
+-- 2. DROP VERSION COLUMNS
+-- ============================================================================
+ALTER TABLE sessions DROP COLUMN IF EXISTS blueprint_version;
+ALTER TABLE blueprint_artifact_generators DROP COLUMN IF EXISTS source_generator_id;
+ALTER TABLE fields DROP COLUMN IF EXISTS source_field_id;
+ALTER TABLE sections DROP COLUMN IF EXISTS source_section_id;
+ALTER TABLE blueprints DROP COLUMN IF EXISTS version_of;
+ALTER TABLE blueprints DROP COLUMN IF EXISTS version;
+
+-- ============================================================================
+-- 3. RESTORE UNIQUE NAME CONSTRAINT
+-- ============================================================================
+ALTER TABLE blueprints ADD CONSTRAINT blueprints_company_id_name_key UNIQUE(company_id, name);
+
+-- ============================================================================
+-- END OF MIGRATION 017 ROLLBACK
+-- ============================================================================
@@ -0,0 +1,50 @@
+-- ============================================================================
+-- Centercode Alchemy - Section Library
+-- Migration: 018_add_section_library.sql
+-- ============================================================================
+-- Adds a company-level library of reusable sections. A library section stores
+-- its fields as JSONB in the blueprint file format (see blueprint-file.ts), so
+-- it isn't tied to any blueprint.
+--
+-- Sections inserted as linked copies keep library_section_id. Updating the
+-- library section rewrites the fields of every linked copy in editable
+-- blueprints; frozen versions never carry the link. Detached copies (and
+-- copies whose library section is deleted) are ordinary sections.
+
+-- ============================================================================
+-- 1. LIBRARY SECTIONS
+-- ============================================================================
+CREATE TABLE library_sections (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  company_id UUID NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+  title VARCHAR(255) NOT NULL,
+  key VARCHAR(255) NOT NULL,
+  description TEXT,
+  fields JSONB NOT NULL DEFAULT '[]',
+  version INT NOT NULL DEFAULT 1,
+  created_by UUID REFERENCES members(id) ON DELETE SET NULL,
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW(),
+  UNIQUE(company_id, title)
+);
+
+CREATE INDEX idx_library_sections_company ON library_sections(company_id);
+
+CREATE TRIGGER update_library_sections_updated_at BEFORE UPDATE ON library_sections
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+COMMENT ON COLUMN library_sections.fields IS 'Field definitions in blueprint file format (key, type, label, help, config, ...)';
+COMMENT ON COLUMN library_sections.version IS 'Incremented each time the library section is updated';
+
+-- ============================================================================
+-- 2. LINK SECTIONS TO THE LIBRARY
+-- ============================================================================
+ALTER TABLE sections ADD COLUMN library_section_id UUID REFERENCES library_sections(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_sections_library_section ON sections(library_section_id);
+
+COMMENT ON COLUMN sections.library_section_id IS 'Library section this is a linked copy of (receives library updates)';
+
+-- ============================================================================
+-- END OF MIGRATION 018
+-- ============================================================================
@@ -0,0 +1,21 @@
+-- ============================================================================
+-- Centercode Alchemy - Rollback Section Library
+-- Migration: 018_add_section_library_down.sql
+-- ============================================================================
+-- Drops the section library. Linked copies stay in their blueprints as
+-- ordinary sections.
+
+-- ============================================================================
+-- 1. UNLINK SECTIONS
+-- ============================================================================
+DROP INDEX IF EXISTS idx_sections_library_section;
+ALTER TABLE sections DROP COLUMN IF EXISTS library_section_id;
+
+-- ============================================================================
+-- 2. DROP LIBRARY SECTIONS
+-- ============================================================================
+DROP TABLE IF EXISTS library_sections;
+
+-- ============================================================================
+-- END OF MIGRATION 018 ROLLBACK
+-- ============================================================================
@@ -0,0 +1,60 @@
+-- ============================================================================
+-- Centercode Alchemy - Session Snapshots
+-- Migration: 019_add_session_snapshots.sql
+-- ============================================================================
+-- Adds immutable snapshots of a session's field values and section notes,
+-- captured when an artifact is generated or saved. artifacts.snapshot_ref
+-- (reserved in 001_initial_schema.sql) now points at the snapshot the
+-- artifact was generated from.
+--
+-- Fields and notes are stored as JSONB with their keys, labels, and section
+-- titles, so a snapshot still reads correctly after the session is upgraded
+-- to a newer blueprint version. Snapshots with identical content are reused
+-- (content_hash), so regenerating without edits doesn't add rows.
+
+-- ============================================================================
+-- 1. SESSION SNAPSHOTS
+-- ============================================================================
+CREATE TABLE session_snapshots (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  session_id UUID NOT NULL REFERENCES sessions(id) ON DELETE CASCADE,
+  blueprint_id UUID NOT NULL REFERENCES blueprints(id),
+  blueprint_version INT NOT NULL,
+  content_hash VARCHAR(64) NOT NULL,
+  fields JSONB NOT NULL DEFAULT '[]',
+  notes JSONB NOT NULL DEFAULT '[]',
+  created_by UUID REFERENCES members(id) ON DELETE SET NULL,
+  created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX idx_session_snapshots_session ON session_snapshots(session_id, content_hash);
+
+COMMENT ON COLUMN session_snapshots.blueprint_id IS 'Frozen blueprint version the session was pinned to when captured';
+COMMENT ON COLUMN session_snapshots.content_hash IS 'SHA-256 of fields and notes, used to reuse an identical snapshot';
+COMMENT ON COLUMN session_snapshots.fields IS 'Field values with key, label, type, and section (see SessionSnapshotField)';
+COMMENT ON COLUMN session_snapshots.notes IS 'Section notes with section key and title (see SessionSnapshotNote)';
+
+-- Snapshots are never edited, only deleted with their session
+CREATE OR REPLACE FUNCTION prevent_session_snapshot_update()
+RETURNS TRIGGER AS $$
+BEGIN
+  RAISE EXCEPTION 'session snapshots are immutable';
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER prevent_session_snapshots_update BEFORE UPDATE ON session_snapshots
+  FOR EACH ROW EXECUTE FUNCTION prevent_session_snapshot_update();
+
+-- ============================================================================
+-- 2. LINK ARTIFACTS TO SNAPSHOTS
+-- ============================================================================
+ALTER TABLE artifacts ADD CONSTRAINT artifacts_snapshot_ref_fkey
+  FOREIGN KEY (snapshot_ref) REFERENCES session_snapshots(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_artifacts_snapshot_ref ON artifacts(snapshot_ref);
+
+COMMENT ON COLUMN artifacts.snapshot_ref IS 'Session snapshot holding the inputs this artifact was generated from';
+
+-- ============================================================================
+-- END OF MIGRATION 019
+-- ============================================================================
@@ -0,0 +1,25 @@
+-- ============================================================================
+-- Centercode Alchemy - Rollback Session Snapshots
+-- Migration: 019_add_session_snapshots_down.sql
+-- ============================================================================
+-- Drops session snapshots. Artifacts keep their content; snapshot_ref goes
+-- back to an unused column.
+
+-- ============================================================================
+-- 1. UNLINK ARTIFACTS
+-- ============================================================================
+DROP INDEX IF EXISTS idx_artifacts_snapshot_ref;
+ALTER TABLE artifacts DROP CONSTRAINT IF EXISTS artifacts_snapshot_ref_fkey;
+UPDATE artifacts SET snapshot_ref = NULL;
+
+COMMENT ON COLUMN artifacts.snapshot_ref IS NULL;
+
+-- ============================================================================
+-- 2. DROP SESSION SNAPSHOTS
+-- ============================================================================
+DROP TABLE IF EXISTS session_snapshots;
+DROP FUNCTION IF EXISTS prevent_session_snapshot_update();
+
+-- ============================================================================
+-- END OF MIGRATION 019 ROLLBACK
+-- ============================================================================
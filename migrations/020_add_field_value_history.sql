@@ -0,0 +1,37 @@
+-- ============================================================================
+-- Centercode Alchemy - Field Value History
+-- Migration: 020_add_field_value_history.sql
+-- ============================================================================
+-- Records every change to a session's accepted field values: who made it,
+-- when, the value before and after, and where it came from. Pending AI
+-- suggestions (reviewed = false) aren't values yet, so they are recorded
+-- when accepted. Computed fields are derived and aren't recorded.
+--
+-- Reverting a change writes a new 'revert' entry, so history is append-only.
+-- Upgrading a session to a newer blueprint version moves history to the
+-- matching fields along with the values.
+
+-- ============================================================================
+-- 1. FIELD VALUE HISTORY
+-- ============================================================================
+CREATE TABLE session_field_value_history (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  session_id UUID NOT NULL REFERENCES sessions(id) ON DELETE CASCADE,
+  field_id UUID NOT NULL REFERENCES fields(id) ON DELETE CASCADE,
+  previous_value TEXT,
+  value TEXT,
+  origin VARCHAR(50) NOT NULL CHECK (origin IN ('manual', 'ai_accept', 'import', 'revert')),
+  reverted_history_id UUID REFERENCES session_field_value_history(id) ON DELETE SET NULL,
+  changed_by UUID REFERENCES members(id) ON DELETE SET NULL,
+  created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX idx_field_value_history_session ON session_field_value_history(session_id, created_at);
+CREATE INDEX idx_field_value_history_field ON session_field_value_history(session_id, field_id, created_at);
+
+COMMENT ON COLUMN session_field_value_history.origin IS 'manual: typed by a member, ai_accept: AI suggestion accepted, import: written by an import, revert: undo of an earlier entry';
+COMMENT ON COLUMN session_field_value_history.reverted_history_id IS 'Entry this revert undid (revert entries only)';
+
+-- ============================================================================
+-- END OF MIGRATION 020
+-- ============================================================================
@@ -0,0 +1,11 @@
+-- ============================================================================
+-- Centercode Alchemy - Rollback Field Value History
+-- Migration: 020_add_field_value_history_down.sql
+-- ============================================================================
+-- Drops field value history. Current values are unaffected.
+
+DROP TABLE IF EXISTS session_field_value_history;
+
+-- ============================================================================
+-- END OF MIGRATION 020 ROLLBACK
+-- ============================================================================
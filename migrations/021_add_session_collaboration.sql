@@ -0,0 +1,62 @@
+-- ============================================================================
+-- Centercode Alchemy - Session Collaboration
+-- Migration: 021_add_session_collaboration.sql
+-- ============================================================================
+-- Supports several members editing the same session at once.
+--
+-- session_field_values.version counts changes to a field's accepted value.
+-- Editors send the version they started from when saving, and a save made
+-- against an older version is rejected as a conflict instead of silently
+-- overwriting the other member's edit. Pending suggestions (reviewed = false)
+-- aren't accepted values, so they leave the version at 0 until accepted.
+--
+-- session_presence tracks which members have a session open and which
+-- section they're in. Rows are refreshed by a heartbeat and treated as gone
+-- once they go stale.
+
+-- ============================================================================
+-- 1. FIELD VALUE VERSIONS
+-- ============================================================================
+ALTER TABLE session_field_values ADD COLUMN version INT NOT NULL DEFAULT 0;
+
+UPDATE session_field_values SET version = 1 WHERE reviewed = true;
+
+COMMENT ON COLUMN session_field_values.version IS 'Incremented whenever the accepted (reviewed) value changes; 0 while only a suggestion exists';
+
+CREATE OR REPLACE FUNCTION bump_session_field_value_version()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    NEW.version := CASE WHEN NEW.reviewed THEN 1 ELSE 0 END;
+  ELSIF NEW.reviewed IS DISTINCT FROM OLD.reviewed
+     OR (NEW.reviewed AND NEW.value IS DISTINCT FROM OLD.value) THEN
+    NEW.version := OLD.version + 1;
+  ELSE
+    NEW.version := OLD.version;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER bump_session_field_values_version BEFORE INSERT OR UPDATE ON session_field_values
+  FOR EACH ROW EXECUTE FUNCTION bump_session_field_value_version();
+
+-- ============================================================================
+-- 2. SESSION PRESENCE
+-- ============================================================================
+CREATE TABLE session_presence (
+  session_id UUID NOT NULL REFERENCES sessions(id) ON DELETE CASCADE,
+  member_id UUID NOT NULL REFERENCES members(id) ON DELETE CASCADE,
+  section_id UUID REFERENCES sections(id) ON DELETE SET NULL,
+  last_seen_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (session_id, member_id)
+);
+
+CREATE INDEX idx_session_presence_last_seen ON session_presence(session_id, last_seen_at);
+
+COMMENT ON COLUMN session_presence.section_id IS 'Section the member is viewing (NULL before one is selected)';
+COMMENT ON COLUMN session_presence.last_seen_at IS 'Last heartbeat; stale rows are ignored and cleaned up';
+
+-- ============================================================================
+-- END OF MIGRATION 021
+-- ============================================================================
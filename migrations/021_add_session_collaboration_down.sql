@@ -0,0 +1,22 @@
+-- ============================================================================
+-- Centercode Alchemy - Rollback Session Collaboration
+-- Migration: 021_add_session_collaboration_down.sql
+-- ============================================================================
+-- Drops presence tracking and field value versions. Saves go back to last
+-- writer wins.
+
+-- ============================================================================
+-- 1. DROP SESSION PRESENCE
+-- ============================================================================
+DROP TABLE IF EXISTS session_presence;
+
+-- ============================================================================
+-- 2. DROP FIELD VALUE VERSIONS
+-- ============================================================================
+DROP TRIGGER IF EXISTS bump_session_field_values_version ON session_field_values;
+DROP FUNCTION IF EXISTS bump_session_field_value_version();
+ALTER TABLE session_field_values DROP COLUMN IF EXISTS version;
+
+-- ============================================================================
+-- END OF MIGRATION 021 ROLLBACK
+-- ============================================================================
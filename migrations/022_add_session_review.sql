@@ -0,0 +1,75 @@
+-- ============================================================================
+-- Centercode Alchemy - Session Review
+-- Migration: 022_add_session_review.sql
+-- ============================================================================
+-- Adds a sign-off workflow to sessions: an editor submits a session for
+-- review with one or more reviewers, each reviewer approves or requests
+-- changes with a comment, and the session is locked once every reviewer has
+-- approved. An owner or editor can reopen a session to unlock it.
+--
+-- review_status is kept apart from status, which tracks completion and is
+-- recalculated on every save. Approval replaces the unused 'locked' status
+-- from 001_initial_schema.sql, and status now allows 'archived' to match
+-- SessionStatus and the session update route.
+--
+-- Every transition and reviewer change is recorded in session_review_events.
+
+-- ============================================================================
+-- 1. REVIEW STATUS
+-- ============================================================================
+ALTER TABLE sessions
+  ADD COLUMN review_status VARCHAR(50) NOT NULL DEFAULT 'draft'
+    CHECK (review_status IN ('draft', 'in_review', 'changes_requested', 'approved'));
+
+UPDATE sessions SET review_status = 'approved' WHERE status = 'locked';
+UPDATE sessions SET status = 'completed' WHERE status = 'locked';
+
+ALTER TABLE sessions DROP CONSTRAINT IF EXISTS sessions_status_check;
+ALTER TABLE sessions ADD CONSTRAINT sessions_status_check
+  CHECK (status IN ('in_progress', 'completed', 'archived'));
+
+COMMENT ON COLUMN sessions.review_status IS 'Sign-off workflow state; approved sessions are locked against edits';
+
+-- ============================================================================
+-- 2. REVIEWERS
+-- ============================================================================
+CREATE TABLE session_reviewers (
+  session_id UUID NOT NULL REFERENCES sessions(id) ON DELETE CASCADE,
+  member_id UUID NOT NULL REFERENCES members(id) ON DELETE CASCADE,
+  assigned_by UUID REFERENCES members(id) ON DELETE SET NULL,
+  decision VARCHAR(50) CHECK (decision IN ('approved', 'changes_requested')),
+  decided_at TIMESTAMP,
+  created_at TIMESTAMP DEFAULT NOW(),
+  PRIMARY KEY (session_id, member_id)
+);
+
+CREATE INDEX idx_session_reviewers_member ON session_reviewers(member_id);
+
+COMMENT ON COLUMN session_reviewers.decision IS 'Reviewer decision for the current round (NULL until decided, cleared on resubmission)';
+
+-- ============================================================================
+-- 3. REVIEW EVENTS
+-- ============================================================================
+CREATE TABLE session_review_events (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  session_id UUID NOT NULL REFERENCES sessions(id) ON DELETE CASCADE,
+  action VARCHAR(50) NOT NULL CHECK (action IN (
+    'submitted', 'reviewer_assigned', 'reviewer_removed', 'approved', 'changes_requested', 'reopened'
+  )),
+  from_status VARCHAR(50) NOT NULL,
+  to_status VARCHAR(50) NOT NULL,
+  comment TEXT,
+  reviewer_id UUID REFERENCES members(id) ON DELETE SET NULL,
+  member_id UUID REFERENCES members(id) ON DELETE SET NULL,
+  created_at TIMESTAMP DEFAULT clock_timestamp()
+);
+
+CREATE INDEX idx_session_review_events_session ON session_review_events(session_id, created_at);
+
+COMMENT ON COLUMN session_review_events.reviewer_id IS 'Reviewer assigned or removed (reviewer_assigned and reviewer_removed only)';
+COMMENT ON COLUMN session_review_events.member_id IS 'Member who took the action';
+COMMENT ON COLUMN session_review_events.created_at IS 'clock_timestamp() so events written in one transaction keep their order';
+
+-- ============================================================================
+-- END OF MIGRATION 022
+-- ============================================================================
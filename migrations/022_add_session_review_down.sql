@@ -0,0 +1,29 @@
+-- ============================================================================
+-- Centercode Alchemy - Rollback Session Review
+-- Migration: 022_add_session_review_down.sql
+-- ============================================================================
+-- Drops the review workflow. Approved sessions go back to the 'locked'
+-- status and archived sessions to 'completed'.
+
+-- ============================================================================
+-- 1. DROP REVIEW TABLES
+-- ============================================================================
+DROP TABLE IF EXISTS session_review_events;
+DROP TABLE IF EXISTS session_reviewers;
+
+-- ============================================================================
+-- 2. RESTORE SESSION STATUS
+-- ============================================================================
+ALTER TABLE sessions DROP CONSTRAINT IF EXISTS sessions_status_check;
+
+UPDATE sessions SET status = 'completed' WHERE status = 'archived';
+UPDATE sessions SET status = 'locked' WHERE review_status = 'approved';
+
+ALTER TABLE sessions ADD CONSTRAINT sessions_status_check
+  CHECK (status IN ('in_progress', 'completed', 'locked'));
+
+ALTER TABLE sessions DROP COLUMN IF EXISTS review_status;
+
+-- ============================================================================
+-- END OF MIGRATION 022 ROLLBACK
+-- ============================================================================
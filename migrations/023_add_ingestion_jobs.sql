@@ -0,0 +1,56 @@
+-- ============================================================================
+-- Centercode Alchemy - Ingestion Jobs
+-- Migration: 023_add_ingestion_jobs.sql
+-- ============================================================================
+-- Moves text extraction (files, URLs) and AI mapping out of the request that
+-- adds a source. Adding a source stores it with no text yet and queues a
+-- job; app instances claim queued jobs (FOR UPDATE SKIP LOCKED) and run them
+-- in the background.
+--
+-- A job goes queued -> extracting -> mapping -> done. Extraction is skipped
+-- when the source already has text, and mapping only runs when requested.
+-- A failed attempt goes back to queued with run_after pushed out
+-- (exponential backoff) until max_attempts is reached, then the job is failed.
+-- Jobs whose instance died mid-run are reclaimed once locked_at goes stale.
+
+-- ============================================================================
+-- 1. INGESTION JOBS
+-- ============================================================================
+CREATE TABLE ingestion_jobs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  session_id UUID NOT NULL REFERENCES sessions(id) ON DELETE CASCADE,
+  source_id UUID NOT NULL REFERENCES sources(id) ON DELETE CASCADE,
+  state VARCHAR(20) NOT NULL DEFAULT 'queued'
+    CHECK (state IN ('queued', 'extracting', 'mapping', 'done', 'failed')),
+  map BOOLEAN NOT NULL DEFAULT FALSE,
+  file_data BYTEA,
+  attempts INT NOT NULL DEFAULT 0,
+  max_attempts INT NOT NULL DEFAULT 3,
+  run_after TIMESTAMP NOT NULL DEFAULT NOW(),
+  locked_at TIMESTAMP,
+  error TEXT,
+  result JSONB,
+  created_by UUID REFERENCES members(id) ON DELETE SET NULL,
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW(),
+  finished_at TIMESTAMP
+);
+
+CREATE INDEX idx_ingestion_jobs_ready ON ingestion_jobs(run_after) WHERE state = 'queued';
+CREATE INDEX idx_ingestion_jobs_running ON ingestion_jobs(locked_at) WHERE state IN ('extracting', 'mapping');
+CREATE INDEX idx_ingestion_jobs_source ON ingestion_jobs(source_id, created_at DESC);
+CREATE INDEX idx_ingestion_jobs_session ON ingestion_jobs(session_id, created_at DESC);
+
+COMMENT ON COLUMN ingestion_jobs.map IS 'Run AI mapping once the source has text';
+COMMENT ON COLUMN ingestion_jobs.file_data IS 'Uploaded file awaiting extraction; cleared once the source''s text is extracted';
+COMMENT ON COLUMN ingestion_jobs.attempts IS 'Attempts started so far, including the running one';
+COMMENT ON COLUMN ingestion_jobs.run_after IS 'Earliest time a queued job may be claimed (backoff after a failed attempt)';
+COMMENT ON COLUMN ingestion_jobs.locked_at IS 'When the running attempt was claimed; stale locks are reclaimed';
+COMMENT ON COLUMN ingestion_jobs.error IS 'Error from the last failed attempt';
+COMMENT ON COLUMN ingestion_jobs.result IS 'Mapping counts (see IngestionJobResult)';
+
+COMMENT ON COLUMN sources.text_extracted IS 'Extracted text; NULL until the source''s ingestion job extracts it';
+
+-- ============================================================================
+-- END OF MIGRATION 023
+-- ============================================================================
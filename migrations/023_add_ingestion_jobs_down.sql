@@ -0,0 +1,19 @@
+-- ============================================================================
+-- Centercode Alchemy - Rollback Ingestion Jobs
+-- Migration: 023_add_ingestion_jobs_down.sql
+-- ============================================================================
+-- Drops the job queue. Sources whose text was never extracted are removed,
+-- since extraction goes back to happening inside the upload request.
+
+-- ============================================================================
+-- 1. DROP INGESTION JOBS
+-- ============================================================================
+DROP TABLE IF EXISTS ingestion_jobs;
+
+DELETE FROM sources WHERE text_extracted IS NULL;
+
+COMMENT ON COLUMN sources.text_extracted IS NULL;
+
+-- ============================================================================
+-- END OF MIGRATION 023 ROLLBACK
+-- ============================================================================
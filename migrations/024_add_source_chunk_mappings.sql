@@ -0,0 +1,46 @@
+-- ============================================================================
+-- Centercode Alchemy - Source Chunk Mappings
+-- Migration: 024_add_source_chunk_mappings.sql
+-- ============================================================================
+-- Long sources are mapped in chunks (split along headings and paragraphs),
+-- and each chunk's AI mapping is stored so mapping the source again only
+-- sends the AI what it hasn't seen: new chunks, and fields whose definition
+-- changed since the chunk was mapped (e.g., after a blueprint upgrade).
+--
+-- field_signatures records which version of each field a chunk was mapped
+-- against, as a hash of the field's catalog entry (key, label, help, type,
+-- section, options). Suggestions are kept relative to the chunk; they are
+-- shifted back to offsets in the full source text when merged.
+
+-- ============================================================================
+-- 1. SOURCE CHUNK MAPPINGS
+-- ============================================================================
+CREATE TABLE source_chunk_mappings (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  source_id UUID NOT NULL REFERENCES sources(id) ON DELETE CASCADE,
+  start_offset INT NOT NULL,
+  end_offset INT NOT NULL,
+  content_hash VARCHAR(64) NOT NULL,
+  field_signatures JSONB NOT NULL DEFAULT '{}',
+  suggestions JSONB NOT NULL DEFAULT '[]',
+  unmapped_summary_by_section JSONB NOT NULL DEFAULT '{}',
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW(),
+  UNIQUE (source_id, start_offset, content_hash)
+);
+
+CREATE INDEX idx_source_chunk_mappings_source ON source_chunk_mappings(source_id, start_offset);
+
+CREATE TRIGGER update_source_chunk_mappings_updated_at BEFORE UPDATE ON source_chunk_mappings
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+COMMENT ON COLUMN source_chunk_mappings.start_offset IS 'Chunk start in the source text (inclusive)';
+COMMENT ON COLUMN source_chunk_mappings.end_offset IS 'Chunk end in the source text (exclusive)';
+COMMENT ON COLUMN source_chunk_mappings.content_hash IS 'SHA-256 of the chunk text';
+COMMENT ON COLUMN source_chunk_mappings.field_signatures IS 'Field key -> hash of the catalog entry the chunk was mapped against';
+COMMENT ON COLUMN source_chunk_mappings.suggestions IS 'AI suggestions with offsets relative to the chunk';
+COMMENT ON COLUMN source_chunk_mappings.unmapped_summary_by_section IS 'Content the AI could not map, by section title';
+
+-- ============================================================================
+-- END OF MIGRATION 024
+-- ============================================================================
@@ -0,0 +1,14 @@
+-- ============================================================================
+-- Centercode Alchemy - Rollback Source Chunk Mappings
+-- Migration: 024_add_source_chunk_mappings_down.sql
+-- ============================================================================
+-- Drops stored chunk mappings. Sources are mapped whole again afterwards.
+
+-- ============================================================================
+-- 1. DROP SOURCE CHUNK MAPPINGS
+-- ============================================================================
+DROP TABLE IF EXISTS source_chunk_mappings;
+
+-- ============================================================================
+-- END OF MIGRATION 024 ROLLBACK
+-- ============================================================================
@@ -0,0 +1,41 @@
+-- ============================================================================
+-- Centercode Alchemy - Column Mappings
+-- Migration: 025_add_column_mappings.sql
+-- ============================================================================
+-- Tabular sources (CSV and XLSX) can be imported without AI: a member maps
+-- table columns to field keys, and each mapped value is stored as a
+-- suggestion with confidence 1.0 and the column it came from.
+--
+-- Mappings are saved per editable blueprint and keyed by the table's header
+-- row, so the next upload of the same export (same columns, in the same
+-- order) is mapped automatically. Columns are referenced by header text and
+-- fields by key, so saved mappings keep working across blueprint versions.
+
+-- ============================================================================
+-- 1. COLUMN MAPPINGS
+-- ============================================================================
+CREATE TABLE blueprint_column_mappings (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  blueprint_id UUID NOT NULL REFERENCES blueprints(id) ON DELETE CASCADE,
+  header_signature VARCHAR(64) NOT NULL,
+  headers JSONB NOT NULL,
+  columns JSONB NOT NULL,
+  row_selection JSONB NOT NULL,
+  created_by UUID REFERENCES members(id) ON DELETE SET NULL,
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW(),
+  UNIQUE (blueprint_id, header_signature)
+);
+
+CREATE TRIGGER update_blueprint_column_mappings_updated_at BEFORE UPDATE ON blueprint_column_mappings
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+COMMENT ON COLUMN blueprint_column_mappings.blueprint_id IS 'Editable blueprint (version_of IS NULL) the mapping applies to, for all of its versions';
+COMMENT ON COLUMN blueprint_column_mappings.header_signature IS 'SHA-256 of the normalized header row the mapping was saved for';
+COMMENT ON COLUMN blueprint_column_mappings.headers IS 'Header row the mapping was saved for, as displayed';
+COMMENT ON COLUMN blueprint_column_mappings.columns IS 'Column header -> field key (and sub-field key for RepeatableGroup), with an aggregate for all-row imports';
+COMMENT ON COLUMN blueprint_column_mappings.row_selection IS 'Rows the values come from: one row by number, or all rows';
+
+-- ============================================================================
+-- END OF MIGRATION 025
+-- ============================================================================
@@ -0,0 +1,15 @@
+-- ============================================================================
+-- Centercode Alchemy - Rollback Column Mappings
+-- Migration: 025_add_column_mappings_down.sql
+-- ============================================================================
+-- Drops saved column mappings. Suggestions already imported from columns are
+-- kept; their provenance still names the source column.
+
+-- ============================================================================
+-- 1. DROP COLUMN MAPPINGS
+-- ============================================================================
+DROP TABLE IF EXISTS blueprint_column_mappings;
+
+-- ============================================================================
+-- END OF MIGRATION 025 ROLLBACK
+-- ============================================================================
@@ -0,0 +1,34 @@
+-- ============================================================================
+-- Centercode Alchemy - Source Files
+-- Migration: 026_add_source_files.sql
+-- ============================================================================
+-- Keeps the original bytes of uploaded files instead of discarding them once
+-- their text is extracted. Files live in the configured storage backend
+-- (local filesystem or an S3-compatible bucket, see lib/storage), keyed by
+-- the SHA-256 of their content, so identical uploads and duplicated sessions
+-- share one stored copy. A file is removed once no source references it.
+--
+-- With the original kept, a source's text can be extracted again (e.g. after
+-- extraction improves) by queueing a job with reextract set; such a job
+-- replaces the source's text rather than skipping extraction.
+
+-- ============================================================================
+-- 1. SOURCE FILES
+-- ============================================================================
+ALTER TABLE sources ADD COLUMN file_hash VARCHAR(64);
+
+CREATE INDEX idx_sources_file_hash ON sources(file_hash) WHERE file_hash IS NOT NULL;
+
+COMMENT ON COLUMN sources.file_hash IS 'SHA-256 of the uploaded file, which keys its original bytes in storage; NULL for pasted text, URLs, and uploads from before migration 026';
+
+-- ============================================================================
+-- 2. RE-EXTRACTION
+-- ============================================================================
+ALTER TABLE ingestion_jobs ADD COLUMN reextract BOOLEAN NOT NULL DEFAULT FALSE;
+
+COMMENT ON COLUMN ingestion_jobs.reextract IS 'Extract the source''s text again from its stored original, replacing the current text';
+COMMENT ON COLUMN ingestion_jobs.file_data IS 'Uploaded file awaiting extraction, for jobs queued before migration 026; cleared once the source''s text is extracted';
+
+-- ============================================================================
+-- END OF MIGRATION 026
+-- ============================================================================
@@ -0,0 +1,24 @@
+-- ============================================================================
+-- Centercode Alchemy - Rollback Source Files
+-- Migration: 026_add_source_files_down.sql
+-- ============================================================================
+-- Forgets which stored file belongs to each source. Files already written to
+-- storage are left in place and can be removed by hand. Sources keep their
+-- extracted text; queued jobs that would read an upload from storage fail.
+
+-- ============================================================================
+-- 1. DROP RE-EXTRACTION
+-- ============================================================================
+ALTER TABLE ingestion_jobs DROP COLUMN IF EXISTS reextract;
+
+COMMENT ON COLUMN ingestion_jobs.file_data IS 'Uploaded file awaiting extraction; cleared once the source''s text is extracted';
+
+-- ============================================================================
+-- 2. DROP SOURCE FILES
+-- ============================================================================
+DROP INDEX IF EXISTS idx_sources_file_hash;
+ALTER TABLE sources DROP COLUMN IF EXISTS file_hash;
+
+-- ============================================================================
+-- END OF MIGRATION 026 ROLLBACK
+-- ============================================================================
@@ -0,0 +1,18 @@
+-- ============================================================================
+-- Centercode Alchemy - Presence Connections
+-- Migration: 027_add_presence_connections.sql
+-- ============================================================================
+-- Counts the event streams each member has open on a session. A member with
+-- the session open in several tabs keeps one presence row; closing a tab
+-- lowers the count and the row is only removed once the last stream closes.
+
+-- ============================================================================
+-- 1. PRESENCE CONNECTIONS
+-- ============================================================================
+ALTER TABLE session_presence ADD COLUMN connections INTEGER NOT NULL DEFAULT 1;
+
+COMMENT ON COLUMN session_presence.connections IS 'Event streams the member has open on the session; the row is removed when the last one closes';
+
+-- ============================================================================
+-- END OF MIGRATION 027
+-- ============================================================================
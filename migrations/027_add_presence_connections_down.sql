@@ -0,0 +1,15 @@
+-- ============================================================================
+-- Centercode Alchemy - Rollback Presence Connections
+-- Migration: 027_add_presence_connections_down.sql
+-- ============================================================================
+-- Stops counting open event streams. Closing any tab removes the member's
+-- presence again, even while another tab has the session open.
+
+-- ============================================================================
+-- 1. DROP PRESENCE CONNECTIONS
+-- ============================================================================
+ALTER TABLE session_presence DROP COLUMN IF EXISTS connections;
+
+-- ============================================================================
+-- END OF MIGRATION 027 ROLLBACK
+-- ============================================================================
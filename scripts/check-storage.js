@@ -0,0 +1,88 @@
+#!/usr/bin/env node
+/**
+ * Check file storage
+ *
+ * Round-trips a file through the configured storage driver (STORAGE_DRIVER and
+ * the S3_* variables, see .env.example): put, get, delete, then get again to
+ * confirm it is gone. Try the s3 driver against MinIO with docker-compose.yml.
+ */
+
+const fs = require('fs');
+const path = require('path');
+const crypto = require('crypto');
+const ts = require('typescript');
+
+// Load environment variables from .env.local
+const envPath = path.join(process.cwd(), '.env.local');
+if (fs.existsSync(envPath)) {
+  const envConfig = fs.readFileSync(envPath, 'utf-8');
+  envConfig.split('\n').forEach((line) => {
+    const trimmed = line.trim();
+    if (trimmed && !trimmed.startsWith('#')) {
+      const [key, ...valueParts] = trimmed.split('=');
+      if (key && valueParts.length > 0 && process.env[key.trim()] === undefined) {
+        const value = valueParts
+          .join('=')
+          .replace(/^['"']/g, '')
+          .replace(/['"']$/g, '');
+        process.env[key.trim()] = value.trim();
+      }
+    }
+  });
+}
+
+// The drivers are TypeScript; compile them on load so the app's own code is checked
+require.extensions['.ts'] = (module, filename) => {
+  const source = fs.readFileSync(filename, 'utf-8');
+  const { outputText } = ts.transpileModule(source, {
+    compilerOptions: {
+      module: ts.ModuleKind.CommonJS,
+      target: ts.ScriptTarget.ES2022,
+      esModuleInterop: true,
+    },
+    fileName: filename,
+  });
+  module._compile(outputText, filename);
+};
+
+const { getStorage } = require('../src/lib/storage/storage.ts');
+
+async function checkStorage() {
+  const storage = getStorage();
+  const key = `storage-check/${crypto.randomUUID()}.txt`;
+  const data = Buffer.from(`Storage check ${new Date().toISOString()}\n`);
+
+  console.log(`Driver: ${process.env.STORAGE_DRIVER || 'local'}`);
+  console.log(`Key: ${key}\n`);
+
+  try {
+    await storage.put(key, data, 'text/plain');
+    console.log('✓ Put file');
+
+    const read = await storage.get(key);
+    if (!read || !read.equals(data)) {
+      throw new Error('File read back does not match what was stored');
+    }
+    console.log('✓ Read file back');
+
+    await storage.delete(key);
+    console.log('✓ Deleted file');
+
+    if ((await storage.get(key)) !== null) {
+      throw new Error('File is still stored after delete');
+    }
+    console.log('✓ Missing file reads as null');
+
+    // Deleting a missing file is not an error
+    await storage.delete(key);
+    console.log('✓ Deleting a missing file succeeds');
+
+    console.log('\nStorage is working');
+  } catch (error) {
+    console.error('\n✗ Storage check failed:', error.message);
+    await storage.delete(key).catch(() => {});
+    process.exit(1);
+  }
+}
+
+checkStorage();
@@ -7,7 +7,8 @@
  */
 
 import { useState, useEffect, use, useRef } from 'react';
-import { Rocket, Layout, Wand2 } from 'lucide-react';
+import Link from 'next/link';
+import { Rocket, Layout, Wand2, Eye } from 'lucide-react';
 import {
   DndContext,
   closestCenter,
@@ -23,6 +24,7 @@ import {
 import { arrayMove } from '@dnd-kit/sortable';
 import { sortableKeyboardCoordinates } from '@dnd-kit/sortable';
 import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
 import { Separator } from '@/components/ui/separator';
 import { PageHeader } from '@/components/ui/page-header';
 import { toast } from '@/components/ui/toaster';
@@ -31,12 +33,20 @@ import { FieldList } from '@/features/blueprints/components/field-list';
 import { FieldConfigModal } from '@/features/blueprints/components/field-config-modal';
 import { SectionModal } from '@/features/blueprints/components/section-modal';
 import { GeneratorList } from '@/features/blueprints/components/generator-list';
+import { PublishChecks } from '@/features/blueprints/components/publish-checks';
+import { KeyRenameDialog } from '@/features/blueprints/components/key-rename-dialog';
+import { LibrarySectionModal } from '@/features/blueprints/components/library-section-modal';
 import {
   BlueprintWithSections,
   SectionWithFields,
   Field,
+  KeyRenameImpact,
+  LibraryInsertMode,
+  LintFinding,
+  VisibilityCondition,
 } from '@/features/blueprints/types/blueprint';
 import { BlueprintArtifactGenerator } from '@/features/blueprints/types/generator';
+import { renameFieldKeyInSections } from '@/features/blueprints/utils/key-references';
 
 export default function BlueprintEditPage({ params }: { params: Promise<{ id: string }> }) {
   const { id } = use(params);
@@ -49,10 +59,19 @@ export default function BlueprintEditPage({ params }: { params: Promise<{ id: st
   const [isFieldModalOpen, setIsFieldModalOpen] = useState(false);
   const [editingField, setEditingField] = useState<Field | undefined>(undefined);
   const [isSectionModalOpen, setIsSectionModalOpen] = useState(false);
+  const [isLibraryModalOpen, setIsLibraryModalOpen] = useState(false);
   const [sectionModalMode, setSectionModalMode] = useState<'create' | 'edit'>('create');
   const [editingSectionId, setEditingSectionId] = useState<string | null>(null);
   const [editingSectionTitle, setEditingSectionTitle] = useState('');
+  const [editingSectionKey, setEditingSectionKey] = useState('');
+  const [editingSectionVisibility, setEditingSectionVisibility] =
+    useState<VisibilityCondition | null>(null);
   const [isPublishing, setIsPublishing] = useState(false);
+  const [lintFindings, setLintFindings] = useState<LintFinding[]>([]);
+  const [pendingKeyRename, setPendingKeyRename] = useState<{
+    impact: KeyRenameImpact;
+    save: (rewriteTemplates: boolean) => Promise<void>;
+  } | null>(null);
   const [activeTab, setActiveTab] = useState<'sections' | 'generators'>('sections');
   const [generators, setGenerators] = useState<BlueprintArtifactGenerator[]>([]);
   const [isEditingName, setIsEditingName] = useState(false);
@@ -245,6 +264,25 @@ export default function BlueprintEditPage({ params }: { params: Promise<{ id: st
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [activeTab, id]);
 
+  // Re-run pre-publish checks shortly after the blueprint or its generators change
+  useEffect(() => {
+    if (!blueprint) return;
+
+    const timer = setTimeout(async () => {
+      try {
+        const response = await fetch(`/api/v1/blueprints/${id}/lint`);
+        const result = await response.json();
+        if (result.ok) {
+          setLintFindings(result.data);
+        }
+      } catch (error) {
+        console.error('Failed to run publish checks:', error);
+      }
+    }, 500);
+
+    return () => clearTimeout(timer);
+  }, [blueprint, generators, id]);
+
   const handleNameClick = () => {
     setTempName(name);
     setIsEditingName(true);
@@ -314,10 +352,13 @@ export default function BlueprintEditPage({ params }: { params: Promise<{ id: st
 
       const result = await response.json();
       if (result.ok) {
-        toast.success('Blueprint published successfully!');
+        toast.success(`Published version ${result.data.version}`);
         setBlueprint((prev) => (prev ? { ...prev, ...result.data } : null));
       } else {
         toast.error(result.error.message || 'Failed to publish blueprint');
+        if (result.error.details?.findings) {
+          setLintFindings(result.error.details.findings);
+        }
       }
     } catch (error) {
       console.error('Failed to publish blueprint:', error);
@@ -331,6 +372,8 @@ export default function BlueprintEditPage({ params }: { params: Promise<{ id: st
     setSectionModalMode('create');
     setEditingSectionId(null);
     setEditingSectionTitle('');
+    setEditingSectionKey('');
+    setEditingSectionVisibility(null);
     setIsSectionModalOpen(true);
   };
 
@@ -341,10 +384,16 @@ export default function BlueprintEditPage({ params }: { params: Promise<{ id: st
     setSectionModalMode('edit');
     setEditingSectionId(sectionId);
     setEditingSectionTitle(section.title);
+    setEditingSectionKey(section.key);
+    setEditingSectionVisibility(section.visibility ?? null);
     setIsSectionModalOpen(true);
   };
 
-  const handleSaveSection = async (title: string) => {
+  const handleSaveSection = async (
+    title: string,
+    visibility: VisibilityCondition | null,
+    key: string
+  ) => {
     if (sectionModalMode === 'create') {
       try {
         const response = await fetch(`/api/v1/blueprints/${id}/sections`, {
@@ -374,11 +423,13 @@ export default function BlueprintEditPage({ params }: { params: Promise<{ id: st
         throw error;
       }
     } else if (sectionModalMode === 'edit' && editingSectionId) {
-      try {
-        const response = await fetch(`/api/v1/sections/${editingSectionId}`, {
+      const sectionId = editingSectionId;
+
+      const updateSection = async (rewriteTemplates?: boolean) => {
+        const response = await fetch(`/api/v1/sections/${sectionId}`, {
           method: 'PUT',
           headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({ title }),
+          body: JSON.stringify({ title, key, visibility, rewrite_templates: rewriteTemplates }),
         });
 
         const result = await response.json();
@@ -388,16 +439,26 @@ export default function BlueprintEditPage({ params }: { params: Promise<{ id: st
               ? {
                   ...prev,
                   sections: prev.sections.map((s) =>
-                    s.id === editingSectionId ? { ...s, ...result.data } : s
+                    s.id === sectionId ? { ...s, ...result.data } : s
                   ),
                 }
               : null
           );
+          if (rewriteTemplates) {
+            fetchGenerators();
+          }
           toast.success('Section updated');
+        } else if (result.error.code === 'KEY_RENAME_AFFECTS_GENERATORS') {
+          // Ask how to handle the templates, then save again with the answer
+          setPendingKeyRename({ impact: result.error.details.impact, save: updateSection });
         } else {
           toast.error(result.error.message || 'Failed to update section');
           throw new Error(result.error.message);
         }
+      };
+
+      try {
+        await updateSection();
       } catch (error) {
         if (error instanceof Error && error.message) {
           // Already shown toast above
@@ -440,6 +501,120 @@ export default function BlueprintEditPage({ params }: { params: Promise<{ id: st
     }
   };
 
+  const handleInsertLibrarySection = async (librarySectionId: string, mode: LibraryInsertMode) => {
+    try {
+      const response = await fetch(`/api/v1/blueprints/${id}/sections/library`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ library_section_id: librarySectionId, mode }),
+      });
+
+      const result = await response.json();
+      if (result.ok) {
+        const newSection: SectionWithFields = result.data;
+        setBlueprint((prev) =>
+          prev ? { ...prev, sections: [...prev.sections, newSection] } : null
+        );
+        setSelectedSectionId(newSection.id);
+        toast.success(mode === 'linked' ? 'Linked section added' : 'Section copied from library');
+      } else {
+        toast.error(result.error.message || 'Failed to insert section');
+        throw new Error(result.error.message);
+      }
+    } catch (error) {
+      if (!(error instanceof Error && error.message)) {
+        toast.error('Failed to insert section');
+      }
+      throw error;
+    }
+  };
+
+  // Library requests return the updated link state; keep the section's fields as they are
+  const setSectionLibraryLink = (sectionId: string, librarySectionId: string | null) => {
+    setBlueprint((prev) =>
+      prev
+        ? {
+            ...prev,
+            sections: prev.sections.map((s) =>
+              s.id === sectionId ? { ...s, library_section_id: librarySectionId } : s
+            ),
+          }
+        : null
+    );
+  };
+
+  const handleSaveToLibrary = async (sectionId: string) => {
+    try {
+      const response = await fetch('/api/v1/library/sections', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ section_id: sectionId }),
+      });
+
+      const result = await response.json();
+      if (result.ok) {
+        setSectionLibraryLink(sectionId, result.data.id);
+        toast.success('Section saved to library');
+      } else {
+        toast.error(
+          result.error.details?.errors?.[0] || result.error.message || 'Failed to save section'
+        );
+      }
+    } catch (error) {
+      console.error('Failed to save section to library:', error);
+      toast.error('Failed to save section to library');
+    }
+  };
+
+  const handlePushToLibrary = async (sectionId: string) => {
+    const section = blueprint?.sections.find((s) => s.id === sectionId);
+    if (!section?.library_section_id) return;
+
+    try {
+      const response = await fetch(`/api/v1/library/sections/${section.library_section_id}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ section_id: sectionId }),
+      });
+
+      const result = await response.json();
+      if (result.ok) {
+        const count = result.data.synced_count;
+        toast.success(
+          count > 0
+            ? `Library updated and ${count} linked ${count === 1 ? 'section' : 'sections'} synced`
+            : 'Library updated'
+        );
+      } else {
+        toast.error(
+          result.error.details?.errors?.[0] || result.error.message || 'Failed to update library'
+        );
+      }
+    } catch (error) {
+      console.error('Failed to update library section:', error);
+      toast.error('Failed to update library');
+    }
+  };
+
+  const handleDetachFromLibrary = async (sectionId: string) => {
+    try {
+      const response = await fetch(`/api/v1/sections/${sectionId}/detach`, {
+        method: 'POST',
+      });
+
+      const result = await response.json();
+      if (result.ok) {
+        setSectionLibraryLink(sectionId, null);
+        toast.success('Section detached from library');
+      } else {
+        toast.error(result.error.message || 'Failed to detach section');
+      }
+    } catch (error) {
+      console.error('Failed to detach section:', error);
+      toast.error('Failed to detach section');
+    }
+  };
+
   const handleSectionsReorder = async (reordered: SectionWithFields[]) => {
     setBlueprint((prev) => (prev ? { ...prev, sections: reordered } : null));
 
@@ -476,32 +651,49 @@ export default function BlueprintEditPage({ params }: { params: Promise<{ id: st
     try {
       if (editingField) {
         // Update existing field
-        const response = await fetch(`/api/v1/fields/${editingField.id}`, {
-          method: 'PUT',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify(data),
-        });
+        const fieldId = editingField.id;
 
-        const result = await response.json();
-        if (result.ok) {
-          setBlueprint((prev) => {
-            if (!prev) return null;
-            return {
-              ...prev,
-              sections: prev.sections.map((s) =>
+        const updateField = async (rewriteTemplates?: boolean) => {
+          const response = await fetch(`/api/v1/fields/${fieldId}`, {
+            method: 'PUT',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ ...data, rewrite_templates: rewriteTemplates }),
+          });
+
+          const result = await response.json();
+          if (result.ok) {
+            setBlueprint((prev) => {
+              if (!prev) return null;
+              const sections = prev.sections.map((s) =>
                 s.id === selectedSectionId
                   ? {
                       ...s,
-                      fields: s.fields.map((f) => (f.id === editingField.id ? result.data : f)),
+                      fields: s.fields.map((f) => (f.id === fieldId ? result.data : f)),
                     }
                   : s
-              ),
-            };
-          });
-          toast.success('Field updated');
-        } else {
-          toast.error(result.error.message || 'Failed to update field');
-        }
+              );
+              // Rules on the old key were rewritten with it
+              return {
+                ...prev,
+                sections:
+                  result.data.key !== editingField.key
+                    ? renameFieldKeyInSections(sections, editingField.key, result.data.key)
+                    : sections,
+              };
+            });
+            if (rewriteTemplates) {
+              fetchGenerators();
+            }
+            toast.success('Field updated');
+          } else if (result.error.code === 'KEY_RENAME_AFFECTS_GENERATORS') {
+            // Ask how to handle the templates, then save again with the answer
+            setPendingKeyRename({ impact: result.error.details.impact, save: updateField });
+          } else {
+            toast.error(result.error.message || 'Failed to update field');
+          }
+        };
+
+        await updateField();
       } else {
         // Create new field
         const response = await fetch(`/api/v1/sections/${selectedSectionId}/fields`, {
@@ -619,6 +811,11 @@ export default function BlueprintEditPage({ params }: { params: Promise<{ id: st
               {name}
             </h1>
           )}
+          {blueprint && blueprint.version > 0 && (
+            <Badge variant="secondary" className="pointer-events-none">
+              v{blueprint.version}
+            </Badge>
+          )}
           <div className="ml-auto flex items-center gap-3">
             <Button
               variant={activeTab === 'sections' ? 'default' : 'outline'}
@@ -635,9 +832,19 @@ export default function BlueprintEditPage({ params }: { params: Promise<{ id: st
               Artifact Generators
             </Button>
             <Separator orientation="vertical" className="h-8" />
-            <Button onClick={handlePublish} disabled={isPublishing}>
+            <Button variant="outline" asChild>
+              <Link href={`/blueprints/${id}/preview`}>
+                <Eye className="h-4 w-4" />
+                Preview
+              </Link>
+            </Button>
+            <PublishChecks findings={lintFindings} />
+            <Button
+              onClick={handlePublish}
+              disabled={isPublishing || lintFindings.some((f) => f.severity === 'error')}
+            >
               <Rocket className="h-4 w-4" />
-              {isPublishing ? 'Publishing...' : 'Publish'}
+              {isPublishing ? 'Publishing...' : `Publish v${(blueprint?.version ?? 0) + 1}`}
             </Button>
           </div>
         </PageHeader>
@@ -661,6 +868,10 @@ export default function BlueprintEditPage({ params }: { params: Promise<{ id: st
                   onAddSection={handleAddSection}
                   onEditSection={handleEditSection}
                   onDeleteSection={handleDeleteSection}
+                  onOpenLibrary={() => setIsLibraryModalOpen(true)}
+                  onSaveToLibrary={handleSaveToLibrary}
+                  onPushToLibrary={handlePushToLibrary}
+                  onDetachFromLibrary={handleDetachFromLibrary}
                   isLoading={isLoadingBlueprint}
                 />
               </div>
@@ -731,6 +942,12 @@ export default function BlueprintEditPage({ params }: { params: Promise<{ id: st
         onOpenChange={setIsSectionModalOpen}
         onSave={handleSaveSection}
         initialTitle={editingSectionTitle}
+        initialKey={editingSectionKey}
+        initialVisibility={editingSectionVisibility}
+        controllingFields={
+          blueprint?.sections.filter((s) => s.id !== editingSectionId).flatMap((s) => s.fields) ||
+          []
+        }
         mode={sectionModalMode}
       />
 
@@ -740,11 +957,30 @@ export default function BlueprintEditPage({ params }: { params: Promise<{ id: st
           field={editingField}
           sectionId={selectedSectionId}
           existingFields={selectedSection?.fields || []}
+          blueprintFields={blueprint?.sections.flatMap((s) => s.fields) || []}
           open={isFieldModalOpen}
           onOpenChange={setIsFieldModalOpen}
           onSave={handleSaveField}
         />
       )}
+
+      {/* Section Library */}
+      <LibrarySectionModal
+        open={isLibraryModalOpen}
+        onOpenChange={setIsLibraryModalOpen}
+        onInsert={handleInsertLibrarySection}
+      />
+
+      {/* Key Rename Confirmation */}
+      <KeyRenameDialog
+        impact={pendingKeyRename?.impact ?? null}
+        onOpenChange={(open) => {
+          if (!open) setPendingKeyRename(null);
+        }}
+        onConfirm={async (rewriteTemplates) => {
+          await pendingKeyRename?.save(rewriteTemplates);
+        }}
+      />
     </>
   );
 }
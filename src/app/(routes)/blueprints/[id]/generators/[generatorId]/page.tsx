@@ -68,7 +68,7 @@ export default async function GeneratorEditorPage({ params }: PageProps) {
       ) as sections
     FROM blueprints b
     LEFT JOIN sections s ON s.blueprint_id = b.id
-    WHERE b.id = $1
+    WHERE b.id = $1 AND b.version_of IS NULL
     GROUP BY b.id`,
     [blueprintId]
   );
@@ -88,6 +88,7 @@ export default async function GeneratorEditorPage({ params }: PageProps) {
         description,
         prompt_template,
         output_format,
+        date_format,
         visible_in_data_room,
         order_index,
         created_at,
@@ -0,0 +1,60 @@
+/**
+ * Blueprint Preview Page (Server Component)
+ *
+ * Renders the session layout for an editable blueprint with unsaved values
+ */
+
+import { notFound } from 'next/navigation';
+import { requireAuth } from '@/lib/auth/middleware';
+import { query, queryOne } from '@/lib/db/query';
+import { Blueprint, Field, Section } from '@/features/blueprints/types/blueprint';
+import { BlueprintArtifactGenerator } from '@/features/blueprints/types/generator';
+import { BlueprintPreviewShell } from '@/features/blueprints/components/blueprint-preview-shell';
+
+interface PageProps {
+  params: Promise<{
+    id: string;
+  }>;
+}
+
+export default async function BlueprintPreviewPage({ params }: PageProps) {
+  const user = await requireAuth(['owner', 'editor']);
+  const { id } = await params;
+
+  const blueprint = await queryOne<Blueprint>(
+    'SELECT * FROM blueprints WHERE id = $1 AND company_id = $2 AND version_of IS NULL',
+    [id, user.company_id]
+  );
+
+  if (!blueprint) {
+    notFound();
+  }
+
+  const sections = await query<Section>(
+    'SELECT * FROM sections WHERE blueprint_id = $1 ORDER BY order_index',
+    [id]
+  );
+
+  const fields = await query<Field>(
+    `SELECT f.*
+     FROM fields f
+     JOIN sections s ON s.id = f.section_id
+     WHERE s.blueprint_id = $1
+     ORDER BY s.order_index, f.order_index`,
+    [id]
+  );
+
+  const generators = await query<BlueprintArtifactGenerator>(
+    'SELECT * FROM blueprint_artifact_generators WHERE blueprint_id = $1 ORDER BY order_index',
+    [id]
+  );
+
+  return (
+    <BlueprintPreviewShell
+      blueprint={blueprint}
+      sections={sections}
+      fields={fields}
+      generators={generators}
+    />
+  );
+}
@@ -10,6 +10,8 @@ import { SessionShell } from '@/features/sessions/components/session-shell';
 import { query, queryOne } from '@/lib/db/query';
 import { SessionWithSections, SectionWithProgress } from '@/features/sessions/types/session';
 import { Session } from '@/features/sessions/types/session';
+import { Section } from '@/features/blueprints/types/blueprint';
+import { addSectionProgress, ProgressFieldState } from '@/features/sessions/utils/visibility';
 
 interface SessionPageProps {
   params: Promise<{
@@ -24,7 +26,10 @@ export default async function SessionPage({ params }: SessionPageProps) {
 
   // Fetch session directly from database
   const session = await queryOne<Session>(
-    `SELECT s.*, b.name as blueprint_name
+    `SELECT s.*, b.name as blueprint_name,
+            COALESCE(b.version_of, b.id) as root_blueprint_id,
+            (SELECT MAX(v.version) FROM blueprints v
+             WHERE v.version_of = COALESCE(b.version_of, b.id))::int as latest_blueprint_version
      FROM sessions s
      JOIN blueprints b ON b.id = s.blueprint_id
      WHERE s.id = $1 AND s.company_id = $2`,
@@ -44,68 +49,45 @@ export default async function SessionPage({ params }: SessionPageProps) {
     );
   }
 
-  // Fetch sections with progress tracking
-  const sections = await query<SectionWithProgress>(
-    `SELECT
-      s.*,
-      COALESCE(
-        (SELECT COUNT(*)::int
-         FROM fields f
-         WHERE f.section_id = s.id AND f.required = true),
-        0
-      ) as required_count,
-      COALESCE(
-        (SELECT COUNT(*)::int
-         FROM session_field_values sfv
-         JOIN fields f ON f.id = sfv.field_id
-         WHERE sfv.session_id = $1
-           AND f.section_id = s.id
-           AND f.required = true
-           AND sfv.value IS NOT NULL
-           AND sfv.value != ''),
-        0
-      ) as required_filled_count,
-      COALESCE(
-        (SELECT COUNT(*)::int
-         FROM fields f
-         WHERE f.section_id = s.id),
-        0
-      ) as total_count,
-      COALESCE(
-        (SELECT COUNT(*)::int
-         FROM session_field_values sfv
-         JOIN fields f ON f.id = sfv.field_id
-         WHERE sfv.session_id = $1
-           AND f.section_id = s.id
-           AND sfv.value IS NOT NULL
-           AND sfv.value != ''),
-        0
-      ) as total_filled_count,
-      0 as completion_percentage,
-      0 as total_completion_percentage
-     FROM sections s
+  // Fetch sections and fields with values, then count progress over visible fields only
+  const sections = await query<Section>(
+    'SELECT * FROM sections WHERE blueprint_id = $1 ORDER BY order_index',
+    [session.blueprint_id]
+  );
+
+  const fieldStates = await query<ProgressFieldState>(
+    `SELECT f.id, f.key, f.label, f.type, f.section_id, f.required, f.visibility, f.validation,
+            sfv.value
+     FROM fields f
+     JOIN sections s ON s.id = f.section_id
+     LEFT JOIN session_field_values sfv ON sfv.field_id = f.id AND sfv.session_id = $1
      WHERE s.blueprint_id = $2
-     ORDER BY s.order_index`,
+     ORDER BY s.order_index, f.order_index`,
     [id, session.blueprint_id]
   );
 
   // Calculate completion percentages
-  const sectionsWithProgress = sections.map((section) => ({
-    ...section,
-    completion_percentage:
-      section.required_count > 0
-        ? Math.round((section.required_filled_count / section.required_count) * 100)
-        : 0,
-    total_completion_percentage:
-      section.total_count > 0
-        ? Math.round((section.total_filled_count / section.total_count) * 100)
-        : 0,
-  }));
+  const sectionsWithProgress: SectionWithProgress[] = addSectionProgress(sections, fieldStates).map(
+    (section) => ({
+      ...section,
+      completion_percentage:
+        section.required_count > 0
+          ? Math.round((section.required_filled_count / section.required_count) * 100)
+          : 0,
+      total_completion_percentage:
+        section.total_count > 0
+          ? Math.round((section.total_filled_count / section.total_count) * 100)
+          : 0,
+    })
+  );
 
   const sessionData: SessionWithSections = {
     ...session,
     sections: sectionsWithProgress,
+    field_states: fieldStates,
   };
 
-  return <SessionShell sessionData={sessionData} />;
+  return (
+    <SessionShell sessionData={sessionData} currentUserId={user.id} currentUserRole={user.role} />
+  );
 }
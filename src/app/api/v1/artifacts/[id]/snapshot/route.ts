@@ -0,0 +1,91 @@
+/**
+ * Artifact Snapshot API Route
+ *
+ * GET /api/v1/artifacts/[id]/snapshot - Get the inputs an artifact was generated from
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/auth/middleware';
+import { handleError, NotFoundError, AuthorizationError } from '@/lib/errors';
+import { queryOne } from '@/lib/db/query';
+import { logger } from '@/lib/logger';
+import { readSnapshotContent } from '@/lib/sessions/snapshots';
+import { ArtifactSnapshotResponse, SessionSnapshot } from '@/features/sessions/types/session';
+
+type SuccessResponse<T> = {
+  ok: true;
+  data: T;
+};
+
+type RouteContext = {
+  params: Promise<{ id: string }>;
+};
+
+type ArtifactSession = {
+  snapshot_ref: string | null;
+  session_id: string;
+  company_id: string;
+  blueprint_id: string;
+  blueprint_version: number;
+};
+
+/**
+ * GET /api/v1/artifacts/[id]/snapshot
+ *
+ * Get the snapshot linked to an artifact along with the session's current
+ * inputs, so the two can be compared
+ */
+export async function GET(_request: NextRequest, context: RouteContext) {
+  try {
+    const user = await requireAuth(['owner', 'editor', 'viewer']);
+    const { id } = await context.params;
+
+    const artifact = await queryOne<ArtifactSession>(
+      `SELECT a.snapshot_ref, a.session_id, s.company_id, s.blueprint_id, s.blueprint_version
+       FROM artifacts a
+       JOIN sessions s ON s.id = a.session_id
+       WHERE a.id = $1`,
+      [id]
+    );
+
+    if (!artifact) {
+      throw new NotFoundError('Artifact');
+    }
+
+    if (artifact.company_id !== user.company_id) {
+      throw new AuthorizationError('You do not have permission to access this artifact');
+    }
+
+    // Artifacts saved before snapshots existed have no inputs recorded
+    if (!artifact.snapshot_ref) {
+      throw new NotFoundError('Snapshot', 'SNAPSHOT_NOT_FOUND');
+    }
+
+    const snapshot = await queryOne<SessionSnapshot>(
+      'SELECT * FROM session_snapshots WHERE id = $1',
+      [artifact.snapshot_ref]
+    );
+
+    if (!snapshot) {
+      throw new NotFoundError('Snapshot', 'SNAPSHOT_NOT_FOUND');
+    }
+
+    const current = await readSnapshotContent(artifact.session_id, artifact.blueprint_id);
+
+    logger.info('Fetched artifact snapshot', {
+      artifact_id: id,
+      snapshot_id: snapshot.id,
+    });
+
+    return NextResponse.json<SuccessResponse<ArtifactSnapshotResponse>>({
+      ok: true,
+      data: {
+        snapshot,
+        current,
+        current_blueprint_version: artifact.blueprint_version,
+      },
+    });
+  } catch (error) {
+    return handleError(error);
+  }
+}
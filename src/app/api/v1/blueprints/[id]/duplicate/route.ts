@@ -28,7 +28,7 @@ interface DuplicateBlueprintRequest {
 /**
  * POST /api/v1/blueprints/[id]/duplicate
  *
- * Duplicate a blueprint with all sections and fields
+ * Duplicate a blueprint with all sections and fields (linked library copies stay linked)
  */
 export async function POST(request: NextRequest, context: RouteContext) {
   try {
@@ -43,7 +43,7 @@ export async function POST(request: NextRequest, context: RouteContext) {
 
     // Check source blueprint exists
     const sourceBlueprint = await queryOne<Blueprint>(
-      'SELECT * FROM blueprints WHERE id = $1 AND company_id = $2',
+      'SELECT * FROM blueprints WHERE id = $1 AND company_id = $2 AND version_of IS NULL',
       [id, user.company_id]
     );
 
@@ -53,7 +53,7 @@ export async function POST(request: NextRequest, context: RouteContext) {
 
     // Check for duplicate name
     const existing = await queryOne<{ count: number }>(
-      'SELECT COUNT(*)::int as count FROM blueprints WHERE company_id = $1 AND name = $2',
+      'SELECT COUNT(*)::int as count FROM blueprints WHERE company_id = $1 AND name = $2 AND version_of IS NULL',
       [user.company_id, body.name.trim()]
     );
 
@@ -84,10 +84,18 @@ export async function POST(request: NextRequest, context: RouteContext) {
       for (const sectionRow of sectionsResult.rows) {
         const section = sectionRow as Section;
         const newSectionResult = await client.query(
-          `INSERT INTO sections (blueprint_id, order_index, title, description)
-           VALUES ($1, $2, $3, $4)
+          `INSERT INTO sections (blueprint_id, order_index, title, description, key, visibility, library_section_id)
+           VALUES ($1, $2, $3, $4, $5, $6, $7)
            RETURNING *`,
-          [newBlueprintId, section.order_index, section.title, section.description]
+          [
+            newBlueprintId,
+            section.order_index,
+            section.title,
+            section.description,
+            section.key,
+            section.visibility ? JSON.stringify(section.visibility) : null,
+            section.library_section_id,
+          ]
         );
         sectionMapping.set(section.id, (newSectionResult.rows[0] as Section).id);
       }
@@ -107,8 +115,8 @@ export async function POST(request: NextRequest, context: RouteContext) {
         if (!newSectionId) continue;
 
         await client.query(
-          `INSERT INTO fields (section_id, key, type, label, help_text, placeholder, required, span, order_index)
-           VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)`,
+          `INSERT INTO fields (section_id, key, type, label, help_text, placeholder, required, span, config, visibility, validation, order_index)
+           VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12)`,
           [
             newSectionId,
             field.key,
@@ -118,6 +126,9 @@ export async function POST(request: NextRequest, context: RouteContext) {
             field.placeholder,
             field.required,
             field.span,
+            JSON.stringify(field.config ?? {}),
+            field.visibility ? JSON.stringify(field.visibility) : null,
+            field.validation ? JSON.stringify(field.validation) : null,
             field.order_index,
           ]
         );
@@ -0,0 +1,84 @@
+/**
+ * Blueprint Export API Route
+ *
+ * GET /api/v1/blueprints/[id]/export - Download blueprint as a portable JSON file
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/auth/middleware';
+import { handleError, NotFoundError } from '@/lib/errors';
+import { query, queryOne } from '@/lib/db/query';
+import { logger } from '@/lib/logger';
+import { generateKey } from '@/lib/utils/generate-key';
+import { Blueprint, Field, Section } from '@/features/blueprints/types/blueprint';
+import { BlueprintArtifactGenerator } from '@/features/blueprints/types/generator';
+import { serializeBlueprint } from '@/features/blueprints/utils/blueprint-file';
+
+type RouteContext = {
+  params: Promise<{ id: string }>;
+};
+
+/**
+ * GET /api/v1/blueprints/[id]/export
+ *
+ * Export the blueprint's current sections, fields, and generators. The response
+ * is the file itself (not the usual envelope) so it can be saved and committed.
+ */
+export async function GET(_request: NextRequest, context: RouteContext) {
+  try {
+    const user = await requireAuth(['owner', 'editor']);
+    const { id } = await context.params;
+
+    const blueprint = await queryOne<Blueprint>(
+      'SELECT * FROM blueprints WHERE id = $1 AND company_id = $2 AND version_of IS NULL',
+      [id, user.company_id]
+    );
+
+    if (!blueprint) {
+      throw new NotFoundError('Blueprint');
+    }
+
+    const sections = await query<Section>(
+      'SELECT * FROM sections WHERE blueprint_id = $1 ORDER BY order_index ASC',
+      [id]
+    );
+
+    const fields = await query<Field>(
+      `SELECT f.* FROM fields f
+       JOIN sections s ON s.id = f.section_id
+       WHERE s.blueprint_id = $1
+       ORDER BY f.section_id, f.order_index ASC`,
+      [id]
+    );
+
+    const generators = await query<BlueprintArtifactGenerator>(
+      'SELECT * FROM blueprint_artifact_generators WHERE blueprint_id = $1 ORDER BY order_index ASC',
+      [id]
+    );
+
+    const file = serializeBlueprint(
+      blueprint,
+      sections.map((section) => ({
+        ...section,
+        fields: fields.filter((field) => field.section_id === section.id),
+      })),
+      generators
+    );
+
+    logger.info('Exported blueprint', {
+      blueprint_id: id,
+      section_count: sections.length,
+      field_count: fields.length,
+      generator_count: generators.length,
+    });
+
+    return new NextResponse(JSON.stringify(file, null, 2) + '\n', {
+      headers: {
+        'Content-Type': 'application/json',
+        'Content-Disposition': `attachment; filename="${generateKey(blueprint.name) || 'blueprint'}.json"`,
+      },
+    });
+  } catch (error) {
+    return handleError(error);
+  }
+}
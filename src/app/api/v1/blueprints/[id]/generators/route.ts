@@ -15,6 +15,11 @@ import {
   BlueprintArtifactGenerator,
   CreateGeneratorRequest,
 } from '@/features/blueprints/types/generator';
+import {
+  DATE_FORMATS,
+  DEFAULT_DATE_FORMAT,
+  isDateFormat,
+} from '@/features/blueprints/utils/date-format';
 
 type SuccessResponse<T> = {
   ok: true;
@@ -37,7 +42,7 @@ export async function GET(_request: NextRequest, context: RouteContext) {
 
     // Check blueprint exists and belongs to user's company
     const blueprint = await queryOne<Blueprint>(
-      'SELECT * FROM blueprints WHERE id = $1 AND company_id = $2',
+      'SELECT * FROM blueprints WHERE id = $1 AND company_id = $2 AND version_of IS NULL',
       [id, user.company_id]
     );
 
@@ -90,9 +95,13 @@ export async function POST(request: NextRequest, context: RouteContext) {
       throw new ValidationError('Output format must be Markdown or HTML');
     }
 
+    if (body.date_format !== undefined && !isDateFormat(body.date_format)) {
+      throw new ValidationError(`Date format must be one of: ${DATE_FORMATS.join(', ')}`);
+    }
+
     // Check blueprint exists and belongs to user's company
     const blueprint = await queryOne<Blueprint>(
-      'SELECT * FROM blueprints WHERE id = $1 AND company_id = $2',
+      'SELECT * FROM blueprints WHERE id = $1 AND company_id = $2 AND version_of IS NULL',
       [id, user.company_id]
     );
 
@@ -111,8 +120,8 @@ export async function POST(request: NextRequest, context: RouteContext) {
     // Create generator
     const generator = await queryOne<BlueprintArtifactGenerator>(
       `INSERT INTO blueprint_artifact_generators
-       (blueprint_id, name, description, prompt_template, output_format, visible_in_data_room, order_index)
-       VALUES ($1, $2, $3, $4, $5, $6, $7)
+       (blueprint_id, name, description, prompt_template, output_format, date_format, visible_in_data_room, order_index)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
        RETURNING *`,
       [
         id,
@@ -120,6 +129,7 @@ export async function POST(request: NextRequest, context: RouteContext) {
         body.description?.trim() || null,
         body.prompt_template.trim(),
         body.output_format,
+        body.date_format ?? DEFAULT_DATE_FORMAT,
         body.visible_in_data_room ?? true,
         nextOrder,
       ]
@@ -0,0 +1,50 @@
+/**
+ * Blueprint Lint API Route
+ *
+ * GET /api/v1/blueprints/[id]/lint - Run pre-publish checks
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/auth/middleware';
+import { handleError, NotFoundError } from '@/lib/errors';
+import { queryOne } from '@/lib/db/query';
+import { lintBlueprintById } from '@/lib/blueprints/lint';
+import { Blueprint, LintFinding } from '@/features/blueprints/types/blueprint';
+
+type SuccessResponse<T> = {
+  ok: true;
+  data: T;
+};
+
+type RouteContext = {
+  params: Promise<{ id: string }>;
+};
+
+/**
+ * GET /api/v1/blueprints/[id]/lint
+ *
+ * List the problems publishing would report. Errors block publishing;
+ * warnings are advisory.
+ */
+export async function GET(_request: NextRequest, context: RouteContext) {
+  try {
+    const user = await requireAuth(['owner', 'editor']);
+    const { id } = await context.params;
+
+    const blueprint = await queryOne<Blueprint>(
+      'SELECT * FROM blueprints WHERE id = $1 AND company_id = $2 AND version_of IS NULL',
+      [id, user.company_id]
+    );
+
+    if (!blueprint) {
+      throw new NotFoundError('Blueprint');
+    }
+
+    return NextResponse.json<SuccessResponse<LintFinding[]>>({
+      ok: true,
+      data: await lintBlueprintById(id),
+    });
+  } catch (error) {
+    return handleError(error);
+  }
+}
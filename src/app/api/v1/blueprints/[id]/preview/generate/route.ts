@@ -0,0 +1,182 @@
+/**
+ * Blueprint Preview Generation API Route
+ *
+ * POST /api/v1/blueprints/[id]/preview/generate - Test-run a generator against preview values
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/auth/middleware';
+import { handleError, NotFoundError, ValidationError } from '@/lib/errors';
+import { query, queryOne } from '@/lib/db/query';
+import { logger } from '@/lib/logger';
+import { generateArtifact } from '@/lib/ai/openai-client';
+import { validateTokens } from '@/features/artifacts/utils/token-validator';
+import { resolveTokens } from '@/features/artifacts/utils/token-resolver';
+import { TokenResolutionData } from '@/features/artifacts/types/tokens';
+import { Field, Section } from '@/features/blueprints/types/blueprint';
+import {
+  BlueprintArtifactGenerator,
+  PreviewGenerateRequest,
+  PreviewGenerateResponse,
+} from '@/features/blueprints/types/generator';
+import { computeFieldValues } from '@/features/sessions/utils/computed-fields';
+import { isValueFilled, resolveVisibility } from '@/features/sessions/utils/visibility';
+import { resolveLocale } from '@/lib/utils/resolve-locale';
+
+type SuccessResponse<T> = {
+  ok: true;
+  data: T;
+};
+
+type ErrorResponse = {
+  ok: false;
+  error: {
+    code: string;
+    message: string;
+  };
+};
+
+type RouteContext = {
+  params: Promise<{ id: string }>;
+};
+
+type FieldRow = Field & {
+  section_title: string;
+};
+
+function isStringRecord(value: unknown): value is Record<string, string> {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    !Array.isArray(value) &&
+    Object.values(value).every((v) => typeof v === 'string')
+  );
+}
+
+/**
+ * POST /api/v1/blueprints/[id]/preview/generate
+ *
+ * Resolve a generator's template against unsaved preview values and generate
+ * with the AI, without creating a session or an artifact. Missing required
+ * fields are reported instead of blocking, so prompts can be tried early.
+ */
+export async function POST(request: NextRequest, context: RouteContext) {
+  try {
+    const user = await requireAuth(['owner', 'editor']);
+    const { id: blueprintId } = await context.params;
+    const body = (await request.json()) as PreviewGenerateRequest;
+
+    if (!body.generator_id) {
+      throw new ValidationError('generator_id is required');
+    }
+    if (!isStringRecord(body.values) || !isStringRecord(body.notes)) {
+      throw new ValidationError('values and notes must map IDs to text');
+    }
+
+    const blueprint = await queryOne<{ id: string }>(
+      'SELECT id FROM blueprints WHERE id = $1 AND company_id = $2 AND version_of IS NULL',
+      [blueprintId, user.company_id]
+    );
+
+    if (!blueprint) {
+      throw new NotFoundError('Blueprint');
+    }
+
+    const generator = await queryOne<BlueprintArtifactGenerator>(
+      'SELECT * FROM blueprint_artifact_generators WHERE id = $1 AND blueprint_id = $2',
+      [body.generator_id, blueprintId]
+    );
+
+    if (!generator) {
+      throw new NotFoundError('Generator');
+    }
+
+    const sections = await query<Section>(
+      'SELECT * FROM sections WHERE blueprint_id = $1 ORDER BY order_index',
+      [blueprintId]
+    );
+
+    const fieldRows = await query<FieldRow>(
+      `SELECT f.*, s.title as section_title
+       FROM fields f
+       JOIN sections s ON s.id = f.section_id
+       WHERE s.blueprint_id = $1
+       ORDER BY s.order_index, f.order_index`,
+      [blueprintId]
+    );
+
+    // Computed fields are recalculated here rather than trusted from the client
+    const inputFields = fieldRows.map((f) => ({
+      ...f,
+      value: f.type === 'Computed' ? null : (body.values[f.id] ?? null),
+    }));
+    const computedValues = computeFieldValues(inputFields);
+    const fields = inputFields.map((f) =>
+      computedValues.has(f.id) ? { ...f, value: computedValues.get(f.id) || null } : f
+    );
+
+    const { hiddenFieldIds } = resolveVisibility(sections, fields);
+    const missingFields = fields
+      .filter((f) => f.required && !hiddenFieldIds.has(f.id) && !isValueFilled(f.value))
+      .map((f) => f.label);
+
+    const tokenData: TokenResolutionData = {
+      fields: fields.map((f) => ({
+        ...f,
+        value: hiddenFieldIds.has(f.id) ? null : f.value, // Hidden fields render as empty
+        sectionId: f.section_id,
+        sectionTitle: f.section_title,
+      })),
+      sections,
+      notes: sections.map((s) => ({
+        id: '',
+        session_id: '',
+        section_id: s.id,
+        markdown: body.notes[s.id] ?? '',
+        sectionTitle: s.title,
+        created_at: '',
+        updated_at: '',
+      })),
+      locale: resolveLocale(request.headers.get('accept-language')),
+      dateFormat: generator.date_format,
+    };
+
+    const validation = validateTokens(generator.prompt_template, tokenData);
+
+    if (!validation.valid) {
+      return NextResponse.json<ErrorResponse>(
+        {
+          ok: false,
+          error: {
+            code: 'INVALID_TOKENS',
+            message: validation.errors.map((e) => e.message).join('; '),
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    const prompt = resolveTokens(generator.prompt_template, tokenData);
+    const markdown = await generateArtifact(prompt);
+
+    logger.info('Generated preview artifact', {
+      blueprint_id: blueprintId,
+      generator_id: generator.id,
+      missing_count: missingFields.length,
+      output_length: markdown.length,
+    });
+
+    return NextResponse.json<SuccessResponse<PreviewGenerateResponse>>({
+      ok: true,
+      data: {
+        generator_id: generator.id,
+        generator_name: generator.name,
+        markdown,
+        prompt,
+        missing_fields: missingFields,
+      },
+    });
+  } catch (error) {
+    return handleError(error);
+  }
+}
@@ -1,7 +1,7 @@
 /**
  * Blueprint Publish API Route
  *
- * POST /api/v1/blueprints/[id]/publish - Publish a draft blueprint
+ * POST /api/v1/blueprints/[id]/publish - Publish the blueprint as a new frozen version
  */
 
 import { NextRequest, NextResponse } from 'next/server';
@@ -9,6 +9,8 @@ import { requireAuth } from '@/lib/auth/middleware';
 import { handleError, ValidationError, NotFoundError } from '@/lib/errors';
 import { queryOne } from '@/lib/db/query';
 import { logger } from '@/lib/logger';
+import { publishBlueprintVersion } from '@/lib/blueprints/versions';
+import { lintBlueprintById } from '@/lib/blueprints/lint';
 import { Blueprint } from '@/features/blueprints/types/blueprint';
 
 type SuccessResponse<T> = {
@@ -23,16 +25,18 @@ type RouteContext = {
 /**
  * POST /api/v1/blueprints/[id]/publish
  *
- * Publish a draft blueprint (makes it available for creating sessions)
+ * Run the pre-publish checks, then freeze the blueprint's current sections,
+ * fields, and generators as its next version. New sessions start on the latest version; existing sessions keep
+ * theirs until upgraded.
  */
 export async function POST(_request: NextRequest, context: RouteContext) {
   try {
     const user = await requireAuth(['owner', 'editor']);
     const { id } = await context.params;
 
-    // Check blueprint exists and belongs to user's company
+    // Check blueprint exists, belongs to user's company, and isn't a frozen version
     const blueprint = await queryOne<Blueprint>(
-      'SELECT * FROM blueprints WHERE id = $1 AND company_id = $2',
+      'SELECT * FROM blueprints WHERE id = $1 AND company_id = $2 AND version_of IS NULL',
       [id, user.company_id]
     );
 
@@ -40,49 +44,29 @@ export async function POST(_request: NextRequest, context: RouteContext) {
       throw new NotFoundError('Blueprint');
     }
 
-    // Only draft blueprints can be published
-    if (blueprint.status === 'published') {
-      throw new ValidationError('Blueprint is already published');
-    }
-
-    // Validate blueprint has at least one section
-    const sectionCount = await queryOne<{ count: number }>(
-      'SELECT COUNT(*)::int as count FROM sections WHERE blueprint_id = $1',
-      [id]
-    );
+    // Errors from the pre-publish checks block publishing; warnings don't
+    const findings = await lintBlueprintById(id);
+    const errors = findings.filter((finding) => finding.severity === 'error');
 
-    if (!sectionCount || sectionCount.count === 0) {
-      throw new ValidationError('Blueprint must have at least one section');
+    if (errors.length > 0) {
+      throw new ValidationError(
+        errors.length === 1
+          ? (errors[0]?.message ?? 'Blueprint has a problem that blocks publishing')
+          : `Blueprint has ${errors.length} problems that block publishing`,
+        'BLUEPRINT_LINT_FAILED',
+        { findings }
+      );
     }
 
-    // Validate blueprint has at least one field
-    const fieldCount = await queryOne<{ count: number }>(
-      `SELECT COUNT(*)::int as count FROM fields f
-       JOIN sections s ON s.id = f.section_id
-       WHERE s.blueprint_id = $1`,
-      [id]
-    );
-
-    if (!fieldCount || fieldCount.count === 0) {
-      throw new ValidationError('Blueprint must have at least one field');
-    }
-
-    // Mark as published
-    const updated = await queryOne<Blueprint>(
-      `UPDATE blueprints
-       SET status = 'published', updated_at = NOW()
-       WHERE id = $1
-       RETURNING *`,
-      [id]
-    );
-
-    if (!updated) {
-      throw new NotFoundError('Blueprint');
-    }
+    // Freeze a new version and mark the blueprint as published
+    const { version, blueprint: updated } = await publishBlueprintVersion(blueprint);
 
     logger.info('Published blueprint', {
       blueprint_id: id,
+      version_id: version.id,
+      version: version.version,
       name: updated.name,
+      warning_count: findings.filter((finding) => finding.severity === 'warning').length,
     });
 
     return NextResponse.json<SuccessResponse<Blueprint>>({
@@ -40,7 +40,7 @@ export async function GET(_request: NextRequest, context: RouteContext) {
 
     // Fetch blueprint
     const blueprint = await queryOne<Blueprint>(
-      'SELECT * FROM blueprints WHERE id = $1 AND company_id = $2',
+      'SELECT * FROM blueprints WHERE id = $1 AND company_id = $2 AND version_of IS NULL',
       [id, user.company_id]
     );
 
@@ -95,7 +95,7 @@ export async function PUT(request: NextRequest, context: RouteContext) {
 
     // Check blueprint exists and belongs to user's company
     const existing = await queryOne<Blueprint>(
-      'SELECT * FROM blueprints WHERE id = $1 AND company_id = $2',
+      'SELECT * FROM blueprints WHERE id = $1 AND company_id = $2 AND version_of IS NULL',
       [id, user.company_id]
     );
 
@@ -140,6 +140,11 @@ export async function PUT(request: NextRequest, context: RouteContext) {
       throw new NotFoundError('Blueprint');
     }
 
+    // Keep frozen versions labelled with the blueprint's current name
+    if (body.name !== undefined) {
+      await execute('UPDATE blueprints SET name = $1 WHERE version_of = $2', [blueprint.name, id]);
+    }
+
     logger.info('Updated blueprint', {
       blueprint_id: id,
       fields: Object.keys(body),
@@ -166,7 +171,7 @@ export async function DELETE(_request: NextRequest, context: RouteContext) {
 
     // Check blueprint exists and belongs to user's company
     const existing = await queryOne<Blueprint>(
-      'SELECT * FROM blueprints WHERE id = $1 AND company_id = $2',
+      'SELECT * FROM blueprints WHERE id = $1 AND company_id = $2 AND version_of IS NULL',
       [id, user.company_id]
     );
 
@@ -174,9 +179,11 @@ export async function DELETE(_request: NextRequest, context: RouteContext) {
       throw new NotFoundError('Blueprint');
     }
 
-    // Check for sessions
+    // Check for sessions on the blueprint or any of its published versions
     const sessionCheck = await queryOne<{ count: number }>(
-      'SELECT COUNT(*)::int as count FROM sessions WHERE blueprint_id = $1',
+      `SELECT COUNT(*)::int as count FROM sessions
+       WHERE blueprint_id = $1
+          OR blueprint_id IN (SELECT id FROM blueprints WHERE version_of = $1)`,
       [id]
     );
 
@@ -184,7 +191,7 @@ export async function DELETE(_request: NextRequest, context: RouteContext) {
       throw new ValidationError('Cannot delete blueprint with existing sessions');
     }
 
-    // Delete blueprint (cascades to sections and fields via DB constraints)
+    // Delete blueprint (cascades to versions, sections, and fields via DB constraints)
     await execute('DELETE FROM blueprints WHERE id = $1', [id]);
 
     logger.info('Deleted blueprint', {
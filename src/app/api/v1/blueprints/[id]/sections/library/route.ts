@@ -0,0 +1,130 @@
+/**
+ * Blueprint Library Sections API Route
+ *
+ * POST /api/v1/blueprints/[id]/sections/library - Insert a library section into a blueprint
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/auth/middleware';
+import { handleError, ConflictError, NotFoundError, ValidationError } from '@/lib/errors';
+import { queryOne, transaction } from '@/lib/db/query';
+import { logger } from '@/lib/logger';
+import { insertLibraryFields } from '@/lib/blueprints/library';
+import {
+  Blueprint,
+  Field,
+  InsertLibrarySectionRequest,
+  LibrarySection,
+  Section,
+  SectionWithFields,
+} from '@/features/blueprints/types/blueprint';
+
+type SuccessResponse<T> = {
+  ok: true;
+  data: T;
+};
+
+type RouteContext = {
+  params: Promise<{ id: string }>;
+};
+
+/**
+ * POST /api/v1/blueprints/[id]/sections/library
+ *
+ * Add a copy of a library section at the end of the blueprint. Linked copies
+ * receive later library updates; detached copies are ordinary sections.
+ */
+export async function POST(request: NextRequest, context: RouteContext) {
+  try {
+    const user = await requireAuth(['owner', 'editor']);
+    const { id } = await context.params;
+    const body = (await request.json()) as InsertLibrarySectionRequest;
+
+    if (!body.library_section_id || typeof body.library_section_id !== 'string') {
+      throw new ValidationError('Library section ID is required');
+    }
+
+    if (body.mode !== 'linked' && body.mode !== 'detached') {
+      throw new ValidationError('Mode must be linked or detached');
+    }
+
+    const blueprint = await queryOne<Blueprint>(
+      'SELECT * FROM blueprints WHERE id = $1 AND company_id = $2 AND version_of IS NULL',
+      [id, user.company_id]
+    );
+
+    if (!blueprint) {
+      throw new NotFoundError('Blueprint');
+    }
+
+    const librarySection = await queryOne<LibrarySection>(
+      'SELECT * FROM library_sections WHERE id = $1 AND company_id = $2',
+      [body.library_section_id, user.company_id]
+    );
+
+    if (!librarySection) {
+      throw new NotFoundError('Library section');
+    }
+
+    // Section keys are unique per blueprint since tokens reference them
+    const keyTaken = await queryOne<{ id: string }>(
+      'SELECT id FROM sections WHERE blueprint_id = $1 AND key = $2',
+      [id, librarySection.key]
+    );
+
+    if (keyTaken) {
+      throw new ConflictError(
+        `This blueprint already has a section with the key "${librarySection.key}"`
+      );
+    }
+
+    const section = await transaction(async (client) => {
+      const maxOrder = await client.query(
+        'SELECT MAX(order_index) as max FROM sections WHERE blueprint_id = $1',
+        [id]
+      );
+      const nextOrder = ((maxOrder.rows[0] as { max: number | null }).max ?? -1) + 1;
+
+      const sectionResult = await client.query(
+        `INSERT INTO sections (blueprint_id, order_index, title, description, key, library_section_id)
+         VALUES ($1, $2, $3, $4, $5, $6)
+         RETURNING *`,
+        [
+          id,
+          nextOrder,
+          librarySection.title,
+          librarySection.description,
+          librarySection.key,
+          body.mode === 'linked' ? librarySection.id : null,
+        ]
+      );
+      const created = sectionResult.rows[0] as Section;
+
+      await insertLibraryFields(client, created.id, librarySection.fields);
+
+      const fieldsResult = await client.query(
+        'SELECT * FROM fields WHERE section_id = $1 ORDER BY order_index ASC',
+        [created.id]
+      );
+
+      return { ...created, fields: fieldsResult.rows as Field[] };
+    });
+
+    logger.info('Inserted library section', {
+      section_id: section.id,
+      blueprint_id: id,
+      library_section_id: librarySection.id,
+      mode: body.mode,
+    });
+
+    return NextResponse.json<SuccessResponse<SectionWithFields>>(
+      {
+        ok: true,
+        data: section,
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    return handleError(error);
+  }
+}
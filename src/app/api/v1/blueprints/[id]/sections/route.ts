@@ -39,7 +39,7 @@ export async function POST(request: NextRequest, context: RouteContext) {
 
     // Check blueprint exists and belongs to user's company
     const blueprint = await queryOne<Blueprint>(
-      'SELECT * FROM blueprints WHERE id = $1 AND company_id = $2',
+      'SELECT * FROM blueprints WHERE id = $1 AND company_id = $2 AND version_of IS NULL',
       [id, user.company_id]
     );
 
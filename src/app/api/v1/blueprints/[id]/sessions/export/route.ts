@@ -0,0 +1,106 @@
+/**
+ * Blueprint Session Export API Route
+ *
+ * GET /api/v1/blueprints/[id]/sessions/export - Download every session's answers as CSV or XLSX
+ */
+
+import { NextRequest } from 'next/server';
+import { requireAuth } from '@/lib/auth/middleware';
+import { handleError, NotFoundError, ValidationError } from '@/lib/errors';
+import { queryOne } from '@/lib/db/query';
+import { logger } from '@/lib/logger';
+import { generateKey } from '@/lib/utils/generate-key';
+import { createCsvStream } from '@/lib/export/csv';
+import { createXlsxStream } from '@/lib/export/xlsx';
+import { exportSessionRows } from '@/lib/sessions/export';
+import {
+  SessionExportFilters,
+  SessionExportFormat,
+  SessionStatus,
+} from '@/features/sessions/types/session';
+
+type RouteContext = {
+  params: Promise<{ id: string }>;
+};
+
+const FORMATS: SessionExportFormat[] = ['csv', 'xlsx'];
+const STATUSES: SessionStatus[] = ['in_progress', 'completed', 'archived'];
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const CONTENT_TYPES: Record<SessionExportFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+};
+
+/**
+ * GET /api/v1/blueprints/[id]/sessions/export
+ *
+ * Export one row per session of the blueprint (any version) and one column
+ * per field key, plus status, completion, creator, and timestamps.
+ * Query params: format (csv | xlsx, default csv), and the session list
+ * filters search, status, and owner.
+ *
+ * The file is streamed as rows are read, not built in memory; problems found
+ * before streaming starts get a normal error response. All authenticated
+ * users can export, as they can view sessions.
+ */
+export async function GET(request: NextRequest, context: RouteContext) {
+  try {
+    const user = await requireAuth();
+    const { id } = await context.params;
+    const searchParams = request.nextUrl.searchParams;
+
+    const format = (searchParams.get('format') || 'csv') as SessionExportFormat;
+    if (!FORMATS.includes(format)) {
+      throw new ValidationError('Format must be csv or xlsx');
+    }
+
+    const status = searchParams.get('status') || undefined;
+    if (status && !STATUSES.includes(status as SessionStatus)) {
+      throw new ValidationError('Invalid status filter');
+    }
+
+    const owner = searchParams.get('owner') || undefined;
+    if (owner && !UUID_PATTERN.test(owner)) {
+      throw new ValidationError('Invalid owner filter');
+    }
+
+    const filters: SessionExportFilters = {
+      search: searchParams.get('search')?.trim() || undefined,
+      status: status as SessionStatus | undefined,
+      owner,
+    };
+
+    const blueprint = await queryOne<{ id: string; name: string }>(
+      'SELECT id, name FROM blueprints WHERE id = $1 AND company_id = $2 AND version_of IS NULL',
+      [id, user.company_id]
+    );
+
+    if (!blueprint) {
+      throw new NotFoundError('Blueprint');
+    }
+
+    // Everything but the row batches is loaded before the response starts
+    const rows = await exportSessionRows(blueprint.id, user.company_id, filters);
+    const body = format === 'xlsx' ? createXlsxStream(rows, blueprint.name) : createCsvStream(rows);
+
+    logger.info('Exported blueprint sessions', {
+      blueprint_id: blueprint.id,
+      format,
+      filters,
+      user_id: user.id,
+    });
+
+    const filename = `${generateKey(blueprint.name) || 'blueprint'}-sessions.${format}`;
+
+    return new Response(body, {
+      headers: {
+        'Content-Type': CONTENT_TYPES[format],
+        'Content-Disposition': `attachment; filename="${filename}"`,
+        'Cache-Control': 'no-store',
+      },
+    });
+  } catch (error) {
+    return handleError(error);
+  }
+}
@@ -0,0 +1,88 @@
+/**
+ * Blueprint Draft API Route
+ *
+ * POST /api/v1/blueprints/draft - Propose a blueprint from a sample document
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/auth/middleware';
+import { handleError, ValidationError } from '@/lib/errors';
+import { logger } from '@/lib/logger';
+import { draftBlueprintFromSample } from '@/lib/ai/openai-client';
+import { extractText } from '@/features/sources/lib/extract-text';
+import { BlueprintDraftResult } from '@/features/blueprints/types/blueprint';
+import { parseBlueprintFile } from '@/features/blueprints/utils/blueprint-file';
+
+type SuccessResponse<T> = {
+  ok: true;
+  data: T;
+};
+
+const MAX_FILE_SIZE = 10 * 1024 * 1024; // 10MB
+const MAX_PASTE_LENGTH = 50000; // 50k characters
+const MAX_SAMPLE_LENGTH = 50000; // Longer extracted files are cut to this many characters
+
+/**
+ * POST /api/v1/blueprints/draft
+ *
+ * Read a sample document (file upload or pasted text) and ask the AI for a
+ * proposed blueprint. Nothing is saved: the proposal is checked with the same
+ * rules as an import and returned for review, then saved through the import route.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const user = await requireAuth(['owner', 'editor']);
+
+    const formData = await request.formData();
+    const file = formData.get('file') as File | null;
+    const pastedText = formData.get('text') as string | null;
+
+    if (!file && !pastedText) {
+      throw new ValidationError('Either file or text is required');
+    }
+    if (file && pastedText) {
+      throw new ValidationError('Cannot provide multiple input types simultaneously');
+    }
+
+    let sampleText = '';
+    if (file) {
+      if (file.size > MAX_FILE_SIZE) {
+        throw new ValidationError('File size exceeds 10MB limit');
+      }
+      sampleText = await extractText(file);
+    } else if (pastedText) {
+      if (pastedText.length > MAX_PASTE_LENGTH) {
+        throw new ValidationError('Pasted text exceeds 50,000 character limit');
+      }
+      sampleText = pastedText;
+    }
+
+    if (sampleText.trim() === '') {
+      throw new ValidationError('The sample document has no text');
+    }
+
+    const truncated = sampleText.length > MAX_SAMPLE_LENGTH;
+    const draft = await draftBlueprintFromSample(sampleText.slice(0, MAX_SAMPLE_LENGTH));
+
+    const { file: blueprintFile, errors } = parseBlueprintFile(draft);
+    if (!blueprintFile) {
+      throw new Error('AI draft is not a blueprint');
+    }
+
+    logger.info('Drafted blueprint from sample', {
+      company_id: user.company_id,
+      source: file ? 'file' : 'paste',
+      sample_length: sampleText.length,
+      truncated,
+      section_count: blueprintFile.blueprint.sections.length,
+      issue_count: errors.length,
+    });
+
+    return NextResponse.json<SuccessResponse<BlueprintDraftResult>>({
+      ok: true,
+      data: { file: blueprintFile, errors, truncated },
+    });
+  } catch (error) {
+    return handleError(error);
+  }
+}
@@ -0,0 +1,174 @@
+/**
+ * Blueprint Import API Route
+ *
+ * POST /api/v1/blueprints/import - Create a blueprint from a portable JSON file
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { revalidatePath } from 'next/cache';
+import { requireAuth } from '@/lib/auth/middleware';
+import { handleError, ConflictError, ValidationError } from '@/lib/errors';
+import { queryOne, transaction } from '@/lib/db/query';
+import { logger } from '@/lib/logger';
+import {
+  Blueprint,
+  ImportBlueprintRequest,
+  ImportBlueprintResult,
+  Section,
+} from '@/features/blueprints/types/blueprint';
+import { parseBlueprintFile } from '@/features/blueprints/utils/blueprint-file';
+
+type SuccessResponse<T> = {
+  ok: true;
+  data: T;
+};
+
+/**
+ * POST /api/v1/blueprints/import
+ *
+ * Validate a blueprint file and create it as a new draft blueprint. With
+ * dry_run, nothing is created and the response lists every problem found,
+ * including a name that is already taken in the company.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const user = await requireAuth(['owner', 'editor']);
+    const body = (await request.json()) as ImportBlueprintRequest;
+
+    if (body.name !== undefined && typeof body.name !== 'string') {
+      throw new ValidationError('Blueprint name must be a string');
+    }
+
+    const { file, errors } = parseBlueprintFile(body.file);
+    const name = body.name?.trim() || file?.blueprint.name || '';
+
+    const existing = name
+      ? await queryOne<{ count: number }>(
+          'SELECT COUNT(*)::int as count FROM blueprints WHERE company_id = $1 AND name = $2 AND version_of IS NULL',
+          [user.company_id, name]
+        )
+      : null;
+    const nameTaken = !!existing && existing.count > 0;
+
+    const sections = file?.blueprint.sections ?? [];
+    const generators = file?.blueprint.artifact_generators ?? [];
+    const result: ImportBlueprintResult = {
+      dry_run: body.dry_run === true,
+      valid: errors.length === 0 && !nameTaken,
+      name,
+      name_taken: nameTaken,
+      errors,
+      section_count: sections.length,
+      field_count: sections.reduce((sum, section) => sum + section.fields.length, 0),
+      generator_count: generators.length,
+      blueprint: null,
+    };
+
+    if (body.dry_run === true) {
+      return NextResponse.json<SuccessResponse<ImportBlueprintResult>>({
+        ok: true,
+        data: result,
+      });
+    }
+
+    if (!file || errors.length > 0) {
+      throw new ValidationError('Blueprint file is invalid', 'INVALID_BLUEPRINT_FILE', {
+        errors,
+      });
+    }
+
+    if (nameTaken) {
+      throw new ConflictError('A blueprint with this name already exists');
+    }
+
+    const blueprint = await transaction(async (client) => {
+      const blueprintResult = await client.query(
+        `INSERT INTO blueprints (company_id, name, description, status)
+         VALUES ($1, $2, $3, 'draft')
+         RETURNING *`,
+        [user.company_id, name, file.blueprint.description ?? null]
+      );
+      const created = blueprintResult.rows[0] as Blueprint;
+
+      for (const [sectionIndex, section] of sections.entries()) {
+        const sectionResult = await client.query(
+          `INSERT INTO sections (blueprint_id, order_index, title, description, key, visibility)
+           VALUES ($1, $2, $3, $4, $5, $6)
+           RETURNING *`,
+          [
+            created.id,
+            sectionIndex,
+            section.title,
+            section.description ?? null,
+            section.key,
+            section.visibility ? JSON.stringify(section.visibility) : null,
+          ]
+        );
+        const sectionId = (sectionResult.rows[0] as Section).id;
+
+        for (const [fieldIndex, field] of section.fields.entries()) {
+          await client.query(
+            `INSERT INTO fields (section_id, key, type, label, help_text, placeholder, required, span, config, visibility, validation, order_index)
+             VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12)`,
+            [
+              sectionId,
+              field.key,
+              field.type,
+              field.label,
+              field.help ?? null,
+              field.placeholder ?? null,
+              field.required ?? false,
+              field.span ?? 1,
+              JSON.stringify(field.config ?? {}),
+              field.visibility ? JSON.stringify(field.visibility) : null,
+              field.validation ? JSON.stringify(field.validation) : null,
+              fieldIndex,
+            ]
+          );
+        }
+      }
+
+      for (const [generatorIndex, generator] of generators.entries()) {
+        await client.query(
+          `INSERT INTO blueprint_artifact_generators
+           (blueprint_id, name, description, prompt_template, output_format, date_format, visible_in_data_room, order_index)
+           VALUES ($1, $2, $3, $4, $5, $6, $7, $8)`,
+          [
+            created.id,
+            generator.name,
+            generator.description ?? null,
+            generator.prompt_template,
+            generator.output_format,
+            generator.date_format,
+            generator.visible_in_data_room ?? true,
+            generatorIndex,
+          ]
+        );
+      }
+
+      return created;
+    });
+
+    logger.info('Imported blueprint', {
+      blueprint_id: blueprint.id,
+      company_id: user.company_id,
+      name,
+      section_count: result.section_count,
+      field_count: result.field_count,
+      generator_count: result.generator_count,
+    });
+
+    // Invalidate the blueprints list cache so it refreshes immediately
+    revalidatePath('/blueprints');
+
+    return NextResponse.json<SuccessResponse<ImportBlueprintResult>>(
+      {
+        ok: true,
+        data: { ...result, blueprint },
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    return handleError(error);
+  }
+}
@@ -34,6 +34,8 @@ export async function GET() {
         b.name,
         b.description,
         b.status,
+        b.version,
+        b.version_of,
         b.created_at,
         b.updated_at,
         COUNT(DISTINCT s.id)::int as section_count,
@@ -43,8 +45,8 @@ export async function GET() {
        LEFT JOIN sections s ON s.blueprint_id = b.id
        LEFT JOIN fields f ON f.section_id = s.id
        LEFT JOIN blueprint_artifact_generators g ON g.blueprint_id = b.id
-       WHERE b.company_id = $1
-       GROUP BY b.id, b.company_id, b.name, b.description, b.status, b.created_at, b.updated_at
+       WHERE b.company_id = $1 AND b.version_of IS NULL
+       GROUP BY b.id
        ORDER BY b.updated_at DESC`,
       [user.company_id]
     );
@@ -80,7 +82,7 @@ export async function POST(request: NextRequest) {
 
     // Check for duplicate name in company
     const existing = await queryOne<{ count: number }>(
-      'SELECT COUNT(*)::int as count FROM blueprints WHERE company_id = $1 AND name = $2',
+      'SELECT COUNT(*)::int as count FROM blueprints WHERE company_id = $1 AND name = $2 AND version_of IS NULL',
       [user.company_id, body.name.trim()]
     );
 
@@ -42,7 +42,7 @@ export async function PUT(request: NextRequest, context: RouteContext) {
        FROM fields f
        JOIN sections s ON s.id = f.section_id
        JOIN blueprints b ON b.id = s.blueprint_id
-       WHERE f.id = $1`,
+       WHERE f.id = $1 AND b.version_of IS NULL`,
       [id]
     );
 
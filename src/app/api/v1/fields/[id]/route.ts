@@ -7,10 +7,35 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { requireAuth } from '@/lib/auth/middleware';
-import { handleError, ValidationError, NotFoundError } from '@/lib/errors';
-import { queryOne, execute } from '@/lib/db/query';
+import { handleError, ValidationError, NotFoundError, ConflictError } from '@/lib/errors';
+import { query, queryOne, execute, transaction } from '@/lib/db/query';
 import { logger } from '@/lib/logger';
-import { Field, UpdateFieldRequest } from '@/features/blueprints/types/blueprint';
+import { generateKey } from '@/lib/utils/generate-key';
+import {
+  getKeyRenameImpact,
+  rewriteFieldKeyReferences,
+  rewriteTemplateKeys,
+} from '@/lib/blueprints/key-rename';
+import {
+  Field,
+  FieldType,
+  Section,
+  UpdateFieldRequest,
+} from '@/features/blueprints/types/blueprint';
+import {
+  FIELD_TYPES,
+  isDateType,
+  isComputedType,
+  isFieldType,
+  parseFieldConfig,
+} from '@/features/blueprints/utils/field-config';
+import { validateExpressionReferences } from '@/features/blueprints/utils/expression';
+import { parseValidationRules } from '@/features/blueprints/utils/validation-rules';
+import { parseVisibilityCondition } from '@/features/blueprints/utils/visibility';
+import {
+  describeFieldKeyReference,
+  getFieldKeyReferences,
+} from '@/features/blueprints/utils/key-references';
 
 type SuccessResponse<T> = {
   ok: true;
@@ -24,7 +49,10 @@ type RouteContext = {
 /**
  * PUT /api/v1/fields/[id]
  *
- * Update field properties
+ * Update field properties. Changing the key rewrites generator templates that use
+ * it; if any do, the request must set rewrite_templates (true to rewrite, false to
+ * leave them) or it fails with the affected generators in the error details.
+ * Visibility rules, expressions, and date rules using the key are always rewritten.
  */
 export async function PUT(request: NextRequest, context: RouteContext) {
   try {
@@ -33,12 +61,12 @@ export async function PUT(request: NextRequest, context: RouteContext) {
     const body = (await request.json()) as UpdateFieldRequest;
 
     // Check field exists and belongs to user's company
-    const existing = await queryOne<Field & { company_id: string }>(
-      `SELECT f.*, b.company_id
+    const existing = await queryOne<Field & { company_id: string; blueprint_id: string }>(
+      `SELECT f.*, b.company_id, s.blueprint_id
        FROM fields f
        JOIN sections s ON s.id = f.section_id
        JOIN blueprints b ON b.id = s.blueprint_id
-       WHERE f.id = $1`,
+       WHERE f.id = $1 AND b.version_of IS NULL`,
       [id]
     );
 
@@ -55,22 +83,140 @@ export async function PUT(request: NextRequest, context: RouteContext) {
     const values: unknown[] = [];
     let paramIndex = 1;
 
+    let renamedKey: string | null = null;
     if (body.key !== undefined) {
       if (typeof body.key !== 'string' || body.key.trim() === '') {
         throw new ValidationError('Field key cannot be empty');
       }
+
+      const key = body.key.trim();
+      if (key !== existing.key) {
+        // Keys end up in {{tokens}}, so only allow what generateKey would produce
+        if (key !== generateKey(key)) {
+          throw new ValidationError(
+            'Field key can only contain lowercase letters, numbers, and underscores'
+          );
+        }
+
+        // Renames rewrite {{key}} tokens blueprint-wide, so the new key must be
+        // free in every section or the rewritten tokens become ambiguous
+        const duplicate = await queryOne<{ section_id: string; section_title: string }>(
+          `SELECT f.section_id, s.title as section_title
+           FROM fields f
+           JOIN sections s ON s.id = f.section_id
+           WHERE s.blueprint_id = $1 AND f.key = $2 AND f.id != $3
+           LIMIT 1`,
+          [existing.blueprint_id, key, id]
+        );
+        if (duplicate) {
+          throw new ConflictError(
+            duplicate.section_id === existing.section_id
+              ? `Field key "${key}" is already used in this section`
+              : `Field key "${key}" is already used in section "${duplicate.section_title}"`
+          );
+        }
+
+        renamedKey = key;
+      }
+
       updates.push(`key = $${paramIndex++}`);
-      values.push(body.key.trim());
+      values.push(key);
     }
 
     if (body.type !== undefined) {
-      if (!['ShortText', 'LongText', 'Toggle'].includes(body.type)) {
-        throw new ValidationError('Field type must be ShortText, LongText, or Toggle');
+      if (!isFieldType(body.type)) {
+        throw new ValidationError(`Field type must be one of: ${FIELD_TYPES.join(', ')}`);
       }
       updates.push(`type = $${paramIndex++}`);
       values.push(body.type);
     }
 
+    // Re-validate config whenever the type or the config changes
+    if (body.type !== undefined || body.config !== undefined) {
+      const { config, error: configError } = parseFieldConfig(
+        body.type ?? existing.type,
+        body.config ?? existing.config
+      );
+      if (configError !== null) {
+        throw new ValidationError(configError);
+      }
+
+      // Date rules must point at another date field in the same blueprint
+      if (config.after_field) {
+        const afterField = await queryOne<{ id: string; type: FieldType }>(
+          `SELECT f.id, f.type
+           FROM fields f
+           JOIN sections s ON s.id = f.section_id
+           WHERE s.blueprint_id = (SELECT blueprint_id FROM sections WHERE id = $1)
+             AND f.key = $2`,
+          [existing.section_id, config.after_field]
+        );
+        if (!afterField || !isDateType(afterField.type) || afterField.id === id) {
+          throw new ValidationError(
+            `"${config.after_field}" is not a Date or Date Range field in this blueprint`
+          );
+        }
+      }
+
+      // Expressions must reference other fields in the same blueprint without cycles
+      if (config.expression) {
+        const blueprintFields = await query<Pick<Field, 'key' | 'type' | 'config'>>(
+          `SELECT f.key, f.type, f.config
+           FROM fields f
+           JOIN sections s ON s.id = f.section_id
+           WHERE s.blueprint_id = (SELECT blueprint_id FROM sections WHERE id = $1)
+             AND f.id != $2`,
+          [existing.section_id, id]
+        );
+        const expressionError = validateExpressionReferences(
+          config.expression,
+          blueprintFields,
+          body.key?.trim() ?? existing.key
+        );
+        if (expressionError) {
+          throw new ValidationError(expressionError);
+        }
+      }
+
+      updates.push(`config = $${paramIndex++}`);
+      values.push(JSON.stringify(config));
+    }
+
+    // Re-validate rules whenever the type or the rules change (non-text types drop them)
+    if (body.type !== undefined || body.validation !== undefined) {
+      const { rules, error: validationError } = parseValidationRules(
+        body.type ?? existing.type,
+        body.validation !== undefined ? body.validation : existing.validation
+      );
+      if (validationError !== null) {
+        throw new ValidationError(validationError);
+      }
+      updates.push(`validation = $${paramIndex++}`);
+      values.push(rules ? JSON.stringify(rules) : null);
+    }
+
+    // Visibility rules must point at another field in the same blueprint
+    if (body.visibility !== undefined) {
+      const blueprintFields = await query<Pick<Field, 'key' | 'type' | 'config'>>(
+        `SELECT f.key, f.type, f.config
+         FROM fields f
+         JOIN sections s ON s.id = f.section_id
+         WHERE s.blueprint_id = (SELECT blueprint_id FROM sections WHERE id = $1)
+           AND f.id != $2`,
+        [existing.section_id, id]
+      );
+      const { condition, error: visibilityError } = parseVisibilityCondition(
+        body.visibility,
+        blueprintFields,
+        body.key?.trim() ?? existing.key
+      );
+      if (visibilityError !== null) {
+        throw new ValidationError(visibilityError);
+      }
+      updates.push(`visibility = $${paramIndex++}`);
+      values.push(condition ? JSON.stringify(condition) : null);
+    }
+
     if (body.label !== undefined) {
       if (typeof body.label !== 'string' || body.label.trim() === '') {
         throw new ValidationError('Field label cannot be empty');
@@ -89,9 +235,11 @@ export async function PUT(request: NextRequest, context: RouteContext) {
       values.push(body.placeholder?.trim() || null);
     }
 
-    if (body.required !== undefined) {
+    // Computed fields are never required since nobody fills them in
+    const computed = isComputedType(body.type ?? existing.type);
+    if (body.required !== undefined || computed) {
       updates.push(`required = $${paramIndex++}`);
-      values.push(body.required);
+      values.push(!computed && body.required === true);
     }
 
     if (body.span !== undefined) {
@@ -106,16 +254,52 @@ export async function PUT(request: NextRequest, context: RouteContext) {
       throw new ValidationError('No valid fields to update');
     }
 
+    // Make the caller decide before a rename touches generator templates
+    if (renamedKey && body.rewrite_templates === undefined) {
+      const impact = await getKeyRenameImpact(
+        existing.blueprint_id,
+        'field',
+        existing.key,
+        renamedKey
+      );
+      if (impact.generators.length > 0) {
+        throw new ConflictError(
+          `Field key "${existing.key}" is used by ${impact.generators.length} generator template(s)`,
+          'KEY_RENAME_AFFECTS_GENERATORS',
+          { impact }
+        );
+      }
+    }
+
     updates.push(`updated_at = NOW()`);
     values.push(id);
 
-    const field = await queryOne<Field>(
-      `UPDATE fields
-       SET ${updates.join(', ')}
-       WHERE id = $${paramIndex++}
-       RETURNING *`,
-      values
-    );
+    const { field, templatesUpdated, referencesUpdated } = await transaction(async (client) => {
+      const result = await client.query(
+        `UPDATE fields
+         SET ${updates.join(', ')}
+         WHERE id = $${paramIndex++}
+         RETURNING *`,
+        values
+      );
+
+      const templatesUpdated =
+        renamedKey && body.rewrite_templates !== false
+          ? await rewriteTemplateKeys(
+              client,
+              existing.blueprint_id,
+              'field',
+              existing.key,
+              renamedKey
+            )
+          : 0;
+
+      const referencesUpdated = renamedKey
+        ? await rewriteFieldKeyReferences(client, existing.blueprint_id, existing.key, renamedKey)
+        : 0;
+
+      return { field: result.rows[0] as Field | undefined, templatesUpdated, referencesUpdated };
+    });
 
     if (!field) {
       throw new Error('Failed to update field');
@@ -124,6 +308,8 @@ export async function PUT(request: NextRequest, context: RouteContext) {
     logger.info('Updated field', {
       field_id: id,
       fields: Object.keys(body),
+      templates_updated: templatesUpdated,
+      references_updated: referencesUpdated,
     });
 
     return NextResponse.json<SuccessResponse<Field>>({
@@ -138,7 +324,9 @@ export async function PUT(request: NextRequest, context: RouteContext) {
 /**
  * DELETE /api/v1/fields/[id]
  *
- * Delete field
+ * Delete field. Fails with the dependents in the error details while another
+ * field or section refers to its key (visibility rule, expression, or date rule)
+ * and no other field in the blueprint has the same key.
  */
 export async function DELETE(_request: NextRequest, context: RouteContext) {
   try {
@@ -146,12 +334,12 @@ export async function DELETE(_request: NextRequest, context: RouteContext) {
     const { id } = await context.params;
 
     // Check field exists and belongs to user's company
-    const existing = await queryOne<Field & { company_id: string }>(
-      `SELECT f.*, b.company_id
+    const existing = await queryOne<Field & { company_id: string; blueprint_id: string }>(
+      `SELECT f.*, b.company_id, s.blueprint_id
        FROM fields f
        JOIN sections s ON s.id = f.section_id
        JOIN blueprints b ON b.id = s.blueprint_id
-       WHERE f.id = $1`,
+       WHERE f.id = $1 AND b.version_of IS NULL`,
       [id]
     );
 
@@ -163,6 +351,36 @@ export async function DELETE(_request: NextRequest, context: RouteContext) {
       throw new NotFoundError('Field');
     }
 
+    // Dependents would otherwise treat the field as empty from now on
+    const blueprintSections = await query<Pick<Section, 'id' | 'title' | 'visibility'>>(
+      'SELECT id, title, visibility FROM sections WHERE blueprint_id = $1',
+      [existing.blueprint_id]
+    );
+    const blueprintFields = await query<
+      Pick<Field, 'id' | 'key' | 'label' | 'config' | 'visibility'>
+    >(
+      `SELECT f.id, f.key, f.label, f.config, f.visibility
+       FROM fields f
+       JOIN sections s ON s.id = f.section_id
+       WHERE s.blueprint_id = $1 AND f.id != $2`,
+      [existing.blueprint_id, id]
+    );
+
+    if (!blueprintFields.some((field) => field.key === existing.key)) {
+      const dependents = getFieldKeyReferences(blueprintSections, blueprintFields).filter(
+        (reference) => reference.key === existing.key
+      );
+      if (dependents.length > 0) {
+        throw new ConflictError(
+          `Field "${existing.label}" can't be deleted while used by: ${dependents
+            .map(describeFieldKeyReference)
+            .join(', ')}`,
+          'FIELD_HAS_DEPENDENTS',
+          { dependents }
+        );
+      }
+    }
+
     // Delete field
     await execute('DELETE FROM fields WHERE id = $1', [id]);
 
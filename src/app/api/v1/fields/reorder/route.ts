@@ -45,7 +45,7 @@ export async function PUT(request: NextRequest) {
           `SELECT f.id FROM fields f
            JOIN sections s ON s.id = f.section_id
            JOIN blueprints b ON b.id = s.blueprint_id
-           WHERE f.id = $1 AND b.company_id = $2`,
+           WHERE f.id = $1 AND b.company_id = $2 AND b.version_of IS NULL`,
           [field.id, user.company_id]
         );
 
@@ -14,6 +14,7 @@ import {
   BlueprintArtifactGenerator,
   UpdateGeneratorRequest,
 } from '@/features/blueprints/types/generator';
+import { DATE_FORMATS, isDateFormat } from '@/features/blueprints/utils/date-format';
 
 type SuccessResponse<T> = {
   ok: true;
@@ -40,12 +41,16 @@ export async function PUT(request: NextRequest, context: RouteContext) {
       throw new ValidationError('Output format must be Markdown or HTML');
     }
 
+    if (body.date_format !== undefined && !isDateFormat(body.date_format)) {
+      throw new ValidationError(`Date format must be one of: ${DATE_FORMATS.join(', ')}`);
+    }
+
     // Check generator exists and belongs to user's company
     const existingGenerator = await queryOne<BlueprintArtifactGenerator & { company_id: string }>(
       `SELECT g.*, b.company_id
        FROM blueprint_artifact_generators g
        JOIN blueprints b ON g.blueprint_id = b.id
-       WHERE g.id = $1`,
+       WHERE g.id = $1 AND b.version_of IS NULL`,
       [id]
     );
 
@@ -84,6 +89,11 @@ export async function PUT(request: NextRequest, context: RouteContext) {
       values.push(body.output_format);
     }
 
+    if (body.date_format !== undefined) {
+      updates.push(`date_format = $${paramCount++}`);
+      values.push(body.date_format);
+    }
+
     if (body.visible_in_data_room !== undefined) {
       updates.push(`visible_in_data_room = $${paramCount++}`);
       values.push(body.visible_in_data_room);
@@ -137,7 +147,7 @@ export async function DELETE(_request: NextRequest, context: RouteContext) {
       `SELECT g.*, b.company_id
        FROM blueprint_artifact_generators g
        JOIN blueprints b ON g.blueprint_id = b.id
-       WHERE g.id = $1`,
+       WHERE g.id = $1 AND b.version_of IS NULL`,
       [id]
     );
 
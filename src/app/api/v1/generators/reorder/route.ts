@@ -48,7 +48,8 @@ export async function PUT(request: NextRequest) {
            FROM blueprints b
            WHERE g.id = $2
            AND g.blueprint_id = b.id
-           AND b.company_id = $3`,
+           AND b.company_id = $3
+           AND b.version_of IS NULL`,
           [gen.order_index, gen.id, user.company_id]
         );
 
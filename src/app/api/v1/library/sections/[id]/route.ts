@@ -0,0 +1,150 @@
+/**
+ * Library Section [id] API Routes
+ *
+ * PUT    /api/v1/library/sections/[id] - Update from a linked copy and push to the other copies
+ * DELETE /api/v1/library/sections/[id] - Delete library section (linked copies are detached)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/auth/middleware';
+import { handleError, ConflictError, NotFoundError, ValidationError } from '@/lib/errors';
+import { execute, queryOne, transaction } from '@/lib/db/query';
+import { logger } from '@/lib/logger';
+import { getEditableSection, syncLinkedSections } from '@/lib/blueprints/library';
+import { LibrarySection, UpdateLibrarySectionRequest } from '@/features/blueprints/types/blueprint';
+import { toLibraryFields } from '@/features/blueprints/utils/section-library';
+
+type SuccessResponse<T> = {
+  ok: true;
+  data: T;
+};
+
+type RouteContext = {
+  params: Promise<{ id: string }>;
+};
+
+/**
+ * PUT /api/v1/library/sections/[id]
+ *
+ * Replace the library section with the current title, description, and fields
+ * of one of its linked copies, then update every other linked copy to match.
+ * Fails with the problems in the error details when that would break a key or
+ * reference in another linked copy's blueprint.
+ */
+export async function PUT(request: NextRequest, context: RouteContext) {
+  try {
+    const user = await requireAuth(['owner', 'editor']);
+    const { id } = await context.params;
+    const body = (await request.json()) as UpdateLibrarySectionRequest;
+
+    if (!body.section_id || typeof body.section_id !== 'string') {
+      throw new ValidationError('Section ID is required');
+    }
+
+    const existing = await queryOne<LibrarySection>(
+      'SELECT * FROM library_sections WHERE id = $1 AND company_id = $2',
+      [id, user.company_id]
+    );
+
+    if (!existing) {
+      throw new NotFoundError('Library section');
+    }
+
+    const section = await getEditableSection(body.section_id, user.company_id);
+
+    if (!section) {
+      throw new NotFoundError('Section');
+    }
+
+    if (section.library_section_id !== id) {
+      throw new ValidationError('Section is not linked to this library section');
+    }
+
+    const { fields, errors } = toLibraryFields(section);
+    if (errors.length > 0) {
+      throw new ValidationError(
+        'Section depends on fields in other sections',
+        'LIBRARY_SECTION_DEPENDENCIES',
+        { errors }
+      );
+    }
+
+    const titleTaken = await queryOne<{ count: number }>(
+      `SELECT COUNT(*)::int as count FROM library_sections
+       WHERE company_id = $1 AND title = $2 AND id != $3`,
+      [user.company_id, section.title, id]
+    );
+
+    if (titleTaken && titleTaken.count > 0) {
+      throw new ConflictError('A library section with this title already exists');
+    }
+
+    const { librarySection, syncedCount } = await transaction(async (client) => {
+      const result = await client.query(
+        `UPDATE library_sections
+         SET title = $1, key = $2, description = $3, fields = $4, version = version + 1,
+             updated_at = NOW()
+         WHERE id = $5
+         RETURNING *`,
+        [section.title, section.key, section.description, JSON.stringify(fields), id]
+      );
+      const updated = result.rows[0] as LibrarySection;
+
+      const syncedCount = await syncLinkedSections(client, updated, section.id);
+
+      return { librarySection: updated, syncedCount };
+    });
+
+    logger.info('Updated library section', {
+      library_section_id: id,
+      section_id: section.id,
+      version: librarySection.version,
+      synced_count: syncedCount,
+    });
+
+    return NextResponse.json<
+      SuccessResponse<{ library_section: LibrarySection; synced_count: number }>
+    >({
+      ok: true,
+      data: { library_section: librarySection, synced_count: syncedCount },
+    });
+  } catch (error) {
+    return handleError(error);
+  }
+}
+
+/**
+ * DELETE /api/v1/library/sections/[id]
+ *
+ * Delete a library section. Its linked copies stay in their blueprints as
+ * ordinary sections (the link is cleared by the DB constraint).
+ */
+export async function DELETE(_request: NextRequest, context: RouteContext) {
+  try {
+    const user = await requireAuth(['owner', 'editor']);
+    const { id } = await context.params;
+
+    const existing = await queryOne<LibrarySection>(
+      'SELECT * FROM library_sections WHERE id = $1 AND company_id = $2',
+      [id, user.company_id]
+    );
+
+    if (!existing) {
+      throw new NotFoundError('Library section');
+    }
+
+    await execute('DELETE FROM library_sections WHERE id = $1', [id]);
+
+    logger.info('Deleted library section', {
+      library_section_id: id,
+      title: existing.title,
+    });
+
+    return NextResponse.json<SuccessResponse<{ id: string }>>({
+      ok: true,
+      data: { id },
+    });
+  } catch (error) {
+    return handleError(error);
+  }
+}
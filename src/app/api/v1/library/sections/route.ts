@@ -0,0 +1,137 @@
+/**
+ * Section Library API Routes
+ *
+ * GET  /api/v1/library/sections - List the company's library sections
+ * POST /api/v1/library/sections - Save a blueprint section to the library
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/auth/middleware';
+import { handleError, ConflictError, NotFoundError, ValidationError } from '@/lib/errors';
+import { query, queryOne, transaction } from '@/lib/db/query';
+import { logger } from '@/lib/logger';
+import { getEditableSection } from '@/lib/blueprints/library';
+import { LibrarySection, SaveLibrarySectionRequest } from '@/features/blueprints/types/blueprint';
+import { toLibraryFields } from '@/features/blueprints/utils/section-library';
+
+type SuccessResponse<T> = {
+  ok: true;
+  data: T;
+};
+
+/**
+ * GET /api/v1/library/sections
+ *
+ * List library sections with how many editable blueprint sections link to each
+ */
+export async function GET() {
+  try {
+    const user = await requireAuth(['owner', 'editor']);
+
+    const sections = await query<LibrarySection>(
+      `SELECT
+        l.*,
+        (SELECT COUNT(*)::int
+         FROM sections s
+         JOIN blueprints b ON b.id = s.blueprint_id
+         WHERE s.library_section_id = l.id AND b.version_of IS NULL) as linked_count
+       FROM library_sections l
+       WHERE l.company_id = $1
+       ORDER BY l.title ASC`,
+      [user.company_id]
+    );
+
+    return NextResponse.json<SuccessResponse<LibrarySection[]>>({
+      ok: true,
+      data: sections,
+    });
+  } catch (error) {
+    return handleError(error);
+  }
+}
+
+/**
+ * POST /api/v1/library/sections
+ *
+ * Save a section and its fields to the library. The section becomes a linked
+ * copy, so it can later push changes back to the library.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const user = await requireAuth(['owner', 'editor']);
+    const body = (await request.json()) as SaveLibrarySectionRequest;
+
+    if (!body.section_id || typeof body.section_id !== 'string') {
+      throw new ValidationError('Section ID is required');
+    }
+
+    const section = await getEditableSection(body.section_id, user.company_id);
+
+    if (!section) {
+      throw new NotFoundError('Section');
+    }
+
+    if (section.library_section_id) {
+      throw new ConflictError('Section is already linked to the library');
+    }
+
+    const { fields, errors } = toLibraryFields(section);
+    if (errors.length > 0) {
+      throw new ValidationError(
+        'Section depends on fields in other sections',
+        'LIBRARY_SECTION_DEPENDENCIES',
+        { errors }
+      );
+    }
+
+    const existing = await queryOne<{ count: number }>(
+      'SELECT COUNT(*)::int as count FROM library_sections WHERE company_id = $1 AND title = $2',
+      [user.company_id, section.title]
+    );
+
+    if (existing && existing.count > 0) {
+      throw new ConflictError('A library section with this title already exists');
+    }
+
+    const librarySection = await transaction(async (client) => {
+      const result = await client.query(
+        `INSERT INTO library_sections (company_id, title, key, description, fields, created_by)
+         VALUES ($1, $2, $3, $4, $5, $6)
+         RETURNING *`,
+        [
+          user.company_id,
+          section.title,
+          section.key,
+          section.description,
+          JSON.stringify(fields),
+          user.id,
+        ]
+      );
+      const created = result.rows[0] as LibrarySection;
+
+      await client.query('UPDATE sections SET library_section_id = $1 WHERE id = $2', [
+        created.id,
+        section.id,
+      ]);
+
+      return created;
+    });
+
+    logger.info('Saved section to library', {
+      library_section_id: librarySection.id,
+      section_id: section.id,
+      company_id: user.company_id,
+      field_count: fields.length,
+    });
+
+    return NextResponse.json<SuccessResponse<LibrarySection>>(
+      {
+        ok: true,
+        data: { ...librarySection, linked_count: 1 },
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    return handleError(error);
+  }
+}
@@ -58,6 +58,7 @@ export async function GET(request: NextRequest) {
       `SELECT id, name, description
        FROM blueprints
        WHERE company_id = $1
+         AND version_of IS NULL
          AND (name ILIKE $2 OR description ILIKE $2)
        ORDER BY
          CASE
@@ -0,0 +1,78 @@
+/**
+ * Section Detach API Route
+ *
+ * POST /api/v1/sections/[id]/detach - Stop a linked copy from receiving library updates
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/auth/middleware';
+import { handleError, ValidationError, NotFoundError } from '@/lib/errors';
+import { queryOne } from '@/lib/db/query';
+import { logger } from '@/lib/logger';
+import { Section } from '@/features/blueprints/types/blueprint';
+
+type SuccessResponse<T> = {
+  ok: true;
+  data: T;
+};
+
+type RouteContext = {
+  params: Promise<{ id: string }>;
+};
+
+/**
+ * POST /api/v1/sections/[id]/detach
+ *
+ * Detach a section from its library section, keeping its current fields
+ */
+export async function POST(_request: NextRequest, context: RouteContext) {
+  try {
+    const user = await requireAuth(['owner', 'editor']);
+    const { id } = await context.params;
+
+    // Check section exists and belongs to user's company
+    const existing = await queryOne<Section & { company_id: string }>(
+      `SELECT s.*, b.company_id
+       FROM sections s
+       JOIN blueprints b ON b.id = s.blueprint_id
+       WHERE s.id = $1 AND b.version_of IS NULL`,
+      [id]
+    );
+
+    if (!existing) {
+      throw new NotFoundError('Section');
+    }
+
+    if (existing.company_id !== user.company_id) {
+      throw new NotFoundError('Section');
+    }
+
+    if (!existing.library_section_id) {
+      throw new ValidationError('Section is not linked to the library');
+    }
+
+    const section = await queryOne<Section>(
+      `UPDATE sections
+       SET library_section_id = NULL, updated_at = NOW()
+       WHERE id = $1
+       RETURNING *`,
+      [id]
+    );
+
+    if (!section) {
+      throw new Error('Failed to detach section');
+    }
+
+    logger.info('Detached section from library', {
+      section_id: id,
+      library_section_id: existing.library_section_id,
+    });
+
+    return NextResponse.json<SuccessResponse<Section>>({
+      ok: true,
+      data: section,
+    });
+  } catch (error) {
+    return handleError(error);
+  }
+}
@@ -7,9 +7,24 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { requireAuth } from '@/lib/auth/middleware';
 import { handleError, ValidationError, NotFoundError } from '@/lib/errors';
-import { queryOne } from '@/lib/db/query';
+import { query, queryOne } from '@/lib/db/query';
 import { logger } from '@/lib/logger';
-import { Section, Field, CreateFieldRequest } from '@/features/blueprints/types/blueprint';
+import {
+  Section,
+  Field,
+  FieldType,
+  CreateFieldRequest,
+} from '@/features/blueprints/types/blueprint';
+import {
+  FIELD_TYPES,
+  isComputedType,
+  isDateType,
+  isFieldType,
+  parseFieldConfig,
+} from '@/features/blueprints/utils/field-config';
+import { validateExpressionReferences } from '@/features/blueprints/utils/expression';
+import { parseValidationRules } from '@/features/blueprints/utils/validation-rules';
+import { parseVisibilityCondition } from '@/features/blueprints/utils/visibility';
 
 type SuccessResponse<T> = {
   ok: true;
@@ -40,8 +55,21 @@ export async function POST(request: NextRequest, context: RouteContext) {
       throw new ValidationError('Field label is required');
     }
 
-    if (!body.type || !['ShortText', 'LongText', 'Toggle'].includes(body.type)) {
-      throw new ValidationError('Field type must be ShortText, LongText, or Toggle');
+    if (!isFieldType(body.type)) {
+      throw new ValidationError(`Field type must be one of: ${FIELD_TYPES.join(', ')}`);
+    }
+
+    const { config, error: configError } = parseFieldConfig(body.type, body.config);
+    if (configError !== null) {
+      throw new ValidationError(configError);
+    }
+
+    const { rules: validation, error: validationError } = parseValidationRules(
+      body.type,
+      body.validation
+    );
+    if (validationError !== null) {
+      throw new ValidationError(validationError);
     }
 
     if (body.span !== 1 && body.span !== 2) {
@@ -53,7 +81,7 @@ export async function POST(request: NextRequest, context: RouteContext) {
       `SELECT s.*, b.company_id
        FROM sections s
        JOIN blueprints b ON b.id = s.blueprint_id
-       WHERE s.id = $1`,
+       WHERE s.id = $1 AND b.version_of IS NULL`,
       [id]
     );
 
@@ -65,6 +93,51 @@ export async function POST(request: NextRequest, context: RouteContext) {
       throw new NotFoundError('Section');
     }
 
+    // Date rules must point at another date field in the same blueprint
+    if (config.after_field) {
+      const afterField = await queryOne<{ type: FieldType }>(
+        `SELECT f.type
+         FROM fields f
+         JOIN sections s ON s.id = f.section_id
+         WHERE s.blueprint_id = $1 AND f.key = $2`,
+        [section.blueprint_id, config.after_field]
+      );
+      if (!afterField || !isDateType(afterField.type) || config.after_field === body.key.trim()) {
+        throw new ValidationError(
+          `"${config.after_field}" is not a Date or Date Range field in this blueprint`
+        );
+      }
+    }
+
+    // Visibility rules must point at another field in the same blueprint
+    const blueprintFields = await query<Pick<Field, 'key' | 'type' | 'config'>>(
+      `SELECT f.key, f.type, f.config
+       FROM fields f
+       JOIN sections s ON s.id = f.section_id
+       WHERE s.blueprint_id = $1`,
+      [section.blueprint_id]
+    );
+    const { condition: visibility, error: visibilityError } = parseVisibilityCondition(
+      body.visibility,
+      blueprintFields,
+      body.key.trim()
+    );
+    if (visibilityError !== null) {
+      throw new ValidationError(visibilityError);
+    }
+
+    // Expressions must reference other fields in the same blueprint without cycles
+    if (config.expression) {
+      const expressionError = validateExpressionReferences(
+        config.expression,
+        blueprintFields,
+        body.key.trim()
+      );
+      if (expressionError) {
+        throw new ValidationError(expressionError);
+      }
+    }
+
     // Get max order_index for this section
     const maxOrder = await queryOne<{ max: number | null }>(
       'SELECT MAX(order_index) as max FROM fields WHERE section_id = $1',
@@ -75,8 +148,8 @@ export async function POST(request: NextRequest, context: RouteContext) {
 
     // Create field
     const field = await queryOne<Field>(
-      `INSERT INTO fields (section_id, key, type, label, help_text, placeholder, required, span, order_index)
-       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+      `INSERT INTO fields (section_id, key, type, label, help_text, placeholder, required, span, config, visibility, validation, order_index)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12)
        RETURNING *`,
       [
         id,
@@ -85,8 +158,12 @@ export async function POST(request: NextRequest, context: RouteContext) {
         body.label.trim(),
         body.help_text?.trim() || null,
         body.placeholder?.trim() || null,
-        body.required ?? false,
+        // Computed fields are never required since nobody fills them in
+        !isComputedType(body.type) && (body.required ?? false),
         body.span,
+        JSON.stringify(config),
+        visibility ? JSON.stringify(visibility) : null,
+        validation ? JSON.stringify(validation) : null,
         nextOrder,
       ]
     );
@@ -7,10 +7,13 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { requireAuth } from '@/lib/auth/middleware';
-import { handleError, ValidationError, NotFoundError } from '@/lib/errors';
-import { queryOne, execute } from '@/lib/db/query';
+import { handleError, ValidationError, NotFoundError, ConflictError } from '@/lib/errors';
+import { query, queryOne, execute, transaction } from '@/lib/db/query';
 import { logger } from '@/lib/logger';
-import { Section, UpdateSectionRequest } from '@/features/blueprints/types/blueprint';
+import { generateKey } from '@/lib/utils/generate-key';
+import { getKeyRenameImpact, rewriteTemplateKeys } from '@/lib/blueprints/key-rename';
+import { Field, Section, UpdateSectionRequest } from '@/features/blueprints/types/blueprint';
+import { parseVisibilityCondition } from '@/features/blueprints/utils/visibility';
 
 type SuccessResponse<T> = {
   ok: true;
@@ -24,7 +27,8 @@ type RouteContext = {
 /**
  * PUT /api/v1/sections/[id]
  *
- * Update section title or description
+ * Update section title, description, key, or visibility rule. Changing the key
+ * follows the same rewrite_templates rules as PUT /api/v1/fields/[id].
  */
 export async function PUT(request: NextRequest, context: RouteContext) {
   try {
@@ -37,7 +41,7 @@ export async function PUT(request: NextRequest, context: RouteContext) {
       `SELECT s.*, b.company_id
        FROM sections s
        JOIN blueprints b ON b.id = s.blueprint_id
-       WHERE s.id = $1`,
+       WHERE s.id = $1 AND b.version_of IS NULL`,
       [id]
     );
 
@@ -67,20 +71,101 @@ export async function PUT(request: NextRequest, context: RouteContext) {
       values.push(body.description?.trim() || null);
     }
 
+    let renamedKey: string | null = null;
+    if (body.key !== undefined) {
+      if (typeof body.key !== 'string' || body.key.trim() === '') {
+        throw new ValidationError('Section key cannot be empty');
+      }
+
+      const key = body.key.trim();
+      if (key !== existing.key) {
+        if (key !== generateKey(key)) {
+          throw new ValidationError(
+            'Section key can only contain lowercase letters, numbers, and underscores'
+          );
+        }
+
+        const duplicate = await queryOne<{ id: string }>(
+          'SELECT id FROM sections WHERE blueprint_id = $1 AND key = $2 AND id != $3',
+          [existing.blueprint_id, key, id]
+        );
+        if (duplicate) {
+          throw new ConflictError(`Section key "${key}" is already used in this blueprint`);
+        }
+
+        renamedKey = key;
+      }
+
+      updates.push(`key = $${paramIndex++}`);
+      values.push(key);
+    }
+
+    // A section can only depend on fields outside it, otherwise hiding it would hide its own toggle
+    if (body.visibility !== undefined) {
+      const controllingFields = await query<Pick<Field, 'key' | 'type' | 'config'>>(
+        `SELECT f.key, f.type, f.config
+         FROM fields f
+         JOIN sections s ON s.id = f.section_id
+         WHERE s.blueprint_id = $1 AND s.id != $2`,
+        [existing.blueprint_id, id]
+      );
+      const { condition, error: visibilityError } = parseVisibilityCondition(
+        body.visibility,
+        controllingFields
+      );
+      if (visibilityError !== null) {
+        throw new ValidationError(visibilityError);
+      }
+      updates.push(`visibility = $${paramIndex++}`);
+      values.push(condition ? JSON.stringify(condition) : null);
+    }
+
     if (updates.length === 0) {
       throw new ValidationError('No valid fields to update');
     }
 
+    // Make the caller decide before a rename touches generator templates
+    if (renamedKey && body.rewrite_templates === undefined) {
+      const impact = await getKeyRenameImpact(
+        existing.blueprint_id,
+        'section',
+        existing.key,
+        renamedKey
+      );
+      if (impact.generators.length > 0) {
+        throw new ConflictError(
+          `Section key "${existing.key}" is used by ${impact.generators.length} generator template(s)`,
+          'KEY_RENAME_AFFECTS_GENERATORS',
+          { impact }
+        );
+      }
+    }
+
     updates.push(`updated_at = NOW()`);
     values.push(id);
 
-    const section = await queryOne<Section>(
-      `UPDATE sections
-       SET ${updates.join(', ')}
-       WHERE id = $${paramIndex++}
-       RETURNING *`,
-      values
-    );
+    const { section, templatesUpdated } = await transaction(async (client) => {
+      const result = await client.query(
+        `UPDATE sections
+         SET ${updates.join(', ')}
+         WHERE id = $${paramIndex++}
+         RETURNING *`,
+        values
+      );
+
+      const templatesUpdated =
+        renamedKey && body.rewrite_templates !== false
+          ? await rewriteTemplateKeys(
+              client,
+              existing.blueprint_id,
+              'section',
+              existing.key,
+              renamedKey
+            )
+          : 0;
+
+      return { section: result.rows[0] as Section | undefined, templatesUpdated };
+    });
 
     if (!section) {
       throw new Error('Failed to update section');
@@ -89,6 +174,7 @@ export async function PUT(request: NextRequest, context: RouteContext) {
     logger.info('Updated section', {
       section_id: id,
       fields: Object.keys(body),
+      templates_updated: templatesUpdated,
     });
 
     return NextResponse.json<SuccessResponse<Section>>({
@@ -115,7 +201,7 @@ export async function DELETE(_request: NextRequest, context: RouteContext) {
       `SELECT s.*, b.company_id
        FROM sections s
        JOIN blueprints b ON b.id = s.blueprint_id
-       WHERE s.id = $1`,
+       WHERE s.id = $1 AND b.version_of IS NULL`,
       [id]
     );
 
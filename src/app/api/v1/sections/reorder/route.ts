@@ -44,7 +44,7 @@ export async function PUT(request: NextRequest) {
         const checkResult = await client.query(
           `SELECT s.id FROM sections s
            JOIN blueprints b ON b.id = s.blueprint_id
-           WHERE s.id = $1 AND b.company_id = $2`,
+           WHERE s.id = $1 AND b.company_id = $2 AND b.version_of IS NULL`,
           [section.id, user.company_id]
         );
 
@@ -14,6 +14,11 @@ import { generateArtifact } from '@/lib/ai/openai-client';
 import { validateTokens } from '@/features/artifacts/utils/token-validator';
 import { resolveTokens } from '@/features/artifacts/utils/token-resolver';
 import { TokenResolutionData } from '@/features/artifacts/types/tokens';
+import { FieldConfig, FieldType, VisibilityCondition } from '@/features/blueprints/types/blueprint';
+import { DateFormat } from '@/features/blueprints/types/generator';
+import { resolveLocale } from '@/lib/utils/resolve-locale';
+import { isValueFilled, resolveVisibility } from '@/features/sessions/utils/visibility';
+import { captureSessionSnapshot, readSnapshotContent } from '@/lib/sessions/snapshots';
 
 type SuccessResponse<T> = {
   ok: true;
@@ -43,13 +48,17 @@ type GenerateResponse = {
   markdown: string;
   prompt: string;
   prompt_hash: string;
+  snapshot_id: string; // Inputs the artifact was generated from, passed back on save
 };
 
 type FieldRow = {
   id: string;
   key: string;
   label: string;
-  type: 'ShortText' | 'LongText' | 'Toggle';
+  type: FieldType;
+  config: FieldConfig;
+  required: boolean;
+  visibility: VisibilityCondition | null;
   value: string | null;
   section_id: string;
   section_title: string;
@@ -59,6 +68,7 @@ type SectionRow = {
   id: string;
   title: string;
   key: string;
+  visibility: VisibilityCondition | null;
 };
 
 type NoteRow = {
@@ -71,22 +81,23 @@ type Generator = {
   id: string;
   name: string;
   prompt_template: string;
+  date_format: DateFormat;
 };
 
 type Session = {
   id: string;
   blueprint_id: string;
+  blueprint_version: number;
   company_id: string;
 };
 
-type MissingField = {
-  label: string;
-};
-
 /**
  * POST /api/v1/sessions/[id]/artifacts/generate
  *
  * Generate artifact preview from session data and generator template
+ *
+ * Allowed on approved sessions, like saving: it reads the session's answers
+ * without changing them.
  */
 export async function POST(request: NextRequest, context: RouteContext) {
   try {
@@ -118,17 +129,33 @@ export async function POST(request: NextRequest, context: RouteContext) {
       throw new NotFoundError('Generator not found');
     }
 
-    // Check for missing required fields
-    const missingFields = await query<MissingField>(
-      `SELECT f.label
+    // Gather field values with section info for token resolution
+    const fields = await query<FieldRow>(
+      `SELECT f.id, f.key, f.label, f.type, f.config, f.required, f.visibility, sfv.value,
+              f.section_id, s.title as section_title
        FROM fields f
        JOIN sections s ON s.id = f.section_id
        LEFT JOIN session_field_values sfv ON sfv.field_id = f.id AND sfv.session_id = $1
-       WHERE s.blueprint_id = $2 AND f.required = true AND (sfv.value IS NULL OR sfv.value = '')
+       WHERE s.blueprint_id = $2
        ORDER BY s.order_index, f.order_index`,
       [sessionId, session.blueprint_id]
     );
 
+    // Gather sections for token resolution
+    const sections = await query<SectionRow>(
+      `SELECT id, title, key, visibility
+       FROM sections
+       WHERE blueprint_id = $1
+       ORDER BY order_index`,
+      [session.blueprint_id]
+    );
+
+    // Check for missing required fields (fields hidden by visibility rules don't count)
+    const { hiddenFieldIds } = resolveVisibility(sections, fields);
+    const missingFields = fields.filter(
+      (f) => f.required && !hiddenFieldIds.has(f.id) && !isValueFilled(f.value)
+    );
+
     if (missingFields.length > 0) {
       logger.warn('Missing required fields for artifact generation', {
         session_id: sessionId,
@@ -148,26 +175,6 @@ export async function POST(request: NextRequest, context: RouteContext) {
       );
     }
 
-    // Gather field values with section info for token resolution
-    const fields = await query<FieldRow>(
-      `SELECT f.id, f.key, f.label, f.type, sfv.value, f.section_id, s.title as section_title
-       FROM fields f
-       JOIN sections s ON s.id = f.section_id
-       LEFT JOIN session_field_values sfv ON sfv.field_id = f.id AND sfv.session_id = $1
-       WHERE s.blueprint_id = $2
-       ORDER BY s.order_index, f.order_index`,
-      [sessionId, session.blueprint_id]
-    );
-
-    // Gather sections for token resolution
-    const sections = await query<SectionRow>(
-      `SELECT id, title, key
-       FROM sections
-       WHERE blueprint_id = $1
-       ORDER BY order_index`,
-      [session.blueprint_id]
-    );
-
     // Gather section notes
     const notes = await query<NoteRow>(
       `SELECT sn.section_id, sn.markdown, s.title as section_title
@@ -182,11 +189,13 @@ export async function POST(request: NextRequest, context: RouteContext) {
     const tokenData: TokenResolutionData = {
       fields: fields.map((f) => ({
         ...f,
+        value: hiddenFieldIds.has(f.id) ? null : f.value, // Hidden fields render as empty
         sectionId: f.section_id,
         sectionTitle: f.section_title,
         help_text: null,
         placeholder: null,
-        required: false,
+        validation: null,
+        source_field_id: null,
         span: 1 as const,
         order_index: 0,
         created_at: '',
@@ -197,6 +206,8 @@ export async function POST(request: NextRequest, context: RouteContext) {
         blueprint_id: session.blueprint_id,
         order_index: 0,
         description: null,
+        source_section_id: null,
+        library_section_id: null,
         created_at: '',
         updated_at: '',
       })),
@@ -209,6 +220,8 @@ export async function POST(request: NextRequest, context: RouteContext) {
         created_at: '',
         updated_at: '',
       })),
+      locale: resolveLocale(request.headers.get('accept-language')),
+      dateFormat: generator.date_format,
     };
 
     // Validate tokens in template
@@ -236,6 +249,9 @@ export async function POST(request: NextRequest, context: RouteContext) {
     // Resolve all tokens in the template
     const prompt = resolveTokens(generator.prompt_template, tokenData);
 
+    // Read the exact inputs now, so a saved artifact can show what produced it
+    const snapshotContent = await readSnapshotContent(session.id, session.blueprint_id);
+
     logger.info('Generating artifact', {
       session_id: sessionId,
       generator_id: body.generator_id,
@@ -250,6 +266,9 @@ export async function POST(request: NextRequest, context: RouteContext) {
     // Calculate prompt hash
     const promptHash = crypto.createHash('sha256').update(generator.prompt_template).digest('hex');
 
+    // Only stored once generation succeeds (reused when nothing changed)
+    const snapshot = await captureSessionSnapshot(session, user.id, snapshotContent);
+
     logger.info('Artifact generated successfully', {
       session_id: sessionId,
       generator_id: body.generator_id,
@@ -265,6 +284,7 @@ export async function POST(request: NextRequest, context: RouteContext) {
         markdown,
         prompt,
         prompt_hash: promptHash,
+        snapshot_id: snapshot.id,
       },
     });
   } catch (error) {
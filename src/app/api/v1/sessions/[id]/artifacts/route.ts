@@ -33,6 +33,7 @@ type Artifact = {
   title: string;
   markdown: string;
   prompt_template_hash: string;
+  snapshot_ref: string | null;
   created_by: string;
   creator_name: string;
   created_at: Date;
@@ -80,6 +81,7 @@ export async function GET(_request: NextRequest, context: RouteContext) {
         a.title,
         a.markdown,
         a.prompt_template_hash,
+        a.snapshot_ref,
         a.created_by,
         m.name as creator_name,
         a.created_at,
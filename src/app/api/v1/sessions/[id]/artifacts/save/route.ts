@@ -9,6 +9,7 @@ import { requireAuth } from '@/lib/auth/middleware';
 import { handleError, NotFoundError, ValidationError } from '@/lib/errors';
 import { queryOne } from '@/lib/db/query';
 import { logger } from '@/lib/logger';
+import { captureSessionSnapshot } from '@/lib/sessions/snapshots';
 
 type SuccessResponse<T> = {
   ok: true;
@@ -23,6 +24,7 @@ type SaveRequest = {
   generator_id: string;
   markdown: string;
   prompt_template_hash: string;
+  snapshot_id?: string; // From the generate response; captured now when omitted
 };
 
 type Artifact = {
@@ -33,6 +35,7 @@ type Artifact = {
   title: string;
   markdown: string;
   prompt_template_hash: string;
+  snapshot_ref: string | null;
   created_by: string;
   created_at: Date;
 };
@@ -40,6 +43,8 @@ type Artifact = {
 type Session = {
   id: string;
   company_id: string;
+  blueprint_id: string;
+  blueprint_version: number;
 };
 
 type MaxVersion = {
@@ -54,6 +59,10 @@ type Generator = {
  * POST /api/v1/sessions/[id]/artifacts/save
  *
  * Save generated artifact with version tracking
+ *
+ * Allowed on approved sessions: an artifact is output generated from the
+ * session's answers (recorded in its snapshot), not an edit to them, and
+ * producing final documents is what approval is for.
  */
 export async function POST(request: NextRequest, context: RouteContext) {
   try {
@@ -93,6 +102,23 @@ export async function POST(request: NextRequest, context: RouteContext) {
       throw new NotFoundError('Generator not found');
     }
 
+    // Link the inputs the artifact was generated from
+    let snapshotId: string;
+    if (body.snapshot_id) {
+      const snapshot = await queryOne<{ id: string }>(
+        'SELECT id FROM session_snapshots WHERE id = $1 AND session_id = $2',
+        [body.snapshot_id, sessionId]
+      );
+
+      if (!snapshot) {
+        throw new NotFoundError('Session snapshot');
+      }
+
+      snapshotId = snapshot.id;
+    } else {
+      snapshotId = (await captureSessionSnapshot(session, user.id)).id;
+    }
+
     // Get current max version for this session + generator
     const maxVersion = await queryOne<MaxVersion>(
       'SELECT COALESCE(MAX(version), 0) as max FROM artifacts WHERE session_id = $1 AND generator_id = $2',
@@ -104,8 +130,8 @@ export async function POST(request: NextRequest, context: RouteContext) {
 
     // Insert artifact
     const artifact = await queryOne<Artifact>(
-      `INSERT INTO artifacts (session_id, generator_id, version, title, markdown, prompt_template_hash, created_by)
-       VALUES ($1, $2, $3, $4, $5, $6, $7)
+      `INSERT INTO artifacts (session_id, generator_id, version, title, markdown, prompt_template_hash, snapshot_ref, created_by)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
        RETURNING *`,
       [
         sessionId,
@@ -114,6 +140,7 @@ export async function POST(request: NextRequest, context: RouteContext) {
         title,
         body.markdown,
         body.prompt_template_hash,
+        snapshotId,
         user.id,
       ]
     );
@@ -123,6 +150,7 @@ export async function POST(request: NextRequest, context: RouteContext) {
       session_id: sessionId,
       generator_id: body.generator_id,
       version: nextVersion,
+      snapshot_id: snapshotId,
       markdown_length: body.markdown.length,
     });
 
@@ -0,0 +1,90 @@
+/**
+ * Duplicate Session API Route
+ *
+ * POST /api/v1/sessions/[id]/duplicate - Start a new session from this one
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/auth/middleware';
+import { handleError, ValidationError } from '@/lib/errors';
+import { logger } from '@/lib/logger';
+import { duplicateSession } from '@/lib/sessions/duplicate';
+import { DuplicateSessionRequest, DuplicateSessionResult } from '@/features/sessions/types/session';
+
+type SuccessResponse<T> = {
+  ok: true;
+  data: T;
+};
+
+type RouteContext = {
+  params: Promise<{ id: string }>;
+};
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every((item) => typeof item === 'string');
+}
+
+/**
+ * POST /api/v1/sessions/[id]/duplicate
+ *
+ * Create a session on the latest version of this session's blueprint, or of
+ * another published blueprint, carrying over the chosen sections' accepted
+ * values and notes. Sources and artifacts are copied when requested.
+ */
+export async function POST(request: NextRequest, context: RouteContext) {
+  try {
+    const user = await requireAuth(['owner', 'editor']);
+    const { id } = await context.params;
+    const body = (await request.json()) as DuplicateSessionRequest;
+
+    if (!body.name || typeof body.name !== 'string' || body.name.trim() === '') {
+      throw new ValidationError('Session name is required');
+    }
+
+    if (body.blueprint_id !== undefined && typeof body.blueprint_id !== 'string') {
+      throw new ValidationError('Blueprint ID must be a string');
+    }
+
+    if (!isStringArray(body.value_section_ids) || !isStringArray(body.note_section_ids)) {
+      throw new ValidationError('Section IDs must be arrays of strings');
+    }
+
+    if (typeof body.include_sources !== 'boolean' || typeof body.include_artifacts !== 'boolean') {
+      throw new ValidationError('include_sources and include_artifacts must be booleans');
+    }
+
+    const result = await duplicateSession({
+      sessionId: id,
+      companyId: user.company_id,
+      memberId: user.id,
+      name: body.name.trim(),
+      blueprintId: body.blueprint_id || undefined,
+      valueSectionIds: [...new Set(body.value_section_ids)],
+      noteSectionIds: [...new Set(body.note_section_ids)],
+      includeSources: body.include_sources,
+      includeArtifacts: body.include_artifacts,
+    });
+
+    logger.info('Duplicated session', {
+      session_id: result.session.id,
+      duplicated_from: id,
+      blueprint_id: result.session.blueprint_id,
+      copied_values: result.copied_values,
+      skipped_values: result.skipped_values,
+      copied_notes: result.copied_notes,
+      copied_sources: result.copied_sources,
+      copied_artifacts: result.copied_artifacts,
+      user_id: user.id,
+    });
+
+    return NextResponse.json<SuccessResponse<DuplicateSessionResult>>(
+      {
+        ok: true,
+        data: result,
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    return handleError(error);
+  }
+}
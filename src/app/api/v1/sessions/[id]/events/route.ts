@@ -0,0 +1,116 @@
+/**
+ * Session Events API Route
+ *
+ * GET /api/v1/sessions/[id]/events - Server-sent event stream of live session changes
+ */
+
+import { NextRequest } from 'next/server';
+import { requireAuth } from '@/lib/auth/middleware';
+import { handleError, NotFoundError } from '@/lib/errors';
+import { queryOne } from '@/lib/db/query';
+import { logger } from '@/lib/logger';
+import { subscribeToSession } from '@/lib/sessions/events';
+import { addPresenceConnection, listPresence, removePresence } from '@/lib/sessions/presence';
+import { SessionEvent } from '@/features/sessions/types/session';
+
+type RouteContext = {
+  params: Promise<{ id: string }>;
+};
+
+// Comment lines keep proxies from closing an idle stream
+const KEEP_ALIVE_MS = 25000;
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/v1/sessions/[id]/events
+ *
+ * Stream presence, field edits, and bulk value changes made by anyone in the
+ * session. Starts with the current presence list. Closing the stream removes
+ * the member's presence unless they have the session open in another stream.
+ * All authenticated users can follow a session
+ */
+export async function GET(request: NextRequest, context: RouteContext) {
+  try {
+    const user = await requireAuth();
+    const { id: sessionId } = await context.params;
+
+    const session = await queryOne<{ id: string }>(
+      'SELECT id FROM sessions WHERE id = $1 AND company_id = $2',
+      [sessionId, user.company_id]
+    );
+
+    if (!session) {
+      throw new NotFoundError('Session');
+    }
+
+    const encoder = new TextEncoder();
+    let cleanup: (() => void) | null = null;
+
+    const stream = new ReadableStream<Uint8Array>({
+      async start(controller) {
+        let closed = false;
+        let stopped = false;
+
+        const write = (chunk: string) => {
+          if (closed) return;
+          try {
+            controller.enqueue(encoder.encode(chunk));
+          } catch {
+            closed = true;
+          }
+        };
+        const send = (event: SessionEvent) => write(`data: ${JSON.stringify(event)}\n\n`);
+
+        await addPresenceConnection(sessionId, user.id);
+        const unsubscribe = await subscribeToSession(sessionId, send);
+        const keepAlive = setInterval(() => write(': keep-alive\n\n'), KEEP_ALIVE_MS);
+
+        cleanup = () => {
+          if (stopped) return;
+          stopped = true;
+          closed = true;
+          clearInterval(keepAlive);
+          unsubscribe();
+          removePresence(sessionId, user.id).catch((error) => {
+            logger.warn('Failed to clear session presence', {
+              session_id: sessionId,
+              error: error instanceof Error ? error.message : String(error),
+            });
+          });
+          try {
+            controller.close();
+          } catch {
+            // Already closed by the client
+          }
+        };
+
+        request.signal.addEventListener('abort', () => cleanup?.());
+        if (request.signal.aborted) {
+          cleanup();
+          return;
+        }
+
+        send({ type: 'presence', members: await listPresence(sessionId) });
+      },
+      cancel() {
+        cleanup?.();
+      },
+    });
+
+    logger.info('Opened session event stream', {
+      session_id: sessionId,
+      user_id: user.id,
+    });
+
+    return new Response(stream, {
+      headers: {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache, no-transform',
+        Connection: 'keep-alive',
+      },
+    });
+  } catch (error) {
+    return handleError(error);
+  }
+}
@@ -7,9 +7,21 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { requireAuth } from '@/lib/auth/middleware';
 import { handleError, NotFoundError, ValidationError } from '@/lib/errors';
-import { queryOne, execute } from '@/lib/db/query';
+import { query, queryOne, transaction } from '@/lib/db/query';
 import { logger } from '@/lib/logger';
 import { Session } from '@/features/sessions/types/session';
+import { Field } from '@/features/blueprints/types/blueprint';
+import {
+  validateDateOrder,
+  validateFieldRules,
+  validateFieldValue,
+} from '@/features/sessions/utils/field-value';
+import { isDateType } from '@/features/blueprints/utils/field-config';
+import { recalculateComputedFields } from '@/lib/sessions/computed-fields';
+import { updateSessionCompletion } from '@/lib/sessions/completion';
+import { writeFieldValue } from '@/lib/sessions/value-history';
+import { publishSessionEvent } from '@/lib/sessions/events';
+import { ensureSessionUnlocked } from '@/lib/sessions/review';
 
 type SuccessResponse<T> = {
   ok: true;
@@ -22,59 +34,21 @@ type RouteContext = {
 
 interface UpdateFieldValueRequest {
   value: string;
+  base_version?: number; // Version the edit started from; omit to overwrite unconditionally
 }
 
 interface UpdateFieldValueResponse {
   success: boolean;
+  version: number; // Version of the saved value, to send with the next edit
   completion_percent: number;
   status: string;
-}
-
-/**
- * Helper function to update session completion percentage
- */
-async function updateSessionCompletion(sessionId: string): Promise<{
-  completion_percent: number;
-  status: string;
-}> {
-  const result = await queryOne<{
-    required_count: number;
-    filled_count: number;
-  }>(
-    `SELECT
-      COUNT(CASE WHEN f.required = true THEN 1 END)::int as required_count,
-      COUNT(CASE WHEN f.required = true AND sfv.value IS NOT NULL AND sfv.value != '' THEN 1 END)::int as filled_count
-     FROM fields f
-     JOIN sections s ON s.id = f.section_id
-     JOIN sessions sess ON sess.blueprint_id = s.blueprint_id
-     LEFT JOIN session_field_values sfv ON sfv.field_id = f.id AND sfv.session_id = $1
-     WHERE sess.id = $1`,
-    [sessionId]
-  );
-
-  if (!result) {
-    return { completion_percent: 0, status: 'in_progress' };
-  }
-
-  const percent =
-    result.required_count > 0
-      ? Math.round((result.filled_count / result.required_count) * 100)
-      : 100;
-
-  const status = percent === 100 ? 'completed' : 'in_progress';
-
-  await execute(
-    'UPDATE sessions SET completion_percent = $1, status = $2, updated_at = NOW() WHERE id = $3',
-    [percent, status, sessionId]
-  );
-
-  return { completion_percent: percent, status };
+  computed_values: Record<string, string>; // Recalculated Computed field values by field id
 }
 
 /**
  * PUT /api/v1/sessions/[id]/fields/[field_id]
  *
- * Update field value and recalculate session completion
+ * Update field value and recalculate Computed fields and session completion
  */
 export async function PUT(request: NextRequest, context: RouteContext) {
   try {
@@ -87,6 +61,17 @@ export async function PUT(request: NextRequest, context: RouteContext) {
       throw new ValidationError('Field value is required');
     }
 
+    if (typeof body.value !== 'string') {
+      throw new ValidationError('Field value must be a string');
+    }
+
+    if (
+      body.base_version !== undefined &&
+      (!Number.isInteger(body.base_version) || body.base_version < 0)
+    ) {
+      throw new ValidationError('Base version must be a non-negative integer');
+    }
+
     // Verify session exists and belongs to company
     const session = await queryOne<Session>(
       'SELECT * FROM sessions WHERE id = $1 AND company_id = $2',
@@ -97,9 +82,13 @@ export async function PUT(request: NextRequest, context: RouteContext) {
       throw new NotFoundError('Session not found');
     }
 
+    await ensureSessionUnlocked(sessionId);
+
     // Verify field exists (and belongs to the session's blueprint)
-    const fieldExists = await queryOne(
-      `SELECT f.id
+    const field = await queryOne<
+      Pick<Field, 'id' | 'key' | 'type' | 'label' | 'config' | 'validation'>
+    >(
+      `SELECT f.id, f.key, f.type, f.label, f.config, f.validation
        FROM fields f
        JOIN sections s ON s.id = f.section_id
        JOIN sessions sess ON sess.blueprint_id = s.blueprint_id
@@ -107,29 +96,92 @@ export async function PUT(request: NextRequest, context: RouteContext) {
       [fieldId, sessionId]
     );
 
-    if (!fieldExists) {
+    if (!field) {
       throw new NotFoundError('Field not found for this session');
     }
 
-    // Upsert field value
-    await execute(
-      `INSERT INTO session_field_values (session_id, field_id, value, reviewed)
-       VALUES ($1, $2, $3, true)
-       ON CONFLICT (session_id, field_id)
-       DO UPDATE SET
-         value = $3,
-         reviewed = true,
-         updated_at = NOW()`,
-      [sessionId, fieldId, body.value]
+    // Computed fields are derived from other values and can't be edited
+    if (field.type === 'Computed') {
+      throw new ValidationError(
+        `${field.label} is computed and cannot be edited`,
+        'COMPUTED_FIELD_READ_ONLY'
+      );
+    }
+
+    // Validate value against field type (e.g., Select options)
+    const valueError = validateFieldValue(field, body.value);
+    if (valueError) {
+      throw new ValidationError(valueError, 'INVALID_FIELD_VALUE');
+    }
+
+    // Validate value against the field's declarative rules (pattern, length, format)
+    const violation = validateFieldRules(field, body.value);
+    if (violation) {
+      throw new ValidationError(violation.message, 'FIELD_RULE_VIOLATION', {
+        field_id: fieldId,
+        field_key: field.key,
+        rule: violation.rule,
+      });
+    }
+
+    // Check cross-field date rules (e.g., end date on or after start date)
+    if (isDateType(field.type) && body.value !== '') {
+      const dateFields = await query<
+        Pick<Field, 'key' | 'type' | 'label' | 'config'> & { value: string | null }
+      >(
+        `SELECT f.key, f.type, f.label, f.config, sfv.value
+         FROM fields f
+         JOIN sections s ON s.id = f.section_id
+         LEFT JOIN session_field_values sfv
+           ON sfv.field_id = f.id AND sfv.session_id = $1 AND sfv.reviewed = true
+         WHERE s.blueprint_id = $2 AND f.id != $3 AND f.type IN ('Date', 'DateRange')`,
+        [sessionId, session.blueprint_id, fieldId]
+      );
+
+      const orderError = validateDateOrder(field, body.value, dateFields);
+      if (orderError) {
+        throw new ValidationError(orderError, 'INVALID_FIELD_VALUE');
+      }
+    }
+
+    // Upsert field value, recording the change in the field's history. A save
+    // based on an outdated version is rejected so the editor can resolve it.
+    const { changed, version } = await transaction((client) =>
+      writeFieldValue(client, {
+        sessionId,
+        fieldId,
+        value: body.value,
+        origin: 'manual',
+        memberId: user.id,
+        baseVersion: body.base_version,
+      })
     );
 
+    // Recalculate Computed fields that may depend on this value
+    const computedValues = await recalculateComputedFields(sessionId);
+
     // Recalculate completion
     const { completion_percent, status } = await updateSessionCompletion(sessionId);
 
+    // Show the edit to other members with the session open
+    if (changed) {
+      await publishSessionEvent(sessionId, {
+        type: 'field_updated',
+        field_id: fieldId,
+        value: body.value,
+        version,
+        computed_values: computedValues,
+        completion_percent,
+        member_id: user.id,
+      });
+    }
+
     logger.info('Updated field value', {
       session_id: sessionId,
       field_id: fieldId,
       company_id: user.company_id,
+      changed,
+      version,
       completion_percent,
       status,
     });
@@ -138,8 +190,10 @@ export async function PUT(request: NextRequest, context: RouteContext) {
       ok: true,
       data: {
         success: true,
+        version,
         completion_percent,
         status,
+        computed_values: computedValues,
       },
     });
   } catch (error) {
@@ -0,0 +1,137 @@
+/**
+ * Revert Field Value API Route
+ *
+ * POST /api/v1/sessions/[id]/history/[history_id]/revert - Undo a recorded field value change
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/auth/middleware';
+import { handleError, NotFoundError, ValidationError } from '@/lib/errors';
+import { queryOne, transaction } from '@/lib/db/query';
+import { logger } from '@/lib/logger';
+import { Field } from '@/features/blueprints/types/blueprint';
+import { RevertFieldValueResponse } from '@/features/sessions/types/session';
+import { validateFieldValue } from '@/features/sessions/utils/field-value';
+import { recalculateComputedFields } from '@/lib/sessions/computed-fields';
+import { updateSessionCompletion } from '@/lib/sessions/completion';
+import { writeFieldValue } from '@/lib/sessions/value-history';
+import { publishSessionEvent } from '@/lib/sessions/events';
+import { ensureSessionUnlocked } from '@/lib/sessions/review';
+
+type SuccessResponse<T> = {
+  ok: true;
+  data: T;
+};
+
+type RouteContext = {
+  params: Promise<{ id: string; history_id: string }>;
+};
+
+type HistoryEntryWithField = Pick<Field, 'type' | 'label' | 'config'> & {
+  id: string;
+  field_id: string;
+  previous_value: string | null;
+  in_session_version: boolean;
+};
+
+/**
+ * POST /api/v1/sessions/[id]/history/[history_id]/revert
+ *
+ * Set the field back to the value it had before the given change. The revert
+ * is recorded as a new history entry, so it can itself be reverted.
+ */
+export async function POST(_request: NextRequest, context: RouteContext) {
+  try {
+    const user = await requireAuth(['owner', 'editor']);
+    const { id: sessionId, history_id: historyId } = await context.params;
+
+    const session = await queryOne<{ id: string }>(
+      'SELECT id FROM sessions WHERE id = $1 AND company_id = $2',
+      [sessionId, user.company_id]
+    );
+
+    if (!session) {
+      throw new NotFoundError('Session');
+    }
+
+    await ensureSessionUnlocked(sessionId);
+
+    const entry = await queryOne<HistoryEntryWithField>(
+      `SELECT h.id, h.field_id, h.previous_value, f.type, f.label, f.config,
+              (s.blueprint_id = sess.blueprint_id) as in_session_version
+       FROM session_field_value_history h
+       JOIN fields f ON f.id = h.field_id
+       JOIN sections s ON s.id = f.section_id
+       JOIN sessions sess ON sess.id = h.session_id
+       WHERE h.id = $1 AND h.session_id = $2`,
+      [historyId, sessionId]
+    );
+
+    if (!entry) {
+      throw new NotFoundError('History entry');
+    }
+
+    // Fields dropped by a version upgrade keep their history but can't be edited
+    if (!entry.in_session_version) {
+      throw new ValidationError(
+        `${entry.label} is no longer part of this session`,
+        'FIELD_NOT_IN_SESSION'
+      );
+    }
+
+    // The field's options may have changed since the value was set
+    if (entry.previous_value) {
+      const valueError = validateFieldValue(entry, entry.previous_value);
+      if (valueError) {
+        throw new ValidationError(valueError, 'INVALID_FIELD_VALUE');
+      }
+    }
+
+    const { changed, version } = await transaction((client) =>
+      writeFieldValue(client, {
+        sessionId,
+        fieldId: entry.field_id,
+        value: entry.previous_value,
+        origin: 'revert',
+        memberId: user.id,
+        revertedHistoryId: entry.id,
+      })
+    );
+
+    const computedValues = await recalculateComputedFields(sessionId);
+    const { completion_percent, status } = await updateSessionCompletion(sessionId);
+
+    if (changed) {
+      await publishSessionEvent(sessionId, {
+        type: 'field_updated',
+        field_id: entry.field_id,
+        value: entry.previous_value,
+        version,
+        computed_values: computedValues,
+        completion_percent,
+        member_id: user.id,
+      });
+    }
+
+    logger.info('Reverted field value', {
+      session_id: sessionId,
+      field_id: entry.field_id,
+      history_id: historyId,
+      user_id: user.id,
+    });
+
+    return NextResponse.json<SuccessResponse<RevertFieldValueResponse>>({
+      ok: true,
+      data: {
+        field_id: entry.field_id,
+        value: entry.previous_value,
+        version,
+        computed_values: computedValues,
+        completion_percent,
+        status,
+      },
+    });
+  } catch (error) {
+    return handleError(error);
+  }
+}
@@ -0,0 +1,61 @@
+/**
+ * Session Field Value History API Route
+ *
+ * GET /api/v1/sessions/[id]/history - List changes to the session's field values
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/auth/middleware';
+import { handleError, NotFoundError } from '@/lib/errors';
+import { queryOne } from '@/lib/db/query';
+import { logger } from '@/lib/logger';
+import { listValueHistory } from '@/lib/sessions/value-history';
+import { FieldValueHistoryEntry } from '@/features/sessions/types/session';
+
+type SuccessResponse<T> = {
+  ok: true;
+  data: T;
+};
+
+type RouteContext = {
+  params: Promise<{ id: string }>;
+};
+
+/**
+ * GET /api/v1/sessions/[id]/history
+ *
+ * List every recorded change to the session's field values, newest first.
+ * Pass ?field_id= to list a single field's history.
+ * All authenticated users can view history
+ */
+export async function GET(request: NextRequest, context: RouteContext) {
+  try {
+    const user = await requireAuth();
+    const { id: sessionId } = await context.params;
+    const fieldId = request.nextUrl.searchParams.get('field_id') || undefined;
+
+    const session = await queryOne<{ id: string }>(
+      'SELECT id FROM sessions WHERE id = $1 AND company_id = $2',
+      [sessionId, user.company_id]
+    );
+
+    if (!session) {
+      throw new NotFoundError('Session');
+    }
+
+    const history = await listValueHistory(sessionId, fieldId);
+
+    logger.info('Fetched field value history', {
+      session_id: sessionId,
+      field_id: fieldId,
+      entry_count: history.length,
+    });
+
+    return NextResponse.json<SuccessResponse<FieldValueHistoryEntry[]>>({
+      ok: true,
+      data: history,
+    });
+  } catch (error) {
+    return handleError(error);
+  }
+}
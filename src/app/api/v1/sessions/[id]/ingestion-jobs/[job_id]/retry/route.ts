@@ -0,0 +1,71 @@
+/**
+ * Ingestion Job Retry API Route
+ *
+ * POST /api/v1/sessions/[id]/ingestion-jobs/[job_id]/retry - Queue a failed job again
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/auth/middleware';
+import { ConflictError, handleError, NotFoundError } from '@/lib/errors';
+import { queryOne } from '@/lib/db/query';
+import { IngestionJob } from '@/features/sources/types/source';
+import { ensureSessionUnlocked } from '@/lib/sessions/review';
+import { retryIngestionJob } from '@/lib/sources/ingestion';
+
+type SuccessResponse<T> = {
+  ok: true;
+  data: T;
+};
+
+type RouteContext = {
+  params: Promise<{ id: string; job_id: string }>;
+};
+
+/**
+ * POST /api/v1/sessions/[id]/ingestion-jobs/[job_id]/retry
+ *
+ * Queue a failed job again with a fresh set of attempts
+ * Only owners and editors can retry jobs
+ */
+export async function POST(_request: NextRequest, context: RouteContext) {
+  try {
+    const user = await requireAuth(['owner', 'editor']);
+    const { id: sessionId, job_id: jobId } = await context.params;
+
+    const session = await queryOne<{ id: string }>(
+      'SELECT id FROM sessions WHERE id = $1 AND company_id = $2',
+      [sessionId, user.company_id]
+    );
+
+    if (!session) {
+      throw new NotFoundError('Session');
+    }
+
+    await ensureSessionUnlocked(sessionId);
+
+    const existing = await queryOne<{ state: string }>(
+      'SELECT state FROM ingestion_jobs WHERE id = $1 AND session_id = $2',
+      [jobId, sessionId]
+    );
+
+    if (!existing) {
+      throw new NotFoundError('Ingestion job');
+    }
+
+    const job = await retryIngestionJob(sessionId, jobId);
+
+    if (!job) {
+      throw new ConflictError('Only failed jobs can be retried', 'JOB_NOT_FAILED');
+    }
+
+    return NextResponse.json<SuccessResponse<IngestionJob>>(
+      {
+        ok: true,
+        data: job,
+      },
+      { status: 202 }
+    );
+  } catch (error) {
+    return handleError(error);
+  }
+}
@@ -0,0 +1,59 @@
+/**
+ * Session Ingestion Jobs API Route
+ *
+ * GET /api/v1/sessions/[id]/ingestion-jobs - Poll source extraction and mapping progress
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/auth/middleware';
+import { handleError, NotFoundError } from '@/lib/errors';
+import { queryOne } from '@/lib/db/query';
+import { IngestionJob } from '@/features/sources/types/source';
+import { kickIngestionWorker, listIngestionJobs } from '@/lib/sources/ingestion';
+
+type SuccessResponse<T> = {
+  ok: true;
+  data: T;
+};
+
+type RouteContext = {
+  params: Promise<{ id: string }>;
+};
+
+/**
+ * GET /api/v1/sessions/[id]/ingestion-jobs
+ *
+ * List the session's ingestion jobs, newest first. Pass ?ids= (comma
+ * separated) to poll specific jobs. Polling also wakes this instance's
+ * worker, so queued jobs are picked up even after a restart.
+ * All authenticated users can view jobs
+ */
+export async function GET(request: NextRequest, context: RouteContext) {
+  try {
+    const user = await requireAuth();
+    const { id: sessionId } = await context.params;
+    const ids = request.nextUrl.searchParams.get('ids')?.split(',').filter(Boolean);
+
+    const session = await queryOne<{ id: string }>(
+      'SELECT id FROM sessions WHERE id = $1 AND company_id = $2',
+      [sessionId, user.company_id]
+    );
+
+    if (!session) {
+      throw new NotFoundError('Session');
+    }
+
+    const jobs = await listIngestionJobs(sessionId, ids);
+
+    if (jobs.some((job) => job.state !== 'done' && job.state !== 'failed')) {
+      kickIngestionWorker();
+    }
+
+    return NextResponse.json<SuccessResponse<IngestionJob[]>>({
+      ok: true,
+      data: jobs,
+    });
+  } catch (error) {
+    return handleError(error);
+  }
+}
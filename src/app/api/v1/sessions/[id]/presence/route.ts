@@ -0,0 +1,74 @@
+/**
+ * Session Presence API Route
+ *
+ * PUT /api/v1/sessions/[id]/presence - Heartbeat with the section the member is viewing
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/auth/middleware';
+import { handleError, NotFoundError, ValidationError } from '@/lib/errors';
+import { queryOne } from '@/lib/db/query';
+import { updatePresence } from '@/lib/sessions/presence';
+import { SessionPresenceMember } from '@/features/sessions/types/session';
+
+type SuccessResponse<T> = {
+  ok: true;
+  data: T;
+};
+
+type RouteContext = {
+  params: Promise<{ id: string }>;
+};
+
+interface UpdatePresenceRequest {
+  section_id: string | null;
+}
+
+/**
+ * PUT /api/v1/sessions/[id]/presence
+ *
+ * Mark the member as present in the session, in the given section. Clients
+ * send this when switching sections and periodically while the session is
+ * open; members stop showing once their heartbeats stop.
+ * All authenticated users can be present
+ */
+export async function PUT(request: NextRequest, context: RouteContext) {
+  try {
+    const user = await requireAuth();
+    const { id: sessionId } = await context.params;
+    const body = (await request.json()) as UpdatePresenceRequest;
+
+    if (body.section_id !== null && typeof body.section_id !== 'string') {
+      throw new ValidationError('Section ID must be a string or null');
+    }
+
+    const session = await queryOne<{ blueprint_id: string }>(
+      'SELECT blueprint_id FROM sessions WHERE id = $1 AND company_id = $2',
+      [sessionId, user.company_id]
+    );
+
+    if (!session) {
+      throw new NotFoundError('Session');
+    }
+
+    if (body.section_id) {
+      const section = await queryOne<{ id: string }>(
+        'SELECT id FROM sections WHERE id = $1 AND blueprint_id = $2',
+        [body.section_id, session.blueprint_id]
+      );
+
+      if (!section) {
+        throw new NotFoundError('Section');
+      }
+    }
+
+    const members = await updatePresence(sessionId, user.id, body.section_id);
+
+    return NextResponse.json<SuccessResponse<SessionPresenceMember[]>>({
+      ok: true,
+      data: members,
+    });
+  } catch (error) {
+    return handleError(error);
+  }
+}
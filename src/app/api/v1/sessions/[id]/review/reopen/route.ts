@@ -0,0 +1,66 @@
+/**
+ * Reopen Session API Route
+ *
+ * POST /api/v1/sessions/[id]/review/reopen - Return the session to draft and unlock it
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/auth/middleware';
+import { handleError, ValidationError } from '@/lib/errors';
+import { logger } from '@/lib/logger';
+import { getSessionReview, reopenReview } from '@/lib/sessions/review';
+import { publishSessionEvent } from '@/lib/sessions/events';
+import { ReviewCommentRequest, SessionReview } from '@/features/sessions/types/session';
+
+type SuccessResponse<T> = {
+  ok: true;
+  data: T;
+};
+
+type RouteContext = {
+  params: Promise<{ id: string }>;
+};
+
+/**
+ * POST /api/v1/sessions/[id]/review/reopen
+ *
+ * Withdraw a session from review, or unlock an approved session, so it can be
+ * edited again. Reviewers stay assigned for the next submission.
+ */
+export async function POST(request: NextRequest, context: RouteContext) {
+  try {
+    const user = await requireAuth(['owner', 'editor']);
+    const { id: sessionId } = await context.params;
+    const body = (await request.json()) as ReviewCommentRequest;
+
+    if (body.comment !== undefined && typeof body.comment !== 'string') {
+      throw new ValidationError('Comment must be a string');
+    }
+
+    await reopenReview({
+      sessionId,
+      companyId: user.company_id,
+      comment: body.comment?.trim() || null,
+      memberId: user.id,
+    });
+
+    const review = await getSessionReview(sessionId);
+    await publishSessionEvent(sessionId, {
+      type: 'review_changed',
+      review_status: review.review_status,
+      member_id: user.id,
+    });
+
+    logger.info('Reopened session', {
+      session_id: sessionId,
+      user_id: user.id,
+    });
+
+    return NextResponse.json<SuccessResponse<SessionReview>>({
+      ok: true,
+      data: review,
+    });
+  } catch (error) {
+    return handleError(error);
+  }
+}
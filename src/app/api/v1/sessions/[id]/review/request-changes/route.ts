@@ -0,0 +1,76 @@
+/**
+ * Request Session Changes API Route
+ *
+ * POST /api/v1/sessions/[id]/review/request-changes - Send the session back to its editors with a comment
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/auth/middleware';
+import { handleError, ValidationError } from '@/lib/errors';
+import { logger } from '@/lib/logger';
+import { decideReview, getSessionReview } from '@/lib/sessions/review';
+import { publishSessionEvent } from '@/lib/sessions/events';
+import { ReviewCommentRequest, SessionReview } from '@/features/sessions/types/session';
+
+type SuccessResponse<T> = {
+  ok: true;
+  data: T;
+};
+
+type RouteContext = {
+  params: Promise<{ id: string }>;
+};
+
+/**
+ * POST /api/v1/sessions/[id]/review/request-changes
+ *
+ * Record the reviewer's request for changes and send the session back to its
+ * editors. A comment explaining what to change is required.
+ * Any assigned reviewer can decide, whatever their role
+ */
+export async function POST(request: NextRequest, context: RouteContext) {
+  try {
+    const user = await requireAuth();
+    const { id: sessionId } = await context.params;
+    const body = (await request.json()) as ReviewCommentRequest;
+
+    if (body.comment !== undefined && typeof body.comment !== 'string') {
+      throw new ValidationError('Comment must be a string');
+    }
+
+    if (!body.comment?.trim()) {
+      throw new ValidationError(
+        'A comment is required when requesting changes',
+        'COMMENT_REQUIRED'
+      );
+    }
+
+    await decideReview({
+      sessionId,
+      companyId: user.company_id,
+      decision: 'changes_requested',
+      comment: body.comment?.trim() || null,
+      memberId: user.id,
+    });
+
+    const review = await getSessionReview(sessionId);
+    await publishSessionEvent(sessionId, {
+      type: 'review_changed',
+      review_status: review.review_status,
+      member_id: user.id,
+    });
+
+    logger.info('Requested session changes', {
+      session_id: sessionId,
+      review_status: review.review_status,
+      user_id: user.id,
+    });
+
+    return NextResponse.json<SuccessResponse<SessionReview>>({
+      ok: true,
+      data: review,
+    });
+  } catch (error) {
+    return handleError(error);
+  }
+}
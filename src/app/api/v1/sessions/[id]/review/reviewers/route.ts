@@ -0,0 +1,75 @@
+/**
+ * Session Reviewers API Route
+ *
+ * PUT /api/v1/sessions/[id]/review/reviewers - Change who reviews a session in review
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/auth/middleware';
+import { handleError, ValidationError } from '@/lib/errors';
+import { logger } from '@/lib/logger';
+import { getSessionReview, updateReviewers } from '@/lib/sessions/review';
+import { publishSessionEvent } from '@/lib/sessions/events';
+import { SessionReview, UpdateSessionReviewersRequest } from '@/features/sessions/types/session';
+
+type SuccessResponse<T> = {
+  ok: true;
+  data: T;
+};
+
+type RouteContext = {
+  params: Promise<{ id: string }>;
+};
+
+/**
+ * PUT /api/v1/sessions/[id]/review/reviewers
+ *
+ * Replace the reviewers of a session in review. Reviewers who stay keep their
+ * decisions; the session is approved if everyone left has approved.
+ */
+export async function PUT(request: NextRequest, context: RouteContext) {
+  try {
+    const user = await requireAuth(['owner', 'editor']);
+    const { id: sessionId } = await context.params;
+    const body = (await request.json()) as UpdateSessionReviewersRequest;
+
+    if (
+      !Array.isArray(body.reviewer_ids) ||
+      body.reviewer_ids.some((reviewerId) => typeof reviewerId !== 'string')
+    ) {
+      throw new ValidationError('Reviewer IDs must be an array of strings');
+    }
+
+    const reviewerIds = [...new Set(body.reviewer_ids)];
+    if (reviewerIds.length === 0) {
+      throw new ValidationError('At least one reviewer is required', 'REVIEWER_REQUIRED');
+    }
+
+    await updateReviewers({
+      sessionId,
+      companyId: user.company_id,
+      reviewerIds,
+      memberId: user.id,
+    });
+
+    const review = await getSessionReview(sessionId);
+    await publishSessionEvent(sessionId, {
+      type: 'review_changed',
+      review_status: review.review_status,
+      member_id: user.id,
+    });
+
+    logger.info('Updated session reviewers', {
+      session_id: sessionId,
+      reviewer_count: reviewerIds.length,
+      user_id: user.id,
+    });
+
+    return NextResponse.json<SuccessResponse<SessionReview>>({
+      ok: true,
+      data: review,
+    });
+  } catch (error) {
+    return handleError(error);
+  }
+}
@@ -0,0 +1,53 @@
+/**
+ * Session Review API Route
+ *
+ * GET /api/v1/sessions/[id]/review - Get review status, reviewers, and review history
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/auth/middleware';
+import { handleError, NotFoundError } from '@/lib/errors';
+import { queryOne } from '@/lib/db/query';
+import { getSessionReview } from '@/lib/sessions/review';
+import { SessionReview } from '@/features/sessions/types/session';
+
+type SuccessResponse<T> = {
+  ok: true;
+  data: T;
+};
+
+type RouteContext = {
+  params: Promise<{ id: string }>;
+};
+
+/**
+ * GET /api/v1/sessions/[id]/review
+ *
+ * Get the session's review status, assigned reviewers with their decisions,
+ * and every recorded review transition, newest first
+ * All authenticated users can view reviews
+ */
+export async function GET(_request: NextRequest, context: RouteContext) {
+  try {
+    const user = await requireAuth();
+    const { id: sessionId } = await context.params;
+
+    const session = await queryOne<{ id: string }>(
+      'SELECT id FROM sessions WHERE id = $1 AND company_id = $2',
+      [sessionId, user.company_id]
+    );
+
+    if (!session) {
+      throw new NotFoundError('Session');
+    }
+
+    const review = await getSessionReview(sessionId);
+
+    return NextResponse.json<SuccessResponse<SessionReview>>({
+      ok: true,
+      data: review,
+    });
+  } catch (error) {
+    return handleError(error);
+  }
+}
@@ -0,0 +1,80 @@
+/**
+ * Submit Session for Review API Route
+ *
+ * POST /api/v1/sessions/[id]/review/submit - Submit the session to reviewers
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/auth/middleware';
+import { handleError, ValidationError } from '@/lib/errors';
+import { logger } from '@/lib/logger';
+import { getSessionReview, submitForReview } from '@/lib/sessions/review';
+import { publishSessionEvent } from '@/lib/sessions/events';
+import { SessionReview, SubmitSessionReviewRequest } from '@/features/sessions/types/session';
+
+type SuccessResponse<T> = {
+  ok: true;
+  data: T;
+};
+
+type RouteContext = {
+  params: Promise<{ id: string }>;
+};
+
+/**
+ * POST /api/v1/sessions/[id]/review/submit
+ *
+ * Submit a draft, or a session with requested changes, for review by the
+ * given reviewers. Decisions from an earlier round are cleared.
+ */
+export async function POST(request: NextRequest, context: RouteContext) {
+  try {
+    const user = await requireAuth(['owner', 'editor']);
+    const { id: sessionId } = await context.params;
+    const body = (await request.json()) as SubmitSessionReviewRequest;
+
+    if (
+      !Array.isArray(body.reviewer_ids) ||
+      body.reviewer_ids.some((reviewerId) => typeof reviewerId !== 'string')
+    ) {
+      throw new ValidationError('Reviewer IDs must be an array of strings');
+    }
+
+    const reviewerIds = [...new Set(body.reviewer_ids)];
+    if (reviewerIds.length === 0) {
+      throw new ValidationError('At least one reviewer is required', 'REVIEWER_REQUIRED');
+    }
+
+    if (body.comment !== undefined && typeof body.comment !== 'string') {
+      throw new ValidationError('Comment must be a string');
+    }
+
+    await submitForReview({
+      sessionId,
+      companyId: user.company_id,
+      reviewerIds,
+      comment: body.comment?.trim() || null,
+      memberId: user.id,
+    });
+
+    const review = await getSessionReview(sessionId);
+    await publishSessionEvent(sessionId, {
+      type: 'review_changed',
+      review_status: review.review_status,
+      member_id: user.id,
+    });
+
+    logger.info('Submitted session for review', {
+      session_id: sessionId,
+      reviewer_count: reviewerIds.length,
+      user_id: user.id,
+    });
+
+    return NextResponse.json<SuccessResponse<SessionReview>>({
+      ok: true,
+      data: review,
+    });
+  } catch (error) {
+    return handleError(error);
+  }
+}
@@ -17,6 +17,10 @@ import {
   SectionWithProgress,
   UpdateSessionRequest,
 } from '@/features/sessions/types/session';
+import { Section } from '@/features/blueprints/types/blueprint';
+import { addSectionProgress, ProgressFieldState } from '@/features/sessions/utils/visibility';
+import { ensureSessionUnlocked } from '@/lib/sessions/review';
+import { deleteSourceFileIfUnused } from '@/lib/sources/files';
 
 type SuccessResponse<T> = {
   ok: true;
@@ -40,7 +44,10 @@ export async function GET(_request: NextRequest, context: RouteContext) {
 
     // Fetch session
     const session = await queryOne<Session>(
-      `SELECT s.*, b.name as blueprint_name
+      `SELECT s.*, b.name as blueprint_name,
+              COALESCE(b.version_of, b.id) as root_blueprint_id,
+              (SELECT MAX(v.version) FROM blueprints v
+               WHERE v.version_of = COALESCE(b.version_of, b.id))::int as latest_blueprint_version
        FROM sessions s
        JOIN blueprints b ON b.id = s.blueprint_id
        WHERE s.id = $1 AND s.company_id = $2`,
@@ -51,53 +58,28 @@ export async function GET(_request: NextRequest, context: RouteContext) {
       throw new NotFoundError('Session not found');
     }
 
-    // Fetch sections with progress tracking
-    const sections = await query<SectionWithProgress>(
-      `SELECT
-        s.*,
-        COALESCE(
-          (SELECT COUNT(*)::int
-           FROM fields f
-           WHERE f.section_id = s.id AND f.required = true),
-          0
-        ) as required_count,
-        COALESCE(
-          (SELECT COUNT(*)::int
-           FROM session_field_values sfv
-           JOIN fields f ON f.id = sfv.field_id
-           WHERE sfv.session_id = $1
-             AND f.section_id = s.id
-             AND f.required = true
-             AND sfv.value IS NOT NULL
-             AND sfv.value != ''),
-          0
-        ) as required_filled_count,
-        COALESCE(
-          (SELECT COUNT(*)::int
-           FROM fields f
-           WHERE f.section_id = s.id),
-          0
-        ) as total_count,
-        COALESCE(
-          (SELECT COUNT(*)::int
-           FROM session_field_values sfv
-           JOIN fields f ON f.id = sfv.field_id
-           WHERE sfv.session_id = $1
-             AND f.section_id = s.id
-             AND sfv.value IS NOT NULL
-             AND sfv.value != ''),
-          0
-        ) as total_filled_count,
-        0 as completion_percentage,
-        0 as total_completion_percentage
-       FROM sections s
+    // Fetch sections and fields with values, then count progress over visible fields only
+    const sections = await query<Section>(
+      'SELECT * FROM sections WHERE blueprint_id = $1 ORDER BY order_index',
+      [session.blueprint_id]
+    );
+
+    const fieldStates = await query<ProgressFieldState>(
+      `SELECT f.id, f.key, f.label, f.type, f.section_id, f.required, f.visibility, f.validation,
+              sfv.value
+       FROM fields f
+       JOIN sections s ON s.id = f.section_id
+       LEFT JOIN session_field_values sfv ON sfv.field_id = f.id AND sfv.session_id = $1
        WHERE s.blueprint_id = $2
-       ORDER BY s.order_index`,
+       ORDER BY s.order_index, f.order_index`,
       [id, session.blueprint_id]
     );
 
     // Calculate completion percentages
-    const sectionsWithProgress = sections.map((section) => ({
+    const sectionsWithProgress: SectionWithProgress[] = addSectionProgress(
+      sections,
+      fieldStates
+    ).map((section) => ({
       ...section,
       completion_percentage:
         section.required_count > 0
@@ -112,6 +94,7 @@ export async function GET(_request: NextRequest, context: RouteContext) {
     const sessionWithSections: SessionWithSections = {
       ...session,
       sections: sectionsWithProgress,
+      field_states: fieldStates,
     };
 
     logger.info('Fetched session', {
@@ -132,7 +115,7 @@ export async function GET(_request: NextRequest, context: RouteContext) {
 /**
  * PUT /api/v1/sessions/[id]
  *
- * Update session metadata (name, status)
+ * Update session metadata (name, status). Approved sessions are locked.
  */
 export async function PUT(request: NextRequest, context: RouteContext) {
   try {
@@ -182,14 +165,21 @@ export async function PUT(request: NextRequest, context: RouteContext) {
     // Add WHERE clause parameters
     values.push(id, user.company_id);
 
+    // The lock is checked in the UPDATE itself, so an approval can't land in between
     const updatedSession = await queryOne<Session>(
       `UPDATE sessions
        SET ${updates.join(', ')}
        WHERE id = $${paramIndex++} AND company_id = $${paramIndex++}
+         AND review_status != 'approved'
        RETURNING *`,
       values
     );
 
+    if (!updatedSession) {
+      await ensureSessionUnlocked(id);
+      throw new NotFoundError('Session not found');
+    }
+
     logger.info('Updated session', {
       session_id: id,
       company_id: user.company_id,
@@ -198,7 +188,7 @@ export async function PUT(request: NextRequest, context: RouteContext) {
 
     return NextResponse.json<SuccessResponse<Session>>({
       ok: true,
-      data: updatedSession!,
+      data: updatedSession,
     });
   } catch (error) {
     return handleError(error);
@@ -225,9 +215,19 @@ export async function DELETE(_request: NextRequest, context: RouteContext) {
       throw new NotFoundError('Session not found');
     }
 
+    const files = await query<{ file_hash: string }>(
+      'SELECT DISTINCT file_hash FROM sources WHERE session_id = $1 AND file_hash IS NOT NULL',
+      [id]
+    );
+
     // Delete session (cascade will handle related data)
     await execute('DELETE FROM sessions WHERE id = $1', [id]);
 
+    // Stored source files go too, unless other sessions' sources share them
+    for (const { file_hash } of files) {
+      await deleteSourceFileIfUnused(file_hash);
+    }
+
     logger.info('Deleted session', {
       session_id: id,
       company_id: user.company_id,
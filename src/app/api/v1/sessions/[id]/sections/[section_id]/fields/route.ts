@@ -25,6 +25,7 @@ export interface FieldWithValue extends Field {
   value?: string | null;
   confidence: number | null;
   reviewed: boolean;
+  version: number; // Accepted value version, sent back when saving (0 when there's none)
 }
 
 /**
@@ -54,7 +55,8 @@ export async function GET(_request: NextRequest, context: RouteContext) {
         f.*,
         sfv.value,
         sfv.confidence,
-        COALESCE(sfv.reviewed, false) as reviewed
+        COALESCE(sfv.reviewed, false) as reviewed,
+        COALESCE(sfv.version, 0) as version
        FROM fields f
        LEFT JOIN session_field_values sfv
          ON sfv.field_id = f.id
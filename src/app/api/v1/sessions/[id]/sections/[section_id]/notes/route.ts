@@ -8,9 +8,10 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { requireAuth } from '@/lib/auth/middleware';
 import { handleError, NotFoundError, ValidationError } from '@/lib/errors';
-import { queryOne } from '@/lib/db/query';
+import { queryOne, transaction } from '@/lib/db/query';
 import { logger } from '@/lib/logger';
 import { SectionNote, UpdateSectionNotesRequest } from '@/features/sessions/types/session';
+import { ensureSessionUnlocked, lockSessionForEdit } from '@/lib/sessions/review';
 
 type SuccessResponse<T> = {
   ok: true;
@@ -86,6 +87,8 @@ export async function PUT(request: NextRequest, context: RouteContext) {
       throw new NotFoundError('Session not found');
     }
 
+    await ensureSessionUnlocked(id);
+
     // Verify section exists
     const section = await queryOne<{ id: string }>('SELECT id FROM sections WHERE id = $1', [
       section_id,
@@ -96,14 +99,19 @@ export async function PUT(request: NextRequest, context: RouteContext) {
     }
 
     // Upsert section notes
-    const notes = await queryOne<SectionNote>(
-      `INSERT INTO section_notes (session_id, section_id, markdown)
-       VALUES ($1, $2, $3)
-       ON CONFLICT (session_id, section_id)
-       DO UPDATE SET markdown = $3, updated_at = NOW()
-       RETURNING *`,
-      [id, section_id, body.markdown]
-    );
+    const notes = await transaction(async (client) => {
+      await lockSessionForEdit(client, id);
+
+      const result = await client.query(
+        `INSERT INTO section_notes (session_id, section_id, markdown)
+         VALUES ($1, $2, $3)
+         ON CONFLICT (session_id, section_id)
+         DO UPDATE SET markdown = $3, updated_at = NOW()
+         RETURNING *`,
+        [id, section_id, body.markdown]
+      );
+      return result.rows[0] as SectionNote | undefined;
+    });
 
     logger.info('Updated section notes', {
       session_id: id,
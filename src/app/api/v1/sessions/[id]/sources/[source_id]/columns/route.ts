@@ -0,0 +1,164 @@
+/**
+ * Source Column Import API Routes
+ *
+ * GET  /api/v1/sessions/[id]/sources/[source_id]/columns - Get a CSV/XLSX source's tables, fields, and saved mappings
+ * POST /api/v1/sessions/[id]/sources/[source_id]/columns - Import mapped columns as suggestions
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/auth/middleware';
+import { handleError, NotFoundError, ValidationError } from '@/lib/errors';
+import { queryOne } from '@/lib/db/query';
+import {
+  ColumnImportResult,
+  ColumnMappingEntry,
+  ColumnRowSelection,
+  Source,
+  SourceColumnsResponse,
+} from '@/features/sources/types/source';
+import { COLUMN_AGGREGATE_LABELS } from '@/features/sources/utils/tabular';
+import { getSourceColumns, importSourceColumns } from '@/lib/sources/column-import';
+
+type SuccessResponse<T> = {
+  ok: true;
+  data: T;
+};
+
+type RouteContext = {
+  params: Promise<{ id: string; source_id: string }>;
+};
+
+type ColumnImportRequest = {
+  table_index: number;
+  columns: ColumnMappingEntry[];
+  row_selection: ColumnRowSelection;
+  save?: boolean;
+};
+
+async function getSessionSource(
+  sessionId: string,
+  sourceId: string,
+  companyId: string | null
+): Promise<Source> {
+  const source = await queryOne<Source>(
+    `SELECT src.* FROM sources src
+     JOIN sessions s ON s.id = src.session_id
+     WHERE src.id = $1 AND src.session_id = $2 AND s.company_id = $3`,
+    [sourceId, sessionId, companyId]
+  );
+
+  if (!source) {
+    throw new NotFoundError('Source');
+  }
+
+  return source;
+}
+
+function isColumnMappingEntry(entry: unknown): entry is ColumnMappingEntry {
+  if (!entry || typeof entry !== 'object') return false;
+  const { column, field_key, sub_field_key, aggregate } = entry as Record<string, unknown>;
+
+  return (
+    typeof column === 'string' &&
+    typeof field_key === 'string' &&
+    (sub_field_key === undefined || typeof sub_field_key === 'string') &&
+    (aggregate === undefined ||
+      (typeof aggregate === 'string' && Object.keys(COLUMN_AGGREGATE_LABELS).includes(aggregate)))
+  );
+}
+
+function isRowSelection(selection: unknown): selection is ColumnRowSelection {
+  if (!selection || typeof selection !== 'object') return false;
+  const { mode, row_number } = selection as Record<string, unknown>;
+
+  return mode === 'all' || (mode === 'row' && Number.isInteger(row_number));
+}
+
+/**
+ * GET /api/v1/sessions/[id]/sources/[source_id]/columns
+ *
+ * Get the tables of a CSV or XLSX source (one per sheet), the fields their
+ * columns can map onto, and the mapping saved for each table's header row
+ * All authenticated users can view columns
+ */
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id: sessionId, source_id: sourceId } = await params;
+    const user = await requireAuth();
+
+    const source = await getSessionSource(sessionId, sourceId, user.company_id);
+    const columns = await getSourceColumns(source);
+
+    return NextResponse.json<SuccessResponse<SourceColumnsResponse>>({
+      ok: true,
+      data: columns,
+    });
+  } catch (error) {
+    return handleError(error);
+  }
+}
+
+/**
+ * POST /api/v1/sessions/[id]/sources/[source_id]/columns
+ *
+ * Import a table's mapped columns as suggestions with confidence 1.0. Values
+ * come from one row, or from all rows (each column combined by its
+ * aggregate; RepeatableGroup fields get one group row per table row). With
+ * save=true the mapping is applied to later uploads of the same export.
+ * Requires owner or editor role
+ */
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id: sessionId, source_id: sourceId } = await params;
+    const user = await requireAuth(['owner', 'editor']);
+
+    const source = await getSessionSource(sessionId, sourceId, user.company_id);
+    const body = (await request.json()) as ColumnImportRequest;
+
+    if (!Number.isInteger(body.table_index) || body.table_index < 0) {
+      throw new ValidationError('table_index must be a non-negative integer');
+    }
+
+    if (
+      !Array.isArray(body.columns) ||
+      body.columns.length === 0 ||
+      !body.columns.every(isColumnMappingEntry)
+    ) {
+      throw new ValidationError('Map at least one column to a field');
+    }
+
+    if (!isRowSelection(body.row_selection)) {
+      throw new ValidationError('row_selection must pick one row by number or all rows');
+    }
+
+    if (body.save !== undefined && typeof body.save !== 'boolean') {
+      throw new ValidationError('save must be a boolean');
+    }
+
+    const result = await importSourceColumns({
+      source,
+      tableIndex: body.table_index,
+      mapping: {
+        columns: body.columns.map((entry) => ({
+          column: entry.column,
+          field_key: entry.field_key,
+          ...(entry.sub_field_key && { sub_field_key: entry.sub_field_key }),
+          ...(entry.aggregate && { aggregate: entry.aggregate }),
+        })),
+        row_selection:
+          body.row_selection.mode === 'row'
+            ? { mode: 'row', row_number: body.row_selection.row_number }
+            : { mode: 'all' },
+      },
+      save: body.save ?? false,
+      memberId: user.id,
+    });
+
+    return NextResponse.json<SuccessResponse<ColumnImportResult>>({
+      ok: true,
+      data: result,
+    });
+  } catch (error) {
+    return handleError(error);
+  }
+}
@@ -1,18 +1,20 @@
 /**
  * Session Sources API Routes
  *
- * GET    /api/v1/sessions/[id]/sources - List all sources for session
- * POST   /api/v1/sessions/[id]/sources - Create new source (file or paste)
+ * GET    /api/v1/sessions/[id]/sources - List all sources for session, with their ingestion jobs
+ * POST   /api/v1/sessions/[id]/sources - Create new source (file, paste, or URL) and queue its ingestion
  */
 
 import { NextRequest, NextResponse } from 'next/server';
 import { requireAuth } from '@/lib/auth/middleware';
 import { handleError, ValidationError, NotFoundError } from '@/lib/errors';
-import { query, queryOne } from '@/lib/db/query';
+import { queryOne } from '@/lib/db/query';
 import { logger } from '@/lib/logger';
-import { extractText } from '@/features/sources/lib/extract-text';
-import { scrapeUrl } from '@/features/sources/lib/scrape-url';
-import { Source } from '@/features/sources/types/source';
+import { isSupportedFile } from '@/features/sources/lib/extract-text';
+import { IngestionJob, Source, SourceWithJob } from '@/features/sources/types/source';
+import { ensureSessionUnlocked } from '@/lib/sessions/review';
+import { storeSourceFile } from '@/lib/sources/files';
+import { enqueueIngestionJob, listSourcesWithJobs } from '@/lib/sources/ingestion';
 
 type SuccessResponse<T> = {
   ok: true;
@@ -25,7 +27,7 @@ const MAX_PASTE_LENGTH = 50000; // 50k characters
 /**
  * GET /api/v1/sessions/[id]/sources
  *
- * List all sources for a session
+ * List all sources for a session, each with its latest ingestion job
  * All authenticated users can view sources
  */
 export async function GET(_request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
@@ -48,19 +50,14 @@ export async function GET(_request: NextRequest, { params }: { params: Promise<{
     }
 
     // Get all sources for the session
-    const sources = await query<Source>(
-      `SELECT * FROM sources
-       WHERE session_id = $1
-       ORDER BY created_at DESC`,
-      [sessionId]
-    );
+    const sources = await listSourcesWithJobs(sessionId);
 
     logger.info('Fetched sources', {
       session_id: sessionId,
       count: sources.length,
     });
 
-    return NextResponse.json<SuccessResponse<Source[]>>({
+    return NextResponse.json<SuccessResponse<SourceWithJob[]>>({
       ok: true,
       data: sources,
     });
@@ -73,6 +70,11 @@ export async function GET(_request: NextRequest, { params }: { params: Promise<{
  * POST /api/v1/sessions/[id]/sources
  *
  * Create new source from file upload, pasted text, or URL scraping
+ *
+ * Files and URLs are stored without text and a job is queued to extract it.
+ * With form field map=true the job also runs AI mapping (pasted text only
+ * gets a job then). Responds 202 with the source and its job; poll
+ * GET /api/v1/sessions/[id]/ingestion-jobs for progress.
  */
 export async function POST(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
   try {
@@ -93,11 +95,14 @@ export async function POST(request: NextRequest, { params }: { params: Promise<{
       throw new NotFoundError('Session');
     }
 
+    await ensureSessionUnlocked(sessionId);
+
     // Parse form data
     const formData = await request.formData();
     const file = formData.get('file') as File | null;
     const pastedText = formData.get('text') as string | null;
     const url = formData.get('url') as string | null;
+    const map = formData.get('map') === 'true';
 
     // Validate that exactly one input type is provided
     const inputCount = [file, pastedText, url].filter(Boolean).length;
@@ -117,21 +122,31 @@ export async function POST(request: NextRequest, { params }: { params: Promise<{
         throw new ValidationError('File size exceeds 10MB limit');
       }
 
-      // Extract text from file
-      const textExtracted = await extractText(file);
+      // Reject files we can't extract before queueing them
+      if (!isSupportedFile(file)) {
+        throw new ValidationError(`Unsupported file type: ${file.type || 'unknown'}`);
+      }
 
-      // Store source
-      const newSource = await queryOne<Source>(
-        `INSERT INTO sources (session_id, type, filename_or_url, text_extracted, metadata, created_by)
-         VALUES ($1, 'file', $2, $3, $4, $5)
-         RETURNING *`,
-        [
-          sessionId,
-          file.name,
-          textExtracted,
-          JSON.stringify({ size: file.size, mimeType: file.type }),
-          user.id,
-        ]
+      // Keep the original file for download and re-extraction, and store the
+      // source with it; text is extracted by the ingestion job
+      const newSource = await storeSourceFile(
+        Buffer.from(await file.arrayBuffer()),
+        file.type,
+        async (client, fileHash) => {
+          const result = await client.query(
+            `INSERT INTO sources (session_id, type, filename_or_url, text_extracted, metadata, file_hash, created_by)
+             VALUES ($1, 'file', $2, NULL, $3, $4, $5)
+             RETURNING *`,
+            [
+              sessionId,
+              file.name,
+              JSON.stringify({ size: file.size, mimeType: file.type }),
+              fileHash,
+              user.id,
+            ]
+          );
+          return result.rows[0] as Source | undefined;
+        }
       );
 
       if (!newSource) {
@@ -145,7 +160,6 @@ export async function POST(request: NextRequest, { params }: { params: Promise<{
         session_id: sessionId,
         filename: file.name,
         size: file.size,
-        text_length: textExtracted.length,
       });
     }
     // Handle pasted text
@@ -186,15 +200,12 @@ export async function POST(request: NextRequest, { params }: { params: Promise<{
         throw new ValidationError('URL must start with http:// or https://');
       }
 
-      // Scrape URL
-      const textExtracted = await scrapeUrl(url);
-
-      // Store source
+      // Store source, the page is scraped by the ingestion job
       const newSource = await queryOne<Source>(
         `INSERT INTO sources (session_id, type, filename_or_url, text_extracted, created_by)
-         VALUES ($1, 'url', $2, $3, $4)
+         VALUES ($1, 'url', $2, NULL, $3)
          RETURNING *`,
-        [sessionId, url, textExtracted, user.id]
+        [sessionId, url, user.id]
       );
 
       if (!newSource) {
@@ -207,16 +218,26 @@ export async function POST(request: NextRequest, { params }: { params: Promise<{
         source_id: source.id,
         session_id: sessionId,
         url,
-        text_length: textExtracted.length,
       });
     }
 
-    return NextResponse.json<SuccessResponse<Source>>(
+    // Pasted text needs no extraction, so it only gets a job when mapping
+    let job: IngestionJob | null = null;
+    if (source.text_extracted === null || map) {
+      job = await enqueueIngestionJob({
+        sessionId,
+        sourceId: source.id,
+        map,
+        createdBy: user.id,
+      });
+    }
+
+    return NextResponse.json<SuccessResponse<SourceWithJob>>(
       {
         ok: true,
-        data: source,
+        data: { ...source, job },
       },
-      { status: 201 }
+      { status: 202 }
     );
   } catch (error) {
     return handleError(error);
@@ -7,8 +7,12 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { requireAuth } from '@/lib/auth/middleware';
 import { handleError, NotFoundError } from '@/lib/errors';
-import { queryOne, execute } from '@/lib/db/query';
+import { queryOne, transaction } from '@/lib/db/query';
 import { logger } from '@/lib/logger';
+import { recalculateComputedFields } from '@/lib/sessions/computed-fields';
+import { recordValueChange } from '@/lib/sessions/value-history';
+import { publishSessionEvent } from '@/lib/sessions/events';
+import { ensureSessionUnlocked, lockSessionForEdit } from '@/lib/sessions/review';
 
 type SuccessResponse = {
   ok: true;
@@ -42,6 +46,8 @@ export async function PUT(
       throw new NotFoundError('Session');
     }
 
+    await ensureSessionUnlocked(sessionId);
+
     // Verify suggestion exists and belongs to this session
     const suggestion = await queryOne<{ session_id: string; field_id: string }>(
       'SELECT session_id, field_id FROM session_field_values WHERE id = $1',
@@ -52,11 +58,35 @@ export async function PUT(
       throw new NotFoundError('Suggestion');
     }
 
-    // Mark suggestion as reviewed (accept keeps the value)
-    await execute(
-      'UPDATE session_field_values SET reviewed = true, updated_at = NOW() WHERE id = $1',
-      [suggestionId]
-    );
+    // Mark suggestion as reviewed (accept keeps the value) and record it in the field's history
+    await transaction(async (client) => {
+      await lockSessionForEdit(client, sessionId);
+
+      const result = await client.query(
+        `UPDATE session_field_values SET reviewed = true, updated_at = NOW()
+         WHERE id = $1 AND reviewed = false
+         RETURNING value`,
+        [suggestionId]
+      );
+      const accepted = result.rows[0] as { value: string | null } | undefined;
+
+      if (accepted?.value) {
+        await recordValueChange(client, {
+          sessionId,
+          fieldId: suggestion.field_id,
+          previousValue: null,
+          value: accepted.value,
+          origin: 'ai_accept',
+          memberId: user.id,
+        });
+      }
+    });
+
+    // Accepted values can feed Computed fields
+    await recalculateComputedFields(sessionId);
+
+    // Let other members pick up the accepted value
+    await publishSessionEvent(sessionId, { type: 'values_changed', member_id: user.id });
 
     logger.info('Accepted suggestion', {
       session_id: sessionId,
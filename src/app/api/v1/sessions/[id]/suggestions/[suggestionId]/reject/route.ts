@@ -7,8 +7,10 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { requireAuth } from '@/lib/auth/middleware';
 import { handleError, NotFoundError } from '@/lib/errors';
-import { queryOne, execute } from '@/lib/db/query';
+import { queryOne, transaction } from '@/lib/db/query';
 import { logger } from '@/lib/logger';
+import { publishSessionEvent } from '@/lib/sessions/events';
+import { ensureSessionUnlocked, lockSessionForEdit } from '@/lib/sessions/review';
 
 type SuccessResponse = {
   ok: true;
@@ -42,6 +44,8 @@ export async function PUT(
       throw new NotFoundError('Session');
     }
 
+    await ensureSessionUnlocked(sessionId);
+
     // Verify suggestion exists and belongs to this session
     const suggestion = await queryOne<{ session_id: string; field_id: string }>(
       'SELECT session_id, field_id FROM session_field_values WHERE id = $1',
@@ -53,10 +57,17 @@ export async function PUT(
     }
 
     // Reject: clear the value and mark as reviewed
-    await execute(
-      'UPDATE session_field_values SET value = NULL, reviewed = true, updated_at = NOW() WHERE id = $1',
-      [suggestionId]
-    );
+    await transaction(async (client) => {
+      await lockSessionForEdit(client, sessionId);
+
+      await client.query(
+        'UPDATE session_field_values SET value = NULL, reviewed = true, updated_at = NOW() WHERE id = $1',
+        [suggestionId]
+      );
+    });
+
+    // Let other members drop the rejected suggestion
+    await publishSessionEvent(sessionId, { type: 'values_changed', member_id: user.id });
 
     logger.info('Rejected suggestion', {
       session_id: sessionId,
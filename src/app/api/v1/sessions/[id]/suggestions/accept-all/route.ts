@@ -7,8 +7,12 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { requireAuth } from '@/lib/auth/middleware';
 import { handleError, NotFoundError } from '@/lib/errors';
-import { queryOne, execute } from '@/lib/db/query';
+import { queryOne, transaction } from '@/lib/db/query';
 import { logger } from '@/lib/logger';
+import { recalculateComputedFields } from '@/lib/sessions/computed-fields';
+import { recordValueChange } from '@/lib/sessions/value-history';
+import { publishSessionEvent } from '@/lib/sessions/events';
+import { ensureSessionUnlocked, lockSessionForEdit } from '@/lib/sessions/review';
 
 type SuccessResponse = {
   ok: true;
@@ -39,11 +43,40 @@ export async function PUT(_request: NextRequest, { params }: { params: Promise<{
       throw new NotFoundError('Session');
     }
 
-    // Mark all unreviewed suggestions as reviewed (accept keeps the values)
-    const count = await execute(
-      'UPDATE session_field_values SET reviewed = true, updated_at = NOW() WHERE session_id = $1 AND reviewed = false',
-      [sessionId]
-    );
+    await ensureSessionUnlocked(sessionId);
+
+    // Mark all unreviewed suggestions as reviewed (accept keeps the values) and record them
+    const count = await transaction(async (client) => {
+      await lockSessionForEdit(client, sessionId);
+
+      const result = await client.query(
+        `UPDATE session_field_values SET reviewed = true, updated_at = NOW()
+         WHERE session_id = $1 AND reviewed = false
+         RETURNING field_id, value`,
+        [sessionId]
+      );
+      const accepted = result.rows as Array<{ field_id: string; value: string | null }>;
+
+      for (const row of accepted) {
+        if (!row.value) continue;
+        await recordValueChange(client, {
+          sessionId,
+          fieldId: row.field_id,
+          previousValue: null,
+          value: row.value,
+          origin: 'ai_accept',
+          memberId: user.id,
+        });
+      }
+
+      return accepted.length;
+    });
+
+    // Accepted values can feed Computed fields
+    await recalculateComputedFields(sessionId);
+
+    // Let other members pick up the accepted values
+    await publishSessionEvent(sessionId, { type: 'values_changed', member_id: user.id });
 
     logger.info('Accepted all suggestions', {
       session_id: sessionId,
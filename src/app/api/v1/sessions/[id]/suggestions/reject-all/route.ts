@@ -7,8 +7,10 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { requireAuth } from '@/lib/auth/middleware';
 import { handleError, NotFoundError } from '@/lib/errors';
-import { queryOne, execute } from '@/lib/db/query';
+import { queryOne, transaction } from '@/lib/db/query';
 import { logger } from '@/lib/logger';
+import { publishSessionEvent } from '@/lib/sessions/events';
+import { ensureSessionUnlocked, lockSessionForEdit } from '@/lib/sessions/review';
 
 type SuccessResponse = {
   ok: true;
@@ -39,11 +41,21 @@ export async function PUT(_request: NextRequest, { params }: { params: Promise<{
       throw new NotFoundError('Session');
     }
 
+    await ensureSessionUnlocked(sessionId);
+
     // Reject all: clear values and mark as reviewed
-    const count = await execute(
-      'UPDATE session_field_values SET value = NULL, reviewed = true, updated_at = NOW() WHERE session_id = $1 AND reviewed = false',
-      [sessionId]
-    );
+    const count = await transaction(async (client) => {
+      await lockSessionForEdit(client, sessionId);
+
+      const result = await client.query(
+        'UPDATE session_field_values SET value = NULL, reviewed = true, updated_at = NOW() WHERE session_id = $1 AND reviewed = false',
+        [sessionId]
+      );
+      return result.rowCount ?? 0;
+    });
+
+    // Let other members drop the rejected suggestions
+    await publishSessionEvent(sessionId, { type: 'values_changed', member_id: user.id });
 
     logger.info('Rejected all suggestions', {
       session_id: sessionId,
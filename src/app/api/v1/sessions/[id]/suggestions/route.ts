@@ -9,6 +9,7 @@ import { requireAuth } from '@/lib/auth/middleware';
 import { handleError, NotFoundError } from '@/lib/errors';
 import { query, queryOne } from '@/lib/db/query';
 import { logger } from '@/lib/logger';
+import { FieldConfig, FieldType } from '@/features/blueprints/types/blueprint';
 
 type SuccessResponse<T> = {
   ok: true;
@@ -21,6 +22,8 @@ type Suggestion = {
   field_id: string;
   field_key: string;
   field_label: string;
+  field_type: FieldType;
+  field_config: FieldConfig;
   section_title: string;
   section_order_index: number;
   field_order_index: number;
@@ -63,6 +66,8 @@ export async function GET(_request: NextRequest, { params }: { params: Promise<{
          sfv.field_id,
          f.key as field_key,
          f.label as field_label,
+         f.type as field_type,
+         f.config as field_config,
          s.title as section_title,
          s.order_index as section_order_index,
          f.order_index as field_order_index,
@@ -15,6 +15,7 @@ import {
   SectionTokenMetadata,
   NotesTokenMetadata,
 } from '@/features/artifacts/types/tokens';
+import { FieldType } from '@/features/blueprints/types/blueprint';
 
 type SuccessResponse<T> = {
   ok: true;
@@ -35,7 +36,7 @@ type FieldRow = {
   id: string;
   key: string;
   label: string;
-  type: 'ShortText' | 'LongText' | 'Toggle';
+  type: FieldType;
   required: boolean;
   section_id: string;
   section_title: string;
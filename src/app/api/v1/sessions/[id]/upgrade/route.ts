@@ -0,0 +1,262 @@
+/**
+ * Session Upgrade API Routes
+ *
+ * GET  /api/v1/sessions/[id]/upgrade - Preview moving the session to the latest blueprint version
+ * POST /api/v1/sessions/[id]/upgrade - Move the session to the latest blueprint version
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/auth/middleware';
+import { handleError, ConflictError, NotFoundError, ValidationError } from '@/lib/errors';
+import { query, queryOne, transaction } from '@/lib/db/query';
+import { logger } from '@/lib/logger';
+import { getLatestBlueprintVersion } from '@/lib/blueprints/versions';
+import { recalculateComputedFields } from '@/lib/sessions/computed-fields';
+import { updateSessionCompletion } from '@/lib/sessions/completion';
+import { Blueprint } from '@/features/blueprints/types/blueprint';
+import { Session } from '@/features/sessions/types/session';
+import {
+  planVersionUpgrade,
+  UpgradeFieldState,
+  UpgradePlan,
+  UpgradeSectionState,
+} from '@/features/sessions/utils/version-upgrade';
+import { ensureSessionUnlocked, lockSessionForEdit } from '@/lib/sessions/review';
+
+type SuccessResponse<T> = {
+  ok: true;
+  data: T;
+};
+
+type RouteContext = {
+  params: Promise<{ id: string }>;
+};
+
+interface UpgradePreview {
+  current_version: number;
+  latest_version: number;
+  upgrade_available: boolean;
+  plan: UpgradePlan | null; // Null when the session is already on the latest version
+}
+
+interface UpgradeSessionRequest {
+  version: number;
+}
+
+/**
+ * Load a company session with the editable blueprint its version belongs to
+ */
+async function getSession(sessionId: string, companyId: string | null) {
+  const session = await queryOne<Session & { root_blueprint_id: string }>(
+    `SELECT s.*, COALESCE(b.version_of, b.id) as root_blueprint_id
+     FROM sessions s
+     JOIN blueprints b ON b.id = s.blueprint_id
+     WHERE s.id = $1 AND s.company_id = $2`,
+    [sessionId, companyId]
+  );
+
+  if (!session) {
+    throw new NotFoundError('Session');
+  }
+
+  return session;
+}
+
+/**
+ * Plan how the session's values and notes move to a target version
+ */
+async function loadUpgradePlan(session: Session, target: Blueprint): Promise<UpgradePlan> {
+  const fromFields = await query<UpgradeFieldState>(
+    `SELECT f.id, f.key, f.type, f.label, f.config, f.source_field_id, sfv.value
+     FROM fields f
+     JOIN sections s ON s.id = f.section_id
+     LEFT JOIN session_field_values sfv ON sfv.field_id = f.id AND sfv.session_id = $1
+     WHERE s.blueprint_id = $2
+     ORDER BY s.order_index, f.order_index`,
+    [session.id, session.blueprint_id]
+  );
+
+  const toFields = await query<UpgradeFieldState>(
+    `SELECT f.id, f.key, f.type, f.label, f.config, f.source_field_id
+     FROM fields f
+     JOIN sections s ON s.id = f.section_id
+     WHERE s.blueprint_id = $1
+     ORDER BY s.order_index, f.order_index`,
+    [target.id]
+  );
+
+  const fromSections = await query<UpgradeSectionState>(
+    `SELECT s.id, s.title, s.source_section_id,
+            EXISTS (
+              SELECT 1 FROM section_notes n
+              WHERE n.session_id = $1 AND n.section_id = s.id AND n.markdown <> ''
+            ) as has_notes
+     FROM sections s
+     WHERE s.blueprint_id = $2
+     ORDER BY s.order_index`,
+    [session.id, session.blueprint_id]
+  );
+
+  const toSections = await query<UpgradeSectionState>(
+    'SELECT id, title, source_section_id FROM sections WHERE blueprint_id = $1 ORDER BY order_index',
+    [target.id]
+  );
+
+  return planVersionUpgrade(fromFields, toFields, fromSections, toSections);
+}
+
+/**
+ * GET /api/v1/sessions/[id]/upgrade
+ *
+ * Preview which fields changed in the latest blueprint version and what
+ * happens to the session's values if it is upgraded
+ */
+export async function GET(_request: NextRequest, context: RouteContext) {
+  try {
+    const user = await requireAuth(['owner', 'editor']);
+    const { id } = await context.params;
+
+    const session = await getSession(id, user.company_id);
+    const latest = await getLatestBlueprintVersion(session.root_blueprint_id);
+    const upgradeAvailable = !!latest && latest.version > session.blueprint_version;
+
+    return NextResponse.json<SuccessResponse<UpgradePreview>>({
+      ok: true,
+      data: {
+        current_version: session.blueprint_version,
+        latest_version: latest?.version ?? session.blueprint_version,
+        upgrade_available: upgradeAvailable,
+        plan: upgradeAvailable && latest ? await loadUpgradePlan(session, latest) : null,
+      },
+    });
+  } catch (error) {
+    return handleError(error);
+  }
+}
+
+/**
+ * POST /api/v1/sessions/[id]/upgrade
+ *
+ * Move the session to the latest blueprint version. Values carry over to the
+ * matching fields; values that no longer fit their field and notes on removed
+ * sections are discarded.
+ */
+export async function POST(request: NextRequest, context: RouteContext) {
+  try {
+    const user = await requireAuth(['owner', 'editor']);
+    const { id } = await context.params;
+    const body = (await request.json()) as UpgradeSessionRequest;
+
+    if (typeof body.version !== 'number' || !Number.isInteger(body.version)) {
+      throw new ValidationError('Target version is required');
+    }
+
+    const session = await getSession(id, user.company_id);
+    await ensureSessionUnlocked(id);
+    const latest = await getLatestBlueprintVersion(session.root_blueprint_id);
+
+    if (!latest || body.version <= session.blueprint_version) {
+      throw new ValidationError(`Session is already on version ${session.blueprint_version}`);
+    }
+
+    // The preview was made against the latest version; a newer publish invalidates it
+    if (body.version !== latest.version) {
+      throw new ConflictError(
+        `Version ${latest.version} has been published since this upgrade was previewed`,
+        'VERSION_CHANGED'
+      );
+    }
+
+    const plan = await loadUpgradePlan(session, latest);
+
+    await transaction(async (client) => {
+      // Pin the session first so a concurrent upgrade of the same session fails
+      const pinned = await client.query(
+        `UPDATE sessions
+         SET blueprint_id = $1, blueprint_version = $2, updated_at = NOW()
+         WHERE id = $3 AND blueprint_id = $4`,
+        [latest.id, latest.version, session.id, session.blueprint_id]
+      );
+
+      if (pinned.rowCount === 0) {
+        throw new ConflictError('Session was upgraded by someone else', 'VERSION_CHANGED');
+      }
+
+      // Pinning locked the session row, so an approval can't land after this check
+      await lockSessionForEdit(client, session.id);
+
+      for (const change of plan.fields) {
+        if (change.value_outcome !== 'carried') continue;
+        await client.query(
+          'UPDATE session_field_values SET field_id = $1 WHERE session_id = $2 AND field_id = $3',
+          [change.to_field_id, session.id, change.from_field_id]
+        );
+        // Value history follows the value to the new field
+        await client.query(
+          `UPDATE session_field_value_history SET field_id = $1
+           WHERE session_id = $2 AND field_id = $3`,
+          [change.to_field_id, session.id, change.from_field_id]
+        );
+      }
+
+      // Anything still pointing at the old version was cleared or dropped
+      await client.query(
+        `DELETE FROM session_field_values
+         WHERE session_id = $1
+           AND field_id IN (
+             SELECT f.id FROM fields f
+             JOIN sections s ON s.id = f.section_id
+             WHERE s.blueprint_id = $2
+           )`,
+        [session.id, session.blueprint_id]
+      );
+
+      for (const section of plan.sections) {
+        if (!section.to_section_id) continue;
+        await client.query(
+          'UPDATE section_notes SET section_id = $1 WHERE session_id = $2 AND section_id = $3',
+          [section.to_section_id, session.id, section.from_section_id]
+        );
+      }
+
+      await client.query(
+        `DELETE FROM section_notes
+         WHERE session_id = $1
+           AND section_id IN (SELECT id FROM sections WHERE blueprint_id = $2)`,
+        [session.id, session.blueprint_id]
+      );
+
+      // Artifacts follow their generator; ones whose generator was removed keep the old one
+      await client.query(
+        `UPDATE artifacts a
+         SET generator_id = next.id
+         FROM blueprint_artifact_generators prev, blueprint_artifact_generators next
+         WHERE a.session_id = $1
+           AND a.generator_id = prev.id
+           AND prev.blueprint_id = $2
+           AND next.blueprint_id = $3
+           AND next.source_generator_id = prev.source_generator_id`,
+        [session.id, session.blueprint_id, latest.id]
+      );
+    });
+
+    await recalculateComputedFields(session.id);
+    await updateSessionCompletion(session.id);
+
+    logger.info('Upgraded session blueprint version', {
+      session_id: session.id,
+      from_version: session.blueprint_version,
+      to_version: latest.version,
+      cleared: plan.fields.filter((f) => f.value_outcome === 'cleared').length,
+      dropped: plan.fields.filter((f) => f.value_outcome === 'dropped').length,
+      user_id: user.id,
+    });
+
+    return NextResponse.json<SuccessResponse<{ version: number }>>({
+      ok: true,
+      data: { version: latest.version },
+    });
+  } catch (error) {
+    return handleError(error);
+  }
+}
@@ -10,7 +10,13 @@ import { requireAuth } from '@/lib/auth/middleware';
 import { handleError, ValidationError, ConflictError, NotFoundError } from '@/lib/errors';
 import { query, queryOne } from '@/lib/db/query';
 import { logger } from '@/lib/logger';
+import { getLatestBlueprintVersion } from '@/lib/blueprints/versions';
 import { Session, CreateSessionRequest } from '@/features/sessions/types/session';
+import {
+  addSectionProgress,
+  ProgressFieldState,
+  VisibilitySectionState,
+} from '@/features/sessions/utils/visibility';
 
 type SuccessResponse<T> = {
   ok: true;
@@ -32,40 +38,77 @@ export async function GET() {
         s.id,
         s.company_id,
         s.blueprint_id,
+        s.blueprint_version,
         s.name,
         s.status,
+        s.review_status,
         s.created_by,
         s.created_at,
         s.updated_at,
         b.name as blueprint_name,
+        COALESCE(b.version_of, b.id) as root_blueprint_id,
+        (SELECT MAX(v.version) FROM blueprints v
+         WHERE v.version_of = COALESCE(b.version_of, b.id))::int as latest_blueprint_version,
         m.name as created_by_name,
-        m.email as created_by_email,
-        COUNT(DISTINCT CASE WHEN f.required = true THEN f.id END)::int as required_count,
-        COUNT(DISTINCT CASE
-          WHEN f.required = true
-            AND sfv.value IS NOT NULL
-            AND sfv.value != ''
-          THEN f.id
-        END)::int as required_filled_count,
-        COUNT(DISTINCT f.id)::int as total_count,
-        COUNT(DISTINCT CASE
-          WHEN sfv.value IS NOT NULL
-            AND sfv.value != ''
-          THEN f.id
-        END)::int as total_filled_count
+        m.email as created_by_email
        FROM sessions s
        JOIN blueprints b ON b.id = s.blueprint_id
        JOIN members m ON m.id = s.created_by
-       LEFT JOIN sections sec ON sec.blueprint_id = s.blueprint_id
-       LEFT JOIN fields f ON f.section_id = sec.id
-       LEFT JOIN session_field_values sfv ON sfv.session_id = s.id AND sfv.field_id = f.id
        WHERE s.company_id = $1
-       GROUP BY s.id, s.company_id, s.blueprint_id, s.name, s.status, s.created_by,
-                s.created_at, s.updated_at, b.name, m.name, m.email
        ORDER BY s.updated_at DESC`,
       [user.company_id]
     );
 
+    // Progress skips fields hidden by visibility rules, so it's counted per session
+    const sections = await query<VisibilitySectionState & { blueprint_id: string }>(
+      `SELECT sec.id, sec.blueprint_id, sec.visibility
+       FROM sections sec
+       JOIN blueprints b ON b.id = sec.blueprint_id
+       WHERE b.company_id = $1`,
+      [user.company_id]
+    );
+
+    const fieldStates = await query<ProgressFieldState & { session_id: string }>(
+      `SELECT s.id as session_id, f.id, f.key, f.label, f.type, f.section_id, f.required,
+              f.visibility, f.validation, sfv.value
+       FROM sessions s
+       JOIN sections sec ON sec.blueprint_id = s.blueprint_id
+       JOIN fields f ON f.section_id = sec.id
+       LEFT JOIN session_field_values sfv ON sfv.session_id = s.id AND sfv.field_id = f.id
+       WHERE s.company_id = $1`,
+      [user.company_id]
+    );
+
+    // Grouped once so each session only walks its own rows
+    const sectionsByBlueprint = new Map<string, VisibilitySectionState[]>();
+    for (const section of sections) {
+      const group = sectionsByBlueprint.get(section.blueprint_id) ?? [];
+      group.push(section);
+      sectionsByBlueprint.set(section.blueprint_id, group);
+    }
+
+    const fieldStatesBySession = new Map<string, ProgressFieldState[]>();
+    for (const fieldState of fieldStates) {
+      const group = fieldStatesBySession.get(fieldState.session_id) ?? [];
+      group.push(fieldState);
+      fieldStatesBySession.set(fieldState.session_id, group);
+    }
+
+    sessions.forEach((session) => {
+      const progress = addSectionProgress(
+        sectionsByBlueprint.get(session.blueprint_id) ?? [],
+        fieldStatesBySession.get(session.id) ?? []
+      );
+
+      session.required_count = progress.reduce((sum, sec) => sum + sec.required_count, 0);
+      session.required_filled_count = progress.reduce(
+        (sum, sec) => sum + sec.required_filled_count,
+        0
+      );
+      session.total_count = progress.reduce((sum, sec) => sum + sec.total_count, 0);
+      session.total_filled_count = progress.reduce((sum, sec) => sum + sec.total_filled_count, 0);
+    });
+
     logger.info('Fetched sessions', {
       company_id: user.company_id,
       count: sessions.length,
@@ -99,9 +142,9 @@ export async function POST(request: NextRequest) {
       throw new ValidationError('Blueprint ID is required');
     }
 
-    // Fetch blueprint and verify it exists and is published
-    const blueprint = await queryOne<{ id: string; status: string }>(
-      'SELECT id, status FROM blueprints WHERE id = $1 AND company_id = $2',
+    // Fetch blueprint and verify it exists and has a published version
+    const blueprint = await queryOne<{ id: string }>(
+      'SELECT id FROM blueprints WHERE id = $1 AND company_id = $2 AND version_of IS NULL',
       [body.blueprint_id, user.company_id]
     );
 
@@ -109,7 +152,10 @@ export async function POST(request: NextRequest) {
       throw new NotFoundError('Blueprint not found');
     }
 
-    if (blueprint.status !== 'published') {
+    // New sessions pin to the latest published version
+    const version = await getLatestBlueprintVersion(blueprint.id);
+
+    if (!version) {
       throw new ValidationError('Can only create sessions from published blueprints');
     }
 
@@ -125,10 +171,10 @@ export async function POST(request: NextRequest) {
 
     // Create session
     const session = await queryOne<Session>(
-      `INSERT INTO sessions (company_id, blueprint_id, name, status, created_by)
-       VALUES ($1, $2, $3, 'in_progress', $4)
+      `INSERT INTO sessions (company_id, blueprint_id, blueprint_version, name, status, created_by)
+       VALUES ($1, $2, $3, $4, 'in_progress', $5)
        RETURNING *`,
-      [user.company_id, blueprint.id, body.name.trim(), user.id]
+      [user.company_id, version.id, version.version, body.name.trim(), user.id]
     );
 
     if (!session) {
@@ -139,6 +185,7 @@ export async function POST(request: NextRequest) {
       session_id: session.id,
       company_id: user.company_id,
       blueprint_id: blueprint.id,
+      blueprint_version: version.version,
       name: session.name,
     });
 
@@ -9,8 +9,11 @@ import { NextRequest, NextResponse } from 'next/server';
 import { queryOne } from '@/lib/db/query';
 import { handleError, ValidationError, NotFoundError, AuthorizationError } from '@/lib/errors';
 import { logger } from '@/lib/logger';
-import { extractText } from '@/features/sources/lib/extract-text';
+import { isSupportedFile } from '@/features/sources/lib/extract-text';
 import { Source } from '@/features/sources/types/source';
+import { ensureSessionUnlocked } from '@/lib/sessions/review';
+import { storeSourceFile } from '@/lib/sources/files';
+import { enqueueIngestionJob } from '@/lib/sources/ingestion';
 
 type SuccessResponse<T> = {
   ok: true;
@@ -24,6 +27,7 @@ const MAX_PASTE_LENGTH = 50000; // 50k characters
  * POST /api/v1/share/[token]/sources
  *
  * Upload source as viewer (no authentication required)
+ * Uploaded files are stored without text and queued for extraction
  */
 export async function POST(
   request: NextRequest,
@@ -79,6 +83,7 @@ export async function POST(
     }
 
     const sessionId = artifact.session_id;
+    await ensureSessionUnlocked(sessionId);
 
     // Parse form data
     const formData = await request.formData();
@@ -103,20 +108,30 @@ export async function POST(
         throw new ValidationError('File size exceeds 10MB limit');
       }
 
-      // Extract text from file
-      const textExtracted = await extractText(file);
+      // Reject files we can't extract before queueing them
+      if (!isSupportedFile(file)) {
+        throw new ValidationError(`Unsupported file type: ${file.type || 'unknown'}`);
+      }
 
-      // Store source (created_by is NULL for viewer uploads)
-      const newSource = await queryOne<Source>(
-        `INSERT INTO sources (session_id, type, filename_or_url, text_extracted, metadata, created_by)
-         VALUES ($1, 'file', $2, $3, $4, NULL)
-         RETURNING *`,
-        [
-          sessionId,
-          file.name,
-          textExtracted,
-          JSON.stringify({ size: file.size, mimeType: file.type }),
-        ]
+      // Keep the original file for download and re-extraction, and store the source
+      // with it (created_by is NULL for viewer uploads); text is extracted by the ingestion job
+      const newSource = await storeSourceFile(
+        Buffer.from(await file.arrayBuffer()),
+        file.type,
+        async (client, fileHash) => {
+          const result = await client.query(
+            `INSERT INTO sources (session_id, type, filename_or_url, text_extracted, metadata, file_hash, created_by)
+             VALUES ($1, 'file', $2, NULL, $3, $4, NULL)
+             RETURNING *`,
+            [
+              sessionId,
+              file.name,
+              JSON.stringify({ size: file.size, mimeType: file.type }),
+              fileHash,
+            ]
+          );
+          return result.rows[0] as Source | undefined;
+        }
       );
 
       if (!newSource) {
@@ -125,13 +140,19 @@ export async function POST(
 
       source = newSource;
 
+      await enqueueIngestionJob({
+        sessionId,
+        sourceId: source.id,
+        map: false,
+        createdBy: null,
+      });
+
       logger.info('Created viewer file source', {
         source_id: source.id,
         session_id: sessionId,
         share_token: token,
         filename: file.name,
         size: file.size,
-        text_length: textExtracted.length,
       });
     }
     // Handle pasted text
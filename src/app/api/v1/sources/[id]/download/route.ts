@@ -0,0 +1,89 @@
+/**
+ * Source Download API Route
+ *
+ * GET /api/v1/sources/[id]/download - Download a source's original uploaded file
+ */
+
+import { NextRequest } from 'next/server';
+import { requireAuth } from '@/lib/auth/middleware';
+import { handleError, NotFoundError } from '@/lib/errors';
+import { queryOne } from '@/lib/db/query';
+import { logger } from '@/lib/logger';
+import { Source } from '@/features/sources/types/source';
+import { readSourceFile } from '@/lib/sources/files';
+
+// Upload types served as themselves; the stored type comes from the client,
+// so anything else (HTML included) is served as opaque bytes
+const SAFE_CONTENT_TYPES = new Set([
+  'application/pdf',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+  'application/rtf',
+  'text/rtf',
+  'message/rfc822',
+  'text/csv',
+  'text/plain',
+  'text/markdown',
+]);
+
+/**
+ * Content-Disposition for a filename: an ASCII fallback plus the exact
+ * name (RFC 6266), so names with quotes or non-ASCII characters survive
+ */
+function contentDisposition(filename: string): string {
+  const fallback = filename.replace(/[^\x20-\x7E]|["\\]/g, '_');
+  return `attachment; filename="${fallback}"; filename*=UTF-8''${encodeURIComponent(filename)}`;
+}
+
+/**
+ * GET /api/v1/sources/[id]/download
+ *
+ * Download the original bytes of an uploaded file source. Sources uploaded
+ * before originals were kept (see migration 026) have nothing to download.
+ * All authenticated users can download sources
+ */
+export async function GET(_request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id: sourceId } = await params;
+    const user = await requireAuth();
+
+    // Verify source exists and belongs to user's company
+    const source = await queryOne<Source>(
+      `SELECT src.* FROM sources src
+       JOIN sessions s ON s.id = src.session_id
+       WHERE src.id = $1 AND s.company_id = $2`,
+      [sourceId, user.company_id]
+    );
+
+    if (!source) {
+      throw new NotFoundError('Source');
+    }
+
+    const data = source.file_hash ? await readSourceFile(source.file_hash) : null;
+    if (!data) {
+      throw new NotFoundError('Original file');
+    }
+
+    logger.info('Downloaded source file', {
+      source_id: sourceId,
+      size: data.length,
+      user_id: user.id,
+    });
+
+    const mimeType = source.metadata?.mimeType as string | undefined;
+
+    return new Response(new Uint8Array(data), {
+      headers: {
+        'Content-Type':
+          mimeType && SAFE_CONTENT_TYPES.has(mimeType) ? mimeType : 'application/octet-stream',
+        'X-Content-Type-Options': 'nosniff',
+        'Content-Length': String(data.length),
+        'Content-Disposition': contentDisposition(source.filename_or_url || 'source'),
+        'Cache-Control': 'no-store',
+      },
+    });
+  } catch (error) {
+    return handleError(error);
+  }
+}
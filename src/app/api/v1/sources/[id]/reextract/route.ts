@@ -0,0 +1,84 @@
+/**
+ * Source Re-extraction API Route
+ *
+ * POST /api/v1/sources/[id]/reextract - Extract a source's text again from its original file
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/auth/middleware';
+import { ConflictError, handleError, NotFoundError, ValidationError } from '@/lib/errors';
+import { queryOne } from '@/lib/db/query';
+import { IngestionJob, Source } from '@/features/sources/types/source';
+import { ensureSessionUnlocked } from '@/lib/sessions/review';
+import { enqueueIngestionJob } from '@/lib/sources/ingestion';
+
+type SuccessResponse<T> = {
+  ok: true;
+  data: T;
+};
+
+/**
+ * POST /api/v1/sources/[id]/reextract
+ *
+ * Queue a job that extracts the source's text again from its stored
+ * original file (e.g. after extraction improved) and replaces the current
+ * text. Responds 202 with the job; poll
+ * GET /api/v1/sessions/[id]/ingestion-jobs for progress.
+ * Requires owner or editor role
+ */
+export async function POST(_request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id: sourceId } = await params;
+    const user = await requireAuth(['owner', 'editor']);
+
+    // Verify source exists and belongs to user's company
+    const source = await queryOne<Source>(
+      `SELECT src.* FROM sources src
+       JOIN sessions s ON s.id = src.session_id
+       WHERE src.id = $1 AND s.company_id = $2`,
+      [sourceId, user.company_id]
+    );
+
+    if (!source) {
+      throw new NotFoundError('Source');
+    }
+
+    if (!source.file_hash) {
+      throw new ValidationError(
+        'Only uploaded files whose original was kept can be extracted again',
+        'ORIGINAL_NOT_STORED'
+      );
+    }
+
+    await ensureSessionUnlocked(source.session_id);
+
+    const active = await queryOne<{ id: string }>(
+      `SELECT id FROM ingestion_jobs
+       WHERE source_id = $1 AND state IN ('queued', 'extracting', 'mapping')
+       LIMIT 1`,
+      [sourceId]
+    );
+
+    if (active) {
+      throw new ConflictError('Source is already being ingested', 'INGESTION_IN_PROGRESS');
+    }
+
+    const job = await enqueueIngestionJob({
+      sessionId: source.session_id,
+      sourceId,
+      map: false,
+      reextract: true,
+      createdBy: user.id,
+    });
+
+    return NextResponse.json<SuccessResponse<IngestionJob>>(
+      {
+        ok: true,
+        data: job,
+      },
+      { status: 202 }
+    );
+  } catch (error) {
+    return handleError(error);
+  }
+}
@@ -9,6 +9,8 @@ import { requireAuth } from '@/lib/auth/middleware';
 import { handleError, NotFoundError } from '@/lib/errors';
 import { execute, queryOne } from '@/lib/db/query';
 import { logger } from '@/lib/logger';
+import { ensureSessionUnlocked } from '@/lib/sessions/review';
+import { deleteSourceFileIfUnused } from '@/lib/sources/files';
 
 type SuccessResponse<T> = {
   ok: true;
@@ -18,7 +20,7 @@ type SuccessResponse<T> = {
 /**
  * DELETE /api/v1/sources/[id]
  *
- * Delete a source
+ * Delete a source, and its stored original file once no other source shares it
  */
 export async function DELETE(
   _request: NextRequest,
@@ -29,8 +31,12 @@ export async function DELETE(
     const user = await requireAuth(['owner', 'editor']);
 
     // Verify source exists and belongs to user's company
-    const source = await queryOne<{ company_id: string }>(
-      `SELECT s.company_id
+    const source = await queryOne<{
+      company_id: string;
+      session_id: string;
+      file_hash: string | null;
+    }>(
+      `SELECT s.company_id, src.session_id, src.file_hash
        FROM sources src
        JOIN sessions s ON s.id = src.session_id
        WHERE src.id = $1`,
@@ -45,6 +51,8 @@ export async function DELETE(
       throw new NotFoundError('Source');
     }
 
+    await ensureSessionUnlocked(source.session_id);
+
     // Delete source
     const deleteCount = await execute('DELETE FROM sources WHERE id = $1', [sourceId]);
 
@@ -52,6 +60,10 @@ export async function DELETE(
       throw new NotFoundError('Source');
     }
 
+    if (source.file_hash) {
+      await deleteSourceFileIfUnused(source.file_hash);
+    }
+
     logger.info('Deleted source', {
       source_id: sourceId,
       company_id: user.company_id,
@@ -17,6 +17,7 @@ type FieldSuggestionBadgeProps = {
     confidence: number;
     source_provenance: Record<string, unknown> | null;
   };
+  displayValue?: string; // Human-readable value (e.g., option labels); defaults to the raw value
   onAccept: (value: string) => void;
   onReject: () => void;
 };
@@ -24,6 +25,7 @@ type FieldSuggestionBadgeProps = {
 export function FieldSuggestionBadge({
   sessionId,
   suggestion,
+  displayValue,
   onAccept,
   onReject,
 }: FieldSuggestionBadgeProps) {
@@ -117,7 +119,9 @@ export function FieldSuggestionBadge({
         <div className="space-y-3">
           <div>
             <div className="mb-1 text-xs font-medium text-muted-foreground">Suggested Value</div>
-            <div className="rounded-md bg-muted p-2 text-sm">{suggestion.value}</div>
+            <div className="whitespace-pre-wrap break-words rounded-md bg-muted p-2 text-sm">
+              {displayValue ?? suggestion.value}
+            </div>
           </div>
 
           <div className="text-xs text-muted-foreground">Source: {getSourceFilename()}</div>
@@ -13,6 +13,8 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/u
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Card } from '@/components/ui/card';
+import { FieldConfig, FieldType } from '@/features/blueprints/types/blueprint';
+import { formatFieldValueForDisplay } from '@/features/sessions/utils/field-value';
 
 interface SuggestionReviewModalProps {
   sessionId: string;
@@ -26,6 +28,8 @@ type Suggestion = {
   field_id: string;
   field_key: string;
   field_label: string;
+  field_type: FieldType;
+  field_config: FieldConfig;
   section_title: string;
   section_order_index: number;
   field_order_index: number;
@@ -215,7 +219,16 @@ export function SuggestionReviewModal({
                         <div className="mb-1 text-sm font-medium text-muted-foreground">
                           Suggested Value
                         </div>
-                        <div className="text-foreground">{suggestion.value}</div>
+                        <div className="whitespace-pre-wrap text-foreground">
+                          {formatFieldValueForDisplay(
+                            {
+                              type: suggestion.field_type,
+                              label: suggestion.field_label,
+                              config: suggestion.field_config,
+                            },
+                            suggestion.value
+                          )}
+                        </div>
                       </div>
 
                       <div className="text-xs text-muted-foreground">Source: {sourceFilename}</div>
@@ -9,9 +9,15 @@ export type MappingResult = {
   unmapped_summary_by_section: Record<string, string>;
 };
 
+/**
+ * Raw value returned by the mapper: arrays of strings for MultiSelect and
+ * DateRange, arrays of row objects for RepeatableGroup, otherwise a string
+ */
+export type SuggestedValue = string | string[] | Array<Record<string, unknown>>;
+
 export type Suggestion = {
   field_key: string;
-  value: string;
+  value: SuggestedValue;
   confidence: number; // 0.00 to 1.00
   provenance: {
     offset: [number, number]; // [start, end] character positions in source text
@@ -24,4 +30,6 @@ export type FieldCatalogEntry = {
   help_text: string | null;
   type: string;
   section: string;
+  options?: string[]; // Allowed values for Select and MultiSelect fields
+  sub_fields?: Array<{ key: string; label: string; type: string }>; // RepeatableGroup columns
 };
@@ -0,0 +1,218 @@
+/**
+ * Chunked mapping
+ *
+ * Splits long source text into chunks the AI can map well, and merges the
+ * per-chunk mapping results back into one result for the whole source
+ */
+
+import { FieldType } from '@/features/blueprints/types/blueprint';
+import { isGroupType } from '@/features/blueprints/utils/field-config';
+import { FieldCatalogEntry, MappingResult, Suggestion } from '@/features/ai/types/mapping';
+
+// Roughly 3,000 tokens, small enough that details deep in a chunk aren't missed
+export const MAX_CHUNK_CHARS = 12000;
+
+export type SourceChunk = {
+  start: number; // Offset of the chunk in the source text (inclusive)
+  end: number; // Offset of the chunk end in the source text (exclusive)
+  text: string;
+};
+
+export type ChunkMapping = {
+  chunk: SourceChunk;
+  result: MappingResult; // Suggestion offsets relative to the chunk
+};
+
+type Block = {
+  start: number;
+  end: number;
+  heading: boolean; // Starts with a heading, a good place to start a chunk
+};
+
+// Markdown headings, numbered headings ("2.1 Scope"), and short all-caps lines
+const HEADING_PATTERN = /^(#{1,6}\s|\d+(\.\d+)*\.?\s+[A-Z]|[A-Z][A-Z0-9 &/,:()-]{2,60}$)/;
+
+/**
+ * Split a range of the text at every match of a separator, keeping the
+ * separators with the preceding piece so the pieces cover the range exactly
+ */
+function splitRange(text: string, start: number, end: number, separator: RegExp): Block[] {
+  const blocks: Block[] = [];
+  const pattern = new RegExp(separator.source, 'g');
+  const slice = text.slice(start, end);
+  let pieceStart = 0;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(slice)) !== null) {
+    if (match[0].length === 0) {
+      pattern.lastIndex++;
+      continue;
+    }
+
+    const pieceEnd = match.index + match[0].length;
+    blocks.push({ start: start + pieceStart, end: start + pieceEnd, heading: false });
+    pieceStart = pieceEnd;
+  }
+
+  if (pieceStart < slice.length) {
+    blocks.push({ start: start + pieceStart, end, heading: false });
+  }
+
+  return blocks;
+}
+
+/**
+ * Break a block that doesn't fit in a chunk along lines, then sentences, and
+ * as a last resort at the size limit
+ */
+function splitOversized(text: string, block: Block, maxChars: number): Block[] {
+  if (block.end - block.start <= maxChars) return [block];
+
+  for (const separator of [/\n/, /[.!?]\s+/]) {
+    const pieces = splitRange(text, block.start, block.end, separator);
+    if (pieces.length > 1) {
+      pieces[0] = { ...pieces[0]!, heading: block.heading };
+      return pieces.flatMap((piece) => splitOversized(text, piece, maxChars));
+    }
+  }
+
+  const pieces: Block[] = [];
+  for (let start = block.start; start < block.end; start += maxChars) {
+    pieces.push({
+      start,
+      end: Math.min(start + maxChars, block.end),
+      heading: start === block.start && block.heading,
+    });
+  }
+  return pieces;
+}
+
+/**
+ * Split source text into chunks along headings and paragraphs
+ *
+ * Chunks are contiguous ranges that together cover the whole text, so an
+ * offset within a chunk maps back to the source by adding the chunk start.
+ * A heading starts a new chunk once the current one is half full, keeping
+ * sections together where possible.
+ *
+ * @param text - Source text
+ * @param maxChars - Largest chunk size
+ * @returns Chunks in text order (one chunk for short text)
+ */
+export function chunkSourceText(text: string, maxChars: number = MAX_CHUNK_CHARS): SourceChunk[] {
+  if (text.length <= maxChars) {
+    return [{ start: 0, end: text.length, text }];
+  }
+
+  const blocks = splitRange(text, 0, text.length, /\n[ \t]*\n\s*/)
+    .map((block) => ({
+      ...block,
+      heading: HEADING_PATTERN.test(text.slice(block.start, block.end).trim().split('\n')[0] ?? ''),
+    }))
+    .flatMap((block) => splitOversized(text, block, maxChars));
+
+  const chunks: SourceChunk[] = [];
+  let chunkStart = 0;
+  let chunkEnd = 0;
+
+  for (const block of blocks) {
+    const size = chunkEnd - chunkStart;
+    const overflows = block.end - chunkStart > maxChars;
+    const breakAtHeading = block.heading && size >= maxChars / 2;
+
+    if (size > 0 && (overflows || breakAtHeading)) {
+      chunks.push({ start: chunkStart, end: chunkEnd, text: text.slice(chunkStart, chunkEnd) });
+      chunkStart = block.start;
+    }
+
+    chunkEnd = block.end;
+  }
+
+  if (chunkEnd > chunkStart) {
+    chunks.push({ start: chunkStart, end: chunkEnd, text: text.slice(chunkStart, chunkEnd) });
+  }
+
+  return chunks;
+}
+
+/**
+ * Move a suggestion's provenance from chunk offsets to source offsets,
+ * clamped to the chunk in case the AI points past its end
+ */
+function toSourceOffsets(suggestion: Suggestion, chunk: SourceChunk): Suggestion {
+  const length = chunk.end - chunk.start;
+  const [start, end] = suggestion.provenance?.offset ?? [0, 0];
+  const clamp = (offset: number) =>
+    chunk.start + Math.min(Math.max(Math.round(Number(offset) || 0), 0), length);
+
+  return {
+    ...suggestion,
+    provenance: { offset: [clamp(start), clamp(Math.max(start, end))] },
+  };
+}
+
+function rowKey(row: Record<string, unknown>): string {
+  return JSON.stringify(Object.entries(row).sort(([a], [b]) => a.localeCompare(b)));
+}
+
+/**
+ * Merge per-chunk mapping results into one result for the source
+ *
+ * Each field keeps the candidate value with the highest confidence, except
+ * RepeatableGroup fields, whose rows are collected from every chunk (items
+ * of a list are often spread across a document). Unmapped summaries are
+ * joined per section in text order. Offsets become source offsets.
+ *
+ * @param mappings - Chunk results in text order
+ * @param fieldsCatalog - Fields the chunks were mapped against
+ * @returns Mapping result for the whole source
+ */
+export function mergeChunkMappings(
+  mappings: ChunkMapping[],
+  fieldsCatalog: FieldCatalogEntry[]
+): MappingResult {
+  const fieldTypes = new Map(fieldsCatalog.map((entry) => [entry.key, entry.type]));
+  const best = new Map<string, Suggestion>();
+  const groupRows = new Map<string, Map<string, Record<string, unknown>>>();
+  const summaries: Record<string, string[]> = {};
+
+  for (const { chunk, result } of mappings) {
+    for (const raw of result.suggestions ?? []) {
+      const type = fieldTypes.get(raw.field_key);
+      if (!type) continue;
+
+      const suggestion = toSourceOffsets(raw, chunk);
+      const current = best.get(suggestion.field_key);
+      if (!current || suggestion.confidence > current.confidence) {
+        best.set(suggestion.field_key, suggestion);
+      }
+
+      if (isGroupType(type as FieldType) && Array.isArray(suggestion.value)) {
+        const rows = groupRows.get(suggestion.field_key) ?? new Map();
+        for (const row of suggestion.value) {
+          if (row && typeof row === 'object') {
+            rows.set(rowKey(row as Record<string, unknown>), row as Record<string, unknown>);
+          }
+        }
+        groupRows.set(suggestion.field_key, rows);
+      }
+    }
+
+    for (const [section, summary] of Object.entries(result.unmapped_summary_by_section ?? {})) {
+      if (typeof summary !== 'string' || !summary.trim()) continue;
+      (summaries[section] ??= []).push(summary.trim());
+    }
+  }
+
+  const suggestions = [...best.values()].map((suggestion) => {
+    const rows = groupRows.get(suggestion.field_key);
+    return rows ? { ...suggestion, value: [...rows.values()] } : suggestion;
+  });
+
+  return {
+    suggestions,
+    unmapped_summary_by_section: Object.fromEntries(
+      Object.entries(summaries).map(([section, parts]) => [section, parts.join('\n\n')])
+    ),
+  };
+}
@@ -99,6 +99,7 @@ export function ArtifactReviewModal({ sessionId, generatorId, onClose }: Artifac
           generator_id: generatorId,
           markdown: artifact.markdown,
           prompt_template_hash: artifact.prompt_hash,
+          snapshot_id: artifact.snapshot_id,
         }),
       });
 
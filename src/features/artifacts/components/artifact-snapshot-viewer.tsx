@@ -0,0 +1,179 @@
+/**
+ * Artifact Snapshot Viewer Component
+ *
+ * Shows the field values and notes an artifact version was generated from,
+ * and what has changed in the session since
+ */
+
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Badge } from '@/components/ui/badge';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Artifact } from '@/features/artifacts/types/artifact';
+import { ArtifactSnapshotResponse } from '@/features/sessions/types/session';
+import { diffSnapshotContent, formatSnapshotValue } from '@/features/sessions/utils/snapshot-diff';
+
+type ArtifactSnapshotViewerProps = {
+  artifact: Artifact;
+  onClose: () => void;
+};
+
+const STATUS_LABELS = {
+  added: 'Added',
+  removed: 'Removed',
+  changed: 'Changed',
+} as const;
+
+export function ArtifactSnapshotViewer({ artifact, onClose }: ArtifactSnapshotViewerProps) {
+  const [data, setData] = useState<ArtifactSnapshotResponse | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchSnapshot = async () => {
+      try {
+        const response = await fetch(`/api/v1/artifacts/${artifact.id}/snapshot`);
+        const result = await response.json();
+
+        if (result.ok) {
+          setData(result.data);
+        } else {
+          setError(result.error?.message || 'Failed to load inputs');
+        }
+      } catch (error) {
+        console.error('Failed to fetch snapshot:', error);
+        setError('Failed to load inputs');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchSnapshot();
+  }, [artifact.id]);
+
+  const changes = useMemo(
+    () => (data ? diffSnapshotContent(data.snapshot, data.current) : []),
+    [data]
+  );
+
+  // Group the snapshot's inputs by section for display
+  const sections = useMemo(() => {
+    if (!data) return [];
+    return data.snapshot.notes.map((note) => ({
+      title: note.section_title,
+      notes: note.markdown.trim(),
+      fields: data.snapshot.fields.filter((f) => f.section_key === note.section_key),
+    }));
+  }, [data]);
+
+  return (
+    <Dialog open onOpenChange={onClose}>
+      <DialogContent className="flex max-h-[90vh] max-w-4xl flex-col overflow-hidden">
+        <DialogHeader>
+          <DialogTitle>Inputs for {artifact.title}</DialogTitle>
+          {data && (
+            <div className="flex items-center gap-2 text-sm text-muted-foreground">
+              <Badge variant="outline">Blueprint v{data.snapshot.blueprint_version}</Badge>
+              <span>
+                Captured{' '}
+                {new Date(data.snapshot.created_at).toLocaleDateString('en-US', {
+                  month: 'short',
+                  day: 'numeric',
+                  year: 'numeric',
+                  hour: 'numeric',
+                  minute: '2-digit',
+                })}
+              </span>
+              {data.current_blueprint_version !== data.snapshot.blueprint_version && (
+                <Badge className="bg-yellow-900/50 text-yellow-300">
+                  Session now on v{data.current_blueprint_version}
+                </Badge>
+              )}
+            </div>
+          )}
+        </DialogHeader>
+
+        {loading ? (
+          <div className="py-8 text-center text-muted-foreground">Loading inputs...</div>
+        ) : error || !data ? (
+          <div className="py-8 text-center text-muted-foreground">{error}</div>
+        ) : (
+          <Tabs defaultValue="inputs" className="flex min-h-0 flex-1 flex-col">
+            <TabsList className="w-fit">
+              <TabsTrigger value="inputs">Inputs</TabsTrigger>
+              <TabsTrigger value="changes">
+                Changes Since
+                {changes.length > 0 && (
+                  <Badge variant="secondary" className="ml-2">
+                    {changes.length}
+                  </Badge>
+                )}
+              </TabsTrigger>
+            </TabsList>
+
+            <TabsContent value="inputs" className="min-h-0 flex-1 space-y-6 overflow-y-auto">
+              {sections.map((section) => (
+                <div key={section.title} className="space-y-2">
+                  <h3 className="font-semibold">{section.title}</h3>
+                  <dl className="grid grid-cols-1 gap-x-6 gap-y-2 text-sm md:grid-cols-[200px_1fr]">
+                    {section.fields.map((field) => (
+                      <div key={field.field_id} className="contents">
+                        <dt className="text-muted-foreground">{field.label}</dt>
+                        <dd className="whitespace-pre-wrap break-words">
+                          {formatSnapshotValue(field) || (
+                            <span className="italic text-muted-foreground">Empty</span>
+                          )}
+                        </dd>
+                      </div>
+                    ))}
+                  </dl>
+                  {section.notes && (
+                    <pre className="whitespace-pre-wrap rounded-md border border-border bg-muted/30 p-3 font-mono text-xs">
+                      {section.notes}
+                    </pre>
+                  )}
+                </div>
+              ))}
+            </TabsContent>
+
+            <TabsContent value="changes" className="min-h-0 flex-1 overflow-y-auto">
+              {changes.length === 0 ? (
+                <div className="py-8 text-center text-muted-foreground">
+                  The session inputs have not changed since this version was generated
+                </div>
+              ) : (
+                <div className="space-y-3">
+                  {changes.map((change, index) => (
+                    <div key={index} className="rounded-md border border-border p-3 text-sm">
+                      <div className="mb-2 flex items-center gap-2">
+                        <Badge variant="outline">{STATUS_LABELS[change.status]}</Badge>
+                        <span className="font-medium">
+                          {change.kind === 'notes' ? 'Notes' : change.label}
+                        </span>
+                        <span className="text-muted-foreground">{change.section_title}</span>
+                      </div>
+                      <div className="font-mono text-xs">
+                        {change.before && (
+                          <div className="whitespace-pre-wrap bg-red-900/30 px-3 py-1 text-red-300">
+                            {change.before}
+                          </div>
+                        )}
+                        {change.after && (
+                          <div className="whitespace-pre-wrap bg-green-900/30 px-3 py-1 text-green-300">
+                            {change.after}
+                          </div>
+                        )}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </TabsContent>
+          </Tabs>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
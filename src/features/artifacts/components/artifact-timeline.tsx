@@ -22,10 +22,11 @@ import {
   AlertDialogHeader,
   AlertDialogTitle,
 } from '@/components/ui/alert-dialog';
-import { Eye, Trash2, GitCompare, Clock, Share2 } from 'lucide-react';
+import { Eye, Trash2, GitCompare, Clock, Share2, ListChecks } from 'lucide-react';
 import { Artifact, GroupedArtifacts } from '@/features/artifacts/types/artifact';
 import { ArtifactViewer } from './artifact-viewer';
 import { ArtifactDiffViewer } from './artifact-diff-viewer';
+import { ArtifactSnapshotViewer } from './artifact-snapshot-viewer';
 import { PublishButton } from './publish-button';
 import { ShareModal } from '@/features/data-room/components/share-modal';
 import { useToast } from '@/hooks/use-toast';
@@ -41,6 +42,7 @@ export function ArtifactTimeline({ sessionId, generatorId, onClose }: ArtifactTi
   const [artifacts, setArtifacts] = useState<Artifact[]>([]);
   const [loading, setLoading] = useState(true);
   const [selectedArtifact, setSelectedArtifact] = useState<Artifact | null>(null);
+  const [snapshotArtifact, setSnapshotArtifact] = useState<Artifact | null>(null);
   const [compareArtifacts, setCompareArtifacts] = useState<[Artifact, Artifact] | null>(null);
   const [shareArtifactId, setShareArtifactId] = useState<string | null>(null);
   const [deleteArtifactId, setDeleteArtifactId] = useState<string | null>(null);
@@ -199,6 +201,17 @@ export function ArtifactTimeline({ sessionId, generatorId, onClose }: ArtifactTi
                       View
                     </Button>
 
+                    {artifact.snapshot_ref && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => setSnapshotArtifact(artifact)}
+                      >
+                        <ListChecks className="h-4 w-4" />
+                        Inputs
+                      </Button>
+                    )}
+
                     {!artifact.published && (
                       <PublishButton
                         artifactId={artifact.id}
@@ -249,6 +262,13 @@ export function ArtifactTimeline({ sessionId, generatorId, onClose }: ArtifactTi
         />
       )}
 
+      {snapshotArtifact && (
+        <ArtifactSnapshotViewer
+          artifact={snapshotArtifact}
+          onClose={() => setSnapshotArtifact(null)}
+        />
+      )}
+
       {compareArtifacts && (
         <ArtifactDiffViewer
           oldArtifact={compareArtifacts[0]}
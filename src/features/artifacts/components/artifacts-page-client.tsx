@@ -133,6 +133,7 @@ export function ArtifactsPageClient({
           generator_id: selectedItem.id,
           markdown: generatedArtifact.markdown,
           prompt_template_hash: generatedArtifact.prompt_hash,
+          snapshot_id: generatedArtifact.snapshot_id,
         }),
       });
 
@@ -14,6 +14,7 @@ export type GenerateResponse = {
   markdown: string;
   prompt: string;
   prompt_hash: string;
+  snapshot_id: string;
 };
 
 export type Artifact = {
@@ -25,6 +26,7 @@ export type Artifact = {
   title: string;
   markdown: string;
   prompt_template_hash: string;
+  snapshot_ref: string | null; // Session snapshot of the inputs, null for artifacts saved before snapshots
   created_by: string;
   creator_name: string;
   created_at: Date;
@@ -4,7 +4,8 @@
  * Type definitions for the token metadata, resolution, and validation system.
  */
 
-import { Field, Section } from '@/features/blueprints/types/blueprint';
+import { Field, FieldType, Section } from '@/features/blueprints/types/blueprint';
+import { DateFormat } from '@/features/blueprints/types/generator';
 import { SectionNote } from '@/features/sessions/types/session';
 
 /**
@@ -13,7 +14,7 @@ import { SectionNote } from '@/features/sessions/types/session';
 export type FieldTokenMetadata = {
   token: string; // e.g., "{{field:project_name}}"
   label: string; // Field label for display
-  type: 'ShortText' | 'LongText' | 'Toggle';
+  type: FieldType;
   value: string | null; // Current field value
   sectionTitle: string; // Section this field belongs to
   sectionId: string;
@@ -62,6 +63,8 @@ export type TokenResolutionData = {
   fields: Array<Field & { value: string | null; sectionId: string; sectionTitle: string }>;
   sections: Section[];
   notes: Array<SectionNote & { sectionTitle: string }>;
+  locale?: string; // BCP 47 locale for number and date formatting (defaults to en-US)
+  dateFormat?: DateFormat; // Generator's date format for Date/DateRange tokens (defaults to iso)
 };
 
 /**
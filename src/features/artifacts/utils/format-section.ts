@@ -5,6 +5,11 @@
  */
 
 import { Field } from '@/features/blueprints/types/blueprint';
+import {
+  fieldValueToJson,
+  formatFieldValueForDisplay,
+  ValueFormatOptions,
+} from '@/features/sessions/utils/field-value';
 
 type FieldWithValue = Field & {
   value: string | null;
@@ -24,14 +29,18 @@ type FieldWithValue = Field & {
  * ```
  *
  * @param fields - Array of fields with values
+ * @param options - Locale and date format for non-text values
  * @returns Formatted string with one field per line
  */
-export function formatSectionFields(fields: FieldWithValue[]): string {
+export function formatSectionFields(
+  fields: FieldWithValue[],
+  options?: ValueFormatOptions
+): string {
   // Sort fields by order_index
   const sortedFields = [...fields].sort((a, b) => a.order_index - b.order_index);
 
   const lines = sortedFields.map((field) => {
-    const value = formatFieldValue(field);
+    const value = formatFieldValue(field, options);
     return `${field.label}: ${value}`;
   });
 
@@ -42,17 +51,23 @@ export function formatSectionFields(fields: FieldWithValue[]): string {
  * Format a single field value for display
  *
  * @param field - Field with value
+ * @param options - Locale and date format for non-text values
  * @returns Formatted value string
  */
-function formatFieldValue(field: FieldWithValue): string {
+function formatFieldValue(field: FieldWithValue, options?: ValueFormatOptions): string {
   // Handle null or empty values
   if (field.value === null || field.value === '') {
     return '(empty)';
   }
 
-  // Convert toggle values to Yes/No
-  if (field.type === 'Toggle') {
-    return field.value === 'true' ? 'Yes' : 'No';
+  // Repeatable groups render as a markdown table starting on its own line
+  if (field.type === 'RepeatableGroup') {
+    return '\n' + formatFieldValueForDisplay(field, field.value, options);
+  }
+
+  // Convert toggle values to Yes/No, option values to labels, and format numbers and dates
+  if (field.type !== 'ShortText' && field.type !== 'LongText') {
+    return formatFieldValueForDisplay(field, field.value, options);
   }
 
   // For long text, preserve newlines but indent continuation lines
@@ -75,13 +90,17 @@ function formatFieldValue(field: FieldWithValue): string {
  * ```
  *
  * @param fields - Array of fields with values
+ * @param options - Locale and date format for non-text values
  * @returns Markdown formatted string
  */
-export function formatSectionFieldsAsMarkdown(fields: FieldWithValue[]): string {
+export function formatSectionFieldsAsMarkdown(
+  fields: FieldWithValue[],
+  options?: ValueFormatOptions
+): string {
   const sortedFields = [...fields].sort((a, b) => a.order_index - b.order_index);
 
   const lines = sortedFields.map((field) => {
-    const value = formatFieldValue(field);
+    const value = formatFieldValue(field, options);
     return `- **${field.label}**: ${value}`;
   });
 
@@ -95,15 +114,10 @@ export function formatSectionFieldsAsMarkdown(fields: FieldWithValue[]): string
  * @returns JSON string of field key-value pairs
  */
 export function formatSectionFieldsAsJson(fields: FieldWithValue[]): string {
-  const obj: Record<string, string | boolean | null> = {};
+  const obj: Record<string, unknown> = {};
 
   fields.forEach((field) => {
-    // Convert toggle values to boolean
-    if (field.type === 'Toggle') {
-      obj[field.key] = field.value === 'true' ? true : field.value === 'false' ? false : null;
-    } else {
-      obj[field.key] = field.value;
-    }
+    obj[field.key] = fieldValueToJson(field, field.value);
   });
 
   return JSON.stringify(obj, null, 2);
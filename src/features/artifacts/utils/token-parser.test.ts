@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import { parseTokens, renameTokenKey } from './token-parser';
+
+describe('parseTokens', () => {
+  it('reads every token form in template order', () => {
+    const tokens = parseTokens('{{name}} {{field_json:rows}} {{section:intro}} {{fields_json}}');
+
+    expect(tokens.map((token) => [token.type, token.key])).toEqual([
+      ['field', 'name'],
+      ['field_json', 'rows'],
+      ['section', 'intro'],
+      ['fields_json', 'fields_json'],
+    ]);
+  });
+});
+
+describe('renameTokenKey', () => {
+  it('rewrites field tokens in their original form', () => {
+    expect(
+      renameTokenKey(
+        '{{name}}, {{field:name}}, {{field_json:name}}, {{names}}',
+        'field',
+        'name',
+        'title'
+      )
+    ).toEqual({
+      template: '{{title}}, {{field:title}}, {{field_json:title}}, {{names}}',
+      count: 3,
+    });
+  });
+
+  it('rewrites section and notes tokens only for section renames', () => {
+    const template = '{{section:intro}} {{notes:intro}} {{intro}}';
+
+    expect(renameTokenKey(template, 'section', 'intro', 'overview')).toEqual({
+      template: '{{section:overview}} {{notes:overview}} {{intro}}',
+      count: 2,
+    });
+    expect(renameTokenKey(template, 'field', 'intro', 'overview')).toEqual({
+      template: '{{section:intro}} {{notes:intro}} {{overview}}',
+      count: 1,
+    });
+  });
+});
@@ -6,13 +6,14 @@
  * Supported token types:
  * - {{field_key}} - Individual field value (simple format)
  * - {{field:key}} - Individual field value (explicit format)
+ * - {{field_json:key}} - Individual field value as JSON (e.g., repeatable group rows)
  * - {{section:id}} - All fields in a section
  * - {{notes:id}} - Notes for a section
  * - {{fields_json}} - Legacy: All fields as JSON
  * - {{notes_json}} - Legacy: All notes as JSON
  */
 
-export type TokenType = 'field' | 'section' | 'notes' | 'fields_json' | 'notes_json';
+export type TokenType = 'field' | 'field_json' | 'section' | 'notes' | 'fields_json' | 'notes_json';
 
 export type ParsedToken = {
   type: TokenType;
@@ -26,6 +27,7 @@ export type ParsedToken = {
 const TOKEN_PATTERNS = {
   // Explicit format with type prefix
   field: /\{\{field:([a-z0-9_-]+)\}\}/gi,
+  field_json: /\{\{field_json:([a-z0-9_-]+)\}\}/gi,
   section: /\{\{section:([a-z0-9_-]+)\}\}/gi,
   notes: /\{\{notes:([a-z0-9_-]+)\}\}/gi,
   // Legacy formats
@@ -47,6 +49,7 @@ export function parseTokens(template: string): ParsedToken[] {
   // Extract explicit format tokens ({{type:key}}) - must check these first
   const explicitTypes: Array<{ type: TokenType; pattern: keyof typeof TOKEN_PATTERNS }> = [
     { type: 'field', pattern: 'field' },
+    { type: 'field_json', pattern: 'field_json' },
     { type: 'section', pattern: 'section' },
     { type: 'notes', pattern: 'notes' },
   ];
@@ -119,6 +122,7 @@ export function extractTokenKeys(template: string): Record<TokenType, string[]>
   const tokens = parseTokens(template);
   const keysByType: Record<TokenType, Set<string>> = {
     field: new Set(),
+    field_json: new Set(),
     section: new Set(),
     notes: new Set(),
     fields_json: new Set(),
@@ -165,6 +169,7 @@ export function validateTokenSyntax(template: string): { valid: boolean; errors:
   // Find potential malformed tokens
   const malformedPatterns = [
     /\{\{field:\s*\}\}/g, // Empty field key
+    /\{\{field_json:\s*\}\}/g, // Empty field_json key
     /\{\{section:\s*\}\}/g, // Empty section key
     /\{\{notes:\s*\}\}/g, // Empty notes key
     /\{\{\s*\}\}/g, // Empty braces
@@ -203,3 +208,36 @@ export function escapeLiteralBraces(template: string): string {
 export function restoreEscapedBraces(template: string): string {
   return template.replace(/\{\{ESCAPED_OPEN\}\}/g, '{{').replace(/\{\{ESCAPED_CLOSE\}\}/g, '}}');
 }
+
+/**
+ * Rewrite every token that points at a renamed field or section key
+ *
+ * Field renames cover {{key}}, {{field:key}}, and {{field_json:key}}; section renames
+ * cover {{section:key}} and {{notes:key}}. Each token keeps its original form.
+ *
+ * @param template - Prompt template string
+ * @param scope - Whether the renamed key belongs to a field or a section
+ * @param oldKey - Key before the rename
+ * @param newKey - Key after the rename
+ * @returns Rewritten template and the number of tokens that changed
+ */
+export function renameTokenKey(
+  template: string,
+  scope: 'field' | 'section',
+  oldKey: string,
+  newKey: string
+): { template: string; count: number } {
+  const types: TokenType[] = scope === 'field' ? ['field', 'field_json'] : ['section', 'notes'];
+  const matches = parseTokens(template).filter(
+    (token) => types.includes(token.type) && token.key === oldKey
+  );
+
+  // Replace from the end so earlier positions stay valid
+  let result = template;
+  [...matches].reverse().forEach((token) => {
+    const prefix = token.raw.slice(0, token.raw.length - token.key.length - 2);
+    result = result.slice(0, token.start) + `${prefix}${newKey}}}` + result.slice(token.end);
+  });
+
+  return { template: result, count: matches.length };
+}
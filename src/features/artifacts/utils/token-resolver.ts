@@ -4,9 +4,13 @@
  * Resolves tokens in prompt templates to their actual values from session data.
  */
 
-import { parseTokens, escapeLiteralBraces, restoreEscapedBraces } from './token-parser';
+import { parseTokens, escapeLiteralBraces, restoreEscapedBraces, TokenType } from './token-parser';
 import { TokenResolutionData } from '../types/tokens';
 import { formatSectionFields } from './format-section';
+import {
+  fieldValueToJson,
+  formatFieldValueForDisplay,
+} from '@/features/sessions/utils/field-value';
 
 /**
  * Resolve all tokens in a template to their actual values
@@ -43,14 +47,12 @@ export function resolveTokens(template: string, data: TokenResolutionData): stri
  * @param data - Session data
  * @returns Resolved value or placeholder
  */
-function resolveToken(
-  type: 'field' | 'section' | 'notes' | 'fields_json' | 'notes_json',
-  key: string,
-  data: TokenResolutionData
-): string {
+function resolveToken(type: TokenType, key: string, data: TokenResolutionData): string {
   switch (type) {
     case 'field':
       return resolveFieldToken(key, data);
+    case 'field_json':
+      return resolveFieldJsonToken(key, data);
     case 'section':
       return resolveSectionToken(key, data);
     case 'notes':
@@ -74,17 +76,25 @@ function resolveFieldToken(fieldKey: string, data: TokenResolutionData): string
     return `[Field not found: ${fieldKey}]`;
   }
 
-  // Handle empty values
-  if (field.value === null || field.value === '') {
-    return '';
-  }
+  // Toggles render as Yes/No, option fields render their labels, numbers and
+  // dates are formatted for the locale, empty values render as ''
+  return formatFieldValueForDisplay(field, field.value, {
+    locale: data.locale,
+    dateFormat: data.dateFormat,
+  });
+}
+
+/**
+ * Resolve a field_json token to the field value as JSON (same shape as fields_json)
+ */
+function resolveFieldJsonToken(fieldKey: string, data: TokenResolutionData): string {
+  const field = data.fields.find((f) => f.key === fieldKey);
 
-  // For toggle fields, convert boolean to readable text
-  if (field.type === 'Toggle') {
-    return field.value === 'true' ? 'Yes' : 'No';
+  if (!field) {
+    return `[Field not found: ${fieldKey}]`;
   }
 
-  return field.value;
+  return JSON.stringify(fieldValueToJson(field, field.value), null, 2);
 }
 
 /**
@@ -103,7 +113,10 @@ function resolveSectionToken(sectionKey: string, data: TokenResolutionData): str
     return `[No fields in section: ${section.title}]`;
   }
 
-  return formatSectionFields(sectionFields);
+  return formatSectionFields(sectionFields, {
+    locale: data.locale,
+    dateFormat: data.dateFormat,
+  });
 }
 
 /**
@@ -129,16 +142,10 @@ function resolveNotesToken(sectionKey: string, data: TokenResolutionData): strin
  * Resolve legacy fields_json token
  */
 function resolveFieldsJsonToken(data: TokenResolutionData): string {
-  const fieldsObject: Record<string, string | boolean | null> = {};
+  const fieldsObject: Record<string, unknown> = {};
 
   data.fields.forEach((field) => {
-    // Convert toggle values to boolean
-    if (field.type === 'Toggle') {
-      fieldsObject[field.key] =
-        field.value === 'true' ? true : field.value === 'false' ? false : null;
-    } else {
-      fieldsObject[field.key] = field.value;
-    }
+    fieldsObject[field.key] = fieldValueToJson(field, field.value);
   });
 
   return JSON.stringify(fieldsObject, null, 2);
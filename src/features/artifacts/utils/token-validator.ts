@@ -4,7 +4,7 @@
  * Validates tokens in prompt templates against available session data.
  */
 
-import { parseTokens, validateTokenSyntax } from './token-parser';
+import { parseTokens, TokenType, validateTokenSyntax } from './token-parser';
 import { TokenResolutionData, TokenValidationError, TokenValidationResult } from '../types/tokens';
 
 /**
@@ -50,13 +50,15 @@ export function validateTokens(template: string, data: TokenResolutionData): Tok
  * Validate a single token
  */
 function validateToken(
-  type: 'field' | 'section' | 'notes' | 'fields_json' | 'notes_json',
+  type: TokenType,
   key: string,
   data: TokenResolutionData
 ): TokenValidationError | null {
   switch (type) {
     case 'field':
       return validateFieldToken(key, data);
+    case 'field_json':
+      return validateFieldToken(key, data, 'field_json');
     case 'section':
       return validateSectionToken(key, data);
     case 'notes':
@@ -79,7 +81,8 @@ function validateToken(
  */
 function validateFieldToken(
   fieldKey: string,
-  data: TokenResolutionData
+  data: TokenResolutionData,
+  prefix: 'field' | 'field_json' = 'field'
 ): TokenValidationError | null {
   const field = data.fields.find((f) => f.key === fieldKey);
 
@@ -91,11 +94,11 @@ function validateFieldToken(
     );
 
     return {
-      token: `{{field:${fieldKey}}}`,
+      token: `{{${prefix}:${fieldKey}}}`,
       type: 'field',
       message: `Field not found: ${fieldKey}`,
       suggestions:
-        suggestions.length > 0 ? suggestions.map((key) => `{{field:${key}}}`) : undefined,
+        suggestions.length > 0 ? suggestions.map((key) => `{{${prefix}:${key}}}`) : undefined,
     };
   }
 
@@ -3,12 +3,12 @@
 /**
  * Blueprint List Component
  *
- * Displays all blueprints in a card grid with actions (edit, duplicate, delete)
+ * Displays all blueprints in a card grid with actions (edit, duplicate, export, delete)
  */
 
 import { useState } from 'react';
 import { useRouter } from 'next/navigation';
-import { FileText, Copy, Trash2, Plus } from 'lucide-react';
+import { FileText, Copy, Trash2, Plus, Download, Upload } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
@@ -18,6 +18,8 @@ import { toast } from '@/components/ui/toaster';
 import { DeleteDialog } from '@/components/ui/delete-dialog';
 import { Blueprint } from '@/features/blueprints/types/blueprint';
 import { NewBlueprintModal } from './new-blueprint-modal';
+import { ImportBlueprintModal } from './import-blueprint-modal';
+import { DraftBlueprintModal } from './draft-blueprint-modal';
 
 interface BlueprintListProps {
   blueprints: Blueprint[];
@@ -29,6 +31,8 @@ export function BlueprintList({ blueprints: initialBlueprints }: BlueprintListPr
   const [deleteId, setDeleteId] = useState<string | null>(null);
   const [isDeleting, setIsDeleting] = useState(false);
   const [showNewModal, setShowNewModal] = useState(false);
+  const [showImportModal, setShowImportModal] = useState(false);
+  const [showDraftModal, setShowDraftModal] = useState(false);
 
   /**
    * Generate a unique name for the duplicated blueprint
@@ -103,6 +107,35 @@ export function BlueprintList({ blueprints: initialBlueprints }: BlueprintListPr
     }
   };
 
+  const handleExport = async (blueprint: Blueprint) => {
+    try {
+      const response = await fetch(`/api/v1/blueprints/${blueprint.id}/export`);
+
+      if (!response.ok) {
+        const result = await response.json();
+        toast.error('Failed to export blueprint', {
+          description: result.error.message,
+        });
+        return;
+      }
+
+      // Save the file using the name the server suggests
+      const disposition = response.headers.get('Content-Disposition') ?? '';
+      const filename = disposition.match(/filename="(.+)"/)?.[1] ?? 'blueprint.json';
+      const url = URL.createObjectURL(await response.blob());
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = filename;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error('Failed to export blueprint:', error);
+      toast.error('Failed to export blueprint', {
+        description: 'An unexpected error occurred',
+      });
+    }
+  };
+
   const handleDelete = async () => {
     if (!deleteId) return;
 
@@ -141,6 +174,20 @@ export function BlueprintList({ blueprints: initialBlueprints }: BlueprintListPr
     router.push(`/blueprints/${blueprintId}/edit`);
   };
 
+  const handleBlueprintImported = (blueprintId: string) => {
+    setShowImportModal(false);
+    toast.success('Blueprint imported successfully');
+    router.refresh(); // Invalidate cache before navigation
+    router.push(`/blueprints/${blueprintId}/edit`);
+  };
+
+  const handleBlueprintDrafted = (blueprintId: string) => {
+    setShowDraftModal(false);
+    toast.success('Draft blueprint created');
+    router.refresh(); // Invalidate cache before navigation
+    router.push(`/blueprints/${blueprintId}/edit`);
+  };
+
   const getStatusColor = (status: Blueprint['status']) => {
     switch (status) {
       case 'published':
@@ -159,6 +206,12 @@ export function BlueprintList({ blueprints: initialBlueprints }: BlueprintListPr
         buttonIcon={Plus}
         onButtonClick={() => setShowNewModal(true)}
         showSeparator={blueprints.length > 0}
+        quickActions={
+          <Button variant="outline" onClick={() => setShowImportModal(true)}>
+            <Upload className="h-4 w-4" />
+            Import
+          </Button>
+        }
       />
 
       {blueprints.length === 0 ? (
@@ -187,6 +240,7 @@ export function BlueprintList({ blueprints: initialBlueprints }: BlueprintListPr
                   className={`${getStatusColor(blueprint.status)} pointer-events-none hover:bg-inherit`}
                 >
                   {blueprint.status}
+                  {blueprint.version > 0 && ` v${blueprint.version}`}
                 </Badge>
               </div>
 
@@ -216,6 +270,14 @@ export function BlueprintList({ blueprints: initialBlueprints }: BlueprintListPr
                 >
                   <Copy className="h-4 w-4" />
                 </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => handleExport(blueprint)}
+                  aria-label="Export blueprint"
+                >
+                  <Download className="h-4 w-4" />
+                </Button>
                 <Button
                   variant="outline"
                   size="sm"
@@ -234,6 +296,22 @@ export function BlueprintList({ blueprints: initialBlueprints }: BlueprintListPr
         open={showNewModal}
         onOpenChange={setShowNewModal}
         onBlueprintCreated={handleBlueprintCreated}
+        onStartFromSample={() => {
+          setShowNewModal(false);
+          setShowDraftModal(true);
+        }}
+      />
+
+      <DraftBlueprintModal
+        open={showDraftModal}
+        onOpenChange={setShowDraftModal}
+        onBlueprintCreated={handleBlueprintDrafted}
+      />
+
+      <ImportBlueprintModal
+        open={showImportModal}
+        onOpenChange={setShowImportModal}
+        onBlueprintImported={handleBlueprintImported}
       />
 
       <DeleteDialog
@@ -0,0 +1,295 @@
+'use client';
+
+/**
+ * Blueprint Preview Shell Component
+ *
+ * The 3-panel session layout for a blueprint that is still being edited.
+ * Values and notes live in component state only, so no session is created.
+ */
+
+import { useState, useEffect, useMemo } from 'react';
+import { useRouter } from 'next/navigation';
+import { Eraser, Wand2 } from 'lucide-react';
+
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Separator } from '@/components/ui/separator';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { PageHeader } from '@/components/ui/page-header';
+import { Blueprint, Field, Section } from '@/features/blueprints/types/blueprint';
+import { BlueprintArtifactGenerator } from '@/features/blueprints/types/generator';
+import { SectionWithProgress } from '@/features/sessions/types/session';
+import { FieldWithValue } from '@/app/api/v1/sessions/[id]/sections/[section_id]/fields/route';
+import { computeFieldValues } from '@/features/sessions/utils/computed-fields';
+import { addSectionProgress } from '@/features/sessions/utils/visibility';
+import { SectionNav } from '@/features/sessions/components/section-nav';
+import { SectionNotes } from '@/features/sessions/components/section-notes';
+import { SessionFooter } from '@/features/sessions/components/session-footer';
+import { FieldGrid } from '@/features/sessions/components/field-grid';
+import { PreviewGeneratorDialog } from './preview-generator-dialog';
+
+interface BlueprintPreviewShellProps {
+  blueprint: Blueprint;
+  sections: Section[];
+  fields: Field[];
+  generators: BlueprintArtifactGenerator[];
+}
+
+export function BlueprintPreviewShell({
+  blueprint,
+  sections,
+  fields,
+  generators,
+}: BlueprintPreviewShellProps) {
+  const router = useRouter();
+  const [values, setValues] = useState<Record<string, string>>({});
+  const [notes, setNotes] = useState<Record<string, string>>({});
+  const [resetKey, setResetKey] = useState(0);
+  const [validationErrors, setValidationErrors] = useState(0);
+  const [showGeneratorDialog, setShowGeneratorDialog] = useState(false);
+
+  // Recalculate Computed fields on every change, as saving a session value would
+  const fieldStates = useMemo(() => {
+    const inputs = fields.map((f) => ({
+      ...f,
+      value: f.type === 'Computed' ? null : (values[f.id] ?? null),
+    }));
+    const computedValues = computeFieldValues(inputs);
+    return inputs.map((f) =>
+      computedValues.has(f.id) ? { ...f, value: computedValues.get(f.id) || null } : f
+    );
+  }, [fields, values]);
+
+  const sectionsWithProgress: SectionWithProgress[] = useMemo(
+    () =>
+      addSectionProgress(sections, fieldStates).map((section) => ({
+        ...section,
+        completion_percentage:
+          section.required_count > 0
+            ? Math.round((section.required_filled_count / section.required_count) * 100)
+            : 0,
+        total_completion_percentage:
+          section.total_count > 0
+            ? Math.round((section.total_filled_count / section.total_count) * 100)
+            : 0,
+      })),
+    [sections, fieldStates]
+  );
+
+  const [currentSectionIndex, setCurrentSectionIndex] = useState(() =>
+    Math.max(
+      sectionsWithProgress.findIndex((section) => !section.hidden),
+      0
+    )
+  );
+  const currentSection = sectionsWithProgress[currentSectionIndex];
+
+  const previewFields: FieldWithValue[] = useMemo(
+    () =>
+      fieldStates
+        .filter((f) => f.section_id === currentSection?.id)
+        .map((f) => ({ ...f, confidence: null, reviewed: false, version: 0 })),
+    [fieldStates, currentSection?.id]
+  );
+
+  // Sections hidden by visibility rules are skipped when navigating
+  const visibleIndexes = sectionsWithProgress
+    .map((section, index) => (section.hidden ? -1 : index))
+    .filter((index) => index !== -1);
+  const currentVisiblePosition = visibleIndexes.filter((i) => i < currentSectionIndex).length;
+  const previousIndex = [...visibleIndexes].reverse().find((i) => i < currentSectionIndex);
+  const nextIndex = visibleIndexes.find((i) => i > currentSectionIndex);
+
+  // Keyboard navigation
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      // Ignore if user is typing in an input
+      if (e.target instanceof HTMLInputElement || e.target instanceof HTMLTextAreaElement) {
+        return;
+      }
+
+      if (e.key === 'j' || e.key === 'ArrowDown') {
+        e.preventDefault();
+        if (nextIndex !== undefined) setCurrentSectionIndex(nextIndex);
+      } else if (e.key === 'k' || e.key === 'ArrowUp') {
+        e.preventDefault();
+        if (previousIndex !== undefined) setCurrentSectionIndex(previousIndex);
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [previousIndex, nextIndex]);
+
+  const handleFieldChange = (fieldId: string, value: string) => {
+    setValues((prev) => ({ ...prev, [fieldId]: value }));
+  };
+
+  const handleNotesChange = (sectionId: string, markdown: string) => {
+    setNotes((prev) => ({ ...prev, [sectionId]: markdown }));
+  };
+
+  const handleClear = () => {
+    setValues({});
+    setNotes({});
+    setValidationErrors(0);
+    // Remount notes and fields so their local input state is cleared too
+    setResetKey((prev) => prev + 1);
+  };
+
+  const calculateProgress = () => {
+    const totalRequired = sectionsWithProgress.reduce(
+      (sum, section) => sum + section.required_count,
+      0
+    );
+    const totalRequiredFilled = sectionsWithProgress.reduce(
+      (sum, section) => sum + section.required_filled_count,
+      0
+    );
+    const totalFields = sectionsWithProgress.reduce((sum, section) => sum + section.total_count, 0);
+    const totalFieldsFilled = sectionsWithProgress.reduce(
+      (sum, section) => sum + section.total_filled_count,
+      0
+    );
+
+    return {
+      requiredProgress:
+        totalRequired > 0 ? Math.round((totalRequiredFilled / totalRequired) * 100) : 0,
+      overallProgress: totalFields > 0 ? Math.round((totalFieldsFilled / totalFields) * 100) : 0,
+    };
+  };
+
+  if (!currentSection) {
+    return (
+      <div className="flex h-[calc(100vh-var(--topbar-height,4rem))] items-center justify-center">
+        <p className="text-muted-foreground">Add a section to preview this blueprint</p>
+      </div>
+    );
+  }
+
+  const sectionContent = (variant: 'mobile' | 'desktop') => (
+    <>
+      <h2 className="mb-4 text-2xl font-semibold">{currentSection.title}</h2>
+      {currentSection.description && (
+        <p className="mb-6 text-muted-foreground">{currentSection.description}</p>
+      )}
+      <Separator gradient className="mb-6" />
+
+      <FieldGrid
+        key={`${variant}-${resetKey}`}
+        sectionId={currentSection.id}
+        previewFields={previewFields}
+        sections={sectionsWithProgress}
+        fieldStates={fieldStates}
+        onFieldChange={handleFieldChange}
+        onValidationChange={setValidationErrors}
+      />
+    </>
+  );
+
+  const sectionNotes = (
+    <SectionNotes
+      key={`${currentSection.id}-${resetKey}`} // Force remount on section change
+      sectionId={currentSection.id}
+      initialMarkdown={notes[currentSection.id]}
+      onMarkdownChange={(markdown) => handleNotesChange(currentSection.id, markdown)}
+    />
+  );
+
+  return (
+    <div className="flex h-[calc(100vh-var(--topbar-height,4rem))] flex-col">
+      <PageHeader
+        title={blueprint.name}
+        subtitle="Preview • values are not saved"
+        backHref={`/blueprints/${blueprint.id}/edit`}
+        actions={
+          <>
+            <Badge variant="secondary" className="pointer-events-none">
+              Preview
+            </Badge>
+            <Button variant="outline" size="sm" onClick={handleClear} aria-label="Clear values">
+              <Eraser className="h-4 w-4" />
+              <span className="hidden sm:inline">Clear</span>
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setShowGeneratorDialog(true)}
+              disabled={generators.length === 0}
+              aria-label="Test generators"
+            >
+              <Wand2 className="h-4 w-4" />
+              <span className="hidden sm:inline">Test Generators</span>
+            </Button>
+          </>
+        }
+      />
+
+      {/* Mobile: Tab-based layout */}
+      <div className="flex flex-1 flex-col overflow-hidden md:hidden">
+        <Tabs defaultValue="fields" className="flex flex-1 flex-col overflow-hidden">
+          <TabsList className="grid w-full grid-cols-3 rounded-none border-b">
+            <TabsTrigger value="sections">Sections</TabsTrigger>
+            <TabsTrigger value="fields">Fields</TabsTrigger>
+            <TabsTrigger value="notes">Notes</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="sections" className="mt-0 flex-1 overflow-y-auto p-0">
+            <SectionNav
+              sections={sectionsWithProgress}
+              currentIndex={currentSectionIndex}
+              onSelectSection={setCurrentSectionIndex}
+              requiredProgress={calculateProgress().requiredProgress}
+              overallProgress={calculateProgress().overallProgress}
+            />
+          </TabsContent>
+
+          <TabsContent value="fields" className="mt-0 flex-1 overflow-y-auto p-4">
+            {sectionContent('mobile')}
+          </TabsContent>
+
+          <TabsContent value="notes" className="mt-0 flex-1 overflow-y-auto p-0">
+            {sectionNotes}
+          </TabsContent>
+        </Tabs>
+      </div>
+
+      {/* Desktop: 3-panel layout */}
+      <div className="hidden flex-1 overflow-hidden md:flex">
+        <aside className="w-64 overflow-y-auto border-r bg-sidebar">
+          <SectionNav
+            sections={sectionsWithProgress}
+            currentIndex={currentSectionIndex}
+            onSelectSection={setCurrentSectionIndex}
+            requiredProgress={calculateProgress().requiredProgress}
+            overallProgress={calculateProgress().overallProgress}
+          />
+        </aside>
+
+        <main className="flex-1 overflow-y-auto p-8">
+          <div className="mx-auto max-w-4xl">{sectionContent('desktop')}</div>
+        </main>
+
+        <aside className="w-96 overflow-y-auto border-l bg-sidebar">{sectionNotes}</aside>
+      </div>
+
+      <SessionFooter
+        currentIndex={currentVisiblePosition}
+        totalSections={visibleIndexes.length}
+        onBack={() => previousIndex !== undefined && setCurrentSectionIndex(previousIndex)}
+        onNext={() => nextIndex !== undefined && setCurrentSectionIndex(nextIndex)}
+        onHome={() => router.push(`/blueprints/${blueprint.id}/edit`)}
+        validationErrors={validationErrors}
+      />
+
+      <PreviewGeneratorDialog
+        blueprintId={blueprint.id}
+        generators={generators}
+        values={values}
+        notes={notes}
+        open={showGeneratorDialog}
+        onOpenChange={setShowGeneratorDialog}
+      />
+    </div>
+  );
+}
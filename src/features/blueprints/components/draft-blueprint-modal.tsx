@@ -0,0 +1,471 @@
+'use client';
+
+/**
+ * Draft Blueprint Modal
+ *
+ * Proposes a blueprint from a sample document (upload or paste) and lets the
+ * editor adjust sections, fields, and the starter generator before it is saved
+ * as a draft. Saving goes through the import route, so the same checks apply.
+ */
+
+import { useMemo, useState } from 'react';
+import { Plus, Sparkles, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Switch } from '@/components/ui/switch';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  BlueprintDraftResult,
+  BlueprintFile,
+  BlueprintFileField,
+  BlueprintFileGenerator,
+  BlueprintFileSection,
+  FieldType,
+} from '@/features/blueprints/types/blueprint';
+import { parseBlueprintFile } from '@/features/blueprints/utils/blueprint-file';
+import {
+  FIELD_TYPES,
+  FIELD_TYPE_LABELS,
+  hasOptions,
+  isComputedType,
+  isGroupType,
+} from '@/features/blueprints/utils/field-config';
+import { generateKey } from '@/lib/utils/generate-key';
+
+interface DraftBlueprintModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onBlueprintCreated: (blueprintId: string) => void;
+}
+
+// Computed fields need expressions over other keys, which is easier to set up in the editor
+const DRAFT_FIELD_TYPES = FIELD_TYPES.filter((type) => !isComputedType(type));
+
+export function DraftBlueprintModal({
+  open,
+  onOpenChange,
+  onBlueprintCreated,
+}: DraftBlueprintModalProps) {
+  const [sampleFile, setSampleFile] = useState<File | null>(null);
+  const [sampleText, setSampleText] = useState('');
+  const [draft, setDraft] = useState<BlueprintFile | null>(null);
+  const [truncated, setTruncated] = useState(false);
+  const [isDrafting, setIsDrafting] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Re-check the proposal on every edit so problems show before saving
+  const issues = useMemo(() => (draft ? parseBlueprintFile(draft).errors : []), [draft]);
+
+  const reset = () => {
+    setSampleFile(null);
+    setSampleText('');
+    setDraft(null);
+    setTruncated(false);
+    setError(null);
+  };
+
+  const handleDraft = async () => {
+    setIsDrafting(true);
+    setError(null);
+
+    try {
+      const formData = new FormData();
+      if (sampleFile) {
+        formData.append('file', sampleFile);
+      } else {
+        formData.append('text', sampleText);
+      }
+
+      const response = await fetch('/api/v1/blueprints/draft', {
+        method: 'POST',
+        body: formData,
+      });
+      const result = await response.json();
+
+      if (!result.ok) {
+        setError(result.error.message || 'Failed to draft blueprint');
+        return;
+      }
+
+      const data = result.data as BlueprintDraftResult;
+      setDraft(data.file);
+      setTruncated(data.truncated);
+    } catch (error) {
+      console.error('Failed to draft blueprint:', error);
+      setError('Failed to draft blueprint');
+    } finally {
+      setIsDrafting(false);
+    }
+  };
+
+  const handleSave = async () => {
+    if (!draft) return;
+
+    setIsSaving(true);
+    setError(null);
+
+    try {
+      const response = await fetch('/api/v1/blueprints/import', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ file: draft }),
+      });
+      const result = await response.json();
+
+      if (!result.ok) {
+        setError(result.error.message || 'Failed to save blueprint');
+        return;
+      }
+
+      onBlueprintCreated(result.data.blueprint.id);
+      reset();
+    } catch (error) {
+      console.error('Failed to save blueprint:', error);
+      setError('Failed to save blueprint');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const updateBlueprint = (changes: Partial<BlueprintFile['blueprint']>) => {
+    setDraft((prev) => (prev ? { ...prev, blueprint: { ...prev.blueprint, ...changes } } : prev));
+  };
+
+  const updateSection = (index: number, changes: Partial<BlueprintFileSection>) => {
+    if (!draft) return;
+    updateBlueprint({
+      sections: draft.blueprint.sections.map((section, i) =>
+        i === index ? { ...section, ...changes } : section
+      ),
+    });
+  };
+
+  const updateField = (
+    sectionIndex: number,
+    fieldIndex: number,
+    changes: Partial<BlueprintFileField>
+  ) => {
+    const section = draft?.blueprint.sections[sectionIndex];
+    if (!section) return;
+    updateSection(sectionIndex, {
+      fields: section.fields.map((field, i) =>
+        i === fieldIndex ? { ...field, ...changes } : field
+      ),
+    });
+  };
+
+  const addField = (sectionIndex: number) => {
+    const section = draft?.blueprint.sections[sectionIndex];
+    if (!section) return;
+    updateSection(sectionIndex, {
+      fields: [...section.fields, { key: '', type: 'ShortText', label: '', required: false }],
+    });
+  };
+
+  const updateGenerator = (index: number, changes: Partial<BlueprintFileGenerator>) => {
+    if (!draft) return;
+    updateBlueprint({
+      artifact_generators: draft.blueprint.artifact_generators.map((generator, i) =>
+        i === index ? { ...generator, ...changes } : generator
+      ),
+    });
+  };
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(isOpen) => {
+        if (!isOpen) reset();
+        onOpenChange(isOpen);
+      }}
+    >
+      <DialogContent className="max-h-[90vh] max-w-4xl overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Draft Blueprint from Sample</DialogTitle>
+          <DialogDescription>
+            {draft
+              ? 'Review the proposed structure. Nothing is saved until you create the draft.'
+              : 'Upload or paste an example document and get a proposed blueprint to review'}
+          </DialogDescription>
+        </DialogHeader>
+
+        {!draft ? (
+          <div className="space-y-4 py-4">
+            <div className="space-y-2">
+              <Label htmlFor="sample-file">Sample Document</Label>
+              <Input
+                id="sample-file"
+                type="file"
+                accept=".pdf,.docx,.txt,.md,.csv"
+                onChange={(e) => setSampleFile(e.target.files?.[0] ?? null)}
+                disabled={isDrafting || sampleText.trim() !== ''}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="sample-text">Or Paste Text</Label>
+              <Textarea
+                id="sample-text"
+                value={sampleText}
+                onChange={(e) => setSampleText(e.target.value)}
+                placeholder="Paste an old test plan, sales brief, or similar document"
+                rows={8}
+                disabled={isDrafting || !!sampleFile}
+              />
+            </div>
+          </div>
+        ) : (
+          <div className="space-y-6 py-4">
+            {truncated && (
+              <p className="text-sm text-muted-foreground">
+                The sample was long, so only its beginning was used.
+              </p>
+            )}
+
+            <div className="grid gap-4 md:grid-cols-2">
+              <div className="space-y-2">
+                <Label htmlFor="draft-name">Blueprint Name</Label>
+                <Input
+                  id="draft-name"
+                  value={draft.blueprint.name}
+                  onChange={(e) => updateBlueprint({ name: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="draft-description">Description</Label>
+                <Input
+                  id="draft-description"
+                  value={draft.blueprint.description ?? ''}
+                  onChange={(e) => updateBlueprint({ description: e.target.value })}
+                />
+              </div>
+            </div>
+
+            {draft.blueprint.sections.map((section, sectionIndex) => (
+              <div key={sectionIndex} className="space-y-3 rounded-md border p-4">
+                <div className="flex items-center gap-2">
+                  <Input
+                    value={section.title}
+                    onChange={(e) => updateSection(sectionIndex, { title: e.target.value })}
+                    className="font-medium"
+                    aria-label="Section title"
+                  />
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() =>
+                      updateBlueprint({
+                        sections: draft.blueprint.sections.filter((_, i) => i !== sectionIndex),
+                      })
+                    }
+                    aria-label="Remove section"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+
+                {section.fields.map((field, fieldIndex) => (
+                  <div key={fieldIndex} className="space-y-2 rounded-md bg-muted/30 p-3">
+                    <div className="flex items-center gap-2">
+                      <Input
+                        value={field.label}
+                        onChange={(e) =>
+                          updateField(sectionIndex, fieldIndex, {
+                            label: e.target.value,
+                            // Fields added here get their key from the label
+                            ...(field.key === '' || field.key === generateKey(field.label)
+                              ? { key: generateKey(e.target.value) }
+                              : {}),
+                          })
+                        }
+                        placeholder="Field label"
+                        aria-label="Field label"
+                      />
+                      <Select
+                        value={field.type}
+                        onValueChange={(value) =>
+                          updateField(sectionIndex, fieldIndex, { type: value as FieldType })
+                        }
+                      >
+                        <SelectTrigger className="w-44" aria-label="Field type">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {DRAFT_FIELD_TYPES.map((type) => (
+                            <SelectItem key={type} value={type}>
+                              {FIELD_TYPE_LABELS[type]}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <div className="flex items-center gap-2">
+                        <Switch
+                          id={`draft-required-${sectionIndex}-${fieldIndex}`}
+                          checked={field.required === true}
+                          onCheckedChange={(checked) =>
+                            updateField(sectionIndex, fieldIndex, { required: checked })
+                          }
+                        />
+                        <Label
+                          htmlFor={`draft-required-${sectionIndex}-${fieldIndex}`}
+                          className="text-xs"
+                        >
+                          Required
+                        </Label>
+                      </div>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() =>
+                          updateSection(sectionIndex, {
+                            fields: section.fields.filter((_, i) => i !== fieldIndex),
+                          })
+                        }
+                        aria-label="Remove field"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+
+                    <Input
+                      value={field.help ?? ''}
+                      onChange={(e) =>
+                        updateField(sectionIndex, fieldIndex, { help: e.target.value })
+                      }
+                      placeholder="Help text"
+                      aria-label="Help text"
+                      className="text-sm"
+                    />
+
+                    {hasOptions(field.type) && (
+                      <Input
+                        defaultValue={(field.config?.options ?? [])
+                          .map((option) => option.label)
+                          .join(', ')}
+                        onBlur={(e) =>
+                          updateField(sectionIndex, fieldIndex, {
+                            config: {
+                              ...field.config,
+                              options: e.target.value
+                                .split(',')
+                                .map((label) => label.trim())
+                                .filter(Boolean)
+                                .map((label) => ({ value: generateKey(label), label })),
+                            },
+                          })
+                        }
+                        placeholder="Options, separated by commas"
+                        aria-label="Options"
+                        className="text-sm"
+                      />
+                    )}
+
+                    {isGroupType(field.type) && (
+                      <p className="text-xs text-muted-foreground">
+                        Columns:{' '}
+                        {(field.config?.sub_fields ?? []).map((sub) => sub.label).join(', ') ||
+                          'none (add them in the editor after saving)'}
+                      </p>
+                    )}
+                  </div>
+                ))}
+
+                <Button variant="outline" size="sm" onClick={() => addField(sectionIndex)}>
+                  <Plus className="h-4 w-4" />
+                  Add Field
+                </Button>
+              </div>
+            ))}
+
+            {draft.blueprint.artifact_generators.map((generator, index) => (
+              <div key={index} className="space-y-2 rounded-md border p-4">
+                <Label htmlFor={`draft-generator-${index}`}>Starter Generator</Label>
+                <Input
+                  value={generator.name}
+                  onChange={(e) => updateGenerator(index, { name: e.target.value })}
+                  aria-label="Generator name"
+                />
+                <Textarea
+                  id={`draft-generator-${index}`}
+                  value={generator.prompt_template}
+                  onChange={(e) => updateGenerator(index, { prompt_template: e.target.value })}
+                  rows={6}
+                  className="font-mono text-sm"
+                />
+              </div>
+            ))}
+
+            {issues.length > 0 && (
+              <div className="max-h-40 space-y-1 overflow-y-auto rounded-md bg-destructive/10 p-3 text-sm text-destructive">
+                {issues.map((issue, index) => (
+                  <div key={index}>
+                    <span className="font-mono text-xs">{issue.path}</span>: {issue.message}
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+
+        {error && (
+          <div className="rounded-md bg-destructive/10 p-3 text-sm text-destructive">{error}</div>
+        )}
+
+        <DialogFooter>
+          {draft && (
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => setDraft(null)}
+              disabled={isSaving}
+            >
+              Start Over
+            </Button>
+          )}
+          <Button
+            type="button"
+            variant="outline"
+            onClick={() => {
+              reset();
+              onOpenChange(false);
+            }}
+            disabled={isDrafting || isSaving}
+          >
+            Cancel
+          </Button>
+          {draft ? (
+            <Button type="button" onClick={handleSave} disabled={isSaving || issues.length > 0}>
+              {isSaving ? 'Creating...' : 'Create Draft'}
+            </Button>
+          ) : (
+            <Button
+              type="button"
+              onClick={handleDraft}
+              disabled={isDrafting || (!sampleFile && sampleText.trim() === '')}
+            >
+              <Sparkles className="h-4 w-4" />
+              {isDrafting ? 'Drafting...' : 'Draft Blueprint'}
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
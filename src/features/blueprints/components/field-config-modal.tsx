@@ -7,6 +7,7 @@
  */
 
 import { useState, useEffect } from 'react';
+import { Plus, X } from 'lucide-react';
 
 import {
   Dialog,
@@ -28,13 +29,49 @@ import {
   SelectValue,
 } from '@/components/ui/select';
 import { Switch } from '@/components/ui/switch';
-import { Field, FieldType } from '@/features/blueprints/types/blueprint';
+import {
+  Field,
+  FieldConfig,
+  FieldOption,
+  FieldType,
+  SubField,
+  SubFieldType,
+  ValidationFormat,
+  ValidationRules,
+  VisibilityCondition,
+} from '@/features/blueprints/types/blueprint';
+import {
+  FIELD_TYPES,
+  FIELD_TYPE_LABELS,
+  SUB_FIELD_TYPES,
+  DEFAULT_CURRENCY,
+  hasOptions,
+  isComputedType,
+  isDateType,
+  isGroupType,
+  isNumericType,
+  isValidCurrencyCode,
+  normalizeOptions,
+  normalizeSubFields,
+} from '@/features/blueprints/utils/field-config';
+import {
+  VALIDATION_FORMATS,
+  VALIDATION_FORMAT_LABELS,
+  supportsValidationRules,
+} from '@/features/blueprints/utils/validation-rules';
+import {
+  EXPRESSION_FUNCTIONS,
+  validateExpressionReferences,
+} from '@/features/blueprints/utils/expression';
 import { useToast } from '@/hooks/use-toast';
+import { generateKey } from '@/lib/utils/generate-key';
+import { VisibilityConditionEditor } from './visibility-condition-editor';
 
 interface FieldConfigModalProps {
   field?: Field;
   sectionId?: string;
   existingFields?: Field[]; // For uniqueness validation
+  blueprintFields?: Field[]; // All fields in the blueprint, for date and visibility rules
   open: boolean;
   onOpenChange: (open: boolean) => void;
   onSave: (data: Partial<Field>) => Promise<void>;
@@ -43,6 +80,7 @@ interface FieldConfigModalProps {
 export function FieldConfigModal({
   field,
   existingFields = [],
+  blueprintFields = [],
   open,
   onOpenChange,
   onSave,
@@ -55,8 +93,35 @@ export function FieldConfigModal({
   const [placeholder, setPlaceholder] = useState(field?.placeholder || '');
   const [required, setRequired] = useState(field?.required || false);
   const [span, setSpan] = useState<1 | 2>(field?.span || 2);
+  const [options, setOptions] = useState<FieldOption[]>(field?.config?.options || []);
+  const [min, setMin] = useState(field?.config?.min?.toString() ?? '');
+  const [max, setMax] = useState(field?.config?.max?.toString() ?? '');
+  const [step, setStep] = useState(field?.config?.step?.toString() ?? '');
+  const [unit, setUnit] = useState(field?.config?.unit || '');
+  const [currency, setCurrency] = useState(field?.config?.currency || DEFAULT_CURRENCY);
+  const [afterField, setAfterField] = useState(field?.config?.after_field || '');
+  const [subFields, setSubFields] = useState<SubField[]>(field?.config?.sub_fields || []);
+  const [expression, setExpression] = useState(field?.config?.expression || '');
+  const [visibility, setVisibility] = useState<VisibilityCondition | null>(
+    field?.visibility ?? null
+  );
+  const [format, setFormat] = useState<ValidationFormat | ''>(field?.validation?.format || '');
+  const [minLength, setMinLength] = useState(field?.validation?.min_length?.toString() ?? '');
+  const [maxLength, setMaxLength] = useState(field?.validation?.max_length?.toString() ?? '');
+  const [pattern, setPattern] = useState(field?.validation?.pattern || '');
+  const [ruleMessage, setRuleMessage] = useState(field?.validation?.message || '');
   const [isSaving, setIsSaving] = useState(false);
 
+  // Other date fields this field can be required to follow
+  const dateFieldChoices = blueprintFields.filter(
+    (f) => isDateType(f.type) && f.id !== field?.id && f.key !== key.trim()
+  );
+
+  // Other fields this field's visibility can depend on
+  const visibilityFieldChoices = blueprintFields.filter(
+    (f) => f.id !== field?.id && f.key !== key.trim()
+  );
+
   // Reset form when field changes
   useEffect(() => {
     if (field) {
@@ -67,6 +132,21 @@ export function FieldConfigModal({
       setPlaceholder(field.placeholder || '');
       setRequired(field.required);
       setSpan(field.span);
+      setOptions(field.config?.options || []);
+      setMin(field.config?.min?.toString() ?? '');
+      setMax(field.config?.max?.toString() ?? '');
+      setStep(field.config?.step?.toString() ?? '');
+      setUnit(field.config?.unit || '');
+      setCurrency(field.config?.currency || DEFAULT_CURRENCY);
+      setAfterField(field.config?.after_field || '');
+      setSubFields(field.config?.sub_fields || []);
+      setExpression(field.config?.expression || '');
+      setVisibility(field.visibility ?? null);
+      setFormat(field.validation?.format || '');
+      setMinLength(field.validation?.min_length?.toString() ?? '');
+      setMaxLength(field.validation?.max_length?.toString() ?? '');
+      setPattern(field.validation?.pattern || '');
+      setRuleMessage(field.validation?.message || '');
     } else {
       // Reset for new field
       setType('ShortText');
@@ -76,6 +156,21 @@ export function FieldConfigModal({
       setPlaceholder('');
       setRequired(false);
       setSpan(2);
+      setOptions([]);
+      setMin('');
+      setMax('');
+      setStep('');
+      setUnit('');
+      setCurrency(DEFAULT_CURRENCY);
+      setAfterField('');
+      setSubFields([]);
+      setExpression('');
+      setVisibility(null);
+      setFormat('');
+      setMinLength('');
+      setMaxLength('');
+      setPattern('');
+      setRuleMessage('');
     }
   }, [field, open]);
 
@@ -91,6 +186,15 @@ export function FieldConfigModal({
       return;
     }
 
+    if (field && key.trim() !== field.key && key.trim() !== generateKey(key.trim())) {
+      toast({
+        variant: 'destructive',
+        title: 'Validation Error',
+        description: 'Token ID can only contain lowercase letters, numbers, and underscores',
+      });
+      return;
+    }
+
     // Validate uniqueness (exclude current field if editing)
     const isDuplicate = existingFields.some((f) => f.key === key.trim() && f.id !== field?.id);
 
@@ -103,6 +207,160 @@ export function FieldConfigModal({
       return;
     }
 
+    const normalizedOptions = normalizeOptions(options);
+
+    if (hasOptions(type)) {
+      if (normalizedOptions.length === 0) {
+        toast({
+          variant: 'destructive',
+          title: 'Validation Error',
+          description: 'Add at least one option',
+        });
+        return;
+      }
+
+      const values = normalizedOptions.map((o) => o.value);
+      if (new Set(values).size !== values.length) {
+        toast({
+          variant: 'destructive',
+          title: 'Validation Error',
+          description: 'Options must be unique',
+        });
+        return;
+      }
+    }
+
+    const normalizedSubFields = normalizeSubFields(subFields);
+
+    if (isGroupType(type)) {
+      if (normalizedSubFields.length === 0) {
+        toast({
+          variant: 'destructive',
+          title: 'Validation Error',
+          description: 'Add at least one column',
+        });
+        return;
+      }
+
+      const keys = normalizedSubFields.map((sub) => sub.key);
+      if (new Set(keys).size !== keys.length) {
+        toast({
+          variant: 'destructive',
+          title: 'Validation Error',
+          description: 'Column names must be unique',
+        });
+        return;
+      }
+    }
+
+    if (isNumericType(type)) {
+      const minValue = min.trim() === '' ? undefined : Number(min);
+      const maxValue = max.trim() === '' ? undefined : Number(max);
+      const stepValue = step.trim() === '' ? undefined : Number(step);
+
+      if ([minValue, maxValue, stepValue].some((v) => v !== undefined && !Number.isFinite(v))) {
+        toast({
+          variant: 'destructive',
+          title: 'Validation Error',
+          description: 'Min, max, and step must be numbers',
+        });
+        return;
+      }
+
+      if (minValue !== undefined && maxValue !== undefined && minValue > maxValue) {
+        toast({
+          variant: 'destructive',
+          title: 'Validation Error',
+          description: 'Min cannot be greater than max',
+        });
+        return;
+      }
+
+      if (stepValue !== undefined && stepValue <= 0) {
+        toast({
+          variant: 'destructive',
+          title: 'Validation Error',
+          description: 'Step must be greater than 0',
+        });
+        return;
+      }
+
+      if (type === 'Currency' && !isValidCurrencyCode(currency.trim().toUpperCase())) {
+        toast({
+          variant: 'destructive',
+          title: 'Validation Error',
+          description: `"${currency}" is not a valid currency code`,
+        });
+        return;
+      }
+    }
+
+    if (isComputedType(type)) {
+      const expressionError = expression.trim()
+        ? validateExpressionReferences(
+            expression.trim(),
+            blueprintFields.filter((f) => f.id !== field?.id),
+            key.trim()
+          )
+        : 'Enter an expression';
+      if (expressionError) {
+        toast({
+          variant: 'destructive',
+          title: 'Validation Error',
+          description: expressionError,
+        });
+        return;
+      }
+    }
+
+    if (supportsValidationRules(type)) {
+      const lengths = [minLength, maxLength].filter((v) => v.trim() !== '').map((v) => Number(v));
+
+      if (lengths.some((v) => !Number.isInteger(v) || v < 0)) {
+        toast({
+          variant: 'destructive',
+          title: 'Validation Error',
+          description: 'Min and max length must be whole numbers',
+        });
+        return;
+      }
+
+      if (
+        minLength.trim() !== '' &&
+        maxLength.trim() !== '' &&
+        Number(minLength) > Number(maxLength)
+      ) {
+        toast({
+          variant: 'destructive',
+          title: 'Validation Error',
+          description: 'Min length cannot be greater than max length',
+        });
+        return;
+      }
+
+      if (pattern.trim()) {
+        try {
+          new RegExp(pattern.trim());
+        } catch {
+          toast({
+            variant: 'destructive',
+            title: 'Validation Error',
+            description: 'Pattern is not a valid regular expression',
+          });
+          return;
+        }
+      }
+    }
+
+    if (visibility?.operator === 'equals' && !visibility.value?.trim()) {
+      toast({
+        variant: 'destructive',
+        title: 'Validation Error',
+        description: 'Enter the value that makes this field visible',
+      });
+      return;
+    }
+
     setIsSaving(true);
     try {
       await onSave({
@@ -111,8 +369,11 @@ export function FieldConfigModal({
         label: label.trim(),
         help_text: helpText.trim() || null,
         placeholder: placeholder.trim() || null,
-        required,
+        required: required && !isComputedType(type),
         span,
+        config: buildConfig(normalizedOptions, normalizedSubFields),
+        visibility,
+        validation: buildValidationRules(),
       });
       onOpenChange(false);
     } catch (error) {
@@ -127,16 +388,87 @@ export function FieldConfigModal({
     }
   };
 
+  // Only include settings that apply to the selected type
+  const buildConfig = (
+    normalizedOptions: FieldOption[],
+    normalizedSubFields: SubField[]
+  ): FieldConfig => {
+    if (hasOptions(type)) {
+      return { options: normalizedOptions };
+    }
+
+    if (isGroupType(type)) {
+      return { sub_fields: normalizedSubFields };
+    }
+
+    if (isNumericType(type)) {
+      const config: FieldConfig = {};
+      if (min.trim() !== '') config.min = Number(min);
+      if (max.trim() !== '') config.max = Number(max);
+      if (step.trim() !== '') config.step = Number(step);
+      if (type === 'Number' && unit.trim()) config.unit = unit.trim();
+      if (type === 'Currency') config.currency = currency.trim().toUpperCase();
+      return config;
+    }
+
+    if (isDateType(type)) {
+      return afterField ? { after_field: afterField } : {};
+    }
+
+    if (isComputedType(type)) {
+      return { expression: expression.trim() };
+    }
+
+    return {};
+  };
+
+  // Rules only apply to text types; an empty rule set clears them
+  const buildValidationRules = (): ValidationRules | null => {
+    if (!supportsValidationRules(type)) return null;
+
+    const rules: ValidationRules = {};
+    if (format) rules.format = format;
+    if (minLength.trim() !== '') rules.min_length = Number(minLength);
+    if (maxLength.trim() !== '') rules.max_length = Number(maxLength);
+    if (pattern.trim()) rules.pattern = pattern.trim();
+    if (Object.keys(rules).length === 0) return null;
+
+    if (ruleMessage.trim()) rules.message = ruleMessage.trim();
+    return rules;
+  };
+
+  const handleOptionLabelChange = (index: number, value: string) => {
+    setOptions((prev) => prev.map((o, i) => (i === index ? { ...o, label: value } : o)));
+  };
+
+  const handleAddOption = () => {
+    // Value is derived from the label on save; existing option values never change
+    setOptions((prev) => [...prev, { value: '', label: '' }]);
+  };
+
+  const handleRemoveOption = (index: number) => {
+    setOptions((prev) => prev.filter((_, i) => i !== index));
+  };
+
+  const handleSubFieldChange = (index: number, changes: Partial<SubField>) => {
+    setSubFields((prev) => prev.map((sub, i) => (i === index ? { ...sub, ...changes } : sub)));
+  };
+
+  const handleAddSubField = () => {
+    // Key is derived from the label on save; existing column keys never change
+    setSubFields((prev) => [...prev, { key: '', label: '', type: 'ShortText' }]);
+  };
+
+  const handleRemoveSubField = (index: number) => {
+    setSubFields((prev) => prev.filter((_, i) => i !== index));
+  };
+
   // Auto-generate key from label (only for new fields)
   const handleLabelChange = (value: string) => {
     setLabel(value);
     // Only auto-generate key for new fields, not when editing
     if (!field) {
-      const autoKey = value
-        .toLowerCase()
-        .replace(/[^a-z0-9]+/g, '_')
-        .replace(/^_|_$/g, '');
-      setKey(autoKey);
+      setKey(generateKey(value));
     }
   };
 
@@ -172,14 +504,33 @@ export function FieldConfigModal({
                   <SelectValue />
                 </SelectTrigger>
                 <SelectContent>
-                  <SelectItem value="ShortText">Short Text</SelectItem>
-                  <SelectItem value="LongText">Long Text</SelectItem>
-                  <SelectItem value="Toggle">Toggle</SelectItem>
+                  {FIELD_TYPES.map((fieldType) => (
+                    <SelectItem key={fieldType} value={fieldType}>
+                      {FIELD_TYPE_LABELS[fieldType]}
+                    </SelectItem>
+                  ))}
                 </SelectContent>
               </Select>
             </div>
           </div>
 
+          {/* Token ID - editing only, new fields derive it from the label */}
+          {field && (
+            <div className="space-y-2">
+              <Label htmlFor="field-key">Token ID *</Label>
+              <Input
+                id="field-key"
+                value={key}
+                onChange={(e) => setKey(e.target.value)}
+                className="font-mono"
+                required
+              />
+              <p className="text-xs text-muted-foreground">
+                Generators reference this field as {`{{field:${key.trim() || field.key}}}`}
+              </p>
+            </div>
+          )}
+
           {/* Help Text - Full Width */}
           <div className="space-y-2">
             <Label htmlFor="field-help">Help Text</Label>
@@ -192,19 +543,292 @@ export function FieldConfigModal({
             />
           </div>
 
-          {/* Row 2: Placeholder */}
-          {type !== 'Toggle' && (
+          {/* Options (Select / MultiSelect) */}
+          {hasOptions(type) && (
             <div className="space-y-2">
-              <Label htmlFor="field-placeholder">Placeholder</Label>
-              <Input
-                id="field-placeholder"
-                value={placeholder}
-                onChange={(e) => setPlaceholder(e.target.value)}
-                placeholder="Example text shown in empty field"
+              <Label>Options *</Label>
+              <div className="space-y-2">
+                {options.map((option, index) => (
+                  <div key={index} className="flex items-center gap-2">
+                    <Input
+                      value={option.label}
+                      onChange={(e) => handleOptionLabelChange(index, e.target.value)}
+                      placeholder={`Option ${index + 1}`}
+                      aria-label={`Option ${index + 1}`}
+                    />
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => handleRemoveOption(index)}
+                      aria-label={`Remove option ${index + 1}`}
+                    >
+                      <X className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ))}
+              </div>
+              <Button type="button" variant="outline" size="sm" onClick={handleAddOption}>
+                <Plus className="h-4 w-4" />
+                Add Option
+              </Button>
+            </div>
+          )}
+
+          {/* Repeatable group columns */}
+          {isGroupType(type) && (
+            <div className="space-y-2">
+              <Label>Columns *</Label>
+              <div className="space-y-2">
+                {subFields.map((sub, index) => (
+                  <div key={index} className="flex items-center gap-2">
+                    <Input
+                      value={sub.label}
+                      onChange={(e) => handleSubFieldChange(index, { label: e.target.value })}
+                      placeholder={`Column ${index + 1}`}
+                      aria-label={`Column ${index + 1} name`}
+                    />
+                    <Select
+                      value={sub.type}
+                      onValueChange={(val) =>
+                        handleSubFieldChange(index, { type: val as SubFieldType })
+                      }
+                    >
+                      <SelectTrigger className="w-40" aria-label={`Column ${index + 1} type`}>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {SUB_FIELD_TYPES.map((subType) => (
+                          <SelectItem key={subType} value={subType}>
+                            {FIELD_TYPE_LABELS[subType]}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => handleRemoveSubField(index)}
+                      aria-label={`Remove column ${index + 1}`}
+                    >
+                      <X className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ))}
+              </div>
+              <Button type="button" variant="outline" size="sm" onClick={handleAddSubField}>
+                <Plus className="h-4 w-4" />
+                Add Column
+              </Button>
+            </div>
+          )}
+
+          {/* Number / Currency settings */}
+          {isNumericType(type) && (
+            <div className="space-y-4">
+              <div className="grid gap-6 md:grid-cols-3">
+                <div className="space-y-2">
+                  <Label htmlFor="field-min">Min</Label>
+                  <Input
+                    id="field-min"
+                    type="number"
+                    value={min}
+                    onChange={(e) => setMin(e.target.value)}
+                    placeholder="No minimum"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="field-max">Max</Label>
+                  <Input
+                    id="field-max"
+                    type="number"
+                    value={max}
+                    onChange={(e) => setMax(e.target.value)}
+                    placeholder="No maximum"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="field-step">Step</Label>
+                  <Input
+                    id="field-step"
+                    type="number"
+                    value={step}
+                    onChange={(e) => setStep(e.target.value)}
+                    placeholder="Any"
+                  />
+                </div>
+              </div>
+
+              {type === 'Number' && (
+                <div className="space-y-2">
+                  <Label htmlFor="field-unit">Unit</Label>
+                  <Input
+                    id="field-unit"
+                    value={unit}
+                    onChange={(e) => setUnit(e.target.value)}
+                    placeholder="e.g., participants, days, ms"
+                  />
+                </div>
+              )}
+
+              {type === 'Currency' && (
+                <div className="space-y-2">
+                  <Label htmlFor="field-currency">Currency Code *</Label>
+                  <Input
+                    id="field-currency"
+                    value={currency}
+                    onChange={(e) => setCurrency(e.target.value.toUpperCase())}
+                    placeholder="USD"
+                    maxLength={3}
+                  />
+                </div>
+              )}
+            </div>
+          )}
+
+          {/* Expression (computed type) */}
+          {isComputedType(type) && (
+            <div className="space-y-2">
+              <Label htmlFor="field-expression">Expression *</Label>
+              <Textarea
+                id="field-expression"
+                value={expression}
+                onChange={(e) => setExpression(e.target.value)}
+                placeholder="e.g., round(budget / participant_count, 2)"
+                rows={3}
+                className="font-mono text-sm"
               />
+              <p className="text-xs text-muted-foreground">
+                Reference other fields by Token ID and combine them with + - * / and{' '}
+                {Object.keys(EXPRESSION_FUNCTIONS)
+                  .map((name) => `${name}()`)
+                  .join(', ')}
+                . The value is recalculated whenever an input changes and cannot be edited in
+                sessions.
+              </p>
+            </div>
+          )}
+
+          {/* Validation rules (text types) */}
+          {supportsValidationRules(type) && (
+            <div className="space-y-4">
+              <div className="grid gap-6 md:grid-cols-3">
+                <div className="space-y-2">
+                  <Label htmlFor="field-format">Format</Label>
+                  <Select
+                    value={format || 'any'}
+                    onValueChange={(v) => setFormat(v === 'any' ? '' : (v as ValidationFormat))}
+                  >
+                    <SelectTrigger id="field-format">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="any">Any text</SelectItem>
+                      {VALIDATION_FORMATS.map((f) => (
+                        <SelectItem key={f} value={f}>
+                          {VALIDATION_FORMAT_LABELS[f]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="field-min-length">Min Length</Label>
+                  <Input
+                    id="field-min-length"
+                    type="number"
+                    min={0}
+                    step={1}
+                    value={minLength}
+                    onChange={(e) => setMinLength(e.target.value)}
+                    placeholder="No minimum"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="field-max-length">Max Length</Label>
+                  <Input
+                    id="field-max-length"
+                    type="number"
+                    min={0}
+                    step={1}
+                    value={maxLength}
+                    onChange={(e) => setMaxLength(e.target.value)}
+                    placeholder="No maximum"
+                  />
+                </div>
+              </div>
+
+              <div className="grid gap-6 md:grid-cols-2">
+                <div className="space-y-2">
+                  <Label htmlFor="field-pattern">Pattern</Label>
+                  <Input
+                    id="field-pattern"
+                    value={pattern}
+                    onChange={(e) => setPattern(e.target.value)}
+                    placeholder="e.g., [A-Z]{2}-\d{4}"
+                    className="font-mono"
+                  />
+                  <p className="text-xs text-muted-foreground">
+                    Regular expression the whole value must match
+                  </p>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="field-rule-message">Error Message</Label>
+                  <Input
+                    id="field-rule-message"
+                    value={ruleMessage}
+                    onChange={(e) => setRuleMessage(e.target.value)}
+                    placeholder="Shown when a rule fails"
+                  />
+                </div>
+              </div>
+            </div>
+          )}
+
+          {/* Date settings */}
+          {isDateType(type) && dateFieldChoices.length > 0 && (
+            <div className="space-y-2">
+              <Label htmlFor="field-after">Must be on or after</Label>
+              <Select
+                value={afterField || 'none'}
+                onValueChange={(val) => setAfterField(val === 'none' ? '' : val)}
+              >
+                <SelectTrigger id="field-after">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">No rule</SelectItem>
+                  {dateFieldChoices.map((f) => (
+                    <SelectItem key={f.id} value={f.key}>
+                      {f.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground">
+                Saving a date earlier than the selected field is rejected
+              </p>
             </div>
           )}
 
+          {/* Row 2: Placeholder */}
+          {type !== 'Toggle' &&
+            type !== 'MultiSelect' &&
+            !isDateType(type) &&
+            !isGroupType(type) &&
+            !isComputedType(type) && (
+              <div className="space-y-2">
+                <Label htmlFor="field-placeholder">Placeholder</Label>
+                <Input
+                  id="field-placeholder"
+                  value={placeholder}
+                  onChange={(e) => setPlaceholder(e.target.value)}
+                  placeholder="Example text shown in empty field"
+                />
+              </div>
+            )}
+
           {/* Row 3: Width and Required */}
           <div className="grid gap-6 md:grid-cols-2">
             <div className="space-y-2">
@@ -223,14 +847,24 @@ export function FieldConfigModal({
               </Select>
             </div>
 
-            <div className="flex items-center gap-2 pt-8">
-              <Switch id="field-required" checked={required} onCheckedChange={setRequired} />
-              <Label htmlFor="field-required" className="cursor-pointer">
-                Required
-              </Label>
-            </div>
+            {!isComputedType(type) && (
+              <div className="flex items-center gap-2 pt-8">
+                <Switch id="field-required" checked={required} onCheckedChange={setRequired} />
+                <Label htmlFor="field-required" className="cursor-pointer">
+                  Required
+                </Label>
+              </div>
+            )}
           </div>
 
+          {/* Row 4: Visibility rule */}
+          <VisibilityConditionEditor
+            id="field-visibility"
+            fields={visibilityFieldChoices}
+            value={visibility}
+            onChange={setVisibility}
+          />
+
           <DialogFooter>
             <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
               Cancel
@@ -18,6 +18,14 @@ import {
   AlignLeft,
   ToggleLeft,
   ListChecks,
+  CircleDot,
+  ListTodo,
+  Hash,
+  DollarSign,
+  Calendar,
+  CalendarRange,
+  Table2,
+  Calculator,
 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card } from '@/components/ui/card';
@@ -43,6 +51,22 @@ function getFieldIcon(type: Field['type']) {
       return AlignLeft;
     case 'Toggle':
       return ToggleLeft;
+    case 'Select':
+      return CircleDot;
+    case 'MultiSelect':
+      return ListTodo;
+    case 'Number':
+      return Hash;
+    case 'Currency':
+      return DollarSign;
+    case 'Date':
+      return Calendar;
+    case 'DateRange':
+      return CalendarRange;
+    case 'RepeatableGroup':
+      return Table2;
+    case 'Computed':
+      return Calculator;
   }
 }
 
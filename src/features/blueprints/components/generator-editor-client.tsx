@@ -25,7 +25,16 @@ import { Separator } from '@/components/ui/separator';
 import { PageHeader } from '@/components/ui/page-header';
 import { toast } from '@/components/ui/toaster';
 import { BlueprintWithSections } from '@/features/blueprints/types/blueprint';
-import { BlueprintArtifactGenerator, OutputFormat } from '@/features/blueprints/types/generator';
+import {
+  BlueprintArtifactGenerator,
+  DateFormat,
+  OutputFormat,
+} from '@/features/blueprints/types/generator';
+import {
+  DATE_FORMATS,
+  DATE_FORMAT_LABELS,
+  DEFAULT_DATE_FORMAT,
+} from '@/features/blueprints/utils/date-format';
 import { useTokenAutocomplete } from '@/features/blueprints/hooks/use-token-autocomplete';
 import { TokenAutocompleteMenu } from './token-autocomplete-menu';
 
@@ -45,20 +54,38 @@ export function GeneratorEditorClient({ blueprint, generator, mode }: GeneratorE
   const [outputFormat, setOutputFormat] = useState<OutputFormat>(
     generator?.output_format || 'Markdown'
   );
+  const [dateFormat, setDateFormat] = useState<DateFormat>(
+    generator?.date_format || DEFAULT_DATE_FORMAT
+  );
   const [visible, setVisible] = useState(generator?.visible_in_data_room ?? true);
   const [isSubmitting, setIsSubmitting] = useState(false);
 
   // Transform blueprint sections into token array
   const tokens = useMemo(() => {
     const fieldTokens = blueprint.sections.flatMap((section) =>
-      section.fields.map((field) => ({
-        tag: `{{field:${field.key}}}`,
-        label: field.label,
-        help: field.help_text,
-        section: section.title,
-        type: field.type,
-        isUtility: false,
-      }))
+      section.fields.flatMap((field) => [
+        {
+          tag: `{{field:${field.key}}}`,
+          label: field.label,
+          help: field.help_text,
+          section: section.title,
+          type: field.type,
+          isUtility: false,
+        },
+        // Repeatable groups render as a markdown table; offer the rows as JSON too
+        ...(field.type === 'RepeatableGroup'
+          ? [
+              {
+                tag: `{{field_json:${field.key}}}`,
+                label: `${field.label} (JSON)`,
+                help: 'All rows as a JSON array',
+                section: section.title,
+                type: field.type,
+                isUtility: false,
+              },
+            ]
+          : []),
+      ])
     );
 
     const utilityTokens = [];
@@ -159,7 +186,7 @@ export function GeneratorEditorClient({ blueprint, generator, mode }: GeneratorE
       const url =
         mode === 'create'
           ? `/api/v1/blueprints/${blueprint.id}/generators`
-          : `/api/v1/blueprints/${blueprint.id}/generators/${generator?.id}`;
+          : `/api/v1/generators/${generator?.id}`;
 
       const method = mode === 'create' ? 'POST' : 'PUT';
 
@@ -171,6 +198,7 @@ export function GeneratorEditorClient({ blueprint, generator, mode }: GeneratorE
           description: description.trim(),
           prompt_template: promptTemplate.trim(),
           output_format: outputFormat,
+          date_format: dateFormat,
           visible_in_data_room: visible,
         }),
       });
@@ -257,6 +285,25 @@ export function GeneratorEditorClient({ blueprint, generator, mode }: GeneratorE
               </Select>
             </div>
 
+            <div className="space-y-2">
+              <Label htmlFor="date-format">Date Format</Label>
+              <Select value={dateFormat} onValueChange={(val) => setDateFormat(val as DateFormat)}>
+                <SelectTrigger id="date-format">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {DATE_FORMATS.map((format) => (
+                    <SelectItem key={format} value={format}>
+                      {DATE_FORMAT_LABELS[format]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground">
+                How Date and Date Range fields appear in the prompt
+              </p>
+            </div>
+
             <div className="flex items-center justify-between">
               <Label htmlFor="visible">Visible in Data Room</Label>
               <Switch id="visible" checked={visible} onCheckedChange={setVisible} />
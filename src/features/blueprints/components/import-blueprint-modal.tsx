@@ -0,0 +1,215 @@
+'use client';
+
+/**
+ * Import Blueprint Modal
+ *
+ * Modal for creating a blueprint from an exported JSON file. The file is checked
+ * with a dry run first so problems and name collisions show before anything is created.
+ */
+
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { ImportBlueprintResult } from '@/features/blueprints/types/blueprint';
+
+interface ImportBlueprintModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onBlueprintImported: (blueprintId: string) => void;
+}
+
+export function ImportBlueprintModal({
+  open,
+  onOpenChange,
+  onBlueprintImported,
+}: ImportBlueprintModalProps) {
+  const [file, setFile] = useState<unknown>(null);
+  const [name, setName] = useState('');
+  const [check, setCheck] = useState<ImportBlueprintResult | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const reset = () => {
+    setFile(null);
+    setName('');
+    setCheck(null);
+    setError(null);
+  };
+
+  const runImport = async (content: unknown, nameOverride: string, dryRun: boolean) => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const response = await fetch('/api/v1/blueprints/import', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          file: content,
+          name: nameOverride.trim() || undefined,
+          dry_run: dryRun,
+        }),
+      });
+
+      const result = await response.json();
+
+      if (!result.ok) {
+        setError(result.error.message || 'Failed to import blueprint');
+        return;
+      }
+
+      const data = result.data as ImportBlueprintResult;
+      if (dryRun) {
+        setCheck(data);
+        setName(data.name);
+      } else if (data.blueprint) {
+        onBlueprintImported(data.blueprint.id);
+        reset();
+      }
+    } catch (error) {
+      console.error('Failed to import blueprint:', error);
+      setError('Failed to import blueprint');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = e.target.files?.[0];
+    setCheck(null);
+    setError(null);
+    if (!selected) return;
+
+    let content: unknown;
+    try {
+      content = JSON.parse(await selected.text());
+    } catch {
+      setFile(null);
+      setError('File is not valid JSON');
+      return;
+    }
+
+    setFile(content);
+    await runImport(content, '', true);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!file) return;
+
+    // Renaming needs a fresh check before the import can go ahead
+    if (check && name.trim() !== check.name) {
+      await runImport(file, name, true);
+      return;
+    }
+
+    await runImport(file, name, false);
+  };
+
+  const nameChanged = !!check && name.trim() !== check.name;
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(isOpen) => {
+        if (!isOpen) reset();
+        onOpenChange(isOpen);
+      }}
+    >
+      <DialogContent className="max-w-xl">
+        <DialogHeader>
+          <DialogTitle>Import Blueprint</DialogTitle>
+          <DialogDescription>
+            Create a draft blueprint from a file exported from this or another environment
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit}>
+          <div className="space-y-4 py-4">
+            <div className="space-y-2">
+              <Label htmlFor="blueprint-file">Blueprint File</Label>
+              <Input
+                id="blueprint-file"
+                type="file"
+                accept="application/json,.json"
+                onChange={handleFileChange}
+                disabled={isLoading}
+              />
+            </div>
+
+            {check && (
+              <>
+                <div className="space-y-2">
+                  <Label htmlFor="import-name">Blueprint Name</Label>
+                  <Input
+                    id="import-name"
+                    value={name}
+                    onChange={(e) => setName(e.target.value)}
+                    disabled={isLoading}
+                  />
+                  {check.name_taken && !nameChanged && (
+                    <p className="text-sm text-destructive">
+                      A blueprint with this name already exists. Choose another name.
+                    </p>
+                  )}
+                </div>
+
+                <p className="text-sm text-muted-foreground">
+                  {check.section_count} sections • {check.field_count} fields •{' '}
+                  {check.generator_count} generators
+                </p>
+
+                {check.errors.length > 0 && (
+                  <div className="max-h-60 space-y-1 overflow-y-auto rounded-md bg-destructive/10 p-3 text-sm text-destructive">
+                    {check.errors.map((issue, index) => (
+                      <div key={index}>
+                        <span className="font-mono text-xs">{issue.path}</span>: {issue.message}
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </>
+            )}
+
+            {error && (
+              <div className="rounded-md bg-destructive/10 p-3 text-sm text-destructive">
+                {error}
+              </div>
+            )}
+          </div>
+
+          <DialogFooter>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => {
+                reset();
+                onOpenChange(false);
+              }}
+              disabled={isLoading}
+            >
+              Cancel
+            </Button>
+            <Button
+              type="submit"
+              disabled={
+                isLoading || !check || check.errors.length > 0 || (check.name_taken && !nameChanged)
+              }
+            >
+              {isLoading ? 'Checking...' : nameChanged ? 'Check Name' : 'Import'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
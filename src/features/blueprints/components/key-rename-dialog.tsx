@@ -0,0 +1,91 @@
+'use client';
+
+/**
+ * Key Rename Dialog
+ *
+ * Lists the generator templates a field or section key rename would touch and
+ * lets the editor rewrite them along with the key or keep them as they are.
+ */
+
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { KeyRenameImpact } from '@/features/blueprints/types/blueprint';
+
+interface KeyRenameDialogProps {
+  impact: KeyRenameImpact | null;
+  onOpenChange: (open: boolean) => void;
+  onConfirm: (rewriteTemplates: boolean) => Promise<void>;
+}
+
+export function KeyRenameDialog({ impact, onOpenChange, onConfirm }: KeyRenameDialogProps) {
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handleConfirm = async (rewriteTemplates: boolean) => {
+    setIsSaving(true);
+    try {
+      await onConfirm(rewriteTemplates);
+      onOpenChange(false);
+    } catch {
+      // The caller already reported the failure; stay open so the editor can retry
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!impact} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Update Generator Templates?</DialogTitle>
+          <DialogDescription>
+            {impact &&
+              `Renaming the ${impact.scope} key "${impact.old_key}" to "${impact.new_key}" changes tokens in these generators.`}
+          </DialogDescription>
+        </DialogHeader>
+
+        {impact && (
+          <ul className="max-h-60 space-y-2 overflow-y-auto py-2">
+            {impact.generators.map((generator) => (
+              <li key={generator.id} className="flex items-center justify-between text-sm">
+                <span>{generator.name}</span>
+                <span className="text-muted-foreground">
+                  {generator.occurrences} {generator.occurrences === 1 ? 'token' : 'tokens'}
+                </span>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <DialogFooter>
+          <Button
+            type="button"
+            variant="outline"
+            onClick={() => onOpenChange(false)}
+            disabled={isSaving}
+          >
+            Cancel
+          </Button>
+          <Button
+            type="button"
+            variant="outline"
+            onClick={() => handleConfirm(false)}
+            disabled={isSaving}
+          >
+            Rename Only
+          </Button>
+          <Button type="button" onClick={() => handleConfirm(true)} disabled={isSaving}>
+            {isSaving ? 'Saving...' : 'Rename and Update'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,180 @@
+'use client';
+
+/**
+ * Library Section Modal
+ *
+ * Lists the company's section library and inserts a section into the blueprint,
+ * either linked (receives library updates) or as a detached copy
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import { Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { DeleteDialog } from '@/components/ui/delete-dialog';
+import { LibraryInsertMode, LibrarySection } from '@/features/blueprints/types/blueprint';
+
+interface LibrarySectionModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onInsert: (librarySectionId: string, mode: LibraryInsertMode) => Promise<void>;
+}
+
+export function LibrarySectionModal({ open, onOpenChange, onInsert }: LibrarySectionModalProps) {
+  const [sections, setSections] = useState<LibrarySection[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [insertingId, setInsertingId] = useState<string | null>(null);
+  const [deleteTarget, setDeleteTarget] = useState<LibrarySection | null>(null);
+  const [isDeleting, setIsDeleting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchSections = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const response = await fetch('/api/v1/library/sections');
+      const result = await response.json();
+
+      if (result.ok) {
+        setSections(result.data);
+      } else {
+        setError(result.error?.message || 'Failed to load section library');
+      }
+    } catch (error) {
+      console.error('Failed to load section library:', error);
+      setError('Failed to load section library');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (open) {
+      fetchSections();
+    }
+  }, [open, fetchSections]);
+
+  const handleInsert = async (librarySectionId: string, mode: LibraryInsertMode) => {
+    setInsertingId(librarySectionId);
+    try {
+      await onInsert(librarySectionId, mode);
+      onOpenChange(false);
+    } catch {
+      // The caller already reported the failure
+    } finally {
+      setInsertingId(null);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!deleteTarget) return;
+
+    setIsDeleting(true);
+    try {
+      const response = await fetch(`/api/v1/library/sections/${deleteTarget.id}`, {
+        method: 'DELETE',
+      });
+      const result = await response.json();
+
+      if (result.ok) {
+        setSections((prev) => prev.filter((s) => s.id !== deleteTarget.id));
+        setDeleteTarget(null);
+      } else {
+        setError(result.error?.message || 'Failed to delete library section');
+      }
+    } catch (error) {
+      console.error('Failed to delete library section:', error);
+      setError('Failed to delete library section');
+    } finally {
+      setIsDeleting(false);
+    }
+  };
+
+  return (
+    <>
+      <Dialog open={open} onOpenChange={onOpenChange}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>Section Library</DialogTitle>
+            <DialogDescription>
+              Linked sections pick up changes pushed to the library. Copies can be edited freely.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="max-h-[60vh] space-y-2 overflow-y-auto py-2">
+            {isLoading ? (
+              <p className="py-8 text-center text-sm text-muted-foreground">Loading library...</p>
+            ) : sections.length === 0 ? (
+              <p className="py-8 text-center text-sm text-muted-foreground">
+                No library sections yet. Save a section from any blueprint to reuse it here.
+              </p>
+            ) : (
+              sections.map((section) => (
+                <div key={section.id} className="flex items-center gap-3 rounded-md border p-3">
+                  <div className="flex-1">
+                    <div className="flex items-center gap-2">
+                      <h4 className="font-medium">{section.title}</h4>
+                      <Badge variant="secondary">v{section.version}</Badge>
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                      {section.fields.length} fields • linked in {section.linked_count ?? 0}{' '}
+                      {section.linked_count === 1 ? 'blueprint' : 'blueprints'}
+                    </p>
+                  </div>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => handleInsert(section.id, 'detached')}
+                    disabled={insertingId !== null}
+                  >
+                    Insert Copy
+                  </Button>
+                  <Button
+                    size="sm"
+                    onClick={() => handleInsert(section.id, 'linked')}
+                    disabled={insertingId !== null}
+                  >
+                    {insertingId === section.id ? 'Inserting...' : 'Insert Linked'}
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setDeleteTarget(section)}
+                    disabled={insertingId !== null}
+                    aria-label="Delete library section"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))
+            )}
+
+            {error && (
+              <div className="rounded-md bg-destructive/10 p-3 text-sm text-destructive">
+                {error}
+              </div>
+            )}
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      <DeleteDialog
+        open={!!deleteTarget}
+        onOpenChange={(isOpen) => {
+          if (!isOpen) setDeleteTarget(null);
+        }}
+        title="Delete Library Section?"
+        description="Linked sections keep their fields but stop receiving library updates. This action cannot be undone."
+        onConfirm={handleDelete}
+        isDeleting={isDeleting}
+      />
+    </>
+  );
+}
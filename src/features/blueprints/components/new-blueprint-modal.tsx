@@ -7,6 +7,7 @@
  */
 
 import { useState } from 'react';
+import { Sparkles } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import {
   Dialog,
@@ -24,12 +25,14 @@ interface NewBlueprintModalProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
   onBlueprintCreated: (blueprintId: string) => void;
+  onStartFromSample?: () => void;
 }
 
 export function NewBlueprintModal({
   open,
   onOpenChange,
   onBlueprintCreated,
+  onStartFromSample,
 }: NewBlueprintModalProps) {
   const [name, setName] = useState('');
   const [description, setDescription] = useState('');
@@ -121,6 +124,18 @@ export function NewBlueprintModal({
           </div>
 
           <DialogFooter>
+            {onStartFromSample && (
+              <Button
+                type="button"
+                variant="ghost"
+                onClick={onStartFromSample}
+                disabled={isLoading}
+                className="sm:mr-auto"
+              >
+                <Sparkles className="h-4 w-4" />
+                Start from Sample
+              </Button>
+            )}
             <Button
               type="button"
               variant="outline"
@@ -0,0 +1,147 @@
+'use client';
+
+/**
+ * Preview Generator Dialog
+ *
+ * Test-runs a blueprint's generators against the values entered in preview.
+ * Output is shown here only; nothing is saved as an artifact.
+ */
+
+import { useState } from 'react';
+import ReactMarkdown from 'react-markdown';
+import remarkGfm from 'remark-gfm';
+import { Wand2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import {
+  BlueprintArtifactGenerator,
+  PreviewGenerateResponse,
+} from '@/features/blueprints/types/generator';
+
+interface PreviewGeneratorDialogProps {
+  blueprintId: string;
+  generators: BlueprintArtifactGenerator[];
+  values: Record<string, string>;
+  notes: Record<string, string>;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function PreviewGeneratorDialog({
+  blueprintId,
+  generators,
+  values,
+  notes,
+  open,
+  onOpenChange,
+}: PreviewGeneratorDialogProps) {
+  const [generatorId, setGeneratorId] = useState(generators[0]?.id ?? '');
+  const [result, setResult] = useState<PreviewGenerateResponse | null>(null);
+  const [isGenerating, setIsGenerating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleGenerate = async () => {
+    setIsGenerating(true);
+    setError(null);
+    setResult(null);
+
+    try {
+      const response = await fetch(`/api/v1/blueprints/${blueprintId}/preview/generate`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ generator_id: generatorId, values, notes }),
+      });
+      const data = await response.json();
+
+      if (!data.ok) {
+        setError(data.error?.message || 'Failed to generate preview');
+        return;
+      }
+
+      setResult(data.data);
+    } catch (error) {
+      console.error('Failed to generate preview:', error);
+      setError('Failed to generate preview');
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="flex max-h-[90vh] max-w-4xl flex-col">
+        <DialogHeader>
+          <DialogTitle>Test Generators</DialogTitle>
+          <DialogDescription>
+            Runs against the preview values and notes. Output is not saved.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex items-center gap-2">
+          <Select value={generatorId} onValueChange={setGeneratorId}>
+            <SelectTrigger className="flex-1" aria-label="Generator">
+              <SelectValue placeholder="Select a generator" />
+            </SelectTrigger>
+            <SelectContent>
+              {generators.map((generator) => (
+                <SelectItem key={generator.id} value={generator.id}>
+                  {generator.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button onClick={handleGenerate} disabled={isGenerating || !generatorId}>
+            <Wand2 className="h-4 w-4" />
+            {isGenerating ? 'Generating...' : 'Generate'}
+          </Button>
+        </div>
+
+        {error && (
+          <div className="rounded-md bg-destructive/10 p-3 text-sm text-destructive">{error}</div>
+        )}
+
+        {result && (
+          <div className="flex min-h-0 flex-1 flex-col gap-3">
+            {result.missing_fields.length > 0 && (
+              <p className="text-sm text-muted-foreground">
+                A real session would need these required fields first:{' '}
+                {result.missing_fields.join(', ')}
+              </p>
+            )}
+
+            <Tabs defaultValue="output" className="flex min-h-0 flex-1 flex-col">
+              <TabsList className="w-fit">
+                <TabsTrigger value="output">Output</TabsTrigger>
+                <TabsTrigger value="prompt">Resolved Prompt</TabsTrigger>
+              </TabsList>
+              <TabsContent value="output" className="min-h-0 flex-1 overflow-y-auto">
+                <div className="prose prose-sm max-w-none rounded-md border border-border bg-card p-6 dark:prose-invert">
+                  <ReactMarkdown remarkPlugins={[remarkGfm]}>{result.markdown}</ReactMarkdown>
+                </div>
+              </TabsContent>
+              <TabsContent value="prompt" className="min-h-0 flex-1 overflow-y-auto">
+                <pre className="whitespace-pre-wrap rounded-md border border-border bg-muted/30 p-4 font-mono text-xs">
+                  {result.prompt}
+                </pre>
+              </TabsContent>
+            </Tabs>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
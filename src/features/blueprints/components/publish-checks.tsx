@@ -0,0 +1,74 @@
+'use client';
+
+/**
+ * Publish Checks Component
+ *
+ * Header button summarizing pre-publish findings, with the full list in a popover
+ */
+
+import { AlertCircle, AlertTriangle, CheckCircle2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { LintFinding } from '@/features/blueprints/types/blueprint';
+
+interface PublishChecksProps {
+  findings: LintFinding[];
+}
+
+export function PublishChecks({ findings }: PublishChecksProps) {
+  const errorCount = findings.filter((f) => f.severity === 'error').length;
+  const warningCount = findings.length - errorCount;
+
+  if (findings.length === 0) {
+    return (
+      <span className="flex items-center gap-1.5 text-sm text-muted-foreground">
+        <CheckCircle2 className="h-4 w-4 text-emerald-400" />
+        Ready to publish
+      </span>
+    );
+  }
+
+  const summary = [
+    errorCount > 0 ? `${errorCount} ${errorCount === 1 ? 'error' : 'errors'}` : null,
+    warningCount > 0 ? `${warningCount} ${warningCount === 1 ? 'warning' : 'warnings'}` : null,
+  ]
+    .filter(Boolean)
+    .join(', ');
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="outline" aria-label="Show publish checks">
+          {errorCount > 0 ? (
+            <AlertCircle className="h-4 w-4 text-destructive" />
+          ) : (
+            <AlertTriangle className="h-4 w-4 text-amber-400" />
+          )}
+          {summary}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-96" align="end">
+        <div className="space-y-3">
+          <div>
+            <h4 className="font-medium">Publish Checks</h4>
+            <p className="text-xs text-muted-foreground">
+              Errors must be fixed before publishing. Warnings are advisory.
+            </p>
+          </div>
+          <ul className="max-h-80 space-y-2 overflow-y-auto">
+            {findings.map((finding, index) => (
+              <li key={index} className="flex items-start gap-2 text-sm">
+                {finding.severity === 'error' ? (
+                  <AlertCircle className="mt-0.5 h-4 w-4 shrink-0 text-destructive" />
+                ) : (
+                  <AlertTriangle className="mt-0.5 h-4 w-4 shrink-0 text-amber-400" />
+                )}
+                <span>{finding.message}</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -10,9 +10,25 @@ import { useState, useEffect } from 'react';
 import { useDroppable } from '@dnd-kit/core';
 import { SortableContext, useSortable, verticalListSortingStrategy } from '@dnd-kit/sortable';
 import { CSS } from '@dnd-kit/utilities';
-import { GripVertical, Plus, Trash2, Edit, FolderOpen } from 'lucide-react';
+import {
+  GripVertical,
+  Plus,
+  Trash2,
+  Edit,
+  FolderOpen,
+  Library,
+  Link2,
+  Unlink,
+  Upload,
+} from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card } from '@/components/ui/card';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
 import { EmptyState } from '@/components/ui/empty-state';
 import { DeleteDialog } from '@/components/ui/delete-dialog';
 import { SectionWithFields } from '@/features/blueprints/types/blueprint';
@@ -25,6 +41,10 @@ interface SectionListProps {
   onAddSection: () => void;
   onEditSection: (sectionId: string) => void;
   onDeleteSection: (sectionId: string) => void;
+  onOpenLibrary: () => void;
+  onSaveToLibrary: (sectionId: string) => void;
+  onPushToLibrary: (sectionId: string) => void;
+  onDetachFromLibrary: (sectionId: string) => void;
   isLoading?: boolean;
 }
 
@@ -34,12 +54,18 @@ function SortableSection({
   onSelect,
   onEdit,
   onDelete,
+  onSaveToLibrary,
+  onPushToLibrary,
+  onDetachFromLibrary,
 }: {
   section: SectionWithFields;
   isSelected: boolean;
   onSelect: () => void;
   onEdit: () => void;
   onDelete: () => void;
+  onSaveToLibrary: () => void;
+  onPushToLibrary: () => void;
+  onDetachFromLibrary: () => void;
 }) {
   const { attributes, listeners, setNodeRef, transform, transition, isDragging } = useSortable({
     id: section.id,
@@ -94,9 +120,50 @@ function SortableSection({
 
         <div className="flex-1">
           <h4 className="font-medium">{section.title}</h4>
-          <p className="text-xs text-muted-foreground">{section.fields.length} fields</p>
+          <p className="flex items-center gap-1 text-xs text-muted-foreground">
+            {section.fields.length} fields
+            {section.library_section_id && (
+              <>
+                {' • '}
+                <Link2 className="h-3 w-3" />
+                Library
+              </>
+            )}
+          </p>
         </div>
 
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={(e) => e.stopPropagation()}
+              aria-label="Section library actions"
+            >
+              <Library className="h-4 w-4" />
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="end" onClick={(e) => e.stopPropagation()}>
+            {section.library_section_id ? (
+              <>
+                <DropdownMenuItem onClick={onPushToLibrary} className="cursor-pointer">
+                  <Upload className="mr-2 h-4 w-4" />
+                  Update Library
+                </DropdownMenuItem>
+                <DropdownMenuItem onClick={onDetachFromLibrary} className="cursor-pointer">
+                  <Unlink className="mr-2 h-4 w-4" />
+                  Detach from Library
+                </DropdownMenuItem>
+              </>
+            ) : (
+              <DropdownMenuItem onClick={onSaveToLibrary} className="cursor-pointer">
+                <Library className="mr-2 h-4 w-4" />
+                Save to Library
+              </DropdownMenuItem>
+            )}
+          </DropdownMenuContent>
+        </DropdownMenu>
+
         <Button
           variant="ghost"
           size="sm"
@@ -132,6 +199,10 @@ export function SectionList({
   onAddSection,
   onEditSection,
   onDeleteSection,
+  onOpenLibrary,
+  onSaveToLibrary,
+  onPushToLibrary,
+  onDetachFromLibrary,
   isLoading = false,
 }: SectionListProps) {
   const [sections, setSections] = useState(initialSections);
@@ -154,10 +225,15 @@ export function SectionList({
       <div className="space-y-2">
         <div className="mb-4 flex items-center justify-between">
           <h3 className="font-semibold">Sections</h3>
-          <Button onClick={onAddSection}>
-            <Plus className="h-4 w-4" />
-            Add Section
-          </Button>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={onOpenLibrary} aria-label="Insert from library">
+              <Library className="h-4 w-4" />
+            </Button>
+            <Button onClick={onAddSection}>
+              <Plus className="h-4 w-4" />
+              Add Section
+            </Button>
+          </div>
         </div>
 
         {isLoading ? (
@@ -180,6 +256,9 @@ export function SectionList({
                 onSelect={() => onSectionSelect(section.id)}
                 onEdit={() => onEditSection(section.id)}
                 onDelete={() => setDeleteId(section.id)}
+                onSaveToLibrary={() => onSaveToLibrary(section.id)}
+                onPushToLibrary={() => onPushToLibrary(section.id)}
+                onDetachFromLibrary={() => onDetachFromLibrary(section.id)}
               />
             ))}
           </SortableContext>
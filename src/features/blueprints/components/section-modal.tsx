@@ -18,12 +18,17 @@ import {
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
+import { Field, VisibilityCondition } from '@/features/blueprints/types/blueprint';
+import { VisibilityConditionEditor } from './visibility-condition-editor';
 
 interface SectionModalProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
-  onSave: (title: string) => Promise<void>;
+  onSave: (title: string, visibility: VisibilityCondition | null, key: string) => Promise<void>;
   initialTitle?: string;
+  initialKey?: string;
+  initialVisibility?: VisibilityCondition | null;
+  controllingFields?: Field[]; // Fields outside this section that may control its visibility
   mode?: 'create' | 'edit';
 }
 
@@ -32,17 +37,24 @@ export function SectionModal({
   onOpenChange,
   onSave,
   initialTitle = '',
+  initialKey = '',
+  initialVisibility = null,
+  controllingFields = [],
   mode = 'create',
 }: SectionModalProps) {
   const [title, setTitle] = useState(initialTitle);
+  const [key, setKey] = useState(initialKey);
+  const [visibility, setVisibility] = useState<VisibilityCondition | null>(initialVisibility);
   const [isSaving, setIsSaving] = useState(false);
 
-  // Reset form when modal opens or initialTitle changes
+  // Reset form when modal opens or initial values change
   useEffect(() => {
     if (open) {
       setTitle(initialTitle);
+      setKey(initialKey);
+      setVisibility(initialVisibility);
     }
-  }, [open, initialTitle]);
+  }, [open, initialTitle, initialKey, initialVisibility]);
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -53,7 +65,7 @@ export function SectionModal({
 
     setIsSaving(true);
     try {
-      await onSave(title.trim());
+      await onSave(title.trim(), visibility, key.trim());
       onOpenChange(false);
     } finally {
       setIsSaving(false);
@@ -68,7 +80,7 @@ export function SectionModal({
           <DialogDescription>
             {mode === 'create'
               ? 'Create a new section to organize related fields.'
-              : 'Update the section title.'}
+              : 'Update the section title, key, and when it is shown.'}
           </DialogDescription>
         </DialogHeader>
 
@@ -86,6 +98,33 @@ export function SectionModal({
                 autoFocus
               />
             </div>
+
+            {mode === 'edit' && (
+              <div className="space-y-2">
+                <Label htmlFor="section-key">Section Key</Label>
+                <Input
+                  id="section-key"
+                  value={key}
+                  onChange={(e) => setKey(e.target.value)}
+                  className="font-mono"
+                  disabled={isSaving}
+                  required
+                />
+                <p className="text-xs text-muted-foreground">
+                  Generators reference this section as {`{{section:${key.trim() || initialKey}}}`}
+                </p>
+              </div>
+            )}
+
+            {mode === 'edit' && (
+              <VisibilityConditionEditor
+                id="section-visibility"
+                fields={controllingFields}
+                value={visibility}
+                onChange={setVisibility}
+                disabled={isSaving}
+              />
+            )}
           </div>
 
           <DialogFooter>
@@ -97,7 +136,15 @@ export function SectionModal({
             >
               Cancel
             </Button>
-            <Button type="submit" disabled={isSaving || !title.trim()}>
+            <Button
+              type="submit"
+              disabled={
+                isSaving ||
+                !title.trim() ||
+                (mode === 'edit' && !key.trim()) ||
+                (visibility?.operator === 'equals' && !visibility.value?.trim())
+              }
+            >
               {isSaving ? 'Saving...' : mode === 'create' ? 'Add Section' : 'Save Changes'}
             </Button>
           </DialogFooter>
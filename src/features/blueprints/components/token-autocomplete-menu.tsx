@@ -9,7 +9,20 @@
 
 import { RefObject, useMemo, useState, useEffect, useRef, forwardRef } from 'react';
 import { FloatingPortal } from '@floating-ui/react';
-import { Type, AlignLeft, ToggleLeft, Hash, Sparkles } from 'lucide-react';
+import {
+  Type,
+  AlignLeft,
+  ToggleLeft,
+  CircleDot,
+  ListTodo,
+  Hash,
+  DollarSign,
+  Calendar,
+  CalendarRange,
+  Table2,
+  Calculator,
+  Sparkles,
+} from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { TokenData } from '@/features/blueprints/hooks/use-token-autocomplete';
 
@@ -336,6 +349,22 @@ function getIconForType(type: string) {
       return AlignLeft;
     case 'Toggle':
       return ToggleLeft;
+    case 'Select':
+      return CircleDot;
+    case 'MultiSelect':
+      return ListTodo;
+    case 'Number':
+      return Hash;
+    case 'Currency':
+      return DollarSign;
+    case 'Date':
+      return Calendar;
+    case 'DateRange':
+      return CalendarRange;
+    case 'RepeatableGroup':
+      return Table2;
+    case 'Computed':
+      return Calculator;
     case 'Utility':
       return Sparkles;
     default:
@@ -0,0 +1,151 @@
+'use client';
+
+/**
+ * Visibility Condition Editor Component
+ *
+ * "Show only when" controls for fields and sections: controlling field, operator, and value
+ */
+
+import { Label } from '@/components/ui/label';
+import { Input } from '@/components/ui/input';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Field,
+  VisibilityCondition,
+  VisibilityOperator,
+} from '@/features/blueprints/types/blueprint';
+import { hasOptions } from '@/features/blueprints/utils/field-config';
+import {
+  getVisibilityOperators,
+  VISIBILITY_OPERATOR_LABELS,
+} from '@/features/blueprints/utils/visibility';
+
+const ALWAYS_VISIBLE = '__always__';
+
+interface VisibilityConditionEditorProps {
+  id: string;
+  fields: Field[]; // Fields that may control visibility
+  value: VisibilityCondition | null;
+  onChange: (value: VisibilityCondition | null) => void;
+  disabled?: boolean;
+}
+
+export function VisibilityConditionEditor({
+  id,
+  fields,
+  value,
+  onChange,
+  disabled = false,
+}: VisibilityConditionEditorProps) {
+  const controller = value ? fields.find((f) => f.key === value.field_key) : undefined;
+  const operators = controller ? getVisibilityOperators(controller.type) : [];
+
+  const handleFieldChange = (key: string) => {
+    const next = fields.find((f) => f.key === key);
+    if (!next) {
+      onChange(null);
+      return;
+    }
+    const [operator] = getVisibilityOperators(next.type);
+    onChange({ field_key: next.key, operator: operator ?? 'not_empty' });
+  };
+
+  const handleOperatorChange = (operator: VisibilityOperator) => {
+    if (!value) return;
+    onChange(
+      operator === 'equals'
+        ? { ...value, operator, value: value.value ?? '' }
+        : { field_key: value.field_key, operator }
+    );
+  };
+
+  const handleValueChange = (conditionValue: string) => {
+    if (!value) return;
+    onChange({ ...value, value: conditionValue });
+  };
+
+  return (
+    <div className="space-y-2">
+      <Label htmlFor={id}>Show only when</Label>
+      <Select
+        value={controller ? controller.key : ALWAYS_VISIBLE}
+        onValueChange={handleFieldChange}
+        disabled={disabled || fields.length === 0}
+      >
+        <SelectTrigger id={id}>
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={ALWAYS_VISIBLE}>Always visible</SelectItem>
+          {fields.map((f) => (
+            <SelectItem key={f.id} value={f.key}>
+              {f.label}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      {value && controller && (
+        <div className="flex gap-2">
+          <Select
+            value={value.operator}
+            onValueChange={(val) => handleOperatorChange(val as VisibilityOperator)}
+            disabled={disabled}
+          >
+            <SelectTrigger className="w-40" aria-label="Condition">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {operators.map((operator) => (
+                <SelectItem key={operator} value={operator}>
+                  {VISIBILITY_OPERATOR_LABELS[operator]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+
+          {value.operator === 'equals' &&
+            (hasOptions(controller.type) ? (
+              <Select
+                value={value.value || undefined}
+                onValueChange={handleValueChange}
+                disabled={disabled}
+              >
+                <SelectTrigger className="flex-1" aria-label="Value">
+                  <SelectValue placeholder="Select an option" />
+                </SelectTrigger>
+                <SelectContent>
+                  {(controller.config?.options ?? []).map((option) => (
+                    <SelectItem key={option.value} value={option.value}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            ) : (
+              <Input
+                className="flex-1"
+                value={value.value ?? ''}
+                onChange={(e) => handleValueChange(e.target.value)}
+                placeholder="Value"
+                aria-label="Value"
+                disabled={disabled}
+              />
+            ))}
+        </div>
+      )}
+
+      <p className="text-xs text-muted-foreground">
+        {fields.length === 0
+          ? 'Add other fields to this blueprint to set a visibility rule'
+          : 'Hidden fields are skipped for progress and required checks'}
+      </p>
+    </div>
+  );
+}
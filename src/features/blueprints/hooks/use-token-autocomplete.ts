@@ -8,13 +8,14 @@
 'use client';
 
 import { useState, useEffect, useCallback, useMemo, useRef, RefObject } from 'react';
+import { FieldType } from '@/features/blueprints/types/blueprint';
 
 export interface TokenData {
   tag: string;
   label: string;
   help: string | null;
   section: string;
-  type: 'ShortText' | 'LongText' | 'Toggle' | 'Utility';
+  type: FieldType | 'Utility';
   isUtility?: boolean;
 }
 
@@ -2,12 +2,16 @@
  * Blueprint type definitions
  */
 
+import { DateFormat, OutputFormat } from './generator';
+
 export interface Blueprint {
   id: string;
   company_id: string;
   name: string;
   status: 'draft' | 'published';
   description: string | null;
+  version: number; // Frozen versions: version number. Editable blueprints: latest published version (0 if never)
+  version_of: string | null; // Editable blueprint a frozen version was published from (null when editable)
   created_at: string;
   updated_at: string;
   section_count?: number; // Computed field from JOIN query
@@ -22,11 +26,83 @@ export interface Section {
   title: string;
   description: string | null;
   key: string; // Human-readable key for token references (e.g., "company_background")
+  visibility: VisibilityCondition | null; // Section is hidden in sessions when the condition fails
+  source_section_id: string | null; // Frozen versions only, editable section this was copied from
+  library_section_id: string | null; // Linked copies only, library section that updates this one
   created_at: string;
   updated_at: string;
 }
 
-export type FieldType = 'ShortText' | 'LongText' | 'Toggle';
+export type VisibilityOperator = 'equals' | 'not_empty' | 'is_on' | 'is_off';
+
+/**
+ * Condition on another field's value that controls whether a field or section is shown
+ * (stored in fields.visibility and sections.visibility)
+ */
+export interface VisibilityCondition {
+  field_key: string; // Key of the controlling field in the same blueprint
+  operator: VisibilityOperator;
+  value?: string; // equals only, compared against the stored value (option value for Select)
+}
+
+export type FieldType =
+  | 'ShortText'
+  | 'LongText'
+  | 'Toggle'
+  | 'Select'
+  | 'MultiSelect'
+  | 'Number'
+  | 'Currency'
+  | 'Date'
+  | 'DateRange'
+  | 'RepeatableGroup'
+  | 'Computed';
+
+export interface FieldOption {
+  value: string; // Stored in session_field_values.value (stable across label edits)
+  label: string; // Displayed to users and rendered in tokens
+}
+
+/**
+ * Types allowed for the columns of a RepeatableGroup
+ */
+export type SubFieldType = 'ShortText' | 'LongText' | 'Number' | 'Date' | 'Toggle';
+
+export interface SubField {
+  key: string; // Property name in each stored row
+  label: string; // Column header
+  type: SubFieldType;
+}
+
+/**
+ * Type-specific field settings (stored in fields.config)
+ */
+export interface FieldConfig {
+  options?: FieldOption[]; // Select and MultiSelect only
+  min?: number; // Number and Currency only
+  max?: number; // Number and Currency only
+  step?: number; // Number and Currency only
+  unit?: string; // Number only (e.g., "participants", "ms")
+  currency?: string; // Currency only, ISO 4217 code (e.g., "USD")
+  after_field?: string; // Date and DateRange only, key of a date field this one can't precede
+  sub_fields?: SubField[]; // RepeatableGroup only, table columns in display order
+  expression?: string; // Computed only, formula over other field keys (see utils/expression.ts)
+}
+
+export type ValidationFormat = 'email' | 'url' | 'phone';
+
+/**
+ * Declarative rules a ShortText or LongText value must satisfy (stored in fields.validation)
+ *
+ * Empty values skip these rules; the required flag covers them.
+ */
+export interface ValidationRules {
+  pattern?: string; // Regular expression the whole value must match
+  min_length?: number;
+  max_length?: number;
+  format?: ValidationFormat;
+  message?: string; // Shown instead of the default message when any rule fails
+}
 
 export interface Field {
   id: string;
@@ -38,6 +114,10 @@ export interface Field {
   placeholder: string | null;
   required: boolean;
   span: 1 | 2;
+  config: FieldConfig;
+  visibility: VisibilityCondition | null; // Field is hidden in sessions when the condition fails
+  validation: ValidationRules | null;
+  source_field_id: string | null; // Frozen versions only, editable field this was copied from
   order_index: number;
   created_at: string;
   updated_at: string;
@@ -63,6 +143,9 @@ export interface CreateSectionRequest {
 export interface UpdateSectionRequest {
   title?: string;
   description?: string;
+  key?: string;
+  visibility?: VisibilityCondition | null;
+  rewrite_templates?: boolean; // Required when a key change affects generator templates
 }
 
 export interface ReorderSectionsRequest {
@@ -80,6 +163,9 @@ export interface CreateFieldRequest {
   placeholder?: string;
   required: boolean;
   span: 1 | 2;
+  config?: FieldConfig;
+  visibility?: VisibilityCondition | null;
+  validation?: ValidationRules | null;
 }
 
 export interface UpdateFieldRequest {
@@ -90,6 +176,10 @@ export interface UpdateFieldRequest {
   placeholder?: string;
   required?: boolean;
   span?: 1 | 2;
+  config?: FieldConfig;
+  visibility?: VisibilityCondition | null;
+  validation?: ValidationRules | null;
+  rewrite_templates?: boolean; // Required when a key change affects generator templates
 }
 
 export interface ReorderFieldsRequest {
@@ -124,3 +214,159 @@ export interface BlueprintWithGenerators extends Blueprint {
     order_index: number;
   }>;
 }
+
+// Portable blueprint file for import and export (format from PROJECT.md section 12)
+
+export interface BlueprintFileField {
+  key: string;
+  type: FieldType;
+  label: string;
+  help?: string; // Stored as help_text
+  placeholder?: string;
+  required?: boolean;
+  span?: 1 | 2;
+  config?: FieldConfig;
+  visibility?: VisibilityCondition;
+  validation?: ValidationRules;
+}
+
+export interface BlueprintFileSection {
+  title: string;
+  key?: string; // Generated from the title when omitted
+  description?: string;
+  visibility?: VisibilityCondition;
+  fields: BlueprintFileField[];
+}
+
+export interface BlueprintFileGenerator {
+  name: string;
+  description?: string;
+  output_format: OutputFormat;
+  date_format?: DateFormat;
+  visible_in_data_room?: boolean;
+  prompt_template: string;
+}
+
+export interface BlueprintFile {
+  format_version: number;
+  blueprint: {
+    name: string;
+    description?: string;
+    version?: number; // Informational, latest published version when exported
+    sections: BlueprintFileSection[];
+    artifact_generators: BlueprintFileGenerator[];
+  };
+}
+
+export interface BlueprintFileIssue {
+  path: string; // Location in the file, e.g. "blueprint.sections[0].fields[2].key"
+  message: string;
+}
+
+export interface ImportBlueprintRequest {
+  file: unknown;
+  name?: string; // Overrides the name in the file, to resolve a name collision
+  dry_run?: boolean;
+}
+
+export interface ImportBlueprintResult {
+  dry_run: boolean;
+  valid: boolean; // No file errors and no name collision
+  name: string;
+  name_taken: boolean; // Another blueprint in the company already has this name
+  errors: BlueprintFileIssue[];
+  section_count: number;
+  field_count: number;
+  generator_count: number;
+  blueprint: Blueprint | null; // Created blueprint, null on dry runs
+}
+
+export interface BlueprintDraftResult {
+  file: BlueprintFile; // Proposed blueprint, reviewed and then saved through the import route
+  errors: BlueprintFileIssue[]; // Problems in the proposal to fix before saving
+  truncated: boolean; // Only the start of a long sample was used
+}
+
+// Pre-publish checks (see utils/blueprint-lint.ts)
+
+export type LintSeverity = 'error' | 'warning'; // Errors block publishing
+
+export type LintCode =
+  | 'NO_SECTIONS'
+  | 'NO_FIELDS'
+  | 'EMPTY_SECTION'
+  | 'AMBIGUOUS_FIELD_KEY'
+  | 'MISSING_FIELD_REFERENCE'
+  | 'UNKNOWN_TOKEN'
+  | 'EMPTY_TEMPLATE'
+  | 'UNUSED_REQUIRED_FIELD';
+
+export interface LintFinding {
+  severity: LintSeverity;
+  code: LintCode;
+  message: string;
+  section_id?: string;
+  field_id?: string;
+  generator_id?: string;
+}
+
+// Field key references (see utils/key-references.ts)
+
+export type FieldKeyReferenceKind = 'visibility' | 'expression' | 'after_field';
+
+/**
+ * A field or section that refers to a field by key
+ */
+export interface FieldKeyReference {
+  key: string; // Referenced field key
+  kind: FieldKeyReferenceKind;
+  field_id?: string; // Field holding the reference (visibility, expression, or date rule)
+  section_id?: string; // Section holding the reference (visibility only)
+  label: string; // Field label or section title
+}
+
+// Key renames (see lib/blueprints/key-rename.ts)
+
+export type KeyRenameScope = 'field' | 'section';
+
+export interface KeyRenameImpact {
+  scope: KeyRenameScope;
+  old_key: string;
+  new_key: string;
+  generators: Array<{
+    id: string;
+    name: string;
+    occurrences: number;
+  }>;
+}
+
+// Section library (see lib/blueprints/library.ts)
+
+export interface LibrarySection {
+  id: string;
+  company_id: string;
+  title: string;
+  key: string;
+  description: string | null;
+  fields: BlueprintFileField[]; // Stored in blueprint file format
+  version: number; // Incremented on every update
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+  linked_count?: number; // Computed field from JOIN query, linked copies in editable blueprints
+}
+
+export type LibraryInsertMode = 'linked' | 'detached';
+
+export interface SaveLibrarySectionRequest {
+  section_id: string; // Blueprint section to save; it becomes a linked copy
+}
+
+export interface UpdateLibrarySectionRequest {
+  section_id: string; // Linked copy whose fields replace the library section's
+}
+
+export interface InsertLibrarySectionRequest {
+  library_section_id: string;
+  mode: LibraryInsertMode;
+}
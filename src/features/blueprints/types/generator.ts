@@ -4,6 +4,15 @@
 
 export type OutputFormat = 'Markdown' | 'HTML';
 
+/**
+ * How Date and DateRange values render in tokens
+ * - iso: 2025-03-14
+ * - short: 3/14/25 (locale-dependent)
+ * - medium: Mar 14, 2025 (locale-dependent)
+ * - long: March 14, 2025 (locale-dependent)
+ */
+export type DateFormat = 'iso' | 'short' | 'medium' | 'long';
+
 export interface BlueprintArtifactGenerator {
   id: string;
   blueprint_id: string;
@@ -11,8 +20,10 @@ export interface BlueprintArtifactGenerator {
   description: string | null;
   prompt_template: string;
   output_format: OutputFormat;
+  date_format: DateFormat;
   visible_in_data_room: boolean;
   order_index: number;
+  source_generator_id: string | null; // Frozen versions only, editable generator this was copied from
   created_at: string;
   updated_at: string;
 }
@@ -24,6 +35,7 @@ export interface CreateGeneratorRequest {
   description?: string;
   prompt_template: string;
   output_format: OutputFormat;
+  date_format?: DateFormat;
   visible_in_data_room?: boolean;
 }
 
@@ -32,6 +44,7 @@ export interface UpdateGeneratorRequest {
   description?: string;
   prompt_template?: string;
   output_format?: OutputFormat;
+  date_format?: DateFormat;
   visible_in_data_room?: boolean;
 }
 
@@ -41,3 +54,19 @@ export interface ReorderGeneratorsRequest {
     order_index: number;
   }>;
 }
+
+// Test runs from blueprint preview: values and notes are never saved
+
+export interface PreviewGenerateRequest {
+  generator_id: string;
+  values: Record<string, string>; // Keyed by field id
+  notes: Record<string, string>; // Markdown keyed by section id
+}
+
+export interface PreviewGenerateResponse {
+  generator_id: string;
+  generator_name: string;
+  markdown: string;
+  prompt: string;
+  missing_fields: string[]; // Labels of required fields a real session would need filled first
+}
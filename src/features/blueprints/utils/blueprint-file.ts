@@ -0,0 +1,380 @@
+/**
+ * Blueprint File Utility
+ *
+ * Converts blueprints to and from the portable JSON file format, so they can be
+ * kept in git and promoted between companies or environments.
+ */
+
+import {
+  Blueprint,
+  BlueprintFile,
+  BlueprintFileField,
+  BlueprintFileGenerator,
+  BlueprintFileIssue,
+  BlueprintFileSection,
+  Field,
+  SectionWithFields,
+} from '@/features/blueprints/types/blueprint';
+import { BlueprintArtifactGenerator } from '@/features/blueprints/types/generator';
+import { generateKey } from '@/lib/utils/generate-key';
+import { DATE_FORMATS, DEFAULT_DATE_FORMAT, isDateFormat } from './date-format';
+import { validateExpressionReferences } from './expression';
+import { FIELD_TYPES, isDateType, isFieldType, parseFieldConfig } from './field-config';
+import { parseValidationRules } from './validation-rules';
+import { parseVisibilityCondition } from './visibility';
+
+/**
+ * File format version written by export; newer files are rejected on import
+ */
+export const BLUEPRINT_FILE_VERSION = 1;
+
+/**
+ * Serialize a blueprint, its sections and fields, and its generators to a file
+ *
+ * Empty optional settings are left out so files stay small and diff cleanly.
+ *
+ * @param blueprint - Blueprint to export
+ * @param sections - Sections with their fields, in display order
+ * @param generators - Artifact generators, in display order
+ * @returns Portable blueprint file
+ */
+export function serializeBlueprint(
+  blueprint: Blueprint,
+  sections: SectionWithFields[],
+  generators: BlueprintArtifactGenerator[]
+): BlueprintFile {
+  return {
+    format_version: BLUEPRINT_FILE_VERSION,
+    blueprint: {
+      name: blueprint.name,
+      ...(blueprint.description ? { description: blueprint.description } : {}),
+      ...(blueprint.version > 0 ? { version: blueprint.version } : {}),
+      sections: sections.map((section) => ({
+        title: section.title,
+        key: section.key,
+        ...(section.description ? { description: section.description } : {}),
+        ...(section.visibility ? { visibility: section.visibility } : {}),
+        fields: section.fields.map(serializeField),
+      })),
+      artifact_generators: generators.map((generator) => ({
+        name: generator.name,
+        ...(generator.description ? { description: generator.description } : {}),
+        output_format: generator.output_format,
+        date_format: generator.date_format,
+        visible_in_data_room: generator.visible_in_data_room,
+        prompt_template: generator.prompt_template,
+      })),
+    },
+  };
+}
+
+/**
+ * Serialize one field to the file format (also used for library sections)
+ *
+ * @param field - Field to serialize
+ * @returns Portable field definition
+ */
+export function serializeField(field: Field): BlueprintFileField {
+  return {
+    key: field.key,
+    type: field.type,
+    label: field.label,
+    ...(field.help_text ? { help: field.help_text } : {}),
+    ...(field.placeholder ? { placeholder: field.placeholder } : {}),
+    required: field.required,
+    span: field.span,
+    ...(field.config && Object.keys(field.config).length > 0 ? { config: field.config } : {}),
+    ...(field.visibility ? { visibility: field.visibility } : {}),
+    ...(field.validation ? { validation: field.validation } : {}),
+  };
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function optionalText(value: unknown): string | undefined {
+  return typeof value === 'string' && value.trim() !== '' ? value.trim() : undefined;
+}
+
+/**
+ * Parse and validate a blueprint file
+ *
+ * Checks every section, field, and generator with the same rules the editor
+ * uses, and reports duplicate section keys, field keys within a section, and
+ * generator names. Like the editor, a field key may repeat across sections;
+ * blueprint lint reports that as ambiguous. All problems are collected rather
+ * than stopping at the first one.
+ *
+ * @param raw - Parsed JSON from the uploaded file
+ * @returns Normalized file (null when it isn't a blueprint file at all) and any problems found
+ */
+export function parseBlueprintFile(raw: unknown): {
+  file: BlueprintFile | null;
+  errors: BlueprintFileIssue[];
+} {
+  const errors: BlueprintFileIssue[] = [];
+  const fail = (path: string, message: string) => errors.push({ path, message });
+
+  if (!isObject(raw) || !isObject(raw.blueprint)) {
+    return {
+      file: null,
+      errors: [{ path: 'blueprint', message: 'File must contain a "blueprint" object' }],
+    };
+  }
+
+  if (
+    raw.format_version !== undefined &&
+    (typeof raw.format_version !== 'number' || raw.format_version > BLUEPRINT_FILE_VERSION)
+  ) {
+    return {
+      file: null,
+      errors: [
+        {
+          path: 'format_version',
+          message: `Unsupported format version (this app reads version ${BLUEPRINT_FILE_VERSION})`,
+        },
+      ],
+    };
+  }
+
+  const source = raw.blueprint;
+  const name = optionalText(source.name);
+  if (!name) {
+    fail('blueprint.name', 'Blueprint name is required');
+  }
+
+  const rawSections = Array.isArray(source.sections) ? source.sections : [];
+  if (!Array.isArray(source.sections)) {
+    fail('blueprint.sections', 'Sections must be an array');
+  }
+
+  // First pass: each field on its own, so later checks can look up any field by key
+  const sections: BlueprintFileSection[] = [];
+  const sectionKeys = new Set<string>();
+
+  rawSections.forEach((rawSection: unknown, sectionIndex: number) => {
+    const path = `blueprint.sections[${sectionIndex}]`;
+    if (!isObject(rawSection)) {
+      fail(path, 'Section must be an object');
+      return;
+    }
+
+    const title = optionalText(rawSection.title);
+    if (!title) {
+      fail(`${path}.title`, 'Section title is required');
+    }
+
+    const key = optionalText(rawSection.key) ?? generateKey(title ?? '');
+    if (title && key !== generateKey(key)) {
+      fail(`${path}.key`, `Section key "${key}" may only contain a-z, 0-9, and underscores`);
+    } else if (title && sectionKeys.has(key)) {
+      fail(`${path}.key`, `Duplicate section key "${key}"`);
+    }
+    sectionKeys.add(key);
+
+    const fields: BlueprintFileField[] = [];
+    const fieldKeys = new Set<string>();
+    const rawFields = Array.isArray(rawSection.fields) ? rawSection.fields : [];
+    if (!Array.isArray(rawSection.fields)) {
+      fail(`${path}.fields`, 'Fields must be an array');
+    }
+
+    rawFields.forEach((rawField: unknown, fieldIndex: number) => {
+      const fieldPath = `${path}.fields[${fieldIndex}]`;
+      if (!isObject(rawField)) {
+        fail(fieldPath, 'Field must be an object');
+        return;
+      }
+
+      const fieldKey = optionalText(rawField.key);
+      if (!fieldKey) {
+        fail(`${fieldPath}.key`, 'Field key is required');
+        return;
+      }
+      if (fieldKey !== generateKey(fieldKey)) {
+        fail(
+          `${fieldPath}.key`,
+          `Field key "${fieldKey}" may only contain a-z, 0-9, and underscores`
+        );
+      } else if (fieldKeys.has(fieldKey)) {
+        fail(`${fieldPath}.key`, `Duplicate field key "${fieldKey}" in this section`);
+      }
+      fieldKeys.add(fieldKey);
+
+      const label = optionalText(rawField.label);
+      if (!label) {
+        fail(`${fieldPath}.label`, 'Field label is required');
+      }
+
+      if (!isFieldType(rawField.type)) {
+        fail(`${fieldPath}.type`, `Field type must be one of: ${FIELD_TYPES.join(', ')}`);
+        return;
+      }
+
+      const span = rawField.span ?? 1;
+      if (span !== 1 && span !== 2) {
+        fail(`${fieldPath}.span`, 'Field span must be 1 or 2');
+      }
+
+      const { config, error: configError } = parseFieldConfig(rawField.type, rawField.config);
+      if (configError !== null) {
+        fail(`${fieldPath}.config`, configError);
+      }
+
+      const { rules, error: rulesError } = parseValidationRules(rawField.type, rawField.validation);
+      if (rulesError !== null) {
+        fail(`${fieldPath}.validation`, rulesError);
+      }
+
+      const help = optionalText(rawField.help) ?? optionalText(rawField.help_text);
+      const placeholder = optionalText(rawField.placeholder);
+
+      fields.push({
+        key: fieldKey,
+        type: rawField.type,
+        label: label ?? fieldKey,
+        ...(help ? { help } : {}),
+        ...(placeholder ? { placeholder } : {}),
+        required: rawField.type !== 'Computed' && rawField.required === true,
+        span: span === 2 ? 2 : 1,
+        config: config ?? {},
+        ...(isObject(rawField.visibility)
+          ? { visibility: rawField.visibility as unknown as BlueprintFileField['visibility'] }
+          : {}),
+        ...(rules ? { validation: rules } : {}),
+      });
+    });
+
+    const description = optionalText(rawSection.description);
+    sections.push({
+      title: title ?? key,
+      key,
+      ...(description ? { description } : {}),
+      ...(isObject(rawSection.visibility)
+        ? { visibility: rawSection.visibility as unknown as BlueprintFileSection['visibility'] }
+        : {}),
+      fields,
+    });
+  });
+
+  // Second pass: rules that point at other fields in the blueprint
+  const allFields = sections
+    .flatMap((section) => section.fields)
+    .map((f) => ({
+      key: f.key,
+      type: f.type,
+      config: f.config ?? {},
+    }));
+
+  sections.forEach((section, sectionIndex) => {
+    const path = `blueprint.sections[${sectionIndex}]`;
+    const { condition, error } = parseVisibilityCondition(section.visibility, allFields);
+    if (error !== null) {
+      fail(`${path}.visibility`, error);
+    }
+    if (condition) section.visibility = condition;
+    else delete section.visibility;
+
+    section.fields.forEach((field, fieldIndex) => {
+      const fieldPath = `${path}.fields[${fieldIndex}]`;
+
+      const { condition: fieldCondition, error: fieldError } = parseVisibilityCondition(
+        field.visibility,
+        allFields,
+        field.key
+      );
+      if (fieldError !== null) {
+        fail(`${fieldPath}.visibility`, fieldError);
+      }
+      if (fieldCondition) field.visibility = fieldCondition;
+      else delete field.visibility;
+
+      const afterField = field.config?.after_field;
+      if (afterField) {
+        const target = allFields.find((f) => f.key === afterField);
+        if (!target || !isDateType(target.type) || afterField === field.key) {
+          fail(
+            `${fieldPath}.config.after_field`,
+            `"${afterField}" is not a Date or Date Range field in this blueprint`
+          );
+        }
+      }
+
+      if (field.config?.expression) {
+        const expressionError = validateExpressionReferences(
+          field.config.expression,
+          allFields,
+          field.key
+        );
+        if (expressionError) {
+          fail(`${fieldPath}.config.expression`, expressionError);
+        }
+      }
+    });
+  });
+
+  const rawGenerators = Array.isArray(source.artifact_generators) ? source.artifact_generators : [];
+  if (source.artifact_generators !== undefined && !Array.isArray(source.artifact_generators)) {
+    fail('blueprint.artifact_generators', 'Artifact generators must be an array');
+  }
+
+  const generators: BlueprintFileGenerator[] = [];
+  const generatorNames = new Set<string>();
+
+  rawGenerators.forEach((rawGenerator: unknown, index: number) => {
+    const path = `blueprint.artifact_generators[${index}]`;
+    if (!isObject(rawGenerator)) {
+      fail(path, 'Generator must be an object');
+      return;
+    }
+
+    const generatorName = optionalText(rawGenerator.name);
+    if (!generatorName) {
+      fail(`${path}.name`, 'Generator name is required');
+    } else if (generatorNames.has(generatorName)) {
+      fail(`${path}.name`, `Duplicate generator name "${generatorName}"`);
+    }
+    generatorNames.add(generatorName ?? '');
+
+    const promptTemplate = optionalText(rawGenerator.prompt_template);
+    if (!promptTemplate) {
+      fail(`${path}.prompt_template`, 'Prompt template is required');
+    }
+
+    const outputFormat = rawGenerator.output_format ?? 'Markdown';
+    if (outputFormat !== 'Markdown' && outputFormat !== 'HTML') {
+      fail(`${path}.output_format`, 'Output format must be Markdown or HTML');
+    }
+
+    if (rawGenerator.date_format !== undefined && !isDateFormat(rawGenerator.date_format)) {
+      fail(`${path}.date_format`, `Date format must be one of: ${DATE_FORMATS.join(', ')}`);
+    }
+
+    const description = optionalText(rawGenerator.description);
+    generators.push({
+      name: generatorName ?? '',
+      ...(description ? { description } : {}),
+      output_format: outputFormat === 'HTML' ? 'HTML' : 'Markdown',
+      date_format: isDateFormat(rawGenerator.date_format)
+        ? rawGenerator.date_format
+        : DEFAULT_DATE_FORMAT,
+      visible_in_data_room: rawGenerator.visible_in_data_room !== false,
+      prompt_template: promptTemplate ?? '',
+    });
+  });
+
+  const description = optionalText(source.description);
+  return {
+    file: {
+      format_version: BLUEPRINT_FILE_VERSION,
+      blueprint: {
+        name: name ?? '',
+        ...(description ? { description } : {}),
+        sections,
+        artifact_generators: generators,
+      },
+    },
+    errors,
+  };
+}
@@ -0,0 +1,144 @@
+import { describe, expect, it } from 'vitest';
+import { Field, SectionWithFields } from '@/features/blueprints/types/blueprint';
+import { lintBlueprint } from './blueprint-lint';
+
+function field(overrides: Partial<Field> & Pick<Field, 'id' | 'key'>): Field {
+  return {
+    section_id: 'sec-1',
+    type: 'ShortText',
+    label: overrides.key,
+    help_text: null,
+    placeholder: null,
+    required: false,
+    span: 1,
+    config: {},
+    visibility: null,
+    validation: null,
+    source_field_id: null,
+    order_index: 0,
+    created_at: '',
+    updated_at: '',
+    ...overrides,
+  };
+}
+
+function section(
+  overrides: Partial<SectionWithFields> & Pick<SectionWithFields, 'id' | 'key'>
+): SectionWithFields {
+  return {
+    blueprint_id: 'bp-1',
+    order_index: 0,
+    title: overrides.key,
+    description: null,
+    visibility: null,
+    source_section_id: null,
+    library_section_id: null,
+    created_at: '',
+    updated_at: '',
+    fields: [],
+    ...overrides,
+  };
+}
+
+function generator(prompt_template: string) {
+  return { id: 'gen-1', name: 'Summary', prompt_template };
+}
+
+describe('lintBlueprint', () => {
+  it('passes a blueprint whose generator uses its fields', () => {
+    const sections = [
+      section({
+        id: 'sec-1',
+        key: 'intro',
+        fields: [field({ id: 'f1', key: 'name', required: true })],
+      }),
+    ];
+
+    expect(lintBlueprint(sections, [generator('Hello {{name}}')])).toEqual([]);
+  });
+
+  it('requires sections and fields', () => {
+    expect(lintBlueprint([], []).map((f) => f.code)).toEqual(['NO_SECTIONS']);
+    expect(lintBlueprint([section({ id: 'sec-1', key: 'intro' })], []).map((f) => f.code)).toEqual([
+      'NO_FIELDS',
+      'EMPTY_SECTION',
+    ]);
+  });
+
+  it('reports keys used in more than one section', () => {
+    const sections = [
+      section({ id: 'sec-1', key: 'a', fields: [field({ id: 'f1', key: 'name' })] }),
+      section({
+        id: 'sec-2',
+        key: 'b',
+        fields: [field({ id: 'f2', key: 'name', section_id: 'sec-2' })],
+      }),
+    ];
+
+    expect(lintBlueprint(sections, [])).toEqual([
+      expect.objectContaining({ code: 'AMBIGUOUS_FIELD_KEY', severity: 'error', field_id: 'f1' }),
+    ]);
+  });
+
+  it('reports references to missing field keys', () => {
+    const sections = [
+      section({
+        id: 'sec-1',
+        key: 'intro',
+        visibility: { field_key: 'gone', operator: 'is_on' },
+        fields: [
+          field({ id: 'f1', key: 'start', type: 'Date' }),
+          field({ id: 'f2', key: 'end', type: 'Date', config: { after_field: 'begin' } }),
+          field({ id: 'f3', key: 'days', type: 'Computed', config: { expression: 'end - begin' } }),
+          field({
+            id: 'f4',
+            key: 'note',
+            visibility: { field_key: 'start', operator: 'not_empty' },
+          }),
+        ],
+      }),
+    ];
+
+    const findings = lintBlueprint(sections, []);
+
+    expect(findings.map((f) => [f.code, f.section_id ?? f.field_id])).toEqual([
+      ['MISSING_FIELD_REFERENCE', 'sec-1'],
+      ['MISSING_FIELD_REFERENCE', 'f2'],
+      ['MISSING_FIELD_REFERENCE', 'f3'],
+    ]);
+    expect(findings[1]!.message).toBe(
+      'Field key "begin" used by the date rule of field "end" does not exist'
+    );
+    expect(findings.every((f) => f.severity === 'error')).toBe(true);
+  });
+
+  it('reports empty templates and unknown tokens', () => {
+    const sections = [
+      section({ id: 'sec-1', key: 'intro', fields: [field({ id: 'f1', key: 'name' })] }),
+    ];
+
+    expect(lintBlueprint(sections, [generator('  ')]).map((f) => f.code)).toEqual([
+      'EMPTY_TEMPLATE',
+    ]);
+    expect(lintBlueprint(sections, [generator('{{nmae}}')]).map((f) => f.code)).toEqual([
+      'UNKNOWN_TOKEN',
+    ]);
+  });
+
+  it('warns about required fields no generator uses, after the errors', () => {
+    const sections = [
+      section({
+        id: 'sec-1',
+        key: 'intro',
+        fields: [field({ id: 'f1', key: 'name', required: true }), field({ id: 'f2', key: 'age' })],
+      }),
+    ];
+
+    expect(lintBlueprint(sections, [generator('{{age}} {{missing}}')]).map((f) => f.code)).toEqual([
+      'UNKNOWN_TOKEN',
+      'UNUSED_REQUIRED_FIELD',
+    ]);
+    expect(lintBlueprint(sections, [generator('{{section:intro}}')])).toEqual([]);
+    expect(lintBlueprint(sections, [generator('{{fields_json}}')])).toEqual([]);
+  });
+});
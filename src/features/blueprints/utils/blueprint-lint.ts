@@ -0,0 +1,157 @@
+/**
+ * Blueprint Lint Utility
+ *
+ * Checks a blueprint for problems before it is published. Errors would make
+ * generators fail, tokens ambiguous, or field references dangle, and block
+ * publishing; warnings are shown in the editor but don't block.
+ */
+
+import { LintFinding, SectionWithFields } from '@/features/blueprints/types/blueprint';
+import { BlueprintArtifactGenerator } from '@/features/blueprints/types/generator';
+import { TokenResolutionData } from '@/features/artifacts/types/tokens';
+import { parseTokens } from '@/features/artifacts/utils/token-parser';
+import { validateTokens } from '@/features/artifacts/utils/token-validator';
+import { describeFieldKeyReference, getFieldKeyReferences } from './key-references';
+
+/**
+ * Run every pre-publish check on a blueprint
+ *
+ * @param sections - Sections with their fields, in display order
+ * @param generators - Artifact generators, in display order
+ * @returns Findings, errors first
+ */
+export function lintBlueprint(
+  sections: SectionWithFields[],
+  generators: Pick<BlueprintArtifactGenerator, 'id' | 'name' | 'prompt_template'>[]
+): LintFinding[] {
+  const findings: LintFinding[] = [];
+  const fields = sections.flatMap((section) => section.fields);
+
+  if (sections.length === 0) {
+    findings.push({
+      severity: 'error',
+      code: 'NO_SECTIONS',
+      message: 'Blueprint must have at least one section',
+    });
+  } else if (fields.length === 0) {
+    findings.push({
+      severity: 'error',
+      code: 'NO_FIELDS',
+      message: 'Blueprint must have at least one field',
+    });
+  }
+
+  sections
+    .filter((section) => section.fields.length === 0)
+    .forEach((section) => {
+      findings.push({
+        severity: 'warning',
+        code: 'EMPTY_SECTION',
+        message: `Section "${section.title}" has no fields`,
+        section_id: section.id,
+      });
+    });
+
+  // Keys are only unique per section, but {{field_key}} tokens look across the blueprint
+  const sectionsByKey = new Map<string, string[]>();
+  sections.forEach((section) => {
+    section.fields.forEach((field) => {
+      sectionsByKey.set(field.key, [...(sectionsByKey.get(field.key) ?? []), section.title]);
+    });
+  });
+  sectionsByKey.forEach((titles, key) => {
+    if (titles.length < 2) return;
+    findings.push({
+      severity: 'error',
+      code: 'AMBIGUOUS_FIELD_KEY',
+      message: `Field key "${key}" is used in more than one section (${titles.join(', ')})`,
+      field_id: fields.find((f) => f.key === key)?.id,
+    });
+  });
+
+  // Sessions treat a missing key as an empty field, so dependents would stay
+  // hidden, computed values blank, and date rules unchecked
+  const fieldKeys = new Set(fields.map((field) => field.key));
+  getFieldKeyReferences(sections, fields)
+    .filter((reference) => !fieldKeys.has(reference.key))
+    .forEach((reference) => {
+      findings.push({
+        severity: 'error',
+        code: 'MISSING_FIELD_REFERENCE',
+        message: `Field key "${reference.key}" used by the ${describeFieldKeyReference(reference)} does not exist`,
+        section_id: reference.section_id,
+        field_id: reference.field_id,
+      });
+    });
+
+  const tokenData: TokenResolutionData = {
+    fields: sections.flatMap((section) =>
+      section.fields.map((field) => ({
+        ...field,
+        value: null,
+        sectionId: section.id,
+        sectionTitle: section.title,
+      }))
+    ),
+    sections,
+    notes: [],
+  };
+
+  const usedFieldKeys = new Set<string>();
+  let usesAllFields = false;
+
+  generators.forEach((generator) => {
+    if (generator.prompt_template.trim() === '') {
+      findings.push({
+        severity: 'error',
+        code: 'EMPTY_TEMPLATE',
+        message: `Generator "${generator.name}" has an empty prompt template`,
+        generator_id: generator.id,
+      });
+      return;
+    }
+
+    validateTokens(generator.prompt_template, tokenData).errors.forEach((error) => {
+      const suggestion = error.suggestions?.length
+        ? ` (did you mean ${error.suggestions.join(', ')}?)`
+        : '';
+      findings.push({
+        severity: 'error',
+        code: 'UNKNOWN_TOKEN',
+        message: `Generator "${generator.name}": ${error.message}${suggestion}`,
+        generator_id: generator.id,
+      });
+    });
+
+    parseTokens(generator.prompt_template).forEach((token) => {
+      if (token.type === 'field' || token.type === 'field_json') {
+        usedFieldKeys.add(token.key);
+      } else if (token.type === 'section') {
+        sections
+          .find((section) => section.key === token.key)
+          ?.fields.forEach((field) => usedFieldKeys.add(field.key));
+      } else if (token.type === 'fields_json') {
+        usesAllFields = true;
+      }
+    });
+  });
+
+  // Only meaningful once the blueprint has generators to use the fields
+  if (generators.length > 0 && !usesAllFields) {
+    fields
+      .filter((field) => field.required && !usedFieldKeys.has(field.key))
+      .forEach((field) => {
+        findings.push({
+          severity: 'warning',
+          code: 'UNUSED_REQUIRED_FIELD',
+          message: `Required field "${field.label}" is not used by any generator`,
+          field_id: field.id,
+        });
+      });
+  }
+
+  return [
+    ...findings.filter((f) => f.severity === 'error'),
+    ...findings.filter((f) => f.severity === 'warning'),
+  ];
+}
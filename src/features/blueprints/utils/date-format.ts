@@ -0,0 +1,34 @@
+/**
+ * Date Format Utility
+ *
+ * Date format presets that generators can choose for Date and DateRange tokens.
+ */
+
+import { DateFormat } from '@/features/blueprints/types/generator';
+
+/**
+ * All supported date formats, in the order they are offered in the editor
+ */
+export const DATE_FORMATS: DateFormat[] = ['iso', 'short', 'medium', 'long'];
+
+/**
+ * Human-readable date format names with an example
+ */
+export const DATE_FORMAT_LABELS: Record<DateFormat, string> = {
+  iso: 'ISO (2025-03-14)',
+  short: 'Short (3/14/25)',
+  medium: 'Medium (Mar 14, 2025)',
+  long: 'Long (March 14, 2025)',
+};
+
+/**
+ * Format used when a generator doesn't choose one
+ */
+export const DEFAULT_DATE_FORMAT: DateFormat = 'iso';
+
+/**
+ * Check whether a value is a supported date format
+ */
+export function isDateFormat(format: unknown): format is DateFormat {
+  return typeof format === 'string' && (DATE_FORMATS as string[]).includes(format);
+}
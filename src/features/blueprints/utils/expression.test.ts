@@ -0,0 +1,137 @@
+import { describe, expect, it } from 'vitest';
+import {
+  evaluateExpression,
+  ExpressionValue,
+  getExpressionReferences,
+  parseExpression,
+  renameExpressionField,
+  serializeExpressionValue,
+  validateExpressionReferences,
+} from './expression';
+
+function evaluate(source: string, values: Record<string, ExpressionValue> = {}): ExpressionValue {
+  const { ast, error } = parseExpression(source);
+  if (error !== null) throw new Error(error);
+  return evaluateExpression(ast, (key) => values[key] ?? null);
+}
+
+describe('parseExpression', () => {
+  it('respects operator precedence and parentheses', () => {
+    expect(evaluate('1 + 2 * 3')).toBe(7);
+    expect(evaluate('(1 + 2) * 3')).toBe(9);
+    expect(evaluate('-2 * -3')).toBe(6);
+  });
+
+  it('reports the first problem with its position', () => {
+    expect(parseExpression('').error).toBe('Expression cannot be empty');
+    expect(parseExpression('1 +').error).toBe('Expression ended unexpectedly');
+    expect(parseExpression('1 $ 2').error).toBe('Unexpected "$" at position 3');
+    expect(parseExpression("'open").error).toBe('Unterminated text starting at position 1');
+    expect(parseExpression('(1 + 2').error).toBe('Expected ")"');
+    expect(parseExpression('1 2').error).toBe('Unexpected "2" at position 3');
+  });
+
+  it('checks function names and argument counts', () => {
+    expect(parseExpression('eval(1)').error).toBe('Unknown function "eval"');
+    expect(parseExpression('days_between(a)').error).toBe('days_between() takes 2 arguments');
+    expect(parseExpression('round(1, 2, 3)').error).toBe('round() takes 1 to 2 arguments');
+    expect(parseExpression('sum()').error).toBe('sum() takes at least 1 arguments');
+  });
+
+  it('rejects expressions over the length limit', () => {
+    expect(parseExpression('1+'.repeat(600) + '1').error).toMatch(/at most 1000 characters/);
+  });
+});
+
+describe('getExpressionReferences', () => {
+  it('lists each referenced key once, in order', () => {
+    const { ast } = parseExpression('sum(b, a) + b * -c');
+    expect(getExpressionReferences(ast!)).toEqual(['b', 'a', 'c']);
+  });
+});
+
+describe('renameExpressionField', () => {
+  it('rewrites field references and keeps the text as written', () => {
+    expect(renameExpressionField('round(rate*2, 1) + rate_total / rate', 'rate', 'fee')).toEqual({
+      expression: 'round(fee*2, 1) + rate_total / fee',
+      count: 2,
+    });
+  });
+
+  it('leaves function names and text literals alone', () => {
+    expect(renameExpressionField("sum(sum, 'sum')", 'sum', 'total')).toEqual({
+      expression: "sum(total, 'sum')",
+      count: 1,
+    });
+  });
+
+  it('leaves expressions that do not tokenize unchanged', () => {
+    expect(renameExpressionField('rate $ 2', 'rate', 'fee')).toEqual({
+      expression: 'rate $ 2',
+      count: 0,
+    });
+  });
+});
+
+describe('validateExpressionReferences', () => {
+  const fields = [
+    { key: 'price', type: 'Number' as const, config: {} },
+    { key: 'tax', type: 'Computed' as const, config: { expression: 'total * 0.2' } },
+  ];
+
+  it('rejects self references and unknown keys', () => {
+    expect(validateExpressionReferences('total + 1', fields, 'total')).toBe(
+      'An expression cannot reference its own field'
+    );
+    expect(validateExpressionReferences('cost + 1', fields, 'total')).toBe(
+      'Expression field not found in blueprint: cost'
+    );
+  });
+
+  it('finds cycles through other Computed fields', () => {
+    expect(validateExpressionReferences('price + tax', fields, 'total')).toBe(
+      'Expression creates a cycle through tax'
+    );
+    expect(validateExpressionReferences('price * 2', fields, 'total')).toBeNull();
+  });
+});
+
+describe('evaluateExpression', () => {
+  it('leaves arithmetic empty when an input is empty', () => {
+    expect(evaluate('a + 1')).toBeNull();
+    expect(evaluate('a * 2', { a: '' })).toBeNull();
+    expect(evaluate('a / 0', { a: '4' })).toBeNull();
+  });
+
+  it('adds numeric text as numbers and joins other text', () => {
+    expect(evaluate('a + b', { a: '2', b: '3.5' })).toBe(5.5);
+    expect(evaluate("a + ' days'", { a: 3 })).toBe('3 days');
+    expect(evaluate("'x' + 0.1 + 0.2")).toBe('x0.10.2');
+  });
+
+  it('works with dates and date ranges', () => {
+    expect(evaluate('end - start', { start: '2024-01-30', end: '2024-03-01' })).toBe(31);
+    expect(evaluate('days_between(start(r), end(r))', { r: '2024-02-28/2024-03-01' })).toBe(2);
+    expect(evaluate('start(r)', { r: 'not a range' })).toBeNull();
+  });
+
+  it('runs the aggregate and text functions', () => {
+    const values = { a: '1', b: '', c: '4' };
+    expect(evaluate('sum(a, b, c)', values)).toBe(5);
+    expect(evaluate('min(a, b, c)', values)).toBe(1);
+    expect(evaluate('max(a, b, c)', values)).toBe(4);
+    expect(evaluate('sum(b)', values)).toBeNull();
+    expect(evaluate('round(2 / 3, 2)')).toBe(0.67);
+    expect(evaluate("concat(a, '-', c)", values)).toBe('1-4');
+    expect(evaluate("coalesce(b, c, 'none')", values)).toBe('4');
+  });
+});
+
+describe('serializeExpressionValue', () => {
+  it('trims floating point noise and stores empty as an empty string', () => {
+    expect(serializeExpressionValue(0.1 + 0.2)).toBe('0.3');
+    expect(serializeExpressionValue(null)).toBe('');
+    expect(serializeExpressionValue(Infinity)).toBe('');
+    expect(serializeExpressionValue('text')).toBe('text');
+  });
+});
@@ -0,0 +1,491 @@
+/**
+ * Expression Utility
+ *
+ * Parser and evaluator for Computed field expressions (fields.config.expression).
+ * Expressions are parsed into a small syntax tree and never run as code.
+ *
+ * Syntax:
+ * - Field references by key: participant_count, start_date
+ * - Number and string literals: 42, 1.5, 'text', "text"
+ * - Operators: + - * / and parentheses. + joins text when either side is text;
+ *   subtracting two dates gives the number of days between them.
+ * - Functions: days_between(from, to), start(range), end(range), round(x, digits),
+ *   sum(...), min(...), max(...), concat(...), coalesce(...)
+ *
+ * Empty inputs make arithmetic results empty rather than zero.
+ */
+
+import { Field } from '@/features/blueprints/types/blueprint';
+
+export type ExpressionValue = number | string | null;
+
+export type ExpressionFunction =
+  | 'days_between'
+  | 'start'
+  | 'end'
+  | 'round'
+  | 'sum'
+  | 'min'
+  | 'max'
+  | 'concat'
+  | 'coalesce';
+
+export type ExpressionNode =
+  | { kind: 'number'; value: number }
+  | { kind: 'string'; value: string }
+  | { kind: 'field'; key: string }
+  | { kind: 'negate'; operand: ExpressionNode }
+  | { kind: 'binary'; operator: '+' | '-' | '*' | '/'; left: ExpressionNode; right: ExpressionNode }
+  | { kind: 'call'; name: ExpressionFunction; args: ExpressionNode[] };
+
+/**
+ * Supported functions with their argument counts
+ */
+export const EXPRESSION_FUNCTIONS: Record<ExpressionFunction, { min: number; max: number }> = {
+  days_between: { min: 2, max: 2 },
+  start: { min: 1, max: 1 },
+  end: { min: 1, max: 1 },
+  round: { min: 1, max: 2 },
+  sum: { min: 1, max: Infinity },
+  min: { min: 1, max: Infinity },
+  max: { min: 1, max: Infinity },
+  concat: { min: 1, max: Infinity },
+  coalesce: { min: 1, max: Infinity },
+};
+
+/**
+ * Longest expression accepted
+ */
+export const MAX_EXPRESSION_LENGTH = 1000;
+
+type Token =
+  | { type: 'number'; value: number; position: number }
+  | { type: 'string'; value: string; position: number }
+  | { type: 'identifier'; value: string; position: number }
+  | { type: 'symbol'; value: '+' | '-' | '*' | '/' | '(' | ')' | ','; position: number };
+
+function isExpressionFunction(name: string): name is ExpressionFunction {
+  return Object.prototype.hasOwnProperty.call(EXPRESSION_FUNCTIONS, name);
+}
+
+/**
+ * Split an expression into tokens
+ */
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < source.length) {
+    const char = source.charAt(i);
+
+    if (/\s/.test(char)) {
+      i++;
+      continue;
+    }
+
+    if ('+-*/(),'.includes(char)) {
+      tokens.push({ type: 'symbol', value: char as '+', position: i });
+      i++;
+      continue;
+    }
+
+    const number = /^\d+(\.\d+)?/.exec(source.slice(i));
+    if (number) {
+      tokens.push({ type: 'number', value: Number(number[0]), position: i });
+      i += number[0].length;
+      continue;
+    }
+
+    const identifier = /^[a-z_][a-z0-9_]*/i.exec(source.slice(i));
+    if (identifier) {
+      tokens.push({ type: 'identifier', value: identifier[0], position: i });
+      i += identifier[0].length;
+      continue;
+    }
+
+    if (char === "'" || char === '"') {
+      const end = source.indexOf(char, i + 1);
+      if (end === -1) {
+        throw new Error(`Unterminated text starting at position ${i + 1}`);
+      }
+      tokens.push({ type: 'string', value: source.slice(i + 1, end), position: i });
+      i = end + 1;
+      continue;
+    }
+
+    throw new Error(`Unexpected "${char}" at position ${i + 1}`);
+  }
+
+  return tokens;
+}
+
+/**
+ * Recursive descent parser over the token list
+ */
+function parseTokens(tokens: Token[]): ExpressionNode {
+  let index = 0;
+
+  const peek = () => tokens[index];
+  const isSymbol = (value: string) => {
+    const token = peek();
+    return token?.type === 'symbol' && token.value === value;
+  };
+  const expectSymbol = (value: string) => {
+    const token = peek();
+    if (!isSymbol(value)) {
+      throw new Error(
+        token ? `Expected "${value}" at position ${token.position + 1}` : `Expected "${value}"`
+      );
+    }
+    index++;
+  };
+
+  function parseAdditive(): ExpressionNode {
+    let node = parseMultiplicative();
+    while (isSymbol('+') || isSymbol('-')) {
+      const operator = (peek() as { value: '+' | '-' }).value;
+      index++;
+      node = { kind: 'binary', operator, left: node, right: parseMultiplicative() };
+    }
+    return node;
+  }
+
+  function parseMultiplicative(): ExpressionNode {
+    let node = parseUnary();
+    while (isSymbol('*') || isSymbol('/')) {
+      const operator = (peek() as { value: '*' | '/' }).value;
+      index++;
+      node = { kind: 'binary', operator, left: node, right: parseUnary() };
+    }
+    return node;
+  }
+
+  function parseUnary(): ExpressionNode {
+    if (isSymbol('-')) {
+      index++;
+      return { kind: 'negate', operand: parseUnary() };
+    }
+    return parsePrimary();
+  }
+
+  function parsePrimary(): ExpressionNode {
+    const token = peek();
+    if (!token) {
+      throw new Error('Expression ended unexpectedly');
+    }
+    index++;
+
+    if (token.type === 'number') return { kind: 'number', value: token.value };
+    if (token.type === 'string') return { kind: 'string', value: token.value };
+
+    if (token.type === 'identifier') {
+      if (!isSymbol('(')) return { kind: 'field', key: token.value };
+
+      const name = token.value.toLowerCase();
+      if (!isExpressionFunction(name)) {
+        throw new Error(`Unknown function "${token.value}"`);
+      }
+
+      index++;
+      const args: ExpressionNode[] = [];
+      if (!isSymbol(')')) {
+        args.push(parseAdditive());
+        while (isSymbol(',')) {
+          index++;
+          args.push(parseAdditive());
+        }
+      }
+      expectSymbol(')');
+
+      const { min, max } = EXPRESSION_FUNCTIONS[name];
+      if (args.length < min || args.length > max) {
+        throw new Error(
+          min === max
+            ? `${name}() takes ${min} argument${min === 1 ? '' : 's'}`
+            : `${name}() takes ${max === Infinity ? `at least ${min}` : `${min} to ${max}`} arguments`
+        );
+      }
+      return { kind: 'call', name, args };
+    }
+
+    if (token.value === '(') {
+      const node = parseAdditive();
+      expectSymbol(')');
+      return node;
+    }
+
+    throw new Error(`Unexpected "${token.value}" at position ${token.position + 1}`);
+  }
+
+  const node = parseAdditive();
+  const trailing = peek();
+  if (trailing) {
+    throw new Error(`Unexpected "${trailing.value}" at position ${trailing.position + 1}`);
+  }
+  return node;
+}
+
+/**
+ * Parse an expression into a syntax tree
+ *
+ * @param source - Expression text
+ * @returns Syntax tree, or an error message describing the first problem
+ */
+export function parseExpression(
+  source: string
+): { ast: ExpressionNode; error: null } | { ast: null; error: string } {
+  if (source.trim() === '') {
+    return { ast: null, error: 'Expression cannot be empty' };
+  }
+  if (source.length > MAX_EXPRESSION_LENGTH) {
+    return {
+      ast: null,
+      error: `Expression must be at most ${MAX_EXPRESSION_LENGTH} characters`,
+    };
+  }
+
+  try {
+    return { ast: parseTokens(tokenize(source)), error: null };
+  } catch (error) {
+    return { ast: null, error: error instanceof Error ? error.message : 'Invalid expression' };
+  }
+}
+
+/**
+ * List the field keys an expression references (unique, in order of appearance)
+ */
+export function getExpressionReferences(node: ExpressionNode): string[] {
+  const keys: string[] = [];
+  const visit = (n: ExpressionNode) => {
+    if (n.kind === 'field' && !keys.includes(n.key)) keys.push(n.key);
+    if (n.kind === 'negate') visit(n.operand);
+    if (n.kind === 'binary') {
+      visit(n.left);
+      visit(n.right);
+    }
+    if (n.kind === 'call') n.args.forEach(visit);
+  };
+  visit(node);
+  return keys;
+}
+
+/**
+ * Rewrite every reference to a renamed field key, keeping the rest of the
+ * expression's text as written
+ *
+ * @param source - Expression text
+ * @param oldKey - Key before the rename
+ * @param newKey - Key after the rename
+ * @returns Rewritten expression and the number of references that changed
+ *   (unchanged when the expression doesn't tokenize)
+ */
+export function renameExpressionField(
+  source: string,
+  oldKey: string,
+  newKey: string
+): { expression: string; count: number } {
+  let tokens: Token[];
+  try {
+    tokens = tokenize(source);
+  } catch {
+    return { expression: source, count: 0 };
+  }
+
+  // Identifiers followed by "(" are function names, not field references
+  const matches = tokens.filter((token, index) => {
+    const next = tokens[index + 1];
+    return (
+      token.type === 'identifier' &&
+      token.value === oldKey &&
+      !(next?.type === 'symbol' && next.value === '(')
+    );
+  });
+
+  // Replace from the end so earlier positions stay valid
+  let expression = source;
+  [...matches].reverse().forEach((token) => {
+    expression =
+      expression.slice(0, token.position) +
+      newKey +
+      expression.slice(token.position + oldKey.length);
+  });
+
+  return { expression, count: matches.length };
+}
+
+/**
+ * Check that an expression only references other fields in the blueprint and
+ * doesn't depend on itself through other Computed fields
+ *
+ * @param expression - Expression of the field being configured (already parsed once)
+ * @param fields - Fields in the blueprint (the field being configured may be included)
+ * @param selfKey - Key of the field being configured
+ * @returns Error message, or null if the references are valid
+ */
+export function validateExpressionReferences(
+  expression: string,
+  fields: Pick<Field, 'key' | 'type' | 'config'>[],
+  selfKey: string
+): string | null {
+  const { ast, error } = parseExpression(expression);
+  if (error !== null) return error;
+
+  const references = getExpressionReferences(ast);
+  if (references.includes(selfKey)) {
+    return 'An expression cannot reference its own field';
+  }
+
+  const others = new Map(fields.filter((f) => f.key !== selfKey).map((f) => [f.key, f]));
+  const missing = references.find((key) => !others.has(key));
+  if (missing) {
+    return `Expression field not found in blueprint: ${missing}`;
+  }
+
+  // Walk other Computed fields this one depends on, looking for a path back to it
+  const visited = new Set<string>();
+  const pending = [...references];
+  while (pending.length > 0) {
+    const key = pending.pop() as string;
+    if (visited.has(key)) continue;
+    visited.add(key);
+
+    const field = others.get(key);
+    if (field?.type !== 'Computed' || !field.config?.expression) continue;
+
+    const parsed = parseExpression(field.config.expression);
+    if (parsed.ast === null) continue;
+
+    const next = getExpressionReferences(parsed.ast);
+    if (next.includes(selfKey)) {
+      return `Expression creates a cycle through ${key}`;
+    }
+    pending.push(...next);
+  }
+
+  return null;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function toNumber(value: ExpressionValue): number | null {
+  if (value === null || value === '') return null;
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+  return /^-?\d+(\.\d+)?$/.test(value.trim()) ? Number(value) : null;
+}
+
+function toText(value: ExpressionValue): string {
+  if (value === null) return '';
+  return typeof value === 'number' ? formatNumber(value) : value;
+}
+
+function toDate(value: ExpressionValue): number | null {
+  if (typeof value !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(value)) return null;
+  const time = Date.parse(`${value}T00:00:00Z`);
+  return Number.isNaN(time) ? null : time;
+}
+
+function formatNumber(value: number): string {
+  // Trim floating point noise (0.1 + 0.2) without switching to exponent notation
+  return String(Number(value.toFixed(10)));
+}
+
+function rangePart(value: ExpressionValue, part: 0 | 1): ExpressionValue {
+  if (typeof value !== 'string') return null;
+  const parts = value.split('/');
+  return parts.length === 2 ? (parts[part] ?? null) || null : null;
+}
+
+/**
+ * Evaluate a syntax tree
+ *
+ * @param node - Parsed expression
+ * @param resolve - Looks up a referenced field's value (null when empty)
+ * @returns Result value (null when an input is missing or the math is undefined)
+ */
+export function evaluateExpression(
+  node: ExpressionNode,
+  resolve: (key: string) => ExpressionValue
+): ExpressionValue {
+  const evaluate = (n: ExpressionNode) => evaluateExpression(n, resolve);
+
+  switch (node.kind) {
+    case 'number':
+    case 'string':
+      return node.value;
+    case 'field':
+      return resolve(node.key);
+    case 'negate': {
+      const value = toNumber(evaluate(node.operand));
+      return value === null ? null : -value;
+    }
+    case 'binary': {
+      const left = evaluate(node.left);
+      const right = evaluate(node.right);
+
+      if (node.operator === '-') {
+        const from = toDate(right);
+        const to = toDate(left);
+        if (from !== null && to !== null) return Math.round((to - from) / DAY_MS);
+      }
+
+      if (node.operator === '+' && (typeof left === 'string' || typeof right === 'string')) {
+        const a = toNumber(left);
+        const b = toNumber(right);
+        if (a === null || b === null) return toText(left) + toText(right);
+        return a + b;
+      }
+
+      const a = toNumber(left);
+      const b = toNumber(right);
+      if (a === null || b === null) return null;
+      if (node.operator === '+') return a + b;
+      if (node.operator === '-') return a - b;
+      if (node.operator === '*') return a * b;
+      return b === 0 ? null : a / b;
+    }
+    case 'call': {
+      const args = node.args.map(evaluate);
+      const numbers = args.map(toNumber).filter((n): n is number => n !== null);
+
+      switch (node.name) {
+        case 'days_between': {
+          const from = toDate(args[0] ?? null);
+          const to = toDate(args[1] ?? null);
+          return from === null || to === null ? null : Math.round((to - from) / DAY_MS);
+        }
+        case 'start':
+          return rangePart(args[0] ?? null, 0);
+        case 'end':
+          return rangePart(args[0] ?? null, 1);
+        case 'round': {
+          const value = toNumber(args[0] ?? null);
+          const digits = toNumber(args[1] ?? 0) ?? 0;
+          if (value === null) return null;
+          const factor = 10 ** Math.max(0, Math.min(10, Math.trunc(digits)));
+          return Math.round(value * factor) / factor;
+        }
+        case 'sum':
+          return numbers.length > 0 ? numbers.reduce((total, n) => total + n, 0) : null;
+        case 'min':
+          return numbers.length > 0 ? Math.min(...numbers) : null;
+        case 'max':
+          return numbers.length > 0 ? Math.max(...numbers) : null;
+        case 'concat':
+          return args.map(toText).join('');
+        case 'coalesce':
+          return args.find((value) => value !== null && value !== '') ?? null;
+        default:
+          return null;
+      }
+    }
+  }
+}
+
+/**
+ * Convert an evaluation result to its stored text form ('' when empty)
+ */
+export function serializeExpressionValue(value: ExpressionValue): string {
+  if (value === null) return '';
+  if (typeof value === 'number') return Number.isFinite(value) ? formatNumber(value) : '';
+  return value;
+}
@@ -0,0 +1,277 @@
+/**
+ * Field Config Utility
+ *
+ * Field type catalog and validation for type-specific field settings (fields.config).
+ */
+
+import {
+  FieldConfig,
+  FieldOption,
+  FieldType,
+  SubField,
+  SubFieldType,
+} from '@/features/blueprints/types/blueprint';
+import { generateKey } from '@/lib/utils/generate-key';
+import { parseExpression } from './expression';
+
+/**
+ * All supported field types, in the order they are offered in the editor
+ */
+export const FIELD_TYPES: FieldType[] = [
+  'ShortText',
+  'LongText',
+  'Toggle',
+  'Select',
+  'MultiSelect',
+  'Number',
+  'Currency',
+  'Date',
+  'DateRange',
+  'RepeatableGroup',
+  'Computed',
+];
+
+/**
+ * Human-readable field type names for the blueprint editor
+ */
+export const FIELD_TYPE_LABELS: Record<FieldType, string> = {
+  ShortText: 'Short Text',
+  LongText: 'Long Text',
+  Toggle: 'Toggle',
+  Select: 'Single Select',
+  MultiSelect: 'Multi Select',
+  Number: 'Number',
+  Currency: 'Currency',
+  Date: 'Date',
+  DateRange: 'Date Range',
+  RepeatableGroup: 'Repeatable Group',
+  Computed: 'Computed',
+};
+
+/**
+ * Field types allowed as RepeatableGroup columns
+ */
+export const SUB_FIELD_TYPES: SubFieldType[] = [
+  'ShortText',
+  'LongText',
+  'Number',
+  'Date',
+  'Toggle',
+];
+
+/**
+ * Currency used when a Currency field doesn't specify one
+ */
+export const DEFAULT_CURRENCY = 'USD';
+
+/**
+ * Check whether a value is a supported field type
+ */
+export function isFieldType(type: unknown): type is FieldType {
+  return typeof type === 'string' && (FIELD_TYPES as string[]).includes(type);
+}
+
+/**
+ * Check whether a field type uses a managed option list
+ */
+export function hasOptions(type: FieldType): boolean {
+  return type === 'Select' || type === 'MultiSelect';
+}
+
+/**
+ * Check whether a field type stores a numeric value
+ */
+export function isNumericType(type: FieldType): boolean {
+  return type === 'Number' || type === 'Currency';
+}
+
+/**
+ * Check whether a field type stores ISO dates
+ */
+export function isDateType(type: FieldType): boolean {
+  return type === 'Date' || type === 'DateRange';
+}
+
+/**
+ * Check whether a field type stores a table of rows
+ */
+export function isGroupType(type: FieldType): boolean {
+  return type === 'RepeatableGroup';
+}
+
+/**
+ * Check whether a field type is derived from other fields instead of entered
+ */
+export function isComputedType(type: FieldType): boolean {
+  return type === 'Computed';
+}
+
+/**
+ * Check whether a string is a valid ISO 4217 currency code supported by Intl
+ */
+export function isValidCurrencyCode(code: string): boolean {
+  if (!/^[A-Z]{3}$/.test(code)) return false;
+  try {
+    new Intl.NumberFormat('en-US', { style: 'currency', currency: code });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Normalize an option list: trim labels, derive missing values from labels
+ *
+ * @param options - Raw options from the editor or API request
+ * @returns Options with non-empty labels and values
+ */
+export function normalizeOptions(options: FieldOption[]): FieldOption[] {
+  return options
+    .filter((option) => option && typeof option.label === 'string' && option.label.trim() !== '')
+    .map((option) => {
+      const label = option.label.trim();
+      const value =
+        typeof option.value === 'string' && option.value.trim() !== ''
+          ? option.value.trim()
+          : generateKey(label);
+      return { value, label };
+    });
+}
+
+/**
+ * Normalize RepeatableGroup columns: trim labels, derive missing keys from labels
+ *
+ * @param subFields - Raw columns from the editor or API request
+ * @returns Columns with non-empty labels and keys
+ */
+export function normalizeSubFields(subFields: SubField[]): SubField[] {
+  return subFields
+    .filter((sub) => sub && typeof sub.label === 'string' && sub.label.trim() !== '')
+    .map((sub) => {
+      const label = sub.label.trim();
+      const key =
+        typeof sub.key === 'string' && sub.key.trim() !== '' ? sub.key.trim() : generateKey(label);
+      return { key, label, type: sub.type };
+    });
+}
+
+/**
+ * Validate and normalize the config for a field type
+ *
+ * Settings that don't apply to the type are dropped.
+ *
+ * @param type - Field type the config belongs to
+ * @param config - Raw config from the API request
+ * @returns Normalized config, or an error message when the config is invalid
+ */
+export function parseFieldConfig(
+  type: FieldType,
+  config: unknown
+): { config: FieldConfig; error: null } | { config: null; error: string } {
+  const raw = (config && typeof config === 'object' ? config : {}) as FieldConfig;
+  const normalized: FieldConfig = {};
+
+  if (hasOptions(type)) {
+    if (!Array.isArray(raw.options)) {
+      return { config: null, error: `${type} fields require an options list` };
+    }
+
+    const options = normalizeOptions(raw.options);
+    if (options.length === 0) {
+      return { config: null, error: `${type} fields require at least one option` };
+    }
+
+    const values = new Set(options.map((o) => o.value));
+    if (values.size !== options.length) {
+      return { config: null, error: 'Option values must be unique' };
+    }
+
+    normalized.options = options;
+  }
+
+  if (isNumericType(type)) {
+    for (const key of ['min', 'max', 'step'] as const) {
+      const value = raw[key];
+      if (value === undefined || value === null || (value as unknown) === '') continue;
+      if (typeof value !== 'number' || !Number.isFinite(value)) {
+        return { config: null, error: `${key} must be a number` };
+      }
+      normalized[key] = value;
+    }
+
+    if (
+      normalized.min !== undefined &&
+      normalized.max !== undefined &&
+      normalized.min > normalized.max
+    ) {
+      return { config: null, error: 'min cannot be greater than max' };
+    }
+
+    if (normalized.step !== undefined && normalized.step <= 0) {
+      return { config: null, error: 'step must be greater than 0' };
+    }
+
+    if (type === 'Number' && typeof raw.unit === 'string' && raw.unit.trim() !== '') {
+      normalized.unit = raw.unit.trim();
+    }
+
+    if (type === 'Currency') {
+      const currency =
+        typeof raw.currency === 'string' && raw.currency.trim() !== ''
+          ? raw.currency.trim().toUpperCase()
+          : DEFAULT_CURRENCY;
+      if (!isValidCurrencyCode(currency)) {
+        return { config: null, error: `Unknown currency code: ${currency}` };
+      }
+      normalized.currency = currency;
+    }
+  }
+
+  if (isGroupType(type)) {
+    if (!Array.isArray(raw.sub_fields)) {
+      return { config: null, error: `${type} fields require a sub_fields list` };
+    }
+
+    const subFields = normalizeSubFields(raw.sub_fields);
+    if (subFields.length === 0) {
+      return { config: null, error: `${type} fields require at least one sub-field` };
+    }
+
+    const invalid = subFields.find((sub) => !SUB_FIELD_TYPES.includes(sub.type));
+    if (invalid) {
+      return {
+        config: null,
+        error: `Sub-field type must be one of: ${SUB_FIELD_TYPES.join(', ')}`,
+      };
+    }
+
+    const keys = new Set(subFields.map((sub) => sub.key));
+    if (keys.size !== subFields.length) {
+      return { config: null, error: 'Sub-field keys must be unique' };
+    }
+
+    normalized.sub_fields = subFields;
+  }
+
+  if (isDateType(type) && typeof raw.after_field === 'string' && raw.after_field.trim() !== '') {
+    // Whether the key names a date field in the same blueprint is checked by the caller
+    normalized.after_field = raw.after_field.trim();
+  }
+
+  if (isComputedType(type)) {
+    const expression = typeof raw.expression === 'string' ? raw.expression.trim() : '';
+    if (!expression) {
+      return { config: null, error: `${type} fields require an expression` };
+    }
+
+    // Whether referenced keys exist and form no cycles is checked by the caller
+    const { error } = parseExpression(expression);
+    if (error) {
+      return { config: null, error: `Invalid expression: ${error}` };
+    }
+
+    normalized.expression = expression;
+  }
+
+  return { config: normalized, error: null };
+}
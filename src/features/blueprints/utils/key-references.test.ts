@@ -0,0 +1,118 @@
+import { describe, expect, it } from 'vitest';
+import {
+  describeFieldKeyReference,
+  getFieldKeyReferences,
+  renameConditionKey,
+  renameConfigKey,
+  renameFieldKeyInSections,
+} from './key-references';
+import { SectionWithFields } from '@/features/blueprints/types/blueprint';
+
+describe('getFieldKeyReferences', () => {
+  it('finds visibility, expression, and date rule references', () => {
+    const references = getFieldKeyReferences(
+      [
+        {
+          id: 'sec-1',
+          title: 'Budget',
+          visibility: { field_key: 'has_budget', operator: 'is_on' },
+        },
+      ],
+      [
+        {
+          id: 'f1',
+          label: 'Total',
+          config: { expression: 'round(amount * rate, 2) + amount' },
+          visibility: null,
+        },
+        {
+          id: 'f2',
+          label: 'End',
+          config: { after_field: 'start' },
+          visibility: { field_key: 'has_dates', operator: 'is_on' },
+        },
+      ]
+    );
+
+    expect(references).toEqual([
+      { key: 'has_budget', kind: 'visibility', section_id: 'sec-1', label: 'Budget' },
+      { key: 'amount', kind: 'expression', field_id: 'f1', label: 'Total' },
+      { key: 'rate', kind: 'expression', field_id: 'f1', label: 'Total' },
+      { key: 'has_dates', kind: 'visibility', field_id: 'f2', label: 'End' },
+      { key: 'start', kind: 'after_field', field_id: 'f2', label: 'End' },
+    ]);
+  });
+
+  it('ignores expressions that do not parse', () => {
+    expect(
+      getFieldKeyReferences(
+        [],
+        [{ id: 'f1', label: 'Broken', config: { expression: 'amount +' }, visibility: null }]
+      )
+    ).toEqual([]);
+  });
+});
+
+describe('describeFieldKeyReference', () => {
+  it('names the owner and the kind of reference', () => {
+    expect(
+      describeFieldKeyReference({ key: 'a', kind: 'after_field', field_id: 'f1', label: 'End' })
+    ).toBe('date rule of field "End"');
+    expect(
+      describeFieldKeyReference({ key: 'a', kind: 'visibility', section_id: 's1', label: 'Budget' })
+    ).toBe('visibility rule of section "Budget"');
+  });
+});
+
+describe('renameConditionKey', () => {
+  it('renames only conditions on the old key', () => {
+    const condition = { field_key: 'plan', operator: 'equals' as const, value: 'pro' };
+    expect(renameConditionKey(condition, 'plan', 'tier')).toEqual({
+      ...condition,
+      field_key: 'tier',
+    });
+    expect(renameConditionKey(condition, 'other', 'tier')).toBe(condition);
+    expect(renameConditionKey(null, 'plan', 'tier')).toBeNull();
+  });
+});
+
+describe('renameConfigKey', () => {
+  it('renames expression references and date rules', () => {
+    expect(renameConfigKey({ expression: 'end - start' }, 'start', 'kickoff')).toEqual({
+      config: { expression: 'end - kickoff' },
+      count: 1,
+    });
+    expect(renameConfigKey({ after_field: 'start' }, 'start', 'kickoff')).toEqual({
+      config: { after_field: 'kickoff' },
+      count: 1,
+    });
+    expect(renameConfigKey({ min: 1 }, 'start', 'kickoff')).toEqual({
+      config: { min: 1 },
+      count: 0,
+    });
+  });
+});
+
+describe('renameFieldKeyInSections', () => {
+  const sections = [
+    {
+      id: 'sec-1',
+      visibility: { field_key: 'plan', operator: 'not_empty' },
+      fields: [
+        { id: 'f1', key: 'tier', config: {}, visibility: null },
+        { id: 'f2', key: 'price', config: { expression: 'plan + 1' }, visibility: null },
+      ],
+    },
+  ] as unknown as SectionWithFields[];
+
+  it('renames the references of every section and field', () => {
+    const [section] = renameFieldKeyInSections(sections, 'plan', 'tier');
+
+    expect(section!.visibility?.field_key).toBe('tier');
+    expect(section!.fields[1]!.config.expression).toBe('tier + 1');
+  });
+
+  it('keeps references while another field still has the old key', () => {
+    expect(renameFieldKeyInSections(sections, 'price', 'cost')).toBe(sections);
+  });
+});
@@ -0,0 +1,151 @@
+/**
+ * Field Key Reference Utility
+ *
+ * Fields and sections refer to other fields by key in visibility conditions,
+ * Computed expressions (config.expression), and date rules (config.after_field).
+ * Sessions treat a reference to a missing key as an empty controller, so these
+ * are found before a field is deleted, and rewritten when its key is renamed,
+ * rather than left to fail silently.
+ */
+
+import {
+  Field,
+  FieldConfig,
+  FieldKeyReference,
+  FieldKeyReferenceKind,
+  Section,
+  SectionWithFields,
+  VisibilityCondition,
+} from '@/features/blueprints/types/blueprint';
+import { getExpressionReferences, parseExpression, renameExpressionField } from './expression';
+
+export type ReferencingField = Pick<Field, 'id' | 'label' | 'config' | 'visibility'>;
+
+export type ReferencingSection = Pick<Section, 'id' | 'title' | 'visibility'>;
+
+/**
+ * Human-readable reference kinds for messages
+ */
+export const FIELD_KEY_REFERENCE_LABELS: Record<FieldKeyReferenceKind, string> = {
+  visibility: 'visibility rule',
+  expression: 'expression',
+  after_field: 'date rule',
+};
+
+/**
+ * List every reference to a field key held by the given sections and fields
+ *
+ * Expressions that don't parse have no references.
+ *
+ * @param sections - Sections whose visibility conditions to check
+ * @param fields - Fields whose visibility conditions and config to check
+ * @returns References, sections first, each field's in kind order
+ */
+export function getFieldKeyReferences(
+  sections: ReferencingSection[],
+  fields: ReferencingField[]
+): FieldKeyReference[] {
+  const references: FieldKeyReference[] = [];
+
+  sections.forEach((section) => {
+    if (section.visibility) {
+      references.push({
+        key: section.visibility.field_key,
+        kind: 'visibility',
+        section_id: section.id,
+        label: section.title,
+      });
+    }
+  });
+
+  fields.forEach((field) => {
+    const add = (key: string, kind: FieldKeyReferenceKind) =>
+      references.push({ key, kind, field_id: field.id, label: field.label });
+
+    if (field.visibility) add(field.visibility.field_key, 'visibility');
+
+    if (field.config?.expression) {
+      const { ast } = parseExpression(field.config.expression);
+      if (ast) getExpressionReferences(ast).forEach((key) => add(key, 'expression'));
+    }
+
+    if (field.config?.after_field) add(field.config.after_field, 'after_field');
+  });
+
+  return references;
+}
+
+/**
+ * Describe a reference for a message, e.g. visibility rule of section "Budget"
+ */
+export function describeFieldKeyReference(reference: FieldKeyReference): string {
+  const owner = reference.section_id ? 'section' : 'field';
+  return `${FIELD_KEY_REFERENCE_LABELS[reference.kind]} of ${owner} "${reference.label}"`;
+}
+
+/**
+ * Point a visibility condition at a renamed field key
+ *
+ * @returns The renamed condition, or the same condition when it refers to another key
+ */
+export function renameConditionKey(
+  condition: VisibilityCondition | null,
+  oldKey: string,
+  newKey: string
+): VisibilityCondition | null {
+  return condition?.field_key === oldKey ? { ...condition, field_key: newKey } : condition;
+}
+
+/**
+ * Point a field config's expression and date rule at a renamed field key
+ *
+ * @returns The renamed config and how many references changed
+ */
+export function renameConfigKey(
+  config: FieldConfig,
+  oldKey: string,
+  newKey: string
+): { config: FieldConfig; count: number } {
+  const renamed = { ...config };
+  let count = 0;
+
+  if (config.expression) {
+    const result = renameExpressionField(config.expression, oldKey, newKey);
+    renamed.expression = result.expression;
+    count += result.count;
+  }
+
+  if (config.after_field === oldKey) {
+    renamed.after_field = newKey;
+    count++;
+  }
+
+  return { config: renamed, count };
+}
+
+/**
+ * Apply a field key rename to the references in a loaded blueprint, as the
+ * server does when saving it (see lib/blueprints/key-rename.ts)
+ *
+ * @param sections - Sections with their fields, the renamed field already holding the new key
+ * @returns Sections with renamed references (unchanged while another field has the old key)
+ */
+export function renameFieldKeyInSections(
+  sections: SectionWithFields[],
+  oldKey: string,
+  newKey: string
+): SectionWithFields[] {
+  if (sections.some((section) => section.fields.some((field) => field.key === oldKey))) {
+    return sections;
+  }
+
+  return sections.map((section) => ({
+    ...section,
+    visibility: renameConditionKey(section.visibility, oldKey, newKey),
+    fields: section.fields.map((field) => ({
+      ...field,
+      visibility: renameConditionKey(field.visibility, oldKey, newKey),
+      config: renameConfigKey(field.config, oldKey, newKey).config,
+    })),
+  }));
+}
@@ -0,0 +1,137 @@
+import { describe, expect, it } from 'vitest';
+import { Field, SectionWithFields } from '@/features/blueprints/types/blueprint';
+import { getLibrarySyncConflicts, toLibraryFields } from './section-library';
+
+function field(overrides: Partial<Field> & Pick<Field, 'id' | 'key'>): Field {
+  return {
+    section_id: 'sec-1',
+    type: 'ShortText',
+    label: overrides.key,
+    help_text: null,
+    placeholder: null,
+    required: false,
+    span: 1,
+    config: {},
+    visibility: null,
+    validation: null,
+    source_field_id: null,
+    order_index: 0,
+    created_at: '',
+    updated_at: '',
+    ...overrides,
+  };
+}
+
+function section(
+  overrides: Partial<SectionWithFields> & Pick<SectionWithFields, 'id' | 'key'>
+): SectionWithFields {
+  return {
+    blueprint_id: 'bp-1',
+    order_index: 0,
+    title: overrides.key,
+    description: null,
+    visibility: null,
+    source_section_id: null,
+    library_section_id: null,
+    created_at: '',
+    updated_at: '',
+    fields: [],
+    ...overrides,
+  };
+}
+
+describe('toLibraryFields', () => {
+  it('reports fields that depend on other sections', () => {
+    const { fields, errors } = toLibraryFields(
+      section({
+        id: 'sec-1',
+        key: 'costs',
+        fields: [
+          field({ id: 'f1', key: 'amount', type: 'Number' }),
+          field({
+            id: 'f2',
+            key: 'total',
+            type: 'Computed',
+            config: { expression: 'amount * rate' },
+          }),
+        ],
+      })
+    );
+
+    expect(fields.map((f) => f.key)).toEqual(['amount', 'total']);
+    expect(errors).toEqual(['Field "total" depends on "rate" outside this section']);
+  });
+});
+
+describe('getLibrarySyncConflicts', () => {
+  const copy = section({
+    id: 'sec-1',
+    key: 'contact',
+    fields: [field({ id: 'f1', key: 'email' }), field({ id: 'f2', key: 'phone' })],
+  });
+
+  it('allows updates that keep every used key', () => {
+    const other = section({
+      id: 'sec-2',
+      key: 'follow_up',
+      fields: [
+        field({
+          id: 'f3',
+          key: 'call',
+          section_id: 'sec-2',
+          visibility: { field_key: 'phone', operator: 'not_empty' },
+        }),
+      ],
+    });
+
+    expect(
+      getLibrarySyncConflicts(
+        ['email', 'phone', 'fax'],
+        copy,
+        [other],
+        [{ name: 'Summary', prompt_template: '{{email}} {{phone}}' }]
+      )
+    ).toEqual([]);
+  });
+
+  it('reports added keys taken by another section', () => {
+    const other = section({
+      id: 'sec-2',
+      key: 'company',
+      title: 'Company',
+      fields: [field({ id: 'f3', key: 'website', section_id: 'sec-2' })],
+    });
+
+    expect(getLibrarySyncConflicts(['email', 'phone', 'website'], copy, [other], [])).toEqual([
+      'Field key "website" is already used in section "Company"',
+    ]);
+  });
+
+  it('reports removed fields used by generators and rules', () => {
+    const other = section({
+      id: 'sec-2',
+      key: 'follow_up',
+      fields: [
+        field({
+          id: 'f3',
+          key: 'call',
+          label: 'Call',
+          section_id: 'sec-2',
+          visibility: { field_key: 'phone', operator: 'not_empty' },
+        }),
+      ],
+    });
+
+    expect(
+      getLibrarySyncConflicts(
+        ['email'],
+        copy,
+        [other],
+        [{ name: 'Summary', prompt_template: '{{field:phone}} {{phone}}' }]
+      )
+    ).toEqual([
+      'Removed field "phone" is used by generator "Summary"',
+      'Removed field "phone" is used by the visibility rule of field "Call"',
+    ]);
+  });
+});
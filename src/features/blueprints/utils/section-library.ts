@@ -0,0 +1,127 @@
+/**
+ * Section Library Utility
+ *
+ * Converts blueprint sections to library sections. A library section has to
+ * work in any blueprint, so its fields may only depend on each other, and
+ * pushing an update must not break the other blueprints its copies are in.
+ */
+
+import { BlueprintFileField, SectionWithFields } from '@/features/blueprints/types/blueprint';
+import { BlueprintArtifactGenerator } from '@/features/blueprints/types/generator';
+import { parseTokens } from '@/features/artifacts/utils/token-parser';
+import { getExpressionReferences, parseExpression } from './expression';
+import { serializeField } from './blueprint-file';
+import { describeFieldKeyReference, getFieldKeyReferences } from './key-references';
+
+/**
+ * Serialize a section's fields for the library
+ *
+ * The section's own visibility rule is left out since it points at fields in
+ * other sections of its blueprint.
+ *
+ * @param section - Section with its fields, in display order
+ * @returns Field definitions and a message for each field that depends on another section
+ */
+export function toLibraryFields(section: SectionWithFields): {
+  fields: BlueprintFileField[];
+  errors: string[];
+} {
+  const keys = new Set(section.fields.map((field) => field.key));
+  const errors: string[] = [];
+
+  section.fields.forEach((field) => {
+    const outside = new Set<string>();
+
+    if (field.visibility && !keys.has(field.visibility.field_key)) {
+      outside.add(field.visibility.field_key);
+    }
+    if (field.config.after_field && !keys.has(field.config.after_field)) {
+      outside.add(field.config.after_field);
+    }
+    if (field.config.expression) {
+      const { ast } = parseExpression(field.config.expression);
+      if (ast) {
+        getExpressionReferences(ast)
+          .filter((key) => !keys.has(key))
+          .forEach((key) => outside.add(key));
+      }
+    }
+
+    if (outside.size > 0) {
+      errors.push(
+        `Field "${field.label}" depends on ${Array.from(outside)
+          .map((key) => `"${key}"`)
+          .join(', ')} outside this section`
+      );
+    }
+  });
+
+  return { fields: section.fields.map(serializeField), errors };
+}
+
+/**
+ * Check what replacing a linked copy's fields with the library's would break
+ * in the copy's blueprint
+ *
+ * Added keys must be free in the blueprint's other sections, and removed keys
+ * must not be used by its generator templates, visibility rules, expressions,
+ * or date rules.
+ *
+ * @param keys - Field keys of the library section after the update
+ * @param copy - Linked copy with its current fields
+ * @param otherSections - The blueprint's other sections with their fields
+ * @param generators - The blueprint's generators
+ * @returns A message for each problem
+ */
+export function getLibrarySyncConflicts(
+  keys: string[],
+  copy: SectionWithFields,
+  otherSections: SectionWithFields[],
+  generators: Pick<BlueprintArtifactGenerator, 'name' | 'prompt_template'>[]
+): string[] {
+  const conflicts: string[] = [];
+  const copyKeys = new Set(copy.fields.map((field) => field.key));
+  const otherTitles = new Map<string, string>();
+  otherSections.forEach((section) =>
+    section.fields.forEach((field) => otherTitles.set(field.key, section.title))
+  );
+
+  keys
+    .filter((key) => !copyKeys.has(key) && otherTitles.has(key))
+    .forEach((key) => {
+      conflicts.push(`Field key "${key}" is already used in section "${otherTitles.get(key)}"`);
+    });
+
+  // A key another section still has keeps resolving there
+  const removed = new Set(
+    Array.from(copyKeys).filter((key) => !keys.includes(key) && !otherTitles.has(key))
+  );
+  if (removed.size === 0) return conflicts;
+
+  generators.forEach((generator) => {
+    const used = new Set(
+      parseTokens(generator.prompt_template)
+        .filter(
+          (token) =>
+            (token.type === 'field' || token.type === 'field_json') && removed.has(token.key)
+        )
+        .map((token) => token.key)
+    );
+    used.forEach((key) => {
+      conflicts.push(`Removed field "${key}" is used by generator "${generator.name}"`);
+    });
+  });
+
+  getFieldKeyReferences(
+    [copy, ...otherSections],
+    otherSections.flatMap((section) => section.fields)
+  )
+    .filter((reference) => removed.has(reference.key))
+    .forEach((reference) => {
+      conflicts.push(
+        `Removed field "${reference.key}" is used by the ${describeFieldKeyReference(reference)}`
+      );
+    });
+
+  return conflicts;
+}
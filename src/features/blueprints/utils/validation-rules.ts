@@ -0,0 +1,123 @@
+/**
+ * Validation Rule Utility
+ *
+ * Format catalog and validation for declarative field rules (fields.validation).
+ */
+
+import {
+  FieldType,
+  ValidationFormat,
+  ValidationRules,
+} from '@/features/blueprints/types/blueprint';
+
+/**
+ * All supported value formats, in the order they are offered in the editor
+ */
+export const VALIDATION_FORMATS: ValidationFormat[] = ['email', 'url', 'phone'];
+
+/**
+ * Human-readable format names for the blueprint editor
+ */
+export const VALIDATION_FORMAT_LABELS: Record<ValidationFormat, string> = {
+  email: 'Email address',
+  url: 'URL',
+  phone: 'Phone number',
+};
+
+/**
+ * Longest pattern accepted, to keep server-side matching cheap
+ */
+export const MAX_PATTERN_LENGTH = 500;
+
+/**
+ * Check whether a field type supports validation rules
+ */
+export function supportsValidationRules(type: FieldType): boolean {
+  return type === 'ShortText' || type === 'LongText';
+}
+
+/**
+ * Check whether a value is a supported format
+ */
+export function isValidationFormat(format: unknown): format is ValidationFormat {
+  return typeof format === 'string' && (VALIDATION_FORMATS as string[]).includes(format);
+}
+
+/**
+ * Parse and validate validation rules from an API request
+ *
+ * Rules are dropped for types that don't support them, and an empty rule set
+ * is stored as null.
+ *
+ * @param type - Field type the rules belong to
+ * @param rules - Raw rules from the API request
+ * @returns Normalized rules (or null), or an error message when the rules are invalid
+ */
+export function parseValidationRules(
+  type: FieldType,
+  rules: unknown
+): { rules: ValidationRules | null; error: null } | { rules: null; error: string } {
+  if (!supportsValidationRules(type) || rules === null || rules === undefined) {
+    return { rules: null, error: null };
+  }
+
+  if (typeof rules !== 'object' || Array.isArray(rules)) {
+    return { rules: null, error: 'Validation must be an object or null' };
+  }
+
+  const raw = rules as ValidationRules;
+  const normalized: ValidationRules = {};
+
+  if (typeof raw.pattern === 'string' && raw.pattern.trim() !== '') {
+    const pattern = raw.pattern.trim();
+    if (pattern.length > MAX_PATTERN_LENGTH) {
+      return {
+        rules: null,
+        error: `Pattern must be at most ${MAX_PATTERN_LENGTH} characters`,
+      };
+    }
+    try {
+      new RegExp(pattern);
+    } catch {
+      return { rules: null, error: 'Pattern is not a valid regular expression' };
+    }
+    normalized.pattern = pattern;
+  }
+
+  for (const key of ['min_length', 'max_length'] as const) {
+    const value = raw[key];
+    if (value === undefined || value === null || (value as unknown) === '') continue;
+    if (typeof value !== 'number' || !Number.isInteger(value) || value < 0) {
+      return { rules: null, error: `${key} must be a whole number of 0 or more` };
+    }
+    normalized[key] = value;
+  }
+
+  if (
+    normalized.min_length !== undefined &&
+    normalized.max_length !== undefined &&
+    normalized.min_length > normalized.max_length
+  ) {
+    return { rules: null, error: 'min_length cannot be greater than max_length' };
+  }
+
+  if (raw.format !== undefined && raw.format !== null && (raw.format as unknown) !== '') {
+    if (!isValidationFormat(raw.format)) {
+      return {
+        rules: null,
+        error: `Format must be one of: ${VALIDATION_FORMATS.join(', ')}`,
+      };
+    }
+    normalized.format = raw.format;
+  }
+
+  if (Object.keys(normalized).length === 0) {
+    return { rules: null, error: null };
+  }
+
+  if (typeof raw.message === 'string' && raw.message.trim() !== '') {
+    normalized.message = raw.message.trim();
+  }
+
+  return { rules: normalized, error: null };
+}
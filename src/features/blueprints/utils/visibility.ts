@@ -0,0 +1,119 @@
+/**
+ * Visibility Rule Utility
+ *
+ * Operator catalog and validation for field and section visibility conditions
+ * (fields.visibility and sections.visibility).
+ */
+
+import {
+  Field,
+  FieldType,
+  VisibilityCondition,
+  VisibilityOperator,
+} from '@/features/blueprints/types/blueprint';
+import { hasOptions } from './field-config';
+
+type ControllingField = Pick<Field, 'key' | 'type' | 'config'>;
+
+/**
+ * All supported visibility operators
+ */
+export const VISIBILITY_OPERATORS: VisibilityOperator[] = [
+  'equals',
+  'not_empty',
+  'is_on',
+  'is_off',
+];
+
+/**
+ * Human-readable operator names for the blueprint editor
+ */
+export const VISIBILITY_OPERATOR_LABELS: Record<VisibilityOperator, string> = {
+  equals: 'equals',
+  not_empty: 'is not empty',
+  is_on: 'is on',
+  is_off: 'is off',
+};
+
+/**
+ * Operators that make sense for a controlling field of the given type
+ */
+export function getVisibilityOperators(type: FieldType): VisibilityOperator[] {
+  if (type === 'Toggle') return ['is_on', 'is_off'];
+  if (type === 'RepeatableGroup') return ['not_empty'];
+  return ['equals', 'not_empty'];
+}
+
+/**
+ * Check whether a value is a supported visibility operator
+ */
+export function isVisibilityOperator(operator: unknown): operator is VisibilityOperator {
+  return typeof operator === 'string' && (VISIBILITY_OPERATORS as string[]).includes(operator);
+}
+
+/**
+ * Parse and validate a visibility condition from an API request
+ *
+ * @param condition - Raw condition (null or undefined clears it)
+ * @param fields - Fields in the blueprint that can control visibility
+ * @param selfKey - Key of the field being configured (a field can't control itself)
+ * @returns Normalized condition (null when cleared), or an error message when invalid
+ */
+export function parseVisibilityCondition(
+  condition: unknown,
+  fields: ControllingField[],
+  selfKey?: string
+): { condition: VisibilityCondition | null; error: null } | { condition: null; error: string } {
+  if (condition === null || condition === undefined) {
+    return { condition: null, error: null };
+  }
+
+  if (typeof condition !== 'object' || Array.isArray(condition)) {
+    return { condition: null, error: 'Visibility must be an object or null' };
+  }
+
+  const raw = condition as Partial<VisibilityCondition>;
+  const fieldKey = typeof raw.field_key === 'string' ? raw.field_key.trim() : '';
+  if (!fieldKey) {
+    return { condition: null, error: 'Visibility requires a field_key' };
+  }
+
+  if (fieldKey === selfKey) {
+    return { condition: null, error: 'A field cannot control its own visibility' };
+  }
+
+  const controller = fields.find((f) => f.key === fieldKey);
+  if (!controller) {
+    return { condition: null, error: `Visibility field not found in blueprint: ${fieldKey}` };
+  }
+
+  if (!isVisibilityOperator(raw.operator)) {
+    return {
+      condition: null,
+      error: `Visibility operator must be one of: ${VISIBILITY_OPERATORS.join(', ')}`,
+    };
+  }
+
+  const allowed = getVisibilityOperators(controller.type);
+  if (!allowed.includes(raw.operator)) {
+    return {
+      condition: null,
+      error: `Operator ${raw.operator} is not supported for ${controller.type} fields`,
+    };
+  }
+
+  if (raw.operator !== 'equals') {
+    return { condition: { field_key: fieldKey, operator: raw.operator }, error: null };
+  }
+
+  const value = typeof raw.value === 'string' ? raw.value.trim() : '';
+  if (!value) {
+    return { condition: null, error: 'Visibility value is required for equals' };
+  }
+
+  if (hasOptions(controller.type) && !controller.config?.options?.some((o) => o.value === value)) {
+    return { condition: null, error: `Visibility value is not an option of ${fieldKey}` };
+  }
+
+  return { condition: { field_key: fieldKey, operator: 'equals', value }, error: null };
+}
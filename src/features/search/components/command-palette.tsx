@@ -2,8 +2,10 @@
 
 import { useState, useEffect, useRef } from 'react';
 import { useRouter } from 'next/navigation';
+import { useSession } from 'next-auth/react';
 import { Command } from 'cmdk';
-import { Box, FileText, FileOutput } from 'lucide-react';
+import { Box, Copy, FileText, FileOutput } from 'lucide-react';
+import { DuplicateSessionDialog } from '@/features/sessions/components/duplicate-session-dialog';
 
 type SearchResult = {
   type: 'blueprint' | 'session' | 'artifact';
@@ -19,7 +21,10 @@ export function CommandPalette() {
   const [results, setResults] = useState<SearchResult[]>([]);
   const [loading, setLoading] = useState(false);
   const [selectedValue, setSelectedValue] = useState<string>('');
+  const [duplicateId, setDuplicateId] = useState<string | null>(null);
   const router = useRouter();
+  const { data: authSession } = useSession();
+  const canDuplicate = authSession?.user?.role === 'owner' || authSession?.user?.role === 'editor';
   const inputRef = useRef<HTMLInputElement>(null);
 
   // Cmd/Ctrl+K to open palette
@@ -94,7 +99,24 @@ export function CommandPalette() {
     return () => clearTimeout(timer);
   }, [search]);
 
-  if (!open) return null;
+  const duplicateDialog = (
+    <DuplicateSessionDialog
+      sessionId={duplicateId}
+      open={!!duplicateId}
+      onOpenChange={(dialogOpen) => {
+        if (!dialogOpen) setDuplicateId(null);
+      }}
+      onSessionDuplicated={(sessionId) => {
+        setDuplicateId(null);
+        router.refresh();
+        router.push(`/sessions/${sessionId}`);
+      }}
+    />
+  );
+
+  if (!open) return duplicateDialog;
+
+  const sessionResults = canDuplicate ? results.filter((result) => result.type === 'session') : [];
 
   return (
     <div className="fixed inset-0 z-50">
@@ -168,6 +190,27 @@ export function CommandPalette() {
                 </Command.Item>
               ))}
             </Command.Group>
+            {sessionResults.length > 0 && (
+              <Command.Group
+                heading="Actions"
+                className="mt-2 border-t pt-2 [&_[cmdk-group-heading]]:px-3 [&_[cmdk-group-heading]]:py-1 [&_[cmdk-group-heading]]:text-xs [&_[cmdk-group-heading]]:text-muted-foreground"
+              >
+                {sessionResults.map((result) => (
+                  <Command.Item
+                    key={`duplicate-${result.id}`}
+                    value={`duplicate-${result.id}-${result.title}`}
+                    onSelect={() => {
+                      setOpen(false);
+                      setDuplicateId(result.id);
+                    }}
+                    className="flex cursor-pointer items-center gap-3 rounded-md border-2 border-transparent px-3 py-2 aria-selected:border-primary aria-selected:bg-accent"
+                  >
+                    <Copy className="h-4 w-4" />
+                    <div className="flex-1 text-sm">Duplicate {result.title}</div>
+                  </Command.Item>
+                ))}
+              </Command.Group>
+            )}
           </Command.List>
           <div className="flex items-center justify-between border-t px-4 py-2 text-xs text-muted-foreground">
             <div className="flex gap-4">
@@ -184,6 +227,7 @@ export function CommandPalette() {
           </div>
         </Command>
       </div>
+      {duplicateDialog}
     </div>
   );
 }
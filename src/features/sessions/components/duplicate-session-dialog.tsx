@@ -0,0 +1,345 @@
+'use client';
+
+/**
+ * Duplicate Session Dialog
+ *
+ * Start a new session from an existing one, choosing which sections' values
+ * and notes carry over and whether sources and artifacts come along
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { Blueprint } from '@/features/blueprints/types/blueprint';
+import {
+  DuplicateSessionResult,
+  SectionWithProgress,
+  SessionWithSections,
+} from '@/features/sessions/types/session';
+
+interface DuplicateSessionDialogProps {
+  sessionId: string | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSessionDuplicated: (sessionId: string) => void;
+}
+
+function describeResult(result: DuplicateSessionResult): string {
+  const parts = [
+    `${result.copied_values} values`,
+    `${result.copied_notes} notes`,
+    result.copied_sources > 0 ? `${result.copied_sources} sources` : null,
+    result.copied_artifacts > 0 ? `${result.copied_artifacts} artifacts` : null,
+  ].filter(Boolean);
+  const skipped =
+    result.skipped_values > 0 ? `. ${result.skipped_values} values had no matching field.` : '';
+  return `Copied ${parts.join(', ')}${skipped}`;
+}
+
+export function DuplicateSessionDialog({
+  sessionId,
+  open,
+  onOpenChange,
+  onSessionDuplicated,
+}: DuplicateSessionDialogProps) {
+  const { toast } = useToast();
+  const [session, setSession] = useState<SessionWithSections | null>(null);
+  const [blueprints, setBlueprints] = useState<Blueprint[]>([]);
+  const [name, setName] = useState('');
+  const [blueprintId, setBlueprintId] = useState('');
+  const [valueSectionIds, setValueSectionIds] = useState<string[]>([]);
+  const [noteSectionIds, setNoteSectionIds] = useState<string[]>([]);
+  const [includeSources, setIncludeSources] = useState(true);
+  const [includeArtifacts, setIncludeArtifacts] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchSession = useCallback(async () => {
+    if (!sessionId) return;
+
+    setIsLoading(true);
+    setError(null);
+    try {
+      const [sessionResponse, blueprintsResponse] = await Promise.all([
+        fetch(`/api/v1/sessions/${sessionId}`),
+        fetch('/api/v1/blueprints'),
+      ]);
+      const sessionResult = await sessionResponse.json();
+      const blueprintsResult = await blueprintsResponse.json();
+
+      if (!sessionResult.ok) {
+        throw new Error(sessionResult.error?.message || 'Failed to load session');
+      }
+
+      const loaded = sessionResult.data as SessionWithSections;
+      const sectionIds = loaded.sections.map((section) => section.id);
+      setSession(loaded);
+      setName(`${loaded.name} (Copy)`);
+      setBlueprintId(loaded.root_blueprint_id ?? '');
+      setValueSectionIds(sectionIds);
+      setNoteSectionIds(sectionIds);
+      setIncludeSources(true);
+      setIncludeArtifacts(false);
+
+      if (blueprintsResult.ok) {
+        setBlueprints(
+          (blueprintsResult.data as Blueprint[]).filter((b) => b.status === 'published')
+        );
+      }
+    } catch (err) {
+      console.error('Failed to load session:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load session');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [sessionId]);
+
+  useEffect(() => {
+    if (open) {
+      fetchSession();
+    }
+  }, [open, fetchSession]);
+
+  const toggleSection = (
+    setIds: React.Dispatch<React.SetStateAction<string[]>>,
+    sectionId: string,
+    checked: boolean
+  ) => {
+    setIds((prev) => (checked ? [...prev, sectionId] : prev.filter((id) => id !== sectionId)));
+  };
+
+  const toggleAll = (sections: SectionWithProgress[], checked: boolean) => {
+    const ids = checked ? sections.map((section) => section.id) : [];
+    setValueSectionIds(ids);
+    setNoteSectionIds(ids);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!sessionId) return;
+
+    if (!name.trim()) {
+      setError('Session name is required');
+      return;
+    }
+
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/v1/sessions/${sessionId}/duplicate`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          name: name.trim(),
+          blueprint_id: blueprintId || undefined,
+          value_section_ids: valueSectionIds,
+          note_section_ids: noteSectionIds,
+          include_sources: includeSources,
+          include_artifacts: includeArtifacts,
+        }),
+      });
+      const result = await response.json();
+
+      if (!result.ok) {
+        setError(result.error?.message || 'Failed to duplicate session');
+        return;
+      }
+
+      const duplicated = result.data as DuplicateSessionResult;
+      toast({
+        title: 'Session Duplicated',
+        description: describeResult(duplicated),
+      });
+      onSessionDuplicated(duplicated.session.id);
+    } catch (err) {
+      console.error('Failed to duplicate session:', err);
+      setError('Failed to duplicate session');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const sections = session?.sections ?? [];
+  const allSelected =
+    sections.length > 0 &&
+    valueSectionIds.length === sections.length &&
+    noteSectionIds.length === sections.length;
+  const changingBlueprint = !!session && blueprintId !== session.root_blueprint_id;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Duplicate Session</DialogTitle>
+          <DialogDescription>
+            Start a new session with answers carried over from{' '}
+            {session ? session.name : 'this session'}
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading || !session ? (
+          <p className="py-4 text-sm text-muted-foreground">
+            {error && !isLoading ? error : 'Loading session...'}
+          </p>
+        ) : (
+          <form onSubmit={handleSubmit}>
+            <div className="max-h-[28rem] space-y-4 overflow-y-auto py-4">
+              <div className="space-y-2">
+                <Label htmlFor="duplicate-name">Session Name</Label>
+                <Input
+                  id="duplicate-name"
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                  disabled={isSubmitting}
+                  required
+                />
+              </div>
+
+              {blueprints.length > 1 && (
+                <div className="space-y-2">
+                  <Label htmlFor="duplicate-blueprint">Blueprint</Label>
+                  <Select
+                    value={blueprintId}
+                    onValueChange={setBlueprintId}
+                    disabled={isSubmitting}
+                  >
+                    <SelectTrigger id="duplicate-blueprint">
+                      <SelectValue placeholder="Select a blueprint" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {blueprints.map((blueprint) => (
+                        <SelectItem key={blueprint.id} value={blueprint.id}>
+                          {blueprint.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  {changingBlueprint && (
+                    <p className="text-xs text-muted-foreground">
+                      Values move to fields with the same key. Values without a matching field are
+                      left behind.
+                    </p>
+                  )}
+                </div>
+              )}
+
+              <div className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <div className="text-sm font-medium">Sections</div>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => toggleAll(sections, !allSelected)}
+                    disabled={isSubmitting}
+                  >
+                    {allSelected ? 'Clear All' : 'Select All'}
+                  </Button>
+                </div>
+                <div className="rounded-md border">
+                  <div className="grid grid-cols-[1fr_4rem_4rem] gap-2 border-b px-3 py-2 text-xs font-medium text-muted-foreground">
+                    <span>Section</span>
+                    <span className="text-center">Values</span>
+                    <span className="text-center">Notes</span>
+                  </div>
+                  {sections.map((section) => (
+                    <div
+                      key={section.id}
+                      className="grid grid-cols-[1fr_4rem_4rem] items-center gap-2 px-3 py-2 text-sm"
+                    >
+                      <span className="truncate">{section.title}</span>
+                      <div className="flex justify-center">
+                        <Checkbox
+                          aria-label={`Copy values from ${section.title}`}
+                          checked={valueSectionIds.includes(section.id)}
+                          onCheckedChange={(checked) =>
+                            toggleSection(setValueSectionIds, section.id, checked === true)
+                          }
+                          disabled={isSubmitting}
+                        />
+                      </div>
+                      <div className="flex justify-center">
+                        <Checkbox
+                          aria-label={`Copy notes from ${section.title}`}
+                          checked={noteSectionIds.includes(section.id)}
+                          onCheckedChange={(checked) =>
+                            toggleSection(setNoteSectionIds, section.id, checked === true)
+                          }
+                          disabled={isSubmitting}
+                        />
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <div className="flex items-center gap-2">
+                  <Checkbox
+                    id="duplicate-sources"
+                    checked={includeSources}
+                    onCheckedChange={(checked) => setIncludeSources(checked === true)}
+                    disabled={isSubmitting}
+                  />
+                  <Label htmlFor="duplicate-sources" className="cursor-pointer font-normal">
+                    Copy sources
+                  </Label>
+                </div>
+                <div className="flex items-center gap-2">
+                  <Checkbox
+                    id="duplicate-artifacts"
+                    checked={includeArtifacts}
+                    onCheckedChange={(checked) => setIncludeArtifacts(checked === true)}
+                    disabled={isSubmitting}
+                  />
+                  <Label htmlFor="duplicate-artifacts" className="cursor-pointer font-normal">
+                    Copy generated artifacts
+                  </Label>
+                </div>
+              </div>
+
+              {error && (
+                <div className="rounded-md bg-destructive/10 p-3 text-sm text-destructive">
+                  {error}
+                </div>
+              )}
+            </div>
+
+            <DialogFooter>
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => onOpenChange(false)}
+                disabled={isSubmitting}
+              >
+                Cancel
+              </Button>
+              <Button type="submit" disabled={isSubmitting}>
+                {isSubmitting ? 'Duplicating...' : 'Duplicate'}
+              </Button>
+            </DialogFooter>
+          </form>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
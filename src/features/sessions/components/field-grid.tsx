@@ -6,30 +6,68 @@
  * 2-column grid layout for rendering fields with proper spacing
  */
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo, useRef } from 'react';
 import { FieldRenderer } from './field-renderer';
 import { FieldWithValue } from '@/app/api/v1/sessions/[id]/sections/[section_id]/fields/route';
+import {
+  resolveVisibility,
+  VisibilityFieldState,
+  VisibilitySectionState,
+} from '@/features/sessions/utils/visibility';
+
+// A value saved by another member, in arrival order (version is null for Computed fields)
+export type RemoteFieldUpdate = {
+  seq: number;
+  field_id: string;
+  value: string | null;
+  version: number | null;
+};
 
 interface FieldGridProps {
-  sessionId: string;
+  sessionId?: string; // Omitted in blueprint preview
   sectionId: string;
+  previewFields?: FieldWithValue[]; // Blueprint preview: fields and unsaved values from the caller
+  sections?: VisibilitySectionState[];
+  fieldStates?: VisibilityFieldState[];
   onProgressUpdate?: () => void;
   onValidationChange?: (errorCount: number) => void;
+  onFieldChange?: (fieldId: string, value: string) => void;
+  remoteUpdates?: RemoteFieldUpdate[]; // Live edits from other members
+  refreshKey?: number; // Bump to refetch values after bulk changes by other members
+  readOnly?: boolean; // Locked sessions show values without allowing edits
 }
 
 export function FieldGrid({
   sessionId,
   sectionId,
+  previewFields,
+  sections = [],
+  fieldStates = [],
   onProgressUpdate,
   onValidationChange,
+  onFieldChange,
+  remoteUpdates = [],
+  refreshKey = 0,
+  readOnly = false,
 }: FieldGridProps) {
   const [fields, setFields] = useState<FieldWithValue[]>([]);
   const [loading, setLoading] = useState(true);
+  const loadedSectionRef = useRef<string | null>(null);
+  // Updates from before mount are already in the fetched values
+  const appliedSeqRef = useRef(remoteUpdates[remoteUpdates.length - 1]?.seq ?? 0);
 
   // Fetch fields on mount and section change
   useEffect(() => {
+    if (previewFields) {
+      setFields(previewFields);
+      setLoading(false);
+      return;
+    }
+
     const fetchFields = async () => {
-      setLoading(true);
+      // Refetching the loaded section keeps fields mounted, so in-progress edits survive
+      const isRefresh = loadedSectionRef.current === sectionId;
+      if (!isRefresh) setLoading(true);
       try {
         const response = await fetch(`/api/v1/sessions/${sessionId}/sections/${sectionId}/fields`);
 
@@ -39,6 +77,7 @@ export function FieldGrid({
 
         const result = await response.json();
         setFields(result.data);
+        loadedSectionRef.current = sectionId;
       } catch (error) {
         console.error('Failed to fetch fields:', error);
       } finally {
@@ -47,16 +86,63 @@ export function FieldGrid({
     };
 
     fetchFields();
-  }, [sessionId, sectionId]);
+  }, [sessionId, sectionId, previewFields, refreshKey]);
+
+  // Apply other members' edits not seen yet, skipping values older than what this grid has
+  useEffect(() => {
+    const pending = remoteUpdates.filter((update) => update.seq > appliedSeqRef.current);
+    if (pending.length === 0) return;
+    appliedSeqRef.current = pending[pending.length - 1]!.seq;
+
+    setFields((prev) =>
+      pending.reduce(
+        (current, update) =>
+          current.map((f) => {
+            if (f.id !== update.field_id) return f;
+            if (update.version === null) return { ...f, value: update.value };
+            return update.version > f.version
+              ? { ...f, value: update.value, version: update.version }
+              : f;
+          }),
+        prev
+      )
+    );
+  }, [remoteUpdates]);
+
+  // Evaluate visibility rules with this section's live values over the last saved session values
+  const hiddenFieldIds = useMemo(() => {
+    const liveValues = new Map(fields.map((f) => [f.id, f.value]));
+    const states = [
+      ...fieldStates.map((state) =>
+        liveValues.has(state.id) ? { ...state, value: liveValues.get(state.id) } : state
+      ),
+      ...fields.filter((f) => !fieldStates.some((state) => state.id === f.id)),
+    ];
+    return resolveVisibility(sections, states).hiddenFieldIds;
+  }, [fields, fieldStates, sections]);
+
+  const visibleFields = fields.filter((f) => !hiddenFieldIds.has(f.id));
 
-  const handleFieldChange = (fieldId: string, value: string) => {
-    setFields((prev) => prev.map((f) => (f.id === fieldId ? { ...f, value } : f)));
+  const handleFieldChange = (
+    fieldId: string,
+    value: string,
+    computedValues: Record<string, string> = {},
+    version?: number
+  ) => {
+    // Computed fields recalculated by the save are shown without refetching
+    setFields((prev) =>
+      prev.map((f) => {
+        if (f.id === fieldId) return { ...f, value, version: version ?? f.version };
+        return f.id in computedValues ? { ...f, value: computedValues[f.id] ?? null } : f;
+      })
+    );
+    onFieldChange?.(fieldId, value);
     onProgressUpdate?.();
   };
 
   const handleValidationChange = () => {
     // Track validation state and notify parent
-    const currentErrors = fields.filter((f) => f.required && !f.value?.trim());
+    const currentErrors = visibleFields.filter((f) => f.required && !f.value?.trim());
     onValidationChange?.(currentErrors.length);
   };
 
@@ -76,9 +162,20 @@ export function FieldGrid({
     );
   }
 
+  if (visibleFields.length === 0) {
+    return (
+      <div className="rounded-lg border bg-card p-8">
+        <p className="text-center text-muted-foreground">
+          All fields in this section are hidden by visibility rules
+        </p>
+      </div>
+    );
+  }
+
+  // A disabled fieldset disables every input, select, and button inside it
   return (
-    <div className="grid grid-cols-1 gap-6 md:grid-cols-2">
-      {fields.map((field) => (
+    <fieldset disabled={readOnly} className="grid grid-cols-1 gap-6 md:grid-cols-2">
+      {visibleFields.map((field) => (
         <FieldRenderer
           key={field.id}
           field={field}
@@ -87,6 +184,6 @@ export function FieldGrid({
           onValidationChange={handleValidationChange}
         />
       ))}
-    </div>
+    </fieldset>
   );
 }
@@ -0,0 +1,161 @@
+'use client';
+
+/**
+ * Field History Popover Component
+ *
+ * Lists recorded changes to a field's value with one-click revert
+ */
+
+import { useState } from 'react';
+import { History, Undo2 } from 'lucide-react';
+
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { useToast } from '@/hooks/use-toast';
+import {
+  FieldValueHistoryEntry,
+  FieldValueOrigin,
+  RevertFieldValueResponse,
+} from '@/features/sessions/types/session';
+
+type FieldHistoryPopoverProps = {
+  sessionId: string;
+  fieldId: string;
+  formatValue: (value: string | null) => string; // Human-readable value (e.g., option labels)
+  onReverted: (result: RevertFieldValueResponse) => void;
+};
+
+const ORIGIN_LABELS: Record<FieldValueOrigin, string> = {
+  manual: 'Edited',
+  ai_accept: 'AI accepted',
+  import: 'Imported',
+  revert: 'Reverted',
+};
+
+export function FieldHistoryPopover({
+  sessionId,
+  fieldId,
+  formatValue,
+  onReverted,
+}: FieldHistoryPopoverProps) {
+  const [open, setOpen] = useState(false);
+  const [entries, setEntries] = useState<FieldValueHistoryEntry[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [revertingId, setRevertingId] = useState<string | null>(null);
+  const { toast } = useToast();
+
+  const fetchHistory = async () => {
+    setLoading(true);
+    try {
+      const response = await fetch(`/api/v1/sessions/${sessionId}/history?field_id=${fieldId}`);
+      const result = await response.json();
+
+      if (result.ok) {
+        setEntries(result.data);
+      }
+    } catch (error) {
+      console.error('Failed to fetch field history:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleOpenChange = (isOpen: boolean) => {
+    setOpen(isOpen);
+    if (isOpen) fetchHistory();
+  };
+
+  const handleRevert = async (entry: FieldValueHistoryEntry) => {
+    setRevertingId(entry.id);
+    try {
+      const response = await fetch(`/api/v1/sessions/${sessionId}/history/${entry.id}/revert`, {
+        method: 'POST',
+      });
+      const result = await response.json();
+
+      if (!result.ok) {
+        throw new Error(result.error?.message || 'Failed to revert change');
+      }
+
+      onReverted(result.data);
+      setOpen(false);
+      toast({
+        title: 'Change Reverted',
+        description: 'Field value restored',
+      });
+    } catch (error) {
+      console.error('Failed to revert change:', error);
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to revert change',
+        variant: 'destructive',
+      });
+    } finally {
+      setRevertingId(null);
+    }
+  };
+
+  return (
+    <Popover open={open} onOpenChange={handleOpenChange}>
+      <PopoverTrigger asChild>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="h-6 w-6 p-0 text-muted-foreground"
+          aria-label="Value history"
+        >
+          <History className="h-3.5 w-3.5" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-96" align="end">
+        <div className="mb-2 text-xs font-medium text-muted-foreground">Value History</div>
+
+        {loading ? (
+          <p className="py-4 text-center text-sm text-muted-foreground">Loading history...</p>
+        ) : entries.length === 0 ? (
+          <p className="py-4 text-center text-sm text-muted-foreground">No changes recorded yet</p>
+        ) : (
+          <div className="max-h-80 space-y-2 overflow-y-auto">
+            {entries.map((entry) => (
+              <div key={entry.id} className="space-y-1 rounded-md border p-2 text-sm">
+                <div className="flex items-center gap-2">
+                  <Badge variant="outline" className="text-xs">
+                    {ORIGIN_LABELS[entry.origin]}
+                  </Badge>
+                  <span className="flex-1 truncate text-xs text-muted-foreground">
+                    {entry.changed_by_name ?? 'Former member'} •{' '}
+                    {new Date(entry.created_at).toLocaleString('en-US', {
+                      month: 'short',
+                      day: 'numeric',
+                      hour: 'numeric',
+                      minute: '2-digit',
+                    })}
+                  </span>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-6 px-2 text-xs"
+                    onClick={() => handleRevert(entry)}
+                    disabled={revertingId !== null}
+                    aria-label="Revert this change"
+                  >
+                    <Undo2 className="mr-1 h-3 w-3" />
+                    Revert
+                  </Button>
+                </div>
+                <div className="whitespace-pre-wrap break-words text-xs">
+                  <span className="text-muted-foreground line-through">
+                    {formatValue(entry.previous_value) || 'Empty'}
+                  </span>
+                  {' → '}
+                  <span>{formatValue(entry.value) || 'Empty'}</span>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+}
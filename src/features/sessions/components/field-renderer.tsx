@@ -6,24 +6,62 @@
  * Renders individual field inputs with autosave and validation
  */
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { useDebouncedCallback } from 'use-debounce';
+import { Calculator } from 'lucide-react';
 
+import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Textarea } from '@/components/ui/textarea';
 import { Switch } from '@/components/ui/switch';
 import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
 import { cn } from '@/lib/utils';
+import {
+  formatFieldValueForDisplay,
+  parseDateRangeValue,
+  parseMultiSelectValue,
+  serializeDateRangeValue,
+  serializeMultiSelectValue,
+  validateFieldRules,
+  validateFieldValue,
+} from '@/features/sessions/utils/field-value';
+import { ValidationFormat } from '@/features/blueprints/types/blueprint';
+import {
+  FieldValueConflictDetails,
+  RevertFieldValueResponse,
+} from '@/features/sessions/types/session';
 import { FieldWithValue } from '@/app/api/v1/sessions/[id]/sections/[section_id]/fields/route';
 import { FieldSuggestionBadge } from '@/features/ai/components/field-suggestion-badge';
+import { GroupFieldTable } from './group-field-table';
+import { FieldHistoryPopover } from './field-history-popover';
 
 interface FieldRendererProps {
   field: FieldWithValue;
-  sessionId: string;
-  onValueChange: (fieldId: string, value: string) => void;
+  sessionId?: string; // Omitted in blueprint preview, where values are kept by the caller
+  onValueChange: (
+    fieldId: string,
+    value: string,
+    computedValues?: Record<string, string>, // Computed fields recalculated by the save
+    version?: number // Version of the saved value
+  ) => void;
   onValidationChange?: (fieldId: string, isValid: boolean) => void;
 }
 
+// Native input types for formatted text (mobile keyboards, autofill)
+const FORMAT_INPUT_TYPES: Record<ValidationFormat, string> = {
+  email: 'email',
+  url: 'url',
+  phone: 'tel',
+};
+
 type Suggestion = {
   id: string;
   value: string;
@@ -41,14 +79,24 @@ export function FieldRenderer({
   const [error, setError] = useState<string | null>(null);
   const [isSaving, setIsSaving] = useState(false);
   const [suggestion, setSuggestion] = useState<Suggestion | null>(null);
+  const [conflict, setConflict] = useState<FieldValueConflictDetails | null>(null);
+  // Version the local value was edited from, sent with saves to detect conflicting edits
+  const baseVersionRef = useRef(field.version);
+  // Set while there are local edits not yet saved, so other members' edits don't overwrite them
+  const hasLocalEditsRef = useRef(false);
 
-  // Update local value when field prop changes
+  // Update local value when field prop changes (including other members' edits)
   useEffect(() => {
+    if (hasLocalEditsRef.current) return;
     setValue(field.value || '');
-  }, [field.value]);
+    baseVersionRef.current = field.version;
+  }, [field.value, field.version]);
 
   // Fetch suggestion for this field
   useEffect(() => {
+    // Computed fields and blueprint previews never get suggestions
+    if (field.type === 'Computed' || !sessionId) return;
+
     const fetchSuggestion = async () => {
       try {
         const response = await fetch(`/api/v1/sessions/${sessionId}/fields/${field.id}/suggestion`);
@@ -65,23 +113,36 @@ export function FieldRenderer({
     };
 
     fetchSuggestion();
-  }, [sessionId, field.id]);
+  }, [sessionId, field.id, field.type]);
 
   const debouncedSave = useDebouncedCallback(async (newValue: string) => {
+    if (!sessionId) {
+      hasLocalEditsRef.current = false;
+      onValueChange(field.id, newValue);
+      return;
+    }
+
     setIsSaving(true);
     try {
       const response = await fetch(`/api/v1/sessions/${sessionId}/fields/${field.id}`, {
         method: 'PUT',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ value: newValue }),
+        body: JSON.stringify({ value: newValue, base_version: baseVersionRef.current }),
       });
 
+      const result = await response.json();
       if (!response.ok) {
-        const result = await response.json();
+        // Someone else saved this field first: keep the local edit and let the member choose
+        if (result.error?.code === 'FIELD_VALUE_CONFLICT') {
+          setConflict(result.error.details);
+          return;
+        }
         throw new Error(result.error?.message || 'Failed to save field');
       }
 
-      onValueChange(field.id, newValue);
+      baseVersionRef.current = result.data.version;
+      if (!debouncedSave.isPending()) hasLocalEditsRef.current = false;
+      onValueChange(field.id, newValue, result.data.computed_values, result.data.version);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to save field value');
     } finally {
@@ -90,6 +151,7 @@ export function FieldRenderer({
   }, 500);
 
   const handleChange = (newValue: string) => {
+    hasLocalEditsRef.current = true;
     setValue(newValue);
     setError(null);
     debouncedSave(newValue);
@@ -102,11 +164,49 @@ export function FieldRenderer({
       onValidationChange?.(field.id, false);
       return false;
     }
+    const valueError =
+      validateFieldValue(field, value.trim()) ?? validateFieldRules(field, value)?.message;
+    if (valueError) {
+      setError(valueError);
+      onValidationChange?.(field.id, false);
+      return false;
+    }
     setError(null);
     onValidationChange?.(field.id, true);
     return true;
   };
 
+  // Invalid numbers, incomplete date ranges, invalid table cells, and text that
+  // breaks a validation rule are shown as errors and not saved (the API would reject them)
+  const handleValidatedChange = (newValue: string) => {
+    const valueError =
+      validateFieldValue(field, newValue) ?? validateFieldRules(field, newValue)?.message;
+    if (valueError) {
+      hasLocalEditsRef.current = true;
+      setValue(newValue);
+      setError(valueError);
+      debouncedSave.cancel();
+      return;
+    }
+    handleChange(newValue);
+  };
+
+  const handleDateRangeChange = (part: 'start' | 'end', date: string) => {
+    const range = parseDateRangeValue(value) ?? { start: '', end: '' };
+    const next = { ...range, [part]: date };
+    handleValidatedChange(serializeDateRangeValue(next.start, next.end));
+  };
+
+  const handleMultiSelectChange = (optionValue: string, checked: boolean) => {
+    const selected = parseMultiSelectValue(value);
+    const next = checked ? [...selected, optionValue] : selected.filter((v) => v !== optionValue);
+    // Keep selections in option order so stored values are stable
+    const ordered = (field.config?.options || [])
+      .map((o) => o.value)
+      .filter((v) => next.includes(v));
+    handleChange(serializeMultiSelectValue(ordered));
+  };
+
   const handleAcceptSuggestion = (suggestedValue: string) => {
     setValue(suggestedValue);
     handleChange(suggestedValue);
@@ -117,10 +217,41 @@ export function FieldRenderer({
     setSuggestion(null);
   };
 
+  const handleReverted = (result: RevertFieldValueResponse) => {
+    debouncedSave.cancel();
+    hasLocalEditsRef.current = false;
+    baseVersionRef.current = result.version;
+    setValue(result.value ?? '');
+    setError(null);
+    setConflict(null);
+    onValueChange(field.id, result.value ?? '', result.computed_values, result.version);
+  };
+
+  // Save the local value over the other member's
+  const handleKeepMine = () => {
+    if (!conflict) return;
+    baseVersionRef.current = conflict.current_version;
+    setConflict(null);
+    debouncedSave(value);
+    debouncedSave.flush();
+  };
+
+  // Drop the local edit and show the other member's value
+  const handleUseTheirs = () => {
+    if (!conflict) return;
+    debouncedSave.cancel();
+    hasLocalEditsRef.current = false;
+    baseVersionRef.current = conflict.current_version;
+    setValue(conflict.current_value ?? '');
+    setError(null);
+    setConflict(null);
+    onValueChange(field.id, conflict.current_value ?? '', undefined, conflict.current_version);
+  };
+
   return (
     <div className={cn('space-y-2', field.span === 2 ? 'col-span-1 md:col-span-2' : 'col-span-1')}>
       <div className="flex items-center justify-between">
-        <Label htmlFor={field.id}>
+        <Label htmlFor={field.id} id={`${field.id}-label`}>
           {field.label}
           {field.required && <span className="ml-1 text-destructive">*</span>}
           {isSaving && (
@@ -129,22 +260,35 @@ export function FieldRenderer({
             </span>
           )}
         </Label>
-        {suggestion && (
-          <FieldSuggestionBadge
-            sessionId={sessionId}
-            fieldId={field.id}
-            suggestion={suggestion}
-            onAccept={handleAcceptSuggestion}
-            onReject={handleRejectSuggestion}
-          />
-        )}
+        <div className="flex items-center gap-1">
+          {suggestion && sessionId && (
+            <FieldSuggestionBadge
+              sessionId={sessionId}
+              fieldId={field.id}
+              suggestion={suggestion}
+              displayValue={formatFieldValueForDisplay(field, suggestion.value)}
+              onAccept={handleAcceptSuggestion}
+              onReject={handleRejectSuggestion}
+            />
+          )}
+          {/* Computed values are derived, so only input fields have a history */}
+          {sessionId && field.type !== 'Computed' && (
+            <FieldHistoryPopover
+              sessionId={sessionId}
+              fieldId={field.id}
+              formatValue={(historyValue) => formatFieldValueForDisplay(field, historyValue)}
+              onReverted={handleReverted}
+            />
+          )}
+        </div>
       </div>
 
       {field.type === 'ShortText' && (
         <Input
           id={field.id}
+          type={field.validation?.format ? FORMAT_INPUT_TYPES[field.validation.format] : 'text'}
           value={value}
-          onChange={(e) => handleChange(e.target.value)}
+          onChange={(e) => handleValidatedChange(e.target.value)}
           onBlur={validate}
           placeholder={field.placeholder || ''}
           className={error ? 'border-destructive' : ''}
@@ -157,7 +301,7 @@ export function FieldRenderer({
         <Textarea
           id={field.id}
           value={value}
-          onChange={(e) => handleChange(e.target.value)}
+          onChange={(e) => handleValidatedChange(e.target.value)}
           onBlur={validate}
           placeholder={field.placeholder || ''}
           rows={4}
@@ -178,8 +322,175 @@ export function FieldRenderer({
         </div>
       )}
 
+      {(field.type === 'Number' || field.type === 'Currency') && (
+        <div className="flex items-center gap-2">
+          {field.type === 'Currency' && (
+            <span className="text-sm text-muted-foreground">{field.config?.currency || 'USD'}</span>
+          )}
+          <Input
+            id={field.id}
+            type="number"
+            inputMode="decimal"
+            value={value}
+            onChange={(e) => handleValidatedChange(e.target.value)}
+            onBlur={validate}
+            min={field.config?.min}
+            max={field.config?.max}
+            step={field.config?.step ?? 'any'}
+            placeholder={field.placeholder || ''}
+            className={error ? 'border-destructive' : ''}
+            aria-invalid={error ? 'true' : 'false'}
+            aria-describedby={error ? `${field.id}-error` : undefined}
+          />
+          {field.type === 'Number' && field.config?.unit && (
+            <span className="text-sm text-muted-foreground">{field.config.unit}</span>
+          )}
+        </div>
+      )}
+
+      {field.type === 'Date' && (
+        <Input
+          id={field.id}
+          type="date"
+          value={value}
+          onChange={(e) => handleChange(e.target.value)}
+          onBlur={validate}
+          className={cn('w-auto', error && 'border-destructive')}
+          aria-invalid={error ? 'true' : 'false'}
+          aria-describedby={error ? `${field.id}-error` : undefined}
+        />
+      )}
+
+      {field.type === 'DateRange' && (
+        <div
+          id={field.id}
+          role="group"
+          aria-labelledby={`${field.id}-label`}
+          aria-describedby={error ? `${field.id}-error` : undefined}
+          className="flex flex-wrap items-center gap-2"
+        >
+          <Input
+            type="date"
+            value={parseDateRangeValue(value)?.start ?? ''}
+            onChange={(e) => handleDateRangeChange('start', e.target.value)}
+            onBlur={validate}
+            className={cn('w-auto', error && 'border-destructive')}
+            aria-label={`${field.label} start`}
+          />
+          <span className="text-sm text-muted-foreground">to</span>
+          <Input
+            type="date"
+            value={parseDateRangeValue(value)?.end ?? ''}
+            min={parseDateRangeValue(value)?.start || undefined}
+            onChange={(e) => handleDateRangeChange('end', e.target.value)}
+            onBlur={validate}
+            className={cn('w-auto', error && 'border-destructive')}
+            aria-label={`${field.label} end`}
+          />
+        </div>
+      )}
+
+      {field.type === 'RepeatableGroup' && (
+        <GroupFieldTable
+          id={field.id}
+          label={field.label}
+          subFields={field.config?.sub_fields || []}
+          value={value}
+          onChange={handleValidatedChange}
+          hasError={!!error}
+          describedBy={error ? `${field.id}-error` : undefined}
+        />
+      )}
+
+      {field.type === 'Select' && (
+        <Select value={value || undefined} onValueChange={handleChange}>
+          <SelectTrigger
+            id={field.id}
+            className={error ? 'border-destructive' : ''}
+            aria-invalid={error ? 'true' : 'false'}
+            aria-describedby={error ? `${field.id}-error` : undefined}
+          >
+            <SelectValue placeholder={field.placeholder || 'Select an option'} />
+          </SelectTrigger>
+          <SelectContent>
+            {(field.config?.options || []).map((option) => (
+              <SelectItem key={option.value} value={option.value}>
+                {option.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      )}
+
+      {field.type === 'MultiSelect' && (
+        <div
+          id={field.id}
+          role="group"
+          aria-labelledby={`${field.id}-label`}
+          aria-describedby={error ? `${field.id}-error` : undefined}
+          className="flex flex-wrap gap-x-6 gap-y-2"
+        >
+          {(field.config?.options || []).map((option) => {
+            const optionId = `${field.id}-${option.value}`;
+            return (
+              <div key={option.value} className="flex items-center gap-2">
+                <Checkbox
+                  id={optionId}
+                  checked={parseMultiSelectValue(value).includes(option.value)}
+                  onCheckedChange={(checked) =>
+                    handleMultiSelectChange(option.value, checked === true)
+                  }
+                />
+                <Label htmlFor={optionId} className="cursor-pointer font-normal">
+                  {option.label}
+                </Label>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {field.type === 'Computed' && (
+        <div
+          id={field.id}
+          role="status"
+          aria-labelledby={`${field.id}-label`}
+          className="flex min-h-10 items-center gap-2 rounded-md border border-dashed bg-muted/40 px-3 py-2 text-sm"
+        >
+          <Calculator className="h-4 w-4 shrink-0 text-muted-foreground" aria-hidden="true" />
+          {value ? (
+            <span>{formatFieldValueForDisplay(field, value)}</span>
+          ) : (
+            <span className="text-muted-foreground">Calculated from other fields</span>
+          )}
+        </div>
+      )}
+
       {field.help_text && <p className="text-xs text-muted-foreground">{field.help_text}</p>}
 
+      {conflict && (
+        <div
+          role="alert"
+          className="space-y-2 rounded-md border border-amber-500/50 bg-amber-500/10 p-3 text-sm"
+        >
+          <p>
+            {conflict.changed_by_name ?? 'Another member'} changed this field while you were
+            editing. Their value:{' '}
+            <span className="font-medium">
+              {formatFieldValueForDisplay(field, conflict.current_value) || 'Empty'}
+            </span>
+          </p>
+          <div className="flex gap-2">
+            <Button size="sm" variant="outline" onClick={handleKeepMine}>
+              Keep Mine
+            </Button>
+            <Button size="sm" variant="ghost" onClick={handleUseTheirs}>
+              Use Theirs
+            </Button>
+          </div>
+        </div>
+      )}
+
       {error && (
         <p id={`${field.id}-error`} className="text-xs text-destructive" role="alert">
           {error}
@@ -0,0 +1,166 @@
+'use client';
+
+/**
+ * Group Field Table Component
+ *
+ * Editable table for RepeatableGroup fields: one row per item, one column per sub-field
+ */
+
+import { useState, useEffect } from 'react';
+import { Plus, Trash2 } from 'lucide-react';
+
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Checkbox } from '@/components/ui/checkbox';
+import { cn } from '@/lib/utils';
+import { SubField } from '@/features/blueprints/types/blueprint';
+import {
+  GroupRow,
+  parseGroupValue,
+  serializeGroupValue,
+} from '@/features/sessions/utils/field-value';
+
+interface GroupFieldTableProps {
+  id: string;
+  label: string;
+  subFields: SubField[];
+  value: string;
+  onChange: (value: string) => void;
+  hasError?: boolean;
+  describedBy?: string;
+}
+
+export function GroupFieldTable({
+  id,
+  label,
+  subFields,
+  value,
+  onChange,
+  hasError = false,
+  describedBy,
+}: GroupFieldTableProps) {
+  const [rows, setRows] = useState<GroupRow[]>(() => parseGroupValue(value));
+
+  // Sync with the stored value, keeping blank rows that haven't been filled in yet
+  useEffect(() => {
+    setRows((current) =>
+      serializeGroupValue(current) === value ? current : parseGroupValue(value)
+    );
+  }, [value]);
+
+  const updateRows = (next: GroupRow[]) => {
+    setRows(next);
+    onChange(serializeGroupValue(next));
+  };
+
+  const handleCellChange = (rowIndex: number, key: string, cell: string) => {
+    updateRows(rows.map((row, i) => (i === rowIndex ? { ...row, [key]: cell } : row)));
+  };
+
+  const handleAddRow = () => {
+    setRows((prev) => [...prev, {}]);
+  };
+
+  const handleRemoveRow = (rowIndex: number) => {
+    updateRows(rows.filter((_, i) => i !== rowIndex));
+  };
+
+  const renderCell = (sub: SubField, row: GroupRow, rowIndex: number) => {
+    const cell = row[sub.key] ?? '';
+    const cellLabel = `${label} row ${rowIndex + 1} ${sub.label}`;
+
+    switch (sub.type) {
+      case 'LongText':
+        return (
+          <Textarea
+            value={cell}
+            onChange={(e) => handleCellChange(rowIndex, sub.key, e.target.value)}
+            rows={2}
+            aria-label={cellLabel}
+          />
+        );
+      case 'Toggle':
+        return (
+          <Checkbox
+            checked={cell === 'true'}
+            onCheckedChange={(checked) =>
+              handleCellChange(rowIndex, sub.key, String(checked === true))
+            }
+            aria-label={cellLabel}
+          />
+        );
+      default:
+        return (
+          <Input
+            type={sub.type === 'Number' ? 'number' : sub.type === 'Date' ? 'date' : 'text'}
+            step={sub.type === 'Number' ? 'any' : undefined}
+            value={cell}
+            onChange={(e) => handleCellChange(rowIndex, sub.key, e.target.value)}
+            aria-label={cellLabel}
+          />
+        );
+    }
+  };
+
+  return (
+    <div id={id} className="space-y-2" aria-describedby={describedBy}>
+      <div
+        className={cn(
+          'overflow-x-auto rounded-md border',
+          hasError ? 'border-destructive' : 'border-border'
+        )}
+      >
+        <table className="w-full text-sm">
+          <thead className="bg-muted/50">
+            <tr>
+              {subFields.map((sub) => (
+                <th key={sub.key} className="px-3 py-2 text-left font-medium text-muted-foreground">
+                  {sub.label}
+                </th>
+              ))}
+              <th className="w-10" aria-label="Actions" />
+            </tr>
+          </thead>
+          <tbody>
+            {rows.length === 0 ? (
+              <tr>
+                <td
+                  colSpan={subFields.length + 1}
+                  className="px-3 py-4 text-center text-muted-foreground"
+                >
+                  No rows yet
+                </td>
+              </tr>
+            ) : (
+              rows.map((row, rowIndex) => (
+                <tr key={rowIndex} className="border-t border-border align-top">
+                  {subFields.map((sub) => (
+                    <td key={sub.key} className="px-2 py-2">
+                      {renderCell(sub, row, rowIndex)}
+                    </td>
+                  ))}
+                  <td className="px-1 py-2">
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => handleRemoveRow(rowIndex)}
+                      aria-label={`Remove row ${rowIndex + 1}`}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </td>
+                </tr>
+              ))
+            )}
+          </tbody>
+        </table>
+      </div>
+      <Button type="button" variant="outline" size="sm" onClick={handleAddRow}>
+        <Plus className="h-4 w-4" />
+        Add Row
+      </Button>
+    </div>
+  );
+}
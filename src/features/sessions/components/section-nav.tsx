@@ -6,9 +6,11 @@
  * Left rail showing all sections with progress indicators
  */
 
-import { SectionWithProgress } from '@/features/sessions/types/session';
+import { EyeOff } from 'lucide-react';
+import { SectionWithProgress, SessionPresenceMember } from '@/features/sessions/types/session';
 import { Separator } from '@/components/ui/separator';
 import { cn } from '@/lib/utils';
+import { SessionPresence } from './session-presence';
 
 interface SectionNavProps {
   sections: SectionWithProgress[];
@@ -16,6 +18,7 @@ interface SectionNavProps {
   onSelectSection: (index: number) => void;
   requiredProgress: number;
   overallProgress: number;
+  presence?: SessionPresenceMember[]; // Other members in the session, shown on their section
 }
 
 export function SectionNav({
@@ -24,9 +27,11 @@ export function SectionNav({
   onSelectSection,
   requiredProgress,
   overallProgress,
+  presence = [],
 }: SectionNavProps) {
   // Check if there are any required fields across all sections
   const hasRequiredFields = sections.some((section) => section.required_count > 0);
+  const sectionTitles = Object.fromEntries(sections.map((section) => [section.id, section.title]));
 
   return (
     <div className="space-y-2 p-4">
@@ -73,8 +78,26 @@ export function SectionNav({
         {sections.map((section, index) => {
           const isActive = index === currentIndex;
           const requiredComplete = section.completion_percentage === 100;
+          const hasInvalid = section.invalid_count > 0;
           const hasProgress = section.required_filled_count > 0 || section.total_filled_count > 0;
 
+          // Sections hidden by visibility rules stay listed but can't be opened
+          if (section.hidden) {
+            return (
+              <div
+                key={section.id}
+                aria-disabled="true"
+                className="w-full rounded-md px-3 py-2 text-left text-muted-foreground/60"
+              >
+                <div className="flex items-center gap-2">
+                  <EyeOff className="h-3 w-3 flex-shrink-0" />
+                  <span className="truncate text-sm">{section.title}</span>
+                </div>
+                <div className="ml-5 mt-1 text-xs">Hidden by visibility rule</div>
+              </div>
+            );
+          }
+
           return (
             <button
               key={section.id}
@@ -91,14 +114,22 @@ export function SectionNav({
                 <div
                   className={cn(
                     'h-2 w-2 flex-shrink-0 rounded-full',
-                    requiredComplete
-                      ? 'bg-emerald-500'
-                      : hasProgress
-                        ? 'bg-amber-500'
-                        : 'bg-muted-foreground/30'
+                    hasInvalid
+                      ? 'bg-destructive'
+                      : requiredComplete
+                        ? 'bg-emerald-500'
+                        : hasProgress
+                          ? 'bg-amber-500'
+                          : 'bg-muted-foreground/30'
                   )}
                 />
-                <span className="truncate text-sm">{section.title}</span>
+                <span className="flex-1 truncate text-sm">{section.title}</span>
+                <SessionPresence
+                  members={presence.filter((member) => member.section_id === section.id)}
+                  sectionTitles={sectionTitles}
+                  max={3}
+                  size="sm"
+                />
               </div>
               <div className="ml-4 mt-1 text-xs text-muted-foreground">
                 {section.required_count > 0 ? (
@@ -113,6 +144,9 @@ export function SectionNav({
                 ) : (
                   'No fields'
                 )}
+                {hasInvalid && (
+                  <span className="text-destructive"> • {section.invalid_count} invalid</span>
+                )}
               </div>
             </button>
           );
@@ -16,17 +16,28 @@ import { Button } from '@/components/ui/button';
 import { Separator } from '@/components/ui/separator';
 
 interface SectionNotesProps {
-  sessionId: string;
+  sessionId?: string; // Omitted in blueprint preview, where notes are kept by the caller
   sectionId: string;
+  initialMarkdown?: string;
+  onMarkdownChange?: (markdown: string) => void;
+  readOnly?: boolean; // Locked sessions show notes without the editor
 }
 
-export function SectionNotes({ sessionId, sectionId }: SectionNotesProps) {
-  const [markdown, setMarkdown] = useState('');
+export function SectionNotes({
+  sessionId,
+  sectionId,
+  initialMarkdown = '',
+  onMarkdownChange,
+  readOnly = false,
+}: SectionNotesProps) {
+  const [markdown, setMarkdown] = useState(initialMarkdown);
   const [isPreview, setIsPreview] = useState(false);
-  const [isLoading, setIsLoading] = useState(true);
+  const [isLoading, setIsLoading] = useState(!!sessionId);
   const [isSaving, setIsSaving] = useState(false);
 
   const fetchNotes = useCallback(async () => {
+    if (!sessionId) return;
+
     setIsLoading(true);
     try {
       const response = await fetch(`/api/v1/sessions/${sessionId}/sections/${sectionId}/notes`);
@@ -47,6 +58,11 @@ export function SectionNotes({ sessionId, sectionId }: SectionNotesProps) {
   }, [fetchNotes]);
 
   const saveNotes = async () => {
+    if (!sessionId) {
+      onMarkdownChange?.(markdown);
+      return;
+    }
+
     setIsSaving(true);
     try {
       await fetch(`/api/v1/sessions/${sessionId}/sections/${sectionId}/notes`, {
@@ -80,23 +96,25 @@ export function SectionNotes({ sessionId, sectionId }: SectionNotesProps) {
         <h3 className="font-semibold">Section Notes</h3>
         <div className="flex items-center gap-2">
           {isSaving && <span className="text-xs text-muted-foreground">Saving...</span>}
-          <Button
-            variant={isPreview ? 'default' : 'outline'}
-            size="sm"
-            onClick={() => setIsPreview(!isPreview)}
-          >
-            {isPreview ? (
-              <>
-                <Edit3 className="mr-2 h-3 w-3" />
-                Edit
-              </>
-            ) : (
-              <>
-                <Eye className="mr-2 h-3 w-3" />
-                Preview
-              </>
-            )}
-          </Button>
+          {!readOnly && (
+            <Button
+              variant={isPreview ? 'default' : 'outline'}
+              size="sm"
+              onClick={() => setIsPreview(!isPreview)}
+            >
+              {isPreview ? (
+                <>
+                  <Edit3 className="mr-2 h-3 w-3" />
+                  Edit
+                </>
+              ) : (
+                <>
+                  <Eye className="mr-2 h-3 w-3" />
+                  Preview
+                </>
+              )}
+            </Button>
+          )}
         </div>
       </div>
 
@@ -104,7 +122,7 @@ export function SectionNotes({ sessionId, sectionId }: SectionNotesProps) {
 
       {/* Content */}
       <div className="flex-1 overflow-hidden">
-        {isPreview ? (
+        {isPreview || readOnly ? (
           <div className="prose prose-sm prose-invert h-full max-w-none overflow-y-auto pr-2">
             {markdown.trim() ? (
               <ReactMarkdown remarkPlugins={[remarkGfm]}>{markdown}</ReactMarkdown>
@@ -131,7 +149,13 @@ export function SectionNotes({ sessionId, sectionId }: SectionNotesProps) {
 
       {/* Help text */}
       <div className="mt-4 border-t pt-4 text-xs text-muted-foreground">
-        <p>Notes are saved automatically when you click away</p>
+        <p>
+          {readOnly
+            ? 'This session is approved and locked'
+            : sessionId
+              ? 'Notes are saved automatically when you click away'
+              : 'Preview notes are kept until you leave this page'}
+        </p>
         <p className="mt-1">Supports Markdown formatting</p>
       </div>
     </div>
@@ -14,10 +14,16 @@
 
 import { useState, useEffect, useMemo, useCallback } from 'react';
 import { useRouter, useSearchParams } from 'next/navigation';
-import { Search, X } from 'lucide-react';
+import { Download, Search, X } from 'lucide-react';
 
 import { Input } from '@/components/ui/input';
 import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
 import {
   Select,
   SelectContent,
@@ -25,7 +31,7 @@ import {
   SelectTrigger,
   SelectValue,
 } from '@/components/ui/select';
-import { Session, SessionStatus } from '@/features/sessions/types/session';
+import { Session, SessionExportFormat, SessionStatus } from '@/features/sessions/types/session';
 import { Blueprint } from '@/features/blueprints/types/blueprint';
 
 interface SessionFiltersProps {
@@ -133,7 +139,9 @@ export function SessionFilters({
 
     // Blueprint
     if (filters.blueprint !== 'all') {
-      filtered = filtered.filter((s) => s.blueprint_id === filters.blueprint);
+      filtered = filtered.filter(
+        (s) => (s.root_blueprint_id ?? s.blueprint_id) === filters.blueprint
+      );
     }
 
     // Owner
@@ -219,12 +227,47 @@ export function SessionFilters({
     }
   }, [filters, currentUserId, renderQuickActions, handleQuickFilter]);
 
+  // Exports cover one blueprint, with the other filters applied server-side
+  const getExportUrl = (format: SessionExportFormat) => {
+    const params = new URLSearchParams({ format });
+    if (filters.search) params.set('search', filters.search);
+    if (filters.status !== 'all') params.set('status', filters.status);
+    if (filters.owner !== 'all') params.set('owner', filters.owner);
+    return `/api/v1/blueprints/${filters.blueprint}/sessions/export?${params.toString()}`;
+  };
+
   return (
     <div className="mb-6 space-y-4">
       {/* Filter Controls */}
       <div className="flex flex-col gap-3 rounded-lg border border-border bg-card p-4">
         {activeFilterCount > 0 && (
-          <div className="flex items-center justify-end">
+          <div className="flex items-center justify-end gap-4">
+            {filters.blueprint !== 'all' && (
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-auto p-0 text-xs text-muted-foreground hover:text-foreground"
+                  >
+                    <Download className="mr-1 h-3 w-3" />
+                    Export answers
+                  </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="end">
+                  <DropdownMenuItem asChild className="cursor-pointer">
+                    <a href={getExportUrl('csv')} download>
+                      CSV
+                    </a>
+                  </DropdownMenuItem>
+                  <DropdownMenuItem asChild className="cursor-pointer">
+                    <a href={getExportUrl('xlsx')} download>
+                      Excel (XLSX)
+                    </a>
+                  </DropdownMenuItem>
+                </DropdownMenuContent>
+              </DropdownMenu>
+            )}
             <Button
               variant="ghost"
               size="sm"
@@ -8,7 +8,7 @@
 
 import { useState, ReactNode } from 'react';
 import { useRouter } from 'next/navigation';
-import { FileText, Plus, Trash2, User } from 'lucide-react';
+import { Copy, FileText, Plus, Trash2, User } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
@@ -18,9 +18,11 @@ import { DeleteDialog } from '@/components/ui/delete-dialog';
 import { Session } from '@/features/sessions/types/session';
 import { Blueprint } from '@/features/blueprints/types/blueprint';
 import { StartSessionModal } from './start-session-modal';
+import { DuplicateSessionDialog } from './duplicate-session-dialog';
 import { SessionFilters } from './session-filters';
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/components/ui/tooltip';
 import { useToast } from '@/hooks/use-toast';
+import { REVIEW_STATUS_LABELS } from './session-review-dialog';
 
 interface SessionListProps {
   initialSessions: Session[];
@@ -36,6 +38,7 @@ export function SessionList({ initialSessions, blueprints, currentUserId }: Sess
   const [deleteId, setDeleteId] = useState<string | null>(null);
   const [isDeleting, setIsDeleting] = useState(false);
   const [showStartModal, setShowStartModal] = useState(false);
+  const [duplicateId, setDuplicateId] = useState<string | null>(null);
   const [quickActions, setQuickActions] = useState<ReactNode>(null);
 
   const handleDelete = async () => {
@@ -77,6 +80,12 @@ export function SessionList({ initialSessions, blueprints, currentUserId }: Sess
     router.push(`/sessions/${sessionId}`);
   };
 
+  const handleSessionDuplicated = (sessionId: string) => {
+    setDuplicateId(null);
+    router.refresh();
+    router.push(`/sessions/${sessionId}`);
+  };
+
   const getStatusColor = (status: Session['status']) => {
     switch (status) {
       case 'completed':
@@ -168,11 +177,18 @@ export function SessionList({ initialSessions, blueprints, currentUserId }: Sess
                         </p>
                       )}
                     </div>
-                    <Badge
-                      className={`${getStatusColor(session.status)} pointer-events-none hover:bg-inherit`}
-                    >
-                      {session.status.replace('_', ' ')}
-                    </Badge>
+                    <div className="flex flex-col items-end gap-1">
+                      <Badge
+                        className={`${getStatusColor(session.status)} pointer-events-none hover:bg-inherit`}
+                      >
+                        {session.status.replace('_', ' ')}
+                      </Badge>
+                      {session.review_status !== 'draft' && (
+                        <Badge variant="outline" className="pointer-events-none">
+                          {REVIEW_STATUS_LABELS[session.review_status]}
+                        </Badge>
+                      )}
+                    </div>
                   </div>
 
                   <div className="mb-4 text-sm text-muted-foreground">
@@ -269,6 +285,14 @@ export function SessionList({ initialSessions, blueprints, currentUserId }: Sess
                       <FileText className="h-4 w-4" />
                       Open
                     </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setDuplicateId(session.id)}
+                      aria-label="Duplicate session"
+                    >
+                      <Copy className="h-4 w-4" />
+                    </Button>
                     <Button
                       variant="outline"
                       size="sm"
@@ -291,6 +315,15 @@ export function SessionList({ initialSessions, blueprints, currentUserId }: Sess
         onSessionCreated={handleSessionCreated}
       />
 
+      <DuplicateSessionDialog
+        sessionId={duplicateId}
+        open={!!duplicateId}
+        onOpenChange={(open) => {
+          if (!open) setDuplicateId(null);
+        }}
+        onSessionDuplicated={handleSessionDuplicated}
+      />
+
       <DeleteDialog
         open={!!deleteId}
         onOpenChange={(open) => {
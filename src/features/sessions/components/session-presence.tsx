@@ -0,0 +1,72 @@
+'use client';
+
+/**
+ * Session Presence Component
+ *
+ * Stacked initials of the other members who have the session open
+ */
+
+import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/components/ui/tooltip';
+import { SessionPresenceMember } from '@/features/sessions/types/session';
+import { cn } from '@/lib/utils';
+
+interface SessionPresenceProps {
+  members: SessionPresenceMember[];
+  sectionTitles: Record<string, string>; // Section id to title, for "where" in the tooltip
+  max?: number;
+  size?: 'sm' | 'md';
+}
+
+function getMemberInitials(name: string): string {
+  return (
+    name
+      .split(' ')
+      .map((n) => n[0])
+      .join('')
+      .slice(0, 2)
+      .toUpperCase() || '?'
+  );
+}
+
+export function SessionPresence({
+  members,
+  sectionTitles,
+  max = 4,
+  size = 'md',
+}: SessionPresenceProps) {
+  if (members.length === 0) return null;
+
+  const shown = members.slice(0, max);
+  const hiddenCount = members.length - shown.length;
+  const circleClass = cn(
+    'flex items-center justify-center rounded-full border-2 border-background font-medium',
+    size === 'sm' ? 'h-5 w-5 text-[9px]' : 'h-7 w-7 text-xs'
+  );
+
+  return (
+    <TooltipProvider delayDuration={200}>
+      <div className="flex items-center -space-x-2" aria-label="Members in this session">
+        {shown.map((member) => (
+          <Tooltip key={member.member_id}>
+            <TooltipTrigger asChild>
+              <div className={cn(circleClass, 'cursor-default bg-primary text-primary-foreground')}>
+                {getMemberInitials(member.name)}
+              </div>
+            </TooltipTrigger>
+            <TooltipContent>
+              <div className="text-xs">
+                <span className="font-medium">{member.name}</span>
+                {member.section_id && sectionTitles[member.section_id] && (
+                  <> • {sectionTitles[member.section_id]}</>
+                )}
+              </div>
+            </TooltipContent>
+          </Tooltip>
+        ))}
+        {hiddenCount > 0 && (
+          <div className={cn(circleClass, 'bg-muted text-muted-foreground')}>+{hiddenCount}</div>
+        )}
+      </div>
+    </TooltipProvider>
+  );
+}
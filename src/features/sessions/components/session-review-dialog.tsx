@@ -0,0 +1,342 @@
+'use client';
+
+/**
+ * Session Review Dialog
+ *
+ * Submit a session for review, decide as a reviewer, reopen, and read the review history
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { useToast } from '@/hooks/use-toast';
+import {
+  SessionReview,
+  SessionReviewAction,
+  SessionReviewEvent,
+  SessionReviewStatus,
+} from '@/features/sessions/types/session';
+
+type CompanyMember = {
+  id: string;
+  name: string;
+  email: string;
+};
+
+type ReviewRequest = 'submit' | 'reviewers' | 'approve' | 'request-changes' | 'reopen';
+
+interface SessionReviewDialogProps {
+  sessionId: string;
+  currentUserId: string;
+  canEdit: boolean; // Owners and editors submit, assign reviewers, and reopen
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onReviewChanged: () => void;
+}
+
+export const REVIEW_STATUS_LABELS: Record<SessionReviewStatus, string> = {
+  draft: 'Draft',
+  in_review: 'In Review',
+  changes_requested: 'Changes Requested',
+  approved: 'Approved',
+};
+
+const ACTION_LABELS: Record<SessionReviewAction, string> = {
+  submitted: 'Submitted for review',
+  reviewer_assigned: 'Assigned reviewer',
+  reviewer_removed: 'Removed reviewer',
+  approved: 'Approved',
+  changes_requested: 'Requested changes',
+  reopened: 'Reopened',
+};
+
+const REQUEST_LABELS: Record<ReviewRequest, { title: string; failure: string }> = {
+  submit: { title: 'Submitted for Review', failure: 'Failed to submit for review' },
+  reviewers: { title: 'Reviewers Updated', failure: 'Failed to update reviewers' },
+  approve: { title: 'Approved', failure: 'Failed to approve' },
+  'request-changes': { title: 'Changes Requested', failure: 'Failed to request changes' },
+  reopen: { title: 'Session Reopened', failure: 'Failed to reopen session' },
+};
+
+function describeEvent(event: SessionReviewEvent): string {
+  const label = ACTION_LABELS[event.action];
+  return event.reviewer_name ? `${label}: ${event.reviewer_name}` : label;
+}
+
+export function SessionReviewDialog({
+  sessionId,
+  currentUserId,
+  canEdit,
+  open,
+  onOpenChange,
+  onReviewChanged,
+}: SessionReviewDialogProps) {
+  const { toast } = useToast();
+  const [review, setReview] = useState<SessionReview | null>(null);
+  const [members, setMembers] = useState<CompanyMember[]>([]);
+  const [selectedReviewers, setSelectedReviewers] = useState<string[]>([]);
+  const [comment, setComment] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+  const [pendingRequest, setPendingRequest] = useState<ReviewRequest | null>(null);
+
+  const fetchReview = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const [reviewResponse, membersResponse] = await Promise.all([
+        fetch(`/api/v1/sessions/${sessionId}/review`),
+        fetch('/api/v1/members'),
+      ]);
+      const reviewResult = await reviewResponse.json();
+      const membersResult = await membersResponse.json();
+
+      if (reviewResult.ok) {
+        setReview(reviewResult.data);
+        setSelectedReviewers(
+          (reviewResult.data as SessionReview).reviewers.map((reviewer) => reviewer.member_id)
+        );
+      }
+      if (membersResult.ok) {
+        setMembers(membersResult.data);
+      }
+    } catch (error) {
+      console.error('Failed to load review:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [sessionId]);
+
+  useEffect(() => {
+    if (open) {
+      setComment('');
+      fetchReview();
+    }
+  }, [open, fetchReview]);
+
+  const sendRequest = async (request: ReviewRequest) => {
+    setPendingRequest(request);
+    try {
+      const body =
+        request === 'submit'
+          ? { reviewer_ids: selectedReviewers, comment }
+          : request === 'reviewers'
+            ? { reviewer_ids: selectedReviewers }
+            : { comment };
+
+      const response = await fetch(`/api/v1/sessions/${sessionId}/review/${request}`, {
+        method: request === 'reviewers' ? 'PUT' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      });
+      const result = await response.json();
+
+      if (!result.ok) {
+        throw new Error(result.error?.message || REQUEST_LABELS[request].failure);
+      }
+
+      setReview(result.data);
+      setComment('');
+      onReviewChanged();
+      toast({
+        title: REQUEST_LABELS[request].title,
+        description: `Session is now ${REVIEW_STATUS_LABELS[(result.data as SessionReview).review_status].toLowerCase()}`,
+      });
+    } catch (error) {
+      console.error('Failed to update review:', error);
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : REQUEST_LABELS[request].failure,
+        variant: 'destructive',
+      });
+    } finally {
+      setPendingRequest(null);
+    }
+  };
+
+  const toggleReviewer = (memberId: string, checked: boolean) => {
+    setSelectedReviewers((prev) =>
+      checked ? [...prev, memberId] : prev.filter((id) => id !== memberId)
+    );
+  };
+
+  const status = review?.review_status;
+  const myReview = review?.reviewers.find((reviewer) => reviewer.member_id === currentUserId);
+  const canSubmit = canEdit && (status === 'draft' || status === 'changes_requested');
+  const canChangeReviewers = canEdit && status === 'in_review';
+  const canDecide = !!myReview && status === 'in_review';
+  const canReopen = canEdit && (status === 'in_review' || status === 'approved');
+  const busy = pendingRequest !== null;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            Review
+            {status && (
+              <Badge variant={status === 'approved' ? 'default' : 'secondary'}>
+                {REVIEW_STATUS_LABELS[status]}
+              </Badge>
+            )}
+          </DialogTitle>
+          <DialogDescription>
+            Once every reviewer approves, the session is locked until an editor reopens it.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading || !review ? (
+          <p className="py-4 text-sm text-muted-foreground">Loading review...</p>
+        ) : (
+          <div className="max-h-[28rem] space-y-6 overflow-y-auto py-2">
+            {/* Reviewers */}
+            <div className="space-y-2">
+              <div className="text-sm font-medium">Reviewers</div>
+              {canSubmit || canChangeReviewers ? (
+                <div className="grid grid-cols-1 gap-2 rounded-md border p-3 sm:grid-cols-2">
+                  {members.map((member) => {
+                    const reviewer = review.reviewers.find((r) => r.member_id === member.id);
+                    return (
+                      <div key={member.id} className="flex items-center gap-2">
+                        <Checkbox
+                          id={`reviewer-${member.id}`}
+                          checked={selectedReviewers.includes(member.id)}
+                          onCheckedChange={(checked) => toggleReviewer(member.id, checked === true)}
+                        />
+                        <Label
+                          htmlFor={`reviewer-${member.id}`}
+                          className="flex-1 cursor-pointer truncate font-normal"
+                        >
+                          {member.name}
+                        </Label>
+                        {reviewer?.decision && status === 'in_review' && (
+                          <Badge variant="outline" className="text-xs">
+                            {reviewer.decision === 'approved' ? 'Approved' : 'Changes requested'}
+                          </Badge>
+                        )}
+                      </div>
+                    );
+                  })}
+                </div>
+              ) : review.reviewers.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No reviewers assigned</p>
+              ) : (
+                <ul className="divide-y rounded-md border">
+                  {review.reviewers.map((reviewer) => (
+                    <li
+                      key={reviewer.member_id}
+                      className="flex items-center justify-between gap-4 p-3 text-sm"
+                    >
+                      <span>{reviewer.name}</span>
+                      <Badge variant={reviewer.decision === 'approved' ? 'default' : 'outline'}>
+                        {reviewer.decision === 'approved'
+                          ? 'Approved'
+                          : reviewer.decision === 'changes_requested'
+                            ? 'Changes requested'
+                            : 'Pending'}
+                      </Badge>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+
+            {/* Actions */}
+            {(canSubmit || canChangeReviewers || canDecide || canReopen) && (
+              <div className="space-y-2">
+                <Label htmlFor="review-comment">Comment</Label>
+                <Textarea
+                  id="review-comment"
+                  value={comment}
+                  onChange={(e) => setComment(e.target.value)}
+                  placeholder={
+                    canDecide
+                      ? 'What should change, or any notes on your approval'
+                      : 'Optional note for the review history'
+                  }
+                  rows={3}
+                />
+                <div className="flex flex-wrap justify-end gap-2">
+                  {canReopen && (
+                    <Button variant="ghost" onClick={() => sendRequest('reopen')} disabled={busy}>
+                      {status === 'approved' ? 'Reopen' : 'Withdraw'}
+                    </Button>
+                  )}
+                  {canChangeReviewers && (
+                    <Button
+                      variant="outline"
+                      onClick={() => sendRequest('reviewers')}
+                      disabled={busy || selectedReviewers.length === 0}
+                    >
+                      Update Reviewers
+                    </Button>
+                  )}
+                  {canDecide && (
+                    <>
+                      <Button
+                        variant="outline"
+                        onClick={() => sendRequest('request-changes')}
+                        disabled={busy || !comment.trim()}
+                      >
+                        Request Changes
+                      </Button>
+                      <Button onClick={() => sendRequest('approve')} disabled={busy}>
+                        Approve
+                      </Button>
+                    </>
+                  )}
+                  {canSubmit && (
+                    <Button
+                      onClick={() => sendRequest('submit')}
+                      disabled={busy || selectedReviewers.length === 0}
+                    >
+                      Submit for Review
+                    </Button>
+                  )}
+                </div>
+              </div>
+            )}
+
+            {/* History */}
+            <div className="space-y-2">
+              <div className="text-sm font-medium">History</div>
+              {review.events.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No review activity yet</p>
+              ) : (
+                <ul className="space-y-2">
+                  {review.events.map((event) => (
+                    <li key={event.id} className="space-y-1 rounded-md border p-2 text-sm">
+                      <div className="flex items-center justify-between gap-2">
+                        <span className="font-medium">{describeEvent(event)}</span>
+                        <span className="text-xs text-muted-foreground">
+                          {event.member_name ?? 'Former member'} •{' '}
+                          {new Date(event.created_at).toLocaleString('en-US', {
+                            month: 'short',
+                            day: 'numeric',
+                            hour: 'numeric',
+                            minute: '2-digit',
+                          })}
+                        </span>
+                      </div>
+                      {event.comment && (
+                        <p className="whitespace-pre-wrap text-muted-foreground">{event.comment}</p>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -7,35 +7,105 @@
  * Handles section navigation and keyboard shortcuts
  */
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useCallback } from 'react';
 import { useRouter } from 'next/navigation';
-import { FileText, Upload } from 'lucide-react';
+import { ArrowUpCircle, ClipboardCheck, FileText, Lock, Upload } from 'lucide-react';
 
+import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { Separator } from '@/components/ui/separator';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { PageHeader } from '@/components/ui/page-header';
-import { SessionWithSections } from '@/features/sessions/types/session';
+import { SessionEvent, SessionWithSections } from '@/features/sessions/types/session';
+import { MemberRole } from '@/features/team/types/member';
 import { ImportDialog } from '@/features/sources/components/import-dialog';
 import { SuggestionBanner } from '@/features/ai/components/suggestion-banner';
 import { SectionNav } from './section-nav';
 import { SectionNotes } from './section-notes';
 import { SessionFooter } from './session-footer';
-import { FieldGrid } from './field-grid';
+import { FieldGrid, RemoteFieldUpdate } from './field-grid';
+import { UpgradeSessionDialog } from './upgrade-session-dialog';
+import { SessionPresence } from './session-presence';
+import { REVIEW_STATUS_LABELS, SessionReviewDialog } from './session-review-dialog';
+import { useSessionChannel } from '../hooks/use-session-channel';
+
+// Live edits kept for field grids that mount later; older ones are already in fetched values
+const MAX_REMOTE_UPDATES = 200;
 
 interface SessionShellProps {
   sessionData: SessionWithSections;
+  currentUserId: string;
+  currentUserRole: MemberRole | null;
 }
 
-export function SessionShell({ sessionData }: SessionShellProps) {
+export function SessionShell({ sessionData, currentUserId, currentUserRole }: SessionShellProps) {
   const router = useRouter();
-  const [currentSectionIndex, setCurrentSectionIndex] = useState(0);
+  const [currentSectionIndex, setCurrentSectionIndex] = useState(() =>
+    Math.max(
+      sessionData.sections.findIndex((section) => !section.hidden),
+      0
+    )
+  );
   const [validationErrors, setValidationErrors] = useState(0);
   const [suggestionRefreshKey, setSuggestionRefreshKey] = useState(0);
   const [fieldRefreshKey, setFieldRefreshKey] = useState(0);
   const [showImportDialog, setShowImportDialog] = useState(false);
+  const [showUpgradeDialog, setShowUpgradeDialog] = useState(false);
+  const [showReviewDialog, setShowReviewDialog] = useState(false);
+  const [remoteUpdates, setRemoteUpdates] = useState<RemoteFieldUpdate[]>([]);
+  const [remoteRefreshKey, setRemoteRefreshKey] = useState(0);
   const currentSection = sessionData.sections[currentSectionIndex];
 
+  // Live edits and presence from other members with this session open
+  const handleSessionEvent = useCallback(
+    (event: SessionEvent) => {
+      if (event.type === 'field_updated') {
+        setRemoteUpdates((prev) => {
+          let seq = prev[prev.length - 1]?.seq ?? 0;
+          const updates: RemoteFieldUpdate[] = [
+            { seq: ++seq, field_id: event.field_id, value: event.value, version: event.version },
+            ...Object.entries(event.computed_values).map(([fieldId, value]) => ({
+              seq: ++seq,
+              field_id: fieldId,
+              value,
+              version: null,
+            })),
+          ];
+          return [...prev, ...updates].slice(-MAX_REMOTE_UPDATES);
+        });
+        router.refresh();
+      } else if (event.type === 'values_changed') {
+        setRemoteRefreshKey((prev) => prev + 1);
+        setSuggestionRefreshKey((prev) => prev + 1);
+        router.refresh();
+      } else if (event.type === 'review_changed') {
+        router.refresh();
+      }
+    },
+    [router]
+  );
+  const { members } = useSessionChannel(
+    sessionData.id,
+    currentSection?.id ?? null,
+    handleSessionEvent
+  );
+  const otherMembers = members.filter((member) => member.member_id !== currentUserId);
+  const sectionTitles = Object.fromEntries(
+    sessionData.sections.map((section) => [section.id, section.title])
+  );
+  // Approved sessions are locked until an owner or editor reopens them
+  const locked = sessionData.review_status === 'approved';
+  const upgradeAvailable =
+    !locked && (sessionData.latest_blueprint_version ?? 0) > sessionData.blueprint_version;
+
+  // Sections hidden by visibility rules are skipped when navigating
+  const visibleIndexes = sessionData.sections
+    .map((section, index) => (section.hidden ? -1 : index))
+    .filter((index) => index !== -1);
+  const currentVisiblePosition = visibleIndexes.filter((i) => i < currentSectionIndex).length;
+  const previousIndex = [...visibleIndexes].reverse().find((i) => i < currentSectionIndex);
+  const nextIndex = visibleIndexes.find((i) => i > currentSectionIndex);
+
   // Keyboard navigation
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
@@ -46,26 +116,26 @@ export function SessionShell({ sessionData }: SessionShellProps) {
 
       if (e.key === 'j' || e.key === 'ArrowDown') {
         e.preventDefault();
-        setCurrentSectionIndex((prev) => Math.min(prev + 1, sessionData.sections.length - 1));
+        if (nextIndex !== undefined) setCurrentSectionIndex(nextIndex);
       } else if (e.key === 'k' || e.key === 'ArrowUp') {
         e.preventDefault();
-        setCurrentSectionIndex((prev) => Math.max(prev - 1, 0));
+        if (previousIndex !== undefined) setCurrentSectionIndex(previousIndex);
       }
     };
 
     window.addEventListener('keydown', handleKeyDown);
     return () => window.removeEventListener('keydown', handleKeyDown);
-  }, [sessionData.sections.length]);
+  }, [previousIndex, nextIndex]);
 
   const handleBack = () => {
-    if (currentSectionIndex > 0) {
-      setCurrentSectionIndex(currentSectionIndex - 1);
+    if (previousIndex !== undefined) {
+      setCurrentSectionIndex(previousIndex);
     }
   };
 
   const handleNext = () => {
-    if (currentSectionIndex < sessionData.sections.length - 1) {
-      setCurrentSectionIndex(currentSectionIndex + 1);
+    if (nextIndex !== undefined) {
+      setCurrentSectionIndex(nextIndex);
     }
   };
 
@@ -124,14 +194,43 @@ export function SessionShell({ sessionData }: SessionShellProps) {
     <div className="flex h-[calc(100vh-var(--topbar-height,4rem))] flex-col">
       <PageHeader
         title={sessionData.name}
-        subtitle={sessionData.blueprint_name}
+        subtitle={`${sessionData.blueprint_name} • v${sessionData.blueprint_version}`}
         backHref="/sessions"
         actions={
           <>
+            <SessionPresence members={otherMembers} sectionTitles={sectionTitles} />
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setShowReviewDialog(true)}
+              aria-label="Session review"
+            >
+              <ClipboardCheck className="h-4 w-4" />
+              <span className="hidden sm:inline">Review</span>
+              {sessionData.review_status !== 'draft' && (
+                <Badge variant="secondary" className="ml-1">
+                  {REVIEW_STATUS_LABELS[sessionData.review_status]}
+                </Badge>
+              )}
+            </Button>
+            {upgradeAvailable && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setShowUpgradeDialog(true)}
+                aria-label="Upgrade blueprint version"
+              >
+                <ArrowUpCircle className="h-4 w-4" />
+                <span className="hidden sm:inline">
+                  Upgrade to v{sessionData.latest_blueprint_version}
+                </span>
+              </Button>
+            )}
             <Button
               variant="outline"
               size="sm"
               onClick={() => setShowImportDialog(true)}
+              disabled={locked}
               aria-label="Import content"
             >
               <Upload className="h-4 w-4" />
@@ -166,10 +265,13 @@ export function SessionShell({ sessionData }: SessionShellProps) {
               onSelectSection={setCurrentSectionIndex}
               requiredProgress={calculateProgress().requiredProgress}
               overallProgress={calculateProgress().overallProgress}
+              presence={otherMembers}
             />
           </TabsContent>
 
           <TabsContent value="fields" className="mt-0 flex-1 overflow-y-auto p-4">
+            {locked && <LockedBanner onOpenReview={() => setShowReviewDialog(true)} />}
+
             {/* AI Suggestions Banner */}
             <SuggestionBanner key={suggestionRefreshKey} sessionId={sessionData.id} />
 
@@ -184,8 +286,13 @@ export function SessionShell({ sessionData }: SessionShellProps) {
               key={`mobile-${fieldRefreshKey}`}
               sessionId={sessionData.id}
               sectionId={currentSection.id}
+              sections={sessionData.sections}
+              fieldStates={sessionData.field_states}
               onProgressUpdate={handleProgressUpdate}
               onValidationChange={handleValidationChange}
+              remoteUpdates={remoteUpdates}
+              refreshKey={remoteRefreshKey}
+              readOnly={locked}
             />
           </TabsContent>
 
@@ -194,6 +301,7 @@ export function SessionShell({ sessionData }: SessionShellProps) {
               sessionId={sessionData.id}
               sectionId={currentSection.id}
               key={currentSection.id}
+              readOnly={locked}
             />
           </TabsContent>
         </Tabs>
@@ -209,12 +317,15 @@ export function SessionShell({ sessionData }: SessionShellProps) {
             onSelectSection={setCurrentSectionIndex}
             requiredProgress={calculateProgress().requiredProgress}
             overallProgress={calculateProgress().overallProgress}
+            presence={otherMembers}
           />
         </aside>
 
         {/* Center canvas - Current section fields */}
         <main className="flex-1 overflow-y-auto p-8">
           <div className="mx-auto max-w-4xl">
+            {locked && <LockedBanner onOpenReview={() => setShowReviewDialog(true)} />}
+
             {/* AI Suggestions Banner */}
             <SuggestionBanner key={suggestionRefreshKey} sessionId={sessionData.id} />
 
@@ -229,8 +340,13 @@ export function SessionShell({ sessionData }: SessionShellProps) {
               key={`desktop-${fieldRefreshKey}`}
               sessionId={sessionData.id}
               sectionId={currentSection.id}
+              sections={sessionData.sections}
+              fieldStates={sessionData.field_states}
               onProgressUpdate={handleProgressUpdate}
               onValidationChange={handleValidationChange}
+              remoteUpdates={remoteUpdates}
+              refreshKey={remoteRefreshKey}
+              readOnly={locked}
             />
           </div>
         </main>
@@ -241,14 +357,15 @@ export function SessionShell({ sessionData }: SessionShellProps) {
             sessionId={sessionData.id}
             sectionId={currentSection.id}
             key={currentSection.id} // Force remount on section change
+            readOnly={locked}
           />
         </aside>
       </div>
 
       {/* Sticky footer */}
       <SessionFooter
-        currentIndex={currentSectionIndex}
-        totalSections={sessionData.sections.length}
+        currentIndex={currentVisiblePosition}
+        totalSections={visibleIndexes.length}
         onBack={handleBack}
         onNext={handleNext}
         onHome={handleHome}
@@ -262,6 +379,38 @@ export function SessionShell({ sessionData }: SessionShellProps) {
         onOpenChange={setShowImportDialog}
         onImportComplete={handleImportComplete}
       />
+
+      {/* Review Dialog */}
+      <SessionReviewDialog
+        sessionId={sessionData.id}
+        currentUserId={currentUserId}
+        canEdit={currentUserRole === 'owner' || currentUserRole === 'editor'}
+        open={showReviewDialog}
+        onOpenChange={setShowReviewDialog}
+        onReviewChanged={() => router.refresh()}
+      />
+
+      {/* Upgrade Dialog */}
+      <UpgradeSessionDialog
+        sessionId={sessionData.id}
+        open={showUpgradeDialog}
+        onOpenChange={setShowUpgradeDialog}
+        onUpgraded={handleImportComplete}
+      />
+    </div>
+  );
+}
+
+function LockedBanner({ onOpenReview }: { onOpenReview: () => void }) {
+  return (
+    <div className="mb-6 flex items-center gap-3 rounded-lg border bg-muted/40 p-4 text-sm">
+      <Lock className="h-4 w-4 shrink-0 text-muted-foreground" />
+      <span className="flex-1">
+        This session is approved and locked. Reopen it from the review to make changes.
+      </span>
+      <Button variant="outline" size="sm" onClick={onOpenReview}>
+        View Review
+      </Button>
     </div>
   );
 }
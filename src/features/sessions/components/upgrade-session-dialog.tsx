@@ -0,0 +1,231 @@
+'use client';
+
+/**
+ * Upgrade Session Dialog
+ *
+ * Previews what changed in the latest blueprint version and moves the session onto it
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { useToast } from '@/hooks/use-toast';
+import { UpgradeFieldChange, UpgradePlan } from '@/features/sessions/utils/version-upgrade';
+
+interface UpgradePreview {
+  current_version: number;
+  latest_version: number;
+  upgrade_available: boolean;
+  plan: UpgradePlan | null;
+}
+
+interface UpgradeSessionDialogProps {
+  sessionId: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onUpgraded: () => void;
+}
+
+const CHANGE_LABELS: Record<UpgradeFieldChange['change'], string> = {
+  added: 'Added',
+  removed: 'Removed',
+  modified: 'Changed',
+  unchanged: 'Unchanged',
+};
+
+function describeOutcome(change: UpgradeFieldChange): string | null {
+  switch (change.value_outcome) {
+    case 'carried':
+      return change.change === 'modified' ? 'Value kept' : null;
+    case 'cleared':
+      return `Value cleared: ${change.reason}`;
+    case 'dropped':
+      return 'Value discarded';
+    default:
+      return null;
+  }
+}
+
+export function UpgradeSessionDialog({
+  sessionId,
+  open,
+  onOpenChange,
+  onUpgraded,
+}: UpgradeSessionDialogProps) {
+  const { toast } = useToast();
+  const [preview, setPreview] = useState<UpgradePreview | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isUpgrading, setIsUpgrading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchPreview = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/v1/sessions/${sessionId}/upgrade`);
+      const result = await response.json();
+
+      if (result.ok) {
+        setPreview(result.data);
+      } else {
+        setError(result.error?.message || 'Failed to load upgrade preview');
+      }
+    } catch (error) {
+      console.error('Failed to load upgrade preview:', error);
+      setError('Failed to load upgrade preview');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [sessionId]);
+
+  useEffect(() => {
+    if (open) {
+      fetchPreview();
+    }
+  }, [open, fetchPreview]);
+
+  const handleUpgrade = async () => {
+    if (!preview) return;
+
+    setIsUpgrading(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/v1/sessions/${sessionId}/upgrade`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ version: preview.latest_version }),
+      });
+      const result = await response.json();
+
+      if (result.ok) {
+        toast({
+          title: 'Session upgraded',
+          description: `Now using blueprint version ${result.data.version}`,
+        });
+        onOpenChange(false);
+        onUpgraded();
+      } else {
+        setError(result.error?.message || 'Failed to upgrade session');
+        // A newer version may have been published; show its preview instead
+        if (response.status === 409) {
+          fetchPreview();
+        }
+      }
+    } catch (error) {
+      console.error('Failed to upgrade session:', error);
+      setError('Failed to upgrade session');
+    } finally {
+      setIsUpgrading(false);
+    }
+  };
+
+  const changes = preview?.plan?.fields.filter((f) => f.change !== 'unchanged') ?? [];
+  const lostValues =
+    preview?.plan?.fields.filter(
+      (f) => f.value_outcome === 'cleared' || f.value_outcome === 'dropped'
+    ).length ?? 0;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>
+            {preview
+              ? `Upgrade from v${preview.current_version} to v${preview.latest_version}`
+              : 'Upgrade Session'}
+          </DialogTitle>
+          <DialogDescription>
+            Values carry over to matching fields. Values that no longer fit their field are cleared.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="max-h-96 space-y-4 overflow-y-auto py-2">
+          {isLoading && <p className="text-sm text-muted-foreground">Loading changes...</p>}
+
+          {!isLoading && preview && !preview.upgrade_available && (
+            <p className="text-sm text-muted-foreground">
+              This session already uses the latest blueprint version.
+            </p>
+          )}
+
+          {!isLoading && preview?.upgrade_available && changes.length === 0 && (
+            <p className="text-sm text-muted-foreground">No field changes in this version.</p>
+          )}
+
+          {changes.length > 0 && (
+            <ul className="divide-y rounded-md border">
+              {changes.map((change) => {
+                const outcome = describeOutcome(change);
+                return (
+                  <li
+                    key={change.from_field_id ?? change.to_field_id}
+                    className="flex items-start justify-between gap-4 p-3 text-sm"
+                  >
+                    <div>
+                      <div className="font-medium">{change.label}</div>
+                      <div className="font-mono text-xs text-muted-foreground">
+                        {change.previous_key
+                          ? `${change.previous_key} → ${change.key}`
+                          : change.key}
+                      </div>
+                      {outcome && (
+                        <div
+                          className={
+                            change.value_outcome === 'carried'
+                              ? 'mt-1 text-xs text-muted-foreground'
+                              : 'mt-1 text-xs text-destructive'
+                          }
+                        >
+                          {outcome}
+                        </div>
+                      )}
+                    </div>
+                    <Badge variant={change.change === 'removed' ? 'destructive' : 'secondary'}>
+                      {CHANGE_LABELS[change.change]}
+                    </Badge>
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+
+          {preview?.plan && preview.plan.dropped_notes.length > 0 && (
+            <p className="text-sm text-destructive">
+              Notes will be discarded for removed sections: {preview.plan.dropped_notes.join(', ')}
+            </p>
+          )}
+
+          {lostValues > 0 && (
+            <p className="text-sm text-destructive">
+              {lostValues} {lostValues === 1 ? 'value' : 'values'} will be lost.
+            </p>
+          )}
+
+          {error && (
+            <div className="rounded-md bg-destructive/10 p-3 text-sm text-destructive">{error}</div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isUpgrading}>
+            Cancel
+          </Button>
+          <Button
+            onClick={handleUpgrade}
+            disabled={isLoading || isUpgrading || !preview?.upgrade_available}
+          >
+            {isUpgrading ? 'Upgrading...' : 'Upgrade'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,83 @@
+/**
+ * Session Channel Hook
+ *
+ * Follows a session's live events and reports this member's presence
+ */
+
+import { useState, useEffect, useRef } from 'react';
+import { SessionEvent, SessionPresenceMember } from '../types/session';
+
+// Heartbeats keep the member listed; the server drops members after 60 seconds without one
+const HEARTBEAT_INTERVAL_MS = 20000;
+
+type SessionChannelState = {
+  members: SessionPresenceMember[];
+  connected: boolean;
+};
+
+export function useSessionChannel(
+  sessionId: string,
+  sectionId: string | null,
+  onEvent: (event: SessionEvent) => void
+): SessionChannelState {
+  const [state, setState] = useState<SessionChannelState>({ members: [], connected: false });
+  const onEventRef = useRef(onEvent);
+
+  useEffect(() => {
+    onEventRef.current = onEvent;
+  }, [onEvent]);
+
+  // Subscribe to events (EventSource reconnects on its own after errors)
+  useEffect(() => {
+    const source = new EventSource(`/api/v1/sessions/${sessionId}/events`);
+
+    source.onopen = () => {
+      setState((prev) => ({ ...prev, connected: true }));
+    };
+
+    source.onerror = () => {
+      setState((prev) => ({ ...prev, connected: false }));
+    };
+
+    source.onmessage = (message) => {
+      try {
+        const event = JSON.parse(message.data) as SessionEvent;
+
+        if (event.type === 'presence') {
+          setState((prev) => ({ ...prev, members: event.members }));
+        } else {
+          onEventRef.current(event);
+        }
+      } catch (err) {
+        console.error('Failed to handle session event:', err);
+      }
+    };
+
+    return () => {
+      source.close();
+    };
+  }, [sessionId]);
+
+  // Report the current section now and on every heartbeat
+  useEffect(() => {
+    const sendHeartbeat = async () => {
+      try {
+        await fetch(`/api/v1/sessions/${sessionId}/presence`, {
+          method: 'PUT',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ section_id: sectionId }),
+        });
+      } catch (err) {
+        console.error('Failed to update session presence:', err);
+        // Silent fail - presence is best effort
+      }
+    };
+
+    sendHeartbeat();
+    const interval = setInterval(sendHeartbeat, HEARTBEAT_INTERVAL_MS);
+
+    return () => clearInterval(interval);
+  }, [sessionId, sectionId]);
+
+  return state;
+}
@@ -2,20 +2,27 @@
  * Session type definitions
  */
 
-import { Section } from '@/features/blueprints/types/blueprint';
+import { FieldConfig, FieldType, Section } from '@/features/blueprints/types/blueprint';
+import { VisibilityFieldState } from '@/features/sessions/utils/visibility';
 
 export type SessionStatus = 'in_progress' | 'completed' | 'archived';
 
+export type SessionReviewStatus = 'draft' | 'in_review' | 'changes_requested' | 'approved';
+
 export interface Session {
   id: string;
   company_id: string;
-  blueprint_id: string;
+  blueprint_id: string; // Frozen blueprint version the session is pinned to
+  blueprint_version: number;
   name: string;
   status: SessionStatus;
+  review_status: SessionReviewStatus; // Approved sessions are locked (see migration 022)
   created_by: string;
   created_at: string;
   updated_at: string;
   blueprint_name?: string; // Computed field from JOIN query
+  root_blueprint_id?: string; // Computed field, editable blueprint the pinned version belongs to
+  latest_blueprint_version?: number; // Computed field, newest published version of the blueprint
   created_by_name?: string; // Computed field from JOIN with members
   created_by_email?: string; // Computed field from JOIN with members
   required_count?: number; // Computed field for progress
@@ -52,6 +59,35 @@ export interface CreateSessionRequest {
   name: string;
 }
 
+export interface DuplicateSessionRequest {
+  name: string;
+  blueprint_id?: string; // Published blueprint for the copy, defaults to the session's own
+  value_section_ids: string[]; // Sections of the session whose accepted values are copied
+  note_section_ids: string[]; // Sections of the session whose notes are copied
+  include_sources: boolean;
+  include_artifacts: boolean;
+}
+
+export interface DuplicateSessionResult {
+  session: Session;
+  copied_values: number;
+  skipped_values: number; // No matching field in the target blueprint, or invalid for it
+  copied_notes: number;
+  copied_sources: number;
+  copied_artifacts: number;
+}
+
+export type SessionExportFormat = 'csv' | 'xlsx';
+
+/**
+ * Session list filters applied to a cross-session export (see session-filters.tsx)
+ */
+export interface SessionExportFilters {
+  search?: string; // Session name contains
+  status?: SessionStatus;
+  owner?: string; // Creator member id
+}
+
 export interface UpdateSessionRequest {
   name?: string;
   status?: SessionStatus;
@@ -70,8 +106,165 @@ export interface SectionWithProgress extends Section {
   total_filled_count: number;
   completion_percentage: number;
   total_completion_percentage: number;
+  invalid_count: number; // Filled values that break a validation rule
+  hidden: boolean; // Visibility condition fails for the current values
 }
 
 export interface SessionWithSections extends Session {
   sections: SectionWithProgress[];
+  field_states: VisibilityFieldState[]; // Every field's visibility rule and value, for live evaluation
+}
+
+// Session snapshots (see migration 019): inputs an artifact was generated from
+
+export interface SessionSnapshotField {
+  field_id: string;
+  key: string;
+  label: string;
+  type: FieldType;
+  config: FieldConfig; // Kept so option and toggle values display as they did
+  section_key: string;
+  section_title: string;
+  value: string | null;
+}
+
+export interface SessionSnapshotNote {
+  section_id: string;
+  section_key: string;
+  section_title: string;
+  markdown: string;
+}
+
+export interface SessionSnapshotContent {
+  fields: SessionSnapshotField[];
+  notes: SessionSnapshotNote[];
+}
+
+export interface SessionSnapshot extends SessionSnapshotContent {
+  id: string;
+  session_id: string;
+  blueprint_id: string;
+  blueprint_version: number;
+  content_hash: string;
+  created_by: string | null;
+  created_at: string;
+}
+
+export interface ArtifactSnapshotResponse {
+  snapshot: SessionSnapshot;
+  current: SessionSnapshotContent; // Session's inputs now, for comparison
+  current_blueprint_version: number;
+}
+
+// Field value history (see migration 020)
+
+export type FieldValueOrigin = 'manual' | 'ai_accept' | 'import' | 'revert';
+
+export interface FieldValueHistoryEntry {
+  id: string;
+  session_id: string;
+  field_id: string;
+  previous_value: string | null;
+  value: string | null;
+  origin: FieldValueOrigin;
+  reverted_history_id: string | null;
+  changed_by: string | null;
+  changed_by_name: string | null; // Computed field from JOIN with members
+  field_key: string; // Computed field from JOIN with fields
+  field_label: string; // Computed field from JOIN with fields
+  created_at: string;
+}
+
+export interface RevertFieldValueResponse {
+  field_id: string;
+  value: string | null;
+  version: number; // Version of the restored value (see migration 021)
+  computed_values: Record<string, string>; // Recalculated Computed field values by field id
+  completion_percent: number;
+  status: string;
+}
+
+// Session collaboration (see migration 021): presence and live updates
+
+export interface SessionPresenceMember {
+  member_id: string;
+  name: string;
+  section_id: string | null; // Section the member is viewing
+  last_seen_at: string;
+}
+
+export type SessionEvent =
+  | { type: 'presence'; members: SessionPresenceMember[] }
+  | {
+      type: 'field_updated';
+      field_id: string;
+      value: string | null;
+      version: number;
+      computed_values: Record<string, string>; // Recalculated Computed field values by field id
+      completion_percent: number;
+      member_id: string;
+    }
+  | { type: 'values_changed'; member_id: string | null } // Bulk change (e.g., accept all); refetch values. Null member for background jobs
+  | { type: 'review_changed'; review_status: SessionReviewStatus; member_id: string };
+
+export interface FieldValueConflictDetails {
+  field_id: string;
+  current_value: string | null; // Accepted value saved by the other member
+  current_version: number;
+  changed_by_name: string | null;
+}
+
+// Session review (see migration 022): sign-off workflow
+
+export type SessionReviewAction =
+  | 'submitted'
+  | 'reviewer_assigned'
+  | 'reviewer_removed'
+  | 'approved'
+  | 'changes_requested'
+  | 'reopened';
+
+export type ReviewDecision = 'approved' | 'changes_requested';
+
+export interface SessionReviewer {
+  member_id: string;
+  name: string; // Computed field from JOIN with members
+  email: string; // Computed field from JOIN with members
+  assigned_by: string | null;
+  decision: ReviewDecision | null; // Decision in the current round
+  decided_at: string | null;
+  created_at: string;
+}
+
+export interface SessionReviewEvent {
+  id: string;
+  session_id: string;
+  action: SessionReviewAction;
+  from_status: SessionReviewStatus;
+  to_status: SessionReviewStatus;
+  comment: string | null;
+  reviewer_id: string | null;
+  reviewer_name: string | null; // Computed field from JOIN with members
+  member_id: string | null;
+  member_name: string | null; // Computed field from JOIN with members
+  created_at: string;
+}
+
+export interface SessionReview {
+  review_status: SessionReviewStatus;
+  reviewers: SessionReviewer[];
+  events: SessionReviewEvent[]; // Newest first
+}
+
+export interface SubmitSessionReviewRequest {
+  reviewer_ids: string[];
+  comment?: string;
+}
+
+export interface UpdateSessionReviewersRequest {
+  reviewer_ids: string[];
+}
+
+export interface ReviewCommentRequest {
+  comment?: string; // Required when requesting changes
 }
@@ -0,0 +1,96 @@
+/**
+ * Computed Field Utility
+ *
+ * Evaluates Computed field expressions against the other values in a session.
+ */
+
+import { Field } from '@/features/blueprints/types/blueprint';
+import {
+  evaluateExpression,
+  ExpressionNode,
+  ExpressionValue,
+  parseExpression,
+  serializeExpressionValue,
+} from '@/features/blueprints/utils/expression';
+import { formatFieldValueForDisplay, parseGroupValue, parseNumberValue } from './field-value';
+
+/**
+ * Field definition plus its current session value, as needed to compute values
+ */
+export type ComputedFieldState = Pick<Field, 'id' | 'key' | 'type' | 'label' | 'config'> & {
+  value?: string | null;
+};
+
+/**
+ * Convert a stored input value to what an expression sees
+ *
+ * Numbers become numbers, option and toggle values become their labels,
+ * repeatable groups become their row count, and everything else stays text.
+ */
+function toExpressionValue(field: ComputedFieldState, value: string | null | undefined) {
+  if (value === null || value === undefined || value === '') return null;
+
+  switch (field.type) {
+    case 'Number':
+    case 'Currency':
+    case 'Computed':
+      return parseNumberValue(value) ?? value;
+    case 'Toggle':
+    case 'Select':
+    case 'MultiSelect':
+      return formatFieldValueForDisplay(field, value) || null;
+    case 'RepeatableGroup':
+      return parseGroupValue(value).length;
+    default:
+      return value;
+  }
+}
+
+/**
+ * Compute the value of every Computed field in a blueprint
+ *
+ * Computed fields may reference each other; they are evaluated on demand so
+ * order doesn't matter. A reference cycle (rejected by the blueprint editor,
+ * but possible in old data) evaluates to empty.
+ *
+ * @param fields - Fields in the blueprint with their session values
+ * @returns Stored text value ('' when empty) keyed by Computed field id
+ */
+export function computeFieldValues(fields: ComputedFieldState[]): Map<string, string> {
+  const fieldsByKey = new Map(fields.map((f) => [f.key, f]));
+  const expressions = new Map<string, ExpressionNode | null>();
+  const results = new Map<string, ExpressionValue>();
+  const evaluating = new Set<string>();
+
+  function computedValue(field: ComputedFieldState): ExpressionValue {
+    if (results.has(field.id)) return results.get(field.id) ?? null;
+    if (evaluating.has(field.id)) return null;
+
+    if (!expressions.has(field.id)) {
+      expressions.set(field.id, parseExpression(field.config?.expression ?? '').ast);
+    }
+    const ast = expressions.get(field.id);
+
+    evaluating.add(field.id);
+    const value = ast ? evaluateExpression(ast, resolve) : null;
+    evaluating.delete(field.id);
+
+    results.set(field.id, value);
+    return value;
+  }
+
+  function resolve(key: string): ExpressionValue {
+    const field = fieldsByKey.get(key);
+    if (!field) return null;
+    if (field.type === 'Computed') return computedValue(field);
+    return toExpressionValue(field, field.value);
+  }
+
+  const values = new Map<string, string>();
+  fields.forEach((field) => {
+    if (field.type === 'Computed') {
+      values.set(field.id, serializeExpressionValue(computedValue(field)));
+    }
+  });
+  return values;
+}
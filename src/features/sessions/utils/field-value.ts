@@ -0,0 +1,805 @@
+/**
+ * Field Value Utility
+ *
+ * Parsing, serialization, and validation of session field values by field type.
+ * All values are stored as text in session_field_values.value.
+ */
+
+import { Field, SubField, ValidationFormat } from '@/features/blueprints/types/blueprint';
+import { DateFormat } from '@/features/blueprints/types/generator';
+import { SuggestedValue } from '@/features/ai/types/mapping';
+
+type FieldDefinition = Pick<Field, 'type' | 'label' | 'config'>;
+
+/**
+ * Locale used for number and date formatting when none is provided
+ */
+export const DEFAULT_LOCALE = 'en-US';
+
+/**
+ * Options for rendering values as display text
+ */
+export interface ValueFormatOptions {
+  locale?: string; // BCP 47 locale tag (defaults to en-US)
+  dateFormat?: DateFormat; // Defaults to iso
+}
+
+/**
+ * Parse a stored Number/Currency value (canonical form: "1234.5")
+ *
+ * @returns The number, or null if the value is empty or not numeric
+ */
+export function parseNumberValue(value: string | null | undefined): number | null {
+  if (value === null || value === undefined || value.trim() === '') return null;
+  if (!/^-?\d+(\.\d+)?$/.test(value.trim())) return null;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : null;
+}
+
+/**
+ * Format a Number/Currency value with locale-aware grouping and decimals
+ *
+ * @param field - Field definition (unit and currency come from config)
+ * @param value - Stored value
+ * @param locale - BCP 47 locale tag
+ * @returns Formatted value, or the raw value if it isn't numeric
+ */
+export function formatNumberValue(
+  field: FieldDefinition,
+  value: string,
+  locale: string = DEFAULT_LOCALE
+): string {
+  const parsed = parseNumberValue(value);
+  if (parsed === null) return value;
+
+  if (field.type === 'Currency') {
+    return new Intl.NumberFormat(locale, {
+      style: 'currency',
+      currency: field.config?.currency || 'USD',
+    }).format(parsed);
+  }
+
+  const formatted = new Intl.NumberFormat(locale, { maximumFractionDigits: 20 }).format(parsed);
+  return field.config?.unit ? `${formatted} ${field.config.unit}` : formatted;
+}
+
+/**
+ * Parse a YYYY-MM-DD string into a UTC date, rejecting impossible days
+ */
+function parseIsoDate(value: string): Date | null {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value);
+  if (!match) return null;
+
+  const year = Number(match[1]);
+  const month = Number(match[2]);
+  const day = Number(match[3]);
+  const date = new Date(Date.UTC(year, month - 1, day));
+  return date.getUTCFullYear() === year &&
+    date.getUTCMonth() === month - 1 &&
+    date.getUTCDate() === day
+    ? date
+    : null;
+}
+
+/**
+ * Check whether a value is a real calendar date in YYYY-MM-DD form
+ */
+export function isIsoDate(value: string): boolean {
+  return parseIsoDate(value) !== null;
+}
+
+/**
+ * Parse a stored DateRange value (ISO 8601 interval: "2025-03-01/2025-03-14")
+ *
+ * @returns Start and end dates, or null if the value isn't an interval
+ */
+export function parseDateRangeValue(
+  value: string | null | undefined
+): { start: string; end: string } | null {
+  if (!value) return null;
+  const [start, end, ...rest] = value.split('/');
+  if (start === undefined || end === undefined || rest.length > 0) return null;
+  return { start: start.trim(), end: end.trim() };
+}
+
+/**
+ * Serialize DateRange dates for storage (no dates stores '')
+ */
+export function serializeDateRangeValue(start: string, end: string): string {
+  return start || end ? `${start}/${end}` : '';
+}
+
+/**
+ * Format an ISO date using a date format preset
+ *
+ * Dates are formatted in UTC so the calendar day never shifts.
+ *
+ * @param value - Date in YYYY-MM-DD form
+ * @param dateFormat - Preset chosen by the generator
+ * @param locale - BCP 47 locale tag
+ * @returns Formatted date, or the raw value if it isn't an ISO date
+ */
+export function formatDateValue(
+  value: string,
+  dateFormat: DateFormat = 'iso',
+  locale: string = DEFAULT_LOCALE
+): string {
+  const date = parseIsoDate(value);
+  if (dateFormat === 'iso' || !date) return value;
+
+  return new Intl.DateTimeFormat(locale, { dateStyle: dateFormat, timeZone: 'UTC' }).format(date);
+}
+
+/**
+ * One row of a RepeatableGroup value, keyed by sub-field key
+ *
+ * Cells are stored as text in the same form as the matching field type
+ * (e.g. "true" for Toggle, "2025-03-14" for Date).
+ */
+export type GroupRow = Record<string, string>;
+
+/**
+ * Build a field definition for a RepeatableGroup column so cells can reuse
+ * the per-type formatting and validation
+ */
+export function getSubFieldDefinition(sub: SubField): FieldDefinition {
+  return { type: sub.type, label: sub.label, config: {} };
+}
+
+/**
+ * Parse a stored RepeatableGroup value (JSON array of row objects)
+ *
+ * Non-string cells are converted to text; anything that isn't an array of
+ * objects parses as no rows.
+ */
+export function parseGroupValue(value: string | null | undefined): GroupRow[] {
+  if (!value) return [];
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(value);
+  } catch {
+    return [];
+  }
+  if (!Array.isArray(parsed)) return [];
+
+  return parsed
+    .filter((row): row is Record<string, unknown> => !!row && typeof row === 'object')
+    .map((row) =>
+      Object.fromEntries(
+        Object.entries(row)
+          .filter(([, cell]) => cell !== null && cell !== undefined)
+          .map(([key, cell]) => [key, String(cell)])
+      )
+    );
+}
+
+/**
+ * Serialize RepeatableGroup rows for storage
+ *
+ * Rows with no filled cells are dropped; no rows stores ''.
+ */
+export function serializeGroupValue(rows: GroupRow[]): string {
+  const filled = rows.filter((row) => Object.values(row).some((cell) => cell.trim() !== ''));
+  return filled.length > 0 ? JSON.stringify(filled) : '';
+}
+
+/**
+ * Format a RepeatableGroup value as a markdown table
+ *
+ * @param field - Field definition (columns come from config.sub_fields)
+ * @param value - Stored value
+ * @param options - Locale and date format for cells
+ * @returns Markdown table, or '' when there are no rows
+ */
+export function formatGroupValue(
+  field: FieldDefinition,
+  value: string,
+  options: ValueFormatOptions = {}
+): string {
+  const subFields = field.config?.sub_fields ?? [];
+  const rows = parseGroupValue(value);
+  if (rows.length === 0 || subFields.length === 0) return '';
+
+  // Pipes would split cells and newlines would end the row
+  const escapeCell = (text: string) => text.replace(/\|/g, '\\|').replace(/\r?\n/g, ' ');
+
+  const header = `| ${subFields.map((sub) => escapeCell(sub.label)).join(' | ')} |`;
+  const divider = `| ${subFields.map(() => '---').join(' | ')} |`;
+  const body = rows.map(
+    (row) =>
+      `| ${subFields
+        .map((sub) =>
+          escapeCell(formatFieldValueForDisplay(getSubFieldDefinition(sub), row[sub.key], options))
+        )
+        .join(' | ')} |`
+  );
+
+  return [header, divider, ...body].join('\n');
+}
+
+/**
+ * Validate a RepeatableGroup value: an array of row objects whose keys are
+ * sub-field keys and whose cells fit the sub-field types
+ */
+function validateGroupValue(field: FieldDefinition, value: string): string | null {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(value);
+  } catch {
+    return `${field.label} must be a JSON array of rows`;
+  }
+  if (!Array.isArray(parsed)) {
+    return `${field.label} must be a JSON array of rows`;
+  }
+
+  const subFields = field.config?.sub_fields ?? [];
+  for (const [index, row] of parsed.entries()) {
+    if (!row || typeof row !== 'object' || Array.isArray(row)) {
+      return `${field.label} row ${index + 1} must be an object`;
+    }
+
+    for (const [key, cell] of Object.entries(row as Record<string, unknown>)) {
+      const sub = subFields.find((s) => s.key === key);
+      if (!sub) {
+        return `${field.label} row ${index + 1} has an unknown column "${key}"`;
+      }
+      if (typeof cell !== 'string') {
+        return `${field.label} row ${index + 1}: ${sub.label} must be text`;
+      }
+      const cellError = validateFieldValue(getSubFieldDefinition(sub), cell);
+      if (cellError) {
+        return `${field.label} row ${index + 1}: ${cellError}`;
+      }
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Parse a stored MultiSelect value into its option values
+ *
+ * Values are stored as a JSON array. Comma-separated text (e.g. from a field
+ * that was previously ShortText) is tolerated.
+ */
+export function parseMultiSelectValue(value: string | null | undefined): string[] {
+  if (!value) return [];
+
+  try {
+    const parsed = JSON.parse(value);
+    if (Array.isArray(parsed)) {
+      return parsed.filter((v): v is string => typeof v === 'string');
+    }
+  } catch {
+    // Fall through to comma-separated parsing
+  }
+
+  return value
+    .split(',')
+    .map((v) => v.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Serialize MultiSelect option values for storage (empty selection stores '')
+ */
+export function serializeMultiSelectValue(values: string[]): string {
+  return values.length > 0 ? JSON.stringify(values) : '';
+}
+
+/**
+ * Look up the display label for an option value
+ */
+export function getOptionLabel(field: FieldDefinition, value: string): string {
+  return field.config?.options?.find((o) => o.value === value)?.label ?? value;
+}
+
+/**
+ * Format a stored value for display (option values are shown as labels,
+ * numbers and dates are formatted for the locale)
+ *
+ * @param field - Field definition
+ * @param value - Stored value
+ * @param options - Locale and date format
+ * @returns Display string ('' for empty values)
+ */
+export function formatFieldValueForDisplay(
+  field: FieldDefinition,
+  value: string | null | undefined,
+  options: ValueFormatOptions = {}
+): string {
+  if (value === null || value === undefined || value === '') return '';
+
+  const locale = options.locale || DEFAULT_LOCALE;
+
+  switch (field.type) {
+    case 'Toggle':
+      return value === 'true' ? 'Yes' : 'No';
+    case 'Select':
+      return getOptionLabel(field, value);
+    case 'MultiSelect':
+      return parseMultiSelectValue(value)
+        .map((v) => getOptionLabel(field, v))
+        .join(', ');
+    case 'Number':
+    case 'Currency':
+    case 'Computed':
+      // Computed results that aren't numeric are shown as-is
+      return formatNumberValue(field, value, locale);
+    case 'Date':
+      return formatDateValue(value, options.dateFormat, locale);
+    case 'DateRange': {
+      const range = parseDateRangeValue(value);
+      if (!range) return value;
+      return `${formatDateValue(range.start, options.dateFormat, locale)} – ${formatDateValue(
+        range.end,
+        options.dateFormat,
+        locale
+      )}`;
+    }
+    case 'RepeatableGroup':
+      return formatGroupValue(field, value, options);
+    default:
+      return value;
+  }
+}
+
+/**
+ * Convert a stored value to its JSON representation (used by fields_json)
+ *
+ * Toggles become booleans, Select becomes the option label, MultiSelect
+ * becomes an array of option labels, Number/Currency become JSON numbers, and
+ * DateRange becomes { start, end } (dates stay ISO), and RepeatableGroup
+ * becomes an array of row objects with each cell converted by its sub-field
+ * type. Numeric Computed results become JSON numbers. Empty values become
+ * null ([] for MultiSelect and RepeatableGroup).
+ */
+export function fieldValueToJson(
+  field: FieldDefinition,
+  value: string | null | undefined
+): unknown {
+  if (value === null || value === undefined || value === '') {
+    return field.type === 'MultiSelect' || field.type === 'RepeatableGroup' ? [] : null;
+  }
+
+  switch (field.type) {
+    case 'Toggle':
+      return value === 'true' ? true : value === 'false' ? false : null;
+    case 'Select':
+      return getOptionLabel(field, value);
+    case 'MultiSelect':
+      return parseMultiSelectValue(value).map((v) => getOptionLabel(field, v));
+    case 'Number':
+    case 'Currency':
+    case 'Computed':
+      // Legacy non-numeric text (and text results) is passed through rather than dropped
+      return parseNumberValue(value) ?? value;
+    case 'DateRange':
+      return parseDateRangeValue(value) ?? value;
+    case 'RepeatableGroup': {
+      const subFields = field.config?.sub_fields ?? [];
+      return parseGroupValue(value).map((row) =>
+        Object.fromEntries(
+          subFields.map((sub) => [
+            sub.key,
+            fieldValueToJson(getSubFieldDefinition(sub), row[sub.key]),
+          ])
+        )
+      );
+    }
+    default:
+      return value;
+  }
+}
+
+/**
+ * Validate a value against its field definition
+ *
+ * Empty values are always accepted here; required checks happen separately.
+ *
+ * @param field - Field definition
+ * @param value - Value to validate
+ * @returns Error message, or null if valid
+ */
+export function validateFieldValue(field: FieldDefinition, value: string): string | null {
+  if (value === '') return null;
+
+  switch (field.type) {
+    case 'Toggle':
+      return value === 'true' || value === 'false' ? null : `${field.label} must be true or false`;
+    case 'Select': {
+      const allowed = (field.config?.options ?? []).map((o) => o.value);
+      return allowed.includes(value) ? null : `${field.label} must be one of the listed options`;
+    }
+    case 'MultiSelect': {
+      let parsed: unknown;
+      try {
+        parsed = JSON.parse(value);
+      } catch {
+        return `${field.label} must be a JSON array of options`;
+      }
+      if (!Array.isArray(parsed)) {
+        return `${field.label} must be a JSON array of options`;
+      }
+      const allowed = (field.config?.options ?? []).map((o) => o.value);
+      const invalid = parsed.filter((v) => typeof v !== 'string' || !allowed.includes(v));
+      return invalid.length === 0 ? null : `${field.label} contains options that are not allowed`;
+    }
+    case 'Number':
+    case 'Currency':
+      return validateNumberValue(field, value);
+    case 'Date':
+      return isIsoDate(value) ? null : `${field.label} must be a date (YYYY-MM-DD)`;
+    case 'DateRange': {
+      const range = parseDateRangeValue(value);
+      if (!range || !isIsoDate(range.start) || !isIsoDate(range.end)) {
+        return `${field.label} must have a start and end date (YYYY-MM-DD)`;
+      }
+      return range.end < range.start ? `${field.label} must end on or after its start` : null;
+    }
+    case 'RepeatableGroup':
+      return validateGroupValue(field, value);
+    default:
+      return null;
+  }
+}
+
+export type ValidationRuleName = 'pattern' | 'min_length' | 'max_length' | 'format';
+
+export interface FieldRuleViolation {
+  rule: ValidationRuleName;
+  message: string;
+}
+
+const FORMAT_CHECKS: Record<ValidationFormat, (value: string) => boolean> = {
+  email: (value) => /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(value),
+  url: (value) => {
+    try {
+      const url = new URL(value);
+      return url.protocol === 'http:' || url.protocol === 'https:';
+    } catch {
+      return false;
+    }
+  },
+  phone: (value) => /^\+?[\d\s().-]+$/.test(value) && value.replace(/\D/g, '').length >= 7,
+};
+
+const FORMAT_DESCRIPTIONS: Record<ValidationFormat, string> = {
+  email: 'an email address',
+  url: 'a URL starting with http:// or https://',
+  phone: 'a phone number',
+};
+
+/**
+ * Check a value against the field's declarative validation rules
+ *
+ * Empty values are always accepted here; required checks happen separately.
+ * Patterns must match the whole value. A custom rule message replaces the
+ * default message for every rule.
+ *
+ * @param field - Field definition with its rules
+ * @param value - Value to check
+ * @returns The first rule broken, or null if the value passes
+ */
+export function validateFieldRules(
+  field: Pick<Field, 'label' | 'validation'>,
+  value: string
+): FieldRuleViolation | null {
+  const rules = field.validation;
+  if (!rules || value === '') return null;
+
+  const violation = (rule: ValidationRuleName, message: string): FieldRuleViolation => ({
+    rule,
+    message: rules.message || message,
+  });
+
+  if (rules.min_length !== undefined && value.length < rules.min_length) {
+    return violation(
+      'min_length',
+      `${field.label} must be at least ${rules.min_length} characters`
+    );
+  }
+
+  if (rules.max_length !== undefined && value.length > rules.max_length) {
+    return violation('max_length', `${field.label} must be at most ${rules.max_length} characters`);
+  }
+
+  if (rules.format && !FORMAT_CHECKS[rules.format](value.trim())) {
+    return violation('format', `${field.label} must be ${FORMAT_DESCRIPTIONS[rules.format]}`);
+  }
+
+  if (rules.pattern) {
+    let matches = true;
+    try {
+      matches = new RegExp(`^(?:${rules.pattern})$`).test(value);
+    } catch {
+      // Patterns are checked when saved; skip one that no longer compiles
+    }
+    if (!matches) {
+      return violation('pattern', `${field.label} is not in the expected format`);
+    }
+  }
+
+  return null;
+}
+
+type DateFieldDefinition = Pick<Field, 'key' | 'type' | 'label' | 'config'>;
+type DateFieldValue = DateFieldDefinition & { value: string | null };
+
+/**
+ * Earliest and latest dates held by a Date or DateRange value
+ */
+function getDateBounds(
+  type: Field['type'],
+  value: string | null
+): { earliest: string; latest: string } | null {
+  if (!value) return null;
+  if (type === 'Date') {
+    return isIsoDate(value) ? { earliest: value, latest: value } : null;
+  }
+  if (type === 'DateRange') {
+    const range = parseDateRangeValue(value);
+    return range && isIsoDate(range.start) && isIsoDate(range.end)
+      ? { earliest: range.start, latest: range.end }
+      : null;
+  }
+  return null;
+}
+
+/**
+ * Check cross-field date rules (config.after_field) for a new value
+ *
+ * Checks both directions: the field can't precede the field it names, and
+ * fields that name it can't end up preceding it. Empty values are skipped.
+ *
+ * @param field - Field being saved
+ * @param value - New value
+ * @param others - Other date fields in the blueprint with their current values
+ * @returns Error message, or null if valid
+ */
+export function validateDateOrder(
+  field: DateFieldDefinition,
+  value: string,
+  others: DateFieldValue[]
+): string | null {
+  const bounds = getDateBounds(field.type, value);
+  if (!bounds) return null;
+
+  const after = field.config?.after_field
+    ? others.find((o) => o.key === field.config.after_field)
+    : undefined;
+  if (after) {
+    const afterBounds = getDateBounds(after.type, after.value);
+    if (afterBounds && bounds.earliest < afterBounds.latest) {
+      return `${field.label} must be on or after ${after.label}`;
+    }
+  }
+
+  for (const other of others) {
+    if (other.config?.after_field !== field.key) continue;
+    const otherBounds = getDateBounds(other.type, other.value);
+    if (otherBounds && otherBounds.earliest < bounds.latest) {
+      return `${field.label} must be on or before ${other.label}`;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Validate a Number/Currency value against min, max, and step
+ */
+function validateNumberValue(field: FieldDefinition, value: string): string | null {
+  const parsed = parseNumberValue(value);
+  if (parsed === null) {
+    return `${field.label} must be a number`;
+  }
+
+  const { min, max, step } = field.config ?? {};
+
+  if (min !== undefined && parsed < min) {
+    return `${field.label} must be at least ${min}`;
+  }
+
+  if (max !== undefined && parsed > max) {
+    return `${field.label} must be at most ${max}`;
+  }
+
+  if (step !== undefined) {
+    // Steps are counted from min (or 0), with a tolerance for float rounding
+    const steps = (parsed - (min ?? 0)) / step;
+    if (Math.abs(steps - Math.round(steps)) > 1e-9) {
+      return `${field.label} must be in increments of ${step}`;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Match an AI-suggested value to a field's option list
+ *
+ * Accepts option values or labels (case-insensitive). MultiSelect accepts an
+ * array or comma-separated text. Options that don't match are dropped.
+ *
+ * @param field - Field definition
+ * @param suggested - Raw value returned by the mapper
+ * @returns Storable value, or null if nothing matched
+ */
+export function coerceOptionValue(
+  field: FieldDefinition,
+  suggested: string | string[]
+): string | null {
+  const options = field.config?.options ?? [];
+  const match = (candidate: string) => {
+    const needle = candidate.trim().toLowerCase();
+    return options.find((o) => o.value.toLowerCase() === needle || o.label.toLowerCase() === needle)
+      ?.value;
+  };
+
+  if (field.type === 'Select') {
+    const candidate = Array.isArray(suggested) ? suggested[0] : suggested;
+    return candidate ? (match(candidate) ?? null) : null;
+  }
+
+  const candidates = Array.isArray(suggested) ? suggested : parseMultiSelectValue(suggested);
+  const matched = Array.from(
+    new Set(candidates.map(match).filter((v): v is string => v !== undefined))
+  );
+  return matched.length > 0 ? serializeMultiSelectValue(matched) : null;
+}
+
+/**
+ * Extract a single number from AI-suggested text (e.g. "$1,299.00" -> "1299")
+ *
+ * Text with more than one number (ranges like "50-60") is rejected.
+ *
+ * @returns Canonical numeric string, or null if no single number was found
+ */
+export function coerceNumberValue(suggested: string | string[]): string | null {
+  const text = Array.isArray(suggested) ? suggested.join(' ') : String(suggested);
+  const matches = text.match(/-?\d[\d,]*(\.\d+)?/g);
+  if (!matches || matches.length !== 1) return null;
+
+  const parsed = Number(matches[0].replace(/,/g, ''));
+  return Number.isFinite(parsed) ? String(parsed) : null;
+}
+
+/**
+ * Normalize one AI-suggested date to YYYY-MM-DD
+ *
+ * ISO dates pass through; other unambiguous text (e.g. "March 3, 2025") is
+ * parsed as a calendar date.
+ */
+function coerceDate(text: string): string | null {
+  const trimmed = text.trim();
+  const isoPrefix = /^\d{4}-\d{2}-\d{2}/.exec(trimmed)?.[0];
+  if (isoPrefix) return isIsoDate(isoPrefix) ? isoPrefix : null;
+
+  // Only accept text that names a year, so "March 3" doesn't silently pick one
+  if (!/\b\d{4}\b/.test(trimmed)) return null;
+
+  const parsed = new Date(trimmed);
+  if (Number.isNaN(parsed.getTime())) return null;
+
+  const year = parsed.getFullYear();
+  const month = String(parsed.getMonth() + 1).padStart(2, '0');
+  const day = String(parsed.getDate()).padStart(2, '0');
+  return `${year}-${month}-${day}`;
+}
+
+/**
+ * Convert an AI-suggested date or date range to its stored form
+ *
+ * DateRange accepts [start, end], an ISO interval ("start/end"), or text
+ * joined by "to", "through", or a spaced dash.
+ *
+ * @returns Storable value, or null if the text isn't a usable date
+ */
+export function coerceDateValue(
+  field: FieldDefinition,
+  suggested: string | string[]
+): string | null {
+  if (field.type === 'Date') {
+    const text = Array.isArray(suggested) ? suggested[0] : suggested;
+    return text ? coerceDate(text) : null;
+  }
+
+  const parts = Array.isArray(suggested)
+    ? suggested
+    : suggested.split(/\/|\s+(?:to|through|until)\s+|\s+[-–—]\s+/i);
+  const [startText, endText, ...rest] = parts;
+  if (startText === undefined || endText === undefined || rest.length > 0) return null;
+
+  const start = coerceDate(startText);
+  const end = coerceDate(endText);
+  if (!start || !end || end < start) return null;
+  return serializeDateRangeValue(start, end);
+}
+
+/**
+ * Convert AI-suggested rows into a stored RepeatableGroup value
+ *
+ * Accepts an array of row objects (or its JSON text). Cells are matched to
+ * sub-fields by key or label and coerced to the sub-field type; cells that
+ * don't fit are left empty and empty rows are dropped.
+ *
+ * @returns Storable value, or null if no row had a usable cell
+ */
+export function coerceGroupValue(field: FieldDefinition, suggested: SuggestedValue): string | null {
+  let rows: unknown = suggested;
+  if (typeof suggested === 'string') {
+    try {
+      rows = JSON.parse(suggested);
+    } catch {
+      return null;
+    }
+  }
+  if (!Array.isArray(rows)) return null;
+
+  const subFields = field.config?.sub_fields ?? [];
+  const coerced = rows
+    .filter((row): row is Record<string, unknown> => !!row && typeof row === 'object')
+    .map((row) => {
+      const result: GroupRow = {};
+      for (const [rawKey, rawCell] of Object.entries(row)) {
+        const needle = rawKey.trim().toLowerCase();
+        const sub = subFields.find(
+          (s) => s.key.toLowerCase() === needle || s.label.toLowerCase() === needle
+        );
+        if (!sub || rawCell === null || rawCell === undefined) continue;
+
+        const cell = coerceSuggestedValue(getSubFieldDefinition(sub), String(rawCell));
+        if (cell && !validateFieldValue(getSubFieldDefinition(sub), cell)) {
+          result[sub.key] = cell;
+        }
+      }
+      return result;
+    });
+
+  const serialized = serializeGroupValue(coerced);
+  return serialized || null;
+}
+
+/**
+ * Convert a raw AI-suggested value into a storable value for the field type
+ *
+ * @param field - Field definition
+ * @param suggested - Raw value returned by the mapper
+ * @returns Storable value, or null if the suggestion doesn't fit the field
+ */
+export function coerceSuggestedValue(
+  field: FieldDefinition,
+  suggested: SuggestedValue
+): string | null {
+  if (field.type === 'RepeatableGroup') {
+    return coerceGroupValue(field, suggested);
+  }
+
+  // Row objects only make sense for RepeatableGroup
+  if (Array.isArray(suggested) && suggested.some((v) => typeof v !== 'string')) {
+    return null;
+  }
+  const text = suggested as string | string[];
+
+  switch (field.type) {
+    case 'Select':
+    case 'MultiSelect':
+      return coerceOptionValue(field, text);
+    case 'Number':
+    case 'Currency':
+      return coerceNumberValue(text);
+    case 'Date':
+    case 'DateRange':
+      return coerceDateValue(field, text);
+    case 'Toggle': {
+      const answer = (Array.isArray(text) ? text[0] : text)?.trim().toLowerCase();
+      if (answer === 'true' || answer === 'yes') return 'true';
+      if (answer === 'false' || answer === 'no') return 'false';
+      return null;
+    }
+    default:
+      return Array.isArray(text) ? text.join(', ') : text;
+  }
+}
@@ -0,0 +1,129 @@
+/**
+ * Session Duplicate Utility
+ *
+ * Plans which of a session's values and notes carry into a new session,
+ * which may be pinned to a different blueprint. Fields are matched through the
+ * editable blueprint item they were frozen from, then by section and field
+ * key, then by a field key used only once in the target.
+ */
+
+import { Field, Section } from '@/features/blueprints/types/blueprint';
+import { validateFieldValue } from './field-value';
+
+/**
+ * Field definition from a frozen version, with its section key and (for the
+ * session being copied) its accepted value
+ */
+export type DuplicateFieldState = Pick<
+  Field,
+  'id' | 'key' | 'type' | 'label' | 'config' | 'section_id' | 'source_field_id'
+> & {
+  section_key: string;
+  value?: string | null;
+};
+
+/**
+ * Section from a frozen version, with the session's notes when known
+ */
+export type DuplicateSectionState = Pick<Section, 'id' | 'key' | 'source_section_id'> & {
+  markdown?: string | null;
+};
+
+export interface DuplicateValueCopy {
+  from_field_id: string;
+  to_field_id: string;
+  value: string;
+}
+
+export interface DuplicateNoteCopy {
+  from_section_id: string;
+  to_section_id: string;
+}
+
+export interface DuplicatePlan {
+  values: DuplicateValueCopy[];
+  notes: DuplicateNoteCopy[];
+  skipped_values: number; // Values with no matching field, or invalid for it
+}
+
+function findFieldMatch(
+  field: DuplicateFieldState,
+  candidates: DuplicateFieldState[]
+): DuplicateFieldState | undefined {
+  const bySource = field.source_field_id
+    ? candidates.find((c) => c.source_field_id === field.source_field_id)
+    : undefined;
+  if (bySource) return bySource;
+
+  const bySectionKey = candidates.find(
+    (c) => c.section_key === field.section_key && c.key === field.key
+  );
+  if (bySectionKey) return bySectionKey;
+
+  const byKey = candidates.filter((c) => c.key === field.key);
+  return byKey.length === 1 ? byKey[0] : undefined;
+}
+
+function findSectionMatch(
+  section: DuplicateSectionState,
+  candidates: DuplicateSectionState[]
+): DuplicateSectionState | undefined {
+  const bySource = section.source_section_id
+    ? candidates.find((c) => c.source_section_id === section.source_section_id)
+    : undefined;
+  return bySource ?? candidates.find((c) => c.key === section.key);
+}
+
+/**
+ * Plan a session duplicate
+ *
+ * Computed values are never copied; they are recalculated in the new session.
+ *
+ * @param fromFields - Fields of the session's version, with its accepted values
+ * @param toFields - Fields of the version the new session is pinned to
+ * @param fromSections - Sections of the session's version, with its notes
+ * @param toSections - Sections of the target version
+ * @param sectionIds - Sections whose values and notes should be copied, by selection
+ * @returns Values and notes to copy, and how many values were left behind
+ */
+export function planSessionDuplicate(
+  fromFields: DuplicateFieldState[],
+  toFields: DuplicateFieldState[],
+  fromSections: DuplicateSectionState[],
+  toSections: DuplicateSectionState[],
+  sectionIds: { values: string[]; notes: string[] }
+): DuplicatePlan {
+  const values: DuplicateValueCopy[] = [];
+  const matchedTargets = new Set<string>();
+  let skipped = 0;
+
+  for (const from of fromFields) {
+    if (!sectionIds.values.includes(from.section_id)) continue;
+    if (from.type === 'Computed') continue;
+    if (from.value === null || from.value === undefined || from.value === '') continue;
+
+    const to = findFieldMatch(
+      from,
+      toFields.filter((c) => c.type !== 'Computed')
+    );
+    if (!to || matchedTargets.has(to.id) || validateFieldValue(to, from.value) !== null) {
+      skipped++;
+      continue;
+    }
+
+    matchedTargets.add(to.id);
+    values.push({ from_field_id: from.id, to_field_id: to.id, value: from.value });
+  }
+
+  const notes: DuplicateNoteCopy[] = [];
+  for (const from of fromSections) {
+    if (!sectionIds.notes.includes(from.id) || !from.markdown) continue;
+
+    const to = findSectionMatch(from, toSections);
+    if (to && !notes.some((n) => n.to_section_id === to.id)) {
+      notes.push({ from_section_id: from.id, to_section_id: to.id });
+    }
+  }
+
+  return { values, notes, skipped_values: skipped };
+}
@@ -0,0 +1,123 @@
+/**
+ * Session Snapshot Diff Utility
+ *
+ * Compares the inputs recorded in a session snapshot with another set of
+ * inputs (usually the session as it is now). Fields are matched by section
+ * key and field key, so snapshots taken before a version upgrade still line up.
+ */
+
+import { SessionSnapshotContent, SessionSnapshotField } from '@/features/sessions/types/session';
+import { formatFieldValueForDisplay } from './field-value';
+
+export type SnapshotChangeStatus = 'added' | 'removed' | 'changed';
+
+export interface SnapshotChange {
+  kind: 'field' | 'notes';
+  section_title: string;
+  label: string; // Field label, or the section title for notes
+  status: SnapshotChangeStatus;
+  before: string; // Display value ('' when empty)
+  after: string;
+}
+
+/**
+ * Format a snapshot field's value the way the session shows it
+ */
+export function formatSnapshotValue(field: SessionSnapshotField): string {
+  return formatFieldValueForDisplay(field, field.value);
+}
+
+function fieldMatchKey(field: Pick<SessionSnapshotField, 'section_key' | 'key'>): string {
+  return `${field.section_key}.${field.key}`;
+}
+
+function statusFor(inBefore: boolean, inAfter: boolean): SnapshotChangeStatus {
+  if (!inBefore) return 'added';
+  if (!inAfter) return 'removed';
+  return 'changed';
+}
+
+/**
+ * List the field values and notes that differ between two sets of inputs
+ *
+ * Fields and notes that are empty on both sides are skipped, as are fields
+ * added or removed without a value.
+ *
+ * @param before - Inputs recorded in the snapshot
+ * @param after - Inputs to compare against
+ * @returns Changes in the order of `after`, followed by items only in `before`
+ */
+export function diffSnapshotContent(
+  before: SessionSnapshotContent,
+  after: SessionSnapshotContent
+): SnapshotChange[] {
+  const changes: SnapshotChange[] = [];
+
+  const beforeFields = new Map(before.fields.map((f) => [fieldMatchKey(f), f]));
+  const afterFieldKeys = new Set(after.fields.map(fieldMatchKey));
+
+  after.fields.forEach((field) => {
+    const previous = beforeFields.get(fieldMatchKey(field));
+    const beforeValue = previous ? formatSnapshotValue(previous) : '';
+    const afterValue = formatSnapshotValue(field);
+    if (beforeValue === afterValue) return;
+
+    changes.push({
+      kind: 'field',
+      section_title: field.section_title,
+      label: field.label,
+      status: statusFor(!!previous, true),
+      before: beforeValue,
+      after: afterValue,
+    });
+  });
+
+  before.fields.forEach((field) => {
+    const beforeValue = formatSnapshotValue(field);
+    if (afterFieldKeys.has(fieldMatchKey(field)) || beforeValue === '') return;
+
+    changes.push({
+      kind: 'field',
+      section_title: field.section_title,
+      label: field.label,
+      status: 'removed',
+      before: beforeValue,
+      after: '',
+    });
+  });
+
+  const beforeNotes = new Map(before.notes.map((n) => [n.section_key, n]));
+  const afterNoteKeys = new Set(after.notes.map((n) => n.section_key));
+
+  after.notes.forEach((note) => {
+    const previous = beforeNotes.get(note.section_key);
+    const beforeMarkdown = previous?.markdown.trim() ?? '';
+    const afterMarkdown = note.markdown.trim();
+    if (beforeMarkdown === afterMarkdown) return;
+
+    changes.push({
+      kind: 'notes',
+      section_title: note.section_title,
+      label: note.section_title,
+      status: statusFor(!!previous, true),
+      before: beforeMarkdown,
+      after: afterMarkdown,
+    });
+  });
+
+  before.notes.forEach((note) => {
+    const beforeMarkdown = note.markdown.trim();
+    if (afterNoteKeys.has(note.section_key) || beforeMarkdown === '') return;
+
+    changes.push({
+      kind: 'notes',
+      section_title: note.section_title,
+      label: note.section_title,
+      status: 'removed',
+      before: beforeMarkdown,
+      after: '',
+    });
+  });
+
+  return changes;
+}
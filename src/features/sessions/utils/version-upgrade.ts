@@ -0,0 +1,166 @@
+/**
+ * Session Version Upgrade Utility
+ *
+ * Plans how a session's values and notes move from its pinned blueprint
+ * version to a newer one. Fields and sections are matched through the
+ * editable blueprint item they were frozen from, falling back to field keys.
+ */
+
+import { Field, Section } from '@/features/blueprints/types/blueprint';
+import { validateFieldValue } from './field-value';
+
+/**
+ * Field definition from a frozen version, plus the session's value when known
+ */
+export type UpgradeFieldState = Pick<
+  Field,
+  'id' | 'key' | 'type' | 'label' | 'config' | 'source_field_id'
+> & {
+  value?: string | null;
+};
+
+/**
+ * Section from a frozen version, plus whether the session has notes for it
+ */
+export type UpgradeSectionState = Pick<Section, 'id' | 'title' | 'source_section_id'> & {
+  has_notes?: boolean;
+};
+
+export type FieldChangeKind = 'added' | 'removed' | 'modified' | 'unchanged';
+
+/**
+ * What happens to the session's value for a field
+ * - carried: kept on the matching field in the new version
+ * - cleared: no longer valid for the new field definition
+ * - dropped: the field was removed
+ * - none: there is no value to move
+ */
+export type ValueOutcome = 'carried' | 'cleared' | 'dropped' | 'none';
+
+export interface UpgradeFieldChange {
+  key: string;
+  label: string;
+  change: FieldChangeKind;
+  previous_key: string | null; // Set when the field's key changed between versions
+  value_outcome: ValueOutcome;
+  reason: string | null; // Why a value is cleared
+  from_field_id: string | null;
+  to_field_id: string | null;
+}
+
+export interface UpgradeSectionChange {
+  title: string;
+  from_section_id: string;
+  to_section_id: string | null; // Null when the section was removed
+}
+
+export interface UpgradePlan {
+  fields: UpgradeFieldChange[];
+  sections: UpgradeSectionChange[];
+  dropped_notes: string[]; // Titles of removed sections that have notes
+}
+
+/**
+ * Check whether a field definition changed between versions
+ */
+function isModified(from: UpgradeFieldState, to: UpgradeFieldState): boolean {
+  return (
+    from.key !== to.key ||
+    from.label !== to.label ||
+    from.type !== to.type ||
+    JSON.stringify(from.config ?? {}) !== JSON.stringify(to.config ?? {})
+  );
+}
+
+/**
+ * Find the field in the target version that represents the same field
+ */
+function findMatch(
+  field: UpgradeFieldState,
+  candidates: UpgradeFieldState[]
+): UpgradeFieldState | undefined {
+  const bySource = field.source_field_id
+    ? candidates.find((c) => c.source_field_id === field.source_field_id)
+    : undefined;
+  return bySource ?? candidates.find((c) => c.key === field.key);
+}
+
+/**
+ * Plan a session upgrade between two blueprint versions
+ *
+ * @param fromFields - Fields of the pinned version, with the session's values
+ * @param toFields - Fields of the target version
+ * @param fromSections - Sections of the pinned version
+ * @param toSections - Sections of the target version
+ * @returns Per-field changes, section mapping, and notes that would be lost
+ */
+export function planVersionUpgrade(
+  fromFields: UpgradeFieldState[],
+  toFields: UpgradeFieldState[],
+  fromSections: UpgradeSectionState[],
+  toSections: UpgradeSectionState[]
+): UpgradePlan {
+  const fields: UpgradeFieldChange[] = [];
+  const matchedTargets = new Set<string>();
+
+  for (const from of fromFields) {
+    const to = findMatch(from, toFields);
+    const hasValue = from.value !== null && from.value !== undefined && from.value !== '';
+
+    if (!to || matchedTargets.has(to.id)) {
+      fields.push({
+        key: from.key,
+        label: from.label,
+        change: 'removed',
+        previous_key: null,
+        value_outcome: hasValue ? 'dropped' : 'none',
+        reason: null,
+        from_field_id: from.id,
+        to_field_id: null,
+      });
+      continue;
+    }
+
+    matchedTargets.add(to.id);
+    const error = hasValue ? validateFieldValue(to, from.value as string) : null;
+
+    fields.push({
+      key: to.key,
+      label: to.label,
+      change: isModified(from, to) ? 'modified' : 'unchanged',
+      previous_key: from.key !== to.key ? from.key : null,
+      value_outcome: !hasValue ? 'none' : error ? 'cleared' : 'carried',
+      reason: error,
+      from_field_id: from.id,
+      to_field_id: to.id,
+    });
+  }
+
+  for (const to of toFields) {
+    if (matchedTargets.has(to.id)) continue;
+    fields.push({
+      key: to.key,
+      label: to.label,
+      change: 'added',
+      previous_key: null,
+      value_outcome: 'none',
+      reason: null,
+      from_field_id: null,
+      to_field_id: to.id,
+    });
+  }
+
+  const sections: UpgradeSectionChange[] = fromSections.map((from) => {
+    const to = from.source_section_id
+      ? toSections.find((c) => c.source_section_id === from.source_section_id)
+      : undefined;
+    return { title: from.title, from_section_id: from.id, to_section_id: to?.id ?? null };
+  });
+
+  const dropped_notes = fromSections
+    .filter((from) => from.has_notes)
+    .filter((from) => !sections.find((s) => s.from_section_id === from.id)?.to_section_id)
+    .map((from) => from.title);
+
+  return { fields, sections, dropped_notes };
+}
@@ -0,0 +1,154 @@
+import { describe, expect, it } from 'vitest';
+import {
+  addSectionProgress,
+  isConditionMet,
+  ProgressFieldState,
+  resolveVisibility,
+  VisibilityFieldState,
+} from './visibility';
+
+function field(
+  overrides: Partial<VisibilityFieldState> & Pick<VisibilityFieldState, 'id' | 'key'>
+): VisibilityFieldState {
+  return { type: 'ShortText', section_id: 'sec-1', visibility: null, value: null, ...overrides };
+}
+
+describe('isConditionMet', () => {
+  it('checks toggles', () => {
+    expect(
+      isConditionMet({ field_key: 'a', operator: 'is_on' }, { type: 'Toggle', value: 'true' })
+    ).toBe(true);
+    expect(
+      isConditionMet({ field_key: 'a', operator: 'is_off' }, { type: 'Toggle', value: 'false' })
+    ).toBe(true);
+    expect(
+      isConditionMet({ field_key: 'a', operator: 'is_on' }, { type: 'Toggle', value: null })
+    ).toBe(false);
+  });
+
+  it('treats empty text and empty groups as empty', () => {
+    const condition = { field_key: 'a', operator: 'not_empty' as const };
+    expect(isConditionMet(condition, { type: 'ShortText', value: '  ' })).toBe(false);
+    expect(isConditionMet(condition, { type: 'RepeatableGroup', value: '[]' })).toBe(false);
+    expect(isConditionMet(condition, { type: 'ShortText', value: 'x' })).toBe(true);
+  });
+
+  it('matches equals against one of the MultiSelect values', () => {
+    const condition = { field_key: 'a', operator: 'equals' as const, value: 'b' };
+    expect(isConditionMet(condition, { type: 'MultiSelect', value: '["a","b"]' })).toBe(true);
+    expect(isConditionMet(condition, { type: 'MultiSelect', value: '["a"]' })).toBe(false);
+    expect(isConditionMet(condition, { type: 'Select', value: 'b' })).toBe(true);
+  });
+
+  it('treats a missing controller as empty', () => {
+    expect(isConditionMet({ field_key: 'a', operator: 'is_off' })).toBe(true);
+    expect(isConditionMet({ field_key: 'a', operator: 'not_empty' })).toBe(false);
+  });
+});
+
+describe('resolveVisibility', () => {
+  it('hides fields whose condition fails', () => {
+    const { hiddenFieldIds } = resolveVisibility(
+      [{ id: 'sec-1', visibility: null }],
+      [
+        field({ id: 'f1', key: 'has_budget', type: 'Toggle', value: 'false' }),
+        field({
+          id: 'f2',
+          key: 'budget',
+          visibility: { field_key: 'has_budget', operator: 'is_on' },
+        }),
+      ]
+    );
+
+    expect([...hiddenFieldIds]).toEqual(['f2']);
+  });
+
+  it('hides every field of a hidden section', () => {
+    const { hiddenSectionIds, hiddenFieldIds } = resolveVisibility(
+      [
+        { id: 'sec-1', visibility: null },
+        { id: 'sec-2', visibility: { field_key: 'has_budget', operator: 'is_on' } },
+      ],
+      [
+        field({ id: 'f1', key: 'has_budget', type: 'Toggle', value: 'false' }),
+        field({ id: 'f2', key: 'budget', section_id: 'sec-2', value: '10' }),
+      ]
+    );
+
+    expect([...hiddenSectionIds]).toEqual(['sec-2']);
+    expect([...hiddenFieldIds]).toEqual(['f2']);
+  });
+
+  it('collapses chains whose controller is hidden', () => {
+    const { hiddenFieldIds } = resolveVisibility(
+      [{ id: 'sec-1', visibility: null }],
+      [
+        field({ id: 'f1', key: 'a', type: 'Toggle', value: 'false' }),
+        field({
+          id: 'f2',
+          key: 'b',
+          value: 'filled',
+          visibility: { field_key: 'a', operator: 'is_on' },
+        }),
+        field({ id: 'f3', key: 'c', visibility: { field_key: 'b', operator: 'not_empty' } }),
+      ]
+    );
+
+    expect([...hiddenFieldIds].sort()).toEqual(['f2', 'f3']);
+  });
+
+  it('breaks cycles instead of recursing forever', () => {
+    const { hiddenFieldIds } = resolveVisibility(
+      [{ id: 'sec-1', visibility: null }],
+      [
+        field({
+          id: 'f1',
+          key: 'a',
+          value: 'x',
+          visibility: { field_key: 'b', operator: 'not_empty' },
+        }),
+        field({
+          id: 'f2',
+          key: 'b',
+          value: 'y',
+          visibility: { field_key: 'a', operator: 'not_empty' },
+        }),
+      ]
+    );
+
+    expect(hiddenFieldIds.size).toBe(0);
+  });
+});
+
+describe('addSectionProgress', () => {
+  it('skips hidden and Computed fields and counts invalid values', () => {
+    const fields: ProgressFieldState[] = [
+      {
+        ...field({ id: 'f1', key: 'email', value: 'not-an-email' }),
+        required: true,
+        validation: { format: 'email' },
+      },
+      { ...field({ id: 'f2', key: 'name', value: 'Ada' }), required: true },
+      { ...field({ id: 'f3', key: 'total', type: 'Computed', value: '3' }), required: false },
+      {
+        ...field({
+          id: 'f4',
+          key: 'hidden',
+          visibility: { field_key: 'name', operator: 'equals', value: 'Bob' },
+        }),
+        required: true,
+      },
+    ];
+
+    const [section] = addSectionProgress([{ id: 'sec-1', visibility: null }], fields);
+
+    expect(section).toMatchObject({
+      required_count: 2,
+      required_filled_count: 1,
+      total_count: 2,
+      total_filled_count: 1,
+      invalid_count: 1,
+      hidden: false,
+    });
+  });
+});
@@ -0,0 +1,196 @@
+/**
+ * Visibility Evaluation Utility
+ *
+ * Evaluates field and section visibility conditions against session values and
+ * computes progress counts that ignore hidden fields and invalid values.
+ */
+
+import { Field, Section, VisibilityCondition } from '@/features/blueprints/types/blueprint';
+import { parseMultiSelectValue, validateFieldRules } from './field-value';
+
+/**
+ * Field definition plus its current session value, as needed to evaluate visibility
+ */
+export type VisibilityFieldState = Pick<
+  Field,
+  'id' | 'key' | 'type' | 'section_id' | 'visibility'
+> & {
+  value?: string | null;
+};
+
+export type VisibilitySectionState = Pick<Section, 'id' | 'visibility'>;
+
+/**
+ * Field state used for progress counts (validation rules are optional)
+ */
+export type ProgressFieldState = VisibilityFieldState &
+  Pick<Field, 'required'> &
+  Partial<Pick<Field, 'label' | 'validation'>>;
+
+export interface VisibilityResult {
+  hiddenSectionIds: Set<string>;
+  hiddenFieldIds: Set<string>;
+}
+
+export interface SectionProgressCounts {
+  required_count: number;
+  required_filled_count: number;
+  total_count: number;
+  total_filled_count: number;
+  invalid_count: number;
+  hidden: boolean;
+}
+
+/**
+ * Check whether a stored value counts as filled in
+ */
+export function isValueFilled(value: string | null | undefined): boolean {
+  return value !== null && value !== undefined && value !== '';
+}
+
+/**
+ * Check a condition against the controlling field's value
+ *
+ * A missing or hidden controller is treated as empty, so "is off" holds and
+ * every other operator fails.
+ *
+ * @param condition - Visibility condition
+ * @param controller - Controlling field type and value
+ */
+export function isConditionMet(
+  condition: VisibilityCondition,
+  controller?: Pick<VisibilityFieldState, 'type' | 'value'>
+): boolean {
+  const value = controller?.value?.trim() ?? '';
+
+  switch (condition.operator) {
+    case 'is_on':
+      return value === 'true';
+    case 'is_off':
+      return value !== 'true';
+    case 'not_empty':
+      return value !== '' && value !== '[]';
+    case 'equals':
+      if (!value || condition.value === undefined) return false;
+      if (controller?.type === 'MultiSelect') {
+        return parseMultiSelectValue(value).includes(condition.value);
+      }
+      return value === condition.value.trim();
+    default:
+      return true;
+  }
+}
+
+/**
+ * Work out which sections and fields are hidden for the current values
+ *
+ * A field is hidden when its section is hidden or its own condition fails.
+ * Conditions whose controlling field is itself hidden see an empty value, so
+ * chained rules collapse together. Cycles are broken by treating the field
+ * being evaluated as visible.
+ *
+ * @param sections - Sections in the blueprint
+ * @param fields - Fields in the blueprint with their session values
+ */
+export function resolveVisibility(
+  sections: VisibilitySectionState[],
+  fields: VisibilityFieldState[]
+): VisibilityResult {
+  const fieldsByKey = new Map(fields.map((f) => [f.key, f]));
+  const sectionsById = new Map(sections.map((s) => [s.id, s]));
+  const fieldVisibility = new Map<string, boolean>();
+  const sectionVisibility = new Map<string, boolean>();
+  const evaluating = new Set<string>();
+
+  function controllerState(condition: VisibilityCondition) {
+    const controller = fieldsByKey.get(condition.field_key);
+    if (!controller) return undefined;
+    return isFieldVisible(controller) ? controller : { type: controller.type, value: null };
+  }
+
+  function isSectionVisible(sectionId: string): boolean {
+    const cached = sectionVisibility.get(sectionId);
+    if (cached !== undefined) return cached;
+
+    const condition = sectionsById.get(sectionId)?.visibility;
+    if (!condition || evaluating.has(sectionId)) return true;
+
+    evaluating.add(sectionId);
+    const visible = isConditionMet(condition, controllerState(condition));
+    evaluating.delete(sectionId);
+
+    sectionVisibility.set(sectionId, visible);
+    return visible;
+  }
+
+  function isFieldVisible(field: VisibilityFieldState): boolean {
+    const cached = fieldVisibility.get(field.id);
+    if (cached !== undefined) return cached;
+    if (evaluating.has(field.id)) return true;
+
+    evaluating.add(field.id);
+    const visible =
+      isSectionVisible(field.section_id) &&
+      (!field.visibility || isConditionMet(field.visibility, controllerState(field.visibility)));
+    evaluating.delete(field.id);
+
+    fieldVisibility.set(field.id, visible);
+    return visible;
+  }
+
+  return {
+    hiddenSectionIds: new Set(sections.filter((s) => !isSectionVisible(s.id)).map((s) => s.id)),
+    hiddenFieldIds: new Set(fields.filter((f) => !isFieldVisible(f)).map((f) => f.id)),
+  };
+}
+
+/**
+ * Add required and total field counts to each section, skipping hidden fields
+ * and Computed fields (which users don't fill in)
+ *
+ * Values that break a field's validation rules count as invalid, not filled.
+ *
+ * @param sections - Sections in the blueprint
+ * @param fields - Fields in the blueprint with their session values
+ * @returns Sections with counts and a hidden flag, in the same order
+ */
+export function addSectionProgress<T extends VisibilitySectionState>(
+  sections: T[],
+  fields: ProgressFieldState[]
+): Array<T & SectionProgressCounts> {
+  const { hiddenSectionIds, hiddenFieldIds } = resolveVisibility(sections, fields);
+
+  return sections.map((section) => {
+    const counts: SectionProgressCounts = {
+      required_count: 0,
+      required_filled_count: 0,
+      total_count: 0,
+      total_filled_count: 0,
+      invalid_count: 0,
+      hidden: hiddenSectionIds.has(section.id),
+    };
+
+    fields.forEach((field) => {
+      if (field.section_id !== section.id || field.type === 'Computed') return;
+      if (hiddenFieldIds.has(field.id)) return;
+
+      const invalid =
+        isValueFilled(field.value) &&
+        validateFieldRules(
+          { label: field.label ?? field.key, validation: field.validation ?? null },
+          field.value ?? ''
+        ) !== null;
+      const filled = isValueFilled(field.value) && !invalid;
+
+      counts.total_count += 1;
+      if (invalid) counts.invalid_count += 1;
+      if (filled) counts.total_filled_count += 1;
+      if (field.required) {
+        counts.required_count += 1;
+        if (filled) counts.required_filled_count += 1;
+      }
+    });
+
+    return { ...section, ...counts };
+  });
+}
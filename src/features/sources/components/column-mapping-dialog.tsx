@@ -0,0 +1,525 @@
+'use client';
+
+/**
+ * Column Mapping Dialog
+ *
+ * Import a CSV or XLSX source without AI: map its columns to fields, take
+ * values from one row or combine all rows, and optionally save the mapping
+ * so the next upload of the same export is mapped automatically
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectGroup,
+  SelectItem,
+  SelectLabel,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { isGroupType } from '@/features/blueprints/utils/field-config';
+import {
+  ColumnAggregate,
+  ColumnImportField,
+  ColumnImportResult,
+  ColumnMappingEntry,
+  SavedColumnMapping,
+  Source,
+  SourceColumnsResponse,
+  SourceTable,
+} from '@/features/sources/types/source';
+import { COLUMN_AGGREGATE_LABELS } from '@/features/sources/utils/tabular';
+
+const NOT_MAPPED = 'none';
+
+interface ColumnMappingDialogProps {
+  sessionId: string;
+  source: Pick<Source, 'id' | 'filename_or_url'> | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onImported: () => void;
+}
+
+type MappingState = {
+  targets: Record<string, string>; // Column -> field key, or "field_key.sub_field_key"
+  aggregates: Record<string, ColumnAggregate>;
+  rowMode: 'all' | 'row';
+  rowNumber: string;
+};
+
+function normalize(text: string): string {
+  return text
+    .trim()
+    .toLowerCase()
+    .replace(/[\s_-]+/g, ' ');
+}
+
+function parseTarget(target: string): { field_key: string; sub_field_key?: string } {
+  const [fieldKey = '', subFieldKey] = target.split('.');
+  return subFieldKey
+    ? { field_key: fieldKey, sub_field_key: subFieldKey }
+    : { field_key: fieldKey };
+}
+
+/**
+ * Match columns to fields (or group sub-fields) whose label or key reads the same
+ */
+function guessTargets(columns: string[], fields: ColumnImportField[]): Record<string, string> {
+  const candidates = fields.flatMap((field) =>
+    isGroupType(field.type)
+      ? field.sub_fields.map((sub) => ({
+          target: `${field.key}.${sub.key}`,
+          names: [sub.label, sub.key],
+        }))
+      : [{ target: field.key, names: [field.label, field.key] }]
+  );
+
+  const used = new Set<string>();
+  const targets: Record<string, string> = {};
+
+  for (const column of columns) {
+    const match = candidates.find(
+      (candidate) =>
+        !used.has(candidate.target) &&
+        candidate.names.some((name) => normalize(name) === normalize(column))
+    );
+    if (match) {
+      used.add(match.target);
+      targets[column] = match.target;
+    }
+  }
+
+  return targets;
+}
+
+function initialState(
+  table: SourceTable,
+  fields: ColumnImportField[],
+  saved: SavedColumnMapping | null
+): MappingState {
+  if (saved) {
+    const selection = saved.row_selection;
+    return {
+      targets: Object.fromEntries(
+        saved.columns.map((entry) => [
+          entry.column,
+          entry.sub_field_key ? `${entry.field_key}.${entry.sub_field_key}` : entry.field_key,
+        ])
+      ),
+      aggregates: Object.fromEntries(
+        saved.columns
+          .filter((entry) => entry.aggregate)
+          .map((entry) => [entry.column, entry.aggregate!])
+      ),
+      rowMode: selection.mode,
+      rowNumber: selection.mode === 'row' ? String(selection.row_number) : '',
+    };
+  }
+
+  const firstRow = table.rows[0]?.number;
+  return {
+    targets: guessTargets(table.columns, fields),
+    aggregates: {},
+    rowMode: table.rows.length === 1 ? 'row' : 'all',
+    rowNumber: firstRow !== undefined ? String(firstRow) : '',
+  };
+}
+
+function describeResult(result: ColumnImportResult): string {
+  const stored = `Stored ${result.suggestions_stored} suggestion${result.suggestions_stored !== 1 ? 's' : ''}`;
+  const kept = result.suggestions_count - result.suggestions_stored - result.values_discarded;
+  const notes = [
+    kept > 0 ? `${kept} field${kept !== 1 ? 's' : ''} already had an accepted value` : null,
+    result.values_discarded > 0
+      ? `${result.values_discarded} value${result.values_discarded !== 1 ? 's' : ''} did not fit the field type`
+      : null,
+  ].filter(Boolean);
+  return notes.length > 0 ? `${stored}. ${notes.join('; ')}.` : `${stored}.`;
+}
+
+export function ColumnMappingDialog({
+  sessionId,
+  source,
+  open,
+  onOpenChange,
+  onImported,
+}: ColumnMappingDialogProps) {
+  const { toast } = useToast();
+  const [columns, setColumns] = useState<SourceColumnsResponse | null>(null);
+  const [tableIndex, setTableIndex] = useState(0);
+  const [mapping, setMapping] = useState<MappingState | null>(null);
+  const [save, setSave] = useState(true);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const selectTable = useCallback((data: SourceColumnsResponse, index: number) => {
+    const table = data.tables[index];
+    setTableIndex(index);
+    setMapping(table ? initialState(table, data.fields, data.saved_mappings[index] ?? null) : null);
+  }, []);
+
+  const fetchColumns = useCallback(async () => {
+    if (!source) return;
+
+    setIsLoading(true);
+    setError(null);
+    setColumns(null);
+    try {
+      const response = await fetch(`/api/v1/sessions/${sessionId}/sources/${source.id}/columns`);
+      const result = await response.json();
+
+      if (!result.ok) {
+        throw new Error(result.error?.message || 'Failed to read source columns');
+      }
+
+      const data = result.data as SourceColumnsResponse;
+      setColumns(data);
+      setSave(true);
+      selectTable(data, 0);
+    } catch (err) {
+      console.error('Failed to read source columns:', err);
+      setError(err instanceof Error ? err.message : 'Failed to read source columns');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [sessionId, source, selectTable]);
+
+  useEffect(() => {
+    if (open) {
+      fetchColumns();
+    }
+  }, [open, fetchColumns]);
+
+  const table = columns?.tables[tableIndex];
+  const fields = columns?.fields ?? [];
+  const saved = columns?.saved_mappings[tableIndex] ?? null;
+
+  const updateMapping = (update: Partial<MappingState>) => {
+    setMapping((prev) => (prev ? { ...prev, ...update } : prev));
+  };
+
+  const setTarget = (column: string, target: string) => {
+    if (!mapping) return;
+    const targets = { ...mapping.targets };
+
+    // A field (or group column) is filled from one column, so it moves here
+    for (const [other, otherTarget] of Object.entries(targets)) {
+      if (otherTarget === target) delete targets[other];
+    }
+    if (target === NOT_MAPPED) delete targets[column];
+    else targets[column] = target;
+
+    updateMapping({ targets });
+  };
+
+  const isGroupTarget = (target: string | undefined) =>
+    !!target && parseTarget(target).sub_field_key !== undefined;
+
+  const sampleValue = (columnIndex: number) =>
+    table?.rows.find((row) => row.cells[columnIndex])?.cells[columnIndex] ?? '';
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!source || !table || !mapping) return;
+
+    const entries: ColumnMappingEntry[] = table.columns
+      .filter((column) => mapping.targets[column])
+      .map((column) => {
+        const target = mapping.targets[column]!;
+        const aggregate = mapping.aggregates[column];
+        return {
+          column,
+          ...parseTarget(target),
+          ...(mapping.rowMode === 'all' && !isGroupTarget(target) && aggregate && { aggregate }),
+        };
+      });
+
+    if (entries.length === 0) {
+      setError('Map at least one column to a field');
+      return;
+    }
+
+    const rowNumber = Number(mapping.rowNumber);
+    if (mapping.rowMode === 'row' && !table.rows.some((row) => row.number === rowNumber)) {
+      setError(`Row ${mapping.rowNumber || '?'} is not in the table`);
+      return;
+    }
+
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/v1/sessions/${sessionId}/sources/${source.id}/columns`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          table_index: tableIndex,
+          columns: entries,
+          row_selection:
+            mapping.rowMode === 'row' ? { mode: 'row', row_number: rowNumber } : { mode: 'all' },
+          save,
+        }),
+      });
+      const result = await response.json();
+
+      if (!result.ok) {
+        setError(result.error?.message || 'Failed to import columns');
+        return;
+      }
+
+      toast({
+        title: 'Columns Imported',
+        description: describeResult(result.data as ColumnImportResult),
+      });
+      onImported();
+      onOpenChange(false);
+    } catch (err) {
+      console.error('Failed to import columns:', err);
+      setError('Failed to import columns');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const firstRow = table?.rows[0]?.number;
+  const lastRow = table?.rows[table.rows.length - 1]?.number;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Map Columns</DialogTitle>
+          <DialogDescription>
+            Import {source?.filename_or_url || 'this source'} by mapping its columns to fields.
+            Values are added as suggestions to review.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading || !columns ? (
+          <p className="py-4 text-sm text-muted-foreground">
+            {error && !isLoading ? error : 'Reading columns...'}
+          </p>
+        ) : !table || !mapping ? (
+          <p className="py-4 text-sm text-muted-foreground">
+            No table with a header row was found in this source.
+          </p>
+        ) : (
+          <form onSubmit={handleSubmit}>
+            <div className="max-h-[32rem] space-y-4 overflow-y-auto py-4">
+              <div className="grid grid-cols-2 gap-4">
+                {columns.tables.length > 1 && (
+                  <div className="space-y-2">
+                    <Label htmlFor="column-mapping-table">Sheet</Label>
+                    <Select
+                      value={String(tableIndex)}
+                      onValueChange={(value) => selectTable(columns, Number(value))}
+                      disabled={isSubmitting}
+                    >
+                      <SelectTrigger id="column-mapping-table">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {columns.tables.map((t, index) => (
+                          <SelectItem key={index} value={String(index)}>
+                            {t.name || `Table ${index + 1}`}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                )}
+
+                <div className="space-y-2">
+                  <Label htmlFor="column-mapping-rows">Rows</Label>
+                  <div className="flex gap-2">
+                    <Select
+                      value={mapping.rowMode}
+                      onValueChange={(value) => updateMapping({ rowMode: value as 'all' | 'row' })}
+                      disabled={isSubmitting}
+                    >
+                      <SelectTrigger id="column-mapping-rows">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="all">All rows ({table.rows.length})</SelectItem>
+                        <SelectItem value="row">One row</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    {mapping.rowMode === 'row' && (
+                      <Input
+                        type="number"
+                        aria-label="Row number"
+                        className="w-24"
+                        min={firstRow}
+                        max={lastRow}
+                        value={mapping.rowNumber}
+                        onChange={(e) => updateMapping({ rowNumber: e.target.value })}
+                        disabled={isSubmitting}
+                      />
+                    )}
+                  </div>
+                  {mapping.rowMode === 'all' && (
+                    <p className="text-xs text-muted-foreground">
+                      Each column is combined into one value. Columns of a repeating group add one
+                      group row per table row.
+                    </p>
+                  )}
+                  {mapping.rowMode === 'row' && firstRow !== undefined && (
+                    <p className="text-xs text-muted-foreground">
+                      Rows {firstRow}&ndash;{lastRow}
+                    </p>
+                  )}
+                </div>
+              </div>
+
+              <div className="rounded-md border">
+                <div className="grid grid-cols-[1fr_1fr_1.5fr_8rem] gap-2 border-b px-3 py-2 text-xs font-medium text-muted-foreground">
+                  <span>Column</span>
+                  <span>Example</span>
+                  <span>Field</span>
+                  <span>Combine</span>
+                </div>
+                {table.columns.map((column, columnIndex) => {
+                  const target = mapping.targets[column];
+                  const showAggregate =
+                    mapping.rowMode === 'all' && target && !isGroupTarget(target);
+
+                  return (
+                    <div
+                      key={column}
+                      className="grid grid-cols-[1fr_1fr_1.5fr_8rem] items-center gap-2 px-3 py-2 text-sm"
+                    >
+                      <span className="truncate font-medium">{column}</span>
+                      <span className="truncate text-muted-foreground">
+                        {sampleValue(columnIndex)}
+                      </span>
+                      <Select
+                        value={target ?? NOT_MAPPED}
+                        onValueChange={(value) => setTarget(column, value)}
+                        disabled={isSubmitting}
+                      >
+                        <SelectTrigger aria-label={`Field for ${column}`}>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value={NOT_MAPPED}>Don&apos;t import</SelectItem>
+                          {fields.map((field) =>
+                            isGroupType(field.type) ? (
+                              <SelectGroup key={field.key}>
+                                <SelectLabel>{field.label}</SelectLabel>
+                                {field.sub_fields.map((sub) => (
+                                  <SelectItem
+                                    key={`${field.key}.${sub.key}`}
+                                    value={`${field.key}.${sub.key}`}
+                                  >
+                                    {field.label}: {sub.label}
+                                  </SelectItem>
+                                ))}
+                              </SelectGroup>
+                            ) : (
+                              <SelectItem key={field.key} value={field.key}>
+                                {field.label}
+                                <span className="ml-2 text-xs text-muted-foreground">
+                                  {field.section}
+                                </span>
+                              </SelectItem>
+                            )
+                          )}
+                        </SelectContent>
+                      </Select>
+                      {showAggregate ? (
+                        <Select
+                          value={mapping.aggregates[column] ?? 'first'}
+                          onValueChange={(value) =>
+                            updateMapping({
+                              aggregates: {
+                                ...mapping.aggregates,
+                                [column]: value as ColumnAggregate,
+                              },
+                            })
+                          }
+                          disabled={isSubmitting}
+                        >
+                          <SelectTrigger aria-label={`Combine ${column}`}>
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {Object.entries(COLUMN_AGGREGATE_LABELS).map(([value, label]) => (
+                              <SelectItem key={value} value={value}>
+                                {label}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      ) : (
+                        <span />
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+
+              <div className="space-y-1">
+                <div className="flex items-center gap-2">
+                  <Checkbox
+                    id="column-mapping-save"
+                    checked={save}
+                    onCheckedChange={(checked) => setSave(checked === true)}
+                    disabled={isSubmitting}
+                  />
+                  <Label htmlFor="column-mapping-save" className="cursor-pointer font-normal">
+                    Apply this mapping to future uploads with the same columns
+                  </Label>
+                </div>
+                {saved && (
+                  <p className="text-xs text-muted-foreground">
+                    Using the mapping saved for these columns on{' '}
+                    {new Date(saved.updated_at).toLocaleDateString('en-US', {
+                      month: 'short',
+                      day: 'numeric',
+                      year: 'numeric',
+                    })}
+                  </p>
+                )}
+              </div>
+
+              {error && (
+                <div className="rounded-md bg-destructive/10 p-3 text-sm text-destructive">
+                  {error}
+                </div>
+              )}
+            </div>
+
+            <DialogFooter>
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => onOpenChange(false)}
+                disabled={isSubmitting}
+              >
+                Cancel
+              </Button>
+              <Button type="submit" disabled={isSubmitting}>
+                {isSubmitting ? 'Importing...' : 'Import'}
+              </Button>
+            </DialogFooter>
+          </form>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -5,6 +5,7 @@ import { useDropzone } from 'react-dropzone';
 import { Upload } from 'lucide-react';
 
 import { cn } from '@/lib/utils';
+import { SOURCE_FILE_ACCEPT, SOURCE_FILE_TYPES_LABEL } from '@/features/sources/utils/file-types';
 
 type FileUploadProps = {
   sessionId?: string;
@@ -19,13 +20,7 @@ export function FileUpload({ sessionId, uploadUrl, onComplete }: FileUploadProps
   const [error, setError] = useState<string | null>(null);
 
   const { getRootProps, getInputProps, isDragActive } = useDropzone({
-    accept: {
-      'application/pdf': ['.pdf'],
-      'application/vnd.openxmlformats-officedocument.wordprocessingml.document': ['.docx'],
-      'text/plain': ['.txt'],
-      'text/markdown': ['.md'],
-      'text/csv': ['.csv'],
-    },
+    accept: SOURCE_FILE_ACCEPT,
     maxSize: 10 * 1024 * 1024, // 10MB
     onDrop: async (acceptedFiles, rejectedFiles) => {
       setError(null);
@@ -36,7 +31,7 @@ export function FileUpload({ sessionId, uploadUrl, onComplete }: FileUploadProps
         if (rejection?.errors[0]?.code === 'file-too-large') {
           setError('File size exceeds 10MB limit');
         } else if (rejection?.errors[0]?.code === 'file-invalid-type') {
-          setError('Invalid file type. Please upload PDF, DOCX, TXT, CSV, or MD files');
+          setError(`Invalid file type. Please upload ${SOURCE_FILE_TYPES_LABEL} files`);
         } else {
           setError('Failed to process file');
         }
@@ -92,7 +87,7 @@ export function FileUpload({ sessionId, uploadUrl, onComplete }: FileUploadProps
           {isDragActive ? 'Drop files here' : 'Drag & drop files or click to browse'}
         </p>
         <p className="text-xs text-muted-foreground">
-          Supports PDF, DOCX, TXT, CSV, Markdown • Max 10MB per file
+          Supports PDF, DOCX, XLSX, PPTX, HTML, RTF, EML, TXT, CSV, Markdown • Max 10MB per file
         </p>
       </div>
 
@@ -14,6 +14,8 @@ import {
 import { Textarea } from '@/components/ui/textarea';
 import { useToast } from '@/hooks/use-toast';
 import { cn } from '@/lib/utils';
+import { waitForIngestionJobs } from '@/features/sources/utils/ingestion-jobs';
+import { SOURCE_FILE_EXTENSIONS } from '@/features/sources/utils/file-types';
 
 type ImportDialogProps = {
   sessionId: string;
@@ -133,6 +135,7 @@ export function ImportDialog({
     let autoApplied = 0;
     let needsReview = 0;
     const autoAppliedIds: string[] = [];
+    const failedSources: string[] = [];
 
     for (const sourceId of sourceIds) {
       try {
@@ -143,6 +146,15 @@ export function ImportDialog({
 
         if (!mapResponse.ok) continue;
 
+        // Mapping runs in the background once the source's text is extracted
+        const mapResult = await mapResponse.json();
+        const [job] = await waitForIngestionJobs(sessionId, [mapResult.data.id]);
+
+        if (job?.state !== 'done') {
+          failedSources.push(job?.error || 'Processing failed');
+          continue;
+        }
+
         // Auto-accept high-confidence suggestions (≥90%)
         const suggestionsResponse = await fetch(`/api/v1/sessions/${sessionId}/suggestions`);
         if (suggestionsResponse.ok) {
@@ -168,6 +180,14 @@ export function ImportDialog({
       }
     }
 
+    if (failedSources.length > 0) {
+      toast({
+        title: 'Import Failed',
+        description: `${failedSources.length} source${failedSources.length !== 1 ? 's' : ''} could not be processed: ${failedSources[0]}`,
+        variant: 'destructive',
+      });
+    }
+
     // Show result toast with undo button
     if (autoApplied > 0) {
       toast({
@@ -321,7 +341,7 @@ export function ImportDialog({
                   handleFileUpload(e.target.files);
                 }
               }}
-              accept=".pdf,.docx,.txt,.md,.csv"
+              accept={SOURCE_FILE_EXTENSIONS}
             />
           </div>
 
@@ -12,6 +12,7 @@ import { FileUpload } from './file-upload';
 import { TextPaste } from './text-paste';
 import { URLBatchInput } from './url-batch-input';
 import { SourcesList } from './sources-list';
+import { waitForIngestionJobs } from '@/features/sources/utils/ingestion-jobs';
 
 type ImportModalProps = {
   sessionId: string;
@@ -50,10 +51,14 @@ export function ImportModal({ sessionId, open, onClose, onMappingComplete }: Imp
         });
 
         if (response.ok) {
+          // Mapping runs in the background once the source's text is extracted
           const data = await response.json();
-          const count = data.data?.suggestions_stored || 0;
-          totalSuggestions += count;
-          successCount++;
+          const [job] = await waitForIngestionJobs(sessionId, [data.data.id]);
+
+          if (job?.state === 'done') {
+            totalSuggestions += job.result?.suggestions_stored || 0;
+            successCount++;
+          }
         }
       } catch (error) {
         console.error('Failed to map source:', error);
@@ -7,6 +7,8 @@ import { Button } from '@/components/ui/button';
 import { Textarea } from '@/components/ui/textarea';
 import { useToast } from '@/hooks/use-toast';
 import { cn } from '@/lib/utils';
+import { waitForIngestionJobs } from '@/features/sources/utils/ingestion-jobs';
+import { SOURCE_FILE_EXTENSIONS } from '@/features/sources/utils/file-types';
 
 type InlineImportBarProps = {
   sessionId: string;
@@ -118,6 +120,7 @@ export function InlineImportBar({ sessionId, onImportComplete }: InlineImportBar
     let autoApplied = 0;
     let needsReview = 0;
     const autoAppliedIds: string[] = [];
+    const failedSources: string[] = [];
 
     for (const sourceId of sourceIds) {
       try {
@@ -128,6 +131,15 @@ export function InlineImportBar({ sessionId, onImportComplete }: InlineImportBar
 
         if (!mapResponse.ok) continue;
 
+        // Mapping runs in the background once the source's text is extracted
+        const mapResult = await mapResponse.json();
+        const [job] = await waitForIngestionJobs(sessionId, [mapResult.data.id]);
+
+        if (job?.state !== 'done') {
+          failedSources.push(job?.error || 'Processing failed');
+          continue;
+        }
+
         // Auto-accept high-confidence suggestions (≥90%)
         const suggestionsResponse = await fetch(`/api/v1/sessions/${sessionId}/suggestions`);
         if (suggestionsResponse.ok) {
@@ -153,6 +165,14 @@ export function InlineImportBar({ sessionId, onImportComplete }: InlineImportBar
       }
     }
 
+    if (failedSources.length > 0) {
+      toast({
+        title: 'Import Failed',
+        description: `${failedSources.length} source${failedSources.length !== 1 ? 's' : ''} could not be processed: ${failedSources[0]}`,
+        variant: 'destructive',
+      });
+    }
+
     // Show result toast with undo button
     if (autoApplied > 0) {
       toast({
@@ -300,7 +320,7 @@ export function InlineImportBar({ sessionId, onImportComplete }: InlineImportBar
               handleFileUpload(e.target.files);
             }
           }}
-          accept=".pdf,.docx,.txt,.md,.csv"
+          accept={SOURCE_FILE_EXTENSIONS}
         />
       </div>
 
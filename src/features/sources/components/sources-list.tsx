@@ -1,8 +1,21 @@
 'use client';
 
-import { useEffect, useState, useCallback } from 'react';
-import { FileText, Type, Link as LinkIcon, Trash2, Sparkles, Upload } from 'lucide-react';
+import { useEffect, useState, useCallback, useRef } from 'react';
+import {
+  FileText,
+  Type,
+  Link as LinkIcon,
+  Trash2,
+  Sparkles,
+  Download,
+  FileSearch,
+  Upload,
+  Loader2,
+  RotateCcw,
+  Table,
+} from 'lucide-react';
 
+import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { Card } from '@/components/ui/card';
 import { EmptyState } from '@/components/ui/empty-state';
@@ -17,7 +30,14 @@ import {
   AlertDialogHeader,
   AlertDialogTitle,
 } from '@/components/ui/alert-dialog';
-import { Source } from '@/features/sources/types/source';
+import { ColumnMappingDialog } from '@/features/sources/components/column-mapping-dialog';
+import { IngestionJobState, SourceWithJob } from '@/features/sources/types/source';
+import {
+  INGESTION_POLL_INTERVAL_MS,
+  INGESTION_STATE_LABELS,
+  isIngestionJobActive,
+} from '@/features/sources/utils/ingestion-jobs';
+import { isTabularSource } from '@/features/sources/utils/tabular';
 
 type SourcesListProps = {
   sessionId: string;
@@ -26,13 +46,17 @@ type SourcesListProps = {
 };
 
 export function SourcesList({ sessionId, refreshTrigger, onMappingComplete }: SourcesListProps) {
-  const [sources, setSources] = useState<Source[]>([]);
+  const [sources, setSources] = useState<SourceWithJob[]>([]);
   const [loading, setLoading] = useState(true);
   const [deleteSourceId, setDeleteSourceId] = useState<string | null>(null);
   const [isDeleting, setIsDeleting] = useState(false);
-  const [mappingSourceId, setMappingSourceId] = useState<string | null>(null);
+  const [pendingSourceId, setPendingSourceId] = useState<string | null>(null);
+  const [columnSource, setColumnSource] = useState<SourceWithJob | null>(null);
   const { toast } = useToast();
 
+  // Last seen state of each job, to notice jobs that finish between polls
+  const jobStatesRef = useRef<Map<string, IngestionJobState>>(new Map());
+
   const fetchSources = useCallback(async () => {
     try {
       const response = await fetch(`/api/v1/sessions/${sessionId}/sources`);
@@ -51,6 +75,70 @@ export function SourcesList({ sessionId, refreshTrigger, onMappingComplete }: So
     fetchSources();
   }, [fetchSources, refreshTrigger]);
 
+  // Poll while any source is being extracted or mapped
+  const hasActiveJobs = sources.some((source) => isIngestionJobActive(source.job));
+
+  useEffect(() => {
+    if (!hasActiveJobs) return;
+
+    const interval = setInterval(fetchSources, INGESTION_POLL_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [hasActiveJobs, fetchSources]);
+
+  // Report jobs that finished since the last poll
+  useEffect(() => {
+    const previous = jobStatesRef.current;
+    const next = new Map<string, IngestionJobState>();
+    let mapped = false;
+
+    for (const source of sources) {
+      const job = source.job;
+      if (!job) continue;
+
+      next.set(job.id, job.state);
+      const before = previous.get(job.id);
+      if (!before || before === 'done' || before === 'failed') continue;
+
+      const label = source.filename_or_url || 'Pasted Text';
+
+      if (job.state === 'failed') {
+        toast({
+          title: 'Import Failed',
+          description: `${label}: ${job.error || 'Processing failed'}`,
+          variant: 'destructive',
+        });
+      } else if (job.state === 'done' && job.result?.column_mappings_applied) {
+        const suggestionsCount = job.result.suggestions_stored;
+        mapped = true;
+
+        toast({
+          title: 'Saved Column Mapping Applied',
+          description: `Imported ${suggestionsCount} suggestion${suggestionsCount !== 1 ? 's' : ''} from ${label}.`,
+        });
+      } else if (job.state === 'done' && job.map) {
+        const suggestionsCount = job.result?.suggestions_stored || 0;
+        mapped = true;
+
+        toast({
+          title: 'AI Mapping Complete',
+          description: `Generated ${suggestionsCount} suggestion${suggestionsCount !== 1 ? 's' : ''} from ${label}.`,
+        });
+      } else if (job.state === 'done' && job.reextract) {
+        toast({
+          title: 'Text Extracted Again',
+          description: `${label} now has ${(source.text_extracted ?? '').length.toLocaleString()} characters of text.`,
+        });
+      }
+    }
+
+    jobStatesRef.current = next;
+
+    // Notify parent to refresh suggestions
+    if (mapped) {
+      onMappingComplete?.();
+    }
+  }, [sources, toast, onMappingComplete]);
+
   const handleDeleteClick = (id: string) => {
     setDeleteSourceId(id);
   };
@@ -77,7 +165,7 @@ export function SourcesList({ sessionId, refreshTrigger, onMappingComplete }: So
   };
 
   const handleMapWithAI = async (sourceId: string) => {
-    setMappingSourceId(sourceId);
+    setPendingSourceId(sourceId);
 
     try {
       const response = await fetch(`/api/v1/sessions/${sessionId}/sources/${sourceId}/map`, {
@@ -89,25 +177,70 @@ export function SourcesList({ sessionId, refreshTrigger, onMappingComplete }: So
         throw new Error(errorData.error?.message || 'Failed to map source');
       }
 
-      const data = await response.json();
-      const suggestionsCount = data.data?.suggestions_stored || 0;
+      // Progress is shown on the source while the job runs
+      await fetchSources();
+    } catch (error) {
+      console.error('Failed to map source with AI:', error);
+      toast({
+        title: 'Mapping Failed',
+        description: error instanceof Error ? error.message : 'Failed to map source with AI',
+        variant: 'destructive',
+      });
+    } finally {
+      setPendingSourceId(null);
+    }
+  };
+
+  const handleRetry = async (sourceId: string, jobId: string) => {
+    setPendingSourceId(sourceId);
+
+    try {
+      const response = await fetch(`/api/v1/sessions/${sessionId}/ingestion-jobs/${jobId}/retry`, {
+        method: 'POST',
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error?.message || 'Failed to retry import');
+      }
 
+      await fetchSources();
+    } catch (error) {
+      console.error('Failed to retry ingestion job:', error);
       toast({
-        title: 'AI Mapping Complete',
-        description: `Generated ${suggestionsCount} suggestion${suggestionsCount !== 1 ? 's' : ''} from source content.`,
+        title: 'Retry Failed',
+        description: error instanceof Error ? error.message : 'Failed to retry import',
+        variant: 'destructive',
       });
+    } finally {
+      setPendingSourceId(null);
+    }
+  };
 
-      // Notify parent to refresh suggestions
-      onMappingComplete?.();
+  const handleReextract = async (sourceId: string) => {
+    setPendingSourceId(sourceId);
+
+    try {
+      const response = await fetch(`/api/v1/sources/${sourceId}/reextract`, {
+        method: 'POST',
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error?.message || 'Failed to extract text again');
+      }
+
+      // Progress is shown on the source while the job runs
+      await fetchSources();
     } catch (error) {
-      console.error('Failed to map source with AI:', error);
+      console.error('Failed to re-extract source:', error);
       toast({
-        title: 'Mapping Failed',
-        description: error instanceof Error ? error.message : 'Failed to map source with AI',
+        title: 'Re-extraction Failed',
+        description: error instanceof Error ? error.message : 'Failed to extract text again',
         variant: 'destructive',
       });
     } finally {
-      setMappingSourceId(null);
+      setPendingSourceId(null);
     }
   };
 
@@ -140,50 +273,136 @@ export function SourcesList({ sessionId, refreshTrigger, onMappingComplete }: So
 
   return (
     <div className="space-y-2">
-      {sources.map((source) => (
-        <Card key={source.id} className="p-4">
-          <div className="flex items-start justify-between">
-            <div className="flex min-w-0 flex-1 items-start gap-3">
-              {getIcon(source.type)}
-
-              <div className="min-w-0 flex-1">
-                <p className="truncate font-medium">{source.filename_or_url || 'Pasted Text'}</p>
-                <p className="text-sm text-muted-foreground">
-                  {new Date(source.created_at).toLocaleDateString('en-US', {
-                    month: 'short',
-                    day: 'numeric',
-                    year: 'numeric',
-                  })}{' '}
-                  • {source.text_extracted?.length.toLocaleString() || 0} characters
-                </p>
+      {sources.map((source) => {
+        const job = source.job;
+        const active = isIngestionJobActive(job);
+        const busy = active || pendingSourceId === source.id;
+
+        return (
+          <Card key={source.id} className="p-4">
+            <div className="flex items-start justify-between">
+              <div className="flex min-w-0 flex-1 items-start gap-3">
+                {getIcon(source.type)}
+
+                <div className="min-w-0 flex-1">
+                  <div className="flex items-center gap-2">
+                    <p className="truncate font-medium">
+                      {source.filename_or_url || 'Pasted Text'}
+                    </p>
+                    {job && job.state !== 'done' && (
+                      <Badge variant={job.state === 'failed' ? 'destructive' : 'secondary'}>
+                        {active && <Loader2 className="mr-1 h-3 w-3 animate-spin" />}
+                        {INGESTION_STATE_LABELS[job.state]}
+                      </Badge>
+                    )}
+                  </div>
+                  <p className="text-sm text-muted-foreground">
+                    {new Date(source.created_at).toLocaleDateString('en-US', {
+                      month: 'short',
+                      day: 'numeric',
+                      year: 'numeric',
+                    })}
+                    {source.text_extracted !== null &&
+                      ` \u2022 ${source.text_extracted.length.toLocaleString()} characters`}
+                  </p>
+                  {job?.error && (
+                    <p className="mt-1 text-sm text-destructive">
+                      {job.state === 'failed'
+                        ? job.error
+                        : `Attempt ${job.attempts} of ${job.max_attempts} failed: ${job.error}. Retrying shortly.`}
+                    </p>
+                  )}
+                </div>
               </div>
-            </div>
 
-            <div className="flex items-center gap-2">
-              <Button
-                variant="outline"
-                size="sm"
-                onClick={() => handleMapWithAI(source.id)}
-                disabled={mappingSourceId === source.id || isDeleting}
-                className="ml-2"
-              >
-                <Sparkles className="mr-2 h-4 w-4" />
-                {mappingSourceId === source.id ? 'Mapping...' : 'Map with AI'}
-              </Button>
-
-              <Button
-                variant="ghost"
-                size="sm"
-                onClick={() => handleDeleteClick(source.id)}
-                disabled={isDeleting || mappingSourceId === source.id}
-                aria-label="Delete source"
-              >
-                <Trash2 className="h-4 w-4" />
-              </Button>
+              <div className="flex items-center gap-2">
+                {job?.state === 'failed' ? (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => handleRetry(source.id, job.id)}
+                    disabled={busy || isDeleting}
+                    className="ml-2"
+                  >
+                    <RotateCcw className="mr-2 h-4 w-4" />
+                    Retry
+                  </Button>
+                ) : (
+                  <>
+                    {isTabularSource(source) && source.text_extracted !== null && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => setColumnSource(source)}
+                        disabled={busy || isDeleting}
+                        className="ml-2"
+                      >
+                        <Table className="mr-2 h-4 w-4" />
+                        Map Columns
+                      </Button>
+                    )}
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => handleMapWithAI(source.id)}
+                      disabled={busy || isDeleting}
+                      className="ml-2"
+                    >
+                      <Sparkles className="mr-2 h-4 w-4" />
+                      {job?.state === 'mapping' ? 'Mapping...' : 'Map with AI'}
+                    </Button>
+                  </>
+                )}
+
+                {source.file_hash && (
+                  <>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => handleReextract(source.id)}
+                      disabled={busy || isDeleting}
+                      aria-label="Extract text again"
+                      title="Extract text again from the original file"
+                    >
+                      <FileSearch className="h-4 w-4" />
+                    </Button>
+                    <Button variant="ghost" size="sm" asChild>
+                      <a
+                        href={`/api/v1/sources/${source.id}/download`}
+                        download={source.filename_or_url || true}
+                        aria-label="Download original file"
+                        title="Download original file"
+                      >
+                        <Download className="h-4 w-4" />
+                      </a>
+                    </Button>
+                  </>
+                )}
+
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => handleDeleteClick(source.id)}
+                  disabled={isDeleting || pendingSourceId === source.id}
+                  aria-label="Delete source"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
             </div>
-          </div>
-        </Card>
-      ))}
+          </Card>
+        );
+      })}
+
+      <ColumnMappingDialog
+        sessionId={sessionId}
+        source={columnSource}
+        open={!!columnSource}
+        onOpenChange={(open) => {
+          if (!open) setColumnSource(null);
+        }}
+        onImported={() => onMappingComplete?.()}
+      />
 
       <AlertDialog
         open={!!deleteSourceId}
@@ -0,0 +1,224 @@
+/**
+ * Text extraction for EML (RFC 822 / MIME) emails
+ *
+ * Keeps the sender, recipients, date, and subject, the readable body (plain
+ * text preferred over HTML), forwarded messages, and attachment names.
+ */
+
+import { htmlToText } from './extract-html';
+
+const KEPT_HEADERS = ['from', 'to', 'cc', 'date', 'subject'];
+const HEADER_LABELS: Record<string, string> = {
+  from: 'From',
+  to: 'To',
+  cc: 'Cc',
+  date: 'Date',
+  subject: 'Subject',
+};
+
+type MimePart = {
+  headers: Map<string, string>;
+  body: string; // Raw bytes as a latin1 string, decoded once the charset is known
+};
+
+type HeaderValue = {
+  value: string;
+  params: Record<string, string>;
+};
+
+type RenderedMessage = {
+  body: string[];
+  attachments: string[];
+};
+
+function decodeCharset(bytes: Buffer, charset: string | undefined): string {
+  try {
+    return new TextDecoder(charset || 'utf-8').decode(bytes);
+  } catch {
+    return new TextDecoder('utf-8').decode(bytes);
+  }
+}
+
+function decodeQuotedPrintable(text: string, inHeader: boolean): Buffer {
+  const source = inHeader ? text.replace(/_/g, ' ') : text.replace(/=\r?\n/g, '');
+  const bytes: number[] = [];
+
+  for (let i = 0; i < source.length; i++) {
+    const hex = source.slice(i + 1, i + 3);
+    if (source[i] === '=' && /^[0-9A-Fa-f]{2}$/.test(hex)) {
+      bytes.push(parseInt(hex, 16));
+      i += 2;
+    } else {
+      bytes.push(source.charCodeAt(i) & 0xff);
+    }
+  }
+
+  return Buffer.from(bytes);
+}
+
+/**
+ * Decode RFC 2047 encoded words (=?charset?B?...?=) in a header
+ */
+function decodeHeader(value: string): string {
+  return value
+    .replace(/(\?=)\s+(=\?)/g, '$1$2') // Whitespace between encoded words is dropped
+    .replace(/=\?([^?]+)\?([BbQq])\?([^?]*)\?=/g, (_, charset: string, encoding: string, text) =>
+      decodeCharset(
+        encoding.toUpperCase() === 'B'
+          ? Buffer.from(text, 'base64')
+          : decodeQuotedPrintable(text, true),
+        charset.split('*')[0]
+      )
+    );
+}
+
+function parseHeaderValue(raw: string | undefined): HeaderValue {
+  const [value = '', ...rest] = (raw || '').split(';');
+  const params: Record<string, string> = {};
+
+  for (const param of rest) {
+    const separator = param.indexOf('=');
+    if (separator === -1) continue;
+
+    let name = param.slice(0, separator).trim().toLowerCase();
+    let paramValue = param
+      .slice(separator + 1)
+      .trim()
+      .replace(/^"(.*)"$/, '$1');
+
+    // RFC 2231 extended values (filename*=utf-8''name.pdf)
+    if (name.endsWith('*')) {
+      name = name.slice(0, -1);
+      const [charset, , encoded = paramValue] = paramValue.split("'");
+      const bytes = encoded.replace(/%([0-9A-Fa-f]{2})/g, (_, hex: string) =>
+        String.fromCharCode(parseInt(hex, 16))
+      );
+      paramValue = decodeCharset(Buffer.from(bytes, 'latin1'), charset);
+    }
+
+    params[name] = decodeHeader(paramValue);
+  }
+
+  return { value: value.trim().toLowerCase(), params };
+}
+
+function parsePart(raw: string): MimePart {
+  const match = /\r?\n\r?\n/.exec(raw);
+  const headerBlock = match ? raw.slice(0, match.index) : raw;
+  const body = match ? raw.slice(match.index + match[0].length) : '';
+  const headers = new Map<string, string>();
+
+  // Folded header lines start with whitespace
+  for (const line of headerBlock.replace(/\r?\n[ \t]+/g, ' ').split(/\r?\n/)) {
+    const separator = line.indexOf(':');
+    if (separator <= 0) continue;
+
+    const name = line.slice(0, separator).trim().toLowerCase();
+    if (!headers.has(name)) headers.set(name, line.slice(separator + 1).trim());
+  }
+
+  return { headers, body };
+}
+
+function decodeBody(part: MimePart, charset: string | undefined): string {
+  const encoding = (part.headers.get('content-transfer-encoding') || '').trim().toLowerCase();
+  let bytes: Buffer;
+
+  if (encoding === 'base64') {
+    bytes = Buffer.from(part.body.replace(/\s+/g, ''), 'base64');
+  } else if (encoding === 'quoted-printable') {
+    bytes = decodeQuotedPrintable(part.body, false);
+  } else {
+    bytes = Buffer.from(part.body, 'latin1');
+  }
+
+  return decodeCharset(bytes, charset);
+}
+
+function splitMultipart(body: string, boundary: string): string[] {
+  const delimiter = `--${boundary}`;
+  const parts: string[] = [];
+  let current: string[] | null = null;
+
+  for (const line of body.split(/\r?\n/)) {
+    if (line.startsWith(delimiter)) {
+      if (current) parts.push(current.join('\n'));
+      if (line.startsWith(`${delimiter}--`)) return parts;
+      current = [];
+    } else if (current) {
+      current.push(line);
+    }
+  }
+
+  if (current) parts.push(current.join('\n'));
+  return parts;
+}
+
+function renderHeaders(part: MimePart): string {
+  return KEPT_HEADERS.filter((name) => part.headers.get(name))
+    .map((name) => `${HEADER_LABELS[name]}: ${decodeHeader(part.headers.get(name)!)}`)
+    .join('\n');
+}
+
+function renderPart(part: MimePart, message: RenderedMessage): void {
+  const contentType = parseHeaderValue(part.headers.get('content-type') || 'text/plain');
+  const disposition = parseHeaderValue(part.headers.get('content-disposition'));
+  const filename = disposition.params.filename || contentType.params.name;
+
+  if (contentType.value.startsWith('multipart/') && contentType.params.boundary) {
+    const children = splitMultipart(part.body, contentType.params.boundary).map(parsePart);
+
+    if (contentType.value === 'multipart/alternative') {
+      // Alternatives carry the same content; prefer plain text, then HTML
+      const typeOf = (child: MimePart) =>
+        parseHeaderValue(child.headers.get('content-type') || 'text/plain').value;
+      const preferred =
+        children.find((child) => typeOf(child) === 'text/plain') ??
+        children.find((child) => typeOf(child) === 'text/html') ??
+        children[0];
+      if (preferred) renderPart(preferred, message);
+      return;
+    }
+
+    for (const child of children) renderPart(child, message);
+    return;
+  }
+
+  if (contentType.value === 'message/rfc822') {
+    message.body.push(`---------- Forwarded message ----------\n${emlToText(part.body)}`);
+    return;
+  }
+
+  const isText = contentType.value === 'text/plain' || contentType.value === 'text/html';
+
+  if (disposition.value === 'attachment' || !isText) {
+    if (filename) message.attachments.push(filename);
+    return;
+  }
+
+  const text = decodeBody(part, contentType.params.charset);
+  message.body.push(contentType.value === 'text/html' ? htmlToText(text) : text.trim());
+}
+
+/**
+ * Convert an EML email to plain text: headers, body, then attachment names
+ *
+ * @param raw - Email source as a latin1 string (bytes are decoded per part)
+ */
+export function emlToText(raw: string): string {
+  const part = parsePart(raw);
+  const message: RenderedMessage = { body: [], attachments: [] };
+  renderPart(part, message);
+
+  const sections = [renderHeaders(part), ...message.body.filter(Boolean)];
+  if (message.attachments.length > 0) {
+    sections.push(`Attachments: ${message.attachments.join(', ')}`);
+  }
+
+  return sections
+    .filter(Boolean)
+    .join('\n\n')
+    .replace(/\r\n/g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
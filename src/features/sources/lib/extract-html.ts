@@ -0,0 +1,119 @@
+/**
+ * Text extraction for saved HTML pages
+ *
+ * Unlike URL scraping, which keeps only a page's main article, a saved page
+ * is converted whole, keeping headings, list items, and table rows.
+ */
+
+import * as cheerio from 'cheerio';
+
+type HtmlDocument = cheerio.CheerioAPI;
+
+// cheerio doesn't re-export its node type, so it is taken from a selection
+type HtmlNode = ReturnType<ReturnType<HtmlDocument['root']>['contents']>[number];
+
+const SKIPPED_TAGS = new Set([
+  'head',
+  'script',
+  'style',
+  'noscript',
+  'template',
+  'svg',
+  'iframe',
+  'object',
+  'canvas',
+  'button',
+  'select',
+]);
+
+const BLOCK_TAGS = new Set([
+  'address',
+  'article',
+  'aside',
+  'blockquote',
+  'dd',
+  'div',
+  'dl',
+  'dt',
+  'fieldset',
+  'figcaption',
+  'figure',
+  'footer',
+  'form',
+  'header',
+  'hr',
+  'main',
+  'nav',
+  'ol',
+  'p',
+  'pre',
+  'section',
+  'table',
+  'ul',
+]);
+
+function renderChildren($: HtmlDocument, node: HtmlNode): string {
+  return $(node)
+    .contents()
+    .toArray()
+    .map((child) => renderNode($, child))
+    .join('');
+}
+
+function renderNode($: HtmlDocument, node: HtmlNode): string {
+  if (node.type === 'text') {
+    return $(node).text().replace(/\s+/g, ' ');
+  }
+
+  if (node.type !== 'tag') return '';
+
+  const tag = node.name.toLowerCase();
+  if (SKIPPED_TAGS.has(tag)) return '';
+
+  if (tag === 'br') return '\n';
+
+  if (tag === 'pre') {
+    return `\n\n${$(node).text()}\n\n`;
+  }
+
+  const heading = /^h([1-6])$/.exec(tag);
+  if (heading) {
+    const text = renderChildren($, node).replace(/\s+/g, ' ').trim();
+    return text ? `\n\n${'#'.repeat(Number(heading[1]))} ${text}\n\n` : '';
+  }
+
+  if (tag === 'li') {
+    return `\n- ${renderChildren($, node).trim()}`;
+  }
+
+  if (tag === 'tr') {
+    const cells = $(node)
+      .children('td, th')
+      .toArray()
+      .map((cell) => renderChildren($, cell).replace(/\s+/g, ' ').trim());
+    return cells.some(Boolean) ? `\n${cells.join(' | ')}` : '';
+  }
+
+  const content = renderChildren($, node);
+  return BLOCK_TAGS.has(tag) ? `\n\n${content}\n\n` : content;
+}
+
+/**
+ * Convert an HTML document to plain text with Markdown-style headings and
+ * list items, and one line per table row
+ */
+export function htmlToText(html: string): string {
+  const $ = cheerio.load(html);
+  const title = $('title').first().text().replace(/\s+/g, ' ').trim();
+  const body = $('body').get(0) ?? $.root().get(0);
+
+  const text = (body ? renderChildren($, body) : '')
+    .split('\n')
+    .map((line) => line.trim())
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+
+  // The page title is kept when the page has no top-level heading of its own
+  return title && !$('h1').length ? `# ${title}\n\n${text}` : text;
+}
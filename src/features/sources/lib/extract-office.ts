@@ -0,0 +1,336 @@
+/**
+ * Text extraction for XLSX workbooks and PPTX slide decks
+ *
+ * Keeps the structure the mapper needs: sheet and row boundaries for
+ * workbooks, slide titles and speaker notes for decks.
+ */
+
+import * as cheerio from 'cheerio';
+
+import { ValidationError } from '@/lib/errors';
+import { readZip, ZipArchive } from './read-zip';
+
+type XmlDocument = cheerio.CheerioAPI;
+
+// cheerio doesn't re-export its element type, so it is taken from a selection
+type XmlElement = ReturnType<ReturnType<XmlDocument['root']>['children']>[number];
+
+// Built-in number formats that display dates (ECMA-376 18.8.30)
+const BUILTIN_DATE_FORMATS = new Set([14, 15, 16, 17, 18, 19, 20, 21, 22, 45, 46, 47]);
+const EXCEL_EPOCH_MS = Date.UTC(1899, 11, 30);
+const DATE1904_OFFSET_DAYS = 1462;
+
+function loadXml(archive: ZipArchive, path: string): XmlDocument | null {
+  const xml = archive.readText(path);
+  return xml === null ? null : cheerio.load(xml, { xml: true });
+}
+
+/**
+ * Resolve a relationship target against the part that references it
+ */
+function resolveTarget(partPath: string, target: string): string {
+  if (target.startsWith('/')) return target.slice(1);
+
+  const segments = partPath.split('/').slice(0, -1);
+  for (const segment of target.split('/')) {
+    if (segment === '..') segments.pop();
+    else if (segment !== '.') segments.push(segment);
+  }
+  return segments.join('/');
+}
+
+/**
+ * Read a part's relationships, as targets keyed by relationship id
+ */
+function readRelationships(
+  archive: ZipArchive,
+  partPath: string
+): Map<string, { target: string; type: string }> {
+  const segments = partPath.split('/');
+  const fileName = segments.pop();
+  const $ = loadXml(archive, [...segments, '_rels', `${fileName}.rels`].join('/'));
+  const relationships = new Map<string, { target: string; type: string }>();
+
+  $?.('Relationship').each((_, element) => {
+    const id = $(element).attr('Id');
+    const target = $(element).attr('Target');
+    if (id && target && $(element).attr('TargetMode') !== 'External') {
+      relationships.set(id, {
+        target: resolveTarget(partPath, target),
+        type: $(element).attr('Type') || '',
+      });
+    }
+  });
+
+  return relationships;
+}
+
+// ============================================================================
+// XLSX
+// ============================================================================
+
+/**
+ * Column index (0-based) from a cell reference such as "C12"
+ */
+function columnIndex(reference: string): number {
+  let index = 0;
+  for (const char of reference.replace(/\d+$/, '')) {
+    index = index * 26 + (char.toUpperCase().charCodeAt(0) - 64);
+  }
+  return index - 1;
+}
+
+function isDateFormat(code: string): boolean {
+  // Ignore quoted literals and colour/condition brackets, then look for date parts
+  const stripped = code.replace(/"[^"]*"/g, '').replace(/\[[^\]]*\]/g, '');
+  return /[dmy]/i.test(stripped) && !/^[#0.,%\s]*$/.test(stripped);
+}
+
+function formatSerialDate(serial: number, date1904: boolean): string {
+  const days = date1904 ? serial + DATE1904_OFFSET_DAYS : serial;
+  const date = new Date(EXCEL_EPOCH_MS + Math.round(days * 86400000));
+  const iso = date.toISOString();
+  return days % 1 === 0 ? iso.slice(0, 10) : `${iso.slice(0, 10)} ${iso.slice(11, 16)}`;
+}
+
+function readSharedStrings(archive: ZipArchive, path: string | undefined): string[] {
+  const $ = path ? loadXml(archive, path) : null;
+  if (!$) return [];
+
+  return $('si')
+    .toArray()
+    .map((item) =>
+      // Phonetic runs (rPh) are reading aids, not cell text
+      $(item)
+        .find('t')
+        .toArray()
+        .filter((t) => !$(t).parents('rPh').length)
+        .map((t) => $(t).text())
+        .join('')
+    );
+}
+
+/**
+ * Style indexes whose number format displays a date
+ */
+function readDateStyles(archive: ZipArchive, path: string | undefined): Set<number> {
+  const $ = path ? loadXml(archive, path) : null;
+  const dateStyles = new Set<number>();
+  if (!$) return dateStyles;
+
+  const customDateFormats = new Set<number>();
+  $('numFmts numFmt').each((_, element) => {
+    if (isDateFormat($(element).attr('formatCode') || '')) {
+      customDateFormats.add(Number($(element).attr('numFmtId')));
+    }
+  });
+
+  $('cellXfs')
+    .first()
+    .children('xf')
+    .each((index, element) => {
+      const formatId = Number($(element).attr('numFmtId') || 0);
+      if (BUILTIN_DATE_FORMATS.has(formatId) || customDateFormats.has(formatId)) {
+        dateStyles.add(index);
+      }
+    });
+
+  return dateStyles;
+}
+
+/**
+ * Extract text from an XLSX workbook, one line per row
+ */
+export function extractXlsx(buffer: Buffer): string {
+  const archive = readZip(buffer);
+  const workbookPath = 'xl/workbook.xml';
+  const $workbook = loadXml(archive, workbookPath);
+
+  if (!$workbook) {
+    throw new ValidationError('File is not a valid XLSX workbook');
+  }
+
+  const relationships = readRelationships(archive, workbookPath);
+  const findPart = (type: string) =>
+    [...relationships.values()].find((relationship) => relationship.type.endsWith(`/${type}`))
+      ?.target;
+
+  const sharedStrings = readSharedStrings(archive, findPart('sharedStrings'));
+  const dateStyles = readDateStyles(archive, findPart('styles'));
+  const date1904 = ['1', 'true'].includes($workbook('workbookPr').attr('date1904') || '');
+
+  const sheets: string[] = [];
+
+  $workbook('sheets sheet').each((_, sheet) => {
+    const name = $workbook(sheet).attr('name') || 'Sheet';
+    const relationshipId = $workbook(sheet).attr('r:id') || '';
+    const path = relationships.get(relationshipId)?.target;
+    const $ = path ? loadXml(archive, path) : null;
+    if (!$) return;
+
+    const lines: string[] = [];
+
+    $('sheetData row').each((rowIndex, row) => {
+      const cells: string[] = [];
+
+      for (const cell of $(row).children('c').toArray()) {
+        const reference = $(cell).attr('r');
+        const index = reference ? columnIndex(reference) : cells.length;
+        const type = $(cell).attr('t');
+        const raw = $(cell).children('v').text();
+        let value: string;
+
+        if (type === 's') {
+          value = sharedStrings[Number(raw)] ?? '';
+        } else if (type === 'inlineStr') {
+          value = $(cell).find('t').text();
+        } else if (type === 'b') {
+          value = raw === '1' ? 'TRUE' : 'FALSE';
+        } else if (!type || type === 'n') {
+          const style = Number($(cell).attr('s') || 0);
+          value =
+            raw !== '' && dateStyles.has(style) && !isNaN(Number(raw))
+              ? formatSerialDate(Number(raw), date1904)
+              : raw;
+        } else {
+          value = raw; // Formula strings (str) and errors (e)
+        }
+
+        // Pipes are escaped so rows can be split back into cells (see utils/tabular.ts)
+        cells[index] = value
+          .replace(/\s*\n\s*/g, ' ')
+          .trim()
+          .replace(/\|/g, '\\|');
+      }
+
+      const values = Array.from(cells, (value) => value ?? '');
+      while (values.length > 0 && values[values.length - 1] === '') values.pop();
+      if (values.length === 0) return;
+
+      lines.push(`Row ${$(row).attr('r') || rowIndex + 1}: ${values.join(' | ')}`);
+    });
+
+    if (lines.length > 0) {
+      sheets.push(`## Sheet: ${name}\n\n${lines.join('\n')}`);
+    }
+  });
+
+  return sheets.join('\n\n');
+}
+
+// ============================================================================
+// PPTX
+// ============================================================================
+
+const TITLE_PLACEHOLDERS = ['title', 'ctrTitle'];
+
+function placeholderType($: XmlDocument, shape: XmlElement): string | null {
+  const placeholder = $(shape).find('p\\:ph').first();
+  return placeholder.length ? placeholder.attr('type') || 'body' : null;
+}
+
+function paragraphText($: XmlDocument, paragraph: XmlElement): string {
+  return $(paragraph)
+    .find('a\\:t, a\\:br')
+    .toArray()
+    .map((node) => (node.name === 'a:br' ? '\n' : $(node).text()))
+    .join('')
+    .trim();
+}
+
+function shapeText($: XmlDocument, shape: XmlElement): string {
+  return $(shape)
+    .find('a\\:p')
+    .toArray()
+    .map((paragraph) => paragraphText($, paragraph))
+    .filter(Boolean)
+    .join('\n');
+}
+
+/**
+ * Walk a slide's shape tree in order, collecting its title and body text
+ */
+function readShapes(
+  $: XmlDocument,
+  tree: XmlElement,
+  slide: { title: string | null; body: string[] }
+): void {
+  for (const child of $(tree).children().toArray()) {
+    if (child.name === 'p:sp') {
+      const text = shapeText($, child);
+      if (!text) continue;
+
+      if (!slide.title && TITLE_PLACEHOLDERS.includes(placeholderType($, child) || '')) {
+        slide.title = text.replace(/\n/g, ' ');
+      } else {
+        slide.body.push(text);
+      }
+    } else if (child.name === 'p:graphicFrame') {
+      // Tables keep one line per row
+      for (const row of $(child).find('a\\:tr').toArray()) {
+        const cells = $(row)
+          .children('a\\:tc')
+          .toArray()
+          .map((cell) => shapeText($, cell).replace(/\n/g, ' '));
+        if (cells.some(Boolean)) slide.body.push(cells.join(' | '));
+      }
+    } else if (child.name === 'p:grpSp') {
+      readShapes($, child, slide);
+    }
+  }
+}
+
+function readSpeakerNotes(archive: ZipArchive, slidePath: string): string {
+  const notes = [...readRelationships(archive, slidePath).values()].find((relationship) =>
+    relationship.type.endsWith('/notesSlide')
+  );
+  const $ = notes ? loadXml(archive, notes.target) : null;
+  if (!$) return '';
+
+  // Notes pages also hold the slide image and number; only the body is the notes
+  return $('p\\:sp')
+    .toArray()
+    .filter((shape) => placeholderType($, shape) === 'body')
+    .map((shape) => shapeText($, shape))
+    .filter(Boolean)
+    .join('\n');
+}
+
+/**
+ * Extract text from a PPTX deck, one section per slide with its speaker notes
+ */
+export function extractPptx(buffer: Buffer): string {
+  const archive = readZip(buffer);
+  const presentationPath = 'ppt/presentation.xml';
+  const $presentation = loadXml(archive, presentationPath);
+
+  if (!$presentation) {
+    throw new ValidationError('File is not a valid PPTX presentation');
+  }
+
+  const relationships = readRelationships(archive, presentationPath);
+  const slides: string[] = [];
+
+  $presentation('p\\:sldIdLst p\\:sldId').each((index, slideId) => {
+    const path = relationships.get($presentation(slideId).attr('r:id') || '')?.target;
+    const $ = path ? loadXml(archive, path) : null;
+    if (!path || !$) return;
+
+    // Hidden slides aren't presented, so they're left out
+    if ($('p\\:sld').attr('show') === '0') return;
+
+    const slide = { title: null as string | null, body: [] as string[] };
+    const tree = $('p\\:cSld > p\\:spTree').get(0);
+    if (tree) readShapes($, tree, slide);
+
+    const parts = [`## Slide ${index + 1}${slide.title ? `: ${slide.title}` : ''}`];
+    if (slide.body.length > 0) parts.push(slide.body.join('\n'));
+
+    const notes = readSpeakerNotes(archive, path);
+    if (notes) parts.push(`Speaker notes:\n${notes}`);
+
+    slides.push(parts.join('\n\n'));
+  });
+
+  return slides.join('\n\n');
+}
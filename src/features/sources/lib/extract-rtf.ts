@@ -0,0 +1,209 @@
+/**
+ * Text extraction for RTF documents
+ *
+ * A small RTF reader: keeps body text, paragraph breaks, and table rows, and
+ * skips font tables, styles, embedded pictures, and other metadata groups.
+ */
+
+// Destination groups whose content isn't document text
+const SKIPPED_DESTINATIONS = new Set([
+  'author',
+  'bkmkend',
+  'bkmkstart',
+  'colortbl',
+  'comment',
+  'datastore',
+  'falt',
+  'filetbl',
+  'fldinst',
+  'fonttbl',
+  'footer',
+  'footerf',
+  'footerl',
+  'footerr',
+  'generator',
+  'header',
+  'headerf',
+  'headerl',
+  'headerr',
+  'info',
+  'latentstyles',
+  'listoverridetable',
+  'listtable',
+  'listtext',
+  'nonshppict',
+  'object',
+  'operator',
+  'pict',
+  'pntext',
+  'pntxta',
+  'pntxtb',
+  'revtbl',
+  'rsidtbl',
+  'stylesheet',
+  'themedata',
+  'colorschememapping',
+  'title',
+  'xmlnstbl',
+]);
+
+const SYMBOLS: Record<string, string> = {
+  par: '\n',
+  line: '\n',
+  sect: '\n\n',
+  page: '\n\n',
+  tab: '\t',
+  cell: ' | ',
+  row: '\n',
+  emdash: '\u2014',
+  endash: '\u2013',
+  bullet: '\u2022',
+  lquote: '\u2018',
+  rquote: '\u2019',
+  ldblquote: '\u201C',
+  rdblquote: '\u201D',
+  emspace: ' ',
+  enspace: ' ',
+  qmspace: ' ',
+};
+
+type GroupState = {
+  skip: boolean;
+  unicodeSkip: number; // Fallback characters after each \u (set by \uc)
+};
+
+function decoderFor(codePage: number): TextDecoder {
+  try {
+    return new TextDecoder(`windows-${codePage}`);
+  } catch {
+    return new TextDecoder('latin1');
+  }
+}
+
+/**
+ * Convert an RTF document to plain text
+ */
+export function rtfToText(rtf: string): string {
+  let decoder = decoderFor(1252);
+  let state: GroupState = { skip: false, unicodeSkip: 1 };
+  const stack: GroupState[] = [];
+  const output: string[] = [];
+  let bytes: number[] = [];
+  let fallbackToSkip = 0; // Characters still to skip after a \u
+
+  const flushBytes = () => {
+    if (bytes.length === 0) return;
+    if (!state.skip) output.push(decoder.decode(new Uint8Array(bytes)));
+    bytes = [];
+  };
+
+  const emit = (text: string) => {
+    flushBytes();
+    if (!state.skip) output.push(text);
+  };
+
+  let i = 0;
+  while (i < rtf.length) {
+    const char = rtf[i]!;
+
+    if (char === '{') {
+      flushBytes();
+      stack.push(state);
+      state = { ...state };
+      i++;
+      continue;
+    }
+
+    if (char === '}') {
+      flushBytes();
+      state = stack.pop() ?? state;
+      i++;
+      continue;
+    }
+
+    if (char === '\r' || char === '\n') {
+      i++;
+      continue;
+    }
+
+    if (char !== '\\') {
+      if (fallbackToSkip > 0) {
+        fallbackToSkip--;
+      } else {
+        emit(char);
+      }
+      i++;
+      continue;
+    }
+
+    // Control symbol or word
+    const next = rtf[i + 1] ?? '';
+
+    if (next === "'") {
+      const code = parseInt(rtf.slice(i + 2, i + 4), 16);
+      i += 4;
+      if (fallbackToSkip > 0) {
+        fallbackToSkip--;
+      } else if (!isNaN(code)) {
+        bytes.push(code);
+      }
+      continue;
+    }
+
+    if (!/[a-zA-Z]/.test(next)) {
+      i += 2;
+      if (next === '*') {
+        // Ignorable destination the reader doesn't know
+        state.skip = true;
+      } else if (next === '\\' || next === '{' || next === '}') {
+        emit(next);
+      } else if (next === '~') {
+        emit(' ');
+      } else if (next === '_') {
+        emit('-');
+      } else if (next === '\n' || next === '\r') {
+        emit('\n');
+      }
+      continue;
+    }
+
+    const match = /^([a-zA-Z]{1,32})(-?\d{1,10})? ?/.exec(rtf.slice(i + 1, i + 48));
+    const word = match?.[1] ?? next;
+    const param = match?.[2] !== undefined ? Number(match[2]) : null;
+    i += 1 + (match?.[0].length ?? 1);
+
+    if (fallbackToSkip > 0) {
+      fallbackToSkip--;
+      continue;
+    }
+
+    if (SKIPPED_DESTINATIONS.has(word)) {
+      flushBytes();
+      state.skip = true;
+    } else if (word === 'ansicpg' && param !== null) {
+      decoder = decoderFor(param);
+    } else if (word === 'uc' && param !== null) {
+      state.unicodeSkip = param;
+    } else if (word === 'u' && param !== null) {
+      emit(String.fromCharCode(param < 0 ? param + 65536 : param));
+      fallbackToSkip = state.unicodeSkip;
+    } else if (SYMBOLS[word] !== undefined) {
+      emit(SYMBOLS[word]);
+    }
+  }
+
+  flushBytes();
+
+  return output
+    .join('')
+    .split('\n')
+    .map((line) =>
+      line
+        .replace(/[ \t]+/g, ' ')
+        .replace(/(\s*\|\s*)+$/, '')
+        .trim()
+    )
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
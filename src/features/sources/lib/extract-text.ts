@@ -3,36 +3,55 @@ const pdfParse = require('pdf-parse');
 import mammoth from 'mammoth';
 
 import { ValidationError } from '@/lib/errors';
+import { detectSourceFileFormat } from '@/features/sources/utils/file-types';
+import { emlToText } from './extract-eml';
+import { htmlToText } from './extract-html';
+import { extractPptx, extractXlsx } from './extract-office';
+import { rtfToText } from './extract-rtf';
+
+/**
+ * Whether text can be extracted from a file, so uploads can be rejected
+ * before they are queued for extraction
+ */
+export function isSupportedFile(file: File): boolean {
+  return detectSourceFileFormat(file) !== null;
+}
 
 export async function extractText(file: File): Promise<string> {
   const buffer = Buffer.from(await file.arrayBuffer());
 
-  // PDF files
-  if (file.type === 'application/pdf') {
-    const data = await pdfParse(buffer);
-    return data.text;
-  }
+  switch (detectSourceFileFormat(file)) {
+    case 'pdf': {
+      const data = await pdfParse(buffer);
+      return data.text;
+    }
 
-  // DOCX files
-  if (
-    file.type === 'application/vnd.openxmlformats-officedocument.wordprocessingml.document' ||
-    file.name.endsWith('.docx')
-  ) {
-    const result = await mammoth.extractRawText({ buffer });
-    return result.value;
-  }
+    case 'docx': {
+      const result = await mammoth.extractRawText({ buffer });
+      return result.value;
+    }
 
-  // Plain text files
-  if (
-    file.type === 'text/plain' ||
-    file.type === 'text/markdown' ||
-    file.type === 'text/csv' ||
-    file.name.endsWith('.txt') ||
-    file.name.endsWith('.md') ||
-    file.name.endsWith('.csv')
-  ) {
-    return buffer.toString('utf-8');
-  }
+    case 'xlsx':
+      return extractXlsx(buffer);
+
+    case 'pptx':
+      return extractPptx(buffer);
 
-  throw new ValidationError(`Unsupported file type: ${file.type || 'unknown'}`);
+    case 'html':
+      return htmlToText(buffer.toString('utf-8'));
+
+    // RTF and email bytes are decoded per code page / MIME part charset
+    case 'rtf':
+      return rtfToText(buffer.toString('latin1'));
+
+    case 'eml':
+      return emlToText(buffer.toString('latin1'));
+
+    case 'csv':
+    case 'text':
+      return buffer.toString('utf-8');
+
+    default:
+      throw new ValidationError(`Unsupported file type: ${file.type || 'unknown'}`);
+  }
 }
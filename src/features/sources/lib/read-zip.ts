@@ -0,0 +1,109 @@
+/**
+ * Minimal ZIP reader for Office Open XML files (XLSX, PPTX)
+ *
+ * Reads the central directory and inflates entries on demand. Encrypted and
+ * ZIP64 archives aren't supported; Office doesn't write them for files of
+ * the size we accept.
+ */
+
+import zlib from 'zlib';
+
+import { ValidationError } from '@/lib/errors';
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const CENTRAL_DIRECTORY_HEADER = 0x02014b50;
+const LOCAL_FILE_HEADER = 0x04034b50;
+const MAX_ENTRY_BYTES = 50 * 1024 * 1024; // Guards against zip bombs
+
+type ZipEntry = {
+  method: number;
+  compressedSize: number;
+  flags: number;
+  localHeaderOffset: number;
+};
+
+export type ZipArchive = {
+  names: string[];
+  readText: (name: string) => string | null; // Null when the entry doesn't exist
+};
+
+function invalid(): never {
+  throw new ValidationError('File is not a valid Office document');
+}
+
+function findEndOfCentralDirectory(buffer: Buffer): number {
+  // The record is 22 bytes plus a comment of up to 65535 bytes
+  const stop = Math.max(0, buffer.length - 22 - 0xffff);
+  for (let offset = buffer.length - 22; offset >= stop; offset--) {
+    if (buffer.readUInt32LE(offset) === END_OF_CENTRAL_DIRECTORY) return offset;
+  }
+  return invalid();
+}
+
+/**
+ * Open a ZIP archive held in memory
+ *
+ * @throws ValidationError when the file isn't a readable ZIP archive
+ */
+export function readZip(buffer: Buffer): ZipArchive {
+  if (buffer.length < 22) invalid();
+
+  const end = findEndOfCentralDirectory(buffer);
+  const entryCount = buffer.readUInt16LE(end + 10);
+  let offset = buffer.readUInt32LE(end + 16);
+
+  if (offset === 0xffffffff || entryCount === 0xffff) {
+    throw new ValidationError('ZIP64 documents are not supported');
+  }
+
+  const entries = new Map<string, ZipEntry>();
+
+  for (let i = 0; i < entryCount; i++) {
+    if (offset + 46 > buffer.length || buffer.readUInt32LE(offset) !== CENTRAL_DIRECTORY_HEADER) {
+      invalid();
+    }
+
+    const nameLength = buffer.readUInt16LE(offset + 28);
+    const extraLength = buffer.readUInt16LE(offset + 30);
+    const commentLength = buffer.readUInt16LE(offset + 32);
+    const name = buffer.toString('utf8', offset + 46, offset + 46 + nameLength);
+
+    entries.set(name, {
+      flags: buffer.readUInt16LE(offset + 8),
+      method: buffer.readUInt16LE(offset + 10),
+      compressedSize: buffer.readUInt32LE(offset + 20),
+      localHeaderOffset: buffer.readUInt32LE(offset + 42),
+    });
+
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+
+  const readText = (name: string): string | null => {
+    const entry = entries.get(name);
+    if (!entry) return null;
+
+    if (entry.flags & 0x1) {
+      throw new ValidationError('Password-protected documents are not supported');
+    }
+
+    const header = entry.localHeaderOffset;
+    if (header + 30 > buffer.length || buffer.readUInt32LE(header) !== LOCAL_FILE_HEADER) {
+      invalid();
+    }
+
+    const dataStart =
+      header + 30 + buffer.readUInt16LE(header + 26) + buffer.readUInt16LE(header + 28);
+    const data = buffer.subarray(dataStart, dataStart + entry.compressedSize);
+
+    if (entry.method === 0) return data.toString('utf8');
+    if (entry.method !== 8) invalid();
+
+    try {
+      return zlib.inflateRawSync(data, { maxOutputLength: MAX_ENTRY_BYTES }).toString('utf8');
+    } catch {
+      return invalid();
+    }
+  };
+
+  return { names: [...entries.keys()], readText };
+}
@@ -4,6 +4,8 @@
  * Represents imported data sources (files, pasted text, URLs)
  */
 
+import { FieldType, SubField } from '@/features/blueprints/types/blueprint';
+
 export type SourceType = 'file' | 'paste' | 'url';
 
 export type Source = {
@@ -11,8 +13,118 @@ export type Source = {
   session_id: string;
   type: SourceType;
   filename_or_url: string | null;
-  text_extracted: string;
+  text_extracted: string | null; // Null until the ingestion job extracts it (see migration 023)
   metadata: Record<string, unknown> | null;
+  file_hash: string | null; // Keys the stored original upload (see migration 026)
   created_by: string;
   created_at: string;
 };
+
+// Ingestion jobs (see migration 023): background extraction and AI mapping
+
+export type IngestionJobState = 'queued' | 'extracting' | 'mapping' | 'done' | 'failed';
+
+export type IngestionJobResult = {
+  suggestions_count: number;
+  suggestions_stored: number;
+  summaries_appended: number;
+  chunks_total: number; // Chunks the source was split into for mapping (see migration 024)
+  chunks_mapped: number; // Chunks sent to the AI; the rest reused stored results
+  column_mappings_applied: number; // Saved column mappings applied instead of AI (see migration 025)
+};
+
+export type IngestionJob = {
+  id: string;
+  session_id: string;
+  source_id: string;
+  state: IngestionJobState;
+  map: boolean; // Run AI mapping once the source has text
+  reextract: boolean; // Extract again from the stored original, replacing the source's text
+  attempts: number;
+  max_attempts: number;
+  run_after: string; // When a queued job is next tried
+  error: string | null; // Error from the last failed attempt
+  result: IngestionJobResult | null; // Set when mapping finishes
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+  finished_at: string | null;
+};
+
+export type SourceWithJob = Source & {
+  job: IngestionJob | null; // Latest ingestion job for the source
+};
+
+// Column imports (see migration 025): tabular sources mapped without AI
+
+/**
+ * A table read from a CSV or XLSX source
+ */
+export type SourceTable = {
+  name: string | null; // Sheet name (XLSX only)
+  columns: string[]; // Header row; blank headers are named by column letter and duplicates numbered
+  rows: SourceTableRow[];
+};
+
+export type SourceTableRow = {
+  number: number; // Row number in the sheet or file, counting the header row
+  cells: string[]; // Aligned with columns
+};
+
+export type ColumnAggregate =
+  | 'first'
+  | 'last'
+  | 'sum'
+  | 'average'
+  | 'min'
+  | 'max'
+  | 'count'
+  | 'join';
+
+export type ColumnMappingEntry = {
+  column: string; // Header text
+  field_key: string;
+  sub_field_key?: string; // RepeatableGroup only: table rows become group rows
+  aggregate?: ColumnAggregate; // All-row imports of other fields (default 'first')
+};
+
+export type ColumnRowSelection = { mode: 'row'; row_number: number } | { mode: 'all' };
+
+export type ColumnMapping = {
+  columns: ColumnMappingEntry[];
+  row_selection: ColumnRowSelection;
+};
+
+export type SavedColumnMapping = ColumnMapping & {
+  id: string;
+  blueprint_id: string;
+  header_signature: string;
+  headers: string[];
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+};
+
+/**
+ * Field a column can be mapped to
+ */
+export type ColumnImportField = {
+  key: string;
+  label: string;
+  type: FieldType;
+  section: string;
+  sub_fields: SubField[]; // RepeatableGroup only
+};
+
+export type SourceColumnsResponse = {
+  tables: SourceTable[];
+  fields: ColumnImportField[];
+  saved_mappings: (SavedColumnMapping | null)[]; // Aligned with tables
+};
+
+export type ColumnImportResult = {
+  suggestions_count: number; // Fields the mapping produced a value for
+  suggestions_stored: number; // Stored as suggestions; accepted values aren't replaced
+  values_discarded: number; // Values that didn't fit their field type
+  mapping_saved: boolean;
+};
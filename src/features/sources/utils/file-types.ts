@@ -0,0 +1,84 @@
+/**
+ * Source file formats that text can be extracted from, shared by the upload
+ * components and server-side extraction
+ */
+
+export type SourceFileFormat =
+  | 'pdf'
+  | 'docx'
+  | 'xlsx'
+  | 'pptx'
+  | 'html'
+  | 'rtf'
+  | 'eml'
+  | 'csv'
+  | 'text';
+
+type SourceFileType = {
+  format: SourceFileFormat;
+  mimeTypes: string[];
+  extensions: string[];
+};
+
+const SOURCE_FILE_TYPES: SourceFileType[] = [
+  { format: 'pdf', mimeTypes: ['application/pdf'], extensions: ['.pdf'] },
+  {
+    format: 'docx',
+    mimeTypes: ['application/vnd.openxmlformats-officedocument.wordprocessingml.document'],
+    extensions: ['.docx'],
+  },
+  {
+    format: 'xlsx',
+    mimeTypes: ['application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'],
+    extensions: ['.xlsx'],
+  },
+  {
+    format: 'pptx',
+    mimeTypes: ['application/vnd.openxmlformats-officedocument.presentationml.presentation'],
+    extensions: ['.pptx'],
+  },
+  { format: 'html', mimeTypes: ['text/html'], extensions: ['.html', '.htm'] },
+  { format: 'rtf', mimeTypes: ['application/rtf', 'text/rtf'], extensions: ['.rtf'] },
+  { format: 'eml', mimeTypes: ['message/rfc822'], extensions: ['.eml'] },
+  { format: 'csv', mimeTypes: ['text/csv'], extensions: ['.csv'] },
+  { format: 'text', mimeTypes: ['text/plain', 'text/markdown'], extensions: ['.txt', '.md'] },
+];
+
+/**
+ * Accepted types for react-dropzone, as extensions keyed by MIME type
+ */
+export const SOURCE_FILE_ACCEPT: Record<string, string[]> = Object.fromEntries(
+  SOURCE_FILE_TYPES.flatMap((type) => type.mimeTypes.map((mimeType) => [mimeType, type.extensions]))
+);
+
+/**
+ * Accepted extensions for a file input's accept attribute
+ */
+export const SOURCE_FILE_EXTENSIONS = SOURCE_FILE_TYPES.flatMap((type) => type.extensions).join(
+  ','
+);
+
+export const SOURCE_FILE_TYPES_LABEL = 'PDF, DOCX, XLSX, PPTX, HTML, RTF, EML, TXT, CSV, or MD';
+
+/**
+ * Detect a file's format from its MIME type, falling back to its extension
+ * since browsers often send an empty or generic type
+ */
+export function detectSourceFileFormat(file: {
+  name: string;
+  type: string;
+}): SourceFileFormat | null {
+  const name = file.name.toLowerCase();
+  const match =
+    SOURCE_FILE_TYPES.find((type) => type.mimeTypes.includes(file.type)) ??
+    SOURCE_FILE_TYPES.find((type) => type.extensions.some((extension) => name.endsWith(extension)));
+
+  return match?.format ?? null;
+}
+
+/**
+ * Whether a format holds tables that can be imported by column
+ */
+export function isTabularFormat(format: SourceFileFormat | null): boolean {
+  return format === 'csv' || format === 'xlsx';
+}
@@ -0,0 +1,67 @@
+/**
+ * Ingestion job helpers for the client: polling source extraction and
+ * mapping progress (see GET /api/v1/sessions/[id]/ingestion-jobs)
+ */
+
+import { IngestionJob, IngestionJobState } from '@/features/sources/types/source';
+
+export const INGESTION_POLL_INTERVAL_MS = 2000;
+
+export const INGESTION_STATE_LABELS: Record<IngestionJobState, string> = {
+  queued: 'Queued',
+  extracting: 'Extracting text',
+  mapping: 'Mapping with AI',
+  done: 'Done',
+  failed: 'Failed',
+};
+
+/**
+ * Whether a job is still queued or running
+ */
+export function isIngestionJobActive(job: IngestionJob | null): boolean {
+  return !!job && job.state !== 'done' && job.state !== 'failed';
+}
+
+/**
+ * Fetch the current state of some of a session's jobs
+ */
+export async function fetchIngestionJobs(
+  sessionId: string,
+  jobIds: string[]
+): Promise<IngestionJob[]> {
+  const response = await fetch(
+    `/api/v1/sessions/${sessionId}/ingestion-jobs?ids=${encodeURIComponent(jobIds.join(','))}`
+  );
+
+  if (!response.ok) {
+    throw new Error('Failed to fetch import progress');
+  }
+
+  const result = await response.json();
+  return result.data || [];
+}
+
+/**
+ * Poll jobs until every one is done or failed
+ *
+ * @param onProgress - Called with the jobs after each poll
+ * @returns The finished jobs
+ */
+export async function waitForIngestionJobs(
+  sessionId: string,
+  jobIds: string[],
+  onProgress?: (jobs: IngestionJob[]) => void
+): Promise<IngestionJob[]> {
+  if (jobIds.length === 0) return [];
+
+  for (;;) {
+    const jobs = await fetchIngestionJobs(sessionId, jobIds);
+    onProgress?.(jobs);
+
+    if (!jobs.some(isIngestionJobActive)) {
+      return jobs;
+    }
+
+    await new Promise((resolve) => setTimeout(resolve, INGESTION_POLL_INTERVAL_MS));
+  }
+}
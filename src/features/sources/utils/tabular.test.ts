@@ -0,0 +1,96 @@
+import { describe, expect, it } from 'vitest';
+import { aggregateColumn, isTabularSource, parseCsv, parseSourceTables } from './tabular';
+
+function fileSource(filename: string, text: string | null) {
+  return { type: 'file' as const, filename_or_url: filename, metadata: {}, text_extracted: text };
+}
+
+describe('parseCsv', () => {
+  it('handles quoted cells, escaped quotes and any line ending', () => {
+    expect(parseCsv('\uFEFFname,note\r\n"Smith, Ada","said ""hi""\nthen left"\rBob,\n')).toEqual([
+      ['name', 'note'],
+      ['Smith, Ada', 'said "hi"\nthen left'],
+      ['Bob', ''],
+    ]);
+  });
+
+  it('detects semicolon and tab delimiters from the header', () => {
+    expect(parseCsv('a;b;"c,d"\n1,5;2;3')).toEqual([
+      ['a', 'b', 'c,d'],
+      ['1,5', '2', '3'],
+    ]);
+    expect(parseCsv('a\tb\n1\t2')).toEqual([
+      ['a', 'b'],
+      ['1', '2'],
+    ]);
+  });
+
+  it('keeps quotes inside an unquoted cell', () => {
+    expect(parseCsv('size\n12" pipe')).toEqual([['size'], ['12" pipe']]);
+  });
+});
+
+describe('parseSourceTables', () => {
+  it('reads a CSV file as one table, naming blank and repeated headers', () => {
+    const [table] = parseSourceTables(fileSource('export.csv', '\nName,,name\nAda, x ,1\n'));
+
+    expect(table).toEqual({
+      name: null,
+      columns: ['Name', 'Column B', 'name (2)'],
+      rows: [{ number: 3, cells: ['Ada', 'x', '1'] }],
+    });
+  });
+
+  it('reads each XLSX sheet, keeping row numbers and escaped pipes', () => {
+    const text = [
+      '## Sheet: Costs',
+      '',
+      'Row 2: Item | Amount',
+      'Row 4: Pipe \\| fitting | 12.50',
+      '',
+      '## Sheet: Empty',
+      '',
+      '## Sheet: Notes',
+      '',
+      'Row 1: Note',
+    ].join('\n');
+
+    const tables = parseSourceTables(fileSource('budget.xlsx', text));
+
+    expect(tables.map((table) => table.name)).toEqual(['Costs', 'Notes']);
+    expect(tables[0]).toMatchObject({
+      columns: ['Item', 'Amount'],
+      rows: [{ number: 4, cells: ['Pipe | fitting', '12.50'] }],
+    });
+    expect(tables[1]!.rows).toEqual([]);
+  });
+
+  it('returns nothing for other sources', () => {
+    expect(isTabularSource(fileSource('notes.pdf', 'a,b'))).toBe(false);
+    expect(parseSourceTables(fileSource('notes.pdf', 'a,b'))).toEqual([]);
+    expect(parseSourceTables(fileSource('export.csv', null))).toEqual([]);
+    expect(
+      parseSourceTables({ ...fileSource('https://example.com/a.csv', 'a,b'), type: 'url' })
+    ).toEqual([]);
+  });
+});
+
+describe('aggregateColumn', () => {
+  const cells = ['$1,200', '', ' 0.1 ', 'n/a', '0.2', '$1,200'];
+
+  it('uses the number in each cell for numeric aggregates', () => {
+    expect(aggregateColumn(cells, 'sum')).toBe('2400.3');
+    expect(aggregateColumn(cells, 'average')).toBe('600.075');
+    expect(aggregateColumn(cells, 'min')).toBe('0.1');
+    expect(aggregateColumn(cells, 'max')).toBe('1200');
+    expect(aggregateColumn(['n/a', ''], 'sum')).toBeNull();
+  });
+
+  it('skips empty cells for the other aggregates', () => {
+    expect(aggregateColumn(cells, 'first')).toBe('$1,200');
+    expect(aggregateColumn(cells, 'last')).toBe('$1,200');
+    expect(aggregateColumn(cells, 'count')).toBe('5');
+    expect(aggregateColumn(cells, 'join')).toBe('$1,200, 0.1, n/a, 0.2');
+    expect(aggregateColumn(['', ' '], 'first')).toBeNull();
+  });
+});
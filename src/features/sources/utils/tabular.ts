@@ -0,0 +1,244 @@
+/**
+ * Tables in CSV and XLSX sources, read back from their extracted text for
+ * column imports (see migration 025)
+ */
+
+import { coerceNumberValue } from '@/features/sessions/utils/field-value';
+import {
+  ColumnAggregate,
+  Source,
+  SourceTable,
+  SourceTableRow,
+} from '@/features/sources/types/source';
+import { detectSourceFileFormat, isTabularFormat, SourceFileFormat } from './file-types';
+
+type TabularSource = Pick<Source, 'type' | 'filename_or_url' | 'metadata' | 'text_extracted'>;
+
+export const COLUMN_AGGREGATE_LABELS: Record<ColumnAggregate, string> = {
+  first: 'First value',
+  last: 'Last value',
+  sum: 'Sum',
+  average: 'Average',
+  min: 'Minimum',
+  max: 'Maximum',
+  count: 'Count',
+  join: 'All values',
+};
+
+const CSV_DELIMITERS = [',', ';', '\t'];
+
+// Lines written by extractXlsx (see lib/extract-office.ts)
+const SHEET_HEADING = /^## Sheet: (.*)$/;
+const ROW_LINE = /^Row (\d+): (.*)$/;
+
+function sourceFormat(source: TabularSource): SourceFileFormat | null {
+  if (source.type !== 'file' || !source.filename_or_url) return null;
+
+  return detectSourceFileFormat({
+    name: source.filename_or_url,
+    type: (source.metadata?.mimeType as string | undefined) || '',
+  });
+}
+
+/**
+ * Whether a source is a CSV or XLSX file whose columns can be imported
+ */
+export function isTabularSource(source: TabularSource): boolean {
+  return isTabularFormat(sourceFormat(source));
+}
+
+/**
+ * Spreadsheet-style column name for a 0-based index (0 -> A, 26 -> AA)
+ */
+function columnLetter(index: number): string {
+  let letter = '';
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    letter = String.fromCharCode(65 + ((n - 1) % 26)) + letter;
+  }
+  return letter;
+}
+
+/**
+ * Pick the delimiter that appears most often in the header line, outside quotes
+ */
+function detectDelimiter(text: string): string {
+  const counts = new Map<string, number>();
+  let quoted = false;
+
+  for (const char of text) {
+    if (char === '"') quoted = !quoted;
+    else if (!quoted && (char === '\n' || char === '\r')) break;
+    else if (!quoted && CSV_DELIMITERS.includes(char)) {
+      counts.set(char, (counts.get(char) ?? 0) + 1);
+    }
+  }
+
+  return CSV_DELIMITERS.reduce((best, delimiter) =>
+    (counts.get(delimiter) ?? 0) > (counts.get(best) ?? 0) ? delimiter : best
+  );
+}
+
+/**
+ * Split CSV text into records of cells (RFC 4180 quoting, any line ending)
+ */
+export function parseCsv(text: string): string[][] {
+  const source = text.replace(/^\uFEFF/, '');
+  const delimiter = detectDelimiter(source);
+  const records: string[][] = [];
+  let record: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i]!;
+
+    if (quoted) {
+      if (char !== '"') {
+        cell += char;
+      } else if (source[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else {
+        quoted = false;
+      }
+    } else if (char === '"' && cell === '') {
+      quoted = true;
+    } else if (char === delimiter) {
+      record.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && source[i + 1] === '\n') i++;
+      record.push(cell);
+      records.push(record);
+      record = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell !== '' || record.length > 0) {
+    record.push(cell);
+    records.push(record);
+  }
+
+  return records;
+}
+
+function splitRowLine(cells: string): string[] {
+  return cells.split(/(?<!\\) \| /).map((cell) => cell.replace(/\\\|/g, '|'));
+}
+
+/**
+ * Build a table from numbered rows, taking the first non-empty row as headers
+ */
+function buildTable(name: string | null, rows: SourceTableRow[]): SourceTable | null {
+  const nonEmpty = rows.filter((row) => row.cells.some((cell) => cell.trim() !== ''));
+  const [header, ...body] = nonEmpty;
+  if (!header) return null;
+
+  const width = nonEmpty.reduce((max, row) => Math.max(max, row.cells.length), 0);
+  const seen = new Map<string, number>();
+  const columns = Array.from({ length: width }, (_, index) => {
+    const base = header.cells[index]?.trim() || `Column ${columnLetter(index)}`;
+    const count = (seen.get(base.toLowerCase()) ?? 0) + 1;
+    seen.set(base.toLowerCase(), count);
+    return count > 1 ? `${base} (${count})` : base;
+  });
+
+  return {
+    name,
+    columns,
+    rows: body.map((row) => ({
+      number: row.number,
+      cells: columns.map((_, index) => row.cells[index]?.trim() ?? ''),
+    })),
+  };
+}
+
+/**
+ * Read the tables of a CSV or XLSX source: one per CSV file or XLSX sheet
+ *
+ * @returns Tables in source order, or an empty list for other sources
+ */
+export function parseSourceTables(source: TabularSource): SourceTable[] {
+  const format = sourceFormat(source);
+  const text = source.text_extracted;
+  if (!text || !isTabularFormat(format)) return [];
+
+  if (format === 'csv') {
+    const rows = parseCsv(text).map((cells, index) => ({ number: index + 1, cells }));
+    const table = buildTable(null, rows);
+    return table ? [table] : [];
+  }
+
+  const tables: SourceTable[] = [];
+  let sheet: { name: string; rows: SourceTableRow[] } | null = null;
+
+  const flush = () => {
+    const table = sheet && buildTable(sheet.name, sheet.rows);
+    if (table) tables.push(table);
+  };
+
+  for (const line of text.split('\n')) {
+    const heading = SHEET_HEADING.exec(line);
+    if (heading) {
+      flush();
+      sheet = { name: heading[1]!, rows: [] };
+      continue;
+    }
+
+    const row = ROW_LINE.exec(line);
+    if (row && sheet) {
+      sheet.rows.push({ number: Number(row[1]), cells: splitRowLine(row[2]!) });
+    }
+  }
+
+  flush();
+  return tables;
+}
+
+function roundNumber(value: number): string {
+  // Drop float noise from sums and averages (0.1 + 0.2)
+  return String(Math.round(value * 1e10) / 1e10);
+}
+
+/**
+ * Combine a column's non-empty cells into one value
+ *
+ * Numeric aggregates use the number in each cell and ignore cells without
+ * one; "join" lists each distinct value once.
+ *
+ * @returns Combined value, or null when no cell contributes
+ */
+export function aggregateColumn(cells: string[], aggregate: ColumnAggregate): string | null {
+  const values = cells.map((cell) => cell.trim()).filter(Boolean);
+
+  switch (aggregate) {
+    case 'first':
+      return values[0] ?? null;
+    case 'last':
+      return values[values.length - 1] ?? null;
+    case 'count':
+      return String(values.length);
+    case 'join':
+      return values.length > 0 ? [...new Set(values)].join(', ') : null;
+  }
+
+  const numbers = values
+    .map((value) => coerceNumberValue(value))
+    .filter((value): value is string => value !== null)
+    .map(Number);
+  if (numbers.length === 0) return null;
+
+  switch (aggregate) {
+    case 'sum':
+      return roundNumber(numbers.reduce((total, n) => total + n, 0));
+    case 'average':
+      return roundNumber(numbers.reduce((total, n) => total + n, 0) / numbers.length);
+    case 'min':
+      return String(numbers.reduce((min, n) => Math.min(min, n)));
+    case 'max':
+      return String(numbers.reduce((max, n) => Math.max(max, n)));
+  }
+}
@@ -15,13 +15,15 @@ const openai = new OpenAI({
 /**
  * Maps source text to blueprint fields using semantic understanding
  *
- * @param sourceText - Extracted text from source (file/paste/url)
+ * @param sourceText - Extracted text from source (file/paste/url), or one chunk of it; offsets are relative to this text
  * @param fieldsCatalog - Array of fields with metadata for mapping context
+ * @param referenceDate - ISO date used to resolve relative dates (defaults to today)
  * @returns Mapping result with suggestions and unmapped summaries
  */
 export async function mapSourceToFields(
   sourceText: string,
-  fieldsCatalog: FieldCatalogEntry[]
+  fieldsCatalog: FieldCatalogEntry[],
+  referenceDate: string = new Date().toISOString().slice(0, 10)
 ): Promise<MappingResult> {
   const systemMessage = `You are a semantic field mapper. Your job is to extract values from source documents and map them to structured fields in a blueprint.
 
@@ -31,7 +33,11 @@ Rules:
 3. Do NOT infer or make up values that are not present in the source
 4. Set confidence based on how well the extracted value matches the field semantics
 5. Include character offsets [start, end] for provenance tracking
-6. Summarize any relevant content that doesn't map to specific fields, organized by section`;
+6. Summarize any relevant content that doesn't map to specific fields, organized by section
+7. For fields with an "options" list, the value MUST be one of the listed options exactly. For MultiSelect fields return an array of options. If no option matches, omit the suggestion
+8. For Number and Currency fields return a single plain number (no units, currency symbols, or ranges). If the source only gives a range or an estimate, omit the suggestion
+9. For Date fields return an ISO date "YYYY-MM-DD". For DateRange fields return "YYYY-MM-DD/YYYY-MM-DD". Convert natural-language dates (e.g. "March 3rd", "next Monday", "end of Q2 2025") to ISO using ${referenceDate} as today's date. If the day can't be determined, omit the suggestion
+10. For RepeatableGroup fields return an array of row objects keyed by the "sub_fields" keys, one object per item found in the source (e.g. every milestone or stakeholder). Format each cell using the rules above for its sub-field type. Leave out cells the source doesn't give`;
 
   const userPrompt = `Map the following source text to the blueprint fields.
 
@@ -131,3 +137,91 @@ export async function generateArtifact(prompt: string): Promise<string> {
     throw error;
   }
 }
+
+/**
+ * Drafts a blueprint structure from a sample document
+ *
+ * @param sampleText - Extracted text of an example document (e.g., an old test plan or sales brief)
+ * @returns Parsed JSON in the blueprint file shape; callers must validate it with parseBlueprintFile
+ */
+export async function draftBlueprintFromSample(sampleText: string): Promise<unknown> {
+  const systemMessage = `You design data-collection templates ("blueprints"). Given a sample document, propose the sections and fields someone would fill in to produce a similar document, plus one generator prompt that turns the collected data back into that kind of document.
+
+Rules:
+1. Return ONLY valid JSON in the specified format
+2. Group related fields into 3-8 sections that follow the structure of the sample
+3. Capture the information that varies between documents, not boilerplate that is always the same
+4. Keys are lowercase snake_case (a-z, 0-9, underscores) and unique across the whole blueprint
+5. Field "type" must be one of: ShortText, LongText, Toggle, Select, MultiSelect, Number, Currency, Date, DateRange, RepeatableGroup
+6. Select and MultiSelect fields need "config": { "options": [{ "label": "..." }] }
+7. RepeatableGroup fields (lists of similar items such as milestones or stakeholders) need "config": { "sub_fields": [{ "key": "...", "label": "...", "type": "ShortText" }] } with sub-field types ShortText, LongText, Number, Date, or Toggle
+8. Use "help" for a one-sentence hint on what to enter, and mark fields "required" only when the document would not make sense without them
+9. The generator "prompt_template" references collected data with {{section:section_key}} tokens (or {{field:field_key}} for single fields) and describes the document to write, its tone, and its structure`;
+
+  const userPrompt = `Propose a blueprint for documents like this sample.
+
+Sample Document:
+${sampleText}
+
+Return JSON in this EXACT format:
+{
+  "blueprint": {
+    "name": "Beta Test Plan",
+    "description": "One sentence on what the blueprint is for",
+    "sections": [
+      {
+        "title": "Product Overview",
+        "key": "product_overview",
+        "fields": [
+          {
+            "key": "product_name",
+            "type": "ShortText",
+            "label": "Product Name",
+            "help": "Name of the product under test",
+            "required": true
+          }
+        ]
+      }
+    ],
+    "artifact_generators": [
+      {
+        "name": "Test Plan",
+        "output_format": "Markdown",
+        "prompt_template": "Write a beta test plan for {{field:product_name}}...\\n\\n{{section:product_overview}}"
+      }
+    ]
+  }
+}`;
+
+  try {
+    logger.info('Starting blueprint draft', {
+      sample_length: sampleText.length,
+    });
+
+    const response = await openai.chat.completions.create({
+      model: 'gpt-4o',
+      messages: [
+        { role: 'system', content: systemMessage },
+        { role: 'user', content: userPrompt },
+      ],
+      response_format: { type: 'json_object' },
+      temperature: 0.4,
+    });
+
+    const content = response.choices[0]?.message?.content;
+    if (!content) {
+      throw new Error('No content returned from OpenAI');
+    }
+
+    const result = JSON.parse(content) as unknown;
+
+    logger.info('Blueprint draft completed', {
+      tokens_used: response.usage?.total_tokens,
+    });
+
+    return result;
+  } catch (error) {
+    logger.error('Blueprint draft failed', { error });
+    throw error;
+  }
+}
@@ -0,0 +1,168 @@
+/**
+ * Key Renames
+ *
+ * Generator templates reference fields and sections by key, so renaming a key
+ * has to rewrite those tokens or every generator using them breaks. Field keys
+ * are also referenced by visibility rules, Computed expressions, and date
+ * rules, which are always rewritten along with the key.
+ */
+
+import { query, TransactionClient } from '@/lib/db/query';
+import {
+  Field,
+  KeyRenameImpact,
+  KeyRenameScope,
+  Section,
+} from '@/features/blueprints/types/blueprint';
+import { BlueprintArtifactGenerator } from '@/features/blueprints/types/generator';
+import { renameTokenKey } from '@/features/artifacts/utils/token-parser';
+import { renameConditionKey, renameConfigKey } from '@/features/blueprints/utils/key-references';
+
+/**
+ * List the generators whose templates reference a key that is about to change
+ *
+ * @param blueprintId - Editable blueprint owning the key
+ * @param scope - Whether the key belongs to a field or a section
+ * @param oldKey - Current key
+ * @param newKey - Requested key
+ * @returns Affected generators with how many tokens each would rewrite
+ */
+export async function getKeyRenameImpact(
+  blueprintId: string,
+  scope: KeyRenameScope,
+  oldKey: string,
+  newKey: string
+): Promise<KeyRenameImpact> {
+  const generators = await query<
+    Pick<BlueprintArtifactGenerator, 'id' | 'name' | 'prompt_template'>
+  >(
+    `SELECT id, name, prompt_template
+     FROM blueprint_artifact_generators
+     WHERE blueprint_id = $1
+     ORDER BY order_index ASC`,
+    [blueprintId]
+  );
+
+  return {
+    scope,
+    old_key: oldKey,
+    new_key: newKey,
+    generators: generators
+      .map((generator) => ({
+        id: generator.id,
+        name: generator.name,
+        occurrences: renameTokenKey(generator.prompt_template, scope, oldKey, newKey).count,
+      }))
+      .filter((generator) => generator.occurrences > 0),
+  };
+}
+
+/**
+ * Rewrite a renamed key in every generator template of a blueprint
+ *
+ * Runs on the caller's transaction so the key and the templates change together.
+ *
+ * @param client - Transaction client
+ * @param blueprintId - Editable blueprint owning the key
+ * @param scope - Whether the key belongs to a field or a section
+ * @param oldKey - Key before the rename
+ * @param newKey - Key after the rename
+ * @returns Number of generators updated
+ */
+export async function rewriteTemplateKeys(
+  client: TransactionClient,
+  blueprintId: string,
+  scope: KeyRenameScope,
+  oldKey: string,
+  newKey: string
+): Promise<number> {
+  const result = await client.query(
+    `SELECT id, prompt_template
+     FROM blueprint_artifact_generators
+     WHERE blueprint_id = $1
+     FOR UPDATE`,
+    [blueprintId]
+  );
+
+  let updated = 0;
+  for (const row of result.rows as Pick<BlueprintArtifactGenerator, 'id' | 'prompt_template'>[]) {
+    const { template, count } = renameTokenKey(row.prompt_template, scope, oldKey, newKey);
+    if (count === 0) continue;
+
+    await client.query(
+      `UPDATE blueprint_artifact_generators
+       SET prompt_template = $1, updated_at = NOW()
+       WHERE id = $2`,
+      [template, row.id]
+    );
+    updated++;
+  }
+
+  return updated;
+}
+
+/**
+ * Rewrite a renamed field key in the visibility rules, Computed expressions,
+ * and date rules of a blueprint's fields and sections
+ *
+ * Runs on the caller's transaction after the key is updated. References are
+ * left alone while another field still has the old key, since they resolve to
+ * that field.
+ *
+ * @param client - Transaction client
+ * @param blueprintId - Editable blueprint owning the key
+ * @param oldKey - Key before the rename
+ * @param newKey - Key after the rename
+ * @returns Number of fields and sections updated
+ */
+export async function rewriteFieldKeyReferences(
+  client: TransactionClient,
+  blueprintId: string,
+  oldKey: string,
+  newKey: string
+): Promise<number> {
+  const fields = await client.query(
+    `SELECT f.id, f.key, f.config, f.visibility
+     FROM fields f
+     JOIN sections s ON s.id = f.section_id
+     WHERE s.blueprint_id = $1
+     FOR UPDATE OF f`,
+    [blueprintId]
+  );
+  const rows = fields.rows as Pick<Field, 'id' | 'key' | 'config' | 'visibility'>[];
+  if (rows.some((field) => field.key === oldKey)) return 0;
+
+  let updated = 0;
+  for (const field of rows) {
+    const visibility = renameConditionKey(field.visibility, oldKey, newKey);
+    const { config, count } = renameConfigKey(field.config, oldKey, newKey);
+    if (visibility === field.visibility && count === 0) continue;
+
+    await client.query(
+      `UPDATE fields
+       SET config = $1, visibility = $2, updated_at = NOW()
+       WHERE id = $3`,
+      [JSON.stringify(config), visibility ? JSON.stringify(visibility) : null, field.id]
+    );
+    updated++;
+  }
+
+  const sections = await client.query(
+    `SELECT id, visibility
+     FROM sections
+     WHERE blueprint_id = $1 AND visibility->>'field_key' = $2
+     FOR UPDATE`,
+    [blueprintId, oldKey]
+  );
+  for (const section of sections.rows as Pick<Section, 'id' | 'visibility'>[]) {
+    await client.query(
+      `UPDATE sections
+       SET visibility = $1, updated_at = NOW()
+       WHERE id = $2`,
+      [JSON.stringify(renameConditionKey(section.visibility, oldKey, newKey)), section.id]
+    );
+    updated++;
+  }
+
+  return updated;
+}
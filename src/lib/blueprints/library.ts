@@ -0,0 +1,220 @@
+/**
+ * Section Library
+ *
+ * Copies library sections into blueprints and pushes library updates to the
+ * linked copies in editable blueprints. Frozen versions are never linked, so
+ * sessions only see library changes after a new version is published.
+ */
+
+import { query, queryOne, TransactionClient } from '@/lib/db/query';
+import { ConflictError } from '@/lib/errors';
+import {
+  BlueprintFileField,
+  Field,
+  LibrarySection,
+  Section,
+  SectionWithFields,
+} from '@/features/blueprints/types/blueprint';
+import { BlueprintArtifactGenerator } from '@/features/blueprints/types/generator';
+import { getLibrarySyncConflicts } from '@/features/blueprints/utils/section-library';
+
+/**
+ * Load a section of an editable blueprint with its fields
+ *
+ * @param sectionId - Section to load
+ * @param companyId - Company the blueprint must belong to
+ * @returns The section, or null when it doesn't exist or isn't editable
+ */
+export async function getEditableSection(
+  sectionId: string,
+  companyId: string | null
+): Promise<SectionWithFields | null> {
+  const section = await queryOne<Section>(
+    `SELECT s.*
+     FROM sections s
+     JOIN blueprints b ON b.id = s.blueprint_id
+     WHERE s.id = $1 AND b.company_id = $2 AND b.version_of IS NULL`,
+    [sectionId, companyId]
+  );
+
+  if (!section) {
+    return null;
+  }
+
+  const fields = await query<Field>(
+    'SELECT * FROM fields WHERE section_id = $1 ORDER BY order_index ASC',
+    [sectionId]
+  );
+
+  return { ...section, fields };
+}
+
+function fieldColumns(field: BlueprintFileField): unknown[] {
+  return [
+    field.type,
+    field.label,
+    field.help ?? null,
+    field.placeholder ?? null,
+    field.required ?? false,
+    field.span ?? 1,
+    JSON.stringify(field.config ?? {}),
+    field.visibility ? JSON.stringify(field.visibility) : null,
+    field.validation ? JSON.stringify(field.validation) : null,
+  ];
+}
+
+/**
+ * Add library field definitions to a blueprint section
+ *
+ * @param client - Transaction client
+ * @param sectionId - Section to add the fields to (expected to be empty)
+ * @param fields - Library field definitions, in display order
+ */
+export async function insertLibraryFields(
+  client: TransactionClient,
+  sectionId: string,
+  fields: BlueprintFileField[]
+): Promise<void> {
+  for (const [index, field] of fields.entries()) {
+    await client.query(
+      `INSERT INTO fields (section_id, key, type, label, help_text, placeholder, required, span, config, visibility, validation, order_index)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12)`,
+      [sectionId, field.key, ...fieldColumns(field), index]
+    );
+  }
+}
+
+/**
+ * Check every linked copy's blueprint for what the update would break
+ *
+ * @returns A message for each problem, naming the blueprint
+ */
+async function getLinkedSectionConflicts(
+  client: TransactionClient,
+  librarySection: LibrarySection,
+  linkedIds: string[]
+): Promise<string[]> {
+  const keys = librarySection.fields.map((field) => field.key);
+  const conflicts: string[] = [];
+
+  for (const id of linkedIds) {
+    const sectionsResult = await client.query(
+      `SELECT s.*, b.name as blueprint_name
+       FROM sections s
+       JOIN blueprints b ON b.id = s.blueprint_id
+       WHERE s.blueprint_id = (SELECT blueprint_id FROM sections WHERE id = $1)
+       ORDER BY s.order_index ASC`,
+      [id]
+    );
+    const sections = sectionsResult.rows as (Section & { blueprint_name: string })[];
+    const blueprintId = sections[0]?.blueprint_id;
+    if (!blueprintId) continue;
+
+    const fieldsResult = await client.query(
+      `SELECT f.* FROM fields f
+       JOIN sections s ON s.id = f.section_id
+       WHERE s.blueprint_id = $1
+       ORDER BY f.order_index ASC`,
+      [blueprintId]
+    );
+    const fields = fieldsResult.rows as Field[];
+
+    const generators = await client.query(
+      'SELECT name, prompt_template FROM blueprint_artifact_generators WHERE blueprint_id = $1',
+      [blueprintId]
+    );
+
+    const withFields = sections.map((section) => ({
+      ...section,
+      fields: fields.filter((field) => field.section_id === section.id),
+    }));
+    const copy = withFields.find((section) => section.id === id);
+    if (!copy) continue;
+
+    getLibrarySyncConflicts(
+      keys,
+      copy,
+      withFields.filter((section) => section.id !== id),
+      generators.rows as Pick<BlueprintArtifactGenerator, 'name' | 'prompt_template'>[]
+    ).forEach((conflict) => conflicts.push(`Blueprint "${copy.blueprint_name}": ${conflict}`));
+  }
+
+  return conflicts;
+}
+
+/**
+ * Push a library section to its linked copies in editable blueprints
+ *
+ * Fields are matched by key: matches are updated in place (keeping the ids that
+ * version upgrades rely on), new fields are added, and fields the library no
+ * longer has are removed. Section keys are left alone because each blueprint's
+ * generator templates depend on them.
+ *
+ * Nothing is pushed when an added key is taken in a copy's blueprint or a
+ * removed field is still used there; those copies have to be fixed or detached.
+ *
+ * @param client - Transaction client
+ * @param librarySection - Library section after the update
+ * @param sourceSectionId - Linked copy the update came from, which is already current
+ * @returns Number of linked copies updated
+ * @throws ConflictError (LIBRARY_SYNC_CONFLICTS) with the problems in details.errors
+ */
+export async function syncLinkedSections(
+  client: TransactionClient,
+  librarySection: LibrarySection,
+  sourceSectionId: string
+): Promise<number> {
+  const linked = await client.query(
+    `SELECT s.id
+     FROM sections s
+     JOIN blueprints b ON b.id = s.blueprint_id
+     WHERE s.library_section_id = $1 AND s.id != $2 AND b.version_of IS NULL
+     FOR UPDATE OF s`,
+    [librarySection.id, sourceSectionId]
+  );
+
+  const linkedIds = (linked.rows as { id: string }[]).map((row) => row.id);
+
+  const conflicts = await getLinkedSectionConflicts(client, librarySection, linkedIds);
+  if (conflicts.length > 0) {
+    throw new ConflictError(
+      'Library update would break linked sections',
+      'LIBRARY_SYNC_CONFLICTS',
+      { errors: conflicts }
+    );
+  }
+
+  const keys = librarySection.fields.map((field) => field.key);
+
+  for (const id of linkedIds) {
+    await client.query(
+      `UPDATE sections SET title = $1, description = $2, updated_at = NOW() WHERE id = $3`,
+      [librarySection.title, librarySection.description, id]
+    );
+
+    await client.query('DELETE FROM fields WHERE section_id = $1 AND NOT (key = ANY($2))', [
+      id,
+      keys,
+    ]);
+
+    for (const [index, field] of librarySection.fields.entries()) {
+      const updated = await client.query(
+        `UPDATE fields
+         SET type = $3, label = $4, help_text = $5, placeholder = $6, required = $7, span = $8,
+             config = $9, visibility = $10, validation = $11, order_index = $12, updated_at = NOW()
+         WHERE section_id = $1 AND key = $2`,
+        [id, field.key, ...fieldColumns(field), index]
+      );
+
+      if (updated.rowCount === 0) {
+        await client.query(
+          `INSERT INTO fields (section_id, key, type, label, help_text, placeholder, required, span, config, visibility, validation, order_index)
+           VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12)`,
+          [id, field.key, ...fieldColumns(field), index]
+        );
+      }
+    }
+  }
+
+  return linkedIds.length;
+}
@@ -0,0 +1,44 @@
+/**
+ * Blueprint Lint
+ *
+ * Loads a blueprint's sections, fields, and generators and runs the pre-publish checks
+ */
+
+import { query } from '@/lib/db/query';
+import { Field, LintFinding, Section } from '@/features/blueprints/types/blueprint';
+import { BlueprintArtifactGenerator } from '@/features/blueprints/types/generator';
+import { lintBlueprint } from '@/features/blueprints/utils/blueprint-lint';
+
+/**
+ * Run the pre-publish checks on a stored blueprint
+ *
+ * @param blueprintId - Blueprint to check
+ * @returns Findings, errors first
+ */
+export async function lintBlueprintById(blueprintId: string): Promise<LintFinding[]> {
+  const sections = await query<Section>(
+    'SELECT * FROM sections WHERE blueprint_id = $1 ORDER BY order_index ASC',
+    [blueprintId]
+  );
+
+  const fields = await query<Field>(
+    `SELECT f.* FROM fields f
+     JOIN sections s ON s.id = f.section_id
+     WHERE s.blueprint_id = $1
+     ORDER BY f.section_id, f.order_index ASC`,
+    [blueprintId]
+  );
+
+  const generators = await query<BlueprintArtifactGenerator>(
+    'SELECT * FROM blueprint_artifact_generators WHERE blueprint_id = $1 ORDER BY order_index ASC',
+    [blueprintId]
+  );
+
+  return lintBlueprint(
+    sections.map((section) => ({
+      ...section,
+      fields: fields.filter((field) => field.section_id === section.id),
+    })),
+    generators
+  );
+}
@@ -0,0 +1,85 @@
+/**
+ * Blueprint Versions
+ *
+ * Publishing freezes a copy of an editable blueprint (sections, fields, and
+ * generators) as its next version. Sessions pin to a frozen version, so later
+ * edits never change them until an editor upgrades the session.
+ */
+
+import { queryOne, transaction } from '@/lib/db/query';
+import { Blueprint } from '@/features/blueprints/types/blueprint';
+
+/**
+ * Freeze an editable blueprint as its next version
+ *
+ * @param blueprint - Editable blueprint (version_of is null)
+ * @returns The frozen version and the editable blueprint after publishing
+ */
+export async function publishBlueprintVersion(
+  blueprint: Blueprint
+): Promise<{ version: Blueprint; blueprint: Blueprint }> {
+  return transaction(async (client) => {
+    const nextVersion = blueprint.version + 1;
+
+    const versionResult = await client.query(
+      `INSERT INTO blueprints (company_id, name, description, status, version, version_of)
+       VALUES ($1, $2, $3, 'published', $4, $5)
+       RETURNING *`,
+      [blueprint.company_id, blueprint.name, blueprint.description, nextVersion, blueprint.id]
+    );
+    const version = versionResult.rows[0] as Blueprint;
+
+    await client.query(
+      `INSERT INTO sections (blueprint_id, order_index, title, description, key, visibility, source_section_id)
+       SELECT $1, order_index, title, description, key, visibility, id
+       FROM sections WHERE blueprint_id = $2`,
+      [version.id, blueprint.id]
+    );
+
+    await client.query(
+      `INSERT INTO fields (section_id, key, type, label, help_text, placeholder, required, span,
+                           config, visibility, validation, order_index, source_field_id)
+       SELECT frozen.id, f.key, f.type, f.label, f.help_text, f.placeholder, f.required, f.span,
+              f.config, f.visibility, f.validation, f.order_index, f.id
+       FROM fields f
+       JOIN sections frozen ON frozen.source_section_id = f.section_id AND frozen.blueprint_id = $1`,
+      [version.id]
+    );
+
+    await client.query(
+      `INSERT INTO blueprint_artifact_generators (blueprint_id, name, description, prompt_template,
+                                                  output_format, date_format, visible_in_data_room,
+                                                  order_index, source_generator_id)
+       SELECT $1, name, description, prompt_template, output_format, date_format,
+              visible_in_data_room, order_index, id
+       FROM blueprint_artifact_generators WHERE blueprint_id = $2`,
+      [version.id, blueprint.id]
+    );
+
+    const updatedResult = await client.query(
+      `UPDATE blueprints
+       SET status = 'published', version = $1, updated_at = NOW()
+       WHERE id = $2
+       RETURNING *`,
+      [nextVersion, blueprint.id]
+    );
+
+    return { version, blueprint: updatedResult.rows[0] as Blueprint };
+  });
+}
+
+/**
+ * Get the newest frozen version of an editable blueprint
+ *
+ * @param blueprintId - Editable blueprint ID
+ * @returns The latest version, or null if the blueprint was never published
+ */
+export async function getLatestBlueprintVersion(blueprintId: string): Promise<Blueprint | null> {
+  return queryOne<Blueprint>(
+    `SELECT * FROM blueprints
+     WHERE version_of = $1
+     ORDER BY version DESC
+     LIMIT 1`,
+    [blueprintId]
+  );
+}
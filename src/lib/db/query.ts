@@ -79,6 +79,13 @@ export async function execute(sql: string, params: unknown[] = []): Promise<numb
   }
 }
 
+/**
+ * Client passed to transaction callbacks
+ */
+export type TransactionClient = {
+  query: (sql: string, params?: unknown[]) => Promise<{ rows: unknown[]; rowCount: number | null }>;
+};
+
 /**
  * Execute a query within a transaction
  *
@@ -91,12 +98,7 @@ export async function execute(sql: string, params: unknown[] = []): Promise<numb
  * ```
  */
 export async function transaction<T>(
-  callback: (client: {
-    query: (
-      sql: string,
-      params?: unknown[]
-    ) => Promise<{ rows: unknown[]; rowCount: number | null }>;
-  }) => Promise<T>
+  callback: (client: TransactionClient) => Promise<T>
 ): Promise<T> {
   const pool = getPool();
   const client = await pool.connect();
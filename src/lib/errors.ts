@@ -15,6 +15,7 @@ export type ErrorResponse = {
   error: {
     code: string;
     message: string;
+    details?: Record<string, unknown>;
   };
 };
 
@@ -25,7 +26,8 @@ export class ApiError extends Error {
   constructor(
     public code: string,
     message: string,
-    public statusCode: number = 500
+    public statusCode: number = 500,
+    public details?: Record<string, unknown>
   ) {
     super(message);
     this.name = 'ApiError';
@@ -34,10 +36,16 @@ export class ApiError extends Error {
 
 /**
  * Validation error (400)
+ *
+ * Optional details are returned alongside the message (e.g., which field and rule failed).
  */
 export class ValidationError extends ApiError {
-  constructor(message: string, code: string = 'VALIDATION_ERROR') {
-    super(code, message, 400);
+  constructor(
+    message: string,
+    code: string = 'VALIDATION_ERROR',
+    details?: Record<string, unknown>
+  ) {
+    super(code, message, 400, details);
     this.name = 'ValidationError';
   }
 }
@@ -74,10 +82,12 @@ export class NotFoundError extends ApiError {
 
 /**
  * Conflict error (409)
+ *
+ * Optional details describe what the request conflicts with (e.g., affected records).
  */
 export class ConflictError extends ApiError {
-  constructor(message: string, code: string = 'CONFLICT') {
-    super(code, message, 409);
+  constructor(message: string, code: string = 'CONFLICT', details?: Record<string, unknown>) {
+    super(code, message, 409, details);
     this.name = 'ConflictError';
   }
 }
@@ -109,6 +119,7 @@ export function handleError(error: unknown): NextResponse<ErrorResponse> {
         error: {
           code: error.code,
           message: error.message,
+          ...(error.details && { details: error.details }),
         },
       },
       { status: error.statusCode }
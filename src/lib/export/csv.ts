@@ -0,0 +1,53 @@
+/**
+ * CSV Export
+ *
+ * Streams rows as RFC 4180 CSV, one row at a time
+ */
+
+export type ExportCell = string | number | null;
+
+// Spreadsheet apps run cells starting with these as formulas
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+function formatCell(cell: ExportCell): string {
+  if (cell === null) return '';
+  if (typeof cell === 'number') return String(cell);
+
+  // Keep negative numbers as numbers, but neutralise anything that would run as a formula
+  const text = FORMULA_PREFIX.test(cell) && !/^-\d+(\.\d+)?$/.test(cell) ? `'${cell}` : cell;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Stream rows as a CSV file
+ *
+ * Starts with a byte order mark so Excel opens the file as UTF-8.
+ *
+ * @param rows - Header row first, then data rows
+ * @returns UTF-8 CSV byte stream
+ */
+export function createCsvStream(rows: AsyncIterable<ExportCell[]>): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  const iterator = rows[Symbol.asyncIterator]();
+  let started = false;
+
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      if (!started) {
+        started = true;
+        controller.enqueue(encoder.encode('\uFEFF'));
+      }
+
+      const next = await iterator.next();
+      if (next.done) {
+        controller.close();
+        return;
+      }
+
+      controller.enqueue(encoder.encode(next.value.map(formatCell).join(',') + '\r\n'));
+    },
+    async cancel() {
+      await iterator.return?.();
+    },
+  });
+}
@@ -0,0 +1,106 @@
+import { gzipSync, inflateRawSync } from 'zlib';
+import { describe, expect, it } from 'vitest';
+import { ExportCell } from '@/lib/export/csv';
+import { createXlsxStream } from './xlsx';
+
+type ZipFile = { data: string; crc: number; size: number; expectedCrc: number };
+
+async function* toRows(rows: ExportCell[][]): AsyncGenerator<ExportCell[]> {
+  yield* rows;
+}
+
+async function readStream(stream: ReadableStream<Uint8Array>): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  const reader = stream.getReader();
+  for (let next = await reader.read(); !next.done; next = await reader.read()) {
+    chunks.push(Buffer.from(next.value));
+  }
+  return Buffer.concat(chunks);
+}
+
+/**
+ * Read every entry through the central directory, as a spreadsheet app would.
+ * The expected checksum comes from the trailer of a gzip of the same bytes.
+ */
+function unzip(zip: Buffer): Map<string, ZipFile> {
+  const end = zip.subarray(zip.length - 22);
+  expect(end.readUInt32LE(0)).toBe(0x06054b50);
+
+  const files = new Map<string, ZipFile>();
+  let position = end.readUInt32LE(16);
+  for (let i = 0; i < end.readUInt16LE(10); i++) {
+    expect(zip.readUInt32LE(position)).toBe(0x02014b50);
+    const nameLength = zip.readUInt16LE(position + 28);
+    const name = zip.toString('utf8', position + 46, position + 46 + nameLength);
+    const localOffset = zip.readUInt32LE(position + 42);
+    const compressedSize = zip.readUInt32LE(position + 20);
+
+    expect(zip.readUInt32LE(localOffset)).toBe(0x04034b50);
+    const dataStart = localOffset + 30 + zip.readUInt16LE(localOffset + 26);
+    const data = inflateRawSync(zip.subarray(dataStart, dataStart + compressedSize));
+    const gzip = gzipSync(data);
+
+    files.set(name, {
+      data: data.toString('utf8'),
+      crc: zip.readUInt32LE(position + 16),
+      size: zip.readUInt32LE(position + 24),
+      expectedCrc: gzip.readUInt32LE(gzip.length - 8),
+    });
+    position += 46 + nameLength;
+  }
+  return files;
+}
+
+async function exportWorkbook(rows: ExportCell[][], sheetName = 'Sessions') {
+  return unzip(await readStream(createXlsxStream(toRows(rows), sheetName)));
+}
+
+describe('createXlsxStream', () => {
+  it('writes a zip whose checksums and sizes match its entries', async () => {
+    // Enough rows to deflate the sheet in several batches
+    const rows = Array.from({ length: 450 }, (_, i) => [`row ${i}`, i]);
+    const files = await exportWorkbook([['name', 'index'], ...rows]);
+
+    expect([...files.keys()]).toEqual([
+      '[Content_Types].xml',
+      '_rels/.rels',
+      'xl/workbook.xml',
+      'xl/_rels/workbook.xml.rels',
+      'xl/worksheets/sheet1.xml',
+    ]);
+    for (const file of files.values()) {
+      expect(file.crc).toBe(file.expectedCrc);
+      expect(file.size).toBe(Buffer.byteLength(file.data));
+    }
+
+    const sheet = files.get('xl/worksheets/sheet1.xml')!.data;
+    expect(sheet.match(/<row /g)).toHaveLength(451);
+    expect(sheet).toContain('<c r="B451"><v>449</v></c>');
+    expect(sheet.endsWith('</sheetData></worksheet>')).toBe(true);
+  });
+
+  it('writes numbers as number cells and escapes text', async () => {
+    const files = await exportWorkbook([
+      ['a', 'b', 'c', 'd'],
+      ['Q&A <1>', 12.5, null, ''],
+    ]);
+    const sheet = files.get('xl/worksheets/sheet1.xml')!.data;
+
+    expect(sheet).toContain(
+      '<row r="2"><c r="A2" t="inlineStr"><is><t xml:space="preserve">Q&amp;A &lt;1&gt;</t></is></c><c r="B2"><v>12.5</v></c></row>'
+    );
+  });
+
+  it('names columns past Z with two letters', async () => {
+    const files = await exportWorkbook([Array.from({ length: 28 }, (_, i) => i)]);
+    expect(files.get('xl/worksheets/sheet1.xml')!.data).toContain('<c r="AB1"><v>27</v></c>');
+  });
+
+  it('cleans the sheet name for Excel', async () => {
+    const files = await exportWorkbook([['a']], 'Q1/Q2: Results');
+    expect(files.get('xl/workbook.xml')!.data).toContain('<sheet name="Q1 Q2  Results"');
+
+    const fallback = await exportWorkbook([['a']], '[]');
+    expect(fallback.get('xl/workbook.xml')!.data).toContain('<sheet name="Sheet1"');
+  });
+});
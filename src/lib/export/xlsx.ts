@@ -0,0 +1,276 @@
+/**
+ * XLSX Export
+ *
+ * Streams rows as a single-sheet Excel workbook. The workbook is a zip of a
+ * few fixed XML parts and one worksheet; the worksheet is deflated as rows
+ * arrive, so only the current batch of rows is held in memory.
+ */
+
+import { deflateRawSync, constants } from 'zlib';
+import { ExportCell } from '@/lib/export/csv';
+
+// Excel rejects cells longer than this
+const MAX_CELL_LENGTH = 32767;
+
+// Rows are deflated in batches; small batches compress poorly
+const ROWS_PER_CHUNK = 200;
+
+const CONTENT_TYPES = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types"><Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/><Default Extension="xml" ContentType="application/xml"/><Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/><Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/></Types>`;
+
+const ROOT_RELS = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/></Relationships>`;
+
+const WORKBOOK_RELS = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/></Relationships>`;
+
+const SHEET_START = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main"><sheetData>`;
+
+const SHEET_END = '</sheetData></worksheet>';
+
+function workbookXml(sheetName: string): string {
+  return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"><sheets><sheet name="${escapeXml(sheetName)}" sheetId="1" r:id="rId1"/></sheets></workbook>`;
+}
+
+/**
+ * Excel sheet names are limited to 31 characters and can't contain []:*?/\
+ */
+function safeSheetName(name: string): string {
+  return (
+    name
+      .replace(/[[\]:*?/\\]/g, ' ')
+      .trim()
+      .slice(0, 31) || 'Sheet1'
+  );
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F\uFFFE\uFFFF]/g, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * Column letters for a zero-based column index (0 → A, 26 → AA)
+ */
+function columnName(index: number): string {
+  let name = '';
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+  }
+  return name;
+}
+
+function rowXml(cells: ExportCell[], rowNumber: number): string {
+  const xml = cells.map((cell, index) => {
+    const ref = `${columnName(index)}${rowNumber}`;
+    if (cell === null || cell === '') return '';
+    if (typeof cell === 'number') return `<c r="${ref}"><v>${cell}</v></c>`;
+    const text = escapeXml(cell.slice(0, MAX_CELL_LENGTH));
+    return `<c r="${ref}" t="inlineStr"><is><t xml:space="preserve">${text}</t></is></c>`;
+  });
+  return `<row r="${rowNumber}">${xml.join('')}</row>`;
+}
+
+// CRC-32 lookup table for zip checksums (zlib.crc32 needs Node 20.15+)
+const CRC_TABLE = Int32Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) {
+    c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  }
+  return c;
+});
+
+/**
+ * Update a running CRC-32 with more bytes (start from 0)
+ */
+function crc32(bytes: Buffer, previous: number): number {
+  let crc = ~previous;
+  for (let i = 0; i < bytes.length; i++) {
+    crc = CRC_TABLE[(crc ^ bytes[i]!) & 0xff]! ^ (crc >>> 8);
+  }
+  return ~crc >>> 0;
+}
+
+/**
+ * DOS date and time fields used by zip headers
+ */
+function dosDateTime(date: Date): { time: number; date: number } {
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+  };
+}
+
+type ZipEntry = {
+  name: Buffer;
+  offset: number;
+  crc: number;
+  compressedSize: number;
+  size: number;
+};
+
+/**
+ * Minimal streaming zip writer: deflated entries with data descriptors, so
+ * an entry's size and checksum are written after its data
+ */
+function createZipWriter(modified: Date) {
+  const { time, date } = dosDateTime(modified);
+  const entries: ZipEntry[] = [];
+  let offset = 0;
+  let current: ZipEntry | null = null;
+
+  const emit = (chunk: Buffer): Buffer => {
+    offset += chunk.length;
+    return chunk;
+  };
+
+  return {
+    /** Start an entry and return its local header */
+    begin(name: string): Buffer {
+      const nameBytes = Buffer.from(name, 'utf8');
+      current = { name: nameBytes, offset, crc: 0, compressedSize: 0, size: 0 };
+
+      const header = Buffer.alloc(30);
+      header.writeUInt32LE(0x04034b50, 0);
+      header.writeUInt16LE(20, 4); // Version needed to extract
+      header.writeUInt16LE(0x0808, 6); // Data descriptor follows, UTF-8 names
+      header.writeUInt16LE(8, 8); // Deflate
+      header.writeUInt16LE(time, 10);
+      header.writeUInt16LE(date, 12);
+      header.writeUInt16LE(nameBytes.length, 26);
+      return emit(Buffer.concat([header, nameBytes]));
+    },
+
+    /** Compress part of the current entry's data */
+    write(data: string): Buffer {
+      if (!current) throw new Error('No zip entry started');
+      const bytes = Buffer.from(data, 'utf8');
+      current.crc = crc32(bytes, current.crc);
+      current.size += bytes.length;
+
+      // Sync-flushed blocks concatenate into one valid deflate stream
+      const compressed = deflateRawSync(bytes, { finishFlush: constants.Z_SYNC_FLUSH });
+      current.compressedSize += compressed.length;
+      return emit(compressed);
+    },
+
+    /** Finish the current entry and return its final block and data descriptor */
+    end(): Buffer {
+      if (!current) throw new Error('No zip entry started');
+      const finalBlock = deflateRawSync(Buffer.alloc(0));
+      current.compressedSize += finalBlock.length;
+
+      const descriptor = Buffer.alloc(16);
+      descriptor.writeUInt32LE(0x08074b50, 0);
+      descriptor.writeUInt32LE(current.crc >>> 0, 4);
+      descriptor.writeUInt32LE(current.compressedSize, 8);
+      descriptor.writeUInt32LE(current.size, 12);
+
+      entries.push(current);
+      current = null;
+      return emit(Buffer.concat([finalBlock, descriptor]));
+    },
+
+    /** Return the central directory and end record */
+    finish(): Buffer {
+      const directoryOffset = offset;
+      const records = entries.map((entry) => {
+        const record = Buffer.alloc(46);
+        record.writeUInt32LE(0x02014b50, 0);
+        record.writeUInt16LE(20, 4); // Version made by
+        record.writeUInt16LE(20, 6); // Version needed to extract
+        record.writeUInt16LE(0x0808, 8);
+        record.writeUInt16LE(8, 10);
+        record.writeUInt16LE(time, 12);
+        record.writeUInt16LE(date, 14);
+        record.writeUInt32LE(entry.crc >>> 0, 16);
+        record.writeUInt32LE(entry.compressedSize, 20);
+        record.writeUInt32LE(entry.size, 24);
+        record.writeUInt16LE(entry.name.length, 28);
+        record.writeUInt32LE(entry.offset, 42);
+        return Buffer.concat([record, entry.name]);
+      });
+      const directory = Buffer.concat(records);
+
+      const end = Buffer.alloc(22);
+      end.writeUInt32LE(0x06054b50, 0);
+      end.writeUInt16LE(entries.length, 8);
+      end.writeUInt16LE(entries.length, 10);
+      end.writeUInt32LE(directory.length, 12);
+      end.writeUInt32LE(directoryOffset, 16);
+      return emit(Buffer.concat([directory, end]));
+    },
+  };
+}
+
+/**
+ * Stream rows as a single-sheet XLSX workbook
+ *
+ * Strings are written inline (no shared string table) so nothing has to be
+ * collected before the sheet is written.
+ *
+ * @param rows - Header row first, then data rows
+ * @param sheetName - Worksheet tab name, shortened and cleaned for Excel
+ * @returns XLSX byte stream
+ */
+export function createXlsxStream(
+  rows: AsyncIterable<ExportCell[]>,
+  sheetName: string
+): ReadableStream<Uint8Array> {
+  const zip = createZipWriter(new Date());
+  const iterator = rows[Symbol.asyncIterator]();
+  let rowNumber = 0;
+  let started = false;
+
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      if (!started) {
+        started = true;
+        for (const [name, xml] of [
+          ['[Content_Types].xml', CONTENT_TYPES],
+          ['_rels/.rels', ROOT_RELS],
+          ['xl/workbook.xml', workbookXml(safeSheetName(sheetName))],
+          ['xl/_rels/workbook.xml.rels', WORKBOOK_RELS],
+        ] as const) {
+          controller.enqueue(zip.begin(name));
+          controller.enqueue(zip.write(xml));
+          controller.enqueue(zip.end());
+        }
+        controller.enqueue(zip.begin('xl/worksheets/sheet1.xml'));
+        controller.enqueue(zip.write(SHEET_START));
+      }
+
+      let xml = '';
+      let done = false;
+      for (let i = 0; i < ROWS_PER_CHUNK; i++) {
+        const next = await iterator.next();
+        if (next.done) {
+          done = true;
+          break;
+        }
+        rowNumber++;
+        xml += rowXml(next.value, rowNumber);
+      }
+
+      if (xml) {
+        controller.enqueue(zip.write(xml));
+      }
+
+      if (done) {
+        controller.enqueue(zip.write(SHEET_END));
+        controller.enqueue(zip.end());
+        controller.enqueue(zip.finish());
+        controller.close();
+      }
+    },
+    async cancel() {
+      await iterator.return?.();
+    },
+  });
+}
@@ -0,0 +1,58 @@
+/**
+ * Session Completion
+ *
+ * Keeps a session's stored completion percentage and status in step with its values
+ */
+
+import { query, execute } from '@/lib/db/query';
+import {
+  addSectionProgress,
+  ProgressFieldState,
+  VisibilitySectionState,
+} from '@/features/sessions/utils/visibility';
+
+/**
+ * Recount required fields and store the session's completion and status
+ *
+ * @param sessionId - Session to update
+ * @returns New completion percent and status
+ */
+export async function updateSessionCompletion(sessionId: string): Promise<{
+  completion_percent: number;
+  status: string;
+}> {
+  // Only fields left visible by their visibility rules count towards completion
+  const sections = await query<VisibilitySectionState>(
+    `SELECT s.id, s.visibility
+     FROM sections s
+     JOIN sessions sess ON sess.blueprint_id = s.blueprint_id
+     WHERE sess.id = $1`,
+    [sessionId]
+  );
+
+  const fields = await query<ProgressFieldState>(
+    `SELECT f.id, f.key, f.label, f.type, f.section_id, f.required, f.visibility, f.validation,
+            sfv.value
+     FROM fields f
+     JOIN sections s ON s.id = f.section_id
+     JOIN sessions sess ON sess.blueprint_id = s.blueprint_id
+     LEFT JOIN session_field_values sfv ON sfv.field_id = f.id AND sfv.session_id = $1
+     WHERE sess.id = $1`,
+    [sessionId]
+  );
+
+  const progress = addSectionProgress(sections, fields);
+  const requiredCount = progress.reduce((sum, s) => sum + s.required_count, 0);
+  const filledCount = progress.reduce((sum, s) => sum + s.required_filled_count, 0);
+
+  const percent = requiredCount > 0 ? Math.round((filledCount / requiredCount) * 100) : 100;
+
+  const status = percent === 100 ? 'completed' : 'in_progress';
+
+  await execute(
+    'UPDATE sessions SET completion_percent = $1, status = $2, updated_at = NOW() WHERE id = $3',
+    [percent, status, sessionId]
+  );
+
+  return { completion_percent: percent, status };
+}
@@ -0,0 +1,58 @@
+/**
+ * Computed Field Recalculation
+ *
+ * Recomputes a session's Computed field values after its inputs change
+ */
+
+import { query, execute } from '@/lib/db/query';
+import { ComputedFieldState, computeFieldValues } from '@/features/sessions/utils/computed-fields';
+
+/**
+ * Recalculate every Computed field in a session and store values that changed
+ *
+ * Only reviewed values are used as inputs, so pending AI suggestions don't
+ * leak into computed results. Computed values are stored as reviewed.
+ *
+ * @param sessionId - Session to recalculate
+ * @returns New values keyed by field id (only fields whose value changed)
+ */
+export async function recalculateComputedFields(
+  sessionId: string
+): Promise<Record<string, string>> {
+  const fields = await query<ComputedFieldState & { reviewed: boolean | null }>(
+    `SELECT f.id, f.key, f.type, f.label, f.config, sfv.value, sfv.reviewed
+     FROM fields f
+     JOIN sections s ON s.id = f.section_id
+     JOIN sessions sess ON sess.blueprint_id = s.blueprint_id
+     LEFT JOIN session_field_values sfv ON sfv.field_id = f.id AND sfv.session_id = $1
+     WHERE sess.id = $1`,
+    [sessionId]
+  );
+
+  if (!fields.some((f) => f.type === 'Computed')) {
+    return {};
+  }
+
+  const inputs = fields.map((f) => ({ ...f, value: f.reviewed ? f.value : null }));
+  const changed: Record<string, string> = {};
+
+  for (const [fieldId, value] of computeFieldValues(inputs)) {
+    const current = fields.find((f) => f.id === fieldId);
+    if (current?.reviewed && (current.value ?? '') === value) continue;
+    if (!current?.reviewed && !current?.value && value === '') continue;
+
+    await execute(
+      `INSERT INTO session_field_values (session_id, field_id, value, reviewed)
+       VALUES ($1, $2, $3, true)
+       ON CONFLICT (session_id, field_id)
+       DO UPDATE SET
+         value = $3,
+         reviewed = true,
+         updated_at = NOW()`,
+      [sessionId, fieldId, value]
+    );
+    changed[fieldId] = value;
+  }
+
+  return changed;
+}
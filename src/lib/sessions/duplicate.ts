@@ -0,0 +1,329 @@
+/**
+ * Session Duplicate
+ *
+ * Starts a new session from an existing one, carrying over the chosen
+ * sections' accepted values and notes, and optionally its sources and artifacts
+ */
+
+import { query, queryOne, transaction, TransactionClient } from '@/lib/db/query';
+import { ConflictError, NotFoundError, ValidationError } from '@/lib/errors';
+import { getLatestBlueprintVersion } from '@/lib/blueprints/versions';
+import { recalculateComputedFields } from '@/lib/sessions/computed-fields';
+import { updateSessionCompletion } from '@/lib/sessions/completion';
+import { writeFieldValue } from '@/lib/sessions/value-history';
+import { lockSourceFiles } from '@/lib/sources/files';
+import { Blueprint } from '@/features/blueprints/types/blueprint';
+import { DuplicateSessionResult, Session } from '@/features/sessions/types/session';
+import {
+  DuplicateFieldState,
+  DuplicatePlan,
+  DuplicateSectionState,
+  planSessionDuplicate,
+} from '@/features/sessions/utils/session-duplicate';
+
+type ProvenanceTag = { source_id?: string; tag?: string };
+
+type DuplicateOptions = {
+  sessionId: string;
+  companyId: string | null;
+  memberId: string;
+  name: string;
+  blueprintId?: string;
+  valueSectionIds: string[];
+  noteSectionIds: string[];
+  includeSources: boolean;
+  includeArtifacts: boolean;
+};
+
+/**
+ * Copy the session's sources, returning new source ids keyed by the originals
+ */
+async function copySources(
+  client: TransactionClient,
+  fromSessionId: string,
+  toSessionId: string
+): Promise<Map<string, string>> {
+  const files = await client.query(
+    'SELECT DISTINCT file_hash FROM sources WHERE session_id = $1 AND file_hash IS NOT NULL',
+    [fromSessionId]
+  );
+  await lockSourceFiles(
+    client,
+    (files.rows as { file_hash: string }[]).map((file) => file.file_hash)
+  );
+
+  const sources = await client.query(
+    // Sources still waiting on extraction have nothing to copy yet
+    `SELECT id FROM sources
+     WHERE session_id = $1 AND text_extracted IS NOT NULL
+     ORDER BY created_at`,
+    [fromSessionId]
+  );
+  const copied = new Map<string, string>();
+
+  for (const source of sources.rows as { id: string }[]) {
+    const result = await client.query(
+      `INSERT INTO sources (session_id, type, filename_or_url, text_extracted, metadata, file_hash, created_by)
+       SELECT $1, type, filename_or_url, text_extracted, metadata, file_hash, created_by
+       FROM sources WHERE id = $2
+       RETURNING id`,
+      [toSessionId, source.id]
+    );
+    copied.set(source.id, (result.rows[0] as { id: string }).id);
+  }
+
+  return copied;
+}
+
+/**
+ * Copy the selected sections' notes, keeping provenance only for copied sources
+ */
+async function copyNotes(
+  client: TransactionClient,
+  plan: DuplicatePlan,
+  fromSessionId: string,
+  toSessionId: string,
+  sourceIds: Map<string, string>
+): Promise<void> {
+  for (const note of plan.notes) {
+    const result = await client.query(
+      'SELECT markdown, provenance_tags FROM section_notes WHERE session_id = $1 AND section_id = $2',
+      [fromSessionId, note.from_section_id]
+    );
+    const existing = result.rows[0] as
+      | { markdown: string | null; provenance_tags: ProvenanceTag[] | null }
+      | undefined;
+    if (!existing) continue;
+
+    const tags = (existing.provenance_tags ?? [])
+      .filter((tag) => tag.source_id && sourceIds.has(tag.source_id))
+      .map((tag) => ({ ...tag, source_id: sourceIds.get(tag.source_id as string) }));
+
+    await client.query(
+      `INSERT INTO section_notes (session_id, section_id, markdown, provenance_tags)
+       VALUES ($1, $2, $3, $4::jsonb)`,
+      [toSessionId, note.to_section_id, existing.markdown, JSON.stringify(tags)]
+    );
+  }
+}
+
+/**
+ * Copy artifacts whose generator exists in the target version, with the
+ * snapshots they were generated from
+ *
+ * @returns Number of artifacts copied
+ */
+async function copyArtifacts(
+  client: TransactionClient,
+  fromSessionId: string,
+  toSessionId: string,
+  target: Blueprint
+): Promise<number> {
+  const artifacts = await client.query(
+    `SELECT a.id, a.snapshot_ref, g.name as generator_name, g.source_generator_id
+     FROM artifacts a
+     JOIN blueprint_artifact_generators g ON g.id = a.generator_id
+     WHERE a.session_id = $1
+     ORDER BY a.created_at`,
+    [fromSessionId]
+  );
+  const generators = await client.query(
+    'SELECT id, name, source_generator_id FROM blueprint_artifact_generators WHERE blueprint_id = $1',
+    [target.id]
+  );
+  const targetGenerators = generators.rows as {
+    id: string;
+    name: string;
+    source_generator_id: string | null;
+  }[];
+  const snapshotIds = new Map<string, string>();
+  let copied = 0;
+
+  for (const artifact of artifacts.rows as {
+    id: string;
+    snapshot_ref: string | null;
+    generator_name: string;
+    source_generator_id: string | null;
+  }[]) {
+    const generator =
+      (artifact.source_generator_id
+        ? targetGenerators.find((g) => g.source_generator_id === artifact.source_generator_id)
+        : undefined) ?? targetGenerators.find((g) => g.name === artifact.generator_name);
+    if (!generator) continue;
+
+    let snapshotRef: string | null = null;
+    if (artifact.snapshot_ref) {
+      snapshotRef = snapshotIds.get(artifact.snapshot_ref) ?? null;
+      if (!snapshotRef) {
+        const snapshot = await client.query(
+          `INSERT INTO session_snapshots
+             (session_id, blueprint_id, blueprint_version, content_hash, fields, notes, created_by, created_at)
+           SELECT $1, blueprint_id, blueprint_version, content_hash, fields, notes, created_by, created_at
+           FROM session_snapshots WHERE id = $2
+           RETURNING id`,
+          [toSessionId, artifact.snapshot_ref]
+        );
+        snapshotRef = (snapshot.rows[0] as { id: string } | undefined)?.id ?? null;
+        if (snapshotRef) snapshotIds.set(artifact.snapshot_ref, snapshotRef);
+      }
+    }
+
+    await client.query(
+      `INSERT INTO artifacts (session_id, generator_id, version, title, markdown,
+                              prompt_template_hash, snapshot_ref, published, created_by, created_at)
+       SELECT $1, $2, version, title, markdown, prompt_template_hash, $3, published, created_by, created_at
+       FROM artifacts WHERE id = $4`,
+      [toSessionId, generator.id, snapshotRef, artifact.id]
+    );
+    copied++;
+  }
+
+  return copied;
+}
+
+/**
+ * Duplicate a session into a new session on the latest published version of
+ * its blueprint, or of another published blueprint
+ *
+ * Copied values are recorded in the new session's value history as imports.
+ * Values with no matching field, or no longer valid for it, are left behind.
+ *
+ * @returns The new session and what was carried over
+ * @throws ConflictError when the name is taken
+ * @throws ValidationError when the target blueprint has no published version
+ *         or a section isn't part of the session
+ */
+export async function duplicateSession(options: DuplicateOptions): Promise<DuplicateSessionResult> {
+  const source = await queryOne<Session & { root_blueprint_id: string }>(
+    `SELECT s.*, COALESCE(b.version_of, b.id) as root_blueprint_id
+     FROM sessions s
+     JOIN blueprints b ON b.id = s.blueprint_id
+     WHERE s.id = $1 AND s.company_id = $2`,
+    [options.sessionId, options.companyId]
+  );
+
+  if (!source) {
+    throw new NotFoundError('Session');
+  }
+
+  const blueprint = await queryOne<{ id: string }>(
+    'SELECT id FROM blueprints WHERE id = $1 AND company_id = $2 AND version_of IS NULL',
+    [options.blueprintId ?? source.root_blueprint_id, options.companyId]
+  );
+
+  if (!blueprint) {
+    throw new NotFoundError('Blueprint');
+  }
+
+  const target = await getLatestBlueprintVersion(blueprint.id);
+
+  if (!target) {
+    throw new ValidationError('Can only create sessions from published blueprints');
+  }
+
+  const existing = await queryOne<{ count: number }>(
+    'SELECT COUNT(*)::int as count FROM sessions WHERE company_id = $1 AND name = $2',
+    [options.companyId, options.name]
+  );
+
+  if (existing && existing.count > 0) {
+    throw new ConflictError('A session with this name already exists');
+  }
+
+  const fromSections = await query<DuplicateSectionState>(
+    `SELECT s.id, s.key, s.source_section_id, n.markdown
+     FROM sections s
+     LEFT JOIN section_notes n ON n.section_id = s.id AND n.session_id = $1
+     WHERE s.blueprint_id = $2
+     ORDER BY s.order_index`,
+    [source.id, source.blueprint_id]
+  );
+
+  const unknownSection = [...options.valueSectionIds, ...options.noteSectionIds].find(
+    (id) => !fromSections.some((section) => section.id === id)
+  );
+  if (unknownSection) {
+    throw new ValidationError(
+      'Sections must belong to the session being duplicated',
+      'INVALID_SECTION',
+      { section_id: unknownSection }
+    );
+  }
+
+  const toSections = await query<DuplicateSectionState>(
+    'SELECT id, key, source_section_id FROM sections WHERE blueprint_id = $1 ORDER BY order_index',
+    [target.id]
+  );
+
+  // Only accepted values carry over; pending suggestions stay behind
+  const fromFields = await query<DuplicateFieldState>(
+    `SELECT f.id, f.key, f.type, f.label, f.config, f.section_id, f.source_field_id,
+            s.key as section_key, sfv.value
+     FROM fields f
+     JOIN sections s ON s.id = f.section_id
+     LEFT JOIN session_field_values sfv
+       ON sfv.field_id = f.id AND sfv.session_id = $1 AND sfv.reviewed = true
+     WHERE s.blueprint_id = $2
+     ORDER BY s.order_index, f.order_index`,
+    [source.id, source.blueprint_id]
+  );
+
+  const toFields = await query<DuplicateFieldState>(
+    `SELECT f.id, f.key, f.type, f.label, f.config, f.section_id, f.source_field_id,
+            s.key as section_key
+     FROM fields f
+     JOIN sections s ON s.id = f.section_id
+     WHERE s.blueprint_id = $1
+     ORDER BY s.order_index, f.order_index`,
+    [target.id]
+  );
+
+  const plan = planSessionDuplicate(fromFields, toFields, fromSections, toSections, {
+    values: options.valueSectionIds,
+    notes: options.noteSectionIds,
+  });
+
+  const { session, copiedSources, copiedArtifacts } = await transaction(async (client) => {
+    const created = await client.query(
+      `INSERT INTO sessions (company_id, blueprint_id, blueprint_version, name, status, created_by)
+       VALUES ($1, $2, $3, $4, 'in_progress', $5)
+       RETURNING *`,
+      [options.companyId, target.id, target.version, options.name, options.memberId]
+    );
+    const session = created.rows[0] as Session;
+
+    const sourceIds = options.includeSources
+      ? await copySources(client, source.id, session.id)
+      : new Map<string, string>();
+
+    for (const value of plan.values) {
+      await writeFieldValue(client, {
+        sessionId: session.id,
+        fieldId: value.to_field_id,
+        value: value.value,
+        origin: 'import',
+        memberId: options.memberId,
+      });
+    }
+
+    await copyNotes(client, plan, source.id, session.id, sourceIds);
+
+    const copiedArtifacts = options.includeArtifacts
+      ? await copyArtifacts(client, source.id, session.id, target)
+      : 0;
+
+    return { session, copiedSources: sourceIds.size, copiedArtifacts };
+  });
+
+  await recalculateComputedFields(session.id);
+  await updateSessionCompletion(session.id);
+
+  return {
+    session,
+    copied_values: plan.values.length,
+    skipped_values: plan.skipped_values,
+    copied_notes: plan.notes.length,
+    copied_sources: copiedSources,
+    copied_artifacts: copiedArtifacts,
+  };
+}
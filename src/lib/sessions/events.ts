@@ -0,0 +1,136 @@
+/**
+ * Session Events
+ *
+ * Broadcasts live session changes (presence, field edits) to every open
+ * editor. Events go through Postgres LISTEN/NOTIFY, so members connected to
+ * different app instances still see each other's changes.
+ */
+
+import { EventEmitter } from 'events';
+import type { PoolClient } from 'pg';
+import { getPool } from '@/lib/db/pool';
+import { query } from '@/lib/db/query';
+import { logger } from '@/lib/logger';
+import { SessionEvent } from '@/features/sessions/types/session';
+
+const CHANNEL = 'session_events';
+const MAX_PAYLOAD_BYTES = 7900; // Postgres rejects NOTIFY payloads of 8000 bytes or more
+const RECONNECT_DELAY_MS = 5000;
+
+type SessionNotification = {
+  session_id: string;
+  event: SessionEvent;
+};
+
+// Local subscribers, keyed by session id
+const emitter = new EventEmitter();
+emitter.setMaxListeners(0); // One listener per open session tab
+
+let listener: Promise<PoolClient> | null = null;
+
+/**
+ * Hold one connection that LISTENs for session events and hands them to local subscribers
+ */
+function ensureListening(): Promise<PoolClient> {
+  if (listener) return listener;
+
+  listener = (async () => {
+    const client = await getPool().connect();
+
+    client.on('notification', (message) => {
+      if (message.channel !== CHANNEL || !message.payload) return;
+
+      try {
+        const { session_id, event } = JSON.parse(message.payload) as SessionNotification;
+        emitter.emit(session_id, event);
+      } catch (error) {
+        logger.warn('Ignored malformed session event', {
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    });
+
+    client.on('error', (error) => {
+      logger.error('Session event listener disconnected', { error: error.message });
+      client.release(error);
+      listener = null;
+
+      // Reconnect while anyone is still subscribed
+      setTimeout(() => {
+        if (emitter.eventNames().length > 0) {
+          ensureListening().catch(() => undefined);
+        }
+      }, RECONNECT_DELAY_MS);
+    });
+
+    await client.query(`LISTEN ${CHANNEL}`);
+    return client;
+  })();
+
+  listener.catch((error) => {
+    logger.error('Failed to listen for session events', {
+      error: error instanceof Error ? error.message : String(error),
+    });
+    listener = null;
+  });
+
+  return listener;
+}
+
+/**
+ * Receive events for a session
+ *
+ * @param sessionId - Session to follow
+ * @param handler - Called with each event
+ * @returns Function that stops the subscription
+ */
+export async function subscribeToSession(
+  sessionId: string,
+  handler: (event: SessionEvent) => void
+): Promise<() => void> {
+  await ensureListening();
+  emitter.on(sessionId, handler);
+
+  return () => {
+    emitter.off(sessionId, handler);
+  };
+}
+
+/**
+ * Send an event to everyone following a session
+ *
+ * Field updates too large for a notification are sent as values_changed, so
+ * clients refetch instead. Failures are logged, not thrown: the change itself
+ * is already saved.
+ *
+ * @param sessionId - Session the event belongs to
+ * @param event - Event to broadcast
+ */
+export async function publishSessionEvent(sessionId: string, event: SessionEvent): Promise<void> {
+  let payload = JSON.stringify({ session_id: sessionId, event } satisfies SessionNotification);
+
+  if (Buffer.byteLength(payload) > MAX_PAYLOAD_BYTES && event.type === 'field_updated') {
+    payload = JSON.stringify({
+      session_id: sessionId,
+      event: { type: 'values_changed', member_id: event.member_id },
+    } satisfies SessionNotification);
+  }
+
+  if (Buffer.byteLength(payload) > MAX_PAYLOAD_BYTES) {
+    logger.warn('Dropped session event too large to broadcast', {
+      session_id: sessionId,
+      type: event.type,
+    });
+    return;
+  }
+
+  try {
+    await query('SELECT pg_notify($1, $2)', [CHANNEL, payload]);
+  } catch (error) {
+    logger.warn('Failed to broadcast session event', {
+      session_id: sessionId,
+      type: event.type,
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+}
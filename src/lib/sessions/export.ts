@@ -0,0 +1,232 @@
+/**
+ * Session Export
+ *
+ * Builds the rows of a cross-session export for one blueprint: one row per
+ * session, one column per field key, read from the database in batches
+ */
+
+import { query } from '@/lib/db/query';
+import { ExportCell } from '@/lib/export/csv';
+import { SessionExportFilters } from '@/features/sessions/types/session';
+import { coerceNumberValue } from '@/features/sessions/utils/field-value';
+import { FieldType } from '@/features/blueprints/types/blueprint';
+
+// Sessions (and their values) are loaded this many at a time
+const BATCH_SIZE = 200;
+
+const SESSION_COLUMNS = [
+  'session_id',
+  'session_name',
+  'blueprint_version',
+  'status',
+  'review_status',
+  'completion_percent',
+  'created_by',
+  'created_at',
+  'updated_at',
+];
+
+type ExportFieldColumn = {
+  section_key: string;
+  field_key: string;
+  header: string;
+};
+
+type ExportSessionRow = {
+  id: string;
+  name: string;
+  blueprint_version: number;
+  status: string;
+  review_status: string;
+  completion_percent: string | null;
+  created_by_name: string | null;
+  created_at: Date;
+  updated_at: Date;
+};
+
+/**
+ * Collect field columns across every published version of a blueprint
+ *
+ * Fields are ordered as in the newest version that has them. Columns are
+ * headed by field key, prefixed with the section key when two sections share
+ * a field key.
+ */
+async function loadFieldColumns(blueprintId: string): Promise<ExportFieldColumn[]> {
+  const fields = await query<{ section_key: string; field_key: string }>(
+    `SELECT section_key, field_key
+     FROM (
+       SELECT DISTINCT ON (s.key, f.key)
+              s.key as section_key, f.key as field_key,
+              b.version, s.order_index as section_order, f.order_index as field_order
+       FROM fields f
+       JOIN sections s ON s.id = f.section_id
+       JOIN blueprints b ON b.id = s.blueprint_id
+       WHERE b.version_of = $1
+       ORDER BY s.key, f.key, b.version DESC
+     ) latest
+     ORDER BY version DESC, section_order, field_order`,
+    [blueprintId]
+  );
+
+  const keyCounts = new Map<string, number>();
+  for (const field of fields) {
+    keyCounts.set(field.field_key, (keyCounts.get(field.field_key) ?? 0) + 1);
+  }
+
+  return fields.map((field) => ({
+    ...field,
+    header:
+      (keyCounts.get(field.field_key) ?? 0) > 1
+        ? `${field.section_key}.${field.field_key}`
+        : field.field_key,
+  }));
+}
+
+/**
+ * List the ids of the blueprint's sessions that match the filters, most
+ * recently updated first (the session list's order)
+ */
+async function loadSessionIds(
+  blueprintId: string,
+  companyId: string | null,
+  filters: SessionExportFilters
+): Promise<string[]> {
+  const conditions = ['s.company_id = $1', 'b.version_of = $2'];
+  const params: unknown[] = [companyId, blueprintId];
+
+  if (filters.search) {
+    params.push(`%${filters.search.replace(/[\\%_]/g, '\\$&')}%`);
+    conditions.push(`s.name ILIKE $${params.length}`);
+  }
+
+  if (filters.status) {
+    params.push(filters.status);
+    conditions.push(`s.status = $${params.length}`);
+  }
+
+  if (filters.owner) {
+    params.push(filters.owner);
+    conditions.push(`s.created_by = $${params.length}`);
+  }
+
+  const rows = await query<{ id: string }>(
+    `SELECT s.id
+     FROM sessions s
+     JOIN blueprints b ON b.id = s.blueprint_id
+     WHERE ${conditions.join(' AND ')}
+     ORDER BY s.updated_at DESC, s.id`,
+    params
+  );
+
+  return rows.map((row) => row.id);
+}
+
+/**
+ * Export rows for a blueprint's sessions
+ *
+ * The columns and matching sessions are loaded up front, so a bad filter or
+ * database error fails the request before a response is sent. Session values
+ * are then read in batches as the returned rows are consumed.
+ *
+ * Only accepted values are exported; pending AI suggestions are left out.
+ * Number and Currency values are written as numbers, so spreadsheets can sum
+ * them; other values are written as stored (dates as ISO 8601, repeatable
+ * groups as JSON).
+ *
+ * @param blueprintId - Editable blueprint whose sessions are exported
+ * @param companyId - Company the sessions belong to
+ * @param filters - Session list filters to apply
+ * @returns Header row, then one row per session
+ */
+export async function exportSessionRows(
+  blueprintId: string,
+  companyId: string | null,
+  filters: SessionExportFilters
+): Promise<AsyncGenerator<ExportCell[]>> {
+  const columns = await loadFieldColumns(blueprintId);
+  const sessionIds = await loadSessionIds(blueprintId, companyId, filters);
+  return streamSessionRows(columns, sessionIds);
+}
+
+/**
+ * Numeric fields become number cells; a value that isn't a number is kept as text
+ */
+function toExportCell(type: FieldType, value: string | null): ExportCell {
+  if (value === null || (type !== 'Number' && type !== 'Currency')) return value;
+  const number = coerceNumberValue(value);
+  return number === null ? value : Number(number);
+}
+
+async function* streamSessionRows(
+  columns: ExportFieldColumn[],
+  sessionIds: string[]
+): AsyncGenerator<ExportCell[]> {
+  const columnIndex = new Map(
+    columns.map((column, index) => [`${column.section_key}.${column.field_key}`, index])
+  );
+
+  yield [...SESSION_COLUMNS, ...columns.map((column) => column.header)];
+
+  for (let start = 0; start < sessionIds.length; start += BATCH_SIZE) {
+    const batch = sessionIds.slice(start, start + BATCH_SIZE);
+
+    const sessions = await query<ExportSessionRow>(
+      `SELECT s.id, s.name, s.blueprint_version, s.status, s.review_status,
+              s.completion_percent, m.name as created_by_name, s.created_at, s.updated_at
+       FROM sessions s
+       LEFT JOIN members m ON m.id = s.created_by
+       WHERE s.id = ANY($1::uuid[])`,
+      [batch]
+    );
+
+    const values = await query<{
+      session_id: string;
+      section_key: string;
+      field_key: string;
+      field_type: FieldType;
+      value: string | null;
+    }>(
+      `SELECT sfv.session_id, s.key as section_key, f.key as field_key, f.type as field_type,
+              sfv.value
+       FROM session_field_values sfv
+       JOIN fields f ON f.id = sfv.field_id
+       JOIN sections s ON s.id = f.section_id
+       WHERE sfv.session_id = ANY($1::uuid[]) AND sfv.reviewed = true`,
+      [batch]
+    );
+
+    const cellsBySession = new Map<string, ExportCell[]>();
+    for (const value of values) {
+      const index = columnIndex.get(`${value.section_key}.${value.field_key}`);
+      if (index === undefined) continue;
+
+      let cells = cellsBySession.get(value.session_id);
+      if (!cells) {
+        cells = columns.map(() => null);
+        cellsBySession.set(value.session_id, cells);
+      }
+      cells[index] = toExportCell(value.field_type, value.value);
+    }
+
+    // Sessions deleted since the ids were listed are skipped
+    for (const id of batch) {
+      const session = sessions.find((s) => s.id === id);
+      if (!session) continue;
+
+      const fieldCells = cellsBySession.get(id) ?? columns.map(() => null);
+
+      yield [
+        session.id,
+        session.name,
+        session.blueprint_version,
+        session.status,
+        session.review_status,
+        session.completion_percent === null ? null : Number(session.completion_percent),
+        session.created_by_name,
+        new Date(session.created_at).toISOString(),
+        new Date(session.updated_at).toISOString(),
+        ...fieldCells,
+      ];
+    }
+  }
+}
@@ -0,0 +1,104 @@
+/**
+ * Session Presence
+ *
+ * Tracks which members have a session open and which section they're viewing.
+ * Each member has one row per session, counting their open event streams, so
+ * closing one of several tabs doesn't remove them.
+ */
+
+import { execute, query } from '@/lib/db/query';
+import { SessionPresenceMember } from '@/features/sessions/types/session';
+import { publishSessionEvent } from '@/lib/sessions/events';
+
+// Members are considered gone once their heartbeat is this old
+const PRESENCE_TIMEOUT_SECONDS = 60;
+
+/**
+ * List members currently in a session
+ *
+ * @param sessionId - Session to list
+ * @returns Members with a recent heartbeat, by name
+ */
+export async function listPresence(sessionId: string): Promise<SessionPresenceMember[]> {
+  return query<SessionPresenceMember>(
+    `SELECT p.member_id, m.name, p.section_id, p.last_seen_at
+     FROM session_presence p
+     JOIN members m ON m.id = p.member_id
+     WHERE p.session_id = $1 AND p.last_seen_at > NOW() - make_interval(secs => $2)
+     ORDER BY m.name`,
+    [sessionId, PRESENCE_TIMEOUT_SECONDS]
+  );
+}
+
+/**
+ * Count a newly opened event stream towards a member's presence
+ *
+ * @param sessionId - Session the member opened
+ * @param memberId - Member opening the stream
+ */
+export async function addPresenceConnection(sessionId: string, memberId: string): Promise<void> {
+  await execute(
+    `INSERT INTO session_presence (session_id, member_id, last_seen_at, connections)
+     VALUES ($1, $2, NOW(), 1)
+     ON CONFLICT (session_id, member_id)
+     DO UPDATE SET connections = session_presence.connections + 1, last_seen_at = NOW()`,
+    [sessionId, memberId]
+  );
+}
+
+/**
+ * Record a member's heartbeat and current section, and broadcast who's present
+ *
+ * @param sessionId - Session the member has open
+ * @param memberId - Member sending the heartbeat
+ * @param sectionId - Section the member is viewing
+ * @returns Members currently in the session
+ */
+export async function updatePresence(
+  sessionId: string,
+  memberId: string,
+  sectionId: string | null
+): Promise<SessionPresenceMember[]> {
+  // A row cleaned up while the tab was throttled comes back counting its one stream
+  await execute(
+    `INSERT INTO session_presence (session_id, member_id, section_id, last_seen_at)
+     VALUES ($1, $2, $3, NOW())
+     ON CONFLICT (session_id, member_id)
+     DO UPDATE SET section_id = $3, last_seen_at = NOW()`,
+    [sessionId, memberId, sectionId]
+  );
+
+  // Clean up members whose tab closed without saying goodbye
+  await execute(
+    `DELETE FROM session_presence
+     WHERE session_id = $1 AND last_seen_at <= NOW() - make_interval(secs => $2)`,
+    [sessionId, PRESENCE_TIMEOUT_SECONDS]
+  );
+
+  const members = await listPresence(sessionId);
+  await publishSessionEvent(sessionId, { type: 'presence', members });
+  return members;
+}
+
+/**
+ * Count a closed event stream, remove the member from the session's presence
+ * once it was their last, and broadcast who's left
+ *
+ * @param sessionId - Session the member closed
+ * @param memberId - Member closing the stream
+ */
+export async function removePresence(sessionId: string, memberId: string): Promise<void> {
+  await execute(
+    `UPDATE session_presence SET connections = GREATEST(connections - 1, 0)
+     WHERE session_id = $1 AND member_id = $2`,
+    [sessionId, memberId]
+  );
+
+  await execute(
+    'DELETE FROM session_presence WHERE session_id = $1 AND member_id = $2 AND connections = 0',
+    [sessionId, memberId]
+  );
+
+  const members = await listPresence(sessionId);
+  await publishSessionEvent(sessionId, { type: 'presence', members });
+}
@@ -0,0 +1,421 @@
+/**
+ * Session Review
+ *
+ * Sign-off workflow for sessions: reviewers, decisions, recorded transitions,
+ * and the lock that keeps approved sessions from being edited
+ */
+
+import { query, queryOne, transaction, TransactionClient } from '@/lib/db/query';
+import { AuthorizationError, ConflictError, NotFoundError, ValidationError } from '@/lib/errors';
+import {
+  ReviewDecision,
+  SessionReview,
+  SessionReviewAction,
+  SessionReviewer,
+  SessionReviewEvent,
+  SessionReviewStatus,
+} from '@/features/sessions/types/session';
+
+const STATUS_LABELS: Record<SessionReviewStatus, string> = {
+  draft: 'not submitted for review',
+  in_review: 'in review',
+  changes_requested: 'waiting on requested changes',
+  approved: 'approved',
+};
+
+type ReviewEventInput = {
+  sessionId: string;
+  action: SessionReviewAction;
+  fromStatus: SessionReviewStatus;
+  toStatus: SessionReviewStatus;
+  comment?: string | null;
+  reviewerId?: string | null;
+  memberId: string;
+};
+
+/**
+ * Record a review transition or reviewer change
+ *
+ * @param client - Transaction the change was made in
+ * @param event - What happened, and who did it
+ */
+async function recordReviewEvent(
+  client: TransactionClient,
+  event: ReviewEventInput
+): Promise<void> {
+  await client.query(
+    `INSERT INTO session_review_events
+       (session_id, action, from_status, to_status, comment, reviewer_id, member_id)
+     VALUES ($1, $2, $3, $4, $5, $6, $7)`,
+    [
+      event.sessionId,
+      event.action,
+      event.fromStatus,
+      event.toStatus,
+      event.comment ?? null,
+      event.reviewerId ?? null,
+      event.memberId,
+    ]
+  );
+}
+
+/**
+ * Lock the session row for a review change and return its review status
+ */
+async function lockSessionForReview(
+  client: TransactionClient,
+  sessionId: string,
+  companyId: string | null
+): Promise<SessionReviewStatus> {
+  const result = await client.query(
+    'SELECT review_status FROM sessions WHERE id = $1 AND company_id = $2 FOR UPDATE',
+    [sessionId, companyId]
+  );
+  const session = result.rows[0] as { review_status: SessionReviewStatus } | undefined;
+
+  if (!session) {
+    throw new NotFoundError('Session');
+  }
+
+  return session.review_status;
+}
+
+function assertStatus(
+  current: SessionReviewStatus,
+  allowed: SessionReviewStatus[],
+  action: string
+) {
+  if (!allowed.includes(current)) {
+    throw new ConflictError(
+      `Cannot ${action}: session is ${STATUS_LABELS[current]}`,
+      'INVALID_REVIEW_TRANSITION',
+      { review_status: current }
+    );
+  }
+}
+
+async function setReviewStatus(
+  client: TransactionClient,
+  sessionId: string,
+  status: SessionReviewStatus
+): Promise<void> {
+  await client.query('UPDATE sessions SET review_status = $1, updated_at = NOW() WHERE id = $2', [
+    status,
+    sessionId,
+  ]);
+}
+
+/**
+ * Replace the session's reviewers, recording each assignment and removal
+ *
+ * @returns Decisions of the reviewers left assigned
+ */
+async function replaceReviewers(
+  client: TransactionClient,
+  params: {
+    sessionId: string;
+    companyId: string | null;
+    reviewerIds: string[];
+    memberId: string;
+    status: SessionReviewStatus;
+  }
+): Promise<(ReviewDecision | null)[]> {
+  const { sessionId, companyId, reviewerIds, memberId, status } = params;
+
+  const members = await client.query(
+    'SELECT id FROM members WHERE company_id = $1 AND id = ANY($2::uuid[])',
+    [companyId, reviewerIds]
+  );
+  if (members.rows.length !== reviewerIds.length) {
+    throw new ValidationError('Reviewers must be members of your company', 'INVALID_REVIEWER');
+  }
+
+  const existing = await client.query(
+    'SELECT member_id, decision FROM session_reviewers WHERE session_id = $1',
+    [sessionId]
+  );
+  const current = existing.rows as { member_id: string; decision: ReviewDecision | null }[];
+
+  for (const reviewer of current.filter((r) => !reviewerIds.includes(r.member_id))) {
+    await client.query('DELETE FROM session_reviewers WHERE session_id = $1 AND member_id = $2', [
+      sessionId,
+      reviewer.member_id,
+    ]);
+    await recordReviewEvent(client, {
+      sessionId,
+      action: 'reviewer_removed',
+      fromStatus: status,
+      toStatus: status,
+      reviewerId: reviewer.member_id,
+      memberId,
+    });
+  }
+
+  for (const reviewerId of reviewerIds.filter((id) => !current.some((r) => r.member_id === id))) {
+    await client.query(
+      `INSERT INTO session_reviewers (session_id, member_id, assigned_by)
+       VALUES ($1, $2, $3)`,
+      [sessionId, reviewerId, memberId]
+    );
+    await recordReviewEvent(client, {
+      sessionId,
+      action: 'reviewer_assigned',
+      fromStatus: status,
+      toStatus: status,
+      reviewerId,
+      memberId,
+    });
+  }
+
+  return reviewerIds.map((id) => current.find((r) => r.member_id === id)?.decision ?? null);
+}
+
+function assertUnlocked(status: SessionReviewStatus | undefined) {
+  if (status === 'approved') {
+    throw new ConflictError(
+      'This session is approved and locked. Reopen it to make changes.',
+      'SESSION_LOCKED'
+    );
+  }
+}
+
+/**
+ * Reject edits to an approved session
+ *
+ * An early check, so requests fail before doing any work. Writes repeat it
+ * with lockSessionForEdit in their transaction, since the session can be
+ * approved in between.
+ *
+ * @param sessionId - Session about to be edited
+ * @throws ConflictError (SESSION_LOCKED) when the session is approved
+ */
+export async function ensureSessionUnlocked(sessionId: string): Promise<void> {
+  const session = await queryOne<{ review_status: SessionReviewStatus }>(
+    'SELECT review_status FROM sessions WHERE id = $1',
+    [sessionId]
+  );
+
+  assertUnlocked(session?.review_status);
+}
+
+/**
+ * Reject edits to an approved session, inside the transaction that edits it
+ *
+ * The session row stays share-locked until the transaction ends. Review
+ * changes lock it for update, so an approval waits for the edit to commit,
+ * and an edit that starts after an approval sees it.
+ *
+ * @param client - Transaction the edit is written in
+ * @param sessionId - Session being edited
+ * @throws ConflictError (SESSION_LOCKED) when the session is approved
+ */
+export async function lockSessionForEdit(
+  client: TransactionClient,
+  sessionId: string
+): Promise<void> {
+  const result = await client.query('SELECT review_status FROM sessions WHERE id = $1 FOR SHARE', [
+    sessionId,
+  ]);
+  const session = result.rows[0] as { review_status: SessionReviewStatus } | undefined;
+
+  assertUnlocked(session?.review_status);
+}
+
+/**
+ * Get a session's review status, reviewers, and recorded review events
+ *
+ * @param sessionId - Session to read
+ * @returns Review state with events newest first
+ */
+export async function getSessionReview(sessionId: string): Promise<SessionReview> {
+  const session = await queryOne<{ review_status: SessionReviewStatus }>(
+    'SELECT review_status FROM sessions WHERE id = $1',
+    [sessionId]
+  );
+
+  if (!session) {
+    throw new NotFoundError('Session');
+  }
+
+  const reviewers = await query<SessionReviewer>(
+    `SELECT r.member_id, m.name, m.email, r.assigned_by, r.decision, r.decided_at, r.created_at
+     FROM session_reviewers r
+     JOIN members m ON m.id = r.member_id
+     WHERE r.session_id = $1
+     ORDER BY r.created_at, m.name`,
+    [sessionId]
+  );
+
+  const events = await query<SessionReviewEvent>(
+    `SELECT e.*, rm.name as reviewer_name, am.name as member_name
+     FROM session_review_events e
+     LEFT JOIN members rm ON rm.id = e.reviewer_id
+     LEFT JOIN members am ON am.id = e.member_id
+     WHERE e.session_id = $1
+     ORDER BY e.created_at DESC`,
+    [sessionId]
+  );
+
+  return { review_status: session.review_status, reviewers, events };
+}
+
+/**
+ * Submit a draft (or a session with requested changes) for review
+ *
+ * Reviewers are replaced with the given list and every reviewer's decision is
+ * cleared, so each round is decided afresh.
+ */
+export async function submitForReview(params: {
+  sessionId: string;
+  companyId: string | null;
+  reviewerIds: string[];
+  comment: string | null;
+  memberId: string;
+}): Promise<void> {
+  const { sessionId, companyId, reviewerIds, comment, memberId } = params;
+
+  await transaction(async (client) => {
+    const status = await lockSessionForReview(client, sessionId, companyId);
+    assertStatus(status, ['draft', 'changes_requested'], 'submit for review');
+
+    await replaceReviewers(client, { sessionId, companyId, reviewerIds, memberId, status });
+    await client.query(
+      'UPDATE session_reviewers SET decision = NULL, decided_at = NULL WHERE session_id = $1',
+      [sessionId]
+    );
+
+    await setReviewStatus(client, sessionId, 'in_review');
+    await recordReviewEvent(client, {
+      sessionId,
+      action: 'submitted',
+      fromStatus: status,
+      toStatus: 'in_review',
+      comment,
+      memberId,
+    });
+  });
+}
+
+/**
+ * Change who reviews a session in review
+ *
+ * Removing the last reviewer who hadn't decided approves the session when
+ * everyone left has approved.
+ */
+export async function updateReviewers(params: {
+  sessionId: string;
+  companyId: string | null;
+  reviewerIds: string[];
+  memberId: string;
+}): Promise<void> {
+  const { sessionId, companyId, reviewerIds, memberId } = params;
+
+  await transaction(async (client) => {
+    const status = await lockSessionForReview(client, sessionId, companyId);
+    assertStatus(status, ['in_review'], 'change reviewers');
+
+    const decisions = await replaceReviewers(client, {
+      sessionId,
+      companyId,
+      reviewerIds,
+      memberId,
+      status,
+    });
+
+    if (decisions.length > 0 && decisions.every((decision) => decision === 'approved')) {
+      await setReviewStatus(client, sessionId, 'approved');
+      await recordReviewEvent(client, {
+        sessionId,
+        action: 'approved',
+        fromStatus: status,
+        toStatus: 'approved',
+        comment: 'Every remaining reviewer has approved',
+        memberId,
+      });
+    }
+  });
+}
+
+/**
+ * Record a reviewer's decision
+ *
+ * Requesting changes sends the session back to its editors. Approving locks
+ * the session once every reviewer has approved.
+ *
+ * @throws AuthorizationError (NOT_A_REVIEWER) when the member isn't an assigned reviewer
+ */
+export async function decideReview(params: {
+  sessionId: string;
+  companyId: string | null;
+  decision: ReviewDecision;
+  comment: string | null;
+  memberId: string;
+}): Promise<void> {
+  const { sessionId, companyId, decision, comment, memberId } = params;
+
+  await transaction(async (client) => {
+    const status = await lockSessionForReview(client, sessionId, companyId);
+    assertStatus(status, ['in_review'], decision === 'approved' ? 'approve' : 'request changes');
+
+    const updated = await client.query(
+      `UPDATE session_reviewers SET decision = $1, decided_at = NOW()
+       WHERE session_id = $2 AND member_id = $3`,
+      [decision, sessionId, memberId]
+    );
+    if (!updated.rowCount) {
+      throw new AuthorizationError(
+        'Only assigned reviewers can decide on this session',
+        'NOT_A_REVIEWER'
+      );
+    }
+
+    let nextStatus: SessionReviewStatus = 'changes_requested';
+    if (decision === 'approved') {
+      const pending = await client.query(
+        `SELECT 1 FROM session_reviewers
+         WHERE session_id = $1 AND decision IS DISTINCT FROM 'approved'`,
+        [sessionId]
+      );
+      nextStatus = pending.rows.length === 0 ? 'approved' : 'in_review';
+    }
+
+    if (nextStatus !== status) {
+      await setReviewStatus(client, sessionId, nextStatus);
+    }
+    await recordReviewEvent(client, {
+      sessionId,
+      action: decision,
+      fromStatus: status,
+      toStatus: nextStatus,
+      comment,
+      memberId,
+    });
+  });
+}
+
+/**
+ * Return a session to draft, unlocking it if it was approved
+ */
+export async function reopenReview(params: {
+  sessionId: string;
+  companyId: string | null;
+  comment: string | null;
+  memberId: string;
+}): Promise<void> {
+  const { sessionId, companyId, comment, memberId } = params;
+
+  await transaction(async (client) => {
+    const status = await lockSessionForReview(client, sessionId, companyId);
+    assertStatus(status, ['in_review', 'changes_requested', 'approved'], 'reopen');
+
+    await setReviewStatus(client, sessionId, 'draft');
+    await recordReviewEvent(client, {
+      sessionId,
+      action: 'reopened',
+      fromStatus: status,
+      toStatus: 'draft',
+      comment,
+      memberId,
+    });
+  });
+}
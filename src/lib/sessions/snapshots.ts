@@ -0,0 +1,115 @@
+/**
+ * Session Snapshots
+ *
+ * Captures the field values and section notes an artifact was generated from
+ */
+
+import crypto from 'crypto';
+import { query, transaction } from '@/lib/db/query';
+import {
+  SessionSnapshot,
+  SessionSnapshotContent,
+  SessionSnapshotField,
+  SessionSnapshotNote,
+} from '@/features/sessions/types/session';
+
+type SnapshotSession = {
+  id: string;
+  blueprint_id: string;
+  blueprint_version: number;
+};
+
+/**
+ * Read a session's current field values and section notes in snapshot form
+ *
+ * @param sessionId - Session to read
+ * @param blueprintId - Blueprint version the session is pinned to
+ * @returns Every field (with its value or null) and every section's notes, in blueprint order
+ */
+export async function readSnapshotContent(
+  sessionId: string,
+  blueprintId: string
+): Promise<SessionSnapshotContent> {
+  const fields = await query<SessionSnapshotField>(
+    `SELECT f.id as field_id, f.key, f.label, f.type, f.config,
+            s.key as section_key, s.title as section_title, sfv.value
+     FROM fields f
+     JOIN sections s ON s.id = f.section_id
+     LEFT JOIN session_field_values sfv ON sfv.field_id = f.id AND sfv.session_id = $1
+     WHERE s.blueprint_id = $2
+     ORDER BY s.order_index, f.order_index`,
+    [sessionId, blueprintId]
+  );
+
+  const notes = await query<SessionSnapshotNote>(
+    `SELECT s.id as section_id, s.key as section_key, s.title as section_title,
+            COALESCE(sn.markdown, '') as markdown
+     FROM sections s
+     LEFT JOIN section_notes sn ON sn.section_id = s.id AND sn.session_id = $1
+     WHERE s.blueprint_id = $2
+     ORDER BY s.order_index`,
+    [sessionId, blueprintId]
+  );
+
+  return { fields, notes };
+}
+
+/**
+ * Capture an immutable snapshot of a session's inputs
+ *
+ * A snapshot with identical content is reused, so generating again without
+ * edits links artifacts to the same snapshot. Captures of one session run one
+ * at a time, so repeated requests can't store the same content twice.
+ *
+ * @param session - Session to capture
+ * @param memberId - Member generating or saving the artifact
+ * @param content - Inputs read earlier (e.g. before a slow generation); read now when omitted
+ * @returns The new or reused snapshot
+ */
+export async function captureSessionSnapshot(
+  session: SnapshotSession,
+  memberId: string,
+  content?: SessionSnapshotContent
+): Promise<SessionSnapshot> {
+  const snapshotContent = content ?? (await readSnapshotContent(session.id, session.blueprint_id));
+  const contentHash = crypto
+    .createHash('sha256')
+    .update(JSON.stringify([session.blueprint_id, snapshotContent]))
+    .digest('hex');
+
+  return transaction(async (client) => {
+    await client.query('SELECT pg_advisory_xact_lock(hashtext($1))', [
+      `session_snapshots:${session.id}`,
+    ]);
+
+    const existing = await client.query(
+      `SELECT * FROM session_snapshots
+       WHERE session_id = $1 AND content_hash = $2
+       ORDER BY created_at DESC
+       LIMIT 1`,
+      [session.id, contentHash]
+    );
+
+    if (existing.rows[0]) {
+      return existing.rows[0] as SessionSnapshot;
+    }
+
+    const result = await client.query(
+      `INSERT INTO session_snapshots
+         (session_id, blueprint_id, blueprint_version, content_hash, fields, notes, created_by)
+       VALUES ($1, $2, $3, $4, $5, $6, $7)
+       RETURNING *`,
+      [
+        session.id,
+        session.blueprint_id,
+        session.blueprint_version,
+        contentHash,
+        JSON.stringify(snapshotContent.fields),
+        JSON.stringify(snapshotContent.notes),
+        memberId,
+      ]
+    );
+
+    return result.rows[0] as SessionSnapshot;
+  });
+}
@@ -0,0 +1,154 @@
+/**
+ * Field Value History
+ *
+ * Writes accepted session field values and records each change with its origin
+ */
+
+import { query, TransactionClient } from '@/lib/db/query';
+import { ConflictError } from '@/lib/errors';
+import { lockSessionForEdit } from '@/lib/sessions/review';
+import {
+  FieldValueConflictDetails,
+  FieldValueHistoryEntry,
+  FieldValueOrigin,
+} from '@/features/sessions/types/session';
+
+type ValueChange = {
+  sessionId: string;
+  fieldId: string;
+  previousValue: string | null;
+  value: string | null;
+  origin: FieldValueOrigin;
+  memberId: string;
+  revertedHistoryId?: string;
+};
+
+/**
+ * Record a change to an accepted field value
+ *
+ * @param client - Transaction the value was written in
+ * @param change - What changed, and who changed it
+ */
+export async function recordValueChange(
+  client: TransactionClient,
+  change: ValueChange
+): Promise<void> {
+  await client.query(
+    `INSERT INTO session_field_value_history
+       (session_id, field_id, previous_value, value, origin, reverted_history_id, changed_by)
+     VALUES ($1, $2, $3, $4, $5, $6, $7)`,
+    [
+      change.sessionId,
+      change.fieldId,
+      change.previousValue,
+      change.value,
+      change.origin,
+      change.revertedHistoryId ?? null,
+      change.memberId,
+    ]
+  );
+}
+
+/**
+ * Store an accepted field value and record the change when the value differs
+ *
+ * A pending suggestion on the field is replaced. Its value was never accepted,
+ * so the recorded previous value is empty.
+ *
+ * When baseVersion is given, the write is rejected if someone else changed
+ * the accepted value since that version (unless both set the same value).
+ * Writes to an approved session are rejected.
+ *
+ * @param client - Transaction to write in
+ * @param change - New value, its origin, who set it, and the version it was edited from (previousValue is read here)
+ * @returns Whether the accepted value changed, and its version after the write
+ * @throws ConflictError (FIELD_VALUE_CONFLICT) when the value changed since baseVersion
+ * @throws ConflictError (SESSION_LOCKED) when the session is approved
+ */
+export async function writeFieldValue(
+  client: TransactionClient,
+  change: Omit<ValueChange, 'previousValue'> & { baseVersion?: number }
+): Promise<{ changed: boolean; version: number }> {
+  await lockSessionForEdit(client, change.sessionId);
+
+  const result = await client.query(
+    `SELECT value, reviewed, version FROM session_field_values
+     WHERE session_id = $1 AND field_id = $2
+     FOR UPDATE`,
+    [change.sessionId, change.fieldId]
+  );
+  const current = result.rows[0] as
+    | { value: string | null; reviewed: boolean; version: number }
+    | undefined;
+  const previousValue = current?.reviewed ? current.value : null;
+  const currentVersion = current?.version ?? 0;
+
+  if (
+    change.baseVersion !== undefined &&
+    change.baseVersion !== currentVersion &&
+    (previousValue ?? '') !== (change.value ?? '')
+  ) {
+    const editor = await client.query(
+      `SELECT m.name FROM session_field_value_history h
+       LEFT JOIN members m ON m.id = h.changed_by
+       WHERE h.session_id = $1 AND h.field_id = $2
+       ORDER BY h.created_at DESC
+       LIMIT 1`,
+      [change.sessionId, change.fieldId]
+    );
+    const lastEditor = editor.rows[0] as { name: string | null } | undefined;
+
+    throw new ConflictError(
+      'This field was changed by someone else while you were editing',
+      'FIELD_VALUE_CONFLICT',
+      {
+        field_id: change.fieldId,
+        current_value: previousValue,
+        current_version: currentVersion,
+        changed_by_name: lastEditor?.name ?? null,
+      } satisfies FieldValueConflictDetails
+    );
+  }
+
+  const written = await client.query(
+    `INSERT INTO session_field_values (session_id, field_id, value, reviewed)
+     VALUES ($1, $2, $3, true)
+     ON CONFLICT (session_id, field_id)
+     DO UPDATE SET
+       value = $3,
+       reviewed = true,
+       updated_at = NOW()
+     RETURNING version`,
+    [change.sessionId, change.fieldId, change.value]
+  );
+  const { version } = written.rows[0] as { version: number };
+
+  if ((previousValue ?? '') === (change.value ?? '')) {
+    return { changed: false, version };
+  }
+
+  await recordValueChange(client, { ...change, previousValue });
+  return { changed: true, version };
+}
+
+/**
+ * List recorded changes for a session, newest first
+ *
+ * @param sessionId - Session to list
+ * @param fieldId - Only changes to this field, when given
+ * @returns History entries with the member's name and the field's label
+ */
+export async function listValueHistory(
+  sessionId: string,
+  fieldId?: string
+): Promise<FieldValueHistoryEntry[]> {
+  return query<FieldValueHistoryEntry>(
+    `SELECT h.*, m.name as changed_by_name, f.key as field_key, f.label as field_label
+     FROM session_field_value_history h
+     JOIN fields f ON f.id = h.field_id
+     LEFT JOIN members m ON m.id = h.changed_by
+     WHERE h.session_id = $1 AND ($2::uuid IS NULL OR h.field_id = $2)
+     ORDER BY h.created_at DESC`,
+    [sessionId, fieldId ?? null]
+  );
+}
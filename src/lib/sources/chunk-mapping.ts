@@ -0,0 +1,158 @@
+/**
+ * Chunked Source Mapping
+ *
+ * Maps a source chunk by chunk, reusing stored chunk results (see migration
+ * 024) so only new chunks and changed fields are sent to the AI
+ */
+
+import crypto from 'crypto';
+import { execute, query } from '@/lib/db/query';
+import { logger } from '@/lib/logger';
+import { mapSourceToFields } from '@/lib/ai/openai-client';
+import { FieldCatalogEntry, MappingResult, Suggestion } from '@/features/ai/types/mapping';
+import {
+  ChunkMapping,
+  chunkSourceText,
+  mergeChunkMappings,
+} from '@/features/ai/utils/chunked-mapping';
+
+type StoredChunkMapping = {
+  id: string;
+  start_offset: number;
+  content_hash: string;
+  field_signatures: Record<string, string>;
+  suggestions: Suggestion[];
+  unmapped_summary_by_section: Record<string, string>;
+};
+
+export type ChunkedMappingResult = {
+  result: MappingResult; // Offsets relative to the whole source text
+  chunks_total: number;
+  chunks_mapped: number; // Chunks sent to the AI; the rest came from stored results
+};
+
+function sha256(text: string): string {
+  return crypto.createHash('sha256').update(text).digest('hex');
+}
+
+/**
+ * Map a source's text onto fields in chunks
+ *
+ * A stored chunk result is reused for every field whose catalog entry hasn't
+ * changed since the chunk was mapped; the chunk is only sent to the AI with
+ * the fields it hasn't seen. Unmapped summaries describe content that fits
+ * none of the fields, so they are only replaced when a chunk is mapped
+ * against the whole catalog. Relative dates in reused results stay resolved
+ * against the day they were first mapped.
+ *
+ * @param sourceId - Source the text belongs to
+ * @param sourceText - Extracted text of the source
+ * @param fieldsCatalog - Fields to map onto
+ * @param onChunkMapped - Called after each chunk the AI maps (e.g., to keep a job's claim fresh)
+ * @returns Merged mapping result and how much of it needed the AI
+ */
+export async function mapSourceInChunks(
+  sourceId: string,
+  sourceText: string,
+  fieldsCatalog: FieldCatalogEntry[],
+  onChunkMapped?: () => Promise<void>
+): Promise<ChunkedMappingResult> {
+  const chunks = chunkSourceText(sourceText);
+  const signatures = new Map(
+    fieldsCatalog.map((entry) => [entry.key, sha256(JSON.stringify(entry))])
+  );
+
+  const stored = await query<StoredChunkMapping>(
+    `SELECT id, start_offset, content_hash, field_signatures, suggestions, unmapped_summary_by_section
+     FROM source_chunk_mappings
+     WHERE source_id = $1`,
+    [sourceId]
+  );
+
+  const mappings: ChunkMapping[] = [];
+  const usedIds: string[] = [];
+  let chunksMapped = 0;
+
+  for (const chunk of chunks) {
+    const contentHash = sha256(chunk.text);
+    const cached = stored.find(
+      (row) => row.start_offset === chunk.start && row.content_hash === contentHash
+    );
+
+    if (cached) usedIds.push(cached.id);
+
+    const staleFields = fieldsCatalog.filter(
+      (entry) => cached?.field_signatures[entry.key] !== signatures.get(entry.key)
+    );
+    const staleKeys = new Set(staleFields.map((entry) => entry.key));
+
+    // Stored suggestions for fields that changed or were removed are dropped
+    let suggestions = (cached?.suggestions ?? []).filter(
+      (suggestion) => signatures.has(suggestion.field_key) && !staleKeys.has(suggestion.field_key)
+    );
+    let summaries = cached?.unmapped_summary_by_section ?? {};
+
+    if (staleFields.length > 0) {
+      logger.info('Mapping source chunk', {
+        source_id: sourceId,
+        chunk_start: chunk.start,
+        chunk_length: chunk.text.length,
+        fields_count: staleFields.length,
+        reused: !!cached,
+      });
+
+      const result = await mapSourceToFields(chunk.text, staleFields);
+      chunksMapped++;
+
+      suggestions = [
+        ...suggestions,
+        ...result.suggestions.filter((suggestion) => staleKeys.has(suggestion.field_key)),
+      ];
+
+      if (staleFields.length === fieldsCatalog.length) {
+        summaries = result.unmapped_summary_by_section;
+      }
+
+      const fieldSignatures = {
+        ...cached?.field_signatures,
+        ...Object.fromEntries(staleFields.map((entry) => [entry.key, signatures.get(entry.key)])),
+      };
+
+      await execute(
+        `INSERT INTO source_chunk_mappings
+           (source_id, start_offset, end_offset, content_hash, field_signatures, suggestions,
+            unmapped_summary_by_section)
+         VALUES ($1, $2, $3, $4, $5, $6, $7)
+         ON CONFLICT (source_id, start_offset, content_hash) DO UPDATE
+         SET field_signatures = EXCLUDED.field_signatures,
+             suggestions = EXCLUDED.suggestions,
+             unmapped_summary_by_section = EXCLUDED.unmapped_summary_by_section`,
+        [
+          sourceId,
+          chunk.start,
+          chunk.end,
+          contentHash,
+          JSON.stringify(fieldSignatures),
+          JSON.stringify(suggestions),
+          JSON.stringify(summaries),
+        ]
+      );
+
+      await onChunkMapped?.();
+    }
+
+    mappings.push({ chunk, result: { suggestions, unmapped_summary_by_section: summaries } });
+  }
+
+  // Results for chunks the text is no longer split into (e.g., after a chunk size change)
+  const unusedIds = stored.map((row) => row.id).filter((id) => !usedIds.includes(id));
+  if (unusedIds.length > 0) {
+    await execute('DELETE FROM source_chunk_mappings WHERE id = ANY($1::uuid[])', [unusedIds]);
+  }
+
+  return {
+    result: mergeChunkMappings(mappings, fieldsCatalog),
+    chunks_total: chunks.length,
+    chunks_mapped: chunksMapped,
+  };
+}
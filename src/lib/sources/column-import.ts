@@ -0,0 +1,482 @@
+/**
+ * Column Imports
+ *
+ * Maps the columns of a tabular source (CSV, XLSX) straight onto fields,
+ * without AI, and saves the mapping per blueprint so the next upload of the
+ * same export is mapped automatically (see migration 025)
+ */
+
+import crypto from 'crypto';
+import { execute, query, queryOne, transaction, TransactionClient } from '@/lib/db/query';
+import { NotFoundError, ValidationError } from '@/lib/errors';
+import { logger } from '@/lib/logger';
+import { SuggestedValue } from '@/features/ai/types/mapping';
+import { FieldConfig, FieldType } from '@/features/blueprints/types/blueprint';
+import { isComputedType, isGroupType } from '@/features/blueprints/utils/field-config';
+import { coerceSuggestedValue, validateFieldValue } from '@/features/sessions/utils/field-value';
+import {
+  ColumnImportField,
+  ColumnImportResult,
+  ColumnMapping,
+  ColumnMappingEntry,
+  IngestionJobResult,
+  SavedColumnMapping,
+  Source,
+  SourceColumnsResponse,
+  SourceTable,
+} from '@/features/sources/types/source';
+import {
+  aggregateColumn,
+  isTabularSource,
+  parseSourceTables,
+} from '@/features/sources/utils/tabular';
+import { publishSessionEvent } from '@/lib/sessions/events';
+import { ensureSessionUnlocked, lockSessionForEdit } from '@/lib/sessions/review';
+import { MappingClaim } from '@/lib/sources/map-source';
+
+type ImportField = {
+  id: string;
+  key: string;
+  type: FieldType;
+  label: string;
+  config: FieldConfig;
+  section_title: string;
+};
+
+type ColumnValue = {
+  field: ImportField;
+  value: SuggestedValue;
+  columns: string[];
+  row: number | null; // Null when the value combines every row
+};
+
+type ImportableSource = Pick<
+  Source,
+  'id' | 'session_id' | 'type' | 'filename_or_url' | 'metadata' | 'text_extracted'
+>;
+
+/**
+ * Hash of a table's header row, ignoring case and spacing
+ */
+function headerSignature(columns: string[]): string {
+  const normalized = columns.map((column) => column.trim().toLowerCase().replace(/\s+/g, ' '));
+  return crypto.createHash('sha256').update(JSON.stringify(normalized)).digest('hex');
+}
+
+async function getSessionBlueprint(
+  sessionId: string
+): Promise<{ blueprint_id: string; root_blueprint_id: string }> {
+  const session = await queryOne<{ blueprint_id: string; root_blueprint_id: string }>(
+    `SELECT s.blueprint_id, COALESCE(b.version_of, b.id) as root_blueprint_id
+     FROM sessions s
+     JOIN blueprints b ON b.id = s.blueprint_id
+     WHERE s.id = $1`,
+    [sessionId]
+  );
+
+  if (!session) {
+    throw new NotFoundError('Session');
+  }
+
+  return session;
+}
+
+/**
+ * Fields of a blueprint version that columns can fill (computed fields are derived)
+ */
+async function getImportFields(blueprintId: string): Promise<ImportField[]> {
+  const fields = await query<ImportField>(
+    `SELECT f.id, f.key, f.type, f.label, f.config, s.title as section_title
+     FROM fields f
+     JOIN sections s ON s.id = f.section_id
+     WHERE s.blueprint_id = $1
+     ORDER BY s.order_index, f.order_index`,
+    [blueprintId]
+  );
+
+  return fields.filter((field) => !isComputedType(field.type));
+}
+
+async function getSavedMappings(
+  rootBlueprintId: string,
+  tables: SourceTable[]
+): Promise<(SavedColumnMapping | null)[]> {
+  const signatures = tables.map((table) => headerSignature(table.columns));
+  if (signatures.length === 0) return [];
+
+  const saved = await query<SavedColumnMapping>(
+    `SELECT * FROM blueprint_column_mappings
+     WHERE blueprint_id = $1 AND header_signature = ANY($2::text[])`,
+    [rootBlueprintId, signatures]
+  );
+
+  return signatures.map(
+    (signature) => saved.find((mapping) => mapping.header_signature === signature) ?? null
+  );
+}
+
+function readSourceTables(source: ImportableSource): SourceTable[] {
+  if (!isTabularSource(source)) {
+    throw new ValidationError('Only CSV and XLSX sources can be imported by column', 'NOT_TABULAR');
+  }
+
+  if (source.text_extracted === null) {
+    throw new ValidationError(
+      'The source is still being extracted. Try again once it is ready.',
+      'SOURCE_NOT_EXTRACTED'
+    );
+  }
+
+  return parseSourceTables(source);
+}
+
+/**
+ * Get a tabular source's tables with the fields they can map onto and any
+ * mapping saved for each table's header row
+ *
+ * @throws ValidationError when the source isn't CSV or XLSX, or has no text yet
+ */
+export async function getSourceColumns(source: ImportableSource): Promise<SourceColumnsResponse> {
+  const tables = readSourceTables(source);
+  const session = await getSessionBlueprint(source.session_id);
+  const fields = await getImportFields(session.blueprint_id);
+
+  return {
+    tables,
+    fields: fields.map(
+      (field): ColumnImportField => ({
+        key: field.key,
+        label: field.label,
+        type: field.type,
+        section: field.section_title,
+        sub_fields: isGroupType(field.type) ? field.config?.sub_fields || [] : [],
+      })
+    ),
+    saved_mappings: await getSavedMappings(session.root_blueprint_id, tables),
+  };
+}
+
+/**
+ * Reject mappings that reference missing columns, rows, or fields, or that
+ * fill the same field (or sub-field) from more than one column
+ */
+function validateColumnMapping(
+  table: SourceTable,
+  mapping: ColumnMapping,
+  fields: ImportField[]
+): void {
+  const { row_selection: rowSelection } = mapping;
+
+  if (
+    rowSelection.mode === 'row' &&
+    !table.rows.some((row) => row.number === rowSelection.row_number)
+  ) {
+    throw new ValidationError(`Row ${rowSelection.row_number} is not in the table`, 'INVALID_ROW');
+  }
+
+  const targets = new Set<string>();
+
+  for (const entry of mapping.columns) {
+    if (!table.columns.includes(entry.column)) {
+      throw new ValidationError(`Column "${entry.column}" is not in the table`, 'INVALID_COLUMN');
+    }
+
+    const field = fields.find((f) => f.key === entry.field_key);
+    if (!field) {
+      throw new ValidationError(`Field "${entry.field_key}" does not exist`, 'INVALID_FIELD');
+    }
+
+    if (isGroupType(field.type)) {
+      const subFields = field.config?.sub_fields || [];
+      if (!entry.sub_field_key || !subFields.some((sub) => sub.key === entry.sub_field_key)) {
+        throw new ValidationError(
+          `Choose a column of "${field.label}" for "${entry.column}"`,
+          'INVALID_SUB_FIELD'
+        );
+      }
+    } else if (entry.sub_field_key) {
+      throw new ValidationError(`"${field.label}" has no columns`, 'INVALID_SUB_FIELD');
+    }
+
+    const target = entry.sub_field_key
+      ? `${entry.field_key}.${entry.sub_field_key}`
+      : entry.field_key;
+    if (targets.has(target)) {
+      throw new ValidationError(
+        `"${field.label}" is mapped from more than one column`,
+        'DUPLICATE_FIELD'
+      );
+    }
+    targets.add(target);
+  }
+}
+
+/**
+ * Read each mapped field's value from the table
+ *
+ * Entries whose column or field is missing are skipped, so saved mappings
+ * still apply to a blueprint version without some of their fields.
+ */
+function resolveColumnValues(
+  table: SourceTable,
+  mapping: ColumnMapping,
+  fields: ImportField[]
+): ColumnValue[] {
+  const { row_selection: rowSelection } = mapping;
+  const rows =
+    rowSelection.mode === 'row'
+      ? table.rows.filter((row) => row.number === rowSelection.row_number)
+      : table.rows;
+  const rowNumber = rowSelection.mode === 'row' ? rowSelection.row_number : null;
+
+  const byField = new Map<string, ColumnMappingEntry[]>();
+  for (const entry of mapping.columns) {
+    if (!table.columns.includes(entry.column)) continue;
+    byField.set(entry.field_key, [...(byField.get(entry.field_key) ?? []), entry]);
+  }
+
+  const values: ColumnValue[] = [];
+
+  for (const [fieldKey, entries] of byField) {
+    const field = fields.find((f) => f.key === fieldKey);
+    if (!field) continue;
+
+    const cellsOf = (column: string) => {
+      const index = table.columns.indexOf(column);
+      return rows.map((row) => row.cells[index] ?? '');
+    };
+
+    // Table rows become group rows, with mapped columns as sub-field cells
+    if (isGroupType(field.type)) {
+      const subEntries = entries.filter((entry) => entry.sub_field_key);
+      const columnCells = subEntries.map((entry) => cellsOf(entry.column));
+      const groupRows = rows
+        .map((_, rowIndex) =>
+          Object.fromEntries(
+            subEntries
+              .map((entry, i) => [entry.sub_field_key!, columnCells[i]![rowIndex]!.trim()])
+              .filter(([, cell]) => cell !== '')
+          )
+        )
+        .filter((row) => Object.keys(row).length > 0);
+
+      if (groupRows.length > 0) {
+        values.push({
+          field,
+          value: groupRows,
+          columns: subEntries.map((entry) => entry.column),
+          row: rowNumber,
+        });
+      }
+      continue;
+    }
+
+    const entry = entries[0]!;
+    const value = aggregateColumn(cellsOf(entry.column), entry.aggregate ?? 'first');
+    if (value !== null) {
+      values.push({ field, value, columns: [entry.column], row: rowNumber });
+    }
+  }
+
+  return values;
+}
+
+/**
+ * Store column values as suggestions with full confidence
+ *
+ * Pending suggestions are replaced; values a member already accepted or
+ * edited are kept.
+ *
+ * @param client - Transaction holding the session's edit lock
+ * @returns Counts of stored and discarded values
+ */
+async function storeColumnValues(
+  client: TransactionClient,
+  source: ImportableSource,
+  table: SourceTable,
+  values: ColumnValue[]
+): Promise<{ stored: number; discarded: number }> {
+  let stored = 0;
+  let discarded = 0;
+
+  for (const { field, value: suggested, columns, row } of values) {
+    const value = coerceSuggestedValue(field, suggested);
+
+    if (!value || validateFieldValue(field, value)) {
+      discarded++;
+      continue;
+    }
+
+    const inserted = await client.query(
+      `INSERT INTO session_field_values (session_id, field_id, value, source_provenance, confidence, reviewed)
+       VALUES ($1, $2, $3, $4, 1.0, false)
+       ON CONFLICT (session_id, field_id) DO UPDATE
+       SET value = EXCLUDED.value,
+           source_provenance = EXCLUDED.source_provenance,
+           confidence = EXCLUDED.confidence,
+           updated_at = NOW()
+       WHERE session_field_values.reviewed = false`,
+      [
+        source.session_id,
+        field.id,
+        value,
+        JSON.stringify({
+          source_id: source.id,
+          source_filename: source.filename_or_url,
+          sheet: table.name,
+          columns,
+          row,
+        }),
+      ]
+    );
+
+    if ((inserted.rowCount ?? 0) > 0) {
+      stored++;
+    }
+  }
+
+  return { stored, discarded };
+}
+
+/**
+ * Import a table of a tabular source into the session's fields
+ *
+ * @param params.source - CSV or XLSX source with extracted text
+ * @param params.tableIndex - Table (XLSX sheet) to import from
+ * @param params.mapping - Columns to fields, and which rows to read
+ * @param params.save - Save the mapping for later uploads of the same export
+ * @param params.memberId - Member importing, for the change broadcast
+ * @throws ValidationError when the mapping doesn't match the table or fields
+ * @throws ConflictError (SESSION_LOCKED) when the session is approved
+ */
+export async function importSourceColumns(params: {
+  source: ImportableSource;
+  tableIndex: number;
+  mapping: ColumnMapping;
+  save: boolean;
+  memberId: string;
+}): Promise<ColumnImportResult> {
+  const { source, tableIndex, mapping, save, memberId } = params;
+  await ensureSessionUnlocked(source.session_id);
+
+  const table = readSourceTables(source)[tableIndex];
+  if (!table) {
+    throw new ValidationError('Table not found in source', 'INVALID_TABLE');
+  }
+
+  const session = await getSessionBlueprint(source.session_id);
+  const fields = await getImportFields(session.blueprint_id);
+  validateColumnMapping(table, mapping, fields);
+
+  const values = resolveColumnValues(table, mapping, fields);
+  const { stored, discarded } = await transaction(async (client) => {
+    await lockSessionForEdit(client, source.session_id);
+    return storeColumnValues(client, source, table, values);
+  });
+
+  if (save) {
+    await execute(
+      `INSERT INTO blueprint_column_mappings
+         (blueprint_id, header_signature, headers, columns, row_selection, created_by)
+       VALUES ($1, $2, $3, $4, $5, $6)
+       ON CONFLICT (blueprint_id, header_signature) DO UPDATE
+       SET headers = EXCLUDED.headers,
+           columns = EXCLUDED.columns,
+           row_selection = EXCLUDED.row_selection,
+           created_by = EXCLUDED.created_by`,
+      [
+        session.root_blueprint_id,
+        headerSignature(table.columns),
+        JSON.stringify(table.columns),
+        JSON.stringify(mapping.columns),
+        JSON.stringify(mapping.row_selection),
+        memberId,
+      ]
+    );
+  }
+
+  await publishSessionEvent(source.session_id, { type: 'values_changed', member_id: memberId });
+
+  logger.info('Imported source columns', {
+    session_id: source.session_id,
+    source_id: source.id,
+    columns_count: mapping.columns.length,
+    suggestions_stored: stored,
+    values_discarded: discarded,
+    mapping_saved: save,
+  });
+
+  return {
+    suggestions_count: values.length,
+    suggestions_stored: stored,
+    values_discarded: discarded,
+    mapping_saved: save,
+  };
+}
+
+/**
+ * Apply mappings saved for a tabular source's header rows, if any
+ *
+ * Called once a new upload is extracted, so a known export is mapped without
+ * AI. Saved entries whose column or field no longer exists are skipped.
+ *
+ * @param source - Source with extracted text
+ * @param memberId - Member who uploaded the source, for the change broadcast
+ * @param claim - Hold of the ingestion job attempt that extracted the source
+ * @returns Suggestion counts, or null when no saved mapping matched
+ * @throws ConflictError (SESSION_LOCKED) when the session is approved
+ */
+export async function applySavedColumnMappings(
+  source: ImportableSource,
+  memberId: string | null,
+  claim?: MappingClaim
+): Promise<IngestionJobResult | null> {
+  if (!isTabularSource(source) || source.text_extracted === null) return null;
+
+  const tables = parseSourceTables(source);
+  const session = await getSessionBlueprint(source.session_id);
+  const saved = await getSavedMappings(session.root_blueprint_id, tables);
+  if (!saved.some(Boolean)) return null;
+
+  await ensureSessionUnlocked(source.session_id);
+  const fields = await getImportFields(session.blueprint_id);
+
+  let applied = 0;
+  let suggestionsCount = 0;
+  let suggestionsStored = 0;
+
+  await transaction(async (client) => {
+    await claim?.assertHeld(client);
+    await lockSessionForEdit(client, source.session_id);
+
+    for (const [index, table] of tables.entries()) {
+      const mapping = saved[index];
+      if (!mapping) continue;
+
+      const values = resolveColumnValues(table, mapping, fields);
+      const { stored } = await storeColumnValues(client, source, table, values);
+
+      applied++;
+      suggestionsCount += values.length;
+      suggestionsStored += stored;
+    }
+  });
+
+  await publishSessionEvent(source.session_id, { type: 'values_changed', member_id: memberId });
+
+  logger.info('Applied saved column mappings', {
+    session_id: source.session_id,
+    source_id: source.id,
+    mappings_applied: applied,
+    suggestions_stored: suggestionsStored,
+  });
+
+  return {
+    suggestions_count: suggestionsCount,
+    suggestions_stored: suggestionsStored,
+    summaries_appended: 0,
+    chunks_total: 0,
+    chunks_mapped: 0,
+    column_mappings_applied: applied,
+  };
+}
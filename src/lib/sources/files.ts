@@ -0,0 +1,100 @@
+/**
+ * Source Files
+ *
+ * Original bytes of uploaded source files, kept in storage keyed by the
+ * SHA-256 of their content (see migration 026). Identical uploads, and the
+ * sources of duplicated sessions, share one stored file.
+ *
+ * Storing a file with its source, copying sources that share it, and
+ * deleting an unused file all hold a transaction-level advisory lock on the
+ * hash, so a file can't be deleted before a new source referencing it is
+ * committed.
+ */
+
+import { createHash } from 'crypto';
+import { transaction, TransactionClient } from '@/lib/db/query';
+import { logger } from '@/lib/logger';
+import { getStorage } from '@/lib/storage/storage';
+
+function storageKey(hash: string): string {
+  return `sources/${hash.slice(0, 2)}/${hash}`;
+}
+
+/**
+ * Hold stored files until the transaction ends, so they aren't deleted as
+ * unused before new sources referencing them are committed
+ */
+export async function lockSourceFiles(client: TransactionClient, hashes: string[]): Promise<void> {
+  // Sorted so concurrent transactions take the locks in the same order
+  await client.query(
+    `SELECT pg_advisory_xact_lock(hashtext(hash))
+     FROM (SELECT DISTINCT unnest($1::text[]) AS hash ORDER BY hash) AS file_hashes`,
+    [hashes]
+  );
+}
+
+/**
+ * Store an uploaded file and create the source that references it
+ *
+ * The file is removed again when creating the source fails and no other
+ * source shares it.
+ *
+ * @param createSource - Inserts the source with the given file_hash, in the same transaction
+ * @returns What createSource returned
+ */
+export async function storeSourceFile<T>(
+  data: Buffer,
+  contentType: string,
+  createSource: (client: TransactionClient, fileHash: string) => Promise<T>
+): Promise<T> {
+  const hash = createHash('sha256').update(data).digest('hex');
+
+  try {
+    return await transaction(async (client) => {
+      await lockSourceFiles(client, [hash]);
+      await getStorage().put(storageKey(hash), data, contentType);
+      return createSource(client, hash);
+    });
+  } catch (error) {
+    await deleteSourceFileIfUnused(hash);
+    throw error;
+  }
+}
+
+/**
+ * Read a stored file
+ *
+ * @returns The file's bytes, or null when it is missing from storage
+ */
+export async function readSourceFile(hash: string): Promise<Buffer | null> {
+  return getStorage().get(storageKey(hash));
+}
+
+/**
+ * Remove a stored file once no source references it
+ *
+ * Failures are logged rather than thrown, since the source itself is
+ * already gone; a leftover file is only wasted space.
+ */
+export async function deleteSourceFileIfUnused(hash: string): Promise<void> {
+  try {
+    const deleted = await transaction(async (client) => {
+      await lockSourceFiles(client, [hash]);
+
+      const inUse = await client.query('SELECT id FROM sources WHERE file_hash = $1 LIMIT 1', [
+        hash,
+      ]);
+      if (inUse.rows.length > 0) return false;
+
+      await getStorage().delete(storageKey(hash));
+      return true;
+    });
+
+    if (deleted) logger.info('Deleted source file', { file_hash: hash });
+  } catch (error) {
+    logger.warn('Failed to delete source file', {
+      file_hash: hash,
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+}
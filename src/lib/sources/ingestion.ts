@@ -0,0 +1,467 @@
+/**
+ * Ingestion Jobs
+ *
+ * Postgres-backed queue that extracts a source's text and maps it onto the
+ * session's fields in the background (see migration 023). Each app instance
+ * drains the queue in-process; the worker is started whenever a job is
+ * queued or its status is polled, so no separate process is needed.
+ */
+
+import { query, queryOne, transaction, TransactionClient } from '@/lib/db/query';
+import { ApiError, ValidationError } from '@/lib/errors';
+import { logger } from '@/lib/logger';
+import { extractText } from '@/features/sources/lib/extract-text';
+import { scrapeUrl } from '@/features/sources/lib/scrape-url';
+import {
+  IngestionJob,
+  IngestionJobState,
+  Source,
+  SourceWithJob,
+} from '@/features/sources/types/source';
+import { applySavedColumnMappings } from '@/lib/sources/column-import';
+import { readSourceFile } from '@/lib/sources/files';
+import { mapSource, MappingClaim } from '@/lib/sources/map-source';
+
+const STALE_LOCK_MINUTES = 10; // Running jobs whose lock isn't refreshed by then are reclaimed
+const LOCK_REFRESH_MS = 60 * 1000; // How often the lock is refreshed while text is extracted
+const RETRY_BASE_DELAY_MS = 30 * 1000; // Doubles with every failed attempt
+
+// Columns returned to clients (file_data and locked_at stay server-side)
+const JOB_COLUMNS = `id, session_id, source_id, state, map, reextract, attempts, max_attempts, run_after,
+  error, result, created_by, created_at, updated_at, finished_at`;
+
+type ClaimedJob = IngestionJob & {
+  file_data: Buffer | null;
+};
+
+type EnqueueIngestionJobOptions = {
+  sessionId: string;
+  sourceId: string;
+  map: boolean;
+  reextract?: boolean; // Extract again from the stored original, replacing the source's text
+  createdBy: string | null;
+};
+
+/**
+ * Thrown when another attempt has claimed the job, so this one stops
+ * without recording anything
+ */
+class ClaimLostError extends Error {
+  constructor() {
+    super('Ingestion job was claimed by another attempt');
+    this.name = 'ClaimLostError';
+  }
+}
+
+// Whether this instance is already draining the queue
+let draining = false;
+
+/**
+ * Queue extraction and/or mapping of a source
+ */
+export async function enqueueIngestionJob(
+  options: EnqueueIngestionJobOptions
+): Promise<IngestionJob> {
+  const job = await queryOne<IngestionJob>(
+    `INSERT INTO ingestion_jobs (session_id, source_id, map, reextract, created_by)
+     VALUES ($1, $2, $3, $4, $5)
+     RETURNING ${JOB_COLUMNS}`,
+    [
+      options.sessionId,
+      options.sourceId,
+      options.map,
+      options.reextract ?? false,
+      options.createdBy,
+    ]
+  );
+
+  if (!job) {
+    throw new Error('Failed to queue ingestion job');
+  }
+
+  logger.info('Queued ingestion job', {
+    job_id: job.id,
+    source_id: options.sourceId,
+    map: options.map,
+    reextract: options.reextract ?? false,
+  });
+
+  kickIngestionWorker();
+  return job;
+}
+
+/**
+ * Request AI mapping of a source
+ *
+ * Joins the source's pending job when it hasn't reached mapping yet, returns
+ * the running job when it is already mapping, and queues a new job otherwise.
+ */
+export async function requestSourceMapping(
+  sessionId: string,
+  sourceId: string,
+  memberId: string
+): Promise<IngestionJob> {
+  const joined = await queryOne<IngestionJob>(
+    `UPDATE ingestion_jobs
+     SET map = true, updated_at = NOW()
+     WHERE id = (
+       SELECT id FROM ingestion_jobs
+       WHERE source_id = $1 AND state IN ('queued', 'extracting', 'mapping')
+       ORDER BY created_at DESC
+       LIMIT 1
+     )
+     RETURNING ${JOB_COLUMNS}`,
+    [sourceId]
+  );
+
+  if (joined) {
+    kickIngestionWorker();
+    return joined;
+  }
+
+  return enqueueIngestionJob({ sessionId, sourceId, map: true, createdBy: memberId });
+}
+
+/**
+ * Queue a failed job again, with its attempts reset
+ *
+ * @returns The queued job, or null when the job isn't failed
+ */
+export async function retryIngestionJob(
+  sessionId: string,
+  jobId: string
+): Promise<IngestionJob | null> {
+  const job = await queryOne<IngestionJob>(
+    `UPDATE ingestion_jobs
+     SET state = 'queued', attempts = 0, run_after = NOW(), error = NULL,
+         finished_at = NULL, updated_at = NOW()
+     WHERE id = $1 AND session_id = $2 AND state = 'failed'
+     RETURNING ${JOB_COLUMNS}`,
+    [jobId, sessionId]
+  );
+
+  if (job) {
+    logger.info('Retrying ingestion job', { job_id: jobId });
+    kickIngestionWorker();
+  }
+
+  return job;
+}
+
+/**
+ * List a session's jobs, newest first
+ *
+ * @param ids - Only these jobs, when given
+ */
+export async function listIngestionJobs(
+  sessionId: string,
+  ids?: string[]
+): Promise<IngestionJob[]> {
+  return ids
+    ? query<IngestionJob>(
+        `SELECT ${JOB_COLUMNS} FROM ingestion_jobs
+         WHERE session_id = $1 AND id::text = ANY($2::text[])
+         ORDER BY created_at DESC`,
+        [sessionId, ids]
+      )
+    : query<IngestionJob>(
+        `SELECT ${JOB_COLUMNS} FROM ingestion_jobs
+         WHERE session_id = $1
+         ORDER BY created_at DESC`,
+        [sessionId]
+      );
+}
+
+/**
+ * List a session's sources, each with its latest job
+ */
+export async function listSourcesWithJobs(sessionId: string): Promise<SourceWithJob[]> {
+  return query<SourceWithJob>(
+    `SELECT s.*,
+            (SELECT to_jsonb(j) FROM (
+               SELECT ${JOB_COLUMNS} FROM ingestion_jobs
+               WHERE source_id = s.id
+               ORDER BY created_at DESC
+               LIMIT 1
+             ) j) as job
+     FROM sources s
+     WHERE s.session_id = $1
+     ORDER BY s.created_at DESC`,
+    [sessionId]
+  );
+}
+
+/**
+ * Start draining the queue on this instance, unless it already is
+ */
+export function kickIngestionWorker(): void {
+  if (draining) return;
+  draining = true;
+
+  drainQueue()
+    .catch((error) => {
+      logger.error('Ingestion worker stopped', {
+        error: error instanceof Error ? error.message : String(error),
+      });
+    })
+    .finally(() => {
+      draining = false;
+    });
+}
+
+async function drainQueue(): Promise<void> {
+  let job = await claimJob();
+  while (job) {
+    await runJob(job);
+    job = await claimJob();
+  }
+}
+
+/**
+ * Claim the next ready job, or a running job whose instance stopped
+ * responding, counting the attempt
+ */
+async function claimJob(): Promise<ClaimedJob | null> {
+  return queryOne<ClaimedJob>(
+    `UPDATE ingestion_jobs
+     SET state = 'extracting', attempts = attempts + 1, locked_at = NOW(), updated_at = NOW()
+     WHERE id = (
+       SELECT id FROM ingestion_jobs
+       WHERE (state = 'queued' AND run_after <= NOW())
+          OR (state IN ('extracting', 'mapping')
+              AND locked_at < NOW() - INTERVAL '${STALE_LOCK_MINUTES} minutes')
+       ORDER BY run_after, created_at
+       LIMIT 1
+       FOR UPDATE SKIP LOCKED
+     )
+     RETURNING ${JOB_COLUMNS}, file_data`
+  );
+}
+
+/**
+ * Update a job, unless another attempt has claimed it since
+ *
+ * @returns The job's state after the update, or null when it was reclaimed
+ */
+async function updateJob(
+  job: ClaimedJob,
+  set: string,
+  params: unknown[] = []
+): Promise<IngestionJobState | null> {
+  const row = await queryOne<{ state: IngestionJobState }>(
+    `UPDATE ingestion_jobs
+     SET ${set}, updated_at = NOW()
+     WHERE id = $1 AND attempts = $2
+     RETURNING state`,
+    [job.id, job.attempts, ...params]
+  );
+
+  return row?.state ?? null;
+}
+
+/**
+ * Hold of a job attempt while it is in the given state: each mapped chunk
+ * refreshes the lock so the job isn't reclaimed as stopped, and results are
+ * only written while the attempt still holds the job (the row stays locked
+ * until they are)
+ */
+function attemptClaim(job: ClaimedJob, state: IngestionJobState): MappingClaim {
+  return {
+    refresh: async () => {
+      // Stop spending AI calls once another attempt has the job
+      if (!(await updateJob(job, 'locked_at = NOW()'))) throw new ClaimLostError();
+    },
+    assertHeld: async (client: TransactionClient) => {
+      const result = await client.query(
+        `UPDATE ingestion_jobs
+         SET locked_at = NOW(), updated_at = NOW()
+         WHERE id = $1 AND attempts = $2 AND state = $3
+         RETURNING id`,
+        [job.id, job.attempts, state]
+      );
+      if (result.rows.length === 0) throw new ClaimLostError();
+    },
+  };
+}
+
+/**
+ * Run a step that reports no progress, such as text extraction, refreshing
+ * the job's lock meanwhile so a slow file or URL isn't reclaimed as stopped
+ */
+async function withLockRefresh<T>(job: ClaimedJob, step: () => Promise<T>): Promise<T> {
+  const refresh = setInterval(() => {
+    updateJob(job, 'locked_at = NOW()').catch((error) => {
+      logger.warn('Failed to refresh ingestion job lock', {
+        job_id: job.id,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    });
+  }, LOCK_REFRESH_MS);
+
+  try {
+    return await step();
+  } finally {
+    clearInterval(refresh);
+  }
+}
+
+/**
+ * Get a source's text, extracting it from the uploaded file or URL
+ *
+ * Uploads are read from storage (see migration 026). Uploads queued before
+ * that are held by the job, or by an earlier job of the source whose
+ * extraction failed, when mapping was requested again instead of retrying it.
+ */
+async function extractSourceText(job: ClaimedJob, source: Source): Promise<string> {
+  if (source.type === 'url' && source.filename_or_url) {
+    return scrapeUrl(source.filename_or_url);
+  }
+
+  const upload = source.file_hash
+    ? await readSourceFile(source.file_hash)
+    : (job.file_data ??
+      (
+        await queryOne<{ file_data: Buffer }>(
+          `SELECT file_data FROM ingestion_jobs
+           WHERE source_id = $1 AND file_data IS NOT NULL
+           ORDER BY created_at DESC
+           LIMIT 1`,
+          [source.id]
+        )
+      )?.file_data);
+
+  if (source.type === 'file' && upload) {
+    const mimeType = (source.metadata?.mimeType as string | undefined) || '';
+    const file = new File([new Uint8Array(upload)], source.filename_or_url || 'upload', {
+      type: mimeType,
+    });
+    return extractText(file);
+  }
+
+  throw new ValidationError(
+    source.file_hash ? 'Original file is missing from storage' : 'Source has no content to extract'
+  );
+}
+
+async function runJob(job: ClaimedJob): Promise<void> {
+  if (job.attempts > job.max_attempts) {
+    await updateJob(job, `state = 'failed', error = $3, locked_at = NULL, finished_at = NOW()`, [
+      'Job stopped responding',
+    ]);
+    logger.warn('Ingestion job failed after it stopped responding', { job_id: job.id });
+    return;
+  }
+
+  try {
+    const source = await queryOne<Source>('SELECT * FROM sources WHERE id = $1', [job.source_id]);
+    if (!source) return; // Deleted with its jobs
+
+    let text = source.text_extracted;
+    if (text === null || job.reextract) {
+      const extracted = await withLockRefresh(job, () => extractSourceText(job, source));
+      const extractionClaim = attemptClaim(job, 'extracting');
+
+      // A reclaimed attempt must not overwrite text a newer attempt may have saved
+      await transaction(async (client) => {
+        await extractionClaim.assertHeld(client);
+        await client.query('UPDATE sources SET text_extracted = $2 WHERE id = $1', [
+          source.id,
+          extracted,
+        ]);
+        await client.query('UPDATE ingestion_jobs SET file_data = NULL WHERE source_id = $1', [
+          source.id,
+        ]);
+      });
+      text = extracted;
+
+      logger.info('Extracted source text', {
+        job_id: job.id,
+        source_id: source.id,
+        text_length: text.length,
+      });
+
+      // A mapping saved for the same export maps the upload without AI
+      const columnResult = await applySavedColumnMappings(
+        { ...source, text_extracted: text },
+        job.created_by,
+        extractionClaim
+      );
+
+      if (columnResult) {
+        await updateJob(
+          job,
+          `state = 'done', result = $3, locked_at = NULL, error = NULL, finished_at = NOW()`,
+          [JSON.stringify(columnResult)]
+        );
+        return;
+      }
+    }
+
+    // Mapping may have been requested while extracting, so the flag is read again here
+    const state = await updateJob(
+      job,
+      `state = CASE WHEN map THEN 'mapping' ELSE 'done' END,
+       locked_at = CASE WHEN map THEN locked_at END,
+       finished_at = CASE WHEN map THEN NULL ELSE NOW() END`
+    );
+
+    if (state !== 'mapping') return;
+
+    const result = await mapSource(
+      { ...source, text_extracted: text },
+      job.created_by,
+      attemptClaim(job, 'mapping')
+    );
+
+    await updateJob(
+      job,
+      `state = 'done', result = $3, locked_at = NULL, error = NULL, finished_at = NOW()`,
+      [JSON.stringify(result)]
+    );
+  } catch (error) {
+    if (error instanceof ClaimLostError) {
+      logger.info('Ingestion job attempt stopped after it was reclaimed', {
+        job_id: job.id,
+        attempt: job.attempts,
+      });
+      return;
+    }
+    await failAttempt(job, error);
+  }
+}
+
+/**
+ * Record a failed attempt: queue the job again after a backoff, or fail it
+ * for good once it is out of attempts or the error won't go away on retry
+ * (unsupported file, locked session)
+ */
+async function failAttempt(job: ClaimedJob, error: unknown): Promise<void> {
+  const message = error instanceof Error ? error.message : String(error);
+  const retryable = !(error instanceof ApiError) && job.attempts < job.max_attempts;
+
+  logger.warn('Ingestion job attempt failed', {
+    job_id: job.id,
+    source_id: job.source_id,
+    attempt: job.attempts,
+    retryable,
+    error: message,
+  });
+
+  if (!retryable) {
+    // The uploaded file is kept so a manual retry can extract it again
+    await updateJob(job, `state = 'failed', error = $3, locked_at = NULL, finished_at = NOW()`, [
+      message,
+    ]);
+    return;
+  }
+
+  const delayMs = RETRY_BASE_DELAY_MS * 2 ** (job.attempts - 1);
+  await updateJob(
+    job,
+    `state = 'queued', error = $3, locked_at = NULL,
+     run_after = NOW() + $4 * INTERVAL '1 millisecond'`,
+    [message, delayMs]
+  );
+
+  setTimeout(kickIngestionWorker, delayMs).unref?.();
+}
@@ -0,0 +1,246 @@
+/**
+ * Source Mapping
+ *
+ * Maps a source's extracted text onto the session's blueprint fields with AI,
+ * storing suggestions and appending unmapped content to section notes
+ */
+
+import { query, queryOne, transaction, TransactionClient } from '@/lib/db/query';
+import { logger } from '@/lib/logger';
+import { FieldCatalogEntry } from '@/features/ai/types/mapping';
+import { FieldConfig, FieldType } from '@/features/blueprints/types/blueprint';
+import { hasOptions, isComputedType, isGroupType } from '@/features/blueprints/utils/field-config';
+import { coerceSuggestedValue, validateFieldValue } from '@/features/sessions/utils/field-value';
+import { IngestionJobResult } from '@/features/sources/types/source';
+import { publishSessionEvent } from '@/lib/sessions/events';
+import { ensureSessionUnlocked, lockSessionForEdit } from '@/lib/sessions/review';
+import { mapSourceInChunks } from '@/lib/sources/chunk-mapping';
+
+type Field = {
+  id: string;
+  section_id: string;
+  key: string;
+  type: FieldType;
+  label: string;
+  help_text: string | null;
+  config: FieldConfig;
+  order_index: number;
+};
+
+type Section = {
+  id: string;
+  blueprint_id: string;
+  order_index: number;
+  title: string;
+  description: string | null;
+};
+
+type MappableSource = {
+  id: string;
+  session_id: string;
+  filename_or_url: string | null;
+  text_extracted: string;
+};
+
+/**
+ * An ingestion job attempt's hold on the mapping, so an attempt whose job was
+ * reclaimed stops before writing the same suggestions and notes again
+ */
+export type MappingClaim = {
+  /** Keep the claim from going stale while chunks are mapped */
+  refresh: () => Promise<void>;
+  /** Throw unless the attempt still holds the job, in the transaction that writes the results */
+  assertHeld: (client: TransactionClient) => Promise<void>;
+};
+
+/**
+ * Map a source onto its session's fields
+ *
+ * Long sources are mapped in chunks, reusing stored chunk results where the
+ * fields haven't changed. Suggestions are only stored for fields without a
+ * value, and values that don't fit their field are discarded.
+ *
+ * @param source - Source with extracted text
+ * @param memberId - Member who asked for the mapping, for the change broadcast
+ * @param claim - Hold of the ingestion job attempt running the mapping
+ * @returns Suggestion, note, and chunk counts
+ * @throws ConflictError (SESSION_LOCKED) when the session is approved
+ */
+export async function mapSource(
+  source: MappableSource,
+  memberId: string | null,
+  claim?: MappingClaim
+): Promise<IngestionJobResult> {
+  const sessionId = source.session_id;
+  await ensureSessionUnlocked(sessionId);
+
+  const session = await queryOne<{ blueprint_id: string }>(
+    'SELECT blueprint_id FROM sessions WHERE id = $1',
+    [sessionId]
+  );
+
+  if (!session) {
+    throw new Error('Session no longer exists');
+  }
+
+  // Fetch blueprint structure (sections and fields)
+  const sections = await query<Section>(
+    'SELECT * FROM sections WHERE blueprint_id = $1 ORDER BY order_index',
+    [session.blueprint_id]
+  );
+
+  const fields = await query<Field>(
+    `SELECT f.* FROM fields f
+     JOIN sections s ON s.id = f.section_id
+     WHERE s.blueprint_id = $1
+     ORDER BY s.order_index, f.order_index`,
+    [session.blueprint_id]
+  );
+
+  // Computed fields are derived from other values, so the AI doesn't fill them
+  const mappableFields = fields.filter((field) => !isComputedType(field.type));
+
+  // Build field catalog with section context
+  const fieldsCatalog: FieldCatalogEntry[] = mappableFields.map((field) => {
+    const section = sections.find((s) => s.id === field.section_id);
+    return {
+      key: field.key,
+      label: field.label,
+      help_text: field.help_text,
+      type: field.type,
+      section: section?.title || 'Unknown Section',
+      ...(hasOptions(field.type) && {
+        options: (field.config?.options || []).map((o) => o.label),
+      }),
+      ...(isGroupType(field.type) && {
+        sub_fields: field.config?.sub_fields || [],
+      }),
+    };
+  });
+
+  logger.info('Starting AI field mapping', {
+    session_id: sessionId,
+    source_id: source.id,
+    fields_count: mappableFields.length,
+    sections_count: sections.length,
+  });
+
+  // Run AI mapping
+  const mapping = await mapSourceInChunks(
+    source.id,
+    source.text_extracted,
+    fieldsCatalog,
+    claim?.refresh
+  );
+  const result = mapping.result;
+
+  // Write in one transaction that checks the lock, since the session may
+  // have been approved while the AI was working
+  const { suggestionsStored, summariesAppended } = await transaction(async (client) => {
+    await claim?.assertHeld(client);
+    await lockSessionForEdit(client, sessionId);
+
+    // Store suggestions in database
+    let suggestionsStored = 0;
+    for (const suggestion of result.suggestions) {
+      const field = mappableFields.find((f) => f.key === suggestion.field_key);
+      if (!field) {
+        logger.warn('Suggestion for unknown field key', {
+          field_key: suggestion.field_key,
+        });
+        continue;
+      }
+
+      // Coerce to the field type (option lists, numbers, dates, rows) and drop values that don't fit
+      const value = coerceSuggestedValue(field, suggestion.value);
+
+      if (!value || validateFieldValue(field, value)) {
+        logger.warn('Discarded suggestion that does not fit field type', {
+          field_key: suggestion.field_key,
+          field_type: field.type,
+        });
+        continue;
+      }
+
+      // Insert or skip if field already has a value
+      const inserted = await client.query(
+        `INSERT INTO session_field_values (session_id, field_id, value, source_provenance, confidence, reviewed)
+         VALUES ($1, $2, $3, $4, $5, false)
+         ON CONFLICT (session_id, field_id) DO NOTHING`,
+        [
+          sessionId,
+          field.id,
+          value,
+          JSON.stringify({
+            source_id: source.id,
+            offset: suggestion.provenance.offset,
+          }),
+          suggestion.confidence,
+        ]
+      );
+
+      if ((inserted.rowCount ?? 0) > 0) {
+        suggestionsStored++;
+      }
+    }
+
+    // Append unmapped summaries to section notes
+    let summariesAppended = 0;
+    for (const [sectionTitle, summary] of Object.entries(result.unmapped_summary_by_section)) {
+      const section = sections.find((s) => s.title === sectionTitle);
+      if (!section || !summary.trim()) {
+        continue;
+      }
+
+      // Get existing notes or create new
+      const existing = await client.query(
+        'SELECT markdown FROM section_notes WHERE session_id = $1 AND section_id = $2 FOR UPDATE',
+        [sessionId, section.id]
+      );
+      const existingNote = existing.rows[0] as { markdown: string } | undefined;
+
+      const sourceLabel = source.filename_or_url || 'Pasted Text';
+      const newContent = `## From Source: ${sourceLabel}\n\n${summary}`;
+      const updatedMarkdown = existingNote
+        ? `${existingNote.markdown}\n\n${newContent}`
+        : newContent;
+
+      const provenanceTags = JSON.stringify([{ source_id: source.id, tag: sourceLabel }]);
+
+      await client.query(
+        `INSERT INTO section_notes (session_id, section_id, markdown, provenance_tags)
+         VALUES ($1, $2, $3, $4::jsonb)
+         ON CONFLICT (session_id, section_id) DO UPDATE
+         SET markdown = $3,
+             provenance_tags = section_notes.provenance_tags || $4::jsonb,
+             updated_at = NOW()`,
+        [sessionId, section.id, updatedMarkdown, provenanceTags]
+      );
+
+      summariesAppended++;
+    }
+
+    return { suggestionsStored, summariesAppended };
+  });
+
+  // Let every open editor (including whoever asked) see the new suggestions
+  await publishSessionEvent(sessionId, { type: 'values_changed', member_id: memberId });
+
+  logger.info('AI field mapping completed', {
+    session_id: sessionId,
+    source_id: source.id,
+    suggestions_stored: suggestionsStored,
+    summaries_appended: summariesAppended,
+    chunks_total: mapping.chunks_total,
+    chunks_mapped: mapping.chunks_mapped,
+  });
+
+  return {
+    suggestions_count: result.suggestions.length,
+    suggestions_stored: suggestionsStored,
+    summaries_appended: summariesAppended,
+    chunks_total: mapping.chunks_total,
+    chunks_mapped: mapping.chunks_mapped,
+    column_mappings_applied: 0,
+  };
+}
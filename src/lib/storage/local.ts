@@ -0,0 +1,50 @@
+/**
+ * Local filesystem storage driver
+ *
+ * Keys map to paths under the root directory. Files are written to a
+ * temporary name and renamed into place, so readers never see partial files.
+ */
+
+import { randomUUID } from 'crypto';
+import { mkdir, readFile, rename, rm, writeFile } from 'fs/promises';
+import path from 'path';
+import type { StorageDriver } from './storage';
+
+export function createLocalStorage(root: string): StorageDriver {
+  const resolveKey = (key: string): string => {
+    const filePath = path.resolve(root, key);
+    if (!filePath.startsWith(root + path.sep)) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+    return filePath;
+  };
+
+  return {
+    async put(key, data) {
+      const filePath = resolveKey(key);
+      const tempPath = `${filePath}.${randomUUID()}.tmp`;
+
+      await mkdir(path.dirname(filePath), { recursive: true });
+      try {
+        await writeFile(tempPath, data);
+        await rename(tempPath, filePath);
+      } catch (error) {
+        await rm(tempPath, { force: true });
+        throw error;
+      }
+    },
+
+    async get(key) {
+      try {
+        return await readFile(resolveKey(key));
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+        throw error;
+      }
+    },
+
+    async delete(key) {
+      await rm(resolveKey(key), { force: true });
+    },
+  };
+}
@@ -0,0 +1,150 @@
+/**
+ * S3-compatible storage driver
+ *
+ * Talks to the S3 REST API directly with Signature Version 4, so any
+ * S3-compatible service works (AWS S3, MinIO, R2, ...). MinIO-style services
+ * usually need path-style URLs (endpoint/bucket/key) rather than the default
+ * virtual-hosted style (bucket.endpoint/key).
+ */
+
+import { createHash, createHmac } from 'crypto';
+import type { StorageDriver } from './storage';
+
+export type S3StorageOptions = {
+  endpoint: string; // e.g. https://s3.us-east-1.amazonaws.com or http://localhost:9000
+  region: string;
+  bucket: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+  forcePathStyle: boolean;
+};
+
+type SignedRequest = {
+  method: string;
+  url: URL;
+  headers: Record<string, string>; // Lower-case names; all are signed
+  payloadHash: string;
+};
+
+function sha256Hex(data: string | Buffer): string {
+  return createHash('sha256').update(data).digest('hex');
+}
+
+function hmac(key: string | Buffer, data: string): Buffer {
+  return createHmac('sha256', key).update(data).digest();
+}
+
+/**
+ * Percent-encode each path segment as SigV4 expects (RFC 3986 unreserved kept)
+ */
+function encodeKey(key: string): string {
+  return key
+    .split('/')
+    .map((segment) =>
+      encodeURIComponent(segment).replace(
+        /[!'()*]/g,
+        (char) => `%${char.charCodeAt(0).toString(16).toUpperCase()}`
+      )
+    )
+    .join('/');
+}
+
+/**
+ * Build the Authorization header for a request (AWS Signature Version 4),
+ * signed at the time in its x-amz-date header
+ */
+function authorization(request: SignedRequest, options: S3StorageOptions): string {
+  const amzDate = request.headers['x-amz-date']!;
+  const dateStamp = amzDate.slice(0, 8);
+  const scope = `${dateStamp}/${options.region}/s3/aws4_request`;
+
+  const headerNames = Object.keys(request.headers).sort();
+  const canonicalRequest = [
+    request.method,
+    request.url.pathname,
+    '', // No query string
+    headerNames.map((name) => `${name}:${request.headers[name]!.trim()}\n`).join(''),
+    headerNames.join(';'),
+    request.payloadHash,
+  ].join('\n');
+
+  const stringToSign = ['AWS4-HMAC-SHA256', amzDate, scope, sha256Hex(canonicalRequest)].join('\n');
+
+  const signingKey = hmac(
+    hmac(hmac(hmac(`AWS4${options.secretAccessKey}`, dateStamp), options.region), 's3'),
+    'aws4_request'
+  );
+  const signature = createHmac('sha256', signingKey).update(stringToSign).digest('hex');
+
+  return (
+    `AWS4-HMAC-SHA256 Credential=${options.accessKeyId}/${scope}, ` +
+    `SignedHeaders=${headerNames.join(';')}, Signature=${signature}`
+  );
+}
+
+export function createS3Storage(options: S3StorageOptions): StorageDriver {
+  const endpoint = new URL(options.endpoint);
+
+  const objectUrl = (key: string): URL => {
+    const basePath = endpoint.pathname.replace(/\/$/, '');
+    return options.forcePathStyle
+      ? new URL(`${endpoint.origin}${basePath}/${options.bucket}/${encodeKey(key)}`)
+      : new URL(
+          `${endpoint.protocol}//${options.bucket}.${endpoint.host}${basePath}/${encodeKey(key)}`
+        );
+  };
+
+  const send = async (
+    method: 'GET' | 'PUT' | 'DELETE',
+    key: string,
+    body?: Buffer,
+    contentType?: string
+  ): Promise<Response> => {
+    const url = objectUrl(key);
+    const payloadHash = sha256Hex(body ?? '');
+
+    const headers: Record<string, string> = {
+      'x-amz-content-sha256': payloadHash,
+      'x-amz-date': new Date().toISOString().replace(/[-:]|\.\d{3}/g, ''),
+      ...(contentType && { 'content-type': contentType }),
+    };
+
+    // Host is signed but not sent; fetch sets it from the same URL
+    const signature = authorization(
+      { method, url, headers: { ...headers, host: url.host }, payloadHash },
+      options
+    );
+
+    return fetch(url, {
+      method,
+      headers: { ...headers, authorization: signature },
+      body: body ? new Uint8Array(body) : undefined,
+    });
+  };
+
+  const fail = async (action: string, key: string, response: Response): Promise<never> => {
+    const detail = (await response.text()).match(/<Code>([^<]+)<\/Code>/)?.[1];
+    throw new Error(
+      `S3 ${action} failed for ${key}: ${response.status}${detail ? ` ${detail}` : ''}`
+    );
+  };
+
+  return {
+    async put(key, data, contentType) {
+      const response = await send('PUT', key, data, contentType || 'application/octet-stream');
+      if (!response.ok) await fail('upload', key, response);
+    },
+
+    async get(key) {
+      const response = await send('GET', key);
+      if (response.status === 404) return null;
+      if (!response.ok) await fail('download', key, response);
+      return Buffer.from(await response.arrayBuffer());
+    },
+
+    async delete(key) {
+      const response = await send('DELETE', key);
+      if (!response.ok && response.status !== 404) await fail('delete', key, response);
+    },
+  };
+}
@@ -0,0 +1,69 @@
+/**
+ * File Storage
+ *
+ * Pluggable backend for stored files (original source uploads, see
+ * migration 026). STORAGE_DRIVER picks the backend:
+ *
+ * - local (default): files under STORAGE_LOCAL_DIR (./storage)
+ * - s3: an S3-compatible bucket (AWS S3, MinIO, R2, ...) configured by the
+ *   S3_* variables; set S3_FORCE_PATH_STYLE=true for MinIO-style endpoints
+ */
+
+import path from 'path';
+import { createLocalStorage } from './local';
+import { createS3Storage } from './s3';
+
+export interface StorageDriver {
+  /** Write a file, replacing any file stored under the key */
+  put(key: string, data: Buffer, contentType: string): Promise<void>;
+  /** Read a file, or null when nothing is stored under the key */
+  get(key: string): Promise<Buffer | null>;
+  /** Remove a file; removing a missing file is not an error */
+  delete(key: string): Promise<void>;
+}
+
+let storage: StorageDriver | null = null;
+
+function requireEnv(name: string): string {
+  const value = process.env[name];
+  if (!value) {
+    throw new Error(`${name} environment variable is required for S3 storage`);
+  }
+  return value;
+}
+
+function createStorage(): StorageDriver {
+  const driver = process.env.STORAGE_DRIVER || 'local';
+
+  switch (driver) {
+    case 'local':
+      return createLocalStorage(
+        path.resolve(process.env.STORAGE_LOCAL_DIR || path.join(process.cwd(), 'storage'))
+      );
+
+    case 's3': {
+      const region = process.env.S3_REGION || 'us-east-1';
+      return createS3Storage({
+        endpoint: process.env.S3_ENDPOINT || `https://s3.${region}.amazonaws.com`,
+        region,
+        bucket: requireEnv('S3_BUCKET'),
+        accessKeyId: requireEnv('S3_ACCESS_KEY_ID'),
+        secretAccessKey: requireEnv('S3_SECRET_ACCESS_KEY'),
+        forcePathStyle: process.env.S3_FORCE_PATH_STYLE === 'true',
+      });
+    }
+
+    default:
+      throw new Error(`Unknown STORAGE_DRIVER: ${driver}`);
+  }
+}
+
+/**
+ * Get the configured storage backend, created on first use
+ */
+export function getStorage(): StorageDriver {
+  if (!storage) {
+    storage = createStorage();
+  }
+  return storage;
+}
@@ -0,0 +1,38 @@
+/**
+ * Resolve a formatting locale from an Accept-Language header
+ *
+ * Examples:
+ * - "de-DE,de;q=0.9,en;q=0.8" -> "de-DE"
+ * - "fr;q=0.5, en-GB;q=0.9" -> "en-GB"
+ * - null -> "en-US"
+ *
+ * @param acceptLanguage - Raw Accept-Language header value
+ * @param fallback - Locale used when the header is missing or unsupported
+ * @returns A locale supported by Intl.NumberFormat
+ */
+export function resolveLocale(acceptLanguage: string | null, fallback: string = 'en-US'): string {
+  if (!acceptLanguage) return fallback;
+
+  const candidates = acceptLanguage
+    .split(',')
+    .map((part) => {
+      const [tag, ...params] = part.trim().split(';');
+      const qParam = params.find((p) => p.trim().startsWith('q='));
+      const q = qParam ? parseFloat(qParam.trim().slice(2)) : 1;
+      return { tag: tag?.trim() ?? '', q: Number.isNaN(q) ? 0 : q };
+    })
+    .filter((c) => c.tag && c.tag !== '*')
+    .sort((a, b) => b.q - a.q);
+
+  for (const { tag } of candidates) {
+    try {
+      if (Intl.NumberFormat.supportedLocalesOf(tag).length > 0) {
+        return tag;
+      }
+    } catch {
+      // Invalid language tag, try the next one
+    }
+  }
+
+  return fallback;
+}